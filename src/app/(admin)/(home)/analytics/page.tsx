@@ -7,6 +7,7 @@ import SessionChart from "@/components/analytics/SessionChart";
 import TopChannel from "@/components/analytics/TopChannel";
 import TopPages from "@/components/analytics/TopPages";
 import DemographicCard from "@/components/ecommerce/DemographicCard";
+import { listRecentOrders } from "@/lib/orders";
 import { Metadata } from "next";
 import React from "react";
 
@@ -16,7 +17,11 @@ export const metadata: Metadata = {
     "This is Next.js Analytics Dashboard page for TailAdmin - Next.js Tailwind CSS Admin Dashboard Template",
 };
 
-export default function Analytics() {
+// Reads the orders on every request instead of once at build time
+export const dynamic = "force-dynamic";
+
+export default async function Analytics() {
+  const recentOrders = await listRecentOrders(7);
   return (
     <div className="grid grid-cols-12 gap-4 md:gap-6">
       <div className="col-span-12">
@@ -47,7 +52,7 @@ export default function Analytics() {
       </div>
 
       <div className="col-span-12 xl:col-span-7">
-        <RecentOrderAnalytics />
+        <RecentOrderAnalytics orders={recentOrders} />
       </div>
     </div>
   );
@@ -4,6 +4,7 @@ import CrmStatisticsChart from "@/components/crm/CrmStatisticsChart";
 import EstimatedRevenue from "@/components/crm/EstimatedRevenue";
 import SalePieChart from "@/components/crm/SalePieChart";
 import UpcomingSchedule from "@/components/crm/UpcomingSchedule";
+import { listRecentOrders } from "@/lib/orders";
 import { Metadata } from "next";
 
 export const metadata: Metadata = {
@@ -12,7 +13,11 @@ export const metadata: Metadata = {
     "This is Next.js CRM Dashboard page for TailAdmin - Next.js Tailwind CSS Admin Dashboard Template",
 };
 
-export default function Crm() {
+// Reads the orders on every request instead of once at build time
+export const dynamic = "force-dynamic";
+
+export default async function Crm() {
+  const recentOrders = await listRecentOrders(5);
   return (
     <div className="grid grid-cols-12 gap-4 md:gap-6">
       <div className="col-span-12">
@@ -36,7 +41,7 @@ export default function Crm() {
       </div>
 
       <div className="col-span-12">
-        <CrmRecentOrderTable />
+        <CrmRecentOrderTable orders={recentOrders} />
       </div>
     </div>
   );
@@ -6,6 +6,7 @@ import LogisticsMetrics from "@/components/logistics/LogisticsMetrics";
 import RevenueEarnedChart from "@/components/logistics/RevenueEarnedChart";
 import TrackingDeliveryMap from "@/components/logistics/TrackingDeliveryMap";
 import TrackingProgress from "@/components/logistics/TrackingProgress";
+import { listShipments, trackedShipment } from "@/lib/shipments";
 import { Metadata } from "next";
 import React from "react";
 
@@ -15,7 +16,12 @@ export const metadata: Metadata = {
     "This is Next.js  Logistics Dashboard for TailAdmin - Next.js Tailwind CSS Admin Dashboard Template",
 };
 
-export default function LogisticsPage() {
+// Reads the shipments on every request instead of once at build time
+export const dynamic = "force-dynamic";
+
+export default async function LogisticsPage() {
+  const shipments = await listShipments();
+  const tracked = trackedShipment(shipments);
   return (
     <div className="space-y-6">
       <LogisticsMetrics />
@@ -29,8 +35,8 @@ export default function LogisticsPage() {
         </div>
         <div className="lg:col-span-1">
           <div className="space-y-2 rounded-xl border bg-gray-100 p-2 dark:border-gray-800 dark:bg-white/3">
-            <TrackingDeliveryMap />
-            <TrackingProgress />
+            <TrackingDeliveryMap shipments={shipments} tracked={tracked} />
+            <TrackingProgress shipment={tracked} />
             <DeliveryMan />
           </div>
         </div>
@@ -1,5 +1,6 @@
 import PageBreadcrumb from "@/components/common/PageBreadCrumb";
 import AddProductForm from "@/components/ecommerce/AddProductForm";
+import { listCategories } from "@/lib/products";
 import { Metadata } from "next";
 
 export const metadata: Metadata = {
@@ -9,11 +10,15 @@ export const metadata: Metadata = {
     "This is Next.js E-commerce  Add Product  TailAdmin Dashboard Template",
 };
 
-export default function AddProductPage() {
+// Reads the categories on every request instead of once at build time
+export const dynamic = "force-dynamic";
+
+export default async function AddProductPage() {
+  const categories = await listCategories();
   return (
     <div>
       <PageBreadcrumb pageTitle="Add Products" />
-      <AddProductForm />
+      <AddProductForm categories={categories} />
     </div>
   );
 }
@@ -3,7 +3,13 @@ import BillingInfo from "@/components/ecommerce/billing/BillingInfo";
 import BillingPlan from "@/components/ecommerce/billing/BillingPlan";
 import InvoiceTable from "@/components/ecommerce/billing/InvoiceTable";
 import PaymentMethod from "@/components/ecommerce/billing/PaymentMethod";
+import { getSubscription } from "@/lib/billing/subscriptions";
+import { calendarDay } from "@/lib/invoice-lifecycle";
+import { listInvoices } from "@/lib/invoices";
+import { ACCOUNT_SUBSCRIPTION_ID } from "@/lib/mock-data/subscriptions";
+import { listPaymentMethods } from "@/lib/payments/payments";
 import { Metadata } from "next";
+import { notFound } from "next/navigation";
 import React from "react";
 
 export const metadata: Metadata = {
@@ -12,16 +18,40 @@ export const metadata: Metadata = {
     "This is Next.js E-commerce  Billing TailAdmin Dashboard Template",
 };
 
-export default function BillingPages() {
+// Reads the subscription on every request instead of once at build time
+export const dynamic = "force-dynamic";
+
+export default async function BillingPages() {
+  const [subscription, invoices, paymentMethods] = await Promise.all([
+    getSubscription(ACCOUNT_SUBSCRIPTION_ID),
+    listInvoices(),
+    listPaymentMethods(ACCOUNT_SUBSCRIPTION_ID),
+  ]);
+  if (!subscription) notFound();
+  const today = calendarDay();
+  const ids = new Set(subscription.invoices.map((entry) => entry.invoiceId));
+
   return (
     <div>
       <PageBreadcrumb pageTitle="Billing" />
       <div className="mb-6 flex flex-col gap-6 xl:flex-row">
-        <BillingPlan />
-        <BillingInfo />
+        <BillingPlan subscription={subscription} today={today} />
+        <BillingInfo
+          subscriptionId={subscription.id}
+          details={subscription.billingDetails}
+        />
       </div>
-      <PaymentMethod />
-      <InvoiceTable />
+      <PaymentMethod
+        subscriptionId={subscription.id}
+        methods={paymentMethods}
+        today={today}
+      />
+      <InvoiceTable
+        subscription={subscription}
+        invoices={invoices.filter((invoice) => ids.has(invoice.id))}
+        canPay={paymentMethods.length > 0}
+        today={today}
+      />
     </div>
   );
 }
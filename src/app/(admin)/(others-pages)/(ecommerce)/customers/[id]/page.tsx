@@ -0,0 +1,63 @@
+import PageBreadcrumb from "@/components/common/PageBreadCrumb";
+import CustomerAddressCard from "@/components/customers/CustomerAddressCard";
+import CustomerInfoCard from "@/components/customers/CustomerInfoCard";
+import CustomerMetaCard from "@/components/customers/CustomerMetaCard";
+import CustomerTabs from "@/components/customers/CustomerTabs";
+import { getSession } from "@/lib/auth/cookies";
+import { hasPermission, type Permission } from "@/lib/auth/permissions";
+import {
+  customerPayments,
+  getCustomer,
+  getCustomerRecords,
+} from "@/lib/customers";
+import { calendarDay } from "@/lib/invoice-lifecycle";
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+
+export const metadata: Metadata = {
+  title:
+    "Next.js E-commerce Customer Profile | TailAdmin - Next.js Dashboard Template",
+  description:
+    "This is Next.js E-commerce Customer Profile TailAdmin Dashboard Template",
+};
+
+export default async function CustomerPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const customer = await getCustomer((await params).id);
+  if (!customer) notFound();
+
+  const [records, session] = await Promise.all([
+    getCustomerRecords(customer),
+    getSession(),
+  ]);
+  // Only the tabs the user could also open on their own pages
+  const can = (permission: Permission) =>
+    hasPermission(session?.role, permission);
+
+  return (
+    <div>
+      <PageBreadcrumb pageTitle="Customer Profile" />
+      <div className="rounded-2xl border border-gray-200 bg-white p-5 dark:border-gray-800 dark:bg-white/[0.03] lg:p-6">
+        <div className="space-y-6">
+          <CustomerMetaCard customer={customer} />
+          <CustomerInfoCard customer={customer} />
+          <CustomerAddressCard customer={customer} />
+          <CustomerTabs
+            orders={can("transactions:view") ? records.orders : null}
+            invoices={can("invoices:view") ? records.invoices : null}
+            payments={
+              can("transactions:view") && can("invoices:view")
+                ? customerPayments(records)
+                : null
+            }
+            tickets={can("support:view") ? records.tickets : null}
+            today={calendarDay()}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
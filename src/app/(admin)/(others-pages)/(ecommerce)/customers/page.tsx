@@ -0,0 +1,27 @@
+import ComponentCard from "@/components/common/ComponentCard";
+import PageBreadcrumb from "@/components/common/PageBreadCrumb";
+import CustomerDirectory from "@/components/customers/CustomerDirectory";
+import { listCustomerSummaries } from "@/lib/customers";
+import { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title:
+    "Next.js E-commerce Customers | TailAdmin - Next.js Dashboard Template",
+  description:
+    "This is Next.js E-commerce Customers TailAdmin Dashboard Template",
+};
+
+// Reads the customers on every request instead of once at build time
+export const dynamic = "force-dynamic";
+
+export default async function CustomersPage() {
+  const customers = await listCustomerSummaries();
+  return (
+    <div>
+      <PageBreadcrumb pageTitle="Customers" />
+      <ComponentCard title="Customer Directory">
+        <CustomerDirectory customers={customers} />
+      </ComponentCard>
+    </div>
+  );
+}
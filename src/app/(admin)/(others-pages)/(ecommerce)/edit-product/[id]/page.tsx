@@ -0,0 +1,31 @@
+import PageBreadcrumb from "@/components/common/PageBreadCrumb";
+import AddProductForm from "@/components/ecommerce/AddProductForm";
+import { getProduct, listCategories } from "@/lib/products";
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+
+export const metadata: Metadata = {
+  title:
+    "Next.js E-commerce Edit Product | TailAdmin - Next.js Dashboard Template",
+  description:
+    "This is Next.js E-commerce Edit Product TailAdmin Dashboard Template",
+};
+
+export default async function EditProductPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const [product, categories] = await Promise.all([
+    getProduct((await params).id),
+    listCategories(),
+  ]);
+  if (!product) notFound();
+
+  return (
+    <div>
+      <PageBreadcrumb pageTitle="Edit Product" />
+      <AddProductForm categories={categories} product={product} />
+    </div>
+  );
+}
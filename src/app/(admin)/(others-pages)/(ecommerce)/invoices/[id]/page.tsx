@@ -0,0 +1,28 @@
+import Invoice from "@/components/invoice/Invoice";
+import { calendarDay } from "@/lib/invoice-lifecycle";
+import { getInvoice } from "@/lib/invoices";
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+import React from "react";
+
+export const metadata: Metadata = {
+  title:
+    "Next.js E-commerce Single Invoice | TailAdmin - Next.js Dashboard Template",
+  description:
+    "This is Next.js E-commerce  Single Invoice TailAdmin Dashboard Template",
+};
+
+export default async function InvoicePage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const invoice = await getInvoice((await params).id);
+  if (!invoice) notFound();
+
+  return (
+    <div>
+      <Invoice invoice={invoice} today={calendarDay()} />
+    </div>
+  );
+}
@@ -1,6 +1,9 @@
 import PageBreadcrumb from "@/components/common/PageBreadCrumb";
 import InvoiceListTable from "@/components/invoice/InvoiceList";
 import InvoiceMetrics from "@/components/invoice/InvoiceMetrics";
+import { getExchangeRates } from "@/lib/exchange-rates";
+import { calculateInvoiceMetrics, calendarDay } from "@/lib/invoice-lifecycle";
+import { listInvoices } from "@/lib/invoices";
 import { Metadata } from "next";
 import React from "react";
 
@@ -11,12 +14,22 @@ export const metadata: Metadata = {
     "This is Next.js E-commerce  Invoices TailAdmin Dashboard Template",
 };
 
-export default function InvoicesPage() {
+// Reads the invoices on every request instead of once at build time
+export const dynamic = "force-dynamic";
+
+export default async function InvoicesPage() {
+  const [invoices, rates] = await Promise.all([
+    listInvoices(),
+    getExchangeRates(),
+  ]);
+  const today = calendarDay();
   return (
     <div>
       <PageBreadcrumb pageTitle="Invoices" />
-      <InvoiceMetrics />
-      <InvoiceListTable />
+      <InvoiceMetrics
+        metrics={calculateInvoiceMetrics(invoices, rates, today)}
+      />
+      <InvoiceListTable rates={rates} />
     </div>
   );
 }
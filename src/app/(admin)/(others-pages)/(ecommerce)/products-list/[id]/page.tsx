@@ -0,0 +1,29 @@
+import PageBreadcrumb from "@/components/common/PageBreadCrumb";
+import ProductDetails from "@/components/ecommerce/ProductDetails";
+import { getProduct } from "@/lib/products";
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+import React from "react";
+
+export const metadata: Metadata = {
+  title:
+    "Next.js E-commerce Product Details | TailAdmin - Next.js Dashboard Template",
+  description:
+    "This is Next.js E-commerce Product Details TailAdmin Dashboard Template",
+};
+
+export default async function ProductPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const product = await getProduct((await params).id);
+  if (!product) notFound();
+
+  return (
+    <div>
+      <PageBreadcrumb pageTitle="Product Details" />
+      <ProductDetails product={product} />
+    </div>
+  );
+}
@@ -1,5 +1,8 @@
 import PageBreadcrumb from "@/components/common/PageBreadCrumb";
 import ProductListTable from "@/components/ecommerce/ProductListTable";
+import Alert from "@/components/ui/alert/Alert";
+import { stockStatus } from "@/lib/mock-data/products";
+import { listCategories, listLowStockProducts } from "@/lib/products";
 import { Metadata } from "next";
 import React from "react";
 
@@ -9,11 +12,59 @@ export const metadata: Metadata = {
     "This is Next.js E-commerce Products TailAdmin Dashboard Template",
 };
 
-export default function ProductPage() {
+// Reads the catalog on every request instead of once at build time
+export const dynamic = "force-dynamic";
+
+const plural = (count: number, word: string) =>
+  `${count} ${word}${count === 1 ? "" : "s"}`;
+
+export default async function ProductPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ availability?: string }>;
+}) {
+  const [categories, lowStock, { availability }] = await Promise.all([
+    listCategories(),
+    listLowStockProducts(),
+    searchParams,
+  ]);
+  const outOfStock = lowStock.filter(
+    (product) => stockStatus(product) === "Out of Stock"
+  ).length;
+  const runningLow = lowStock.length - outOfStock;
+
   return (
     <div>
       <PageBreadcrumb pageTitle="Products" />
-      <ProductListTable />
+      {lowStock.length > 0 && (
+        <div className="mb-6">
+          <Alert
+            variant="warning"
+            title="Stock is running low"
+            message={`${plural(
+              runningLow,
+              "product"
+            )} at or below the alert level and ${plural(
+              outOfStock,
+              "product"
+            )} out of stock, starting with ${lowStock
+              .slice(0, 3)
+              .map((product) => product.name)
+              .join(", ")}.`}
+            showLink
+            linkHref={`/products-list?availability=${encodeURIComponent(
+              runningLow > 0 ? "Low Stock" : "Out of Stock"
+            )}`}
+            linkText="Show these products"
+          />
+        </div>
+      )}
+      <ProductListTable
+        // Starts over when a link changes the filter
+        key={availability ?? ""}
+        categories={categories}
+        initialFilters={availability ? { availability } : undefined}
+      />
     </div>
   );
 }
@@ -1,18 +1,11 @@
-import InvoiceMain from "@/components/invoice/InvoiceMain";
-import { Metadata } from "next";
-import React from "react";
+import { listInvoices } from "@/lib/invoices";
+import { redirect } from "next/navigation";
 
-export const metadata: Metadata = {
-  title:
-    "Next.js E-commerce Single Invoice | TailAdmin - Next.js Dashboard Template",
-  description:
-    "This is Next.js E-commerce  Single Invoice TailAdmin Dashboard Template",
-};
+// Reads the invoices on every request instead of once at build time
+export const dynamic = "force-dynamic";
 
-export default function SingleInvoicePage() {
-  return (
-    <div>
-      <InvoiceMain />
-    </div>
-  );
+// Kept for old links; opens the first invoice in the list
+export default async function SingleInvoicePage() {
+  const [first] = await listInvoices();
+  redirect(first ? `/invoices/${first.id}` : "/invoices");
 }
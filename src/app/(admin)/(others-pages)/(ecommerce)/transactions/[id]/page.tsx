@@ -0,0 +1,45 @@
+import PageBreadcrumb from "@/components/common/PageBreadCrumb";
+import CustomerDetails from "@/components/transactions/CustomerDetails";
+import OrderDetailsTable from "@/components/transactions/OrderDetailsTable";
+import OrderHistory from "@/components/transactions/OrderHistory";
+import TransactionHeader from "@/components/transactions/TransactionHeader";
+import { getTransaction } from "@/lib/transactions";
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+
+export const metadata: Metadata = {
+  title:
+    "Next.js E-commerce Single Transaction | TailAdmin - Next.js Dashboard Template",
+  description:
+    "This is Next.js E-commerce Single Transaction TailAdmin Dashboard Template",
+};
+
+export default async function TransactionPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const transaction = await getTransaction((await params).id);
+  if (!transaction) notFound();
+
+  return (
+    <div>
+      <PageBreadcrumb pageTitle="Single Transaction" />
+      <div className="space-y-6">
+        <TransactionHeader transaction={transaction} />
+        <div className="grid grid-cols-1 gap-6 lg:grid-cols-12">
+          <div className="lg:col-span-8 2xl:col-span-9">
+            <OrderDetailsTable transaction={transaction} />
+          </div>
+          <div className="space-y-6 lg:col-span-4 2xl:col-span-3">
+            <CustomerDetails
+              transaction={transaction}
+              customerId={transaction.customerId}
+            />
+            <OrderHistory transaction={transaction} />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import PageBreadcrumb from "@/components/common/PageBreadCrumb";
 import TransactionList from "@/components/ecommerce/TransactionList";
+import { getExchangeRates } from "@/lib/exchange-rates";
 import { Metadata } from "next";
 
 export const metadata: Metadata = {
@@ -9,11 +10,15 @@ export const metadata: Metadata = {
     "This is E-commerce  Next.js Transaction TailAdmin Dashboard Template",
 };
 
-export default function TransactionsPage() {
+// Reads the rates on every request instead of once at build time
+export const dynamic = "force-dynamic";
+
+export default async function TransactionsPage() {
+  const rates = await getExchangeRates();
   return (
     <div>
       <PageBreadcrumb pageTitle="Transactions" />
-      <TransactionList />
+      <TransactionList rates={rates} />
     </div>
   );
 }
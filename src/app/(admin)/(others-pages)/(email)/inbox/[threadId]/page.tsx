@@ -0,0 +1,57 @@
+import PageBreadcrumb from "@/components/common/PageBreadCrumb";
+import EmailWrapper from "@/components/email/EmailDetails/EmailWrapper";
+import EmailSidebar from "@/components/email/EmailSidebar/EmailSidebar";
+import { MailboxProvider } from "@/context/MailboxContext";
+import {
+  getThread,
+  getThreadPosition,
+  mailboxAddress,
+} from "@/lib/mail/mailbox";
+import { parseMailQuery } from "@/lib/mail/query";
+
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+import React from "react";
+
+export const metadata: Metadata = {
+  title: "Next.js Inbox Details | TailAdmin - Next.js Dashboard Template",
+  description:
+    "This is Next.js Inbox Details page for TailAdmin - Next.js Tailwind CSS Admin Dashboard Template",
+};
+
+export default async function InboxThread({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ threadId: string }>;
+  searchParams: Promise<Record<string, string>>;
+}) {
+  const { threadId } = await params;
+  // The list the thread was opened from, for the pager and the way back
+  const query = parseMailQuery(new URLSearchParams(await searchParams));
+  const thread = await getThread(threadId);
+  if (thread.length === 0) notFound();
+  const position = await getThreadPosition(threadId, query);
+
+  return (
+    <div>
+      <PageBreadcrumb pageTitle="Inbox Details" />
+      <div className="sm:h-[calc(100vh-174px)] xl:h-[calc(100vh-186px)]">
+        <MailboxProvider query={query}>
+          <div className="xl:grid xl:grid-cols-12 flex flex-col gap-5 sm:gap-5">
+            <div className="xl:col-span-3 col-span-full">
+              <EmailSidebar />
+            </div>
+            <div className="xl:col-span-9 w-full">
+              <EmailWrapper
+                thread={thread}
+                position={position}
+                mailbox={mailboxAddress()}
+              />
+            </div>
+          </div>
+        </MailboxProvider>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 import PageBreadcrumb from "@/components/common/PageBreadCrumb";
 import EmailContent from "@/components/email/EmailInbox/EmailContent";
 import EmailSidebar from "@/components/email/EmailSidebar/EmailSidebar";
+import { MailboxProvider } from "@/context/MailboxContext";
+import { parseMailQuery } from "@/lib/mail/query";
 import { Metadata } from "next";
 import React from "react";
 
@@ -10,17 +12,25 @@ export const metadata: Metadata = {
     "This is Next.js Inbox page for TailAdmin - Next.js Tailwind CSS Admin Dashboard Template",
 };
 
-export default function Inbox() {
+export default async function Inbox({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string>>;
+}) {
+  const query = parseMailQuery(new URLSearchParams(await searchParams));
+
   return (
     <div className="">
       <PageBreadcrumb pageTitle="Inbox" />
       <div className="sm:h-[calc(100vh-174px)] h-screen xl:h-[calc(100vh-186px)">
-        <div className="xl:grid xl:grid-cols-12 flex flex-col gap-5 sm:gap-5">
-          <div className="xl:col-span-3 col-span-full">
-            <EmailSidebar />
+        <MailboxProvider query={query}>
+          <div className="xl:grid xl:grid-cols-12 flex flex-col gap-5 sm:gap-5">
+            <div className="xl:col-span-3 col-span-full">
+              <EmailSidebar />
+            </div>
+            <EmailContent />
           </div>
-          <EmailContent />
-        </div>
+        </MailboxProvider>
       </div>
     </div>
   );
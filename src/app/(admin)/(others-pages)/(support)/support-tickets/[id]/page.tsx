@@ -0,0 +1,52 @@
+import PageBreadcrumb from "@/components/common/PageBreadCrumb";
+import TicketDetails from "@/components/support/TicketDetails";
+import TicketReplyContent from "@/components/support/TicketReplyContent";
+import { SUPPORT_AGENTS } from "@/lib/mock-data/support-tickets";
+import { getTicket, getTicketPosition } from "@/lib/support-tickets";
+import { listMacros } from "@/lib/ticket-macros";
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+
+export const metadata: Metadata = {
+  title: "Next.js Support Reply | TailAdmin - Next.js Admin Dashboard Template",
+  description:
+    "This is Next.js Support Reply for TailAdmin - Next.js Tailwind CSS Admin Dashboard Template",
+};
+
+export default async function SupportTicketPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  const [ticket, position, macros] = await Promise.all([
+    getTicket(id),
+    getTicketPosition(id),
+    listMacros(),
+  ]);
+  if (!ticket || !position) notFound();
+
+  return (
+    <div className="overflow-hidden xl:h-[calc(100vh-180px)]">
+      <PageBreadcrumb pageTitle="Support Reply" />
+      <div className="grid h-full grid-cols-1 gap-5 xl:grid-cols-12">
+        <div className="xl:col-span-8 2xl:col-span-9">
+          {/* Keyed so the draft reply resets when paging to another ticket */}
+          <TicketReplyContent
+            key={ticket.id}
+            ticket={ticket}
+            position={position}
+            macros={macros}
+          />
+        </div>
+        <div className="xl:col-span-4 2xl:col-span-3">
+          <TicketDetails
+            ticket={ticket}
+            agents={SUPPORT_AGENTS}
+            now={new Date().toISOString()}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
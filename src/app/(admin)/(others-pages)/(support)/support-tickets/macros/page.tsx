@@ -0,0 +1,24 @@
+import PageBreadcrumb from "@/components/common/PageBreadCrumb";
+import MacroLibrary from "@/components/support/MacroLibrary";
+import { SUPPORT_AGENTS } from "@/lib/mock-data/support-tickets";
+import { listMacros } from "@/lib/ticket-macros";
+import { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title:
+    "Next.js Support Macros | TailAdmin - Next.js Admin Dashboard Template",
+  description:
+    "This is Next.js Support Macros for TailAdmin - Next.js Tailwind CSS Admin Dashboard Template",
+};
+
+// Reads the macros on every request instead of once at build time
+export const dynamic = "force-dynamic";
+
+export default async function SupportMacrosPage() {
+  return (
+    <div>
+      <PageBreadcrumb pageTitle="Support Macros" />
+      <MacroLibrary macros={await listMacros()} agents={SUPPORT_AGENTS} />
+    </div>
+  );
+}
@@ -1,6 +1,9 @@
 import PageBreadcrumb from "@/components/common/PageBreadCrumb";
 import SupportTicketsList from "@/components/support/SupportList";
 import SupportMetrics from "@/components/support/SupportMetrics";
+import { SUPPORT_AGENTS } from "@/lib/mock-data/support-tickets";
+import { calculateSupportMetrics } from "@/lib/support-sla";
+import { listTickets } from "@/lib/support-tickets";
 import { Metadata } from "next";
 import React from "react";
 
@@ -10,12 +13,17 @@ export const metadata: Metadata = {
     "This is Next.js Support List for TailAdmin - Next.js Tailwind CSS Admin Dashboard Template",
 };
 
-export default function SupportListPage() {
+// Reads the tickets on every request instead of once at build time
+export const dynamic = "force-dynamic";
+
+export default async function SupportListPage() {
+  const tickets = await listTickets();
+  const now = new Date();
   return (
     <div>
       <PageBreadcrumb pageTitle="Support List" />
-      <SupportMetrics />
-      <SupportTicketsList />
+      <SupportMetrics metrics={calculateSupportMetrics(tickets, now)} />
+      <SupportTicketsList agents={SUPPORT_AGENTS} now={now.toISOString()} />
     </div>
   );
 }
@@ -1,6 +1,7 @@
 import PageBreadcrumb from "@/components/common/PageBreadCrumb";
 import KanbanBoard from "@/components/task/kanban/KanbanBoard";
 import TaskHeader from "@/components/task/TaskHeader";
+import { TaskBoardProvider } from "@/context/TaskBoardContext";
 import { Metadata } from "next";
 import React from "react";
 
@@ -14,10 +15,12 @@ export default function TaskKanban() {
   return (
     <div>
       <PageBreadcrumb pageTitle="Task Kanban" />
-      <div className="rounded-2xl border border-gray-200 bg-white dark:border-gray-800 dark:bg-white/[0.03]">
-        <TaskHeader />
-        <KanbanBoard />
-      </div>
+      <TaskBoardProvider>
+        <div className="rounded-2xl border border-gray-200 bg-white dark:border-gray-800 dark:bg-white/[0.03]">
+          <TaskHeader />
+          <KanbanBoard />
+        </div>
+      </TaskBoardProvider>
     </div>
   );
 }
@@ -2,6 +2,8 @@ import PageBreadcrumb from "@/components/common/PageBreadCrumb";
 import React from "react";
 import { Metadata } from "next";
 import TaskList from "@/components/task/task-list/TaskList";
+import TaskHeader from "@/components/task/TaskHeader";
+import { TaskBoardProvider } from "@/context/TaskBoardContext";
 
 export const metadata: Metadata = {
   title: "Next.js Task List | TailAdmin - Next.js Dashboard Template",
@@ -14,7 +16,12 @@ export default function TaskListPage() {
   return (
     <div>
       <PageBreadcrumb pageTitle="Task List" />
-      <TaskList />
+      <TaskBoardProvider>
+        <div className="rounded-2xl border border-gray-200 bg-white dark:border-gray-800 dark:bg-white/[0.03]">
+          <TaskHeader />
+          <TaskList />
+        </div>
+      </TaskBoardProvider>
     </div>
   );
 }
@@ -1,6 +1,7 @@
 import ChatBox from "@/components/chats/ChatBox";
 import ChatSidebar from "@/components/chats/ChatSidebar";
 import PageBreadcrumb from "@/components/common/PageBreadCrumb";
+import { ChatProvider } from "@/context/ChatContext";
 import { Metadata } from "next";
 import React from "react";
 
@@ -16,15 +17,17 @@ export default function Chat() {
     <div>
       <PageBreadcrumb pageTitle="Chats" />
       <div className="h-[calc(100vh-150px)] overflow-hidden sm:h-[calc(100vh-174px)]">
-        <div className="flex flex-col h-full gap-6 xl:flex-row xl:gap-5">
-          {/* <!-- Chat Sidebar Start --> */}
-          <ChatSidebar />
-          {/* <!-- Chat Sidebar End --> */}
-          {/* <!-- Chat Box Start --> */}
-          <ChatBox />
-          {/* <!-- Chat Box End --> */}
-        </div>
+        <ChatProvider>
+          <div className="flex flex-col h-full gap-6 xl:flex-row xl:gap-5">
+            {/* <!-- Chat Sidebar Start --> */}
+            <ChatSidebar />
+            {/* <!-- Chat Sidebar End --> */}
+            {/* <!-- Chat Box Start --> */}
+            <ChatBox />
+            {/* <!-- Chat Box End --> */}
+          </div>
+        </ChatProvider>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -6,6 +6,11 @@ import MonthlySalesChart from "@/components/ecommerce/MonthlySalesChart";
 import StatisticsChart from "@/components/ecommerce/StatisticsChart";
 import RecentOrders from "@/components/ecommerce/RecentOrders";
 import DemographicCard from "@/components/ecommerce/DemographicCard";
+import { sumInReportingCurrency } from "@/lib/exchange-rates";
+import { calculateOrderTotals } from "@/lib/order-totals";
+import { listRecentOrders } from "@/lib/orders";
+import { listProducts } from "@/lib/products";
+import { listTransactions } from "@/lib/transactions";
 
 export const metadata: Metadata = {
   title:
@@ -13,11 +18,41 @@ export const metadata: Metadata = {
   description: "This is Next.js Home for TailAdmin Dashboard Template",
 };
 
-export default function Ecommerce() {
+// Reads the orders on every request instead of once at build time
+export const dynamic = "force-dynamic";
+
+export default async function Ecommerce() {
+  const completed = (await listTransactions()).filter(
+    (transaction) => transaction.status === "Completed"
+  );
+  // Each order converts at the rates of its own date
+  const revenue = await sumInReportingCurrency(
+    completed.map((transaction) => ({
+      money: calculateOrderTotals(
+        transaction.items,
+        transaction.vatRate,
+        transaction.currency
+      ).total,
+      date: transaction.dueDate,
+    }))
+  );
+  const [recentOrders, products] = await Promise.all([
+    listRecentOrders(5),
+    listProducts(),
+  ]);
+  // Order lines name the product; the catalog has its picture
+  const productImages = Object.fromEntries(
+    products
+      .filter((product) => product.images.length > 0)
+      .map((product) => [product.name.toLowerCase(), product.images[0]])
+  );
   return (
     <div className="grid grid-cols-12 gap-4 md:gap-6">
       <div className="col-span-12 space-y-6 xl:col-span-7">
-        <EcommerceMetrics />
+        <EcommerceMetrics
+          revenue={revenue}
+          completedOrders={completed.length}
+        />
 
         <MonthlySalesChart />
       </div>
@@ -35,7 +70,7 @@ export default function Ecommerce() {
       </div>
 
       <div className="col-span-12 xl:col-span-7">
-        <RecentOrders />
+        <RecentOrders orders={recentOrders} productImages={productImages} />
       </div>
     </div>
   );
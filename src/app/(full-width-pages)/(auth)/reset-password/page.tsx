@@ -1,4 +1,5 @@
 import ResetPasswordForm from "@/components/auth/ResetPasswordForm";
+import { isResetTokenValid } from "@/lib/auth/reset-tokens";
 import { Metadata } from "next";
 
 import React from "react";
@@ -10,6 +11,16 @@ export const metadata: Metadata = {
   // other metadata
 };
 
-export default function ResetPasswordPage() {
-  return <ResetPasswordForm />;
+export default async function ResetPasswordPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { token } = await searchParams;
+  return (
+    <ResetPasswordForm
+      token={token}
+      tokenValid={token ? await isResetTokenValid(token) : false}
+    />
+  );
 }
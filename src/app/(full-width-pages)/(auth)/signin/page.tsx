@@ -1,4 +1,5 @@
 import SignInForm from "@/components/auth/SignInForm";
+import { safeRedirectPath } from "@/lib/auth/redirect";
 import { Metadata } from "next";
 
 export const metadata: Metadata = {
@@ -6,6 +7,21 @@ export const metadata: Metadata = {
   description: "This is Next.js Signin Page TailAdmin Dashboard Template",
 };
 
-export default function SignIn() {
-  return <SignInForm />;
+export default async function SignIn({
+  searchParams,
+}: {
+  searchParams: Promise<{ redirectTo?: string; reset?: string }>;
+}) {
+  const { redirectTo: requested, reset } = await searchParams;
+  const redirectTo = safeRedirectPath(requested);
+  return (
+    <SignInForm
+      redirectTo={redirectTo}
+      notice={
+        reset
+          ? "Your password has been updated. Sign in with your new password."
+          : undefined
+      }
+    />
+  );
 }
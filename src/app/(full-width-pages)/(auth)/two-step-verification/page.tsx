@@ -1,5 +1,10 @@
 import OtpForm from "@/components/auth/OtpForm";
+import { getCurrentUser, getTwoStepChallenge } from "@/lib/auth/cookies";
+import { safeRedirectPath } from "@/lib/auth/redirect";
+import { totpKeyUri } from "@/lib/auth/totp";
+import { getEnrollmentSecret } from "@/lib/auth/users";
 import { Metadata } from "next";
+import { redirect } from "next/navigation";
 
 export const metadata: Metadata = {
   title:
@@ -8,6 +13,27 @@ export const metadata: Metadata = {
   // other metadata
 };
 
-export default function OtpVerification() {
-  return <OtpForm />;
+export default async function OtpVerification({
+  searchParams,
+}: {
+  searchParams: Promise<{ redirectTo?: string }>;
+}) {
+  const redirectTo = safeRedirectPath((await searchParams).redirectTo);
+  if (await getTwoStepChallenge()) {
+    return <OtpForm mode="verify" redirectTo={redirectTo} />;
+  }
+
+  // Without a pending sign-in, this page enrolls the signed-in user
+  const user = await getCurrentUser();
+  if (!user) redirect("/signin");
+  if (user.totpEnabled) redirect("/");
+  const secret = await getEnrollmentSecret(user);
+  return (
+    <OtpForm
+      mode="enroll"
+      secret={secret}
+      keyUri={totpKeyUri(secret, user.email, "TailAdmin")}
+      redirectTo={redirectTo}
+    />
+  );
 }
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/cookies";
+import {
+  BULK_PERMISSIONS,
+  isBulkResource,
+  parseBulkRequest,
+} from "@/lib/bulk-actions";
+import { runBulkAction } from "@/lib/bulk-runner";
+
+// Runs one action on many rows, e.g. `{ "action": { "type": "delete" }, "ids": ["3", "7"] }`
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ resource: string }> }
+) {
+  const { resource } = await params;
+  if (!isBulkResource(resource)) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const parsed = parseBulkRequest(
+    resource,
+    await request.json().catch(() => null)
+  );
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const permission = BULK_PERMISSIONS[resource][parsed.request.action.type];
+  const session = permission && (await authorize(permission));
+  if (!session) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  return NextResponse.json(
+    await runBulkAction(resource, parsed.request, session.name)
+  );
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/cookies";
+import { BULK_PERMISSIONS, isBulkResource } from "@/lib/bulk-actions";
+import { findBulkUndo, undoBulkAction } from "@/lib/bulk-runner";
+
+// Puts back the rows a bulk action changed, e.g. `{ "token": "…" }`
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ resource: string }> }
+) {
+  const { resource } = await params;
+  if (!isBulkResource(resource)) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const token = typeof body?.token === "string" ? body.token : "";
+  const pending = token ? await findBulkUndo(resource, token) : null;
+  if (!pending) {
+    return NextResponse.json(
+      { error: "This change can no longer be undone" },
+      { status: 404 }
+    );
+  }
+
+  const permission = BULK_PERMISSIONS[resource][pending.action];
+  if (!permission || !(await authorize(permission))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const result = await undoBulkAction(resource, token);
+  if ("error" in result) {
+    return NextResponse.json(
+      { error: result.error },
+      { status: result.status }
+    );
+  }
+  return NextResponse.json(result);
+}
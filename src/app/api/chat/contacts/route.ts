@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/cookies";
+import { listContactSummaries } from "@/lib/chat";
+
+export async function GET() {
+  const session = await authorize("chat:use");
+  if (!session) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  return NextResponse.json(await listContactSummaries(session.sub));
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/cookies";
+import { subscribe, type ChatEvent } from "@/lib/chat-events";
+
+export const dynamic = "force-dynamic";
+
+// Comments sent while idle keep proxies from closing the connection
+const KEEP_ALIVE_INTERVAL = 25_000;
+
+/**
+ * Server-Sent Events stream of new messages, read receipts, typing and
+ * presence changes for the signed-in user.
+ */
+export async function GET(request: NextRequest) {
+  const session = await authorize("chat:use");
+  if (!session) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const encoder = new TextEncoder();
+  let stop = () => {};
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let stopped = false;
+      const unsubscribe = subscribe(session.sub, (event: ChatEvent) =>
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`))
+      );
+      const keepAlive = setInterval(
+        () => controller.enqueue(encoder.encode(": keep-alive\n\n")),
+        KEEP_ALIVE_INTERVAL
+      );
+      stop = () => {
+        if (stopped) return;
+        stopped = true;
+        clearInterval(keepAlive);
+        unsubscribe();
+      };
+      // A cancelled stream is already closed, so only an abort closes it here
+      request.signal.addEventListener("abort", () => {
+        if (stopped) return;
+        stop();
+        controller.close();
+      });
+    },
+    cancel() {
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/cookies";
+import { getThread, sendMessage } from "@/lib/chat";
+
+// Messages exchanged with the contact given as `?with=<contact id>`
+export async function GET(request: NextRequest) {
+  const session = await authorize("chat:use");
+  if (!session) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  const contactId = request.nextUrl.searchParams.get("with");
+  if (!contactId) {
+    return NextResponse.json({ error: "Missing contact" }, { status: 400 });
+  }
+  return NextResponse.json(await getThread(session.sub, contactId));
+}
+
+/**
+ * Sends a message. The body is multipart form data with `to`, `body` and
+ * any number of `files`.
+ */
+export async function POST(request: NextRequest) {
+  const session = await authorize("chat:use");
+  if (!session) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  const form = await request.formData().catch(() => null);
+  if (!form) {
+    return NextResponse.json(
+      { error: "Expected multipart form data" },
+      { status: 400 }
+    );
+  }
+
+  const result = await sendMessage(session.sub, String(form.get("to") ?? ""), {
+    body: String(form.get("body") ?? ""),
+    files: form
+      .getAll("files")
+      .filter((value): value is File => value instanceof File),
+  });
+  if ("error" in result) {
+    return NextResponse.json({ error: result.error }, { status: 400 });
+  }
+  return NextResponse.json(result.message, { status: 201 });
+}
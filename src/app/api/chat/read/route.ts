@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/cookies";
+import { markThreadRead } from "@/lib/chat";
+
+// Marks the thread with `{ with: <contact id> }` as read
+export async function POST(request: NextRequest) {
+  const session = await authorize("chat:use");
+  if (!session) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  const body = await request.json().catch(() => null);
+  if (typeof body?.with !== "string") {
+    return NextResponse.json({ error: "Missing contact" }, { status: 400 });
+  }
+  const marked = await markThreadRead(session.sub, body.with);
+  return NextResponse.json({ marked });
+}
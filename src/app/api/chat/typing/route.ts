@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/cookies";
+import { notifyTyping } from "@/lib/chat";
+
+// Tells `{ to: <contact id> }` that the user is typing; nothing is stored
+export async function POST(request: NextRequest) {
+  const session = await authorize("chat:use");
+  if (!session) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  const body = await request.json().catch(() => null);
+  if (typeof body?.to !== "string") {
+    return NextResponse.json({ error: "Missing recipient" }, { status: 400 });
+  }
+  notifyTyping(session.sub, body.to);
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,11 @@
+import { NextRequest, NextResponse } from "next/server";
+import { employeeColumns, employees } from "@/lib/mock-data/employees";
+import { parseTableQuery, runTableQuery } from "@/lib/table-query";
+
+export function GET(request: NextRequest) {
+  const query = parseTableQuery(
+    request.nextUrl.searchParams,
+    employeeColumns.map((column) => column.id)
+  );
+  return NextResponse.json(runTableQuery(employees, employeeColumns, query));
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/cookies";
+import { chargeInvoice } from "@/lib/payments/payments";
+
+/**
+ * Charges the amount due to a saved payment method through the payment
+ * gateway: `{ "paymentMethodId": "pm_..." }`, or `{}` for the default one.
+ * Declines answer 402 and are still listed as failed transactions.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await authorize("billing:manage");
+  if (!session) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const methodId =
+    typeof body?.paymentMethodId === "string"
+      ? body.paymentMethodId
+      : undefined;
+
+  const result = await chargeInvoice((await params).id, methodId, session.name);
+  if ("error" in result) {
+    return NextResponse.json(
+      { error: result.error },
+      { status: result.status }
+    );
+  }
+  return NextResponse.json(result.transaction, { status: 201 });
+}
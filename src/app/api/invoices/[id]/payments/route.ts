@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/cookies";
+import { getInvoice, parsePayment, recordPayment } from "@/lib/invoices";
+
+// Records a payment against the invoice's ledger
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await authorize("invoices:edit");
+  if (!session) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { id } = await params;
+  const invoice = await getInvoice(id);
+  if (!invoice) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  const parsed = parsePayment(
+    await request.json().catch(() => null),
+    invoice.currency
+  );
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const result = await recordPayment(id, parsed.payment, session.name);
+  if ("error" in result) {
+    return NextResponse.json(
+      { error: result.error },
+      { status: result.status }
+    );
+  }
+  return NextResponse.json(result.invoice, { status: 201 });
+}
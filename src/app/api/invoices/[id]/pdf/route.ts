@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/cookies";
+import { invoicePdfFileName, renderInvoicePdf } from "@/lib/invoice-pdf";
+import { getInvoice } from "@/lib/invoices";
+
+/**
+ * The invoice as a PDF, shown in the browser's viewer; `?download=1` saves it
+ * as a file instead.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!(await authorize("invoices:view"))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  const invoice = await getInvoice((await params).id);
+  if (!invoice) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const download = request.nextUrl.searchParams.get("download") === "1";
+  return new NextResponse(new Uint8Array(renderInvoicePdf(invoice)), {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `${
+        download ? "attachment" : "inline"
+      }; filename="${invoicePdfFileName(invoice)}"`,
+      "Cache-Control": "private, no-store",
+    },
+  });
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/cookies";
+import { sendInvoice, voidInvoice } from "@/lib/invoices";
+
+/**
+ * Sends or voids an invoice: `{ "action": "send" }` or
+ * `{ "action": "void", "note": "Reason" }`. The paid states follow from
+ * recorded payments and cannot be set here.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await authorize("invoices:edit");
+  if (!session) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { id } = await params;
+  const body = await request.json().catch(() => null);
+  const note =
+    typeof body?.note === "string" ? body.note.trim().slice(0, 200) : "";
+  const result =
+    body?.action === "send"
+      ? await sendInvoice(id, session.name)
+      : body?.action === "void"
+      ? await voidInvoice(id, session.name, note)
+      : { error: 'Expected "send" or "void"', status: 400 };
+
+  if ("error" in result) {
+    return NextResponse.json(
+      { error: result.error },
+      { status: result.status }
+    );
+  }
+  return NextResponse.json(result.invoice);
+}
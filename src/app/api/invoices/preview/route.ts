@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/cookies";
+import { invoicePdfFileName, renderInvoicePdf } from "@/lib/invoice-pdf";
+import { parseNewInvoice, previewInvoice } from "@/lib/invoices";
+
+/**
+ * An invoice that is still being written, rendered as a PDF without saving
+ * it. Takes the same body as creating one; `?download=1` saves the file.
+ */
+export async function POST(request: NextRequest) {
+  const session = await authorize("invoices:edit");
+  if (!session) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const parsed = parseNewInvoice(await request.json().catch(() => null));
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+  const invoice = await previewInvoice(parsed.invoice, session.name);
+
+  const download = request.nextUrl.searchParams.get("download") === "1";
+  return new NextResponse(new Uint8Array(renderInvoicePdf(invoice)), {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `${
+        download ? "attachment" : "inline"
+      }; filename="${invoicePdfFileName(invoice)}"`,
+      "Cache-Control": "private, no-store",
+    },
+  });
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/cookies";
+import { getCustomer } from "@/lib/customers";
+import { invoiceColumns } from "@/lib/invoice-lifecycle";
+import { createInvoice, parseNewInvoice, queryInvoices } from "@/lib/invoices";
+import { parseTableQuery } from "@/lib/table-query";
+
+// One page of the invoice list, searched, filtered and sorted as the table asks
+export async function GET(request: NextRequest) {
+  if (!(await authorize("invoices:view"))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  const query = parseTableQuery(
+    request.nextUrl.searchParams,
+    invoiceColumns.map((column) => column.id)
+  );
+  return NextResponse.json(await queryInvoices(query));
+}
+
+// Creates a draft; the number is assigned by the server
+export async function POST(request: NextRequest) {
+  const session = await authorize("invoices:edit");
+  if (!session) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const parsed = parseNewInvoice(await request.json().catch(() => null));
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+  const { customerId } = parsed.invoice;
+  if (customerId && !(await getCustomer(String(customerId)))) {
+    return NextResponse.json({ error: "Customer not found" }, { status: 400 });
+  }
+  return NextResponse.json(await createInvoice(parsed.invoice, session.name), {
+    status: 201,
+  });
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/cookies";
+import { runJob } from "@/lib/jobs";
+
+// Runs the job now instead of waiting for the runner
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  if (!(await authorize("billing:manage"))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  const result = await runJob((await params).name);
+  if ("error" in result) {
+    return NextResponse.json(
+      { error: result.error },
+      { status: result.status }
+    );
+  }
+  return NextResponse.json(result.run);
+}
@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/cookies";
+import { listJobs } from "@/lib/jobs";
+
+// The background jobs and how their latest runs went
+export async function GET() {
+  if (!(await authorize("billing:manage"))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  return NextResponse.json(await listJobs());
+}
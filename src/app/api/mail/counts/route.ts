@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/cookies";
+import { getMailCounts } from "@/lib/mail/mailbox";
+
+export async function GET() {
+  if (!(await authorize("email:use"))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  return NextResponse.json(await getMailCounts());
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/cookies";
+import {
+  deleteMail,
+  listMail,
+  parseMailChanges,
+  updateMail,
+} from "@/lib/mail/mailbox";
+import { parseMailQuery } from "@/lib/mail/query";
+
+// Message ids from `{ "ids": [...] }`, or null when the body is malformed
+function parseIds(body: unknown): string[] | null {
+  const ids = (body as { ids?: unknown } | null)?.ids;
+  return Array.isArray(ids) && ids.every((id) => typeof id === "string")
+    ? ids
+    : null;
+}
+
+// One page of the folder, filter or label given in the search params
+export async function GET(request: NextRequest) {
+  if (!(await authorize("email:use"))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  return NextResponse.json(
+    await listMail(parseMailQuery(request.nextUrl.searchParams))
+  );
+}
+
+/**
+ * Applies the same changes to several messages:
+ * `{ "ids": [...], "changes": { "starred": true, "folder": "archive" } }`
+ */
+export async function PATCH(request: NextRequest) {
+  if (!(await authorize("email:use"))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  const body = await request.json().catch(() => null);
+  const ids = parseIds(body);
+  if (!ids) {
+    return NextResponse.json(
+      { error: "Expected a list of ids" },
+      { status: 400 }
+    );
+  }
+  const parsed = parseMailChanges(body?.changes);
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+  return NextResponse.json({ updated: await updateMail(ids, parsed.changes) });
+}
+
+// Moves `{ "ids": [...] }` to Trash, or deletes them if already there
+export async function DELETE(request: NextRequest) {
+  if (!(await authorize("email:use"))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  const ids = parseIds(await request.json().catch(() => null));
+  if (!ids) {
+    return NextResponse.json(
+      { error: "Expected a list of ids" },
+      { status: 400 }
+    );
+  }
+  return NextResponse.json(await deleteMail(ids));
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/cookies";
+import { parseOutgoingMail, sendMail } from "@/lib/mail/mailbox";
+
+/**
+ * Sends a message from the team mailbox. The body is JSON with `to`, `cc`,
+ * `subject`, `text` and, for replies, `replyTo` set to the message id.
+ */
+export async function POST(request: NextRequest) {
+  const session = await authorize("email:use");
+  if (!session) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  const parsed = parseOutgoingMail(await request.json().catch(() => null));
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+  const result = await sendMail(session.name, parsed.mail);
+  if ("error" in result) {
+    return NextResponse.json({ error: result.error }, { status: 400 });
+  }
+  return NextResponse.json(result.message, { status: 201 });
+}
@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/cookies";
+import { getThread } from "@/lib/mail/mailbox";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!(await authorize("email:use"))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  const thread = await getThread((await params).id);
+  if (thread.length === 0) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  return NextResponse.json(thread);
+}
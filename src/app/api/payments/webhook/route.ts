@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  handleGatewayEvent,
+  isPaymentWebhookConfigured,
+  parseGatewayEvent,
+} from "@/lib/payments/payments";
+
+/**
+ * Events from the payment gateway. There is no session here: the
+ * `X-Payment-Signature` header proves the gateway sent the body.
+ */
+export async function POST(request: NextRequest) {
+  if (!isPaymentWebhookConfigured()) {
+    return NextResponse.json(
+      { error: "Payment webhook is not configured" },
+      { status: 503 }
+    );
+  }
+  const event = parseGatewayEvent(
+    await request.text(),
+    request.headers.get("x-payment-signature")
+  );
+  if (!event) {
+    return NextResponse.json({ error: "Invalid signature" }, { status: 400 });
+  }
+  await handleGatewayEvent(event);
+  return NextResponse.json({ received: true });
+}
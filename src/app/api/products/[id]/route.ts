@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/cookies";
+import {
+  deleteProduct,
+  getProduct,
+  parseProductInput,
+  updateProduct,
+} from "@/lib/products";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(_request: NextRequest, { params }: Params) {
+  if (!(await authorize("products:view"))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  const product = await getProduct((await params).id);
+  if (!product) {
+    return NextResponse.json({ error: "Product not found" }, { status: 404 });
+  }
+  return NextResponse.json(product);
+}
+
+// Replaces the product with the one sent by the product form
+export async function PUT(request: NextRequest, { params }: Params) {
+  if (!(await authorize("products:edit"))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const parsed = parseProductInput(await request.json().catch(() => null));
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+  const result = await updateProduct((await params).id, parsed.product);
+  if ("error" in result) {
+    return NextResponse.json(
+      { error: result.error },
+      { status: result.status }
+    );
+  }
+  return NextResponse.json(result.product);
+}
+
+export async function DELETE(_request: NextRequest, { params }: Params) {
+  if (!(await authorize("products:delete"))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const result = await deleteProduct((await params).id);
+  if ("error" in result) {
+    return NextResponse.json(
+      { error: result.error },
+      { status: result.status }
+    );
+  }
+  return NextResponse.json(result.product);
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/cookies";
+import { addCategory, listCategories } from "@/lib/products";
+
+export async function GET() {
+  if (!(await authorize("products:view"))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  return NextResponse.json(await listCategories());
+}
+
+// `{ "name": "Tablet" }`
+export async function POST(request: NextRequest) {
+  if (!(await authorize("products:edit"))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const result = await addCategory(
+    typeof body?.name === "string" ? body.name : ""
+  );
+  if ("error" in result) {
+    return NextResponse.json(
+      { error: result.error },
+      { status: result.status }
+    );
+  }
+  return NextResponse.json(result.category, { status: 201 });
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/cookies";
+import { getProductImage } from "@/lib/products";
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!(await authorize("products:view"))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  const image = await getProductImage((await params).id);
+  if (!image) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  return new NextResponse(new Uint8Array(image.data), {
+    headers: {
+      "Content-Type": image.type,
+      "X-Content-Type-Options": "nosniff",
+      // Ids are never reused, so an image never changes
+      "Cache-Control": "private, max-age=31536000, immutable",
+    },
+  });
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/cookies";
+import { saveProductImages } from "@/lib/products";
+
+/**
+ * Uploads product images. The body is multipart form data with any number
+ * of `files`; the response lists their URLs in the same order.
+ */
+export async function POST(request: NextRequest) {
+  if (!(await authorize("products:edit"))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  const form = await request.formData().catch(() => null);
+  if (!form) {
+    return NextResponse.json(
+      { error: "Expected multipart form data" },
+      { status: 400 }
+    );
+  }
+
+  const result = await saveProductImages(
+    form.getAll("files").filter((value): value is File => value instanceof File)
+  );
+  if ("error" in result) {
+    return NextResponse.json({ error: result.error }, { status: 400 });
+  }
+  return NextResponse.json(result, { status: 201 });
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/cookies";
+import { productColumns } from "@/lib/mock-data/products";
+import {
+  createProduct,
+  parseProductInput,
+  queryProducts,
+} from "@/lib/products";
+import { parseTableQuery } from "@/lib/table-query";
+
+// One page of the catalog, searched, filtered and sorted as the table asks
+export async function GET(request: NextRequest) {
+  if (!(await authorize("products:view"))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  const query = parseTableQuery(
+    request.nextUrl.searchParams,
+    productColumns.map((column) => column.id)
+  );
+  return NextResponse.json(await queryProducts(query));
+}
+
+export async function POST(request: NextRequest) {
+  if (!(await authorize("products:edit"))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const parsed = parseProductInput(await request.json().catch(() => null));
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+  const result = await createProduct(parsed.product);
+  if ("error" in result) {
+    return NextResponse.json(
+      { error: result.error },
+      { status: result.status }
+    );
+  }
+  return NextResponse.json(result.product, { status: 201 });
+}
@@ -0,0 +1,13 @@
+import { NextRequest, NextResponse } from "next/server";
+import { shipmentColumns } from "@/lib/mock-data/shipments";
+import { queryShipments } from "@/lib/shipments";
+import { parseTableQuery } from "@/lib/table-query";
+
+// One page of the delivery activity table, filtered and sorted as it asks
+export async function GET(request: NextRequest) {
+  const query = parseTableQuery(
+    request.nextUrl.searchParams,
+    shipmentColumns.map((column) => column.id)
+  );
+  return NextResponse.json(await queryShipments(query));
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { receiveCarrierWebhook } from "@/lib/shipments";
+
+/**
+ * Status updates from carriers. There is no session here: the
+ * `X-Carrier-Signature` header proves the carrier sent the body.
+ */
+export async function POST(request: NextRequest) {
+  const result = await receiveCarrierWebhook(
+    await request.text(),
+    request.headers.get("x-carrier-signature")
+  );
+  if ("error" in result) {
+    return NextResponse.json(
+      { error: result.error },
+      { status: result.status }
+    );
+  }
+  return NextResponse.json({
+    received: true,
+    duplicate: result.outcome === "duplicate",
+  });
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/cookies";
+import {
+  removePaymentMethod,
+  setDefaultPaymentMethod,
+} from "@/lib/payments/payments";
+
+type Params = { params: Promise<{ id: string; methodId: string }> };
+
+// `{ "isDefault": true }` makes the method the one invoices are charged to
+export async function PATCH(request: NextRequest, { params }: Params) {
+  if (!(await authorize("billing:manage"))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const body = await request.json().catch(() => null);
+  if (body?.isDefault !== true) {
+    return NextResponse.json(
+      { error: 'Expected { "isDefault": true }' },
+      { status: 400 }
+    );
+  }
+
+  const { id, methodId } = await params;
+  const result = await setDefaultPaymentMethod(id, methodId);
+  if ("error" in result) {
+    return NextResponse.json(
+      { error: result.error },
+      { status: result.status }
+    );
+  }
+  return NextResponse.json(result.method);
+}
+
+export async function DELETE(_request: NextRequest, { params }: Params) {
+  if (!(await authorize("billing:manage"))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { id, methodId } = await params;
+  const result = await removePaymentMethod(id, methodId);
+  if ("error" in result) {
+    return NextResponse.json(
+      { error: result.error },
+      { status: result.status }
+    );
+  }
+  return NextResponse.json(result.method);
+}
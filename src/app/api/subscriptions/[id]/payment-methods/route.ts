@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/cookies";
+import {
+  addCard,
+  listPaymentMethods,
+  parseCardDetails,
+} from "@/lib/payments/payments";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(_request: NextRequest, { params }: Params) {
+  if (!(await authorize("billing:manage"))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  return NextResponse.json(await listPaymentMethods((await params).id));
+}
+
+/**
+ * Saves a card: `{ "holder", "number", "expiry": "MM/YY", "cvc" }`. The
+ * details go to the payment gateway and only its token is stored.
+ */
+export async function POST(request: NextRequest, { params }: Params) {
+  if (!(await authorize("billing:manage"))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const parsed = parseCardDetails(await request.json().catch(() => null));
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const result = await addCard((await params).id, parsed.card);
+  if ("error" in result) {
+    return NextResponse.json(
+      { error: result.error },
+      { status: result.status }
+    );
+  }
+  return NextResponse.json(result.method, { status: 201 });
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/cookies";
+import {
+  changePlan,
+  getSubscription,
+  parseSubscriptionChange,
+  setCancelAtPeriodEnd,
+  updateBillingDetails,
+} from "@/lib/billing/subscriptions";
+import { calendarDay } from "@/lib/invoice-lifecycle";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(_request: NextRequest, { params }: Params) {
+  if (!(await authorize("billing:manage"))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  const subscription = await getSubscription((await params).id);
+  if (!subscription) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  return NextResponse.json(subscription);
+}
+
+/**
+ * `{ "planId": "enterprise", "interval": "month" }` switches plans now,
+ * invoicing the prorated difference; `{ "cancelAtPeriodEnd": true }` ends
+ * the subscription when the paid period runs out; `{ "billingDetails": {...} }`
+ * changes who is billed.
+ */
+export async function PATCH(request: NextRequest, { params }: Params) {
+  const session = await authorize("billing:manage");
+  if (!session) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const parsed = parseSubscriptionChange(
+    await request.json().catch(() => null)
+  );
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const { id } = await params;
+  const { change } = parsed;
+  const result =
+    "cancelAtPeriodEnd" in change
+      ? await setCancelAtPeriodEnd(id, change.cancelAtPeriodEnd, session.name)
+      : "billingDetails" in change
+      ? await updateBillingDetails(id, change.billingDetails, session.name)
+      : await changePlan(
+          id,
+          change.planId,
+          change.interval,
+          session.name,
+          calendarDay()
+        );
+  if ("error" in result) {
+    return NextResponse.json(
+      { error: result.error },
+      { status: result.status }
+    );
+  }
+  return NextResponse.json(result.subscription);
+}
@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/cookies";
+import { listSubscriptions } from "@/lib/billing/subscriptions";
+
+export async function GET() {
+  if (!(await authorize("billing:manage"))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  return NextResponse.json(await listSubscriptions());
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/cookies";
+import { getTicketAttachment } from "@/lib/support-tickets";
+
+// Shown in the page; anything else, SVG included, is downloaded
+const INLINE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; attachmentId: string }> }
+) {
+  if (!(await authorize("support:view"))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  const { id, attachmentId } = await params;
+  const found = await getTicketAttachment(id, attachmentId);
+  if (!found) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const { attachment, data } = found;
+  const inline = INLINE_TYPES.includes(attachment.type);
+  return new NextResponse(new Uint8Array(data), {
+    headers: {
+      "Content-Type": inline ? attachment.type : "application/octet-stream",
+      "Content-Disposition": `${
+        inline ? "inline" : "attachment"
+      }; filename*=UTF-8''${encodeURIComponent(attachment.name)}`,
+      "X-Content-Type-Options": "nosniff",
+      "Cache-Control": "private, max-age=31536000, immutable",
+    },
+  });
+}
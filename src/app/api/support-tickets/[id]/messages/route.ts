@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/cookies";
+import { addTicketMessage, parseTicketMessage } from "@/lib/support-tickets";
+import { getMacro } from "@/lib/ticket-macros";
+
+/**
+ * Adds a reply to the customer, or an internal note with `"internal": true`.
+ * With a `macroId`, the macro's actions run on the ticket as well.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await authorize("support:reply");
+  if (!session) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const parsed = parseTicketMessage(await request.json().catch(() => null));
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const { macroId } = parsed.message;
+  const macro = macroId ? await getMacro(macroId) : null;
+  if (macroId && !macro) {
+    return NextResponse.json({ error: "Macro not found" }, { status: 400 });
+  }
+
+  const result = await addTicketMessage(
+    (
+      await params
+    ).id,
+    parsed.message,
+    session.name,
+    macro?.actions
+  );
+  if ("error" in result) {
+    return NextResponse.json(
+      { error: result.error },
+      { status: result.status }
+    );
+  }
+  return NextResponse.json(result.ticket, { status: 201 });
+}
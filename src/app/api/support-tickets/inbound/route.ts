@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  MAX_INBOUND_SIZE,
+  ingestSupportMail,
+  isInboundAuthorized,
+} from "@/lib/support-mail";
+
+/**
+ * Raw RFC 822 messages from the local mail relay, one per request. There is
+ * no session here: the relay's bearer token proves who is posting.
+ */
+export async function POST(request: NextRequest) {
+  if (!isInboundAuthorized(request.headers.get("authorization"))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (Number(request.headers.get("content-length")) > MAX_INBOUND_SIZE) {
+    return NextResponse.json({ error: "Message too large" }, { status: 413 });
+  }
+  const raw = await request.text();
+  if (Buffer.byteLength(raw) > MAX_INBOUND_SIZE) {
+    return NextResponse.json({ error: "Message too large" }, { status: 413 });
+  }
+
+  const result = await ingestSupportMail(raw);
+  if ("error" in result) {
+    return NextResponse.json({ error: result.error }, { status: 400 });
+  }
+  return NextResponse.json(
+    { ticketId: result.ticket.id, outcome: result.outcome },
+    { status: result.outcome === "created" ? 201 : 200 }
+  );
+}
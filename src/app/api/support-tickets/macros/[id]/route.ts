@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/cookies";
+import { deleteMacro, parseMacroInput, updateMacro } from "@/lib/ticket-macros";
+
+type Params = { params: Promise<{ id: string }> };
+
+// Replaces the macro with the one sent by the macro form
+export async function PUT(request: NextRequest, { params }: Params) {
+  const session = await authorize("support:macros");
+  if (!session) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const parsed = parseMacroInput(await request.json().catch(() => null));
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+  const result = await updateMacro(
+    (
+      await params
+    ).id,
+    parsed.macro,
+    session.name
+  );
+  if ("error" in result) {
+    return NextResponse.json(
+      { error: result.error },
+      { status: result.status }
+    );
+  }
+  return NextResponse.json(result.macro);
+}
+
+export async function DELETE(_request: NextRequest, { params }: Params) {
+  if (!(await authorize("support:macros"))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const result = await deleteMacro((await params).id);
+  if ("error" in result) {
+    return NextResponse.json(
+      { error: result.error },
+      { status: result.status }
+    );
+  }
+  return NextResponse.json(result.macro);
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/cookies";
+import { createMacro, listMacros, parseMacroInput } from "@/lib/ticket-macros";
+
+// Every macro, for the picker in the reply box
+export async function GET() {
+  if (!(await authorize("support:reply"))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  return NextResponse.json(await listMacros());
+}
+
+export async function POST(request: NextRequest) {
+  const session = await authorize("support:macros");
+  if (!session) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const parsed = parseMacroInput(await request.json().catch(() => null));
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+  const result = await createMacro(parsed.macro, session.name);
+  if ("error" in result) {
+    return NextResponse.json(
+      { error: result.error },
+      { status: result.status }
+    );
+  }
+  return NextResponse.json(result.macro, { status: 201 });
+}
@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/cookies";
+import { ticketColumns } from "@/lib/mock-data/support-tickets";
+import { queryTickets } from "@/lib/support-tickets";
+import { parseTableQuery } from "@/lib/table-query";
+
+// One page of the ticket list, searched, filtered and sorted as the table asks
+export async function GET(request: NextRequest) {
+  if (!(await authorize("support:view"))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  const query = parseTableQuery(
+    request.nextUrl.searchParams,
+    ticketColumns.map((column) => column.id)
+  );
+  return NextResponse.json(await queryTickets(query));
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/cookies";
+import { getTaskBoard, parseTaskBoard, saveTaskBoard } from "@/lib/tasks";
+
+export async function GET() {
+  return NextResponse.json(await getTaskBoard());
+}
+
+/**
+ * Replaces the whole board. The body must carry the version it was based
+ * on; a stale version gets a 409 with the current board to reload from.
+ */
+export async function PUT(request: NextRequest) {
+  if (!(await authorize("tasks:edit"))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const parsed = parseTaskBoard(await request.json().catch(() => null));
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const result = await saveTaskBoard(parsed.board);
+  return NextResponse.json(result.board, { status: result.ok ? 200 : 409 });
+}
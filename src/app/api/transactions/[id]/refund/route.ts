@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/cookies";
+import { parseRefund, refundTransaction } from "@/lib/payments/payments";
+import { getTransaction } from "@/lib/transactions";
+
+// Refunds `{ "amount": "12.50" }` of a payment, or all of it with `{}`
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await authorize("billing:manage");
+  if (!session) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const transaction = await getTransaction((await params).id);
+  if (!transaction) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  const parsed = parseRefund(
+    await request.json().catch(() => null),
+    transaction.currency
+  );
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const result = await refundTransaction(
+    transaction,
+    parsed.amount,
+    session.name
+  );
+  if ("error" in result) {
+    return NextResponse.json(
+      { error: result.error },
+      { status: result.status }
+    );
+  }
+  return NextResponse.json(result.transaction);
+}
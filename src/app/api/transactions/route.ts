@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/cookies";
+import { transactionColumns } from "@/lib/mock-data/transactions";
+import { parseTableQuery } from "@/lib/table-query";
+import { queryTransactions } from "@/lib/transactions";
+
+// One page of the transaction list, searched and sorted as the table asks
+export async function GET(request: NextRequest) {
+  if (!(await authorize("transactions:view"))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  const query = parseTableQuery(
+    request.nextUrl.searchParams,
+    transactionColumns.map((column) => column.id)
+  );
+  return NextResponse.json(await queryTransactions(query));
+}
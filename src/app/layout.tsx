@@ -2,24 +2,38 @@ import { Outfit } from "next/font/google";
 import "./globals.css";
 import "swiper/swiper-bundle.css";
 import "simplebar-react/dist/simplebar.min.css";
+import { SessionProvider } from "@/context/SessionContext";
 import { SidebarProvider } from "@/context/SidebarContext";
 import { ThemeProvider } from "@/context/ThemeContext";
+import { getSession } from "@/lib/auth/cookies";
 
 const outfit = Outfit({
   subsets: ["latin"],
 });
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const session = await getSession();
+  const user = session
+    ? {
+        id: session.sub,
+        name: session.name,
+        email: session.email,
+        role: session.role,
+      }
+    : null;
+
   return (
     <html lang="en">
       <body className={`${outfit.className} dark:bg-gray-900`}>
-        <ThemeProvider>
-          <SidebarProvider>{children}</SidebarProvider>
-        </ThemeProvider>
+        <SessionProvider user={user}>
+          <ThemeProvider>
+            <SidebarProvider>{children}</SidebarProvider>
+          </ThemeProvider>
+        </SessionProvider>
       </body>
     </html>
   );
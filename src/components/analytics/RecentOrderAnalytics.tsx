@@ -1,4 +1,8 @@
-import Image from "next/image";
+import Link from "next/link";
+import type { Transaction } from "@/lib/mock-data/transactions";
+import { formatMoney } from "@/lib/money";
+import { calculateOrderTotals } from "@/lib/order-totals";
+import Badge from "../ui/badge/Badge";
 import Button from "../ui/button/Button";
 import {
   Table,
@@ -7,78 +11,15 @@ import {
   TableHeader,
   TableRow,
 } from "../ui/table";
+import { orderBadge, orderProducts } from "../transactions/orderDisplay";
 
-// Define the TypeScript interface for the table rows
-interface Product {
-  id: number; // Unique identifier for each product
-  name: string; // Product name
-  category: string; // Category of the product
-  country: string; // Price of the product (as a string with currency symbol)
-  cr: string; // URL or path to the product image
-  value: string;
+interface RecentOrderAnalyticsProps {
+  orders: Transaction[]; // Newest first
 }
 
-// Define the table data using the interface
-const tableData: Product[] = [
-  {
-    id: 1,
-    name: "TailGrids",
-    category: "UI Kits",
-    country: "/images/country/country-01.svg",
-    cr: "Dashboard",
-    value: "12,499", // Replace with actual image URL
-  },
-  {
-    id: 2,
-    name: "GrayGrids",
-    category: "Templates",
-    country: "/images/country/country-02.svg",
-    cr: "Dashboard",
-    value: "5498", // Replace with actual image URL
-  },
-  {
-    id: 3,
-    name: "Uideck",
-    category: "Templates",
-    country: "/images/country/country-03.svg",
-    cr: "Dashboard",
-    value: "4621", // Replace with actual image URL
-  },
-  {
-    id: 4,
-    name: "FormBold",
-    category: "SaaS",
-    country: "/images/country/country-04.svg",
-    cr: "Dashboard",
-    value: "13843", // Replace with actual image URL
-  },
-  {
-    id: 5,
-    name: "NextAdmin",
-    category: "Templates",
-    country: "/images/country/country-05.svg",
-    cr: "Dashboard",
-    value: "7523", // Replace with actual image URL
-  },
-  {
-    id: 6,
-    name: "Form Builder",
-    category: "Templates",
-    country: "/images/country/country-06.svg",
-    cr: "Dashboard",
-    value: "1,377", // Replace with actual image URL
-  },
-  {
-    id: 7,
-    name: "AyroUI",
-    category: "Templates",
-    country: "/images/country/country-07.svg",
-    cr: "Dashboard",
-    value: "599,00", // Replace with actual image URL
-  },
-];
-
-export default function RecentOrderAnalytics() {
+export default function RecentOrderAnalytics({
+  orders,
+}: RecentOrderAnalyticsProps) {
   return (
     <div className="overflow-hidden rounded-2xl border border-gray-200 bg-white  dark:border-white/[0.05] dark:bg-white/[0.03] ">
       <div className="px-4 pt-4 sm:px-6">
@@ -128,9 +69,12 @@ export default function RecentOrderAnalytics() {
               </svg>
               Filter
             </Button>
-            <Button size="sm" variant="outline">
+            <Link
+              href="/transactions"
+              className="inline-flex items-center justify-center gap-2 rounded-lg bg-white px-4 py-3 text-sm font-medium text-gray-700 ring-1 ring-inset ring-gray-300 transition hover:bg-gray-50 dark:bg-gray-800 dark:text-gray-400 dark:ring-gray-700 dark:hover:bg-white/[0.03] dark:hover:text-gray-300"
+            >
               See all
-            </Button>
+            </Link>
           </div>
         </div>
       </div>
@@ -150,7 +94,7 @@ export default function RecentOrderAnalytics() {
                   isHeader
                   className="px-4 py-3 font-medium text-gray-500 sm:px-6 text-start text-theme-xs dark:text-gray-400"
                 >
-                  Category
+                  Customer
                 </TableCell>
                 <TableCell
                   isHeader
@@ -162,7 +106,7 @@ export default function RecentOrderAnalytics() {
                   isHeader
                   className="px-4 py-3 font-medium text-gray-500 sm:px-6 text-start text-theme-xs dark:text-gray-400"
                 >
-                  CR
+                  Status
                 </TableCell>
                 <TableCell
                   isHeader
@@ -176,33 +120,48 @@ export default function RecentOrderAnalytics() {
             {/* Table Body */}
 
             <TableBody className="divide-y divide-gray-100 dark:divide-white/[0.05]">
-              {tableData.map((product) => (
-                <TableRow key={product.id}>
-                  <TableCell className="px-4 py-3 font-medium text-gray-800 sm:px-6 text-start text-theme-sm dark:text-white/90">
-                    {product.name}
-                  </TableCell>
-                  <TableCell className="px-4 py-3 text-gray-500 sm:px-6 text-start text-theme-sm dark:text-gray-400">
-                    {product.category}
-                  </TableCell>
-                  <TableCell className="px-4 py-3 text-gray-500 sm:px-6 text-start text-theme-sm dark:text-gray-400">
-                    <div className="w-5 h-5 overflow-hidden rounded-full">
-                      <Image
-                        src={product.country}
-                        className="w-5 h-5 rounded-full"
-                        alt="country"
-                        width={20}
-                        height={20}
-                      />
-                    </div>
-                  </TableCell>
-                  <TableCell className="px-4 py-3 text-gray-500 sm:px-6 text-start text-theme-sm dark:text-gray-400">
-                    {product.cr}
-                  </TableCell>
-                  <TableCell className="px-4 text-theme-sm sm:px-6 text-start text-success-600">
-                    ${product.value}
-                  </TableCell>
-                </TableRow>
-              ))}
+              {orders.map((order) => {
+                const products = orderProducts(order);
+                const badge = orderBadge(order);
+                return (
+                  <TableRow key={order.id}>
+                    <TableCell className="px-4 py-3 font-medium text-gray-800 sm:px-6 text-start text-theme-sm dark:text-white/90">
+                      <Link
+                        href={`/transactions/${order.id}`}
+                        className="hover:text-brand-500"
+                      >
+                        {products.first}
+                      </Link>
+                      {products.more && (
+                        <span className="block font-normal text-gray-500 text-theme-xs dark:text-gray-400">
+                          {products.more}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell className="px-4 py-3 text-gray-500 sm:px-6 text-start text-theme-sm dark:text-gray-400">
+                      {order.customer}
+                    </TableCell>
+                    <TableCell className="px-4 py-3 text-gray-500 sm:px-6 text-start text-theme-sm dark:text-gray-400">
+                      {order.country}
+                    </TableCell>
+                    <TableCell className="px-4 py-3 text-gray-500 sm:px-6 text-start text-theme-sm dark:text-gray-400">
+                      <Badge size="sm" color={badge.color}>
+                        {badge.label}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="px-4 text-theme-sm sm:px-6 text-start text-success-600">
+                      {formatMoney(
+                        calculateOrderTotals(
+                          order.items,
+                          order.vatRate,
+                          order.currency
+                        ).total,
+                        { trimZeroCents: true }
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
             </TableBody>
           </Table>
         </div>
@@ -2,6 +2,7 @@
 import Switch from "../form/switch/Switch";
 import AddApiKeyModal from "./AddApiKeyModal";
 import { useState } from "react";
+import { usePermission } from "@/context/SessionContext";
 
 interface ApiKey {
   id: string;
@@ -45,6 +46,7 @@ const apiKeysData: ApiKey[] = [
 
 export default function ApiKeyTable() {
   const [copiedId, setCopiedId] = useState<string | null>(null);
+  const canManage = usePermission("api-keys:manage");
 
   const handleCopy = async (value: string, id: string) => {
     try {
@@ -66,9 +68,7 @@ export default function ApiKeyTable() {
             API keys are used to authentication requests to the tailadmin API
           </p>
         </div>
-        <div>
-          <AddApiKeyModal />
-        </div>
+        <div>{canManage && <AddApiKeyModal />}</div>
       </div>
       <div className="custom-scrollbar overflow-x-auto px-1 pb-4">
         <table className="min-w-full">
@@ -163,7 +163,10 @@ export default function ApiKeyTable() {
                       </div>
 
                       <div className="group relative inline-block">
-                        <button className="inline-flex h-11 w-11 items-center justify-center rounded-lg border border-gray-300 text-gray-700 dark:border-gray-700 dark:text-gray-400 ">
+                        <button
+                          disabled={!canManage}
+                          className="inline-flex h-11 w-11 items-center justify-center rounded-lg border border-gray-300 text-gray-700 disabled:cursor-not-allowed disabled:opacity-50 dark:border-gray-700 dark:text-gray-400 "
+                        >
                           <svg
                             xmlns="http://www.w3.org/2000/svg"
                             width="20"
@@ -210,11 +213,17 @@ export default function ApiKeyTable() {
                   {apiKey.lastUsed}
                 </td>
                 <td className="px-5 py-3 whitespace-nowrap">
-                  <Switch defaultChecked={apiKey.status === "Active"} />
+                  <Switch
+                    defaultChecked={apiKey.status === "Active"}
+                    disabled={!canManage}
+                  />
                 </td>
                 <td className="px-5 py-3 whitespace-nowrap">
                   <div className="flex w-full items-center gap-3">
-                    <button className="hover:text-error-500 dark:hover:text-error-500 text-gray-500 dark:text-gray-400">
+                    <button
+                      disabled={!canManage}
+                      className="hover:text-error-500 dark:hover:text-error-500 text-gray-500 disabled:cursor-not-allowed disabled:opacity-50 dark:text-gray-400"
+                    >
                       <svg
                         className="fill-current"
                         width="21"
@@ -231,7 +240,10 @@ export default function ApiKeyTable() {
                         />
                       </svg>
                     </button>
-                    <button className="text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-white/90">
+                    <button
+                      disabled={!canManage}
+                      className="text-gray-500 hover:text-gray-800 disabled:cursor-not-allowed disabled:opacity-50 dark:text-gray-400 dark:hover:text-white/90"
+                    >
                       <svg
                         className="fill-current"
                         width="21"
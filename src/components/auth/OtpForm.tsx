@@ -1,11 +1,31 @@
 "use client";
 import Link from "next/link";
-import React, { useRef, useState } from "react";
+import React, { useActionState, useRef, useState } from "react";
 import Label from "@/components/form/Label";
+import Alert from "@/components/ui/alert/Alert";
+import { verifyTwoStep, type AuthFormState } from "@/lib/auth/actions";
+
+interface OtpFormProps {
+  mode: "verify" | "enroll"; // Finish a sign-in, or confirm a new authenticator
+  secret?: string; // Base32 secret to type into the authenticator app
+  keyUri?: string; // otpauth:// link for the same secret
+  redirectTo?: string;
+}
+
+const initialState: AuthFormState = {};
 
-export default function OtpForm() {
+export default function OtpForm({
+  mode,
+  secret,
+  keyUri,
+  redirectTo = "/",
+}: OtpFormProps) {
   const [otp, setOtp] = useState(["", "", "", "", "", ""]);
   const inputsRef = useRef<HTMLInputElement[]>([]);
+  const [state, formAction, isPending] = useActionState(
+    verifyTwoStep,
+    initialState
+  );
 
   const handleChange = (value: string, index: number) => {
     const updatedOtp = [...otp];
@@ -69,9 +89,6 @@ export default function OtpForm() {
     }
   };
 
-  const handleSubmit = () => {
-    alert(`Submitted OTP: ${otp.join("")}`);
-  };
   return (
     <div className="flex flex-col flex-1 lg:w-1/2 w-full">
       <div className="w-full max-w-md pt-10 mx-auto">
@@ -104,13 +121,51 @@ export default function OtpForm() {
             Two Step Verification
           </h1>
           <p className="text-sm text-gray-500 dark:text-gray-400">
-            A verification code has been sent to your mobile. Please enter it in
-            the field below.
+            {mode === "verify"
+              ? "Open the authenticator app linked to your account and enter the code it shows."
+              : "Add this account to an authenticator app, then enter the code it shows to turn on two-step verification."}
           </p>
         </div>
         <div>
-          <form>
+          <form action={formAction}>
+            <input type="hidden" name="code" value={otp.join("")} />
+            <input type="hidden" name="redirectTo" value={redirectTo} />
             <div className="space-y-5">
+              {state.error && (
+                <Alert
+                  variant="error"
+                  title="Verification failed"
+                  message={state.error}
+                />
+              )}
+              {state.message && (
+                <Alert
+                  variant="success"
+                  title="You're protected"
+                  message={state.message}
+                  showLink
+                  linkHref={redirectTo}
+                  linkText="Back to dashboard"
+                />
+              )}
+              {mode === "enroll" && secret && (
+                <div className="rounded-lg border border-gray-200 p-4 dark:border-gray-800">
+                  <p className="mb-2 text-sm text-gray-500 dark:text-gray-400">
+                    Setup key
+                  </p>
+                  <p className="font-mono text-sm break-all text-gray-800 dark:text-white/90">
+                    {secret}
+                  </p>
+                  {keyUri && (
+                    <a
+                      href={keyUri}
+                      className="mt-2 inline-block text-sm text-brand-500 hover:text-brand-600 dark:text-brand-400"
+                    >
+                      Open in authenticator app
+                    </a>
+                  )}
+                </div>
+              )}
               {/* <!-- Email --> */}
               <div>
                 <Label>Type your 6 digits security code</Label>
@@ -139,8 +194,9 @@ export default function OtpForm() {
               {/* <!-- Button --> */}
               <div>
                 <button
-                  onClick={handleSubmit}
-                  className="flex items-center justify-center w-full px-4 py-3 text-sm font-medium text-white transition rounded-lg bg-brand-500 shadow-theme-xs hover:bg-brand-600"
+                  type="submit"
+                  disabled={isPending || otp.join("").length < otp.length}
+                  className="flex items-center justify-center w-full px-4 py-3 text-sm font-medium text-white transition rounded-lg bg-brand-500 shadow-theme-xs hover:bg-brand-600 disabled:opacity-50"
                 >
                   Verify My Account
                 </button>
@@ -149,12 +205,12 @@ export default function OtpForm() {
           </form>
           <div className="mt-5">
             <p className="text-sm font-normal text-center text-gray-700 dark:text-gray-400 sm:text-start">
-              Didn’t get the code?{" "}
+              {mode === "verify" ? "Lost your device?" : "Not now?"}{" "}
               <Link
-                href="/"
+                href={mode === "verify" ? "/signin" : redirectTo}
                 className="text-brand-500 hover:text-brand-600 dark:text-brand-400"
               >
-                Resend
+                {mode === "verify" ? "Sign in again" : "Skip for now"}
               </Link>
             </p>
           </div>
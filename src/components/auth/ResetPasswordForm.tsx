@@ -1,9 +1,32 @@
-import React from "react";
+"use client";
+import React, { useActionState } from "react";
 import Link from "next/link";
 import Label from "../form/Label";
 import Input from "@/components/form/input/InputField";
+import Alert from "@/components/ui/alert/Alert";
+import {
+  requestPasswordReset,
+  resetPassword,
+  type AuthFormState,
+} from "@/lib/auth/actions";
+
+interface ResetPasswordFormProps {
+  token?: string; // Token from the emailed link; shows the new password step
+  tokenValid?: boolean;
+}
+
+const initialState: AuthFormState = {};
+
+export default function ResetPasswordForm({
+  token,
+  tokenValid = false,
+}: ResetPasswordFormProps) {
+  const choosingPassword = !!token && tokenValid;
+  const [state, formAction, isPending] = useActionState(
+    choosingPassword ? resetPassword : requestPasswordReset,
+    initialState
+  );
 
-export default function ResetPasswordForm() {
   return (
     <div className="flex flex-col flex-1 lg:w-1/2 w-full">
       <div className="w-full max-w-md pt-10 mx-auto">
@@ -33,33 +56,87 @@ export default function ResetPasswordForm() {
       <div className="flex flex-col justify-center flex-1 w-full max-w-md mx-auto">
         <div className="mb-5 sm:mb-8">
           <h1 className="mb-2 font-semibold text-gray-800 text-title-sm dark:text-white/90 sm:text-title-md">
-            Forgot Your Password?
+            {choosingPassword
+              ? "Choose a New Password"
+              : "Forgot Your Password?"}
           </h1>
           <p className="text-sm text-gray-500 dark:text-gray-400">
-            Enter the email address linked to your account, and we’ll send you a
-            link to reset your password.
+            {choosingPassword
+              ? "Enter a new password for your account. You will be asked to sign in again afterwards."
+              : "Enter the email address linked to your account, and we’ll send you a link to reset your password."}
           </p>
         </div>
         <div>
-          <form>
+          <form action={formAction}>
             <div className="space-y-5">
-              {/* <!-- Email --> */}
-              <div>
-                <Label>
-                  Email<span className="text-error-500">*</span>
-                </Label>
-                <Input
-                  type="email"
-                  id="email"
-                  name="email"
-                  placeholder="Enter your email"
+              {token && !tokenValid && (
+                <Alert
+                  variant="warning"
+                  title="Link expired"
+                  message="This reset link is invalid or has expired. Request a new one below."
                 />
-              </div>
+              )}
+              {state.error && (
+                <Alert variant="error" title="Error" message={state.error} />
+              )}
+              {state.message && (
+                <Alert
+                  variant="success"
+                  title="Check your inbox"
+                  message={state.message}
+                />
+              )}
+              {choosingPassword ? (
+                <>
+                  <input type="hidden" name="token" value={token} />
+                  {/* <!-- New Password --> */}
+                  <div>
+                    <Label>
+                      New Password<span className="text-error-500">*</span>
+                    </Label>
+                    <Input
+                      type="password"
+                      id="password"
+                      name="password"
+                      placeholder="Enter a new password"
+                    />
+                  </div>
+                  {/* <!-- Confirm Password --> */}
+                  <div>
+                    <Label>
+                      Confirm Password<span className="text-error-500">*</span>
+                    </Label>
+                    <Input
+                      type="password"
+                      id="confirmPassword"
+                      name="confirmPassword"
+                      placeholder="Repeat the new password"
+                    />
+                  </div>
+                </>
+              ) : (
+                /* <!-- Email --> */
+                <div>
+                  <Label>
+                    Email<span className="text-error-500">*</span>
+                  </Label>
+                  <Input
+                    type="email"
+                    id="email"
+                    name="email"
+                    placeholder="Enter your email"
+                  />
+                </div>
+              )}
 
               {/* <!-- Button --> */}
               <div>
-                <button className="flex items-center justify-center w-full px-4 py-3 text-sm font-medium text-white transition rounded-lg bg-brand-500 shadow-theme-xs hover:bg-brand-600">
-                  Send Reset Link
+                <button
+                  type="submit"
+                  disabled={isPending}
+                  className="flex items-center justify-center w-full px-4 py-3 text-sm font-medium text-white transition rounded-lg bg-brand-500 shadow-theme-xs hover:bg-brand-600 disabled:opacity-50"
+                >
+                  {choosingPassword ? "Update Password" : "Send Reset Link"}
                 </button>
               </div>
             </div>
@@ -68,7 +145,7 @@ export default function ResetPasswordForm() {
             <p className="text-sm font-normal text-center text-gray-700 dark:text-gray-400 sm:text-start">
               Wait, I remember my password...
               <Link
-                href="/"
+                href="/signin"
                 className="text-brand-500 hover:text-brand-600 dark:text-brand-400"
               >
                 Click here
@@ -2,14 +2,27 @@
 import Checkbox from "@/components/form/input/Checkbox";
 import Input from "@/components/form/input/InputField";
 import Label from "@/components/form/Label";
+import Alert from "@/components/ui/alert/Alert";
 import Button from "@/components/ui/button/Button";
 import { ChevronLeftIcon, EyeCloseIcon, EyeIcon } from "@/icons";
+import { signIn, type AuthFormState } from "@/lib/auth/actions";
 import Link from "next/link";
-import React, { useState } from "react";
+import React, { useActionState, useState } from "react";
 
-export default function SignInForm() {
+interface SignInFormProps {
+  redirectTo?: string; // Page to open after signing in
+  notice?: string; // Shown above the form, e.g. after a password reset
+}
+
+const initialState: AuthFormState = {};
+
+export default function SignInForm({
+  redirectTo = "/",
+  notice,
+}: SignInFormProps) {
   const [showPassword, setShowPassword] = useState(false);
   const [isChecked, setIsChecked] = useState(false);
+  const [state, formAction, isPending] = useActionState(signIn, initialState);
   return (
     <div className="flex flex-col flex-1 lg:w-1/2 w-full">
       <div className="w-full max-w-md sm:pt-10 mx-auto mb-5">
@@ -84,13 +97,34 @@ export default function SignInForm() {
                 </span>
               </div>
             </div>
-            <form>
+            <form action={formAction}>
+              <input type="hidden" name="redirectTo" value={redirectTo} />
+              <input
+                type="hidden"
+                name="remember"
+                value={isChecked ? "on" : ""}
+              />
               <div className="space-y-6">
+                {state.error ? (
+                  <Alert
+                    variant="error"
+                    title="Sign in failed"
+                    message={state.error}
+                  />
+                ) : (
+                  notice && (
+                    <Alert variant="success" title="All set" message={notice} />
+                  )
+                )}
                 <div>
                   <Label>
                     Email <span className="text-error-500">*</span>{" "}
                   </Label>
-                  <Input placeholder="info@gmail.com" />
+                  <Input
+                    type="email"
+                    name="email"
+                    placeholder="info@gmail.com"
+                  />
                 </div>
                 <div>
                   <Label>
@@ -99,6 +133,7 @@ export default function SignInForm() {
                   <div className="relative">
                     <Input
                       type={showPassword ? "text" : "password"}
+                      name="password"
                       placeholder="Enter your password"
                     />
                     <span
@@ -128,8 +163,8 @@ export default function SignInForm() {
                   </Link>
                 </div>
                 <div>
-                  <Button className="w-full" size="sm">
-                    Sign in
+                  <Button className="w-full" size="sm" disabled={isPending}>
+                    {isPending ? "Signing in..." : "Sign in"}
                   </Button>
                 </div>
               </div>
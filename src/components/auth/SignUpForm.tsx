@@ -2,13 +2,18 @@
 import Checkbox from "@/components/form/input/Checkbox";
 import Input from "@/components/form/input/InputField";
 import Label from "@/components/form/Label";
+import Alert from "@/components/ui/alert/Alert";
 import { ChevronLeftIcon, EyeCloseIcon, EyeIcon } from "@/icons";
+import { signUp, type AuthFormState } from "@/lib/auth/actions";
 import Link from "next/link";
-import React, { useState } from "react";
+import React, { useActionState, useState } from "react";
+
+const initialState: AuthFormState = {};
 
 export default function SignUpForm() {
   const [showPassword, setShowPassword] = useState(false);
   const [isChecked, setIsChecked] = useState(false);
+  const [state, formAction, isPending] = useActionState(signUp, initialState);
   return (
     <div className="flex flex-col flex-1 lg:w-1/2 w-full overflow-y-auto no-scrollbar">
       <div className="w-full max-w-md sm:pt-10 mx-auto mb-5">
@@ -83,8 +88,16 @@ export default function SignUpForm() {
                 </span>
               </div>
             </div>
-            <form>
+            <form action={formAction}>
+              <input type="hidden" name="terms" value={isChecked ? "on" : ""} />
               <div className="space-y-5">
+                {state.error && (
+                  <Alert
+                    variant="error"
+                    title="Sign up failed"
+                    message={state.error}
+                  />
+                )}
                 <div className="grid grid-cols-1 gap-5 sm:grid-cols-2">
                   {/* <!-- First Name --> */}
                   <div className="sm:col-span-1">
@@ -130,6 +143,7 @@ export default function SignUpForm() {
                   </Label>
                   <div className="relative">
                     <Input
+                      name="password"
                       placeholder="Enter your password"
                       type={showPassword ? "text" : "password"}
                     />
@@ -165,8 +179,12 @@ export default function SignUpForm() {
                 </div>
                 {/* <!-- Button --> */}
                 <div>
-                  <button className="flex items-center justify-center w-full px-4 py-3 text-sm font-medium text-white transition rounded-lg bg-brand-500 shadow-theme-xs hover:bg-brand-600">
-                    Sign Up
+                  <button
+                    type="submit"
+                    disabled={isPending}
+                    className="flex items-center justify-center w-full px-4 py-3 text-sm font-medium text-white transition rounded-lg bg-brand-500 shadow-theme-xs hover:bg-brand-600 disabled:opacity-50"
+                  >
+                    {isPending ? "Creating account..." : "Sign Up"}
                   </button>
                 </div>
               </div>
@@ -0,0 +1,55 @@
+import Image from "next/image";
+import type { ChatContact } from "@/lib/chat";
+
+interface ChatAvatarProps {
+  contact: ChatContact;
+  size?: number; // Pixels
+  showStatus?: boolean;
+}
+
+const statusColors = {
+  online: "bg-success-500",
+  away: "bg-warning-500",
+  offline: "bg-error-500",
+};
+
+export default function ChatAvatar({
+  contact,
+  size = 48,
+  showStatus = true,
+}: ChatAvatarProps) {
+  const initials = contact.name
+    .split(" ")
+    .map((part) => part.charAt(0))
+    .join("")
+    .slice(0, 2)
+    .toUpperCase();
+
+  return (
+    <div
+      className="relative w-full shrink-0 rounded-full"
+      style={{ height: size, maxWidth: size }}
+    >
+      {contact.avatar ? (
+        <Image
+          width={size}
+          height={size}
+          src={contact.avatar}
+          alt={`${contact.name} profile`}
+          className="object-cover object-center w-full h-full overflow-hidden rounded-full"
+        />
+      ) : (
+        <span className="flex items-center justify-center w-full h-full text-sm font-medium rounded-full bg-brand-100 text-brand-600 dark:bg-brand-500/15 dark:text-brand-400">
+          {initials}
+        </span>
+      )}
+      {showStatus && (
+        <span
+          className={`absolute bottom-0 right-0 block h-3 w-3 rounded-full border-[1.5px] border-white dark:border-gray-900 ${
+            statusColors[contact.status]
+          }`}
+        ></span>
+      )}
+    </div>
+  );
+}
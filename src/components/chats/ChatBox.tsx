@@ -1,139 +1,143 @@
-import React from "react";
+"use client";
+import React, { useEffect, useRef } from "react";
 import ChatBoxHeader from "./ChatBoxHeader";
 import ChatBoxSendForm from "./ChatBoxSendForm";
+import ChatAvatar from "./ChatAvatar";
 import Image from "next/image";
+import { useChat } from "@/context/ChatContext";
+import type { ChatAttachment } from "@/lib/chat";
+import { formatChatTime, formatFileSize } from "./chatFormat";
 
-interface ChatItem {
-  id: number;
-  name: string;
-  role: string;
-  profileImage: string;
-  status: "online" | "offline";
-  lastActive: string;
-  message: string;
-  isSender: boolean;
-  imagePreview?: string;
-}
+const attachmentUrl = (attachment: ChatAttachment) =>
+  `/api/chat/attachments/${attachment.id}`;
 
-const chatList: ChatItem[] = [
-  {
-    id: 1,
-    name: "Kaiya George",
-    role: "Project Manager",
-    profileImage: "/images/user/user-18.jpg",
-    status: "online",
-    lastActive: "15 mins",
-    message: "I want to make an appointment tomorrow from 2:00 to 5:00pm?",
-    isSender: false,
-  },
-  {
-    id: 2,
-    name: "Lindsey Curtis",
-    role: "Designer",
-    profileImage: "/images/user/user-17.jpg",
-    status: "online",
-    lastActive: "30 mins",
-    message: "I want to make an appointment tomorrow from 2:00 to 5:00pm?",
-    isSender: false,
-  },
-  {
-    id: 3,
-    name: "You",
-    role: "",
-    profileImage: "",
-    status: "online",
-    lastActive: "2 hours ago",
-    message: "If don’t like something, I’ll stay away from it.",
-    isSender: true,
-  },
-  {
-    id: 4,
-    name: "Lindsey Curtis",
-    role: "Designer",
-    profileImage: "/images/user/user-17.jpg",
-    status: "online",
-    lastActive: "2 hours ago",
-    message: "I want more detailed information.",
-    isSender: false,
-  },
-  {
-    id: 5,
-    name: "You",
-    role: "",
-    profileImage: "",
-    status: "online",
-    lastActive: "2 hours ago",
-    message: "They got there early, and got really good seats.",
-    isSender: true,
-  },
-  {
-    id: 6,
-    name: "Lindsey Curtis",
-    role: "Designer",
-    profileImage: "/images/user/user-17.jpg",
-    status: "online",
-    lastActive: "2 hours ago",
-    message: "Please preview the image",
-    isSender: false,
-    imagePreview: "/images/chat/chat.jpg",
-  },
-];
+const isImage = (attachment: ChatAttachment) =>
+  ["image/png", "image/jpeg", "image/gif", "image/webp"].includes(
+    attachment.type
+  );
 
 export default function ChatBox() {
+  const { activeContact, messages, threadStatus, typingIds } = useChat();
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const isTyping = !!activeContact && typingIds.includes(activeContact.id);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "end" });
+  }, [messages.length, isTyping]);
+
   return (
     <div className="flex h-full flex-col overflow-hidden rounded-2xl border border-gray-200 bg-white dark:border-gray-800 dark:bg-white/[0.03] xl:w-3/4">
       {/* <!-- ====== Chat Box Start --> */}
       <ChatBoxHeader />
       <div className="flex-1 max-h-full p-5 space-y-6 overflow-auto custom-scrollbar xl:space-y-8 xl:p-6">
-        {chatList.map((chat) => (
-          <div
-            key={chat.id}
-            className={`flex ${
-              chat.isSender ? "justify-end" : "items-start gap-4"
-            }`}
-          >
-            {!chat.isSender && (
-              <div className="w-10 h-10 overflow-hidden rounded-full">
-                <Image
-                  width={40}
-                  height={40}
-                  src={chat.profileImage}
-                  alt={`${chat.name} profile`}
-                  className="object-cover object-center w-full h-full"
-                />
-              </div>
-            )}
-
-            <div className={`${chat.isSender ? "text-right" : ""}`}>
-              {chat.imagePreview && (
-                <div className="mb-2 w-full max-w-[270px] overflow-hidden rounded-lg">
-                  <Image
-                    width={270}
-                    height={150}
-                    src={chat.imagePreview}
-                    alt="chat"
-                    className="object-cover w-full"
-                  />
-                </div>
-              )}
-
+        {!activeContact && (
+          <p className="text-sm text-center text-gray-500 dark:text-gray-400">
+            Choose a contact to start chatting.
+          </p>
+        )}
+        {activeContact && threadStatus === "loading" && (
+          <p className="text-sm text-center text-gray-500 dark:text-gray-400">
+            Loading messages...
+          </p>
+        )}
+        {activeContact && threadStatus === "error" && (
+          <p className="text-sm text-center text-error-500">
+            Could not load this conversation.
+          </p>
+        )}
+        {activeContact && threadStatus === "ready" && messages.length === 0 && (
+          <p className="text-sm text-center text-gray-500 dark:text-gray-400">
+            No messages yet. Say hello to {activeContact.name}.
+          </p>
+        )}
+        {activeContact &&
+          messages.map((message) => {
+            const isSender = message.senderId !== activeContact.id;
+            return (
               <div
-                className={`px-3 py-2 rounded-lg ${
-                  chat.isSender
-                    ? "bg-brand-500 text-white dark:bg-brand-500"
-                    : "bg-gray-100 dark:bg-white/5 text-gray-800 dark:text-white/90"
-                } ${chat.isSender ? "rounded-tr-sm" : "rounded-tl-sm"}`}
+                key={message.id}
+                className={`flex ${
+                  isSender ? "justify-end" : "items-start gap-4"
+                }`}
               >
-                <p className="text-sm ">{chat.message}</p>
+                {!isSender && (
+                  <ChatAvatar
+                    contact={activeContact}
+                    size={40}
+                    showStatus={false}
+                  />
+                )}
+
+                <div className={`${isSender ? "text-right" : ""}`}>
+                  {message.attachments.map((attachment) =>
+                    isImage(attachment) ? (
+                      <a
+                        key={attachment.id}
+                        href={attachmentUrl(attachment)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className={`mb-2 block w-full max-w-[270px] overflow-hidden rounded-lg ${
+                          isSender ? "ml-auto" : ""
+                        }`}
+                      >
+                        <Image
+                          width={270}
+                          height={150}
+                          src={attachmentUrl(attachment)}
+                          alt={attachment.name}
+                          unoptimized
+                          className="object-cover w-full"
+                        />
+                      </a>
+                    ) : (
+                      <a
+                        key={attachment.id}
+                        href={attachmentUrl(attachment)}
+                        download={attachment.name}
+                        className={`mb-2 flex w-fit max-w-[270px] items-center gap-2 rounded-lg border border-gray-200 px-3 py-2 text-left text-sm text-gray-800 hover:bg-gray-50 dark:border-gray-800 dark:text-white/90 dark:hover:bg-white/5 ${
+                          isSender ? "ml-auto" : ""
+                        }`}
+                      >
+                        <span className="truncate">{attachment.name}</span>
+                        <span className="shrink-0 text-theme-xs text-gray-500 dark:text-gray-400">
+                          {formatFileSize(attachment.size)}
+                        </span>
+                      </a>
+                    )
+                  )}
+
+                  {message.body && (
+                    <div
+                      className={`px-3 py-2 rounded-lg ${
+                        isSender
+                          ? "bg-brand-500 text-white dark:bg-brand-500"
+                          : "bg-gray-100 dark:bg-white/5 text-gray-800 dark:text-white/90"
+                      } ${isSender ? "rounded-tr-sm" : "rounded-tl-sm"}`}
+                    >
+                      <p className="text-sm whitespace-pre-wrap text-left">
+                        {message.body}
+                      </p>
+                    </div>
+                  )}
+                  <p className="mt-2 text-gray-500 text-theme-xs dark:text-gray-400">
+                    {isSender
+                      ? `${formatChatTime(message.createdAt)} · ${
+                          message.readAt ? "Read" : "Sent"
+                        }`
+                      : `${activeContact.name}, ${formatChatTime(
+                          message.createdAt
+                        )}`}
+                  </p>
+                </div>
               </div>
-              <p className="mt-2 text-gray-500 text-theme-xs dark:text-gray-400">
-                {chat.isSender
-                  ? chat.lastActive
-                  : `${chat.name}, ${chat.lastActive}`}
-              </p>
-            </div>
-          </div>
-        ))}
+            );
+          })}
+        {isTyping && (
+          <p className="text-theme-xs text-gray-500 dark:text-gray-400">
+            {activeContact.name} is typing...
+          </p>
+        )}
+        <div ref={bottomRef} />
       </div>
       <ChatBoxSendForm />
       {/* <!-- ====== Chat Box End --> */}
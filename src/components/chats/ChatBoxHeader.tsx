@@ -3,10 +3,12 @@ import React, { useState } from "react";
 import { Dropdown } from "../ui/dropdown/Dropdown";
 import { DropdownItem } from "../ui/dropdown/DropdownItem";
 import { MoreDotIcon } from "@/icons";
-import Image from "next/image";
+import { useChat } from "@/context/ChatContext";
+import ChatAvatar from "./ChatAvatar";
 
 export default function ChatBoxHeader() {
   const [isOpen, setIsOpen] = useState(false);
+  const { activeContact, typingIds } = useChat();
 
   function toggleDropdown() {
     setIsOpen(!isOpen);
@@ -19,20 +21,23 @@ export default function ChatBoxHeader() {
   return (
     <div className="sticky flex items-center justify-between px-5 py-4 border-b border-gray-200 dark:border-gray-800 xl:px-6">
       <div className="flex items-center gap-3">
-        <div className="relative h-12 w-full max-w-[48px] rounded-full">
-          <Image
-            width={48}
-            height={48}
-            src="/images/user/user-17.jpg"
-            alt="profile"
-            className="object-cover object-center w-full h-full overflow-hidden rounded-full"
-          />
-          <span className="absolute bottom-0 right-0 block h-3 w-3 rounded-full border-[1.5px] border-white bg-success-500 dark:border-gray-900"></span>
-        </div>
-
-        <h5 className="text-sm font-medium text-gray-500 dark:text-gray-400">
-          Lindsey Curtis
-        </h5>
+        {activeContact && (
+          <>
+            <ChatAvatar contact={activeContact} />
+            <div>
+              <h5 className="text-sm font-medium text-gray-500 dark:text-gray-400">
+                {activeContact.name}
+              </h5>
+              <p className="text-theme-xs text-gray-400">
+                {typingIds.includes(activeContact.id)
+                  ? "typing..."
+                  : activeContact.status === "online"
+                  ? "Online"
+                  : activeContact.role}
+              </p>
+            </div>
+          </>
+        )}
       </div>
 
       <div className="flex items-center gap-3">
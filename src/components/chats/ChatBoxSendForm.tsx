@@ -1,11 +1,80 @@
-import React from "react";
+"use client";
+import React, { useRef, useState } from "react";
+import { useChat } from "@/context/ChatContext";
+import { formatFileSize } from "./chatFormat";
 
 export default function ChatBoxSendForm() {
+  const { activeContact, sendMessage, notifyTyping } = useChat();
+  const [body, setBody] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const canSend =
+    !!activeContact && !isSending && (!!body.trim() || files.length > 0);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!canSend) return;
+    setIsSending(true);
+    const failure = await sendMessage(body, files);
+    setIsSending(false);
+    setError(failure);
+    if (!failure) {
+      setBody("");
+      setFiles([]);
+    }
+  };
+
+  const handleFilesChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = Array.from(event.target.files ?? []);
+    setFiles((prev) => [...prev, ...picked]);
+    // Lets the same file be picked again after removing it
+    event.target.value = "";
+  };
+
   return (
     <div className="sticky bottom-0 p-3 border-t border-gray-200 dark:border-gray-800">
-      <form className="flex items-center justify-between">
+      {(files.length > 0 || error) && (
+        <div className="flex flex-wrap items-center gap-2 px-1 pb-3 sm:px-3">
+          {files.map((file, index) => (
+            <span
+              key={`${file.name}-${index}`}
+              className="inline-flex items-center gap-2 rounded-lg border border-gray-200 px-2 py-1 text-theme-xs text-gray-700 dark:border-gray-800 dark:text-gray-400"
+            >
+              {file.name} ({formatFileSize(file.size)})
+              <button
+                type="button"
+                onClick={() =>
+                  setFiles((prev) => prev.filter((_, i) => i !== index))
+                }
+                aria-label={`Remove ${file.name}`}
+                className="text-gray-400 hover:text-error-500"
+              >
+                &times;
+              </button>
+            </span>
+          ))}
+          {error && <p className="text-theme-xs text-error-500">{error}</p>}
+        </div>
+      )}
+      <form
+        onSubmit={handleSubmit}
+        className="flex items-center justify-between"
+      >
+        <input
+          ref={fileInput}
+          type="file"
+          multiple
+          className="sr-only"
+          onChange={handleFilesChange}
+        />
         <div className="relative w-full">
-          <button className="absolute text-gray-500 -translate-y-1/2 left-1 top-1/2 hover:text-gray-800 dark:text-gray-400 dark:hover:text-white/90 sm:left-3">
+          <button
+            type="button"
+            className="absolute text-gray-500 -translate-y-1/2 left-1 top-1/2 hover:text-gray-800 dark:text-gray-400 dark:hover:text-white/90 sm:left-3"
+          >
             <svg
               className="fill-current"
               width="24"
@@ -25,13 +94,25 @@ export default function ChatBoxSendForm() {
 
           <input
             type="text"
+            value={body}
+            onChange={(e) => {
+              setBody(e.target.value);
+              if (e.target.value) notifyTyping();
+            }}
+            disabled={!activeContact}
             placeholder="Type a message"
             className="w-full pl-12 pr-5 text-sm text-gray-800 bg-transparent border-none outline-hidden h-9 placeholder:text-gray-400 focus:border-0 focus:ring-0 dark:text-white/90"
           />
         </div>
 
         <div className="flex items-center">
-          <button className="mr-2 text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-white/90">
+          <button
+            type="button"
+            onClick={() => fileInput.current?.click()}
+            disabled={!activeContact}
+            aria-label="Attach files"
+            className="mr-2 text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-white/90"
+          >
             <svg
               className="fill-current"
               width="24"
@@ -49,7 +130,10 @@ export default function ChatBoxSendForm() {
             </svg>
           </button>
 
-          <button className="text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-white/90">
+          <button
+            type="button"
+            className="text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-white/90"
+          >
             <svg
               className="stroke-current"
               width="24"
@@ -111,7 +195,12 @@ export default function ChatBoxSendForm() {
             </svg>
           </button>
 
-          <button className="flex items-center justify-center ml-3 text-white rounded-lg h-9 w-9 bg-brand-500 hover:bg-brand-600 xl:ml-5">
+          <button
+            type="submit"
+            disabled={!canSend}
+            aria-label="Send"
+            className="flex items-center justify-center ml-3 text-white rounded-lg h-9 w-9 bg-brand-500 hover:bg-brand-600 disabled:opacity-50 xl:ml-5"
+          >
             <svg
               width="20"
               height="20"
@@ -3,9 +3,15 @@ import ChatHeaderTitle from "./ChatHeaderTitle";
 
 interface ChatHeaderProps {
   onToggle: () => void;
+  search: string;
+  onSearchChange: (search: string) => void;
 }
 
-const ChatHeader: React.FC<ChatHeaderProps> = ({ onToggle }) => {
+const ChatHeader: React.FC<ChatHeaderProps> = ({
+  onToggle,
+  search,
+  onSearchChange,
+}) => {
   return (
     <div className="sticky px-4 pt-4 pb-4 sm:px-5 sm:pt-5 xl:pb-0">
       <ChatHeaderTitle />
@@ -31,7 +37,7 @@ const ChatHeader: React.FC<ChatHeaderProps> = ({ onToggle }) => {
           </svg>
         </button>
         <div className="relative w-full my-2">
-          <form>
+          <form onSubmit={(e) => e.preventDefault()}>
             <button className="absolute -translate-y-1/2 left-4 top-1/2">
               <svg
                 className="fill-gray-500 dark:fill-gray-400"
@@ -51,6 +57,8 @@ const ChatHeader: React.FC<ChatHeaderProps> = ({ onToggle }) => {
             </button>
             <input
               type="text"
+              value={search}
+              onChange={(e) => onSearchChange(e.target.value)}
               placeholder="Search..."
               className="dark:bg-dark-900 h-11 w-full rounded-lg border border-gray-300 bg-transparent py-2.5 pl-[42px] pr-3.5 text-sm text-gray-800 shadow-theme-xs placeholder:text-gray-400 focus:border-brand-300 focus:outline-hidden focus:ring-3 focus:ring-brand-500/10 dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:placeholder:text-white/30 dark:focus:border-brand-800"
             />
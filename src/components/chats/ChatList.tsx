@@ -2,15 +2,34 @@ import React, { useState } from "react";
 import { Dropdown } from "../ui/dropdown/Dropdown";
 import { DropdownItem } from "../ui/dropdown/DropdownItem";
 import { MoreDotIcon } from "@/icons";
-import Image from "next/image";
+import { useChat } from "@/context/ChatContext";
+import ChatAvatar from "./ChatAvatar";
+import { formatChatTime } from "./chatFormat";
 
 interface ChatListProps {
   isOpen: boolean;
   onToggle: () => void;
+  search: string; // Filters contacts by name or role
 }
 
-export default function ChatList({ isOpen, onToggle }: ChatListProps) {
+export default function ChatList({ isOpen, onToggle, search }: ChatListProps) {
   const [isOpenTwo, setIsOpenTwo] = useState(false);
+  const {
+    contacts,
+    activeContact,
+    status,
+    error,
+    typingIds,
+    selectContact,
+    reload,
+  } = useChat();
+
+  const term = search.trim().toLowerCase();
+  const visibleContacts = term
+    ? contacts.filter((contact) =>
+        `${contact.name} ${contact.role}`.toLowerCase().includes(term)
+      )
+    : contacts;
 
   function toggleDropdownTwo() {
     setIsOpenTwo(!isOpenTwo);
@@ -80,248 +99,72 @@ export default function ChatList({ isOpen, onToggle }: ChatListProps) {
       </div>
       <div className="flex flex-col max-h-full px-4 overflow-auto sm:px-5">
         <div className="max-h-full space-y-1 overflow-auto custom-scrollbar">
-          {/* <!-- Chat List Item --> */}
-          <div className="flex cursor-pointer items-center gap-3 rounded-lg p-3 hover:bg-gray-100 dark:hover:bg-white/[0.03]">
-            <div className="relative h-12 w-full max-w-[48px] rounded-full">
-              <Image
-                width={48}
-                height={48}
-                src="/images/user/user-18.jpg"
-                alt="profile"
-                className="object-cover object-center w-full h-full overflow-hidden rounded-full"
-              />
-              <span className="absolute bottom-0 right-0 block h-3 w-3 rounded-full border-[1.5px] border-white bg-success-500 dark:border-gray-900"></span>
-            </div>
-            <div className="w-full">
-              <div className="flex items-start justify-between">
-                <div>
-                  <h5 className="text-sm font-medium text-gray-800 dark:text-white/90">
-                    Kaiya George
-                  </h5>
-                  <p className="mt-0.5 text-theme-xs text-gray-500 dark:text-gray-400">
-                    Project Manager
-                  </p>
-                </div>
-                <span className="text-gray-400 text-theme-xs"> 15 mins </span>
-              </div>
-            </div>
-          </div>
-
-          {/* <!-- Chat List Item --> */}
-          <div className="flex cursor-pointer items-center gap-3 rounded-lg p-3 hover:bg-gray-100 dark:hover:bg-white/[0.03]">
-            <div className="relative h-12 w-full max-w-[48px] rounded-full">
-              <Image
-                width={48}
-                height={48}
-                src="/images/user/user-17.jpg"
-                alt="profile"
-                className="object-cover object-center w-full h-full overflow-hidden rounded-full"
-              />
-              <span className="absolute bottom-0 right-0 block h-3 w-3 rounded-full border-[1.5px] border-white bg-success-500 dark:border-gray-900"></span>
-            </div>
-            <div className="w-full">
-              <div className="flex items-start justify-between">
-                <div>
-                  <h5 className="text-sm font-medium text-gray-800 dark:text-white/90">
-                    Lindsey Curtis
-                  </h5>
-                  <p className="mt-0.5 text-theme-xs text-gray-500 dark:text-gray-400">
-                    Designer
-                  </p>
-                </div>
-                <span className="text-gray-400 text-theme-xs"> 30 mins </span>
-              </div>
-            </div>
-          </div>
-
-          {/* <!-- Chat List Item --> */}
-          <div className="flex cursor-pointer items-center gap-3 rounded-lg p-3 hover:bg-gray-100 dark:hover:bg-white/[0.03]">
-            <div className="relative h-12 w-full max-w-[48px] rounded-full">
-              <Image
-                width={48}
-                height={48}
-                src="/images/user/user-19.jpg"
-                alt="profile"
-                className="object-cover object-center w-full h-full overflow-hidden rounded-full"
-              />
-              <span className="absolute bottom-0 right-0 block h-3 w-3 rounded-full border-[1.5px] border-white bg-success-500 dark:border-gray-900"></span>
-            </div>
-            <div className="w-full">
-              <div className="flex items-start justify-between">
-                <div>
-                  <h5 className="text-sm font-medium text-gray-800 dark:text-white/90">
-                    Zain Geidt
-                  </h5>
-                  <p className="mt-0.5 text-theme-xs text-gray-500 dark:text-gray-400">
-                    Content Writer
-                  </p>
-                </div>
-                <span className="text-gray-400 text-theme-xs"> 45 mins </span>
-              </div>
-            </div>
-          </div>
-
-          {/* <!-- Chat List Item --> */}
-          <div className="flex cursor-pointer items-center gap-3 rounded-lg p-3 hover:bg-gray-100 dark:hover:bg-white/[0.03]">
-            <div className="relative h-12 w-full max-w-[48px] rounded-full">
-              <Image
-                width={48}
-                height={48}
-                src="/images/user/user-05.jpg"
-                alt="profile"
-                className="object-cover object-center w-full h-full overflow-hidden rounded-full"
-              />
-              <span className="absolute bottom-0 right-0 block h-3 w-3 rounded-full border-[1.5px] border-white bg-warning-500 dark:border-gray-900"></span>
-            </div>
-            <div className="w-full">
-              <div className="flex items-start justify-between">
-                <div>
-                  <h5 className="text-sm font-medium text-gray-800 dark:text-white/90">
-                    Carla George
-                  </h5>
-                  <p className="mt-0.5 text-theme-xs text-gray-500 dark:text-gray-400">
-                    Front-end Developer
-                  </p>
-                </div>
-                <span className="text-gray-400 text-theme-xs"> 2 days </span>
-              </div>
-            </div>
-          </div>
-
-          {/* <!-- Chat List Item --> */}
-          <div className="flex cursor-pointer items-center gap-3 rounded-lg p-3 hover:bg-gray-100 dark:hover:bg-white/[0.03]">
-            <div className="relative h-12 w-full max-w-[48px] rounded-full">
-              <Image
-                width={48}
-                height={48}
-                src="/images/user/user-20.jpg"
-                alt="profile"
-                className="object-cover object-center w-full h-full overflow-hidden rounded-full"
-              />
-              <span className="absolute bottom-0 right-0 block h-3 w-3 rounded-full border-[1.5px] border-white bg-success-500 dark:border-gray-900"></span>
-            </div>
-            <div className="w-full">
-              <div className="flex items-start justify-between">
-                <div>
-                  <h5 className="text-sm font-medium text-gray-800 dark:text-white/90">
-                    Abram Schleifer
-                  </h5>
-                  <p className="mt-0.5 text-theme-xs text-gray-500 dark:text-gray-400">
-                    Digital Marketer
-                  </p>
-                </div>
-                <span className="text-gray-400 text-theme-xs"> 1 hour </span>
-              </div>
-            </div>
-          </div>
-
-          {/* <!-- Chat List Item --> */}
-          <div className="flex cursor-pointer items-center gap-3 rounded-lg p-3 hover:bg-gray-100 dark:hover:bg-white/[0.03]">
-            <div className="relative h-12 w-full max-w-[48px] rounded-full">
-              <Image
-                width={48}
-                height={48}
-                src="/images/user/user-34.jpg"
-                alt="profile"
-                className="object-cover object-center w-full h-full overflow-hidden rounded-full"
-              />
-              <span className="absolute bottom-0 right-0 block h-3 w-3 rounded-full border-[1.5px] border-white bg-success-500 dark:border-gray-900"></span>
-            </div>
-            <div className="w-full">
-              <div className="flex items-start justify-between">
-                <div>
-                  <h5 className="text-sm font-medium text-gray-800 dark:text-white/90">
-                    Lincoln Donin
-                  </h5>
-                  <p className="mt-0.5 text-theme-xs text-gray-500 dark:text-gray-400">
-                    Project ManagerProduct Designer
-                  </p>
-                </div>
-                <span className="text-gray-400 text-theme-xs"> 3 days </span>
-              </div>
-            </div>
-          </div>
-
-          {/* <!-- Chat List Item --> */}
-          <div className="flex cursor-pointer items-center gap-3 rounded-lg p-3 hover:bg-gray-100 dark:hover:bg-white/[0.03]">
-            <div className="relative h-12 w-full max-w-[48px] rounded-full">
-              <Image
-                width={48}
-                height={48}
-                src="/images/user/user-35.jpg"
-                alt="profile"
-                className="object-cover object-center w-full h-full overflow-hidden rounded-full"
-              />
-              <span className="absolute bottom-0 right-0 block h-3 w-3 rounded-full border-[1.5px] border-white bg-success-500 dark:border-gray-900"></span>
-            </div>
-            <div className="w-full">
-              <div className="flex items-start justify-between">
-                <div>
-                  <h5 className="text-sm font-medium text-gray-800 dark:text-white/90">
-                    Erin Geidthem
-                  </h5>
-                  <p className="mt-0.5 text-theme-xs text-gray-500 dark:text-gray-400">
-                    Copyrighter
-                  </p>
-                </div>
-                <span className="text-gray-400 text-theme-xs"> 5 days </span>
-              </div>
-            </div>
-          </div>
-
-          {/* <!-- Chat List Item --> */}
-          <div className="flex cursor-pointer items-center gap-3 rounded-lg p-3 hover:bg-gray-100 dark:hover:bg-white/[0.03]">
-            <div className="relative h-12 w-full max-w-[48px] rounded-full">
-              <Image
-                width={48}
-                height={48}
-                src="/images/user/user-36.jpg"
-                alt="profile"
-                className="object-cover object-center w-full h-full overflow-hidden rounded-full"
-              />
-              <span className="absolute bottom-0 right-0 block h-3 w-3 rounded-full border-[1.5px] border-white bg-error-500 dark:border-gray-900"></span>
-            </div>
-            <div className="w-full">
-              <div className="flex items-start justify-between">
-                <div>
-                  <h5 className="text-sm font-medium text-gray-800 dark:text-white/90">
-                    Alena Baptista
-                  </h5>
-                  <p className="mt-0.5 text-theme-xs text-gray-500 dark:text-gray-400">
-                    SEO Expert
-                  </p>
-                </div>
-                <span className="text-gray-400 text-theme-xs"> 2 hours </span>
-              </div>
-            </div>
-          </div>
-
-          {/* <!-- Chat List Item --> */}
-          <div className="flex cursor-pointer items-center gap-3 rounded-lg p-3 hover:bg-gray-100 dark:hover:bg-white/[0.03]">
-            <div className="relative h-12 w-full max-w-[48px] rounded-full">
-              <Image
-                width={48}
-                height={48}
-                src="/images/user/user-37.jpg"
-                alt="profile"
-                className="object-cover object-center w-full h-full overflow-hidden rounded-full"
-              />
-              <span className="absolute bottom-0 right-0 block h-3 w-3 rounded-full border-[1.5px] border-white bg-success-500 dark:border-gray-900"></span>
-            </div>
-            <div className="w-full">
-              <div className="flex items-start justify-between">
-                <div>
-                  <h5 className="text-sm font-medium text-gray-800 dark:text-white/90">
-                    Wilium vamos
-                  </h5>
-                  <p className="mt-0.5 text-theme-xs text-gray-500 dark:text-gray-400">
-                    Content Writer
-                  </p>
+          {status === "loading" && (
+            <p className="p-3 text-sm text-gray-500 dark:text-gray-400">
+              Loading contacts...
+            </p>
+          )}
+          {status === "error" && (
+            <div className="p-3 text-sm text-gray-500 dark:text-gray-400">
+              <p className="mb-2">Could not load contacts: {error}</p>
+              <button
+                onClick={reload}
+                className="font-medium text-brand-500 hover:text-brand-600"
+              >
+                Try again
+              </button>
+            </div>
+          )}
+          {status === "ready" && visibleContacts.length === 0 && (
+            <p className="p-3 text-sm text-gray-500 dark:text-gray-400">
+              No contacts match your search.
+            </p>
+          )}
+          {visibleContacts.map((contact) => (
+            <div
+              key={contact.id}
+              onClick={() => {
+                selectContact(contact.id);
+                if (isOpen) onToggle();
+              }}
+              className={`flex cursor-pointer items-center gap-3 rounded-lg p-3 hover:bg-gray-100 dark:hover:bg-white/[0.03] ${
+                activeContact?.id === contact.id
+                  ? "bg-gray-100 dark:bg-white/[0.03]"
+                  : ""
+              }`}
+            >
+              <ChatAvatar contact={contact} />
+              <div className="w-full min-w-0">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <h5 className="text-sm font-medium text-gray-800 dark:text-white/90">
+                      {contact.name}
+                    </h5>
+                    <p className="mt-0.5 truncate text-theme-xs text-gray-500 dark:text-gray-400">
+                      {typingIds.includes(contact.id)
+                        ? "typing..."
+                        : contact.lastMessage
+                        ? contact.lastMessage.body ||
+                          `Sent ${contact.lastMessage.attachments.length} file(s)`
+                        : contact.role}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 flex-col items-end gap-1">
+                    {contact.lastMessage && (
+                      <span className="text-gray-400 text-theme-xs">
+                        {formatChatTime(contact.lastMessage.createdAt)}
+                      </span>
+                    )}
+                    {contact.unread > 0 && (
+                      <span className="inline-flex rounded-full bg-brand-500 px-2 py-0.5 text-theme-xs font-medium text-white">
+                        {contact.unread}
+                      </span>
+                    )}
+                  </div>
                 </div>
-                <span className="text-gray-400 text-theme-xs"> 5 days </span>
               </div>
             </div>
-          </div>
+          ))}
         </div>
       </div>
     </div>
@@ -5,6 +5,7 @@ import { useState } from "react";
 
 export default function ChatSidebar() {
   const [isOpen, setIsOpen] = useState(false);
+  const [search, setSearch] = useState("");
   const toggleSidebar = () => {
     setIsOpen(!isOpen);
   };
@@ -17,8 +18,12 @@ export default function ChatSidebar() {
         ></div>
       )}
       <div className="flex-col rounded-2xl border border-gray-200 bg-white dark:border-gray-800 dark:bg-white/[0.03] xl:flex xl:w-1/4">
-        <ChatHeader onToggle={toggleSidebar} />
-        <ChatList isOpen={isOpen} onToggle={toggleSidebar} />
+        <ChatHeader
+          onToggle={toggleSidebar}
+          search={search}
+          onSearchChange={setSearch}
+        />
+        <ChatList isOpen={isOpen} onToggle={toggleSidebar} search={search} />
       </div>
     </>
   );
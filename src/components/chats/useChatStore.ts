@@ -0,0 +1,258 @@
+"use client";
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { ChatContactSummary, ChatMessage } from "@/lib/chat";
+import type { ChatEvent } from "@/lib/chat-events";
+
+export type ChatStatus = "loading" | "error" | "ready";
+
+// How long "typing..." stays up after the last keystroke notice
+const TYPING_TIMEOUT = 4000;
+// Minimum gap between typing notices sent for one conversation
+const TYPING_THROTTLE = 2500;
+
+async function requestJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(
+      body?.error ?? `Request failed with status ${response.status}`
+    );
+  }
+  return body as T;
+}
+
+function postJson(url: string, body: unknown) {
+  return fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+/**
+ * Conversations of the signed-in user (`userId`): the contact list, the open
+ * thread, and live updates over Server-Sent Events. Used through
+ * `ChatProvider` so the sidebar and the chat box share one copy.
+ */
+export function useChatStore(userId: string | null) {
+  const [contacts, setContacts] = useState<ChatContactSummary[]>([]);
+  const [status, setStatus] = useState<ChatStatus>("loading");
+  const [error, setError] = useState<string | null>(null);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [threadStatus, setThreadStatus] = useState<ChatStatus>("loading");
+  const [typingIds, setTypingIds] = useState<string[]>([]);
+  const [reloadCount, setReloadCount] = useState(0);
+  // Read from the event handler without reconnecting on every change
+  const activeRef = useRef<string | null>(null);
+  const typingTimers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+  const lastTypingSent = useRef(0);
+
+  useEffect(() => {
+    activeRef.current = activeId;
+  }, [activeId]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setStatus("loading");
+    requestJson<ChatContactSummary[]>("/api/chat/contacts", {
+      signal: controller.signal,
+    })
+      .then((loaded) => {
+        setContacts(loaded);
+        setActiveId((current) => current ?? loaded[0]?.id ?? null);
+        setError(null);
+        setStatus("ready");
+      })
+      .catch((err: unknown) => {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : String(err));
+        setStatus("error");
+      });
+    return () => controller.abort();
+  }, [reloadCount]);
+
+  const markRead = useCallback((contactId: string) => {
+    setContacts((prev) =>
+      prev.map((contact) =>
+        contact.id === contactId ? { ...contact, unread: 0 } : contact
+      )
+    );
+    postJson("/api/chat/read", { with: contactId }).catch(() => undefined);
+  }, []);
+
+  useEffect(() => {
+    if (!activeId) return;
+    const controller = new AbortController();
+    setThreadStatus("loading");
+    setMessages([]);
+    requestJson<ChatMessage[]>(
+      `/api/chat/messages?with=${encodeURIComponent(activeId)}`,
+      { signal: controller.signal }
+    )
+      .then((loaded) => {
+        setMessages(loaded);
+        setThreadStatus("ready");
+        if (loaded.some((m) => m.senderId === activeId && !m.readAt)) {
+          markRead(activeId);
+        }
+      })
+      .catch((err: unknown) => {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : String(err));
+        setThreadStatus("error");
+      });
+    return () => controller.abort();
+  }, [activeId, markRead]);
+
+  const stopTyping = useCallback((contactId: string) => {
+    clearTimeout(typingTimers.current.get(contactId));
+    typingTimers.current.delete(contactId);
+    setTypingIds((prev) => prev.filter((id) => id !== contactId));
+  }, []);
+
+  const addMessage = useCallback(
+    (message: ChatMessage) => {
+      const contactId =
+        message.senderId === userId ? message.recipientId : message.senderId;
+      const isOpen = contactId === activeRef.current;
+      const isIncoming = message.senderId === contactId;
+      if (isOpen) {
+        // The sending tab already added it from the POST response
+        setMessages((prev) =>
+          prev.some((m) => m.id === message.id) ? prev : [...prev, message]
+        );
+      }
+      setContacts((prev) => {
+        const contact = prev.find((c) => c.id === contactId);
+        if (!contact) return prev;
+        const updated = {
+          ...contact,
+          lastMessage: message,
+          unread:
+            contact.unread +
+            (isIncoming && !isOpen && contact.lastMessage?.id !== message.id
+              ? 1
+              : 0),
+        };
+        // Most recent conversation first
+        return [updated, ...prev.filter((c) => c.id !== contactId)];
+      });
+      if (isIncoming) {
+        stopTyping(contactId);
+        if (isOpen) markRead(contactId);
+      }
+    },
+    [userId, markRead, stopTyping]
+  );
+
+  useEffect(() => {
+    if (!userId) return;
+    // EventSource reconnects on its own after network errors
+    const source = new EventSource("/api/chat/events");
+    source.onmessage = (message) => {
+      const event = JSON.parse(message.data) as ChatEvent;
+      switch (event.type) {
+        case "message":
+          addMessage(event.message);
+          break;
+        case "read":
+          if (event.readerId === userId) {
+            // Read in another tab
+            setContacts((prev) =>
+              prev.map((contact) =>
+                event.threadId.split(":").includes(contact.id)
+                  ? { ...contact, unread: 0 }
+                  : contact
+              )
+            );
+          } else {
+            setMessages((prev) =>
+              prev.map((m) =>
+                m.recipientId === event.readerId && !m.readAt
+                  ? { ...m, readAt: event.readAt }
+                  : m
+              )
+            );
+          }
+          break;
+        case "typing":
+          clearTimeout(typingTimers.current.get(event.from));
+          typingTimers.current.set(
+            event.from,
+            setTimeout(() => stopTyping(event.from), TYPING_TIMEOUT)
+          );
+          setTypingIds((prev) =>
+            prev.includes(event.from) ? prev : [...prev, event.from]
+          );
+          break;
+        case "presence":
+          setContacts((prev) =>
+            prev.map((contact) =>
+              contact.id === event.userId
+                ? { ...contact, status: event.online ? "online" : "offline" }
+                : contact
+            )
+          );
+          break;
+      }
+    };
+    const timers = typingTimers.current;
+    return () => {
+      source.close();
+      timers.forEach((timer) => clearTimeout(timer));
+      timers.clear();
+    };
+  }, [userId, addMessage, stopTyping]);
+
+  /**
+   * Sends a message to the open conversation. Resolves to an error message,
+   * or null once the server has stored it.
+   */
+  const sendMessage = useCallback(
+    async (body: string, files: File[]): Promise<string | null> => {
+      if (!activeId) return "Choose someone to message";
+      const form = new FormData();
+      form.set("to", activeId);
+      form.set("body", body);
+      files.forEach((file) => form.append("files", file));
+      try {
+        addMessage(
+          await requestJson<ChatMessage>("/api/chat/messages", {
+            method: "POST",
+            body: form,
+          })
+        );
+        lastTypingSent.current = 0;
+        return null;
+      } catch (err) {
+        return err instanceof Error ? err.message : String(err);
+      }
+    },
+    [activeId, addMessage]
+  );
+
+  const notifyTyping = useCallback(() => {
+    if (!activeId) return;
+    const now = Date.now();
+    if (now - lastTypingSent.current < TYPING_THROTTLE) return;
+    lastTypingSent.current = now;
+    postJson("/api/chat/typing", { to: activeId }).catch(() => undefined);
+  }, [activeId]);
+
+  const reload = useCallback(() => setReloadCount((count) => count + 1), []);
+
+  return {
+    contacts,
+    activeContact: contacts.find((contact) => contact.id === activeId) ?? null,
+    messages,
+    status,
+    threadStatus,
+    error,
+    typingIds,
+    selectContact: setActiveId,
+    sendMessage,
+    notifyTyping,
+    reload,
+  };
+}
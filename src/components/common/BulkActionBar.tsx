@@ -0,0 +1,426 @@
+"use client";
+
+import { useState } from "react";
+import { Modal } from "../ui/modal";
+import { Dropdown } from "../ui/dropdown/Dropdown";
+import { exportFormats } from "./ExportMenu";
+import { useSession } from "@/context/SessionContext";
+import { hasPermission } from "@/lib/auth/permissions";
+import {
+  BULK_PERMISSIONS,
+  type BulkAction,
+  type BulkFailure,
+  type BulkResource,
+  type BulkResult,
+  type BulkUndoResult,
+} from "@/lib/bulk-actions";
+import { downloadExport, type ExportColumn } from "@/lib/export";
+
+interface BulkActionBarProps<T> {
+  resource: BulkResource;
+  noun: [string, string]; // Singular and plural, e.g. ["invoice", "invoices"]
+  selectedRows: T[];
+  idOf: (row: T) => string; // The id the bulk API knows the row by
+  labelOf: (row: T) => string; // How skipped rows are named in the summary
+  exportFile: string; // Base name of the exported file
+  exportColumns: ExportColumn<T>[];
+  statuses?: string[]; // Choices for the status action
+  assignees?: string[]; // Choices for the assign action
+  onChanged: () => void; // Reloads the rows after a change or an undo
+  onClear: () => void; // Empties the selection
+}
+
+// Ids sent per request, so the progress bar moves on large selections
+const CHUNK_SIZE = 10;
+
+interface Summary {
+  title: string;
+  done: number;
+  failed: BulkFailure[];
+  labels: Record<string, string>;
+  tokens: string[]; // Undo tokens, one per request that changed something
+  undone: boolean;
+}
+
+async function postJson<T>(url: string, body: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(
+      data?.error ?? `Request failed with status ${response.status}`
+    );
+  }
+  return data as T;
+}
+
+function describe(action: BulkAction, count: number, noun: string): string {
+  switch (action.type) {
+    case "delete":
+      return `Delete ${count} ${noun}`;
+    case "status":
+      return `Mark ${count} ${noun} as ${action.value}`;
+    case "assign":
+      return `Assign ${count} ${noun} to ${action.value}`;
+    case "tag":
+      return `Tag ${count} ${noun} with "${action.value}"`;
+  }
+}
+
+const selectClasses =
+  "dark:bg-dark-900 shadow-theme-xs focus:border-brand-300 focus:ring-brand-500/10 dark:focus:border-brand-800 h-9 rounded-lg border border-gray-300 bg-transparent px-3 text-sm text-gray-800 focus:ring-3 focus:outline-hidden dark:border-gray-700 dark:bg-gray-900 dark:text-white/90";
+
+const buttonClasses =
+  "shadow-theme-xs inline-flex h-9 items-center justify-center rounded-lg bg-white px-3 text-sm font-medium text-gray-700 ring-1 ring-gray-300 transition hover:bg-gray-50 disabled:opacity-50 dark:bg-gray-800 dark:text-gray-400 dark:ring-gray-700 dark:hover:bg-white/[0.03]";
+
+/**
+ * Actions on the selected rows of a table, shown while rows are selected.
+ * Every action is confirmed first, runs in small batches and can be undone
+ * from the summary for as long as the server keeps the undo tokens.
+ */
+export default function BulkActionBar<T>({
+  resource,
+  noun,
+  selectedRows,
+  idOf,
+  labelOf,
+  exportFile,
+  exportColumns,
+  statuses = [],
+  assignees = [],
+  onChanged,
+  onClear,
+}: BulkActionBarProps<T>) {
+  const user = useSession();
+  const [pending, setPending] = useState<BulkAction | null>(null);
+  const [progress, setProgress] = useState<{
+    done: number;
+    total: number;
+  } | null>(null);
+  const [summary, setSummary] = useState<Summary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [tag, setTag] = useState("");
+  const [exportOpen, setExportOpen] = useState(false);
+
+  const can = (type: BulkAction["type"]) => {
+    const permission = BULK_PERMISSIONS[resource][type];
+    return !!permission && hasPermission(user?.role, permission);
+  };
+  const count = selectedRows.length;
+  const nounFor = (n: number) => (n === 1 ? noun[0] : noun[1]);
+
+  const close = () => {
+    if (progress) return;
+    setPending(null);
+    setSummary(null);
+    setError(null);
+  };
+
+  const run = async (action: BulkAction) => {
+    const ids = selectedRows.map(idOf);
+    const labels = Object.fromEntries(
+      selectedRows.map((row) => [idOf(row), labelOf(row)])
+    );
+    const result: Summary = {
+      title: describe(action, ids.length, nounFor(ids.length)),
+      done: 0,
+      failed: [],
+      labels,
+      tokens: [],
+      undone: false,
+    };
+    setPending(null);
+    setError(null);
+    if (action.type === "tag") setTag("");
+    setProgress({ done: 0, total: ids.length });
+    try {
+      for (let start = 0; start < ids.length; start += CHUNK_SIZE) {
+        const chunk = ids.slice(start, start + CHUNK_SIZE);
+        const response = await postJson<BulkResult>(`/api/bulk/${resource}`, {
+          action,
+          ids: chunk,
+        });
+        result.done += response.succeeded.length;
+        result.failed.push(...response.failed);
+        if (response.undoToken) result.tokens.push(response.undoToken);
+        setProgress({ done: start + chunk.length, total: ids.length });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setProgress(null);
+      setSummary(result);
+      if (result.tokens.length > 0) {
+        onChanged();
+        onClear();
+      }
+    }
+  };
+
+  const undo = async () => {
+    if (!summary) return;
+    const restored: Summary = {
+      ...summary,
+      title: `Undo: ${summary.title}`,
+      done: 0,
+      failed: [],
+      tokens: [],
+      undone: true,
+    };
+    setError(null);
+    setProgress({ done: 0, total: summary.tokens.length });
+    try {
+      // Newest first, so each request sees the rows as its run left them
+      const tokens = [...summary.tokens].reverse();
+      for (const [index, token] of tokens.entries()) {
+        const response = await postJson<BulkUndoResult>(
+          `/api/bulk/${resource}/undo`,
+          { token }
+        );
+        restored.done += response.restored.length;
+        restored.failed.push(...response.failed);
+        setProgress({ done: index + 1, total: tokens.length });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setProgress(null);
+      setSummary(restored);
+      onChanged();
+    }
+  };
+
+  const submitTag = () => {
+    if (tag.trim()) setPending({ type: "tag", value: tag.trim() });
+  };
+
+  if (count === 0 && !summary && !progress) return null;
+
+  return (
+    <>
+      {count > 0 && (
+        <div className="flex flex-wrap items-center gap-3 border-b border-gray-200 bg-gray-50 px-5 py-3 dark:border-gray-800 dark:bg-white/[0.02]">
+          <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+            {count} {nounFor(count)} selected
+          </span>
+          {can("status") && statuses.length > 0 && (
+            <select
+              value=""
+              aria-label="Change status"
+              onChange={(event) =>
+                setPending({ type: "status", value: event.target.value })
+              }
+              className={selectClasses}
+            >
+              <option value="" disabled>
+                Change status
+              </option>
+              {statuses.map((status) => (
+                <option key={status} value={status}>
+                  {status}
+                </option>
+              ))}
+            </select>
+          )}
+          {can("assign") && assignees.length > 0 && (
+            <select
+              value=""
+              aria-label="Assign to"
+              onChange={(event) =>
+                setPending({ type: "assign", value: event.target.value })
+              }
+              className={selectClasses}
+            >
+              <option value="" disabled>
+                Assign to
+              </option>
+              {assignees.map((assignee) => (
+                <option key={assignee} value={assignee}>
+                  {assignee}
+                </option>
+              ))}
+            </select>
+          )}
+          {can("tag") && (
+            <form
+              className="flex gap-2"
+              onSubmit={(event) => {
+                event.preventDefault();
+                submitTag();
+              }}
+            >
+              <input
+                type="text"
+                value={tag}
+                maxLength={40}
+                placeholder="Add a tag"
+                onChange={(event) => setTag(event.target.value)}
+                className={`${selectClasses} w-36 placeholder:text-gray-400 dark:placeholder:text-white/30`}
+              />
+              <button
+                type="submit"
+                disabled={!tag.trim()}
+                className={buttonClasses}
+              >
+                Tag
+              </button>
+            </form>
+          )}
+          <div className="relative">
+            <button
+              type="button"
+              onClick={() => setExportOpen((prev) => !prev)}
+              className={`dropdown-toggle ${buttonClasses}`}
+            >
+              Export
+            </button>
+            <Dropdown
+              isOpen={exportOpen}
+              onClose={() => setExportOpen(false)}
+              className="w-44 p-2"
+            >
+              {exportFormats.map((format) => (
+                <button
+                  key={format.value}
+                  type="button"
+                  onClick={() => {
+                    downloadExport(
+                      exportFile,
+                      selectedRows,
+                      exportColumns,
+                      format.value
+                    );
+                    setExportOpen(false);
+                  }}
+                  className="flex w-full rounded-lg px-3 py-2 text-left text-theme-sm font-medium text-gray-500 hover:bg-gray-100 hover:text-gray-700 dark:text-gray-400 dark:hover:bg-white/5 dark:hover:text-gray-300"
+                >
+                  {format.label}
+                </button>
+              ))}
+            </Dropdown>
+          </div>
+          {can("delete") && (
+            <button
+              type="button"
+              onClick={() => setPending({ type: "delete" })}
+              className="shadow-theme-xs inline-flex h-9 items-center justify-center rounded-lg bg-white px-3 text-sm font-medium text-error-600 ring-1 ring-gray-300 transition hover:bg-error-50 dark:bg-gray-800 dark:text-error-500 dark:ring-gray-700 dark:hover:bg-error-500/15"
+            >
+              Delete
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onClear}
+            className="ml-auto text-sm font-medium text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300"
+          >
+            Clear selection
+          </button>
+        </div>
+      )}
+
+      <Modal
+        isOpen={!!pending || !!progress || !!summary}
+        onClose={close}
+        showCloseButton={!progress}
+        className="relative m-5 w-full max-w-[480px] rounded-3xl bg-white p-6 sm:m-0 lg:p-8 dark:bg-gray-900"
+      >
+        {pending && (
+          <div>
+            <h4 className="mb-2 pr-10 text-lg font-semibold text-gray-800 dark:text-white/90">
+              {describe(pending, count, nounFor(count))}?
+            </h4>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {pending.type === "delete"
+                ? `The selected ${nounFor(
+                    count
+                  )} are removed for everyone. You can undo this for the next 10 minutes.`
+                : "Rows this does not apply to are skipped. You can undo this for the next 10 minutes."}
+            </p>
+            <div className="mt-6 flex justify-end gap-3">
+              <button type="button" onClick={close} className={buttonClasses}>
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={() => run(pending)}
+                className={
+                  pending.type === "delete"
+                    ? "inline-flex h-9 items-center justify-center rounded-lg bg-error-500 px-4 text-sm font-medium text-white hover:bg-error-600"
+                    : "bg-brand-500 hover:bg-brand-600 inline-flex h-9 items-center justify-center rounded-lg px-4 text-sm font-medium text-white"
+                }
+              >
+                {pending.type === "delete" ? "Delete" : "Confirm"}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {progress && (
+          <div>
+            <h4 className="mb-4 text-lg font-semibold text-gray-800 dark:text-white/90">
+              Working…
+            </h4>
+            <div className="h-2 w-full overflow-hidden rounded-full bg-gray-200 dark:bg-gray-800">
+              <div
+                className="bg-brand-500 h-full rounded-full transition-all"
+                style={{
+                  width: `${(progress.done / progress.total) * 100}%`,
+                }}
+              />
+            </div>
+            <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+              {progress.done} of {progress.total}
+            </p>
+          </div>
+        )}
+
+        {summary && !progress && (
+          <div>
+            <h4 className="mb-2 pr-10 text-lg font-semibold text-gray-800 dark:text-white/90">
+              {summary.title}
+            </h4>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {summary.undone ? "Restored" : "Done"}: {summary.done}{" "}
+              {nounFor(summary.done)}
+              {summary.failed.length > 0 &&
+                `, skipped ${summary.failed.length}`}
+            </p>
+            {summary.failed.length > 0 && (
+              <ul className="custom-scrollbar mt-3 max-h-48 space-y-1 overflow-y-auto rounded-lg bg-gray-50 p-3 text-sm dark:bg-white/[0.03]">
+                {summary.failed.map((failure) => (
+                  <li
+                    key={failure.id}
+                    className="text-gray-600 dark:text-gray-400"
+                  >
+                    <span className="font-medium text-gray-800 dark:text-white/90">
+                      {summary.labels[failure.id] ?? failure.id}
+                    </span>
+                    : {failure.error}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {error && <p className="mt-3 text-sm text-error-500">{error}</p>}
+            <div className="mt-6 flex justify-end gap-3">
+              {!summary.undone && summary.tokens.length > 0 && (
+                <button type="button" onClick={undo} className={buttonClasses}>
+                  Undo
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={close}
+                className="bg-brand-500 hover:bg-brand-600 inline-flex h-9 items-center justify-center rounded-lg px-4 text-sm font-medium text-white"
+              >
+                Done
+              </button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </>
+  );
+}
@@ -0,0 +1,112 @@
+"use client";
+
+import { useState } from "react";
+import { Dropdown } from "../ui/dropdown/Dropdown";
+import Checkbox from "../form/input/Checkbox";
+import {
+  downloadExport,
+  type ExportColumn,
+  type ExportFormat,
+} from "@/lib/export";
+
+interface ExportMenuProps<T> {
+  fileName: string; // Base name of the downloaded file, without extension
+  columns: ExportColumn<T>[]; // Visible columns, in display order
+  rows: T[] | (() => Promise<T[]>); // Filtered and sorted rows, or a loader for server-side tables
+  selectedRows?: T[]; // Enables the "Only selected rows" option
+  className?: string;
+}
+
+export const exportFormats: { value: ExportFormat; label: string }[] = [
+  { value: "csv", label: "CSV (.csv)" },
+  { value: "xlsx", label: "Excel (.xlsx)" },
+  { value: "json", label: "JSON (.json)" },
+];
+
+export default function ExportMenu<T>({
+  fileName,
+  columns,
+  rows,
+  selectedRows = [],
+  className = "",
+}: ExportMenuProps<T>) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [onlySelected, setOnlySelected] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const exportRows =
+        onlySelected && selectedRows.length > 0
+          ? selectedRows
+          : typeof rows === "function"
+          ? await rows()
+          : rows;
+      downloadExport(fileName, exportRows, columns, format);
+      setIsOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Export failed");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen((prev) => !prev)}
+        className={`dropdown-toggle shadow-theme-xs flex h-11 w-full items-center justify-center gap-2 rounded-lg border border-gray-300 bg-white px-4 py-[11px] text-sm font-medium text-gray-700 sm:w-auto dark:border-gray-700 dark:bg-gray-800 dark:text-gray-400 ${className}`}
+      >
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          width="20"
+          height="20"
+          viewBox="0 0 20 20"
+          fill="none"
+        >
+          <path
+            d="M16.6671 13.3333V15.4166C16.6671 16.1069 16.1074 16.6666 15.4171 16.6666H4.58301C3.89265 16.6666 3.33301 16.1069 3.33301 15.4166V13.3333M10.0013 3.33325L10.0013 13.3333M6.14553 7.18708L9.99958 3.33549L13.8539 7.18708"
+            stroke="currentColor"
+            strokeWidth="1.5"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          />
+        </svg>
+        Export
+      </button>
+      <Dropdown
+        isOpen={isOpen}
+        onClose={() => setIsOpen(false)}
+        className="w-56 p-3"
+      >
+        <div className="mb-3 border-b border-gray-100 pb-3 dark:border-gray-800">
+          <Checkbox
+            checked={onlySelected && selectedRows.length > 0}
+            onChange={setOnlySelected}
+            disabled={selectedRows.length === 0}
+            label={`Only selected rows (${selectedRows.length})`}
+          />
+        </div>
+        <ul className="space-y-1">
+          {exportFormats.map((format) => (
+            <li key={format.value}>
+              <button
+                type="button"
+                disabled={isExporting}
+                onClick={() => handleExport(format.value)}
+                className="flex w-full rounded-lg px-3 py-2 text-left text-theme-sm font-medium text-gray-500 hover:bg-gray-100 hover:text-gray-700 disabled:opacity-50 dark:text-gray-400 dark:hover:bg-white/5 dark:hover:text-gray-300"
+              >
+                {format.label}
+              </button>
+            </li>
+          ))}
+        </ul>
+        {error && <p className="mt-2 text-theme-xs text-error-500">{error}</p>}
+      </Dropdown>
+    </div>
+  );
+}
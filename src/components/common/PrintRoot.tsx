@@ -0,0 +1,38 @@
+"use client";
+import React, { useEffect } from "react";
+
+interface PrintRootProps {
+  children: React.ReactNode;
+  className?: string;
+}
+
+/**
+ * Marks the part of the page that gets printed (see the print rules in
+ * globals.css). Dark mode is switched off while the print dialog is open so
+ * the document always comes out dark text on white.
+ */
+export default function PrintRoot({ children, className }: PrintRootProps) {
+  useEffect(() => {
+    const root = document.documentElement;
+    let wasDark = false;
+    const beforePrint = () => {
+      wasDark = root.classList.contains("dark");
+      root.classList.remove("dark");
+    };
+    const afterPrint = () => {
+      if (wasDark) root.classList.add("dark");
+    };
+    window.addEventListener("beforeprint", beforePrint);
+    window.addEventListener("afterprint", afterPrint);
+    return () => {
+      window.removeEventListener("beforeprint", beforePrint);
+      window.removeEventListener("afterprint", afterPrint);
+    };
+  }, []);
+
+  return (
+    <div data-print-root className={className}>
+      {children}
+    </div>
+  );
+}
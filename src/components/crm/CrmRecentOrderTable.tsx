@@ -7,151 +7,39 @@ import {
   TableHeader,
   TableRow,
 } from "../ui/table";
-import { TrashBinIcon } from "../../icons";
+import Link from "next/link";
+import type { Transaction } from "@/lib/mock-data/transactions";
+import { formatMoney } from "@/lib/money";
+import { calculateOrderTotals } from "@/lib/order-totals";
 import AvatarText from "../ui/avatar/AvatarText";
 import Checkbox from "../form/input/Checkbox";
 import Badge from "../ui/badge/Badge";
+import {
+  formatPlacedAt,
+  orderProducts,
+  PAYMENT_COLORS,
+} from "../transactions/orderDisplay";
 
-// Interface for the table row data
-interface TableRowData {
-  id: string; // Unique identifier for the row
-  user: {
-    initials: string; // Initials for the avatar
-    name: string; // User's full name
-    email: string; // User's email address
-  };
-  avatarColor: "brand" | "blue" | "green" | "red" | "yellow" | "gray"; // Color variant for the avatar
-  product: {
-    name: string; // Product name
-    price: string; // Product price
-    purchaseDate: string; // Date of purchase
-  };
-  status: {
-    // label: string; // Status text
-    type: "Complete" | "Warning" | "Cancel" | "Pending"; // Size of the badge
-  };
-  actions: {
-    delete: boolean; // Indicates a delete action is available
-  };
+interface CrmRecentOrderTableProps {
+  orders: Transaction[]; // Newest first
 }
 
-const tableRowData: TableRowData[] = [
-  {
-    id: "DE124321",
-    user: {
-      initials: "AB",
-      name: "John Doe",
-      email: "johndoe@gmail.com",
-    },
-    avatarColor: "brand",
-    product: {
-      name: "Software License",
-      price: "$18,50.34",
-      purchaseDate: "2024-06-15",
-    },
-    status: {
-      type: "Complete",
-    },
-    actions: {
-      delete: true,
-    },
-  },
-  {
-    id: "DE124322",
-    user: {
-      initials: "CD",
-      name: "Jane Smith",
-      email: "janesmith@gmail.com",
-    },
-    avatarColor: "brand",
-    product: {
-      name: "Cloud Hosting",
-      price: "$12,99.00",
-      purchaseDate: "2024-06-18",
-    },
-    status: {
-      type: "Pending",
-    },
-    actions: {
-      delete: true,
-    },
-  },
-  {
-    id: "DE124323",
-    user: {
-      initials: "EF",
-      name: "Michael Brown",
-      email: "michaelbrown@gmail.com",
-    },
-    avatarColor: "brand",
-    product: {
-      name: "Web Domain",
-      price: "$9,50.00",
-      purchaseDate: "2024-06-20",
-    },
-    status: {
-      type: "Cancel",
-    },
-    actions: {
-      delete: true,
-    },
-  },
-  {
-    id: "DE124324",
-    user: {
-      initials: "GH",
-      name: "Alice Johnson",
-      email: "alicejohnson@gmail.com",
-    },
-    avatarColor: "brand",
-    product: {
-      name: "SSL Certificate",
-      price: "$2,30.45",
-      purchaseDate: "2024-06-25",
-    },
-    status: {
-      type: "Pending",
-    },
-    actions: {
-      delete: true,
-    },
-  },
-  {
-    id: "DE124325",
-    user: {
-      initials: "IJ",
-      name: "Robert Lee",
-      email: "robertlee@gmail.com",
-    },
-    avatarColor: "brand",
-    product: {
-      name: "Premium Support",
-      price: "$15,20.00",
-      purchaseDate: "2024-06-30",
-    },
-    status: {
-      type: "Complete",
-    },
-    actions: {
-      delete: true,
-    },
-  },
-];
-
-export default function CrmRecentOrderTable() {
-  const [selectedRows, setSelectedRows] = useState<string[]>([]);
+export default function CrmRecentOrderTable({
+  orders,
+}: CrmRecentOrderTableProps) {
+  const [selectedRows, setSelectedRows] = useState<number[]>([]);
   const [selectAll, setSelectAll] = useState<boolean>(false);
 
   const handleSelectAll = () => {
     setSelectAll(!selectAll);
     if (!selectAll) {
-      setSelectedRows(tableRowData.map((row) => row.id));
+      setSelectedRows(orders.map((order) => order.id));
     } else {
       setSelectedRows([]);
     }
   };
 
-  const handleRowSelect = (id: string) => {
+  const handleRowSelect = (id: number) => {
     setSelectedRows((prevSelected) =>
       prevSelected.includes(id)
         ? prevSelected.filter((rowId) => rowId !== id)
@@ -205,9 +93,12 @@ export default function CrmRecentOrderTable() {
             </svg>
             Filter
           </button>
-          <button className="inline-flex items-center gap-2 rounded-lg border border-gray-300 bg-white px-4 py-3 text-theme-sm font-medium text-gray-700 shadow-theme-xs hover:bg-gray-50 hover:text-gray-800 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-400 dark:hover:bg-white/[0.03] dark:hover:text-gray-200">
+          <Link
+            href="/transactions"
+            className="inline-flex items-center gap-2 rounded-lg border border-gray-300 bg-white px-4 py-3 text-theme-sm font-medium text-gray-700 shadow-theme-xs hover:bg-gray-50 hover:text-gray-800 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-400 dark:hover:bg-white/[0.03] dark:hover:text-gray-200"
+          >
             See all
-          </button>
+          </Link>
         </div>
       </div>
 
@@ -226,7 +117,7 @@ export default function CrmRecentOrderTable() {
                     </div>
                     <div>
                       <span className="font-medium text-gray-500 text-theme-xs dark:text-gray-400">
-                        Deal ID
+                        Order ID
                       </span>
                     </div>
                   </div>
@@ -235,13 +126,13 @@ export default function CrmRecentOrderTable() {
                   Customer
                 </TableCell>
                 <TableCell className="px-6 py-3 font-medium text-gray-500 sm:px-6 text-theme-xs dark:text-gray-400 text-start">
-                  Product/Service
+                  Products
                 </TableCell>
                 <TableCell className="px-6 py-3 font-medium text-gray-500 sm:px-6 text-theme-xs dark:text-gray-400 text-start">
-                  Deal Value
+                  Total
                 </TableCell>
                 <TableCell className="px-6 py-3 font-medium text-gray-500 sm:px-6 text-theme-xs dark:text-gray-400 text-start">
-                  Close Date
+                  Placed On
                 </TableCell>
                 <TableCell className="px-6 py-3 font-medium text-gray-500 sm:px-6 text-theme-xs dark:text-gray-400 text-start">
                   Status
@@ -252,75 +143,98 @@ export default function CrmRecentOrderTable() {
               </TableRow>
             </TableHeader>
             <TableBody>
-              {tableRowData.map((row: TableRowData) => (
-                <TableRow key={row.id}>
-                  <TableCell className="px-4 sm:px-6 py-3.5">
-                    <div className="flex items-center gap-3">
-                      <div>
-                        <Checkbox
-                          checked={selectedRows.includes(row.id)}
-                          onChange={() => handleRowSelect(row.id)}
-                        />
-                      </div>
-                      <div>
-                        <span className="block font-medium text-gray-700 text-theme-sm dark:text-gray-400">
-                          {row.id}
-                        </span>
+              {orders.map((order) => {
+                const products = orderProducts(order);
+                const { customerId } = order;
+                return (
+                  <TableRow key={order.id}>
+                    <TableCell className="px-4 sm:px-6 py-3.5">
+                      <div className="flex items-center gap-3">
+                        <div>
+                          <Checkbox
+                            checked={selectedRows.includes(order.id)}
+                            onChange={() => handleRowSelect(order.id)}
+                          />
+                        </div>
+                        <div>
+                          <span className="block font-medium text-gray-700 text-theme-sm dark:text-gray-400">
+                            {order.orderId}
+                          </span>
+                        </div>
                       </div>
-                    </div>
-                  </TableCell>
-                  <TableCell className="px-4 sm:px-6 py-3.5">
-                    <div className="flex items-center gap-3">
-                      <AvatarText name={row.user.name} className="w-10 h-10" />
-                      <div>
-                        <span className="mb-0.5 block text-theme-sm font-medium text-gray-700 dark:text-gray-400">
-                          {row.user.name}
-                        </span>
-                        <span className="text-gray-500 text-theme-sm dark:text-gray-400">
-                          {row.user.email}
-                        </span>
+                    </TableCell>
+                    <TableCell className="px-4 sm:px-6 py-3.5">
+                      <div className="flex items-center gap-3">
+                        <AvatarText
+                          name={order.customer}
+                          className="w-10 h-10"
+                        />
+                        <div>
+                          {customerId ? (
+                            <Link
+                              href={`/customers/${customerId}`}
+                              className="mb-0.5 block text-theme-sm font-medium text-gray-700 hover:text-brand-500 dark:text-gray-400"
+                            >
+                              {order.customer}
+                            </Link>
+                          ) : (
+                            <span className="mb-0.5 block text-theme-sm font-medium text-gray-700 dark:text-gray-400">
+                              {order.customer}
+                            </span>
+                          )}
+                          <span className="text-gray-500 text-theme-sm dark:text-gray-400">
+                            {order.email}
+                          </span>
+                        </div>
                       </div>
-                    </div>
-                  </TableCell>
-                  <TableCell className="px-4 sm:px-6 py-3.5">
-                    <p className="text-gray-700 text-theme-sm dark:text-gray-400">
-                      {row.product.name}
-                    </p>
-                  </TableCell>
-                  <TableCell className="px-4 sm:px-6 py-3.5">
-                    <p className="text-gray-700 text-theme-sm dark:text-gray-400">
-                      {row.product.price}
-                    </p>
-                  </TableCell>
-                  <TableCell className="px-4 sm:px-6 py-3.5">
-                    <p className="text-gray-700 text-theme-sm dark:text-gray-400">
-                      {row.product.purchaseDate}
-                    </p>
-                  </TableCell>
-                  <TableCell className="px-4 sm:px-6 py-3.5">
-                    <Badge
-                      variant="light"
-                      color={
-                        row.status.type === "Complete"
-                          ? "success"
-                          : row.status.type === "Pending"
-                          ? "warning"
-                          : "error"
-                      }
-                      size="sm"
-                    >
-                      {row.status.type}
-                    </Badge>
-                  </TableCell>
-                  <TableCell className="px-4 sm:px-6 py-3.5">
-                    {row.actions.delete && (
-                      <button>
-                        <TrashBinIcon className="text-gray-700 cursor-pointer hover:text-error-500 dark:text-gray-400 dark:hover:text-error-500" />
-                      </button>
-                    )}
-                  </TableCell>
-                </TableRow>
-              ))}
+                    </TableCell>
+                    <TableCell className="px-4 sm:px-6 py-3.5">
+                      <p className="text-gray-700 text-theme-sm dark:text-gray-400">
+                        {products.first}
+                      </p>
+                      {products.more && (
+                        <p className="text-gray-500 text-theme-xs dark:text-gray-400">
+                          {products.more}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell className="px-4 sm:px-6 py-3.5">
+                      <p className="text-gray-700 text-theme-sm dark:text-gray-400">
+                        {formatMoney(
+                          calculateOrderTotals(
+                            order.items,
+                            order.vatRate,
+                            order.currency
+                          ).total,
+                          { trimZeroCents: true }
+                        )}
+                      </p>
+                    </TableCell>
+                    <TableCell className="px-4 sm:px-6 py-3.5">
+                      <p className="text-gray-700 text-theme-sm dark:text-gray-400">
+                        {formatPlacedAt(order.placedAt)}
+                      </p>
+                    </TableCell>
+                    <TableCell className="px-4 sm:px-6 py-3.5">
+                      <Badge
+                        variant="light"
+                        color={PAYMENT_COLORS[order.status]}
+                        size="sm"
+                      >
+                        {order.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="px-4 sm:px-6 py-3.5">
+                      <Link
+                        href={`/transactions/${order.id}`}
+                        className="text-theme-sm font-medium text-brand-500 hover:text-brand-600"
+                      >
+                        View
+                      </Link>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
             </TableBody>
           </Table>
         </div>
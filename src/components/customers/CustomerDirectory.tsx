@@ -0,0 +1,63 @@
+"use client";
+
+import Link from "next/link";
+import type { CustomerSummary } from "@/lib/customers";
+import DataTable, { type ColumnDef } from "../tables/DataTables/DataTable";
+import AvatarText from "../ui/avatar/AvatarText";
+
+const columns: ColumnDef<CustomerSummary>[] = [
+  {
+    id: "name",
+    header: "Customer",
+    accessor: "name",
+    searchable: true,
+    hideable: false,
+    cell: (row) => (
+      <Link
+        href={`/customers/${row.id}`}
+        className="group flex items-center gap-3"
+      >
+        <AvatarText name={row.name} />
+        <span className="block text-theme-sm font-medium text-gray-800 group-hover:underline dark:text-white/90">
+          {row.name}
+        </span>
+      </Link>
+    ),
+  },
+  { id: "email", header: "Email", accessor: "email", searchable: true },
+  { id: "phone", header: "Phone", accessor: "phone", searchable: true },
+  {
+    id: "country",
+    header: "Country",
+    accessor: "country",
+    searchable: true,
+  },
+  { id: "orders", header: "Orders", accessor: "orders", type: "number" },
+  { id: "invoices", header: "Invoices", accessor: "invoices", type: "number" },
+  {
+    id: "openTickets",
+    header: "Open Tickets",
+    accessor: "openTickets",
+    type: "number",
+  },
+];
+
+interface CustomerDirectoryProps {
+  customers: CustomerSummary[];
+}
+
+export default function CustomerDirectory({
+  customers,
+}: CustomerDirectoryProps) {
+  return (
+    <DataTable
+      data={customers}
+      columns={columns}
+      getRowId={(row) => row.id}
+      initialSort={[{ columnId: "name", direction: "asc" }]}
+      initialPageSize={10}
+      searchPlaceholder="Search name, email, phone or country..."
+      exportFileName="customers"
+    />
+  );
+}
@@ -0,0 +1,36 @@
+import type { Customer } from "@/lib/mock-data/customers";
+
+interface CustomerInfoCardProps {
+  customer: Customer;
+}
+
+// Contact details, laid out like the user profile's information card
+export default function CustomerInfoCard({ customer }: CustomerInfoCardProps) {
+  const [firstName, ...rest] = customer.name.split(" ");
+  const fields = [
+    { label: "First Name", value: firstName },
+    { label: "Last Name", value: rest.join(" ") || "—" },
+    { label: "Email address", value: customer.email },
+    { label: "Phone", value: customer.phone },
+  ];
+
+  return (
+    <div className="p-5 border border-gray-200 rounded-2xl dark:border-gray-800 lg:p-6">
+      <h4 className="text-lg font-semibold text-gray-800 dark:text-white/90 lg:mb-6">
+        Personal Information
+      </h4>
+      <div className="grid grid-cols-1 gap-4 lg:grid-cols-2 lg:gap-7 2xl:gap-x-32">
+        {fields.map((field) => (
+          <div key={field.label}>
+            <p className="mb-2 text-xs leading-normal text-gray-500 dark:text-gray-400">
+              {field.label}
+            </p>
+            <p className="text-sm font-medium text-gray-800 dark:text-white/90">
+              {field.value}
+            </p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import type { Customer } from "@/lib/mock-data/customers";
+import AvatarText from "../ui/avatar/AvatarText";
+
+interface CustomerMetaCardProps {
+  customer: Customer;
+}
+
+// The profile header: the same layout as the user profile's meta card
+export default function CustomerMetaCard({ customer }: CustomerMetaCardProps) {
+  return (
+    <div className="p-5 border border-gray-200 rounded-2xl dark:border-gray-800 lg:p-6">
+      <div className="flex flex-col gap-5 xl:flex-row xl:items-center xl:justify-between">
+        <div className="flex flex-col items-center w-full gap-6 xl:flex-row">
+          <AvatarText name={customer.name} className="h-20! w-20!" />
+          <div>
+            <h4 className="mb-2 text-lg font-semibold text-center text-gray-800 dark:text-white/90 xl:text-left">
+              {customer.name}
+            </h4>
+            <div className="flex flex-col items-center gap-1 text-center xl:flex-row xl:gap-3 xl:text-left">
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Customer #{customer.id}
+              </p>
+              <div className="hidden h-3.5 w-px bg-gray-300 dark:bg-gray-700 xl:block"></div>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {customer.address[1]}, {customer.country}
+              </p>
+            </div>
+          </div>
+        </div>
+        <a
+          href={`mailto:${customer.email}`}
+          className="flex w-full items-center justify-center gap-2 rounded-full border border-gray-300 bg-white px-4 py-3 text-sm font-medium text-gray-700 shadow-theme-xs hover:bg-gray-50 hover:text-gray-800 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-400 dark:hover:bg-white/[0.03] dark:hover:text-gray-200 lg:inline-flex lg:w-auto"
+        >
+          Email
+        </a>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,305 @@
+"use client";
+import Link from "next/link";
+import React, { useState } from "react";
+import type { CustomerPayment } from "@/lib/customers";
+import { displayStatus, invoiceBalance } from "@/lib/invoice-lifecycle";
+import type { Invoice } from "@/lib/mock-data/invoices";
+import type { SupportTicket } from "@/lib/mock-data/support-tickets";
+import type { Transaction } from "@/lib/mock-data/transactions";
+import { formatMoney } from "@/lib/money";
+import { calculateOrderTotals } from "@/lib/order-totals";
+import { INVOICE_STATUS_CLASSES } from "../invoice/invoiceStatus";
+import { ticketStatusClasses } from "../support/ticketStatus";
+import {
+  formatPlacedAt,
+  orderBadge,
+  orderProducts,
+} from "../transactions/orderDisplay";
+import Badge from "../ui/badge/Badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHeader,
+  TableRow,
+} from "../ui/table";
+
+// Each list is null when the signed-in user may not see it
+interface CustomerTabsProps {
+  orders: Transaction[] | null;
+  invoices: Invoice[] | null;
+  payments: CustomerPayment[] | null;
+  tickets: SupportTicket[] | null;
+  today: string; // YYYY-MM-DD, for overdue invoices
+}
+
+interface Tab {
+  id: string;
+  label: string;
+  count: number;
+  content: React.ReactNode;
+}
+
+const headerCell =
+  "px-4 py-3 font-medium text-gray-500 text-start text-theme-xs dark:text-gray-400";
+const bodyCell = "px-4 py-3 text-theme-sm text-gray-700 dark:text-gray-400";
+const linkClass = "font-medium text-brand-500 hover:text-brand-600";
+
+const RecordTable: React.FC<{
+  headers: string[];
+  empty: string;
+  children: React.ReactNode[];
+}> = ({ headers, empty, children }) =>
+  children.length === 0 ? (
+    <p className="py-6 text-sm text-center text-gray-500 dark:text-gray-400">
+      {empty}
+    </p>
+  ) : (
+    <div className="max-w-full overflow-x-auto">
+      <Table>
+        <TableHeader className="border-y border-gray-100 bg-gray-50 dark:border-gray-800 dark:bg-gray-900">
+          <TableRow>
+            {headers.map((header) => (
+              <TableCell key={header} isHeader className={headerCell}>
+                {header}
+              </TableCell>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody className="divide-y divide-gray-100 dark:divide-gray-800">
+          {children}
+        </TableBody>
+      </Table>
+    </div>
+  );
+
+function orderRows(orders: Transaction[]) {
+  return orders.map((order) => {
+    const products = orderProducts(order);
+    const badge = orderBadge(order);
+    return (
+      <TableRow key={order.id}>
+        <TableCell className={bodyCell}>
+          <Link href={`/transactions/${order.id}`} className={linkClass}>
+            {order.orderId}
+          </Link>
+        </TableCell>
+        <TableCell className={bodyCell}>
+          {products.first}
+          {products.more && (
+            <span className="block text-theme-xs text-gray-500 dark:text-gray-400">
+              {products.more}
+            </span>
+          )}
+        </TableCell>
+        <TableCell className={bodyCell}>
+          {formatMoney(
+            calculateOrderTotals(order.items, order.vatRate, order.currency)
+              .total,
+            { trimZeroCents: true }
+          )}
+        </TableCell>
+        <TableCell className={bodyCell}>
+          {formatPlacedAt(order.placedAt)}
+        </TableCell>
+        <TableCell className={bodyCell}>
+          <Badge variant="light" color={badge.color} size="sm">
+            {badge.label}
+          </Badge>
+        </TableCell>
+      </TableRow>
+    );
+  });
+}
+
+function invoiceRows(invoices: Invoice[], today: string) {
+  return invoices.map((invoice) => {
+    const { total, due } = invoiceBalance(invoice);
+    const status = displayStatus(invoice, today);
+    return (
+      <TableRow key={invoice.id}>
+        <TableCell className={bodyCell}>
+          <Link href={`/invoices/${invoice.id}`} className={linkClass}>
+            {invoice.number}
+          </Link>
+        </TableCell>
+        <TableCell className={bodyCell}>{invoice.creationDate}</TableCell>
+        <TableCell className={bodyCell}>{invoice.dueDate}</TableCell>
+        <TableCell className={bodyCell}>
+          {formatMoney(total, { trimZeroCents: true })}
+        </TableCell>
+        <TableCell className={bodyCell}>
+          {formatMoney(due, { trimZeroCents: true })}
+        </TableCell>
+        <TableCell className={bodyCell}>
+          <span
+            className={`${INVOICE_STATUS_CLASSES[status]} text-theme-xs rounded-full px-2 py-0.5 font-medium`}
+          >
+            {status}
+          </span>
+        </TableCell>
+      </TableRow>
+    );
+  });
+}
+
+function paymentRows(payments: CustomerPayment[]) {
+  return payments.map((payment) => (
+    <TableRow key={payment.id}>
+      <TableCell className={bodyCell}>{formatPlacedAt(payment.at)}</TableCell>
+      <TableCell className={bodyCell}>
+        <Link href={payment.href} className={linkClass}>
+          {payment.source}
+        </Link>
+      </TableCell>
+      <TableCell className={bodyCell}>{payment.details || "—"}</TableCell>
+      <TableCell className={bodyCell}>
+        <Badge
+          variant="light"
+          color={payment.kind === "Payment" ? "success" : "light"}
+          size="sm"
+        >
+          {payment.kind}
+        </Badge>
+      </TableCell>
+      <TableCell className={bodyCell}>
+        {payment.kind === "Refund" ? "−" : ""}
+        {formatMoney(payment.amount)}
+      </TableCell>
+    </TableRow>
+  ));
+}
+
+function ticketRows(tickets: SupportTicket[]) {
+  return tickets.map((ticket) => (
+    <TableRow key={ticket.id}>
+      <TableCell className={bodyCell}>
+        <Link href={`/support-tickets/${ticket.id}`} className={linkClass}>
+          #{ticket.id}
+        </Link>
+      </TableCell>
+      <TableCell className={bodyCell}>{ticket.subject}</TableCell>
+      <TableCell className={bodyCell}>
+        {formatPlacedAt(ticket.createdAt)}
+      </TableCell>
+      <TableCell className={bodyCell}>
+        <span
+          className={`${
+            ticketStatusClasses[ticket.status]
+          } text-theme-xs rounded-full px-2 py-0.5 font-medium`}
+        >
+          {ticket.status}
+        </span>
+      </TableCell>
+    </TableRow>
+  ));
+}
+
+// Everything on record for one customer, a tab per kind of record
+export default function CustomerTabs({
+  orders,
+  invoices,
+  payments,
+  tickets,
+  today,
+}: CustomerTabsProps) {
+  const tabs: Tab[] = [];
+  if (orders) {
+    tabs.push({
+      id: "orders",
+      label: "Orders",
+      count: orders.length,
+      content: (
+        <RecordTable
+          headers={["Order ID", "Products", "Total", "Placed On", "Status"]}
+          empty="No orders yet."
+        >
+          {orderRows(orders)}
+        </RecordTable>
+      ),
+    });
+  }
+  if (invoices) {
+    tabs.push({
+      id: "invoices",
+      label: "Invoices",
+      count: invoices.length,
+      content: (
+        <RecordTable
+          headers={[
+            "Invoice",
+            "Creation Date",
+            "Due Date",
+            "Total",
+            "Amount Due",
+            "Status",
+          ]}
+          empty="No invoices yet."
+        >
+          {invoiceRows(invoices, today)}
+        </RecordTable>
+      ),
+    });
+  }
+  if (payments) {
+    tabs.push({
+      id: "transactions",
+      label: "Transactions",
+      count: payments.length,
+      content: (
+        <RecordTable
+          headers={["Date", "For", "Details", "Type", "Amount"]}
+          empty="No payments yet."
+        >
+          {paymentRows(payments)}
+        </RecordTable>
+      ),
+    });
+  }
+  if (tickets) {
+    tabs.push({
+      id: "tickets",
+      label: "Support Tickets",
+      count: tickets.length,
+      content: (
+        <RecordTable
+          headers={["Ticket ID", "Subject", "Create Date", "Status"]}
+          empty="No support tickets yet."
+        >
+          {ticketRows(tickets)}
+        </RecordTable>
+      ),
+    });
+  }
+  const [activeTab, setActiveTab] = useState(tabs[0]?.id);
+
+  if (tabs.length === 0) return null;
+  return (
+    <div className="p-5 border border-gray-200 rounded-2xl dark:border-gray-800 lg:p-6">
+      <div className="border-b border-gray-200 dark:border-gray-800">
+        <nav className="-mb-px flex space-x-2 overflow-x-auto [&::-webkit-scrollbar-thumb]:rounded-full [&::-webkit-scrollbar-thumb]:bg-gray-200 dark:[&::-webkit-scrollbar-thumb]:bg-gray-600 dark:[&::-webkit-scrollbar-track]:bg-transparent [&::-webkit-scrollbar]:h-1.5">
+          {tabs.map((tab) => (
+            <button
+              key={tab.id}
+              type="button"
+              className={`inline-flex items-center gap-2 border-b-2 px-2.5 py-2 text-sm font-medium transition-colors duration-200 ease-in-out ${
+                activeTab === tab.id
+                  ? "text-brand-500 dark:border-brand-400 border-brand-500 dark:text-brand-400"
+                  : "bg-transparent text-gray-500 border-transparent hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+              }`}
+              onClick={() => setActiveTab(tab.id)}
+            >
+              {tab.label}
+              <span className="inline-block items-center justify-center rounded-full bg-brand-50 px-2 py-0.5 text-center text-xs font-medium text-brand-500 dark:bg-brand-500/15 dark:text-brand-400">
+                {tab.count}
+              </span>
+            </button>
+          ))}
+        </nav>
+      </div>
+      <div className="pt-4">
+        {tabs.find((tab) => tab.id === activeTab)?.content}
+      </div>
+    </div>
+  );
+}
@@ -1,36 +1,144 @@
 "use client";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { fromMinorUnits } from "@/lib/money";
+import type {
+  Product,
+  ProductStatus,
+  ProductVariant,
+} from "@/lib/mock-data/products";
+import DropzoneComponent from "../form/form-elements/DropZone";
 import Label from "../form/Label";
 import Input from "../form/input/InputField";
 import Select from "../form/Select";
 import TextArea from "../form/input/TextArea";
 import Button from "../ui/button/Button";
+import ProductImage from "./ProductImage";
+import {
+  createProduct,
+  updateProduct,
+  uploadProductImages,
+  type ProductInput,
+} from "./productApi";
 
-export default function AddProductForm() {
-  const categories = [
-    { value: "Laptop", label: "Laptop" },
-    { value: "Phone", label: "Phone" },
-    { value: "Watch", label: "Watch" },
-    { value: "Electronics", label: "Electronics" },
-    { value: "Accessories", label: "Accessories" },
-  ];
-  const brands = [
-    { value: "1", label: "Apple" },
-    { value: "2", label: "Samsung" },
-    { value: "3", label: "LG" },
-  ];
-  const availability = [
-    { value: "1", label: "In Stock" },
-    { value: "2", label: "Out of Stock" },
-  ];
-  const colors = [
-    { value: "1", label: "Silver" },
-    { value: "2", label: "Black" },
-    { value: "3", label: "White" },
-    { value: "4", label: "Gray" },
-  ];
-  const handleSelectChange = (value: string) => {
-    console.log("Selected value:", value);
+interface AddProductFormProps {
+  categories: string[];
+  product?: Product; // Edits this product instead of adding one
+}
+
+// A variant row while it is being edited; `key` keeps rows apart in React
+interface VariantRow extends Omit<ProductVariant, "stock"> {
+  key: number;
+  stock: string;
+}
+
+const INPUT_CLASSES =
+  "dark:bg-dark-900 shadow-theme-xs focus:border-brand-300 focus:ring-brand-500/10 dark:focus:border-brand-800 h-11 w-full rounded-lg border border-gray-300 bg-transparent px-4 py-2.5 text-sm text-gray-800 placeholder:text-gray-400 focus:ring-3 focus:outline-hidden dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:placeholder:text-white/30";
+
+// Whole units typed into a number field; NaN when it is not one
+const toQuantity = (value: string) =>
+  /^\d+$/.test(value.trim()) ? Number(value) : NaN;
+
+export default function AddProductForm({
+  categories,
+  product,
+}: AddProductFormProps) {
+  const router = useRouter();
+  const [fields, setFields] = useState({
+    name: product?.name ?? "",
+    sku: product?.sku ?? "",
+    category: product?.category ?? "",
+    brand: product?.brand ?? "",
+    description: product?.description ?? "",
+    price: product ? String(fromMinorUnits(product.price)) : "",
+    lowStockThreshold: String(product?.lowStockThreshold ?? 5),
+  });
+  const [stock, setStock] = useState(product?.stock ?? 0);
+  const [variants, setVariants] = useState<VariantRow[]>(
+    (product?.variants ?? []).map((variant, index) => ({
+      ...variant,
+      key: index,
+      stock: String(variant.stock),
+    }))
+  );
+  const [images, setImages] = useState<string[]>(product?.images ?? []);
+  const [busy, setBusy] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const set = (key: keyof typeof fields, value: string) =>
+    setFields((current) => ({ ...current, [key]: value }));
+
+  const setVariant = (key: number, change: Partial<VariantRow>) =>
+    setVariants((rows) =>
+      rows.map((row) => (row.key === key ? { ...row, ...change } : row))
+    );
+
+  const addVariant = () =>
+    setVariants((rows) => [
+      ...rows,
+      {
+        key: rows.reduce((max, row) => Math.max(max, row.key), -1) + 1,
+        sku: "",
+        size: "",
+        color: "",
+        stock: "0",
+      },
+    ]);
+
+  // With variants the stock is theirs to count
+  const variantStock = variants.reduce(
+    (sum, row) => sum + (toQuantity(row.stock) || 0),
+    0
+  );
+
+  const upload = async (files: File[]) => {
+    if (files.length === 0) return;
+    setUploading(true);
+    setError(null);
+    try {
+      const uploaded = await uploadProductImages(files);
+      setImages((current) => [...current, ...uploaded]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const save = async (status: ProductStatus) => {
+    const input: ProductInput = {
+      name: fields.name,
+      sku: fields.sku,
+      description: fields.description,
+      category: fields.category,
+      brand: fields.brand,
+      price: fields.price,
+      stock,
+      lowStockThreshold: toQuantity(fields.lowStockThreshold),
+      variants: variants.map((row) => ({
+        sku: row.sku,
+        size: row.size,
+        color: row.color,
+        stock: toQuantity(row.stock),
+      })),
+      images,
+      status,
+    };
+    setBusy(true);
+    setError(null);
+    try {
+      const saved = product
+        ? await updateProduct(product.id, input)
+        : await createProduct(input);
+      router.push(`/products-list/${saved.id}`);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setBusy(false);
+    }
   };
+
   return (
     <div className="space-y-6">
       <div className="rounded-2xl border border-gray-200 bg-white dark:border-gray-800 dark:bg-white/[0.03]">
@@ -40,61 +148,53 @@ export default function AddProductForm() {
           </h2>
         </div>
         <div className="p-4 sm:p-6 dark:border-gray-800">
-          <form>
-            <div className="grid grid-cols-1 gap-5 md:grid-cols-2">
-              <div>
-                <Label>Product Name</Label>
-                <Input placeholder="Enter product name" />
-              </div>{" "}
-              <div>
-                <Label>Category</Label>
-                <Select
-                  options={categories}
-                  placeholder="Select a category"
-                  onChange={handleSelectChange}
-                  defaultValue=""
-                />
-              </div>
-              <div>
-                <Label>Brand</Label>
-                <Select
-                  options={brands}
-                  placeholder="Select brand"
-                  onChange={handleSelectChange}
-                  defaultValue=""
-                />
-              </div>{" "}
-              <div>
-                <Label>Color</Label>
-                <Select
-                  options={colors}
-                  placeholder="Select color"
-                  onChange={handleSelectChange}
-                  defaultValue=""
-                />
-              </div>
-              <div className="col-span-full">
-                <div className="grid grid-cols-1 gap-5 sm:grid-cols-3">
-                  <div>
-                    <Label>Weight(KG)</Label>
-                    <Input type="number" placeholder="15" />
-                  </div>{" "}
-                  <div>
-                    <Label>Length(CM)</Label>
-                    <Input type="number" placeholder="120" />
-                  </div>{" "}
-                  <div>
-                    <Label>Width(CM)</Label>
-                    <Input type="number" placeholder="23" />
-                  </div>
-                  <div className="col-span-full">
-                    <Label>Description</Label>
-                    <TextArea rows={6} placeholder="Receipt Info (optional)" />
-                  </div>
-                </div>
-              </div>
+          <div className="grid grid-cols-1 gap-5 md:grid-cols-2">
+            <div>
+              <Label>Product Name</Label>
+              <Input
+                placeholder="Enter product name"
+                defaultValue={fields.name}
+                onChange={(e) => set("name", e.target.value)}
+              />
+            </div>
+            <div>
+              <Label>SKU</Label>
+              <Input
+                placeholder="APP-0021"
+                defaultValue={fields.sku}
+                onChange={(e) => set("sku", e.target.value)}
+              />
+            </div>
+            <div>
+              <Label>Category</Label>
+              <Select
+                options={categories.map((category) => ({
+                  value: category,
+                  label: category,
+                }))}
+                placeholder="Select a category"
+                onChange={(value) => set("category", value)}
+                defaultValue={fields.category}
+              />
+            </div>
+            <div>
+              <Label>Brand</Label>
+              <Input
+                placeholder="Enter brand"
+                defaultValue={fields.brand}
+                onChange={(e) => set("brand", e.target.value)}
+              />
             </div>
-          </form>
+            <div className="col-span-full">
+              <Label>Description</Label>
+              <TextArea
+                rows={6}
+                placeholder="Describe the product (optional)"
+                value={fields.description}
+                onChange={(value) => set("description", value)}
+              />
+            </div>
+          </div>
         </div>
       </div>
       <div className="rounded-2xl border border-gray-200 bg-white dark:border-gray-800 dark:bg-white/[0.03]">
@@ -106,25 +206,29 @@ export default function AddProductForm() {
         <div className="space-y-5 p-4 sm:p-6">
           <div className="grid grid-cols-1 gap-5 sm:grid-cols-3">
             <div>
-              <Label>Weight(KG)</Label>
-              <Input type="number" placeholder="15" />
-            </div>{" "}
-            <div>
-              <Label>Length(CM)</Label>
-              <Input type="number" placeholder="120" />
-            </div>{" "}
-            <div>
-              <Label>Width(CM)</Label>
-              <Input type="number" placeholder="23" />
+              <Label>Price (USD)</Label>
+              <Input
+                type="number"
+                min="0"
+                step={0.01}
+                placeholder="699.00"
+                defaultValue={fields.price}
+                onChange={(e) => set("price", e.target.value)}
+              />
             </div>
-          </div>
-          <div className="grid grid-cols-1 gap-5 sm:grid-cols-2">
             <div>
               <label className="mb-1 inline-block text-sm font-semibold text-gray-700 dark:text-gray-400">
                 Stock Quantity
               </label>
               <div className="flex h-11 divide-x divide-gray-300 overflow-hidden rounded-lg border border-gray-300 dark:divide-gray-800 dark:border-gray-700">
-                <button className="inline-flex h-11 w-11 items-center justify-center bg-white text-gray-700 hover:bg-gray-100 dark:border-gray-800 dark:bg-gray-900 dark:text-gray-400 dark:hover:bg-gray-800 dark:hover:text-white">
+                <button
+                  type="button"
+                  disabled={variants.length > 0}
+                  onClick={() =>
+                    setStock((current) => Math.max(0, current - 1))
+                  }
+                  className="inline-flex h-11 w-11 items-center justify-center bg-white text-gray-700 hover:bg-gray-100 disabled:opacity-50 dark:border-gray-800 dark:bg-gray-900 dark:text-gray-400 dark:hover:bg-gray-800 dark:hover:text-white"
+                >
                   <svg
                     xmlns="http://www.w3.org/2000/svg"
                     width="25"
@@ -144,10 +248,21 @@ export default function AddProductForm() {
                 <div className="flex-1">
                   <input
                     type="text"
-                    className="h-full w-full border-0 bg-white text-center text-sm text-gray-700 outline-none focus:ring-0 dark:bg-gray-900 dark:text-gray-400"
+                    inputMode="numeric"
+                    disabled={variants.length > 0}
+                    value={variants.length > 0 ? variantStock : stock}
+                    onChange={(e) =>
+                      setStock(Number(e.target.value.replace(/\D/g, "")))
+                    }
+                    className="h-full w-full border-0 bg-white text-center text-sm text-gray-700 outline-none focus:ring-0 disabled:opacity-50 dark:bg-gray-900 dark:text-gray-400"
                   />
                 </div>
-                <button className="inline-flex h-11 w-11 items-center justify-center bg-white text-gray-700 hover:bg-gray-100 dark:bg-gray-900 dark:text-gray-400 dark:hover:bg-gray-800 dark:hover:text-white">
+                <button
+                  type="button"
+                  disabled={variants.length > 0}
+                  onClick={() => setStock((current) => current + 1)}
+                  className="inline-flex h-11 w-11 items-center justify-center bg-white text-gray-700 hover:bg-gray-100 disabled:opacity-50 dark:bg-gray-900 dark:text-gray-400 dark:hover:bg-gray-800 dark:hover:text-white"
+                >
                   <svg
                     xmlns="http://www.w3.org/2000/svg"
                     width="25"
@@ -165,64 +280,179 @@ export default function AddProductForm() {
                   </svg>
                 </button>
               </div>
+              {variants.length > 0 && (
+                <p className="mt-1.5 text-xs text-gray-500 dark:text-gray-400">
+                  The total of the variants below.
+                </p>
+              )}
             </div>
             <div>
-              <Label> Availability Status</Label>
-              <Select
-                options={availability}
-                placeholder="Select a Availability"
-                onChange={handleSelectChange}
-                defaultValue=""
+              <Label>Low-Stock Alert At</Label>
+              <Input
+                type="number"
+                min="0"
+                placeholder="5"
+                defaultValue={fields.lowStockThreshold}
+                onChange={(e) => set("lowStockThreshold", e.target.value)}
+                hint="Units left when the product shows as low on stock"
               />
             </div>
           </div>
         </div>
       </div>
       <div className="rounded-2xl border border-gray-200 bg-white dark:border-gray-800 dark:bg-white/[0.03]">
-        <div className="border-b border-gray-200 px-6 py-4 dark:border-gray-800">
+        <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4 dark:border-gray-800">
           <h2 className="text-lg font-medium text-gray-800 dark:text-white">
-            Products Images
+            Variants
           </h2>
-        </div>
-        <div className="p-4 sm:p-6">
-          <label
-            htmlFor="product-image"
-            className="shadow-theme-xs group hover:border-brand-500 block cursor-pointer rounded-lg border-2 border-dashed border-gray-300 transition dark:hover:border-brand-400 dark:border-gray-800"
+          <button
+            type="button"
+            onClick={addVariant}
+            className="shadow-theme-xs inline-flex items-center justify-center rounded-lg border border-gray-300 bg-white px-4 py-2.5 text-sm font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-400 dark:hover:bg-white/[0.03]"
           >
-            <div className="flex justify-center p-10">
-              <div className="flex max-w-[260px] flex-col items-center gap-4">
-                <div className="inline-flex h-13 w-13 items-center justify-center rounded-full border border-gray-200 text-gray-700 transition dark:border-gray-800 dark:text-gray-400">
-                  <svg
-                    xmlns="http://www.w3.org/2000/svg"
-                    width="24"
-                    height="24"
-                    viewBox="0 0 24 24"
-                    fill="none"
-                  >
-                    <path
-                      d="M20.0004 16V18.5C20.0004 19.3284 19.3288 20 18.5004 20H5.49951C4.67108 20 3.99951 19.3284 3.99951 18.5V16M12.0015 4L12.0015 16M7.37454 8.6246L11.9994 4.00269L16.6245 8.6246"
-                      stroke="currentColor"
-                      strokeWidth="1.5"
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                    />
-                  </svg>
+            Add Variant
+          </button>
+        </div>
+        <div className="space-y-4 p-4 sm:p-6">
+          {variants.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Add a variant for each size and color the product comes in, each
+              with its own stock.
+            </p>
+          ) : (
+            variants.map((row) => (
+              <div
+                key={row.key}
+                className="grid grid-cols-2 items-end gap-4 sm:grid-cols-[1fr_1fr_1.5fr_1fr_auto]"
+              >
+                <div>
+                  <Label>Size</Label>
+                  <input
+                    type="text"
+                    placeholder="41mm"
+                    value={row.size}
+                    onChange={(e) =>
+                      setVariant(row.key, { size: e.target.value })
+                    }
+                    className={INPUT_CLASSES}
+                  />
                 </div>
-                <p className="text-center text-sm text-gray-500 dark:text-gray-400">
-                  <span className="font-medium text-gray-800 dark:text-white/90">
-                    Click to upload
-                  </span>
-                  or drag and drop SVG, PNG, JPG or GIF (MAX. 800x400px)
-                </p>
+                <div>
+                  <Label>Color</Label>
+                  <input
+                    type="text"
+                    placeholder="Black"
+                    value={row.color}
+                    onChange={(e) =>
+                      setVariant(row.key, { color: e.target.value })
+                    }
+                    className={INPUT_CLASSES}
+                  />
+                </div>
+                <div>
+                  <Label>SKU</Label>
+                  <input
+                    type="text"
+                    placeholder="Generated when empty"
+                    value={row.sku}
+                    onChange={(e) =>
+                      setVariant(row.key, { sku: e.target.value })
+                    }
+                    className={INPUT_CLASSES}
+                  />
+                </div>
+                <div>
+                  <Label>Stock</Label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={row.stock}
+                    onChange={(e) =>
+                      setVariant(row.key, { stock: e.target.value })
+                    }
+                    className={INPUT_CLASSES}
+                  />
+                </div>
+                <button
+                  type="button"
+                  onClick={() =>
+                    setVariants((rows) =>
+                      rows.filter((other) => other.key !== row.key)
+                    )
+                  }
+                  className="h-11 rounded-lg px-3 text-sm font-medium text-error-500 hover:bg-error-50 dark:hover:bg-error-500/15"
+                >
+                  Remove
+                </button>
               </div>
-            </div>
-            <input type="file" id="product-image" className="hidden" />
-          </label>
+            ))
+          )}
         </div>
       </div>
+      <DropzoneComponent
+        title="Products Images"
+        onDrop={upload}
+        disabled={uploading}
+        accept={{
+          "image/png": [],
+          "image/jpeg": [],
+          "image/gif": [],
+          "image/webp": [],
+        }}
+        hint={
+          uploading
+            ? "Uploading..."
+            : "Drag and drop PNG, JPG, GIF or WebP images up to 5 MB here or browse"
+        }
+      >
+        {images.length > 0 && (
+          <ul className="flex flex-wrap gap-4">
+            {images.map((image, index) => (
+              <li key={image} className="relative">
+                <ProductImage
+                  src={image}
+                  name={fields.name || "Product"}
+                  size={96}
+                  className="h-24 w-24 rounded-lg"
+                />
+                {index === 0 && (
+                  <span className="absolute bottom-1 left-1 rounded-full bg-gray-900/70 px-2 py-0.5 text-xs text-white">
+                    Cover
+                  </span>
+                )}
+                <button
+                  type="button"
+                  aria-label="Remove image"
+                  onClick={() =>
+                    setImages((current) =>
+                      current.filter((other) => other !== image)
+                    )
+                  }
+                  className="absolute -top-2 -right-2 flex h-6 w-6 items-center justify-center rounded-full border border-gray-200 bg-white text-sm text-gray-700 shadow-theme-xs hover:bg-gray-100 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-400"
+                >
+                  &times;
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </DropzoneComponent>
+      {error && <p className="text-sm text-error-500">{error}</p>}
       <div className="flex flex-col gap-3 sm:flex-row sm:justify-end">
-        <Button variant="outline">Draft</Button>
-        <Button variant="primary">Publish Product</Button>
+        <Button
+          variant="outline"
+          disabled={busy || uploading}
+          onClick={() => save("Draft")}
+        >
+          {product ? "Save as Draft" : "Draft"}
+        </Button>
+        <Button
+          variant="primary"
+          disabled={busy || uploading}
+          onClick={() => save("Published")}
+        >
+          {busy ? "Saving..." : product ? "Save & Publish" : "Publish Product"}
+        </Button>
       </div>
     </div>
   );
@@ -1,9 +1,24 @@
 "use client";
 import React from "react";
 import Badge from "../ui/badge/Badge";
-import { ArrowDownIcon, ArrowUpIcon, BoxIconLine, GroupIcon } from "@/icons";
+import {
+  ArrowDownIcon,
+  ArrowUpIcon,
+  BoxIconLine,
+  DollarLineIcon,
+  GroupIcon,
+} from "@/icons";
+import { formatMoney, type Money } from "@/lib/money";
 
-export const EcommerceMetrics = () => {
+interface EcommerceMetricsProps {
+  revenue: Money; // Completed orders, in the reporting currency
+  completedOrders: number;
+}
+
+export const EcommerceMetrics = ({
+  revenue,
+  completedOrders,
+}: EcommerceMetricsProps) => {
   return (
     <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 md:gap-6">
       {/* <!-- Metric Item Start --> */}
@@ -51,6 +66,27 @@ export const EcommerceMetrics = () => {
         </div>
       </div>
       {/* <!-- Metric Item End --> */}
+
+      {/* <!-- Metric Item Start --> */}
+      <div className="rounded-2xl border border-gray-200 bg-white p-5 dark:border-gray-800 dark:bg-white/[0.03] md:p-6 sm:col-span-2">
+        <div className="flex items-center justify-center w-12 h-12 bg-gray-100 rounded-xl dark:bg-gray-800">
+          <DollarLineIcon className="text-gray-800 size-6 dark:text-white/90" />
+        </div>
+        <div className="flex items-end justify-between mt-5">
+          <div>
+            <span className="text-sm text-gray-500 dark:text-gray-400">
+              Revenue ({revenue.currency})
+            </span>
+            <h4 className="mt-2 font-bold text-gray-800 text-title-sm dark:text-white/90">
+              {formatMoney(revenue)}
+            </h4>
+          </div>
+          <span className="text-theme-sm text-gray-500 dark:text-gray-400">
+            {completedOrders} completed orders
+          </span>
+        </div>
+      </div>
+      {/* <!-- Metric Item End --> */}
     </div>
   );
 };
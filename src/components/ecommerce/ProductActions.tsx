@@ -0,0 +1,54 @@
+"use client";
+import { usePermission } from "@/context/SessionContext";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { deleteProduct } from "./productApi";
+
+// Edit and Delete for one product, shown to those allowed to use them
+export default function ProductActions({ productId }: { productId: number }) {
+  const router = useRouter();
+  const canEdit = usePermission("products:edit");
+  const canDelete = usePermission("products:delete");
+  const [confirming, setConfirming] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const remove = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await deleteProduct(productId);
+      router.push("/products-list");
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setBusy(false);
+    }
+  };
+
+  if (!canEdit && !canDelete) return null;
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      {error && <p className="text-sm text-error-500">{error}</p>}
+      {canEdit && (
+        <Link
+          href={`/edit-product/${productId}`}
+          className="shadow-theme-xs inline-flex items-center justify-center rounded-lg border border-gray-300 bg-white px-4 py-2.5 text-sm font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-400 dark:hover:bg-white/[0.03]"
+        >
+          Edit
+        </Link>
+      )}
+      {canDelete && (
+        <button
+          type="button"
+          disabled={busy}
+          onClick={() => (confirming ? remove() : setConfirming(true))}
+          className="inline-flex items-center justify-center rounded-lg bg-error-500 px-4 py-2.5 text-sm font-medium text-white hover:bg-error-600 disabled:opacity-50"
+        >
+          {busy ? "Deleting..." : confirming ? "Confirm Delete" : "Delete"}
+        </button>
+      )}
+    </div>
+  );
+}
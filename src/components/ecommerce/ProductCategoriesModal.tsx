@@ -0,0 +1,109 @@
+"use client";
+import { usePermission } from "@/context/SessionContext";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { Modal } from "../ui/modal";
+import { addCategory, deleteCategory } from "./productApi";
+
+interface ProductCategoriesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  categories: string[];
+}
+
+const INPUT_CLASSES =
+  "dark:bg-dark-900 shadow-theme-xs focus:border-brand-300 focus:ring-brand-500/10 dark:focus:border-brand-800 h-11 w-full rounded-lg border border-gray-300 bg-transparent px-4 py-2.5 text-sm text-gray-800 placeholder:text-gray-400 focus:ring-3 focus:outline-hidden dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:placeholder:text-white/30";
+
+// Adds categories and deletes the ones no product is filed under
+export default function ProductCategoriesModal({
+  isOpen,
+  onClose,
+  categories,
+}: ProductCategoriesModalProps) {
+  const router = useRouter();
+  const canDelete = usePermission("products:delete");
+  const [name, setName] = useState("");
+  const [removing, setRemoving] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (request: () => Promise<unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await request();
+      setName("");
+      setRemoving(null);
+      // Loads the categories again
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      className="relative w-full max-w-[558px] m-5 sm:m-0 rounded-3xl bg-white p-6 lg:p-10 dark:bg-gray-900"
+    >
+      <h4 className="mb-6 text-2xl font-semibold text-gray-800 dark:text-white/90">
+        Product Categories
+      </h4>
+
+      <form
+        className="flex gap-3"
+        onSubmit={(e) => {
+          e.preventDefault();
+          run(() => addCategory(name));
+        }}
+      >
+        <input
+          type="text"
+          placeholder="New category"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className={INPUT_CLASSES}
+        />
+        <button
+          type="submit"
+          disabled={busy || !name.trim()}
+          className="bg-brand-500 shadow-theme-xs hover:bg-brand-600 flex justify-center rounded-lg px-4 py-3 text-sm font-medium text-white disabled:opacity-50"
+        >
+          Add
+        </button>
+      </form>
+
+      {error && <p className="mt-4 text-sm text-error-500">{error}</p>}
+
+      <ul className="custom-scrollbar mt-6 max-h-80 divide-y divide-gray-100 overflow-y-auto dark:divide-gray-800">
+        {categories.map((category) => (
+          <li
+            key={category}
+            className="flex items-center justify-between gap-3 py-2.5"
+          >
+            <span className="text-sm text-gray-700 dark:text-gray-400">
+              {category}
+            </span>
+            {canDelete && (
+              <button
+                type="button"
+                disabled={busy}
+                onClick={() =>
+                  removing === category
+                    ? run(() => deleteCategory(category))
+                    : setRemoving(category)
+                }
+                className="shadow-theme-xs inline-flex h-6 items-center justify-center rounded-md border border-gray-300 px-3 py-1 text-xs font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 dark:border-gray-700 dark:text-gray-400 dark:hover:bg-white/[0.03] dark:hover:text-gray-200"
+              >
+                {removing === category ? "Confirm Delete" : "Delete"}
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </Modal>
+  );
+}
@@ -0,0 +1,140 @@
+import {
+  stockStatus,
+  variantLabel,
+  type Product,
+} from "@/lib/mock-data/products";
+import { formatMoney } from "@/lib/money";
+import React from "react";
+import ProductActions from "./ProductActions";
+import ProductImage from "./ProductImage";
+import StockBadge from "./StockBadge";
+
+interface ProductDetailsProps {
+  product: Product;
+}
+
+export default function ProductDetails({ product }: ProductDetailsProps) {
+  const fields = [
+    { label: "SKU", value: product.sku },
+    { label: "Category", value: product.category },
+    { label: "Brand", value: product.brand },
+    {
+      label: "Price",
+      value: formatMoney(product.price, { trimZeroCents: true }),
+    },
+    {
+      label: "Stock",
+      value: `${product.stock} units (alert at ${product.lowStockThreshold})`,
+    },
+    { label: "Status", value: product.status },
+    { label: "Created At", value: product.createdAt },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-2xl border border-gray-200 bg-white p-6 dark:border-gray-800 dark:bg-white/3">
+        <div className="flex flex-col gap-6 sm:flex-row sm:items-start">
+          <div className="shrink-0 space-y-3">
+            <ProductImage
+              src={product.images[0]}
+              name={product.name}
+              size={240}
+              className="h-60 w-60 rounded-xl text-5xl"
+            />
+            {product.images.length > 1 && (
+              <ul className="flex w-60 flex-wrap gap-2">
+                {product.images.slice(1).map((image) => (
+                  <li key={image}>
+                    <ProductImage
+                      src={image}
+                      name={product.name}
+                      size={54}
+                      className="h-[54px] w-[54px] rounded-lg"
+                    />
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+          <div className="w-full">
+            <div className="mb-5 flex flex-wrap items-center justify-between gap-3">
+              <div className="flex flex-wrap items-center gap-3">
+                <h2 className="text-lg font-semibold text-gray-800 dark:text-white/90">
+                  {product.name}
+                </h2>
+                <StockBadge status={stockStatus(product)} />
+              </div>
+              <ProductActions productId={product.id} />
+            </div>
+            {product.description && (
+              <p className="mb-5 text-sm whitespace-pre-line text-gray-500 dark:text-gray-400">
+                {product.description}
+              </p>
+            )}
+            <ul className="divide-y divide-gray-100 dark:divide-gray-800">
+              {fields.map((field) => (
+                <li key={field.label} className="flex items-start gap-5 py-2.5">
+                  <span className="w-1/2 text-sm text-gray-500 sm:w-1/3 dark:text-gray-400">
+                    {field.label}
+                  </span>
+                  <span className="w-1/2 text-sm text-gray-700 sm:w-2/3 dark:text-gray-400">
+                    {field.value}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      </div>
+
+      {product.variants.length > 0 && (
+        <div className="overflow-hidden rounded-2xl border border-gray-200 bg-white dark:border-gray-800 dark:bg-white/3">
+          <div className="border-b border-gray-200 px-6 py-4 dark:border-gray-800">
+            <h3 className="text-lg font-medium text-gray-800 dark:text-white/90">
+              Variants
+            </h3>
+          </div>
+          <div className="overflow-x-auto custom-scrollbar">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-200 dark:border-gray-800">
+                  {["Variant", "SKU", "Stock", ""].map((header) => (
+                    <th
+                      key={header}
+                      className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400"
+                    >
+                      {header}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-800">
+                {product.variants.map((variant) => (
+                  <tr key={variant.sku}>
+                    <td className="px-6 py-3 text-sm text-gray-700 dark:text-gray-400">
+                      {variantLabel(variant)}
+                    </td>
+                    <td className="px-6 py-3 text-sm text-gray-500 dark:text-gray-400">
+                      {variant.sku}
+                    </td>
+                    <td className="px-6 py-3 text-sm text-gray-700 dark:text-gray-400">
+                      {variant.stock}
+                    </td>
+                    <td className="px-6 py-3">
+                      <StockBadge
+                        status={stockStatus({
+                          stock: variant.stock,
+                          lowStockThreshold: product.lowStockThreshold,
+                        })}
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import Image from "next/image";
+import React from "react";
+
+interface ProductImageProps {
+  src?: string; // Falls back to the product's initial when missing
+  name: string;
+  size: number; // Width and height in pixels
+  className?: string;
+}
+
+export default function ProductImage({
+  src,
+  name,
+  size,
+  className = "",
+}: ProductImageProps) {
+  if (!src) {
+    return (
+      <div
+        style={{ width: size, height: size }}
+        className={`flex shrink-0 items-center justify-center bg-gray-100 text-sm font-medium text-gray-500 dark:bg-gray-800 dark:text-gray-400 ${className}`}
+      >
+        {name.charAt(0).toUpperCase()}
+      </div>
+    );
+  }
+  return (
+    <Image
+      width={size}
+      height={size}
+      src={src}
+      // Uploads are served behind sign-in, which the optimizer cannot pass
+      unoptimized={src.startsWith("/api/")}
+      className={`object-cover ${className}`}
+      alt={name}
+    />
+  );
+}
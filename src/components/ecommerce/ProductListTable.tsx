@@ -1,31 +1,64 @@
 "use client";
 import React, { useState } from "react";
 
-import Button from "../ui/button/Button";
+import ExportMenu from "../common/ExportMenu";
+import BulkActionBar from "../common/BulkActionBar";
+import {
+  createRemoteDataSource,
+  useDataTable,
+  type ColumnDef,
+} from "../tables/DataTables/DataTable";
+import { usePermission } from "@/context/SessionContext";
+import type { ExportColumn } from "@/lib/export";
+import {
+  productColumns,
+  stockStatus,
+  STOCK_STATUSES,
+  type Product,
+} from "@/lib/mock-data/products";
+import { formatMoney, fromMinorUnits } from "@/lib/money";
 import Link from "next/link";
-import Image from "next/image";
+import ProductCategoriesModal from "./ProductCategoriesModal";
+import ProductImage from "./ProductImage";
+import StockBadge from "./StockBadge";
 
-interface Product {
-  id: number;
-  name: string;
-  image: string;
-  category: string;
-  brand: string;
-  price: string;
-  stock: string;
-  createdAt: string;
-}
+// Searched, filtered, sorted and paged by /api/products
+const productSource = createRemoteDataSource<Product>("/api/products");
 
-interface Sort {
-  key: keyof Product;
-  asc: boolean;
-}
+// The headers are part of the table markup below
+const columns: ColumnDef<Product>[] = productColumns.map((column) => ({
+  ...column,
+  header: column.id,
+}));
+
+const productExportColumns: ExportColumn<Product>[] = [
+  { header: "Products", value: (product) => product.name },
+  { header: "SKU", value: (product) => product.sku },
+  { header: "Category", value: (product) => product.category },
+  { header: "Brand", value: (product) => product.brand },
+  {
+    header: "Price",
+    value: (product) => fromMinorUnits(product.price),
+  },
+  { header: "Stock", value: (product) => product.stock },
+  { header: "Availability", value: (product) => stockStatus(product) },
+  { header: "Status", value: (product) => product.status },
+  { header: "Created At", value: (product) => product.createdAt },
+];
+
+const SELECT_CLASSES =
+  "dark:bg-dark-900 shadow-theme-xs focus:border-brand-300 focus:ring-brand-500/10 dark:focus:border-brand-800 h-10 w-full rounded-lg border border-gray-300 bg-transparent px-4 py-2 text-sm text-gray-800 focus:ring-3 focus:outline-hidden dark:border-gray-700 dark:bg-gray-900 dark:text-white/90";
 
 const FilterDropdown: React.FC<{
   showFilter: boolean;
   setShowFilter: (show: boolean) => void;
-}> = ({ showFilter, setShowFilter }) => {
+  categories: string[];
+  filters: Record<string, string>;
+  onApply: (filters: Record<string, string>) => void;
+}> = ({ showFilter, setShowFilter, categories, filters, onApply }) => {
   const ref = React.useRef<HTMLDivElement>(null);
+  const [category, setCategory] = useState(filters.category ?? "");
+  const [availability, setAvailability] = useState(filters.availability ?? "");
 
   React.useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -67,23 +100,44 @@ const FilterDropdown: React.FC<{
             <label className="mb-2 block text-xs font-medium text-gray-700 dark:text-gray-300">
               Category
             </label>
-            <input
-              type="text"
-              className="dark:bg-dark-900 shadow-theme-xs focus:border-brand-300 focus:ring-brand-500/10 dark:focus:border-brand-800 h-10 w-full rounded-lg border border-gray-300 bg-transparent px-4 py-2.5 text-sm text-gray-800 placeholder:text-gray-400 focus:ring-3 focus:outline-hidden dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:placeholder:text-white/30"
-              placeholder="Search category..."
-            />
+            <select
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              className={SELECT_CLASSES}
+            >
+              <option value="">All categories</option>
+              {categories.map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </select>
           </div>
           <div className="mb-5">
             <label className="mb-2 block text-xs font-medium text-gray-700 dark:text-gray-300">
-              Customer
+              Availability
             </label>
-            <input
-              type="text"
-              className="dark:bg-dark-900 shadow-theme-xs focus:border-brand-300 focus:ring-brand-500/10 dark:focus:border-brand-800 h-10 w-full rounded-lg border border-gray-300 bg-transparent px-4 py-2.5 text-sm text-gray-800 placeholder:text-gray-400 focus:ring-3 focus:outline-hidden dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:placeholder:text-white/30"
-              placeholder="Search customer..."
-            />
+            <select
+              value={availability}
+              onChange={(e) => setAvailability(e.target.value)}
+              className={SELECT_CLASSES}
+            >
+              <option value="">Any</option>
+              {STOCK_STATUSES.map((status) => (
+                <option key={status} value={status}>
+                  {status}
+                </option>
+              ))}
+            </select>
           </div>
-          <button className="bg-brand-500 hover:bg-brand-600 h-10 w-full rounded-lg px-3 py-2 text-sm font-medium text-white">
+          <button
+            type="button"
+            onClick={() => {
+              onApply({ category, availability });
+              setShowFilter(false);
+            }}
+            className="bg-brand-500 hover:bg-brand-600 h-10 w-full rounded-lg px-3 py-2 text-sm font-medium text-white"
+          >
             Apply
           </button>
         </div>
@@ -92,282 +146,34 @@ const FilterDropdown: React.FC<{
   );
 };
 
-const ProductListTable: React.FC = () => {
-  const [products] = useState<Product[]>([
-    {
-      id: 1,
-      name: "Macbook pro M4",
-      image: "/images/product/product-01.jpg",
-      category: "Laptop",
-      brand: "Apple",
-      price: "$699",
-      stock: "In Stock",
-      createdAt: "12 Feb, 2027",
-    },
-    {
-      id: 2,
-      name: "Apple Watch Ultra",
-      image: "/images/product/product-02.jpg",
-      category: "Watch",
-      brand: "Apple",
-      price: "$1,579",
-      stock: "Out of Stock",
-      createdAt: "13 Mar, 2027",
-    },
-    {
-      id: 3,
-      name: "iPhone 15 Pro Max",
-      image: "/images/product/product-03.jpg",
-      category: "Phone",
-      brand: "Apple",
-      price: "$1,039",
-      stock: "In Stock",
-      createdAt: "19 Mar, 2027",
-    },
-    {
-      id: 4,
-      name: "iPad Pro 3rd Gen",
-      image: "/images/product/product-04.jpg",
-      category: "Electronics",
-      brand: "Apple",
-      price: "$43,999",
-      stock: "In Stock",
-      createdAt: "25 Apr, 2027",
-    },
-    {
-      id: 5,
-      name: "Samsung Galaxy S24 Ultra",
-      image: "/images/product/product-05.jpg",
-      category: "Phone",
-      brand: "Samsung",
-      price: "$699",
-      stock: "In Stock",
-      createdAt: "11 May, 2027",
-    },
-    {
-      id: 6,
-      name: "Airpods Pro 2nd Gen",
-      image: "/images/product/product-01.jpg",
-      category: "Accessories",
-      brand: "Apple",
-      price: "$839",
-      stock: "In Stock",
-      createdAt: "29 Jun, 2027",
-    },
-    {
-      id: 7,
-      name: "LG OLED & 4K Smart TV",
-      image: "/images/product/product-02.jpg",
-      category: "Electronics",
-      brand: "LG",
-      price: "$1,769",
-      stock: "Out of Stock",
-      createdAt: "22 Jul, 2027",
-    },
-    {
-      id: 8,
-      name: "Sony WH-1000XM5 Headphones",
-      image: "/images/product/product-03.jpg",
-      category: "Audio",
-      brand: "Sony",
-      price: "$399",
-      stock: "In Stock",
-      createdAt: "05 Aug, 2027",
-    },
-    {
-      id: 9,
-      name: "Dell XPS 13 Laptop",
-      image: "/images/product/product-04.jpg",
-      category: "Laptop",
-      brand: "Dell",
-      price: "$1,299",
-      stock: "In Stock",
-      createdAt: "18 Aug, 2027",
-    },
-    {
-      id: 10,
-      name: "Google Pixel 8 Pro",
-      image: "/images/product/product-05.jpg",
-      category: "Phone",
-      brand: "Google",
-      price: "$899",
-      stock: "Out of Stock",
-      createdAt: "02 Sep, 2027",
-    },
-    {
-      id: 11,
-      name: "Microsoft Surface Pro 9",
-      image: "/images/product/product-01.jpg",
-      category: "Tablet",
-      brand: "Microsoft",
-      price: "$1,099",
-      stock: "In Stock",
-      createdAt: "15 Sep, 2027",
-    },
-    {
-      id: 12,
-      name: "Canon EOS R5 Camera",
-      image: "/images/product/product-02.jpg",
-      category: "Camera",
-      brand: "Canon",
-      price: "$3,899",
-      stock: "In Stock",
-      createdAt: "28 Sep, 2027",
-    },
-    {
-      id: 13,
-      name: "Nintendo Switch OLED",
-      image: "/images/product/product-03.jpg",
-      category: "Gaming",
-      brand: "Nintendo",
-      price: "$349",
-      stock: "Out of Stock",
-      createdAt: "10 Oct, 2027",
-    },
-    {
-      id: 14,
-      name: "Razer DeathAdder V3 Mouse",
-      image: "/images/product/product-04.jpg?v=2",
-      category: "Accessories",
-      brand: "Razer",
-      price: "$89",
-      stock: "In Stock",
-      createdAt: "23 Oct, 2027",
-    },
-    {
-      id: 15,
-      name: "HP Envy 34 Monitor",
-      image: "/images/product/product-05.jpg",
-      category: "Monitor",
-      brand: "HP",
-      price: "$799",
-      stock: "In Stock",
-      createdAt: "05 Nov, 2027",
-    },
-    {
-      id: 16,
-      name: "Bose QuietComfort Earbuds",
-      image: "/images/product/product-01.jpg",
-      category: "Audio",
-      brand: "Bose",
-      price: "$279",
-      stock: "In Stock",
-      createdAt: "18 Nov, 2027",
-    },
-    {
-      id: 17,
-      name: "ASUS ROG Gaming Laptop",
-      image: "/images/product/product-03.jpg",
-      category: "Laptop",
-      brand: "ASUS",
-      price: "$2,199",
-      stock: "Out of Stock",
-      createdAt: "01 Dec, 2027",
-    },
-    {
-      id: 18,
-      name: "Logitech MX Master 3S",
-      image: "/images/product/product-04.jpg",
-      category: "Accessories",
-      brand: "Logitech",
-      price: "$119",
-      stock: "In Stock",
-      createdAt: "14 Dec, 2027",
-    },
-    {
-      id: 19,
-      name: "Steam Deck OLED",
-      image: "/images/product/product-02.jpg",
-      category: "Gaming",
-      brand: "Valve",
-      price: "$649",
-      stock: "In Stock",
-      createdAt: "27 Dec, 2027",
-    },
-    {
-      id: 20,
-      name: "Samsung 980 Pro SSD 2TB",
-      image: "/images/product/product-03.jpg",
-      category: "Storage",
-      brand: "Samsung",
-      price: "$299",
-      stock: "In Stock",
-      createdAt: "09 Jan, 2028",
-    },
-  ]);
-  const [selected, setSelected] = useState<number[]>([]);
-  const [sort, setSort] = useState<Sort>({ key: "name", asc: true });
-  const [page, setPage] = useState(1);
-  const [perPage] = useState(7);
-  const [showFilter, setShowFilter] = useState(false);
-
-  const sortedProducts = () => {
-    return [...products].sort((a, b) => {
-      let valA = a[sort.key];
-      let valB = b[sort.key];
-      if (sort.key === "price") {
-        valA = parseFloat(String(valA).replace(/[^\d.]/g, ""));
-        valB = parseFloat(String(valB).replace(/[^\d.]/g, ""));
-      }
-      if (valA < valB) return sort.asc ? -1 : 1;
-      if (valA > valB) return sort.asc ? 1 : -1;
-      return 0;
-    });
-  };
-
-  const paginatedProducts = () => {
-    const start = (page - 1) * perPage;
-    return sortedProducts().slice(start, start + perPage);
-  };
-
-  const totalPages = () => Math.ceil(products.length / perPage);
-
-  const goToPage = (n: number) => {
-    if (n >= 1 && n <= totalPages()) setPage(n);
-  };
-
-  const prevPage = () => {
-    if (page > 1) setPage(page - 1);
-  };
+interface ProductListTableProps {
+  categories: string[];
+  initialFilters?: Record<string, string>; // E.g. from a low-stock alert link
+}
 
-  const nextPage = () => {
-    if (page < totalPages()) setPage(page + 1);
-  };
+const ProductListTable: React.FC<ProductListTableProps> = ({
+  categories,
+  initialFilters,
+}) => {
+  const table = useDataTable({
+    columns,
+    getRowId: (product) => product.id,
+    dataSource: productSource,
+    initialSort: [{ columnId: "name", direction: "asc" }],
+    initialPageSize: 7,
+    initialFilters,
+  });
+  const [showFilter, setShowFilter] = useState(false);
+  const [showCategories, setShowCategories] = useState(false);
+  const canEdit = usePermission("products:edit");
 
-  const toggleSelect = (id: number) => {
-    setSelected((prev) =>
-      prev.includes(id) ? prev.filter((i) => i !== id) : [...prev, id]
-    );
-  };
+  const sortDirection = (columnId: string) =>
+    table.sortRules.find((rule) => rule.columnId === columnId)?.direction;
 
-  const toggleAll = () => {
-    const ids = paginatedProducts().map((p) => p.id);
-    setSelected((prev) =>
-      isAllSelected()
-        ? prev.filter((id) => !ids.includes(id))
-        : [...new Set([...prev, ...ids])]
+  const applyFilters = (filters: Record<string, string>) =>
+    Object.entries(filters).forEach(([columnId, value]) =>
+      table.setFilter(columnId, value)
     );
-  };
-
-  const isAllSelected = () => {
-    const ids = paginatedProducts().map((p) => p.id);
-    return ids.length > 0 && ids.every((id) => selected.includes(id));
-  };
-
-  const startItem = () => {
-    return products.length === 0 ? 0 : (page - 1) * perPage + 1;
-  };
-
-  const endItem = () => {
-    return Math.min(page * perPage, products.length);
-  };
-
-  const sortBy = (key: keyof Product) => {
-    setSort((prev) => ({
-      key,
-      asc: prev.key === key ? !prev.asc : true,
-    }));
-  };
 
   return (
     <div className="overflow-hidden rounded-xl border border-gray-200 bg-white dark:border-gray-800 dark:bg-white/[0.03]">
@@ -382,45 +188,44 @@ const ProductListTable: React.FC = () => {
         </div>
 
         <div className="flex gap-3">
-          <Button variant="outline">
-            Export
-            <svg
-              xmlns="http://www.w3.org/2000/svg"
-              width="20"
-              height="20"
-              viewBox="0 0 20 20"
-              fill="none"
+          <ExportMenu
+            fileName="products"
+            columns={productExportColumns}
+            rows={table.fetchAllRows}
+            selectedRows={table.selectedRows}
+          />
+          {canEdit && (
+            <button
+              type="button"
+              onClick={() => setShowCategories(true)}
+              className="shadow-theme-xs inline-flex items-center justify-center rounded-lg border border-gray-300 bg-white px-4 py-3 text-sm font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-400 dark:hover:bg-white/[0.03]"
             >
-              <path
-                d="M16.667 13.3333V15.4166C16.667 16.1069 16.1074 16.6666 15.417 16.6666H4.58295C3.89259 16.6666 3.33295 16.1069 3.33295 15.4166V13.3333M10.0013 13.3333L10.0013 3.33325M6.14547 9.47942L9.99951 13.331L13.8538 9.47942"
-                stroke="currentColor"
-                strokeWidth="1.5"
-                strokeLinecap="round"
-                strokeLinejoin="round"
-              />
-            </svg>
-          </Button>
-          <Link
-            href="/add-product"
-            className="bg-brand-500 shadow-sm hover inline-flex items-center justify-center gap-2 rounded-lg px-4 py-3 text-sm font-medium text-white transition hover:bg-brand-600"
-          >
-            <svg
-              xmlns="http://www.w3.org/2000/svg"
-              width="20"
-              height="20"
-              viewBox="0 0 20 20"
-              fill="none"
+              Categories
+            </button>
+          )}
+          {canEdit && (
+            <Link
+              href="/add-product"
+              className="bg-brand-500 shadow-sm hover inline-flex items-center justify-center gap-2 rounded-lg px-4 py-3 text-sm font-medium text-white transition hover:bg-brand-600"
             >
-              <path
-                d="M5 10.0002H15.0006M10.0002 5V15.0006"
-                stroke="currentColor"
-                strokeWidth="1.5"
-                strokeLinecap="round"
-                strokeLinejoin="round"
-              />
-            </svg>
-            Add Product
-          </Link>
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                width="20"
+                height="20"
+                viewBox="0 0 20 20"
+                fill="none"
+              >
+                <path
+                  d="M5 10.0002H15.0006M10.0002 5V15.0006"
+                  stroke="currentColor"
+                  strokeWidth="1.5"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                />
+              </svg>
+              Add Product
+            </Link>
+          )}
         </div>
       </div>
       <div className="border-b border-gray-200 px-5 py-4 dark:border-gray-800">
@@ -446,15 +251,32 @@ const ProductListTable: React.FC = () => {
             <input
               type="text"
               placeholder="Search..."
+              value={table.searchTerm}
+              onChange={(e) => table.setSearchTerm(e.target.value)}
               className="shadow-sm focus:border-brand-300 focus:ring-brand-500/10 dark:focus:border-brand-800 h-11 w-full rounded-lg border border-gray-300 bg-transparent py-2.5 pr-4 pl-11 text-sm text-gray-800 placeholder:text-gray-400 focus:ring-3 focus:outline-none sm:w-[300px] sm:min-w-[300px] dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:placeholder:text-white/30"
             />
           </div>
           <FilterDropdown
             showFilter={showFilter}
             setShowFilter={setShowFilter}
+            categories={categories}
+            filters={table.filters}
+            onApply={applyFilters}
           />
         </div>
       </div>
+      <BulkActionBar
+        resource="products"
+        noun={["product", "products"]}
+        selectedRows={table.selectedRows}
+        idOf={(product) => String(product.id)}
+        labelOf={(product) => product.name}
+        exportFile="products"
+        exportColumns={productExportColumns}
+        statuses={["Draft", "Published"]}
+        onChanged={table.reload}
+        onClear={() => table.setSelectedIds([])}
+      />
       <div className="overflow-x-auto custom-scrollbar">
         <table className="w-full">
           <thead>
@@ -464,17 +286,19 @@ const ProductListTable: React.FC = () => {
                   <input
                     type="checkbox"
                     className="sr-only"
-                    onChange={toggleAll}
-                    checked={isAllSelected()}
+                    onChange={table.toggleAllPageRows}
+                    checked={table.allPageRowsSelected}
                   />
                   <span
                     className={`flex h-4 w-4 items-center justify-center rounded-sm border-[1.25px] ${
-                      isAllSelected()
+                      table.allPageRowsSelected
                         ? "border-brand-500 bg-brand-500"
                         : "bg-transparent border-gray-300 dark:border-gray-700"
                     }`}
                   >
-                    <span className={isAllSelected() ? "" : "opacity-0"}>
+                    <span
+                      className={table.allPageRowsSelected ? "" : "opacity-0"}
+                    >
                       <svg
                         width="12"
                         height="12"
@@ -495,7 +319,7 @@ const ProductListTable: React.FC = () => {
                 </label>
               </th>
               <th
-                onClick={() => sortBy("name")}
+                onClick={() => table.toggleSort("name")}
                 className="cursor-pointer px-5 py-4 text-left text-xs font-medium text-gray-500 dark:text-gray-400"
               >
                 <div className="flex items-center gap-3">
@@ -505,7 +329,7 @@ const ProductListTable: React.FC = () => {
                   <span className="flex flex-col gap-0.5">
                     <svg
                       className={
-                        sort.key === "name" && sort.asc
+                        sortDirection("name") === "asc"
                           ? "text-gray-500 dark:text-gray-400"
                           : "text-gray-300 dark:text-gray-400/50"
                       }
@@ -522,7 +346,7 @@ const ProductListTable: React.FC = () => {
                     </svg>
                     <svg
                       className={
-                        sort.key === "name" && !sort.asc
+                        sortDirection("name") === "desc"
                           ? "text-gray-500 dark:text-gray-400"
                           : "text-gray-300 dark:text-gray-400/50"
                       }
@@ -541,7 +365,7 @@ const ProductListTable: React.FC = () => {
                 </div>
               </th>
               <th
-                onClick={() => sortBy("category")}
+                onClick={() => table.toggleSort("category")}
                 className="cursor-pointer px-5 py-4 text-left text-xs font-medium text-gray-500 dark:text-gray-400"
               >
                 <div className="flex items-center gap-3">
@@ -551,7 +375,7 @@ const ProductListTable: React.FC = () => {
                   <span className="flex flex-col gap-0.5">
                     <svg
                       className={
-                        sort.key === "category" && sort.asc
+                        sortDirection("category") === "asc"
                           ? "text-gray-500 dark:text-gray-400"
                           : "text-gray-300 dark:text-gray-400/50"
                       }
@@ -568,7 +392,7 @@ const ProductListTable: React.FC = () => {
                     </svg>
                     <svg
                       className={
-                        sort.key === "category" && !sort.asc
+                        sortDirection("category") === "desc"
                           ? "text-gray-500 dark:text-gray-400"
                           : "text-gray-300 dark:text-gray-400/50"
                       }
@@ -587,7 +411,7 @@ const ProductListTable: React.FC = () => {
                 </div>
               </th>
               <th
-                onClick={() => sortBy("brand")}
+                onClick={() => table.toggleSort("brand")}
                 className="cursor-pointer px-5 py-4 text-left text-xs font-medium text-gray-500 dark:text-gray-400"
               >
                 <div className="flex items-center gap-3">
@@ -597,7 +421,7 @@ const ProductListTable: React.FC = () => {
                   <span className="flex flex-col gap-0.5">
                     <svg
                       className={
-                        sort.key === "brand" && sort.asc
+                        sortDirection("brand") === "asc"
                           ? "text-gray-500 dark:text-gray-400"
                           : "text-gray-300 dark:text-gray-400/50"
                       }
@@ -614,7 +438,7 @@ const ProductListTable: React.FC = () => {
                     </svg>
                     <svg
                       className={
-                        sort.key === "brand" && !sort.asc
+                        sortDirection("brand") === "desc"
                           ? "text-gray-500 dark:text-gray-400"
                           : "text-gray-300 dark:text-gray-400/50"
                       }
@@ -633,7 +457,7 @@ const ProductListTable: React.FC = () => {
                 </div>
               </th>
               <th
-                onClick={() => sortBy("price")}
+                onClick={() => table.toggleSort("price")}
                 className="cursor-pointer px-5 py-4 text-left text-xs font-medium text-gray-500 dark:text-gray-400"
               >
                 <div className="flex items-center gap-3">
@@ -643,7 +467,7 @@ const ProductListTable: React.FC = () => {
                   <span className="flex flex-col gap-0.5">
                     <svg
                       className={
-                        sort.key === "price" && sort.asc
+                        sortDirection("price") === "asc"
                           ? "text-gray-500 dark:text-gray-400"
                           : "text-gray-300"
                       }
@@ -660,7 +484,7 @@ const ProductListTable: React.FC = () => {
                     </svg>
                     <svg
                       className={
-                        sort.key === "price" && !sort.asc
+                        sortDirection("price") === "desc"
                           ? "text-gray-500 dark:text-gray-400"
                           : "text-gray-300"
                       }
@@ -692,7 +516,7 @@ const ProductListTable: React.FC = () => {
             </tr>
           </thead>
           <tbody className="divide-x divide-y divide-gray-200 dark:divide-gray-800">
-            {paginatedProducts().map((product) => (
+            {table.pageRows.map((product) => (
               <tr
                 key={product.id}
                 className="transition hover:bg-gray-50 dark:hover:bg-gray-900"
@@ -702,20 +526,18 @@ const ProductListTable: React.FC = () => {
                     <input
                       type="checkbox"
                       className="sr-only"
-                      checked={selected.includes(product.id)}
-                      onChange={() => toggleSelect(product.id)}
+                      checked={table.isSelected(product)}
+                      onChange={() => table.toggleRow(product)}
                     />
                     <span
                       className={`flex h-4 w-4 items-center justify-center rounded-sm border-[1.25px] ${
-                        selected.includes(product.id)
+                        table.isSelected(product)
                           ? "border-brand-500 bg-brand-500"
                           : "bg-transparent border-gray-300 dark:border-gray-700"
                       }`}
                     >
                       <span
-                        className={
-                          selected.includes(product.id) ? "" : "opacity-0"
-                        }
+                        className={table.isSelected(product) ? "" : "opacity-0"}
                       >
                         <svg
                           width="12"
@@ -739,17 +561,25 @@ const ProductListTable: React.FC = () => {
                 <td className="px-5 py-4 whitespace-nowrap">
                   <div className="flex items-center gap-3">
                     <div className="h-12 w-12">
-                      <Image
-                        width={48}
-                        height={48}
-                        src={product.image}
+                      <ProductImage
+                        src={product.images[0]}
+                        name={product.name}
+                        size={48}
                         className="h-12 w-12 rounded-md"
-                        alt=""
                       />
                     </div>
-                    <span className="text-sm font-medium text-gray-700 dark:text-gray-400">
-                      {product.name}
-                    </span>
+                    <div>
+                      <Link
+                        href={`/products-list/${product.id}`}
+                        className="text-sm font-medium text-gray-700 hover:underline dark:text-gray-400"
+                      >
+                        {product.name}
+                      </Link>
+                      <p className="text-theme-xs text-gray-500 dark:text-gray-400">
+                        {product.sku}
+                        {product.status === "Draft" && " · Draft"}
+                      </p>
+                    </div>
                   </div>
                 </td>
                 <td className="px-5 py-4 whitespace-nowrap">
@@ -764,28 +594,48 @@ const ProductListTable: React.FC = () => {
                 </td>
                 <td className="px-5 py-4 whitespace-nowrap">
                   <p className="text-sm text-gray-700 dark:text-gray-400">
-                    {product.price}
+                    {formatMoney(product.price, { trimZeroCents: true })}
                   </p>
                 </td>
                 <td className="px-5 py-4 whitespace-nowrap">
-                  <span
-                    className={`text-xs rounded-full px-2 py-0.5 font-medium ${
-                      product.stock === "In Stock"
-                        ? "bg-green-50 dark:bg-green-500/15 text-green-700 dark:text-green-500"
-                        : "bg-red-50 dark:bg-red-500/15 text-red-700 dark:text-red-500"
-                    }`}
-                  >
-                    {product.stock}
-                  </span>
+                  <div className="flex items-center gap-2">
+                    <StockBadge status={stockStatus(product)} />
+                    <span className="text-theme-xs text-gray-500 dark:text-gray-400">
+                      {product.stock}
+                    </span>
+                  </div>
                 </td>
                 <td className="px-5 py-4 whitespace-nowrap">
                   <p className="text-sm text-gray-700 dark:text-gray-400">
                     {product.createdAt}
                   </p>
                 </td>
-                <td className="px-5 py-4 whitespace-nowrap"></td>
+                <td className="px-5 py-4 whitespace-nowrap">
+                  {canEdit && (
+                    <Link
+                      href={`/edit-product/${product.id}`}
+                      className="text-sm font-medium text-brand-500 hover:text-brand-600"
+                    >
+                      Edit
+                    </Link>
+                  )}
+                </td>
               </tr>
             ))}
+            {table.pageRows.length === 0 && (
+              <tr>
+                <td
+                  colSpan={8}
+                  className="px-5 py-10 text-center text-sm text-gray-500 dark:text-gray-400"
+                >
+                  {table.status === "loading"
+                    ? "Loading products..."
+                    : table.status === "error"
+                    ? table.error?.message
+                    : "No products match your search."}
+                </td>
+              </tr>
+            )}
           </tbody>
         </table>
       </div>
@@ -794,22 +644,22 @@ const ProductListTable: React.FC = () => {
           <span className="block text-sm font-medium text-gray-500 dark:text-gray-400">
             Showing{" "}
             <span className="text-gray-800 dark:text-white/90">
-              {startItem()}
+              {table.totalItems === 0 ? 0 : table.startIndex + 1}
             </span>{" "}
             to{" "}
             <span className="text-gray-800 dark:text-white/90">
-              {endItem()}
+              {table.endIndex}
             </span>{" "}
             of{" "}
             <span className="text-gray-800 dark:text-white/90">
-              {products.length}
+              {table.totalItems}
             </span>
           </span>
         </div>
         <div className="flex w-full items-center justify-between gap-2 rounded-lg bg-gray-50 p-4 sm:w-auto sm:justify-normal sm:rounded-none sm:bg-transparent sm:p-0 dark:bg-gray-900 dark:sm:bg-transparent">
           <button
-            onClick={prevPage}
-            disabled={page === 1}
+            onClick={() => table.goToPage(table.currentPage - 1)}
+            disabled={table.currentPage === 1}
             className="shadow-sm flex items-center gap-2 rounded-lg border border-gray-300 bg-white p-2 text-gray-700 hover:bg-gray-50 hover:text-gray-800 disabled:cursor-not-allowed disabled:opacity-50 sm:p-2.5 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-400 dark:hover:bg-white/5 dark:hover:text-gray-200"
           >
             <span>
@@ -830,31 +680,34 @@ const ProductListTable: React.FC = () => {
             </span>
           </button>
           <span className="block text-sm font-medium text-gray-700 sm:hidden dark:text-gray-400">
-            Page <span>{page}</span> of <span>{totalPages()}</span>
+            Page <span>{table.currentPage}</span> of{" "}
+            <span>{table.totalPages}</span>
           </span>
           <ul className="hidden items-center gap-0.5 sm:flex">
-            {Array.from({ length: totalPages() }, (_, i) => i + 1).map((n) => (
-              <li key={n}>
-                <a
-                  href="#"
-                  onClick={(e) => {
-                    e.preventDefault();
-                    goToPage(n);
-                  }}
-                  className={`flex h-10 w-10 items-center justify-center rounded-lg text-sm font-medium ${
-                    page === n
-                      ? "bg-brand-500 text-white"
-                      : "text-gray-700 dark:text-gray-400 hover:bg-brand-500 hover:text-white dark:hover:text-white"
-                  }`}
-                >
-                  <span>{n}</span>
-                </a>
-              </li>
-            ))}
+            {Array.from({ length: table.totalPages }, (_, i) => i + 1).map(
+              (n) => (
+                <li key={n}>
+                  <a
+                    href="#"
+                    onClick={(e) => {
+                      e.preventDefault();
+                      table.goToPage(n);
+                    }}
+                    className={`flex h-10 w-10 items-center justify-center rounded-lg text-sm font-medium ${
+                      table.currentPage === n
+                        ? "bg-brand-500 text-white"
+                        : "text-gray-700 dark:text-gray-400 hover:bg-brand-500 hover:text-white dark:hover:text-white"
+                    }`}
+                  >
+                    <span>{n}</span>
+                  </a>
+                </li>
+              )
+            )}
           </ul>
           <button
-            onClick={nextPage}
-            disabled={page === totalPages()}
+            onClick={() => table.goToPage(table.currentPage + 1)}
+            disabled={table.currentPage === table.totalPages}
             className="shadow-sm flex items-center gap-2 rounded-lg border border-gray-300 bg-white p-2 text-gray-700 hover:bg-gray-50 hover:text-gray-800 disabled:cursor-not-allowed disabled:opacity-50 sm:p-2.5 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-400 dark:hover:bg-white/5 dark:hover:text-gray-200"
           >
             <span>
@@ -876,6 +729,11 @@ const ProductListTable: React.FC = () => {
           </button>
         </div>
       </div>
+      <ProductCategoriesModal
+        isOpen={showCategories}
+        onClose={() => setShowCategories(false)}
+        categories={categories}
+      />
     </div>
   );
 };
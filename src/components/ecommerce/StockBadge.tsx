@@ -0,0 +1,20 @@
+import type { StockStatus } from "@/lib/mock-data/products";
+import React from "react";
+
+const statusClasses: Record<StockStatus, string> = {
+  "In Stock":
+    "bg-green-50 dark:bg-green-500/15 text-green-700 dark:text-green-500",
+  "Low Stock":
+    "bg-warning-50 dark:bg-warning-500/15 text-warning-600 dark:text-orange-400",
+  "Out of Stock": "bg-red-50 dark:bg-red-500/15 text-red-700 dark:text-red-500",
+};
+
+export default function StockBadge({ status }: { status: StockStatus }) {
+  return (
+    <span
+      className={`text-xs rounded-full px-2 py-0.5 font-medium ${statusClasses[status]}`}
+    >
+      {status}
+    </span>
+  );
+}
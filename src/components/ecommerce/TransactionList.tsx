@@ -1,303 +1,65 @@
 "use client";
-import React, { useMemo } from "react";
+import React from "react";
 import TableDropdown from "../common/TableDropdown";
 import Link from "next/link";
+import ExportMenu from "../common/ExportMenu";
+import BulkActionBar from "../common/BulkActionBar";
+import {
+  createRemoteDataSource,
+  useDataTable,
+  type ColumnDef,
+} from "../tables/DataTables/DataTable";
+import type { ExportColumn } from "@/lib/export";
+import {
+  transactionColumns,
+  type TransactionListRow,
+} from "@/lib/mock-data/transactions";
+import { formatMoney, fromMinorUnits, type ExchangeRates } from "@/lib/money";
 
-interface Transaction {
-  id: number;
-  orderId: string;
-  customer: string;
-  email: string;
-  amount: number;
-  amountDisplay: string;
-  status: "Completed" | "Pending" | "Failed";
-  dueDate: string;
-}
+// Searched, sorted and paged by /api/transactions
+const transactionSource =
+  createRemoteDataSource<TransactionListRow>("/api/transactions");
 
-interface SortState {
-  key: "customer" | "email" | "amount";
-  asc: boolean;
-}
+// The headers are part of the table markup below
+const columns: ColumnDef<TransactionListRow>[] = transactionColumns.map(
+  (column) => ({ ...column, header: column.id })
+);
 
-const initialTransactions: Transaction[] = [
-  {
-    id: 1,
-    orderId: "#323534",
-    customer: "Lindsey Curtis",
-    email: "lindsey@example.com",
-    amount: 699,
-    amountDisplay: "$699",
-    status: "Completed",
-    dueDate: "12 Feb, 2027",
-  },
-  {
-    id: 2,
-    orderId: "#323535",
-    customer: "Kaiya George",
-    email: "kaiya@example.com",
-    amount: 1579,
-    amountDisplay: "$1,579",
-    status: "Failed",
-    dueDate: "13 Mar, 2027",
-  },
-  {
-    id: 3,
-    orderId: "#323536",
-    customer: "Zain Geidt",
-    email: "zain787@example.com",
-    amount: 1039,
-    amountDisplay: "$1,039",
-    status: "Pending",
-    dueDate: "19 Mar, 2027",
-  },
-  {
-    id: 4,
-    orderId: "#323537",
-    customer: "Abram Schleifer",
-    email: "abram@example.com",
-    amount: 43999,
-    amountDisplay: "$43,999",
-    status: "Completed",
-    dueDate: "25 Apr, 2027",
-  },
+const transactionExportColumns: ExportColumn<TransactionListRow>[] = [
+  { header: "Order ID", value: (row) => row.orderId },
+  { header: "Customer", value: (row) => row.customer },
+  { header: "Email", value: (row) => row.email },
+  { header: "Currency", value: (row) => row.currency },
   {
-    id: 5,
-    orderId: "#323538",
-    customer: "Carla George",
-    email: "carla65@example.com",
-    amount: 919,
-    amountDisplay: "$919",
-    status: "Completed",
-    dueDate: "11 May, 2027",
+    header: "Total",
+    value: (row) => fromMinorUnits(row.amount),
   },
   {
-    id: 6,
-    orderId: "#323539",
-    customer: "Emery Culhane",
-    email: "emery09@example.com",
-    amount: 839,
-    amountDisplay: "$839",
-    status: "Completed",
-    dueDate: "29 Jun, 2027",
-  },
-  {
-    id: 7,
-    orderId: "#323540",
-    customer: "Livia Donin",
-    email: "livia343@example.com",
-    amount: 1769,
-    amountDisplay: "$1,769",
-    status: "Failed",
-    dueDate: "22 Jul, 2027",
-  },
-  {
-    id: 8,
-    orderId: "#323541",
-    customer: "Miracle Bator",
-    email: "miracle@example.com",
-    amount: 7349,
-    amountDisplay: "$7,349",
-    status: "Completed",
-    dueDate: "05 Aug, 2027",
-  },
-  {
-    id: 9,
-    orderId: "#323542",
-    customer: "Lincoln Herwitz",
-    email: "lincoln@example.com",
-    amount: 849,
-    amountDisplay: "$849",
-    status: "Completed",
-    dueDate: "09 Sep, 2027",
-  },
-  {
-    id: 10,
-    orderId: "#323543",
-    customer: "Ekstrom Bothman",
-    email: "ekstrom@example.com",
-    amount: 679,
-    amountDisplay: "$679",
-    status: "Completed",
-    dueDate: "15 Nov, 2027",
-  },
-  {
-    id: 11,
-    orderId: "#323544",
-    customer: "Ava Smith",
-    email: "ava.smith@example.com",
-    amount: 1200,
-    amountDisplay: "$1,200",
-    status: "Pending",
-    dueDate: "01 Dec, 2027",
-  },
-  {
-    id: 12,
-    orderId: "#323545",
-    customer: "Noah Lee",
-    email: "noah.lee@example.com",
-    amount: 540,
-    amountDisplay: "$540",
-    status: "Failed",
-    dueDate: "15 Dec, 2027",
-  },
-  {
-    id: 13,
-    orderId: "#323546",
-    customer: "Mia Chen",
-    email: "mia.chen@example.com",
-    amount: 3200,
-    amountDisplay: "$3,200",
-    status: "Completed",
-    dueDate: "22 Dec, 2027",
-  },
-  {
-    id: 14,
-    orderId: "#323547",
-    customer: "Ethan Patel",
-    email: "ethan.patel@example.com",
-    amount: 2100,
-    amountDisplay: "$2,100",
-    status: "Pending",
-    dueDate: "05 Jan, 2028",
-  },
-  {
-    id: 15,
-    orderId: "#323548",
-    customer: "Sophia Kim",
-    email: "sophia.kim@example.com",
-    amount: 980,
-    amountDisplay: "$980",
-    status: "Completed",
-    dueDate: "18 Jan, 2028",
-  },
-  {
-    id: 16,
-    orderId: "#323549",
-    customer: "Liam Brown",
-    email: "liam.brown@example.com",
-    amount: 450,
-    amountDisplay: "$450",
-    status: "Failed",
-    dueDate: "28 Jan, 2028",
-  },
-  {
-    id: 17,
-    orderId: "#323550",
-    customer: "Olivia Wilson",
-    email: "olivia.wilson@example.com",
-    amount: 1750,
-    amountDisplay: "$1,750",
-    status: "Pending",
-    dueDate: "10 Feb, 2028",
-  },
-  {
-    id: 18,
-    orderId: "#323551",
-    customer: "Mason Clark",
-    email: "mason.clark@example.com",
-    amount: 600,
-    amountDisplay: "$600",
-    status: "Completed",
-    dueDate: "20 Feb, 2028",
-  },
-  {
-    id: 19,
-    orderId: "#323552",
-    customer: "Ella Davis",
-    email: "ella.davis@example.com",
-    amount: 210,
-    amountDisplay: "$210",
-    status: "Failed",
-    dueDate: "01 Mar, 2028",
-  },
-  {
-    id: 20,
-    orderId: "#323553",
-    customer: "James Martinez",
-    email: "james.martinez@example.com",
-    amount: 3300,
-    amountDisplay: "$3,300",
-    status: "Completed",
-    dueDate: "15 Mar, 2028",
+    header: "Reporting Total",
+    value: (row) => fromMinorUnits(row.reportingAmount),
   },
+  { header: "Due Date", value: (row) => row.dueDate },
+  { header: "Status", value: (row) => row.status },
+  { header: "Tags", value: (row) => row.tags.join(", ") },
 ];
 
-const TransactionList: React.FC = () => {
-  const [transactions] = React.useState<Transaction[]>(initialTransactions);
-  const [selected, setSelected] = React.useState<number[]>([]);
-  const [sort, setSort] = React.useState<SortState>({
-    key: "customer",
-    asc: true,
+interface TransactionListProps {
+  rates: ExchangeRates;
+}
+
+const TransactionList: React.FC<TransactionListProps> = ({ rates }) => {
+  const table = useDataTable({
+    columns,
+    getRowId: (row) => row.id,
+    dataSource: transactionSource,
+    initialSort: [{ columnId: "customer", direction: "asc" }],
   });
-  const [page, setPage] = React.useState<number>(1);
-  const [search, setSearch] = React.useState<string>("");
   const [filterDays, setFilterDays] = React.useState<string>("Last 7 Days");
-  const perPage: number = 10;
-
-  const totalPages: number = Math.ceil(transactions.length / perPage) || 1;
-  const startEntry: number =
-    transactions.length === 0 ? 0 : (page - 1) * perPage + 1;
-  const endEntry: number = Math.min(page * perPage, transactions.length);
-
-  const sortedRows: Transaction[] = React.useMemo(() => {
-    return [...transactions].sort((a, b) => {
-      let valA = a[sort.key];
-      let valB = b[sort.key];
-      if (typeof valA === "string") valA = valA.toLowerCase();
-      if (typeof valB === "string") valB = valB.toLowerCase();
-      if (valA < valB) return sort.asc ? -1 : 1;
-      if (valA > valB) return sort.asc ? 1 : -1;
-      return 0;
-    });
-  }, [transactions, sort]);
-
-  const filteredRows: Transaction[] = useMemo(() => {
-    return sortedRows.filter(
-      (row) =>
-        row.orderId.toLowerCase().includes(search.toLowerCase()) ||
-        row.customer.toLowerCase().includes(search.toLowerCase()) ||
-        row.email.toLowerCase().includes(search.toLowerCase())
-    );
-  }, [sortedRows, search]);
-
-  const paginatedRows: Transaction[] = filteredRows.slice(
-    (page - 1) * perPage,
-    page * perPage
-  );
-
-  const toggleSelectAll = (): void => {
-    if (selected.length === paginatedRows.length) {
-      setSelected([]);
-    } else {
-      setSelected(paginatedRows.map((row) => row.id));
-    }
-  };
+  const { currentPage: page, totalPages, goToPage } = table;
+  const startEntry = table.totalItems === 0 ? 0 : table.startIndex + 1;
 
-  const updateSelectAll = (): void => {
-    const allSelected = paginatedRows.every((row) => selected.includes(row.id));
-    if (allSelected && selected.length !== paginatedRows.length) {
-      setSelected(paginatedRows.map((row) => row.id));
-    }
-  };
-
-  const toggleRow = (id: number): void => {
-    setSelected((prev) =>
-      prev.includes(id) ? prev.filter((i) => i !== id) : [...prev, id]
-    );
-    updateSelectAll();
-  };
-
-  const sortBy = (key: "customer" | "email" | "amount"): void => {
-    setSort((prev) => ({
-      key,
-      asc: prev.key === key ? !prev.asc : true,
-    }));
-    setPage(1);
-  };
-
-  const goToPage = (n: number): void => {
-    if (n >= 1 && n <= totalPages) setPage(n);
-  };
+  const sortDirection = (columnId: string) =>
+    table.sortRules.find((rule) => rule.columnId === columnId)?.direction;
 
   const handleViewMore = () => {
     //logic will be there
@@ -342,9 +104,9 @@ const TransactionList: React.FC = () => {
                 type="text"
                 placeholder="Search..."
                 className="shadow-theme-xs focus:border-brand-300 focus:ring-brand-500/10 dark:focus:border-brand-800 h-11 w-full rounded-lg border border-gray-300 bg-transparent py-2.5 pr-4 pl-11 text-sm text-gray-800 placeholder:text-gray-400 focus:ring-3 focus:outline-hidden xl:w-[300px] dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:placeholder:text-white/30"
-                value={search}
+                value={table.searchTerm}
                 onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                  setSearch(e.target.value)
+                  table.setSearchTerm(e.target.value)
                 }
               />
             </div>
@@ -363,28 +125,28 @@ const TransactionList: React.FC = () => {
               </select>
             </div>
             <div>
-              <button className="shadow-theme-xs flex h-11 items-center justify-center gap-2 rounded-lg border border-gray-300 bg-white px-4 py-3 text-gray-700 hover:bg-gray-100 hover:text-gray-700 dark:border-gray-800 dark:bg-gray-900 dark:text-gray-400 dark:hover:bg-gray-800 dark:hover:text-white">
-                <svg
-                  xmlns="http://www.w3.org/2000/svg"
-                  width="20"
-                  height="20"
-                  viewBox="0 0 20 20"
-                  fill="none"
-                >
-                  <path
-                    d="M16.6661 13.3333V15.4166C16.6661 16.1069 16.1064 16.6666 15.4161 16.6666H4.58203C3.89168 16.6666 3.33203 16.1069 3.33203 15.4166V13.3333M10.0004 3.33325L10.0004 13.3333M6.14456 7.18708L9.9986 3.33549L13.8529 7.18708"
-                    stroke="currentColor"
-                    strokeWidth="1.5"
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                  />
-                </svg>
-                Export CSV
-              </button>
+              <ExportMenu
+                fileName="transactions"
+                columns={transactionExportColumns}
+                rows={table.fetchAllRows}
+                selectedRows={table.selectedRows}
+              />
             </div>
           </div>
         </div>
       </div>
+      <BulkActionBar
+        resource="orders"
+        noun={["order", "orders"]}
+        selectedRows={table.selectedRows}
+        idOf={(row) => String(row.id)}
+        labelOf={(row) => row.orderId}
+        exportFile="transactions"
+        exportColumns={transactionExportColumns}
+        statuses={["Processing", "Shipped", "Delivered", "Canceled"]}
+        onChanged={table.reload}
+        onClear={() => table.setSelectedIds([])}
+      />
       <div className="custom-scrollbar overflow-x-auto">
         <table className="w-full table-auto">
           <thead>
@@ -396,21 +158,19 @@ const TransactionList: React.FC = () => {
                       <input
                         type="checkbox"
                         className="sr-only"
-                        checked={selected.length === paginatedRows.length}
-                        onChange={toggleSelectAll}
+                        checked={table.allPageRowsSelected}
+                        onChange={table.toggleAllPageRows}
                       />
                       <span
                         className={`flex h-4 w-4 items-center justify-center rounded-sm border-[1.25px] ${
-                          selected.length === paginatedRows.length
+                          table.allPageRowsSelected
                             ? "border-brand-500 bg-brand-500"
                             : "bg-transparent border-gray-300 dark:border-gray-700"
                         }`}
                       >
                         <span
                           className={
-                            selected.length === paginatedRows.length
-                              ? ""
-                              : "opacity-0"
+                            table.allPageRowsSelected ? "" : "opacity-0"
                           }
                         >
                           <svg
@@ -440,7 +200,7 @@ const TransactionList: React.FC = () => {
               <th className="p-4 text-left text-xs font-medium text-gray-500 dark:text-gray-400">
                 <div
                   className="flex cursor-pointer items-center gap-3"
-                  onClick={() => sortBy("customer")}
+                  onClick={() => table.toggleSort("customer")}
                 >
                   <p className="text-theme-xs font-medium text-gray-500 dark:text-gray-400">
                     Customer
@@ -448,7 +208,7 @@ const TransactionList: React.FC = () => {
                   <span className="flex flex-col gap-0.5">
                     <svg
                       className={
-                        sort.key === "customer" && sort.asc
+                        sortDirection("customer") === "asc"
                           ? "text-gray-800 dark:text-gray-400"
                           : "text-gray-300"
                       }
@@ -465,7 +225,7 @@ const TransactionList: React.FC = () => {
                     </svg>
                     <svg
                       className={
-                        sort.key === "customer" && !sort.asc
+                        sortDirection("customer") === "desc"
                           ? "text-gray-800 dark:text-gray-400"
                           : "text-gray-300"
                       }
@@ -486,7 +246,7 @@ const TransactionList: React.FC = () => {
               <th className="p-4 text-left text-xs font-medium text-gray-500 dark:text-gray-400">
                 <div
                   className="flex cursor-pointer items-center gap-3"
-                  onClick={() => sortBy("email")}
+                  onClick={() => table.toggleSort("email")}
                 >
                   <p className="text-theme-xs font-medium text-gray-500 dark:text-gray-400">
                     Email
@@ -494,7 +254,7 @@ const TransactionList: React.FC = () => {
                   <span className="flex flex-col gap-0.5">
                     <svg
                       className={
-                        sort.key === "email" && sort.asc
+                        sortDirection("email") === "asc"
                           ? "text-gray-800 dark:text-gray-400"
                           : "text-gray-300"
                       }
@@ -511,7 +271,7 @@ const TransactionList: React.FC = () => {
                     </svg>
                     <svg
                       className={
-                        sort.key === "email" && !sort.asc
+                        sortDirection("email") === "desc"
                           ? "text-gray-800 dark:text-gray-400"
                           : "text-gray-300"
                       }
@@ -532,7 +292,7 @@ const TransactionList: React.FC = () => {
               <th className="p-4 text-left text-xs font-medium text-gray-500 dark:text-gray-400">
                 <div
                   className="flex cursor-pointer items-center gap-3"
-                  onClick={() => sortBy("amount")}
+                  onClick={() => table.toggleSort("amount")}
                 >
                   <p className="text-theme-xs font-medium text-gray-500 dark:text-gray-400">
                     Total Amount
@@ -540,7 +300,7 @@ const TransactionList: React.FC = () => {
                   <span className="flex flex-col gap-0.5">
                     <svg
                       className={
-                        sort.key === "amount" && sort.asc
+                        sortDirection("amount") === "asc"
                           ? "text-gray-800 dark:text-gray-400"
                           : "text-gray-300"
                       }
@@ -557,7 +317,7 @@ const TransactionList: React.FC = () => {
                     </svg>
                     <svg
                       className={
-                        sort.key === "amount" && !sort.asc
+                        sortDirection("amount") === "desc"
                           ? "text-gray-800 dark:text-gray-400"
                           : "text-gray-300"
                       }
@@ -589,7 +349,7 @@ const TransactionList: React.FC = () => {
             </tr>
           </thead>
           <tbody className="divide-x divide-y divide-gray-200 dark:divide-gray-800">
-            {paginatedRows.map((row: Transaction) => (
+            {table.pageRows.map((row) => (
               <tr
                 key={row.id}
                 className="transition hover:bg-gray-50 dark:hover:bg-gray-900"
@@ -601,20 +361,18 @@ const TransactionList: React.FC = () => {
                         <input
                           type="checkbox"
                           className="sr-only"
-                          checked={selected.includes(row.id)}
-                          onChange={() => toggleRow(row.id)}
+                          checked={table.isSelected(row)}
+                          onChange={() => table.toggleRow(row)}
                         />
                         <span
                           className={`flex h-4 w-4 items-center justify-center rounded-sm border-[1.25px] ${
-                            selected.includes(row.id)
+                            table.isSelected(row)
                               ? "border-brand-500 bg-brand-500"
                               : "bg-transparent border-gray-300 dark:border-gray-700"
                           }`}
                         >
                           <span
-                            className={
-                              selected.includes(row.id) ? "" : "opacity-0"
-                            }
+                            className={table.isSelected(row) ? "" : "opacity-0"}
                           >
                             <svg
                               width="12"
@@ -636,7 +394,7 @@ const TransactionList: React.FC = () => {
                       </span>
                     </label>
                     <Link
-                      href="/single-transaction"
+                      href={`/transactions/${row.id}`}
                       className="text-theme-xs font-medium text-gray-700 group-hover:underline dark:text-gray-400"
                     >
                       {row.orderId}
@@ -647,6 +405,18 @@ const TransactionList: React.FC = () => {
                   <span className="text-sm font-medium text-gray-700 dark:text-gray-400">
                     {row.customer}
                   </span>
+                  {row.tags.length > 0 && (
+                    <div className="mt-1 flex flex-wrap gap-1">
+                      {row.tags.map((tag) => (
+                        <span
+                          key={tag}
+                          className="text-theme-xs rounded-full bg-gray-100 px-2 py-0.5 text-gray-600 dark:bg-white/5 dark:text-gray-400"
+                        >
+                          {tag}
+                        </span>
+                      ))}
+                    </div>
+                  )}
                 </td>
                 <td className="p-4 whitespace-nowrap">
                   <p className="text-sm text-gray-500 dark:text-gray-400">
@@ -655,8 +425,16 @@ const TransactionList: React.FC = () => {
                 </td>
                 <td className="p-4 whitespace-nowrap">
                   <p className="text-sm text-gray-700 dark:text-gray-400">
-                    {row.amountDisplay}
+                    {formatMoney(row.amount, { trimZeroCents: true })}
                   </p>
+                  {row.currency !== rates.reportingCurrency && (
+                    <p className="text-theme-xs text-gray-500 dark:text-gray-500">
+                      ≈{" "}
+                      {formatMoney(row.reportingAmount, {
+                        trimZeroCents: true,
+                      })}
+                    </p>
+                  )}
                 </td>
                 <td className="p-4 whitespace-nowrap">
                   <p className="text-sm text-gray-700 dark:text-gray-400">
@@ -670,6 +448,8 @@ const TransactionList: React.FC = () => {
                         ? "bg-success-50 text-success-700 dark:bg-success-500/15 dark:text-success-500"
                         : row.status === "Pending"
                         ? "bg-warning-50 text-warning-700 dark:bg-warning-500/15 dark:text-warning-500"
+                        : row.status === "Refunded"
+                        ? "bg-gray-100 text-gray-700 dark:bg-white/5 dark:text-white/80"
                         : "bg-red-50 text-red-700 dark:bg-red-500/15 dark:text-red-500"
                     }`}
                   >
@@ -719,6 +499,20 @@ const TransactionList: React.FC = () => {
                 </td>
               </tr>
             ))}
+            {table.pageRows.length === 0 && (
+              <tr>
+                <td
+                  colSpan={7}
+                  className="px-5 py-10 text-center text-sm text-gray-500 dark:text-gray-400"
+                >
+                  {table.status === "loading"
+                    ? "Loading transactions..."
+                    : table.status === "error"
+                    ? table.error?.message
+                    : "No transactions match your search."}
+                </td>
+              </tr>
+            )}
           </tbody>
         </table>
       </div>
@@ -730,10 +524,12 @@ const TransactionList: React.FC = () => {
               {startEntry}
             </span>{" "}
             to{" "}
-            <span className="text-gray-800 dark:text-white/90">{endEntry}</span>{" "}
+            <span className="text-gray-800 dark:text-white/90">
+              {table.endIndex}
+            </span>{" "}
             of{" "}
             <span className="text-gray-800 dark:text-white/90">
-              {filteredRows.length}
+              {table.totalItems}
             </span>
           </span>
         </div>
@@ -746,11 +542,11 @@ const TransactionList: React.FC = () => {
               </span>{" "}
               to{" "}
               <span className="text-gray-800 dark:text-white/90">
-                {endEntry}
+                {table.endIndex}
               </span>{" "}
               of{" "}
               <span className="text-gray-800 dark:text-white/90">
-                {filteredRows.length}
+                {table.totalItems}
               </span>
             </span>
           </div>
@@ -760,7 +556,7 @@ const TransactionList: React.FC = () => {
                 page === 1 ? "opacity-50 cursor-not-allowed" : ""
               }`}
               disabled={page === 1}
-              onClick={() => page > 1 && setPage(page - 1)}
+              onClick={() => goToPage(page - 1)}
             >
               <svg
                 className="fill-current"
@@ -802,7 +598,7 @@ const TransactionList: React.FC = () => {
                 page === totalPages ? "opacity-50 cursor-not-allowed" : ""
               }`}
               disabled={page === totalPages}
-              onClick={() => page < totalPages && setPage(page + 1)}
+              onClick={() => goToPage(page + 1)}
             >
               <svg
                 className="fill-current"
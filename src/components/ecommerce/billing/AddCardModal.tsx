@@ -0,0 +1,147 @@
+"use client";
+import { useState } from "react";
+import { Modal } from "../../ui/modal";
+import type { CardInput } from "./billingApi";
+
+interface AddCardModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  busy: boolean;
+  error: string | null;
+  onSubmit: (card: CardInput) => void;
+}
+
+const INPUT_CLASSES =
+  "dark:bg-dark-900 shadow-theme-xs focus:border-brand-300 focus:ring-brand-500/10 dark:focus:border-brand-800 h-11 w-full rounded-lg border border-gray-300 bg-transparent px-4 py-2.5 text-sm text-gray-800 placeholder:text-gray-400 focus:ring-3 focus:outline-hidden dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:placeholder:text-white/30";
+
+// "4242424242424242" as "4242 4242 4242 4242" while typing
+const groupDigits = (value: string) =>
+  value
+    .replace(/\D/g, "")
+    .slice(0, 19)
+    .replace(/(\d{4})(?=\d)/g, "$1 ");
+
+// "0129" as "01/29"
+const formatExpiry = (value: string) => {
+  const digits = value.replace(/\D/g, "").slice(0, 4);
+  return digits.length > 2
+    ? `${digits.slice(0, 2)}/${digits.slice(2)}`
+    : digits;
+};
+
+export default function AddCardModal({
+  isOpen,
+  onClose,
+  busy,
+  error,
+  onSubmit,
+}: AddCardModalProps) {
+  const [card, setCard] = useState<CardInput>({
+    holder: "",
+    number: "",
+    expiry: "",
+    cvc: "",
+  });
+
+  const set = (key: keyof CardInput, value: string) =>
+    setCard((current) => ({ ...current, [key]: value }));
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      className="relative w-full max-w-[558px] m-5 sm:m-0 rounded-3xl bg-white p-6 lg:p-10 dark:bg-gray-900"
+    >
+      <h4 className="mb-2 text-2xl font-semibold text-gray-800 dark:text-white/90">
+        Add New Card
+      </h4>
+      <p className="mb-6 text-sm text-gray-500 dark:text-gray-400">
+        The card details go straight to the payment provider; only a reference
+        to the card is saved here.
+      </p>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          onSubmit(card);
+        }}
+      >
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <div className="sm:col-span-full">
+            <label className="mb-1.5 block text-sm font-medium text-gray-700 dark:text-gray-400">
+              Name on Card
+            </label>
+            <input
+              type="text"
+              autoComplete="cc-name"
+              value={card.holder}
+              onChange={(e) => set("holder", e.target.value)}
+              className={INPUT_CLASSES}
+            />
+          </div>
+          <div className="sm:col-span-full">
+            <label className="mb-1.5 block text-sm font-medium text-gray-700 dark:text-gray-400">
+              Card Number
+            </label>
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="cc-number"
+              placeholder="1234 1234 1234 1234"
+              value={card.number}
+              onChange={(e) => set("number", groupDigits(e.target.value))}
+              className={INPUT_CLASSES}
+            />
+          </div>
+          <div>
+            <label className="mb-1.5 block text-sm font-medium text-gray-700 dark:text-gray-400">
+              Expiry
+            </label>
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="cc-exp"
+              placeholder="MM/YY"
+              value={card.expiry}
+              onChange={(e) => set("expiry", formatExpiry(e.target.value))}
+              className={INPUT_CLASSES}
+            />
+          </div>
+          <div>
+            <label className="mb-1.5 block text-sm font-medium text-gray-700 dark:text-gray-400">
+              CVC
+            </label>
+            <input
+              type="password"
+              inputMode="numeric"
+              autoComplete="cc-csc"
+              maxLength={4}
+              value={card.cvc}
+              onChange={(e) => set("cvc", e.target.value.replace(/\D/g, ""))}
+              className={INPUT_CLASSES}
+            />
+          </div>
+        </div>
+
+        {error && <p className="mt-4 text-sm text-error-500">{error}</p>}
+
+        <div className="mt-8 flex w-full items-center justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="shadow-theme-xs flex justify-center rounded-lg border border-gray-300 bg-white px-4 py-3 text-sm font-medium text-gray-700 hover:bg-gray-50 hover:text-gray-800 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-400 dark:hover:bg-white/[0.03] dark:hover:text-gray-200"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={busy}
+            className="bg-brand-500 shadow-theme-xs hover:bg-brand-600 flex justify-center rounded-lg px-4 py-3 text-sm font-medium text-white disabled:opacity-50"
+          >
+            {busy ? "Saving..." : "Save Card"}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
@@ -2,15 +2,69 @@
 import Button from "@/components/ui/button/Button";
 import { Modal } from "@/components/ui/modal";
 import { useModal } from "@/hooks/useModal";
-import React from "react";
+import {
+  BILLING_COUNTRIES,
+  type BillingCountry,
+  type BillingDetails,
+} from "@/lib/mock-data/subscriptions";
+import { useRouter } from "next/navigation";
+import React, { useState } from "react";
+import { updateBillingDetails } from "./billingApi";
 
-export default function BillingInfo() {
+interface BillingInfoProps {
+  subscriptionId: string;
+  details: BillingDetails;
+}
+
+const INPUT_CLASSES =
+  "dark:bg-dark-900 shadow-theme-xs focus:border-brand-300 focus:ring-brand-500/10 dark:focus:border-brand-800 h-11 w-full rounded-lg border border-gray-300 bg-transparent px-4 py-2.5 text-sm text-gray-800 placeholder:text-gray-400 focus:ring-3 focus:outline-hidden dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:placeholder:text-white/30";
+
+export default function BillingInfo({
+  subscriptionId,
+  details,
+}: BillingInfoProps) {
+  const router = useRouter();
   const { isOpen, openModal, closeModal } = useModal();
-  const handleSave = () => {
-    // Handle save logic here
-    console.log("Saving changes...");
-    closeModal();
+  const [form, setForm] = useState(details);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const field =
+    (key: keyof BillingDetails) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>): void =>
+      setForm((current) => ({ ...current, [key]: e.target.value }));
+
+  const openEditor = () => {
+    setForm(details);
+    setError(null);
+    openModal();
   };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      await updateBillingDetails(subscriptionId, form);
+      closeModal();
+      // Shows the saved details, which the next invoices use too
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const rows: [string, string][] = [
+    ["Name", `${details.firstName} ${details.lastName}`],
+    ["Email", details.email],
+    ["Street", details.street],
+    ["City/State", [details.city, details.region].filter(Boolean).join(", ")],
+    ["Country", details.country],
+    ["Zip/Postal code", details.postalCode],
+    ["VAT Number", details.vatNumber || "—"],
+  ];
   return (
     <>
       <div className="rounded-2xl border border-gray-200 bg-white xl:w-2/6 dark:border-gray-800 dark:bg-white/[0.03]">
@@ -21,67 +75,21 @@ export default function BillingInfo() {
         </div>
         <div className="border-t border-gray-200 p-4 sm:p-6 dark:border-gray-800">
           <ul className="divide-y divide-gray-100 dark:divide-gray-800">
-            <li className="flex items-center gap-5 py-2.5">
-              <span className="w-1/2 text-sm text-gray-500 sm:w-1/3 dark:text-gray-400">
-                Name
-              </span>
-              <span className="w-1/2 text-sm font-medium text-gray-700 sm:w-2/3 dark:text-gray-400">
-                Mushafrof Chowdhury
-              </span>
-            </li>
-            <li className="flex items-center gap-5 py-2.5">
-              <span className="w-1/2 text-sm text-gray-500 sm:w-1/3 dark:text-gray-400">
-                Street
-              </span>
-              <span className="w-1/2 text-sm font-medium text-gray-700 sm:w-2/3 dark:text-gray-400">
-                800 E Elcamino Real, suite #400
-              </span>
-            </li>
-            <li className="flex items-center gap-5 py-2.5">
-              <span className="w-1/2 text-sm text-gray-500 sm:w-1/3 dark:text-gray-400">
-                City/State
-              </span>
-              <span className="w-1/2 text-sm font-medium text-gray-700 sm:w-2/3 dark:text-gray-400">
-                Mountain View, CA, 94040
-              </span>
-            </li>
-            <li className="flex items-center gap-5 py-2.5">
-              <span className="w-1/2 text-sm text-gray-500 sm:w-1/3 dark:text-gray-400">
-                Country
-              </span>
-              <span className="w-1/2 text-sm font-medium text-gray-700 sm:w-2/3 dark:text-gray-400">
-                United States of America
-              </span>
-            </li>
-            <li className="flex items-center gap-5 py-2.5">
-              <span className="w-1/2 text-sm text-gray-500 sm:w-1/3 dark:text-gray-400">
-                Zip/Postal code
-              </span>
-              <span className="w-1/2 text-sm font-medium text-gray-700 sm:w-2/3 dark:text-gray-400">
-                19029
-              </span>
-            </li>
-            <li className="flex items-center gap-5 py-2.5">
-              <span className="w-1/2 text-sm text-gray-500 sm:w-1/3 dark:text-gray-400">
-                Town/City
-              </span>
-              <span className="w-1/2 text-sm font-medium text-gray-700 sm:w-2/3 dark:text-gray-400">
-                New York
-              </span>
-            </li>
-            <li className="flex items-center gap-5 py-2.5">
-              <span className="w-1/2 text-sm text-gray-500 sm:w-1/3 dark:text-gray-400">
-                VAT Number
-              </span>
-              <span className="w-1/2 text-sm font-medium text-gray-700 sm:w-2/3 dark:text-gray-400">
-                DE4920348
-              </span>
-            </li>
+            {rows.map(([label, value]) => (
+              <li key={label} className="flex items-center gap-5 py-2.5">
+                <span className="w-1/2 text-sm text-gray-500 sm:w-1/3 dark:text-gray-400">
+                  {label}
+                </span>
+                <span className="w-1/2 text-sm font-medium break-words text-gray-700 sm:w-2/3 dark:text-gray-400">
+                  {value}
+                </span>
+              </li>
+            ))}
           </ul>
 
           <div className="mt-10 xl:mt-2 2xl:mt-12">
             <Button
-              onClick={openModal}
+              onClick={openEditor}
               variant="outline"
               className="w-full h-11"
             >
@@ -116,12 +124,12 @@ export default function BillingInfo() {
               Billing Settings
             </h4>
             <p className="mb-7 text-sm leading-6 text-gray-500 dark:text-gray-400">
-              Edit your billing address, card info, or payment method.
+              Edit the name and address your invoices are made out to.
             </p>
           </div>
 
           <div className="custom-scrollbar h-[490px] overflow-y-auto sm:h-auto px-1">
-            <form action="#">
+            <form id="billing-details-form" onSubmit={handleSave}>
               <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
                 <div>
                   <label className="mb-1.5 block text-sm font-medium text-gray-700 dark:text-gray-400">
@@ -129,8 +137,9 @@ export default function BillingInfo() {
                   </label>
                   <input
                     type="text"
-                    defaultValue="Mushafrof"
-                    className="dark:bg-dark-900 shadow-theme-xs focus:border-brand-300 focus:ring-brand-500/10 dark:focus:border-brand-800 h-11 w-full rounded-lg border border-gray-300 bg-transparent px-4 py-2.5 text-sm text-gray-800 placeholder:text-gray-400 focus:ring-3 focus:outline-hidden dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:placeholder:text-white/30"
+                    value={form.firstName}
+                    onChange={field("firstName")}
+                    className={INPUT_CLASSES}
                   />
                 </div>
                 <div>
@@ -139,8 +148,20 @@ export default function BillingInfo() {
                   </label>
                   <input
                     type="text"
-                    defaultValue="Chowdhury"
-                    className="dark:bg-dark-900 shadow-theme-xs focus:border-brand-300 focus:ring-brand-500/10 dark:focus:border-brand-800 h-11 w-full rounded-lg border border-gray-300 bg-transparent px-4 py-2.5 text-sm text-gray-800 placeholder:text-gray-400 focus:ring-3 focus:outline-hidden dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:placeholder:text-white/30"
+                    value={form.lastName}
+                    onChange={field("lastName")}
+                    className={INPUT_CLASSES}
+                  />
+                </div>
+                <div className="sm:col-span-full">
+                  <label className="mb-1.5 block text-sm font-medium text-gray-700 dark:text-gray-400">
+                    Email
+                  </label>
+                  <input
+                    type="email"
+                    value={form.email}
+                    onChange={field("email")}
+                    className={INPUT_CLASSES}
                   />
                 </div>
                 <div className="sm:col-span-full">
@@ -149,115 +170,57 @@ export default function BillingInfo() {
                   </label>
                   <input
                     type="text"
-                    defaultValue="800 E Elcamino Real, suite #400"
-                    className="dark:bg-dark-900 shadow-theme-xs focus:border-brand-300 focus:ring-brand-500/10 dark:focus:border-brand-800 h-11 w-full rounded-lg border border-gray-300 bg-transparent px-4 py-2.5 text-sm text-gray-800 placeholder:text-gray-400 focus:ring-3 focus:outline-hidden dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:placeholder:text-white/30"
+                    value={form.street}
+                    onChange={field("street")}
+                    className={INPUT_CLASSES}
                   />
                 </div>
-                <div className="sm:col-span-1">
+                <div>
                   <label className="mb-1.5 block text-sm font-medium text-gray-700 dark:text-gray-400">
-                    Country
+                    Town/City
                   </label>
-                  <div className="relative z-20 bg-transparent">
-                    <select className="dark:bg-dark-900 shadow-theme-xs focus:border-brand-300 focus:ring-brand-500/10 dark:focus:border-brand-800 h-11 w-full appearance-none rounded-lg border border-gray-300 bg-transparent bg-none px-4 py-2.5 pr-11 text-sm text-gray-800 placeholder:text-gray-400 focus:ring-3 focus:outline-hidden dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:placeholder:text-white/30">
-                      <option
-                        value=""
-                        className="text-gray-700 dark:bg-gray-900 dark:text-gray-400"
-                      >
-                        Select Option
-                      </option>
-                      <option
-                        value=""
-                        className="text-gray-700 dark:bg-gray-900 dark:text-gray-400"
-                      >
-                        USA
-                      </option>
-                      <option
-                        value=""
-                        className="text-gray-700 dark:bg-gray-900 dark:text-gray-400"
-                      >
-                        UK
-                      </option>
-                      <option
-                        value=""
-                        className="text-gray-700 dark:bg-gray-900 dark:text-gray-400"
-                      >
-                        BD
-                      </option>
-                      <option
-                        value=""
-                        className="text-gray-700 dark:bg-gray-900 dark:text-gray-400"
-                      >
-                        EU
-                      </option>
-                      <option
-                        value=""
-                        className="text-gray-700 dark:bg-gray-900 dark:text-gray-400"
-                      >
-                        ID
-                      </option>
-                    </select>
-                    <span className="pointer-events-none absolute top-1/2 right-4 z-30 -translate-y-1/2 text-gray-500 dark:text-gray-400">
-                      <svg
-                        className="stroke-current"
-                        width="20"
-                        height="20"
-                        viewBox="0 0 20 20"
-                        fill="none"
-                        xmlns="http://www.w3.org/2000/svg"
-                      >
-                        <path
-                          d="M4.79175 7.396L10.0001 12.6043L15.2084 7.396"
-                          stroke=""
-                          strokeWidth="1.5"
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                        />
-                      </svg>
-                    </span>
-                  </div>
+                  <input
+                    type="text"
+                    value={form.city}
+                    onChange={field("city")}
+                    className={INPUT_CLASSES}
+                  />
+                </div>
+                <div>
+                  <label className="mb-1.5 block text-sm font-medium text-gray-700 dark:text-gray-400">
+                    State/Region
+                  </label>
+                  <input
+                    type="text"
+                    value={form.region}
+                    onChange={field("region")}
+                    className={INPUT_CLASSES}
+                  />
                 </div>
                 <div className="sm:col-span-1">
                   <label className="mb-1.5 block text-sm font-medium text-gray-700 dark:text-gray-400">
-                    Town/City
+                    Country
                   </label>
                   <div className="relative z-20 bg-transparent">
-                    <select className="dark:bg-dark-900 shadow-theme-xs focus:border-brand-300 focus:ring-brand-500/10 dark:focus:border-brand-800 h-11 w-full appearance-none rounded-lg border border-gray-300 bg-transparent bg-none px-4 py-2.5 pr-11 text-sm text-gray-800 placeholder:text-gray-400 focus:ring-3 focus:outline-hidden dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:placeholder:text-white/30">
-                      <option
-                        value=""
-                        className="text-gray-700 dark:bg-gray-900 dark:text-gray-400"
-                      >
-                        Select Option
-                      </option>
-                      <option
-                        value=""
-                        className="text-gray-700 dark:bg-gray-900 dark:text-gray-400"
-                      >
-                        New York
-                      </option>
-                      <option
-                        value=""
-                        className="text-gray-700 dark:bg-gray-900 dark:text-gray-400"
-                      >
-                        Tokyo
-                      </option>
-                      <option
-                        value=""
-                        className="text-gray-700 dark:bg-gray-900 dark:text-gray-400"
-                      >
-                        Chicago
-                      </option>
-                      <option
-                        value=""
-                        className="text-gray-700 dark:bg-gray-900 dark:text-gray-400"
-                      >
-                        Los Angels
-                      </option>
-                      <option
-                        value=""
-                        className="text-gray-700 dark:bg-gray-900 dark:text-gray-400"
-                      >
-                        Berlin
-                      </option>
+                    <select
+                      value={form.country}
+                      onChange={(e) =>
+                        setForm((current) => ({
+                          ...current,
+                          country: e.target.value as BillingCountry,
+                        }))
+                      }
+                      className="dark:bg-dark-900 shadow-theme-xs focus:border-brand-300 focus:ring-brand-500/10 dark:focus:border-brand-800 h-11 w-full appearance-none rounded-lg border border-gray-300 bg-transparent bg-none px-4 py-2.5 pr-11 text-sm text-gray-800 placeholder:text-gray-400 focus:ring-3 focus:outline-hidden dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:placeholder:text-white/30"
+                    >
+                      {BILLING_COUNTRIES.map((country) => (
+                        <option
+                          key={country}
+                          value={country}
+                          className="text-gray-700 dark:bg-gray-900 dark:text-gray-400"
+                        >
+                          {country}
+                        </option>
+                      ))}
                     </select>
                     <span className="pointer-events-none absolute top-1/2 right-4 z-30 -translate-y-1/2 text-gray-500 dark:text-gray-400">
                       <svg
@@ -285,18 +248,20 @@ export default function BillingInfo() {
                   </label>
                   <input
                     type="text"
-                    defaultValue="19029"
-                    className="dark:bg-dark-900 shadow-theme-xs focus:border-brand-300 focus:ring-brand-500/10 dark:focus:border-brand-800 h-11 w-full rounded-lg border border-gray-300 bg-transparent px-4 py-2.5 text-sm text-gray-800 placeholder:text-gray-400 focus:ring-3 focus:outline-hidden dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:placeholder:text-white/30"
+                    value={form.postalCode}
+                    onChange={field("postalCode")}
+                    className={INPUT_CLASSES}
                   />
                 </div>
-                <div>
+                <div className="sm:col-span-full">
                   <label className="mb-1.5 block text-sm font-medium text-gray-700 dark:text-gray-400">
                     VAT Number
                   </label>
                   <input
                     type="text"
-                    defaultValue="DE4920348"
-                    className="dark:bg-dark-900 shadow-theme-xs focus:border-brand-300 focus:ring-brand-500/10 dark:focus:border-brand-800 h-11 w-full rounded-lg border border-gray-300 bg-transparent px-4 py-2.5 text-sm text-gray-800 placeholder:text-gray-400 focus:ring-3 focus:outline-hidden dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:placeholder:text-white/30"
+                    value={form.vatNumber}
+                    onChange={field("vatNumber")}
+                    className={INPUT_CLASSES}
                   />
                 </div>
               </div>
@@ -304,6 +269,7 @@ export default function BillingInfo() {
               <p className="mt-4 text-sm text-gray-500 dark:text-gray-400">
                 Click “Update Info” to update your billing information.
               </p>
+              {error && <p className="mt-3 text-sm text-error-500">{error}</p>}
             </form>
           </div>
           <div className="mt-8 flex items-center justify-end gap-3">
@@ -315,11 +281,12 @@ export default function BillingInfo() {
               Close
             </button>
             <button
-              onClick={handleSave}
-              type="button"
-              className="bg-brand-500 shadow-theme-xs hover:bg-brand-600 flex justify-center rounded-lg px-4 py-3 text-sm font-medium text-white"
+              type="submit"
+              form="billing-details-form"
+              disabled={busy}
+              className="bg-brand-500 shadow-theme-xs hover:bg-brand-600 flex justify-center rounded-lg px-4 py-3 text-sm font-medium text-white disabled:opacity-50"
             >
-              Update Info
+              {busy ? "Saving..." : "Update Info"}
             </button>
           </div>
         </div>
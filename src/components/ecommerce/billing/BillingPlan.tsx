@@ -1,4 +1,58 @@
-export default function BillingPlan() {
+"use client";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import {
+  getPlan,
+  INTERVAL_LABELS,
+  PLAN_CURRENCY,
+  planPrice,
+  type BillingInterval,
+} from "@/lib/billing/plans";
+import type { Subscription } from "@/lib/mock-data/subscriptions";
+import { formatMoney } from "@/lib/money";
+import { updateSubscription } from "./billingApi";
+import PlanChangeModal from "./PlanChangeModal";
+
+interface BillingPlanProps {
+  subscription: Subscription;
+  today: string; // YYYY-MM-DD on the server
+}
+
+// Orders placed this month; usage is not metered yet
+const ORDERS_USED = 15299;
+
+const formatDay = (day: string) =>
+  new Date(`${day}T00:00:00Z`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+
+export default function BillingPlan({ subscription, today }: BillingPlanProps) {
+  const router = useRouter();
+  const [changing, setChanging] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const plan = getPlan(subscription.planId);
+  const active = subscription.status === "Active";
+  const usage = plan ? Math.min(1, ORDERS_USED / plan.orderLimit) : 0;
+
+  const run = async (change: object) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await updateSubscription(subscription.id, change);
+      setChanging(false);
+      // Loads the plan and its invoices again
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
   return (
     <div className="rounded-2xl border border-gray-200 bg-white xl:w-4/6 dark:border-gray-800 dark:bg-white/[0.03]">
       <div className="px-6 py-5">
@@ -15,7 +69,11 @@ export default function BillingPlan() {
                 Current Plan
               </span>
               <span className="block text-sm font-medium text-gray-700 dark:text-gray-400">
-                Professional
+                {plan?.name ?? subscription.planId}
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  {" "}
+                  · billed {INTERVAL_LABELS[subscription.interval]}
+                </span>
               </span>
             </li>
             <li className="py-3">
@@ -23,7 +81,7 @@ export default function BillingPlan() {
                 Monthly Limits
               </span>
               <span className="block text-sm font-medium text-gray-700 dark:text-gray-400">
-                25,000 Orders
+                {plan?.orderLimit.toLocaleString("en-US")} Orders
               </span>
             </li>
             <li className="py-3">
@@ -31,20 +89,39 @@ export default function BillingPlan() {
                 Cost
               </span>
               <span className="block text-sm font-medium text-gray-700 dark:text-gray-400">
-                $199.00
+                {plan && formatMoney(planPrice(plan, subscription.interval))}
                 <span className="text-xs text-gray-500 dark:text-gray-400">
-                  /month
+                  /{subscription.interval}
                 </span>
               </span>
             </li>
             <li className="py-3">
               <span className="block space-y-1.5 text-sm font-normal text-gray-500 dark:text-gray-400">
-                Renewal Date
+                {!active
+                  ? "Status"
+                  : subscription.cancelAtPeriodEnd
+                  ? "Ends On"
+                  : "Renewal Date"}
               </span>
               <span className="block text-sm font-medium text-gray-700 dark:text-gray-400">
-                Mar 22, 2028
+                {active
+                  ? formatDay(subscription.currentPeriodEnd)
+                  : `Canceled on ${formatDay(subscription.currentPeriodEnd)}`}
               </span>
             </li>
+            {subscription.credit > 0 && (
+              <li className="py-3">
+                <span className="block space-y-1.5 text-sm font-normal text-gray-500 dark:text-gray-400">
+                  Account Credit
+                </span>
+                <span className="block text-sm font-medium text-gray-700 dark:text-gray-400">
+                  {formatMoney({
+                    amount: subscription.credit,
+                    currency: PLAN_CURRENCY,
+                  })}
+                </span>
+              </li>
+            )}
           </ul>
           <div className="rounded-b-xl border border-t-0 border-gray-200 p-5 dark:border-gray-800">
             <div className="mb-5 flex items-center justify-between">
@@ -52,12 +129,16 @@ export default function BillingPlan() {
                 Orders
               </span>
               <span className="text-sm text-gray-700 dark:text-gray-400">
-                15,299 of 25,500 orders used
+                {ORDERS_USED.toLocaleString("en-US")} of{" "}
+                {plan?.orderLimit.toLocaleString("en-US")} orders used
               </span>
             </div>
             {/* <!-- Progress --> */}
             <div className="relative h-2 w-full rounded-sm bg-gray-200 dark:bg-gray-800">
-              <div className="bg-brand-500 absolute left-0 h-full w-[55%] rounded-sm"></div>
+              <div
+                className="bg-brand-500 absolute left-0 h-full rounded-sm"
+                style={{ width: `${Math.round(usage * 100)}%` }}
+              ></div>
             </div>
           </div>
         </div>
@@ -67,149 +148,98 @@ export default function BillingPlan() {
             Plan Benefits
           </h3>
           <ul className="space-y-3.5">
-            <li className="flex items-center gap-2.5">
-              <svg
-                className="text-gray-700 dark:text-gray-500"
-                xmlns="http://www.w3.org/2000/svg"
-                width="16"
-                height="16"
-                viewBox="0 0 16 16"
-                fill="none"
-              >
-                <path
-                  d="M12.5 4.86133L6.2221 11.1392L3.5 8.41713"
-                  stroke="currentColor"
-                  strokeWidth="1.5"
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                />
-              </svg>
-              <span className="text-sm font-medium text-gray-500 dark:text-gray-400">
-                25,500 orders per month
-              </span>
-            </li>
-            <li className="flex items-center gap-2.5">
-              <svg
-                className="text-gray-700 dark:text-gray-500"
-                xmlns="http://www.w3.org/2000/svg"
-                width="16"
-                height="16"
-                viewBox="0 0 16 16"
-                fill="none"
-              >
-                <path
-                  d="M12.5 4.86133L6.2221 11.1392L3.5 8.41713"
-                  stroke="currentColor"
-                  strokeWidth="1.5"
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                />
-              </svg>
-              <span className="text-sm font-medium text-gray-500 dark:text-gray-400">
-                Unlimited integrations
-              </span>
-            </li>
-            <li className="flex items-center gap-2.5">
-              <svg
-                className="text-gray-700 dark:text-gray-500"
-                xmlns="http://www.w3.org/2000/svg"
-                width="16"
-                height="16"
-                viewBox="0 0 16 16"
-                fill="none"
-              >
-                <path
-                  d="M12.5 4.86133L6.2221 11.1392L3.5 8.41713"
-                  stroke="currentColor"
-                  strokeWidth="1.5"
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                />
-              </svg>
-              <span className="text-sm font-medium text-gray-500 dark:text-gray-400">
-                Exclusive AutoFile discount
-              </span>
-            </li>
-            <li className="flex items-center gap-2.5">
-              <svg
-                className="text-gray-700 dark:text-gray-500"
-                xmlns="http://www.w3.org/2000/svg"
-                width="16"
-                height="16"
-                viewBox="0 0 16 16"
-                fill="none"
-              >
-                <path
-                  d="M12.5 4.86133L6.2221 11.1392L3.5 8.41713"
-                  stroke="currentColor"
-                  strokeWidth="1.5"
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                />
-              </svg>
-              <span className="text-sm font-medium text-gray-500 dark:text-gray-400">
-                10 GB Storage
-              </span>
-            </li>
-            <li className="flex items-center gap-2.5">
-              <svg
-                className="text-gray-400"
-                xmlns="http://www.w3.org/2000/svg"
-                width="16"
-                height="16"
-                viewBox="0 0 16 16"
-                fill="none"
+            {plan?.benefits.map((benefit) =>
+              benefit.included ? (
+                <li key={benefit.name} className="flex items-center gap-2.5">
+                  <svg
+                    className="text-gray-700 dark:text-gray-500"
+                    xmlns="http://www.w3.org/2000/svg"
+                    width="16"
+                    height="16"
+                    viewBox="0 0 16 16"
+                    fill="none"
+                  >
+                    <path
+                      d="M12.5 4.86133L6.2221 11.1392L3.5 8.41713"
+                      stroke="currentColor"
+                      strokeWidth="1.5"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                    />
+                  </svg>
+                  <span className="text-sm font-medium text-gray-500 dark:text-gray-400">
+                    {benefit.name}
+                  </span>
+                </li>
+              ) : (
+                <li key={benefit.name} className="flex items-center gap-2.5">
+                  <svg
+                    className="text-gray-400"
+                    xmlns="http://www.w3.org/2000/svg"
+                    width="16"
+                    height="16"
+                    viewBox="0 0 16 16"
+                    fill="none"
+                  >
+                    <path
+                      d="M4.5 11.4992L11.4986 4.50058M4.5 4.50049L11.4986 11.4991"
+                      stroke="currentColor"
+                      strokeWidth="1.5"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                    />
+                  </svg>
+                  <span className="text-sm font-medium text-gray-400 line-through">
+                    {benefit.name}
+                  </span>
+                </li>
+              )
+            )}
+          </ul>
+          {error && !changing && (
+            <p className="mt-6 text-sm text-error-500">{error}</p>
+          )}
+          {active && (
+            <div className="mt-24 flex w-full flex-col items-center justify-between gap-3 sm:flex-row">
+              <button
+                type="button"
+                disabled={busy}
+                onClick={() =>
+                  run({ cancelAtPeriodEnd: !subscription.cancelAtPeriodEnd })
+                }
+                className="shadow-theme-xs -mx-px flex w-full justify-center rounded-lg border border-gray-300 bg-white px-4 py-3 text-sm font-medium text-gray-700 hover:bg-gray-50 hover:text-gray-800 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-400 dark:hover:bg-white/[0.03] dark:hover:text-gray-200"
               >
-                <path
-                  d="M4.5 11.4992L11.4986 4.50058M4.5 4.50049L11.4986 11.4991"
-                  stroke="currentColor"
-                  strokeWidth="1.5"
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                />
-              </svg>
-              <span className="text-sm font-medium text-gray-400 line-through">
-                Custom Templates
-              </span>
-            </li>
-            <li className="flex items-center gap-2.5">
-              <svg
-                className="text-gray-400"
-                xmlns="http://www.w3.org/2000/svg"
-                width="16"
-                height="16"
-                viewBox="0 0 16 16"
-                fill="none"
+                {subscription.cancelAtPeriodEnd
+                  ? "Resume Subscription"
+                  : "Cancel Subscription"}
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setError(null);
+                  setChanging(true);
+                }}
+                className="bg-brand-500 shadow-theme-xs hover:bg-brand-600 flex w-full justify-center rounded-lg px-4 py-3 text-sm font-medium text-white"
               >
-                <path
-                  d="M4.5 11.4992L11.4986 4.50058M4.5 4.50049L11.4986 11.4991"
-                  stroke="currentColor"
-                  strokeWidth="1.5"
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                />
-              </svg>
-              <span className="text-sm font-medium text-gray-400 line-through">
-                Advanced Marketing tool
-              </span>
-            </li>
-          </ul>
-          <div className="mt-24 flex w-full flex-col items-center justify-between gap-3 sm:flex-row">
-            <button
-              type="button"
-              className="shadow-theme-xs -mx-px flex w-full justify-center rounded-lg border border-gray-300 bg-white px-4 py-3 text-sm font-medium text-gray-700 hover:bg-gray-50 hover:text-gray-800 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-400 dark:hover:bg-white/[0.03] dark:hover:text-gray-200"
-            >
-              Cancel Subscription
-            </button>
-            <button
-              type="button"
-              className="bg-brand-500 shadow-theme-xs hover:bg-brand-600 flex w-full justify-center rounded-lg px-4 py-3 text-sm font-medium text-white"
-            >
-              Upgrade to Pro
-            </button>
-          </div>
+                Change Plan
+              </button>
+            </div>
+          )}
         </div>
       </div>
+      {changing && (
+        <PlanChangeModal
+          isOpen={changing}
+          onClose={() => setChanging(false)}
+          subscription={subscription}
+          today={today}
+          busy={busy}
+          error={error}
+          onConfirm={(planId: string, interval: BillingInterval) =>
+            run({ planId, interval })
+          }
+        />
+      )}
     </div>
   );
 }
@@ -1,5 +1,19 @@
 "use client";
-import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useMemo, useState } from "react";
+import { getPlan } from "@/lib/billing/plans";
+import {
+  displayStatus,
+  invoiceBalance,
+  isOpen,
+  type InvoiceDisplayStatus,
+} from "@/lib/invoice-lifecycle";
+import type { Invoice as InvoiceRecord } from "@/lib/mock-data/invoices";
+import type { Subscription } from "@/lib/mock-data/subscriptions";
+import { formatMoney } from "@/lib/money";
+import { INVOICE_STATUS_CLASSES } from "../../invoice/invoiceStatus";
+import { payInvoice } from "./billingApi";
 
 interface Invoice {
   id: number;
@@ -7,111 +21,57 @@ interface Invoice {
   date: string;
   price: string;
   plan: string;
-  status: string;
+  status: InvoiceDisplayStatus;
+  due: string | null; // Set while the invoice can still be paid
 }
 
-const initialInvoices: Invoice[] = [
-  {
-    id: 1,
-    name: "Invoice #012 - May 2024",
-    date: "May 01, 2024",
-    price: "$120.00",
-    plan: "Starter Plan",
-    status: "Paid",
-  },
-  {
-    id: 2,
-    name: "Invoice #013 - June 2024",
-    date: "June 01, 2024",
-    price: "$120.00",
-    plan: "Starter Plan",
-    status: "Paid",
-  },
-  {
-    id: 3,
-    name: "Invoice #014 - July 2024",
-    date: "July 01, 2024",
-    price: "$120.00",
-    plan: "Starter Plan",
-    status: "Unpaid",
-  },
-  {
-    id: 4,
-    name: "Invoice #015 - August 2024",
-    date: "August 01, 2024",
-    price: "$250.00",
-    plan: "Pro Plan",
-    status: "Paid",
-  },
-  {
-    id: 5,
-    name: "Invoice #016 - September 2024",
-    date: "September 01, 2024",
-    price: "$250.00",
-    plan: "Pro Plan",
-    status: "Paid",
-  },
-  {
-    id: 6,
-    name: "Invoice #017 - October 2024",
-    date: "October 01, 2024",
-    price: "$250.00",
-    plan: "Pro Plan",
-    status: "Unpaid",
-  },
-  {
-    id: 7,
-    name: "Invoice #018 - November 2024",
-    date: "November 01, 2024",
-    price: "$500.00",
-    plan: "Enterprise Plan",
-    status: "Paid",
-  },
-  {
-    id: 8,
-    name: "Invoice #019 - December 2024",
-    date: "December 01, 2024",
-    price: "$500.00",
-    plan: "Enterprise Plan",
-    status: "Paid",
-  },
-  {
-    id: 9,
-    name: "Invoice #020 - January 2025",
-    date: "January 01, 2025",
-    price: "$500.00",
-    plan: "Enterprise Plan",
-    status: "Unpaid",
-  },
-  {
-    id: 10,
-    name: "Invoice #021 - February 2025",
-    date: "February 01, 2025",
-    price: "$500.00",
-    plan: "Enterprise Plan",
-    status: "Paid",
-  },
-  {
-    id: 11,
-    name: "Invoice #022 - March 2025",
-    date: "March 01, 2025",
-    price: "$120.00",
-    plan: "Starter Plan",
-    status: "Paid",
-  },
-  {
-    id: 12,
-    name: "Invoice #023 - April 2025",
-    date: "April 01, 2025",
-    price: "$120.00",
-    plan: "Starter Plan",
-    status: "Unpaid",
-  },
-];
+interface InvoiceTableProps {
+  subscription: Subscription;
+  invoices: InvoiceRecord[]; // The subscription's invoices
+  canPay: boolean; // Whether a payment method is saved
+  today: string; // YYYY-MM-DD on the server, for the overdue check
+}
+
+// "March 2028", from a YYYY-MM-DD day
+const monthOf = (day: string) =>
+  new Date(`${day}T00:00:00Z`).toLocaleDateString("en-US", {
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
 
-const InvoiceTable: React.FC = () => {
+const InvoiceTable: React.FC<InvoiceTableProps> = ({
+  subscription,
+  invoices: records,
+  canPay,
+  today,
+}) => {
+  const router = useRouter();
   const [currentPage, setCurrentPage] = useState<number>(1);
-  const [invoices] = useState<Invoice[]>(initialInvoices);
+  const [paying, setPaying] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Newest first, named after the period each one pays for
+  const invoices: Invoice[] = useMemo(
+    () =>
+      [...subscription.invoices].reverse().flatMap((entry) => {
+        const invoice = records.find((row) => row.id === entry.invoiceId);
+        if (!invoice) return [];
+        return [
+          {
+            id: invoice.id,
+            name: `Invoice ${invoice.number} - ${monthOf(entry.periodStart)}`,
+            date: invoice.creationDate,
+            price: formatMoney(invoiceBalance(invoice).total),
+            plan: `${getPlan(entry.planId)?.name ?? entry.planId} Plan`,
+            status: displayStatus(invoice, today),
+            due: isOpen(invoice)
+              ? formatMoney(invoiceBalance(invoice).due)
+              : null,
+          },
+        ];
+      }),
+    [subscription, records, today]
+  );
   const itemsPerPage: number = 5;
 
   const totalInvoices: number = invoices.length;
@@ -124,6 +84,20 @@ const InvoiceTable: React.FC = () => {
     currentPage * itemsPerPage
   );
 
+  const pay = async (id: number) => {
+    setPaying(id);
+    setError(null);
+    try {
+      await payInvoice(id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setPaying(null);
+      // Declined charges are listed too, so reload either way
+      router.refresh();
+    }
+  };
+
   const visiblePages = (): number[] => {
     const maxVisible: number = 5;
     let start: number = Math.max(1, currentPage - Math.floor(maxVisible / 2));
@@ -163,6 +137,7 @@ const InvoiceTable: React.FC = () => {
             <p className="text-sm text-gray-500 dark:text-gray-400">
               Access all your previous invoices.
             </p>
+            {error && <p className="mt-1 text-sm text-error-500">{error}</p>}
           </div>
           <div>
             <button
@@ -215,6 +190,16 @@ const InvoiceTable: React.FC = () => {
               </tr>
             </thead>
             <tbody className="divide-y divide-gray-200 dark:divide-gray-800">
+              {invoices.length === 0 && (
+                <tr>
+                  <td
+                    colSpan={6}
+                    className="py-6 text-center text-sm text-gray-500 dark:text-gray-400"
+                  >
+                    No invoices yet. Renewals are invoiced on the renewal date.
+                  </td>
+                </tr>
+              )}
               {paginatedInvoices.map((invoice: Invoice) => (
                 <tr key={invoice.id}>
                   <td className="px-6 py-3 text-left whitespace-nowrap first:pl-0">
@@ -277,9 +262,7 @@ const InvoiceTable: React.FC = () => {
                   <td className="px-6 py-3">
                     <span
                       className={`inline-flex items-center justify-center gap-1 rounded-full px-2.5 py-0.5 text-sm font-medium ${
-                        invoice.status === "Paid"
-                          ? "bg-success-50 text-success-600 dark:bg-success-500/15 dark:text-success-500"
-                          : "bg-error-50 text-error-600 dark:bg-error-500/15 dark:text-error-500"
+                        INVOICE_STATUS_CLASSES[invoice.status]
                       }`}
                     >
                       {invoice.status}
@@ -287,7 +270,24 @@ const InvoiceTable: React.FC = () => {
                   </td>
                   <td className="px-6 py-3">
                     <div className="flex justify-end gap-2">
-                      <button className="shadow-theme-xs inline-flex h-9 w-9 items-center justify-center rounded-lg border border-gray-300 text-gray-500 hover:bg-gray-50 dark:border-gray-700 dark:text-gray-400 dark:hover:bg-white/[0.03] dark:hover:text-gray-200">
+                      {invoice.due && canPay && (
+                        <button
+                          type="button"
+                          disabled={paying !== null}
+                          onClick={() => pay(invoice.id)}
+                          title="Charge the default payment method"
+                          className="bg-brand-500 shadow-theme-xs hover:bg-brand-600 inline-flex h-9 items-center justify-center rounded-lg px-3 text-sm font-medium whitespace-nowrap text-white disabled:opacity-50"
+                        >
+                          {paying === invoice.id
+                            ? "Paying..."
+                            : `Pay ${invoice.due}`}
+                        </button>
+                      )}
+                      <a
+                        href={`/api/invoices/${invoice.id}/pdf?download=1`}
+                        title="Download PDF"
+                        className="shadow-theme-xs inline-flex h-9 w-9 items-center justify-center rounded-lg border border-gray-300 text-gray-500 hover:bg-gray-50 dark:border-gray-700 dark:text-gray-400 dark:hover:bg-white/[0.03] dark:hover:text-gray-200"
+                      >
                         <svg
                           xmlns="http://www.w3.org/2000/svg"
                           width="21"
@@ -303,8 +303,12 @@ const InvoiceTable: React.FC = () => {
                             strokeLinejoin="round"
                           />
                         </svg>
-                      </button>
-                      <button className="shadow-theme-xs inline-flex h-9 w-9 items-center justify-center rounded-lg border border-gray-300 text-gray-500 hover:bg-gray-50 dark:border-gray-700 dark:text-gray-400 dark:hover:bg-white/[0.03] dark:hover:text-gray-200">
+                      </a>
+                      <Link
+                        href={`/invoices/${invoice.id}`}
+                        title="View invoice"
+                        className="shadow-theme-xs inline-flex h-9 w-9 items-center justify-center rounded-lg border border-gray-300 text-gray-500 hover:bg-gray-50 dark:border-gray-700 dark:text-gray-400 dark:hover:bg-white/[0.03] dark:hover:text-gray-200"
+                      >
                         <svg
                           xmlns="http://www.w3.org/2000/svg"
                           width="21"
@@ -327,7 +331,7 @@ const InvoiceTable: React.FC = () => {
                             strokeLinejoin="round"
                           />
                         </svg>
-                      </button>
+                      </Link>
                     </div>
                   </td>
                 </tr>
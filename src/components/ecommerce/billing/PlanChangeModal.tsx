@@ -0,0 +1,188 @@
+"use client";
+import { useState } from "react";
+import {
+  BILLING_PLANS,
+  PLAN_CURRENCY,
+  planPrice,
+  type BillingInterval,
+} from "@/lib/billing/plans";
+import { quotePlanChange } from "@/lib/billing/schedule";
+import type { Subscription } from "@/lib/mock-data/subscriptions";
+import { formatMoney } from "@/lib/money";
+import { Modal } from "../../ui/modal";
+
+interface PlanChangeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  subscription: Subscription;
+  today: string; // YYYY-MM-DD on the server, the day the change takes effect
+  busy: boolean;
+  error: string | null;
+  onConfirm: (planId: string, interval: BillingInterval) => void;
+}
+
+const formatDay = (day: string) =>
+  new Date(`${day}T00:00:00Z`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+
+export default function PlanChangeModal({
+  isOpen,
+  onClose,
+  subscription,
+  today,
+  busy,
+  error,
+  onConfirm,
+}: PlanChangeModalProps) {
+  const [planId, setPlanId] = useState(subscription.planId);
+  const [interval, setBillingInterval] = useState(subscription.interval);
+  const quote = quotePlanChange(subscription, planId, interval, today);
+  const current = BILLING_PLANS.find((plan) => plan.id === planId);
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      className="relative w-full max-w-[640px] m-5 sm:m-0 rounded-3xl bg-white p-6 lg:p-10 dark:bg-gray-900"
+    >
+      <h4 className="mb-2 text-2xl font-semibold text-gray-800 dark:text-white/90">
+        Change Plan
+      </h4>
+      <p className="mb-6 text-sm text-gray-500 dark:text-gray-400">
+        The change takes effect today. Unused time on the current plan is
+        credited against the new one.
+      </p>
+
+      <div className="mb-6 inline-flex rounded-full bg-gray-200 p-1 dark:bg-gray-800">
+        {(["month", "year"] as BillingInterval[]).map((value) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => setBillingInterval(value)}
+            className={`h-9 w-[110px] rounded-full text-sm font-medium ${
+              interval === value
+                ? "bg-white text-gray-800 shadow-theme-xs dark:bg-white/10 dark:text-white/90"
+                : "text-gray-500 hover:text-gray-700 dark:text-gray-400"
+            }`}
+          >
+            {value === "month" ? "Monthly" : "Annually"}
+          </button>
+        ))}
+      </div>
+
+      <div className="mb-6 grid grid-cols-1 gap-3 sm:grid-cols-3">
+        {BILLING_PLANS.map((plan) => (
+          <button
+            key={plan.id}
+            type="button"
+            onClick={() => setPlanId(plan.id)}
+            className={`rounded-xl border p-4 text-left transition ${
+              planId === plan.id
+                ? "border-brand-500 ring-3 ring-brand-500/10"
+                : "border-gray-200 hover:border-gray-300 dark:border-gray-800"
+            }`}
+          >
+            <span className="block text-sm font-medium text-gray-800 dark:text-white/90">
+              {plan.name}
+              {plan.id === subscription.planId && (
+                <span className="ml-1 text-theme-xs text-gray-500 dark:text-gray-400">
+                  (current)
+                </span>
+              )}
+            </span>
+            <span className="block text-lg font-semibold text-gray-800 dark:text-white/90">
+              {formatMoney(planPrice(plan, interval), { trimZeroCents: true })}
+              <span className="text-xs font-normal text-gray-500 dark:text-gray-400">
+                /{interval}
+              </span>
+            </span>
+            <span className="block text-theme-xs text-gray-500 dark:text-gray-400">
+              {plan.description}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {"error" in quote ? (
+        <p className="mb-6 text-sm text-gray-500 dark:text-gray-400">
+          {quote.error}.
+        </p>
+      ) : (
+        <dl className="mb-6 space-y-2 rounded-xl border border-gray-200 p-4 text-sm dark:border-gray-800">
+          <div className="flex justify-between">
+            <dt className="text-gray-500 dark:text-gray-400">
+              {current?.name}, {formatDay(quote.periodStart)} to{" "}
+              {formatDay(quote.periodEnd)}
+            </dt>
+            <dd className="text-gray-800 dark:text-white/90">
+              {formatMoney(quote.charge)}
+            </dd>
+          </div>
+          <div className="flex justify-between">
+            <dt className="text-gray-500 dark:text-gray-400">
+              Unused time on the current plan
+            </dt>
+            <dd className="text-gray-800 dark:text-white/90">
+              −{formatMoney(quote.credit)}
+            </dd>
+          </div>
+          {subscription.credit > 0 && (
+            <div className="flex justify-between">
+              <dt className="text-gray-500 dark:text-gray-400">
+                Account credit
+              </dt>
+              <dd className="text-gray-800 dark:text-white/90">
+                −
+                {formatMoney({
+                  amount: subscription.credit,
+                  currency: PLAN_CURRENCY,
+                })}
+              </dd>
+            </div>
+          )}
+          <div className="flex justify-between border-t border-gray-100 pt-2 font-medium dark:border-gray-800">
+            <dt className="text-gray-700 dark:text-gray-300">
+              Invoiced today, before VAT
+            </dt>
+            <dd className="text-gray-800 dark:text-white/90">
+              {formatMoney(quote.due)}
+            </dd>
+          </div>
+          {quote.remainingCredit > 0 && (
+            <p className="text-theme-xs text-gray-500 dark:text-gray-400">
+              {formatMoney({
+                amount: quote.remainingCredit,
+                currency: PLAN_CURRENCY,
+              })}{" "}
+              of credit will be taken off your next invoices.
+            </p>
+          )}
+        </dl>
+      )}
+
+      {error && <p className="mb-4 text-sm text-error-500">{error}</p>}
+
+      <div className="flex w-full items-center justify-end gap-3">
+        <button
+          type="button"
+          onClick={onClose}
+          className="shadow-theme-xs flex justify-center rounded-lg border border-gray-300 bg-white px-4 py-3 text-sm font-medium text-gray-700 hover:bg-gray-50 hover:text-gray-800 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-400 dark:hover:bg-white/[0.03] dark:hover:text-gray-200"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          disabled={busy || "error" in quote}
+          onClick={() => onConfirm(planId, interval)}
+          className="bg-brand-500 shadow-theme-xs hover:bg-brand-600 flex justify-center rounded-lg px-4 py-3 text-sm font-medium text-white disabled:opacity-50"
+        >
+          {busy ? "Changing..." : "Confirm change"}
+        </button>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,72 @@
+import type { SavedPaymentMethod } from "@/lib/mock-data/payment-methods";
+import type {
+  BillingDetails,
+  Subscription,
+} from "@/lib/mock-data/subscriptions";
+import type { Transaction } from "@/lib/mock-data/transactions";
+
+async function requestJson<T>(
+  url: string,
+  method: string,
+  body?: unknown
+): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const result = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(
+      result?.error ?? `Request failed with status ${response.status}`
+    );
+  }
+  return result as T;
+}
+
+export function updateSubscription(id: string, change: object) {
+  return requestJson<Subscription>(`/api/subscriptions/${id}`, "PATCH", change);
+}
+
+export function updateBillingDetails(id: string, details: BillingDetails) {
+  return updateSubscription(id, { billingDetails: details });
+}
+
+export interface CardInput {
+  holder: string;
+  number: string;
+  expiry: string; // MM/YY
+  cvc: string;
+}
+
+export function addCard(subscriptionId: string, card: CardInput) {
+  return requestJson<SavedPaymentMethod>(
+    `/api/subscriptions/${subscriptionId}/payment-methods`,
+    "POST",
+    card
+  );
+}
+
+export function makeDefaultPaymentMethod(subscriptionId: string, id: string) {
+  return requestJson<SavedPaymentMethod>(
+    `/api/subscriptions/${subscriptionId}/payment-methods/${id}`,
+    "PATCH",
+    { isDefault: true }
+  );
+}
+
+export function removePaymentMethod(subscriptionId: string, id: string) {
+  return requestJson<SavedPaymentMethod>(
+    `/api/subscriptions/${subscriptionId}/payment-methods/${id}`,
+    "DELETE"
+  );
+}
+
+// Charges the amount due to the subscription's default payment method
+export function payInvoice(invoiceId: number) {
+  return requestJson<Transaction>(
+    `/api/invoices/${invoiceId}/charge`,
+    "POST",
+    {}
+  );
+}
@@ -1,11 +1,42 @@
 "use client";
 import Button from "@/components/ui/button/Button";
+import PrintRoot from "@/components/common/PrintRoot";
 import { Modal } from "@/components/ui/modal";
+import InvoiceTable from "@/components/invoice/InvoiceTable";
+import InvoiceTotals from "@/components/invoice/InvoiceTotals";
+import { downloadInvoicePreview } from "@/components/invoice/invoiceApi";
 import { useModal } from "@/hooks/useModal";
-import React from "react";
+import { DownloadIcon } from "@/icons";
+import { formatInvoiceDate } from "@/lib/invoice-lifecycle";
+import type { NewInvoice } from "@/lib/invoices";
+import { invoiceSender } from "@/lib/mock-data/invoices";
+import React, { useState } from "react";
 
-export default function InvoicePreviewModal() {
+interface InvoicePreviewModalProps {
+  invoice: NewInvoice; // As filled in so far, not yet saved
+  number: string; // The number it will get if saved next
+}
+
+export default function InvoicePreviewModal({
+  invoice,
+  number,
+}: InvoicePreviewModalProps) {
   const { isOpen, openModal, closeModal } = useModal();
+  const [downloading, setDownloading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const download = async () => {
+    setDownloading(true);
+    setError(null);
+    try {
+      await downloadInvoicePreview(invoice);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setDownloading(false);
+    }
+  };
+
   return (
     <>
       <Button variant="outline" onClick={openModal}>
@@ -38,206 +69,90 @@ export default function InvoicePreviewModal() {
         onClose={closeModal}
         className="relative max-w-[720px] m-5 rounded-3xl bg-white dark:bg-gray-900"
       >
-        <div className="flex items-center justify-between px-6 py-4">
-          <h3 className="text-lg text-gray-700 dark:text-gray-500">
-            Invoice: #34834
-          </h3>
-        </div>
-        <div className="max-h-[598px] overflow-y-auto p-4 sm:p-6">
-          <div className="mb-9 flex flex-col gap-6 sm:flex-row sm:items-center sm:justify-between">
-            <div>
-              <span className="mb-1 block text-sm font-medium text-gray-700 dark:text-gray-400">
-                From
-              </span>
-
-              <h5 className="mb-2 text-base font-semibold text-gray-800 dark:text-white/90">
-                Pimjo LLC
-              </h5>
-
-              <p className="mb-4 text-sm text-gray-500 dark:text-gray-400">
-                1280, Clair Street, <br />
-                Massachusetts, New York - 02543
-              </p>
-
-              <span className="mb-1.5 block text-sm font-medium text-gray-700 dark:text-gray-400">
-                Issued On:
-              </span>
-
-              <span className="block text-sm text-gray-500 dark:text-gray-400">
-                11 March, 2027
-              </span>
-            </div>
+        <PrintRoot>
+          <div className="flex items-center justify-between px-6 py-4">
+            <h3 className="text-lg text-gray-700 dark:text-gray-500">
+              Invoice: {number}
+            </h3>
+            <span className="mr-10 text-sm text-gray-500 dark:text-gray-400">
+              Draft
+            </span>
+          </div>
+          <div className="max-h-[598px] overflow-y-auto p-4 sm:p-6">
+            <div className="mb-9 flex flex-col gap-6 sm:flex-row sm:items-center sm:justify-between">
+              <div>
+                <span className="mb-1 block text-sm font-medium text-gray-700 dark:text-gray-400">
+                  From
+                </span>
 
-            <div className="h-px w-full bg-gray-200 sm:h-[158px] sm:w-px dark:bg-gray-800"></div>
+                <h5 className="mb-2 text-base font-semibold text-gray-800 dark:text-white/90">
+                  {invoiceSender.name}
+                </h5>
 
-            <div className="sm:text-right">
-              <span className="mb-1 block text-sm font-medium text-gray-700 dark:text-gray-400">
-                To
-              </span>
+                <p className="mb-4 text-sm text-gray-500 dark:text-gray-400">
+                  {invoiceSender.address[0]}, <br />
+                  {invoiceSender.address[1]}
+                </p>
 
-              <h5 className="mb-2 text-base font-semibold text-gray-800 dark:text-white/90">
-                Albert Ward
-              </h5>
+                <span className="mb-1.5 block text-sm font-medium text-gray-700 dark:text-gray-400">
+                  Issued On:
+                </span>
 
-              <p className="mb-4 text-sm text-gray-500 dark:text-gray-400">
-                355, Shobe Lane <br />
-                Colorado, Fort Collins - 80543
-              </p>
+                <span className="block text-sm text-gray-500 dark:text-gray-400">
+                  {formatInvoiceDate(new Date())}
+                </span>
+              </div>
 
-              <span className="mb-1.5 block text-sm font-medium text-gray-700 dark:text-gray-400">
-                Due On:
-              </span>
+              <div className="h-px w-full bg-gray-200 sm:h-[158px] sm:w-px dark:bg-gray-800"></div>
 
-              <span className="block text-sm text-gray-500 dark:text-gray-400">
-                16 March, 2027
-              </span>
-            </div>
-          </div>
+              <div className="sm:text-right">
+                <span className="mb-1 block text-sm font-medium text-gray-700 dark:text-gray-400">
+                  To
+                </span>
 
-          {/* <!-- Invoice Table Start --> */}
-          <div className="overflow-x-auto rounded-xl border border-gray-100 dark:border-gray-800">
-            <table className="min-w-full text-left text-gray-700 dark:text-gray-400">
-              <thead className="bg-gray-50 dark:bg-gray-900">
-                <tr className="border-b border-gray-100 dark:border-gray-800">
-                  <th className="px-5 whitespace-nowrap py-3 text-sm font-medium text-gray-700 dark:text-gray-400">
-                    S.No.#
-                  </th>
-                  <th className="px-5 py-3 text-xs font-medium whitespace-nowrap text-gray-500 dark:text-gray-400">
-                    Products
-                  </th>
-                  <th className="px-5 py-3 text-center text-sm font-medium whitespace-nowrap text-gray-700 dark:text-gray-400">
-                    Quantity
-                  </th>
-                  <th className="px-5 py-3 text-center text-sm font-medium whitespace-nowrap text-gray-700 dark:text-gray-400">
-                    Unit Cost
-                  </th>
-                  <th className="px-5 py-3 text-center text-sm font-medium whitespace-nowrap text-gray-700 dark:text-gray-400">
-                    Discount
-                  </th>
-                  <th className="px-5 py-3 text-right text-sm font-medium whitespace-nowrap text-gray-700 dark:text-gray-400">
-                    Total
-                  </th>
-                </tr>
-              </thead>
-              <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
-                <tr>
-                  <td className="px-5 py-3 text-sm whitespace-nowrap text-gray-500 dark:text-gray-400">
-                    1
-                  </td>
-                  <td className="px-5 py-3 text-sm whitespace-nowrap font-medium text-gray-800 dark:text-white/90">
-                    Macbook pro 13”
-                  </td>
-                  <td className="px-5 py-3 text-center  text-sm text-gray-500 whitespace-nowrap dark:text-gray-400">
-                    1
-                  </td>
-                  <td className="whitespace-nowrap px-5 py-3 text-center text-sm text-gray-500 dark:text-gray-400">
-                    $48
-                  </td>
-                  <td className="whitespace-nowrap px-5 py-3 text-center text-sm text-gray-500 dark:text-gray-400">
-                    0%
-                  </td>
-                  <td className="px-5 py-3 text-right text-sm text-gray-500 dark:text-gray-400">
-                    $1,200
-                  </td>
-                </tr>
-                <tr>
-                  <td className="px-5 py-3 text-sm whitespace-nowrap text-gray-500 dark:text-gray-400">
-                    2
-                  </td>
-                  <td className="px-5 py-3 text-sm whitespace-nowrap font-medium text-gray-800 dark:text-white/90">
-                    Apple Watch Ultra
-                  </td>
-                  <td className="whitespace-nowrap px-5 py-3 text-center text-sm text-gray-500 dark:text-gray-400">
-                    1
-                  </td>
-                  <td className="whitespace-nowrap px-5 py-3 text-center text-sm text-gray-500 dark:text-gray-400">
-                    $300
-                  </td>
-                  <td className="whitespace-nowrap px-5 py-3 text-center text-sm text-gray-500 dark:text-gray-400">
-                    50%
-                  </td>
-                  <td className="px-5 py-3 text-right text-sm text-gray-500 dark:text-gray-400">
-                    $150
-                  </td>
-                </tr>
-                <tr>
-                  <td className="px-5 py-3 text-sm whitespace-nowrap text-gray-500 dark:text-gray-400">
-                    3
-                  </td>
-                  <td className="px-5 py-3 text-sm whitespace-nowrap font-medium text-gray-800 dark:text-white/90">
-                    iPhone 15 Pro Max
-                  </td>
-                  <td className="whitespace-nowrap px-5 py-3 text-center text-sm text-gray-500 dark:text-gray-400">
-                    3
-                  </td>
-                  <td className="whitespace-nowrap px-5 py-3 text-center text-sm text-gray-500 dark:text-gray-400">
-                    $800
-                  </td>
-                  <td className="whitespace-nowrap px-5 py-3 text-center text-sm text-gray-500 dark:text-gray-400">
-                    0%
-                  </td>
-                  <td className="px-5 py-3 text-right text-sm text-gray-500 dark:text-gray-400">
-                    $1,600
-                  </td>
-                </tr>
-                <tr>
-                  <td className="px-5 py-3 text-sm whitespace-nowrap text-gray-500 dark:text-gray-400">
-                    4
-                  </td>
-                  <td className="px-5 py-3 text-sm whitespace-nowrap font-medium text-gray-800 dark:text-white/90">
-                    iPad Pro 3rd Gen
-                  </td>
-                  <td className="whitespace-nowrap px-5 py-3 text-center text-sm text-gray-500 dark:text-gray-400">
-                    1
-                  </td>
-                  <td className="whitespace-nowrap px-5 py-3 text-center text-sm text-gray-500 dark:text-gray-400">
-                    $900
-                  </td>
-                  <td className="whitespace-nowrap px-5 py-3 text-center text-sm text-gray-500 dark:text-gray-400">
-                    0%
-                  </td>
-                  <td className="px-5 py-3 text-right text-sm text-gray-500 dark:text-gray-400">
-                    $900
-                  </td>
-                </tr>
-              </tbody>
-            </table>
-          </div>
-          {/* <!-- Invoice Table End --> */}
-
-          <div className="my-6 flex justify-end pb-6 text-right">
-            <div className="w-[220px]">
-              <p className="mb-4 text-left text-sm font-medium text-gray-800 dark:text-white/90">
-                Order summary
-              </p>
-              <ul className="space-y-2">
-                <li className="flex justify-between gap-5">
-                  <span className="text-sm text-gray-500 dark:text-gray-400">
-                    Sub Total
-                  </span>
-                  <span className="text-sm font-medium text-gray-700 dark:text-gray-400">
-                    $3,850
-                  </span>
-                </li>
-                <li className="flex items-center justify-between">
-                  <span className="text-sm text-gray-500 dark:text-gray-400">
-                    Vat (10%):
-                  </span>
-                  <span className="text-sm font-medium text-gray-700 dark:text-gray-400">
-                    $385
-                  </span>
-                </li>
-                <li className="flex items-center justify-between">
-                  <span className="font-medium text-gray-700 dark:text-gray-400">
-                    Total
-                  </span>
-                  <span className="text-lg font-semibold text-gray-800 dark:text-white/90">
-                    $4,235
-                  </span>
-                </li>
-              </ul>
+                <h5 className="mb-2 text-base font-semibold text-gray-800 dark:text-white/90">
+                  {invoice.customer || "No customer yet"}
+                </h5>
+
+                <p className="mb-4 text-sm text-gray-500 dark:text-gray-400">
+                  {invoice.customerAddress[0]} <br />
+                  {invoice.customerAddress[1]}
+                </p>
+
+                <span className="mb-1.5 block text-sm font-medium text-gray-700 dark:text-gray-400">
+                  Due On:
+                </span>
+
+                <span className="block text-sm text-gray-500 dark:text-gray-400">
+                  {invoice.dueDate
+                    ? formatInvoiceDate(new Date(`${invoice.dueDate}T00:00:00`))
+                    : "Not set"}
+                </span>
+              </div>
             </div>
+
+            {/* <!-- Invoice Table Start --> */}
+            <InvoiceTable items={invoice.items} currency={invoice.currency} />
+            {/* <!-- Invoice Table End --> */}
+
+            <InvoiceTotals invoice={invoice} />
           </div>
+        </PrintRoot>
+        <div className="flex flex-wrap items-center justify-end gap-3 border-t border-gray-100 px-6 py-4 dark:border-gray-800">
+          {error && <p className="mr-auto text-sm text-error-500">{error}</p>}
+          <Button variant="outline" onClick={closeModal}>
+            Close
+          </Button>
+          {/* Rendered on the server, the same way as a saved invoice's PDF */}
+          <Button
+            variant="outline"
+            onClick={download}
+            disabled={downloading}
+            startIcon={<DownloadIcon className="size-5" />}
+          >
+            {downloading ? "Preparing…" : "Download PDF"}
+          </Button>
+          <Button onClick={() => window.print()}>Print</Button>
         </div>
       </Modal>
     </>
@@ -0,0 +1,83 @@
+import type { Product, ProductVariant } from "@/lib/mock-data/products";
+
+async function requestJson<T>(
+  url: string,
+  init: { method: string; body?: unknown }
+): Promise<T> {
+  const response = await fetch(url, {
+    method: init.method,
+    headers:
+      init.body instanceof FormData
+        ? undefined
+        : { "Content-Type": "application/json" },
+    body:
+      init.body === undefined || init.body instanceof FormData
+        ? init.body
+        : JSON.stringify(init.body),
+  });
+  const result = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(
+      result?.error ?? `Request failed with status ${response.status}`
+    );
+  }
+  return result as T;
+}
+
+export interface ProductInput {
+  name: string;
+  sku: string;
+  description: string;
+  category: string;
+  brand: string;
+  price: string; // Decimal, in the store currency
+  stock: number;
+  lowStockThreshold: number;
+  variants: ProductVariant[];
+  images: string[];
+  status: Product["status"];
+}
+
+export function createProduct(product: ProductInput) {
+  return requestJson<Product>("/api/products", {
+    method: "POST",
+    body: product,
+  });
+}
+
+export function updateProduct(id: number, product: ProductInput) {
+  return requestJson<Product>(`/api/products/${id}`, {
+    method: "PUT",
+    body: product,
+  });
+}
+
+export function deleteProduct(id: number) {
+  return requestJson<Product>(`/api/products/${id}`, { method: "DELETE" });
+}
+
+// URLs of the stored images, in the order of `files`
+export async function uploadProductImages(files: File[]) {
+  const form = new FormData();
+  files.forEach((file) => form.append("files", file));
+  return (
+    await requestJson<{ images: string[] }>("/api/products/images", {
+      method: "POST",
+      body: form,
+    })
+  ).images;
+}
+
+export function addCategory(name: string) {
+  return requestJson<string>("/api/products/categories", {
+    method: "POST",
+    body: { name },
+  });
+}
+
+export function deleteCategory(name: string) {
+  return requestJson<string>(
+    `/api/products/categories/${encodeURIComponent(name)}`,
+    { method: "DELETE" }
+  );
+}
@@ -1,10 +1,104 @@
-import React from "react";
+"use client";
+import React, { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useMailbox } from "@/context/MailboxContext";
+import type { MailAddress, MailMessage } from "@/lib/mail/types";
+import MailComposeForm, { type MailDraft } from "../MailComposeForm";
+import { formatAddress } from "../mailFormat";
+
+type ReplyMode = "reply" | "replyAll" | "forward";
+
+interface EmailDetailsBottomProps {
+  thread: MailMessage[]; // Oldest first
+  mailbox: MailAddress;
+}
+
+const withPrefix = (prefix: string, subject: string) =>
+  subject.toLowerCase().startsWith(prefix.toLowerCase())
+    ? subject
+    : `${prefix} ${subject}`;
+
+const joinAddresses = (addresses: MailAddress[]) =>
+  addresses.map(formatAddress).join(", ");
+
+function createDraft(
+  mode: ReplyMode,
+  message: MailMessage,
+  mailbox: MailAddress
+): MailDraft {
+  const date = new Date(message.date).toLocaleString();
+  if (mode === "forward") {
+    return {
+      to: "",
+      cc: "",
+      subject: withPrefix("Fwd:", message.subject),
+      text: [
+        "",
+        "",
+        "---------- Forwarded message ---------",
+        `From: ${formatAddress(message.from)}`,
+        `Date: ${date}`,
+        `Subject: ${message.subject}`,
+        `To: ${joinAddresses(message.to)}`,
+        "",
+        message.text,
+      ].join("\n"),
+    };
+  }
+  // Answering our own message goes to its recipients again
+  const fromUs = message.from.email === mailbox.email;
+  const to = fromUs ? message.to : [message.from];
+  const isOther = (address: MailAddress) =>
+    address.email !== mailbox.email &&
+    !to.some((recipient) => recipient.email === address.email);
+  const cc =
+    mode === "replyAll" ? [...message.to, ...message.cc].filter(isOther) : [];
+  return {
+    to: joinAddresses(to),
+    cc: joinAddresses(cc),
+    subject: withPrefix("Re:", message.subject),
+    text: `\n\nOn ${date}, ${formatAddress(message.from)} wrote:\n${message.text
+      .split("\n")
+      .map((line) => `> ${line}`)
+      .join("\n")}`,
+  };
+}
+
+export default function EmailDetailsBottom({
+  thread,
+  mailbox,
+}: EmailDetailsBottomProps) {
+  const router = useRouter();
+  const { notifyChange } = useMailbox();
+  const [mode, setMode] = useState<ReplyMode | null>(null);
+  // Reply to the newest message someone else sent, if there is one
+  const target =
+    [...thread].reverse().find((m) => m.from.email !== mailbox.email) ??
+    thread[thread.length - 1];
 
-export default function EmailDetailsBottom() {
   return (
     <div className="sticky bottom-0 border-t border-gray-200 bg-white p-4 dark:border-gray-800 dark:bg-[#171f2f]">
+      {mode && (
+        <div className="mb-4">
+          <MailComposeForm
+            key={mode}
+            initial={createDraft(mode, target, mailbox)}
+            replyTo={mode === "forward" ? null : target.id}
+            onCancel={() => setMode(null)}
+            onSent={() => {
+              setMode(null);
+              notifyChange();
+              // Loads the thread again with the reply in it
+              router.refresh();
+            }}
+          />
+        </div>
+      )}
       <div className="flex flex-wrap sm:flex-row flex-col gap-3">
-        <button className="items-center  inline-flex justify-center gap-2 rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-500 shadow-theme-xs hover:bg-gray-50 hover:text-gray-800 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-400 dark:hover:bg-white/[0.03] dark:hover:text-gray-200">
+        <button
+          onClick={() => setMode("reply")}
+          className="items-center  inline-flex justify-center gap-2 rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-500 shadow-theme-xs hover:bg-gray-50 hover:text-gray-800 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-400 dark:hover:bg-white/[0.03] dark:hover:text-gray-200"
+        >
           <svg
             className="stroke-current"
             width="20"
@@ -23,7 +117,10 @@ export default function EmailDetailsBottom() {
           </svg>
           Reply
         </button>
-        <button className="items-center inline-flex justify-center gap-2 rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-500 shadow-theme-xs hover:bg-gray-50 hover:text-gray-800 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-400 dark:hover:bg-white/[0.03] dark:hover:text-gray-200">
+        <button
+          onClick={() => setMode("replyAll")}
+          className="items-center inline-flex justify-center gap-2 rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-500 shadow-theme-xs hover:bg-gray-50 hover:text-gray-800 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-400 dark:hover:bg-white/[0.03] dark:hover:text-gray-200"
+        >
           <svg
             className="fill-current"
             width="20"
@@ -41,7 +138,10 @@ export default function EmailDetailsBottom() {
           </svg>
           Reply all
         </button>
-        <button className="items-center inline-flex justify-center gap-2 rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-500 shadow-theme-xs hover:bg-gray-50 hover:text-gray-800 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-400 dark:hover:bg-white/[0.03] dark:hover:text-gray-200">
+        <button
+          onClick={() => setMode("forward")}
+          className="items-center inline-flex justify-center gap-2 rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-500 shadow-theme-xs hover:bg-gray-50 hover:text-gray-800 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-400 dark:hover:bg-white/[0.03] dark:hover:text-gray-200"
+        >
           <svg
             className="stroke-current"
             width="20"
@@ -1,14 +1,62 @@
 "use client";
-import useGoBack from "@/hooks/useGoBack";
-import React from "react";
+import React, { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useMailbox } from "@/context/MailboxContext";
+import type { MailChanges } from "@/lib/mail/mailbox";
+import { serializeMailQuery } from "@/lib/mail/query";
+import type { MailMessage } from "@/lib/mail/types";
+import { deleteMessages, updateMessages } from "../mailApi";
+
+export interface ThreadPosition {
+  index: number; // 0-based
+  total: number;
+  previous: string | null; // Thread ids of the neighbours in the list
+  next: string | null;
+}
+
+interface EmailDetailsHeaderProps {
+  thread: MailMessage[];
+  position: ThreadPosition | null;
+}
+
+export default function EmailDetailsHeader({
+  thread,
+  position,
+}: EmailDetailsHeaderProps) {
+  const router = useRouter();
+  const { query, listHref, notifyChange } = useMailbox();
+  const [error, setError] = useState<string | null>(null);
+  const ids = thread.map((message) => message.id);
+  const inTrash = thread.every((message) => message.folder === "trash");
+  const threadHref = (threadId: string) => {
+    const params = serializeMailQuery({ ...query, page: 1 }).toString();
+    return `/inbox/${threadId}${params ? `?${params}` : ""}`;
+  };
+
+  // Every action takes the conversation out of view, so go back to the list
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+      notifyChange();
+      router.push(listHref(query));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+  const apply = (changes: MailChanges) =>
+    run(() => updateMessages(ids, changes));
+
+  const navButtonClass =
+    "flex h-8 w-8 items-center justify-center rounded-lg border border-gray-200 bg-white text-gray-500 hover:bg-gray-50 dark:border-gray-800 dark:bg-white/[0.03] dark:hover:text-gray-200 dark:text-gray-400 dark:hover:bg-white/[0.07] transition";
 
-export default function EmailDetailsHeader() {
-  const goBack = useGoBack();
   return (
     <div className="flex flex-col justify-between border-b border-gray-200 dark:border-gray-800 sm:flex-row">
       <div className="flex items-center justify-between w-full gap-3 px-4 py-4 sm:justify-normal">
-        <button
-          onClick={goBack}
+        <Link
+          href={listHref(query)}
+          title="Back to list"
           className="flex h-10 w-full max-w-10 items-center justify-center rounded-lg border border-gray-200 bg-white text-gray-700 hover:bg-gray-100 hover:text-gray-800 dark:border-gray-800 dark:bg-white/[0.03] transition dark:text-gray-400 dark:hover:bg-white/[0.07] dark:hover:text-gray-200"
         >
           <svg
@@ -25,11 +73,15 @@ export default function EmailDetailsHeader() {
               fill="currentColor"
             />
           </svg>
-        </button>
+        </Link>
 
         <div className="flex items-center gap-3">
           <div className="flex">
-            <button className="flex h-10 w-10 items-center justify-center text-gray-500 ring-1 ring-inset ring-gray-200 first:rounded-l-lg last:rounded-r-lg hover:bg-gray-100 transition hover:text-error-500 dark:bg-white/[0.03] dark:text-gray-400 dark:ring-gray-700 dark:hover:bg-white/[0.05] dark:hover:text-error-500">
+            <button
+              onClick={() => run(() => deleteMessages(ids))}
+              title={inTrash ? "Delete forever" : "Move to trash"}
+              className="flex h-10 w-10 items-center justify-center text-gray-500 ring-1 ring-inset ring-gray-200 first:rounded-l-lg last:rounded-r-lg hover:bg-gray-100 transition hover:text-error-500 dark:bg-white/[0.03] dark:text-gray-400 dark:ring-gray-700 dark:hover:bg-white/[0.05] dark:hover:text-error-500"
+            >
               <svg
                 width="20"
                 height="20"
@@ -45,7 +97,21 @@ export default function EmailDetailsHeader() {
                 />
               </svg>
             </button>
-            <button className="-ml-px flex h-10 w-10 items-center justify-center text-gray-500 ring-1 ring-inset ring-gray-200 first:rounded-l-lg last:rounded-r-lg hover:bg-gray-100 transition hover:text-gray-700 dark:bg-white/[0.03] dark:text-gray-400 dark:ring-gray-700 dark:hover:bg-white/[0.05] dark:hover:text-white">
+            <button
+              onClick={() =>
+                apply({
+                  folder: thread.some((m) => m.folder === "spam")
+                    ? "inbox"
+                    : "spam",
+                })
+              }
+              title={
+                thread.some((m) => m.folder === "spam")
+                  ? "Not spam"
+                  : "Report spam"
+              }
+              className="-ml-px flex h-10 w-10 items-center justify-center text-gray-500 ring-1 ring-inset ring-gray-200 first:rounded-l-lg last:rounded-r-lg hover:bg-gray-100 transition hover:text-gray-700 dark:bg-white/[0.03] dark:text-gray-400 dark:ring-gray-700 dark:hover:bg-white/[0.05] dark:hover:text-white"
+            >
               <svg
                 width="20"
                 height="20"
@@ -61,7 +127,11 @@ export default function EmailDetailsHeader() {
                 />
               </svg>
             </button>
-            <button className="-ml-px flex h-10 w-10 items-center justify-center rounded-r-lg text-gray-500 ring-1 ring-inset ring-gray-200 first:rounded-l-lg last:rounded-r-lg hover:bg-gray-100 hover:text-gray-700 dark:bg-white/[0.03] dark:text-gray-400 dark:ring-gray-700 dark:hover:bg-white/[0.05] transition dark:hover:text-white">
+            <button
+              onClick={() => apply({ folder: "archive" })}
+              title="Archive"
+              className="-ml-px flex h-10 w-10 items-center justify-center rounded-r-lg text-gray-500 ring-1 ring-inset ring-gray-200 first:rounded-l-lg last:rounded-r-lg hover:bg-gray-100 hover:text-gray-700 dark:bg-white/[0.03] dark:text-gray-400 dark:ring-gray-700 dark:hover:bg-white/[0.05] transition dark:hover:text-white"
+            >
               <svg
                 width="20"
                 height="20"
@@ -79,7 +149,11 @@ export default function EmailDetailsHeader() {
             </button>
           </div>
 
-          <button className="flex h-10 transition w-10 items-center justify-center rounded-lg border border-gray-200 bg-white text-gray-500 hover:bg-gray-50 hover:text-gray-700 dark:border-gray-800 dark:bg-white/[0.03] dark:text-gray-400 dark:hover:bg-white/[0.03] dark:hover:text-gray-200">
+          <button
+            onClick={() => apply({ read: false })}
+            title="Mark as unread"
+            className="flex h-10 transition w-10 items-center justify-center rounded-lg border border-gray-200 bg-white text-gray-500 hover:bg-gray-50 hover:text-gray-700 dark:border-gray-800 dark:bg-white/[0.03] dark:text-gray-400 dark:hover:bg-white/[0.03] dark:hover:text-gray-200"
+          >
             <svg
               className="fill-current"
               width="20"
@@ -100,42 +174,95 @@ export default function EmailDetailsHeader() {
       </div>
 
       <div className="flex items-center justify-between w-full gap-4 px-4 py-3 border-t border-gray-200 dark:border-gray-800 sm:justify-end sm:border-t-0 sm:py-5">
-        <p className="text-sm text-gray-500 dark:text-gray-400">4 of 120</p>
+        {error && <p className="text-sm text-error-500">{error}</p>}
+        {position && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {position.index + 1} of {position.total}
+          </p>
+        )}
         <div className="flex items-center justify-end gap-2">
-          <button className="flex h-8 w-8 items-center justify-center rounded-lg border border-gray-200 bg-white text-gray-500 hover:bg-gray-50 dark:border-gray-800 dark:bg-white/[0.03] dark:hover:text-gray-200 dark:text-gray-400 dark:hover:bg-white/[0.07] transition">
-            <svg
-              width="20"
-              height="20"
-              viewBox="0 0 20 20"
-              fill="none"
-              xmlns="http://www.w3.org/2000/svg"
+          {position?.previous ? (
+            <Link
+              href={threadHref(position.previous)}
+              title="Newer"
+              className={navButtonClass}
             >
-              <path
-                d="M12.7083 5L7.5 10.2083L12.7083 15.4167"
-                stroke="currentColor"
-                strokeWidth="1.5"
-                strokeLinecap="round"
-                strokeLinejoin="round"
-              />
-            </svg>
-          </button>
-          <button className="flex h-8 w-8 items-center justify-center rounded-lg border border-gray-200 bg-white text-gray-500 hover:bg-gray-50 dark:border-gray-800 dark:bg-white/[0.03]  dark:hover:text-gray-200 dark:text-gray-400 dark:hover:bg-white/[0.07] transition">
-            <svg
-              width="20"
-              height="20"
-              viewBox="0 0 20 20"
-              fill="none"
-              xmlns="http://www.w3.org/2000/svg"
+              <svg
+                width="20"
+                height="20"
+                viewBox="0 0 20 20"
+                fill="none"
+                xmlns="http://www.w3.org/2000/svg"
+              >
+                <path
+                  d="M12.7083 5L7.5 10.2083L12.7083 15.4167"
+                  stroke="currentColor"
+                  strokeWidth="1.5"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                />
+              </svg>
+            </Link>
+          ) : (
+            <span className={`${navButtonClass} opacity-50`}>
+              <svg
+                width="20"
+                height="20"
+                viewBox="0 0 20 20"
+                fill="none"
+                xmlns="http://www.w3.org/2000/svg"
+              >
+                <path
+                  d="M12.7083 5L7.5 10.2083L12.7083 15.4167"
+                  stroke="currentColor"
+                  strokeWidth="1.5"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                />
+              </svg>
+            </span>
+          )}
+          {position?.next ? (
+            <Link
+              href={threadHref(position.next)}
+              title="Older"
+              className={navButtonClass}
             >
-              <path
-                d="M7.29167 15.8335L12.5 10.6252L7.29167 5.41683"
-                stroke="currentColor"
-                strokeWidth="1.5"
-                strokeLinecap="round"
-                strokeLinejoin="round"
-              />
-            </svg>
-          </button>
+              <svg
+                width="20"
+                height="20"
+                viewBox="0 0 20 20"
+                fill="none"
+                xmlns="http://www.w3.org/2000/svg"
+              >
+                <path
+                  d="M7.29167 15.8335L12.5 10.6252L7.29167 5.41683"
+                  stroke="currentColor"
+                  strokeWidth="1.5"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                />
+              </svg>
+            </Link>
+          ) : (
+            <span className={`${navButtonClass} opacity-50`}>
+              <svg
+                width="20"
+                height="20"
+                viewBox="0 0 20 20"
+                fill="none"
+                xmlns="http://www.w3.org/2000/svg"
+              >
+                <path
+                  d="M7.29167 15.8335L12.5 10.6252L7.29167 5.41683"
+                  stroke="currentColor"
+                  strokeWidth="1.5"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                />
+              </svg>
+            </span>
+          )}
         </div>
       </div>
     </div>
@@ -1,150 +1,108 @@
 "use client";
-import React, { useState } from "react";
-import EmailHeader from "./EmailHeader";
+import React from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import EmailHeader, { type MailSelection } from "./EmailHeader";
 import EmailPagination from "./EmailPagination";
 import Checkbox from "../../form/input/Checkbox";
 import SimpleBar from "simplebar-react";
-
-interface Mail {
-  subject: string;
-  content: string;
-  time: string;
-  badge?: "Important" | "Social" | "Promotional";
-}
-
-const mailData: Mail[] = [
-  {
-    subject: "Material UI",
-    content:
-      "Lorem ipsum dolor sit amet, consectetur adipisicing elit. Assumenda dolor dolore esse modi nesciunt, nobis numquam sed sequi sunt totam!",
-    time: "12:16 pm",
-    badge: "Important",
-  },
-  {
-    subject: "Wise",
-    content:
-      "Lorem ipsum dolor sit amet, consectetur adipisicing elit. Assumenda dolor dolore esse modi nesciunt, nobis numquam sed sequi sunt totam!",
-    time: "12:16 pm",
-  },
-  {
-    subject: "Search Console",
-    content:
-      "Lorem ipsum dolor sit amet, consectetur adipisicing elit. Assumenda dolor dolore esse modi nesciunt, nobis numquam sed sequi sunt totam!",
-    time: "Apr, 24",
-    badge: "Social",
-  },
-  {
-    subject: "Paypal",
-    content:
-      "Lorem ipsum dolor sit amet, consectetur adipisicing elit. Assumenda dolor dolore esse modi nesciunt, nobis numquam sed sequi sunt totam!",
-    time: "Apr, 30",
-  },
-  {
-    subject: "Google Meet",
-    content:
-      "Lorem ipsum dolor sit amet, consectetur adipisicing elit. Assumenda dolor dolore esse modi nesciunt, nobis numquam sed sequi sunt totam!",
-    time: "Apr, 16",
-  },
-  {
-    subject: "Loom",
-    content:
-      "Lorem ipsum dolor sit amet, consectetur adipisicing elit. Assumenda dolor dolore esse modi nesciunt, nobis numquam sed sequi sunt totam!",
-    time: "Apr, 24",
-  },
-  {
-    subject: "Airbnb",
-    content:
-      "Lorem ipsum dolor sit amet, consectetur adipisicing elit. Assumenda dolor dolore esse modi nesciunt, nobis numquam sed sequi sunt totam!",
-    time: "Mar, 05",
-  },
-  {
-    subject: "Facebook",
-    content:
-      "Lorem ipsum dolor sit amet, consectetur adipisicing elit. Assumenda dolor dolore esse modi nesciunt, nobis numquam sed sequi sunt totam!",
-    time: "Feb, 25",
-  },
-  {
-    subject: "Instagram",
-    content:
-      "Lorem ipsum dolor sit amet, consectetur adipisicing elit. Assumenda dolor dolore esse modi nesciunt, nobis numquam sed sequi sunt totam!",
-    time: "Feb, 20",
-    badge: "Promotional",
-  },
-  {
-    subject: "Google",
-    content:
-      "Lorem ipsum dolor sit amet, consectetur adipisicing elit. Assumenda dolor dolore esse modi nesciunt, nobis numquam sed sequi sunt totam!",
-    time: "Feb, 25",
-  },
-  {
-    subject: "FormBold",
-    content:
-      "Lorem ipsum dolor sit amet, consectetur adipisicing elit. Assumenda dolor dolore esse modi nesciunt, nobis numquam sed sequi sunt totam!",
-    time: "Jan, 22",
-  },
-  {
-    subject: "GrayGrids",
-    content:
-      "Lorem ipsum dolor sit amet, consectetur adipisicing elit. Assumenda dolor dolore esse modi nesciunt, nobis numquam sed sequi sunt totam!",
-    time: "Feb, 25",
-  },
-  {
-    subject: "UIdeck",
-    content:
-      "Lorem ipsum dolor sit amet, consectetur adipisicing elit. Assumenda dolor dolore esse modi nesciunt, nobis numquam sed sequi sunt totam!",
-    time: "Feb, 15",
-  },
-];
+import { useMailbox } from "@/context/MailboxContext";
+import { serializeMailQuery } from "@/lib/mail/query";
+import { useMailList } from "./useMailList";
+import {
+  addressName,
+  formatMailTime,
+  labelColors,
+  labelNames,
+} from "../mailFormat";
 
 export default function EmailContent() {
-  const [checkedItems, setCheckedItems] = useState<boolean[]>(
-    new Array(mailData.length).fill(false)
-  );
-  const [starredItems, setStarredItems] = useState<boolean[]>(
-    new Array(mailData.length).fill(false)
-  );
-
-  const toggleCheck = (index: number, checked: boolean) => {
-    const updated = [...checkedItems];
-    updated[index] = checked;
-    setCheckedItems(updated);
-  };
+  const router = useRouter();
+  const { query, listHref } = useMailbox();
+  const {
+    rows,
+    total,
+    page,
+    pageSize,
+    status,
+    error,
+    selectedIds,
+    setSelectedIds,
+    toggleSelected,
+    toggleStar,
+    applyChanges,
+    remove,
+    reload,
+  } = useMailList();
+  const folder = query.filter || query.label ? null : query.folder;
+  // Opened threads remember the list they came from
+  const threadParams = serializeMailQuery({ ...query, page: 1 }).toString();
 
-  const toggleStar = (index: number) => {
-    const updated = [...starredItems];
-    updated[index] = !updated[index];
-    setStarredItems(updated);
-  };
-  const handleSelectAll = (checked: boolean) => {
-    setCheckedItems(new Array(mailData.length).fill(checked));
+  const handleSelect = (selection: MailSelection) => {
+    setSelectedIds(
+      rows
+        .filter(
+          (mail) => selection === "all" || mail.read === (selection === "read")
+        )
+        .map((mail) => mail.id)
+    );
   };
 
-  const allChecked = checkedItems.every(Boolean);
+  const allChecked =
+    rows.length > 0 && rows.every((mail) => selectedIds.includes(mail.id));
 
   return (
     <div className="rounded-2xl xl:col-span-9 w-full border border-gray-200 bg-white dark:border-gray-800 dark:bg-white/[0.03]">
-      <EmailHeader isChecked={allChecked} onSelectAll={handleSelectAll} />
+      <EmailHeader
+        isChecked={allChecked}
+        onSelectAll={(checked) =>
+          setSelectedIds(checked ? rows.map((mail) => mail.id) : [])
+        }
+        onSelect={handleSelect}
+        selectedCount={selectedIds.length}
+        folder={folder}
+        onRefresh={reload}
+        onDelete={() => remove(selectedIds)}
+        onChange={(changes) => applyChanges(selectedIds, changes)}
+        search={query.search}
+        onSearch={(search) =>
+          router.push(listHref({ ...query, search, page: 1 }))
+        }
+      />
+      {error && <p className="px-4 pt-3 text-sm text-error-500">{error}</p>}
       <SimpleBar className="max-h-[510px] 2xl:max-h-[630px]">
         <div className="divide-y divide-gray-200 dark:divide-gray-800">
-          {mailData.map((mail, index) => (
+          {status === "loading" && rows.length === 0 && (
+            <p className="px-4 py-6 text-sm text-center text-gray-500 dark:text-gray-400">
+              Loading messages...
+            </p>
+          )}
+          {status === "ready" && rows.length === 0 && (
+            <p className="px-4 py-6 text-sm text-center text-gray-500 dark:text-gray-400">
+              {query.search
+                ? `No messages match “${query.search}”.`
+                : "No messages here."}
+            </p>
+          )}
+          {rows.map((mail) => (
             <div
-              key={index}
+              key={mail.id}
               className="flex cursor-pointer items-center px-4 py-4 hover:bg-gray-100 dark:border-gray-800 dark:hover:bg-white/[0.03]"
             >
               {/* Left Section */}
               <div className="flex items-center w-1/5">
                 {/* Custom Checkbox */}
                 <Checkbox
-                  checked={checkedItems[index]}
-                  onChange={(checked) => toggleCheck(index, checked)}
+                  checked={selectedIds.includes(mail.id)}
+                  onChange={(checked) => toggleSelected(mail.id, checked)}
                 />
 
                 {/* Star */}
                 <span
                   className="ml-3 text-gray-400 cursor-pointer"
-                  onClick={() => toggleStar(index)}
+                  onClick={() => toggleStar(mail)}
                 >
-                  {starredItems[index] ? (
+                  {mail.starred ? (
                     <svg
                       width="20"
                       height="20"
@@ -172,39 +130,72 @@ export default function EmailContent() {
                   )}
                 </span>
 
-                {/* Subject */}
-                <span className="ml-3 text-sm text-gray-700 truncate dark:text-gray-400">
-                  {mail.subject}
-                </span>
+                {/* Sender */}
+                <Link
+                  href={`/inbox/${mail.threadId}?${threadParams}`}
+                  className={`ml-3 text-sm truncate ${
+                    mail.read
+                      ? "text-gray-700 dark:text-gray-400"
+                      : "font-semibold text-gray-800 dark:text-white/90"
+                  }`}
+                >
+                  {folder === "sent" || folder === "draft"
+                    ? `To: ${mail.to.map(addressName).join(", ")}`
+                    : addressName(mail.from)}
+                </Link>
               </div>
 
               {/* Middle Section */}
-              <div className="flex items-center w-3/5 gap-3">
-                <p className="text-sm text-gray-500 truncate">{mail.content}</p>
-                {mail.badge && (
+              <Link
+                href={`/inbox/${mail.threadId}?${threadParams}`}
+                className="flex items-center w-3/5 gap-3"
+              >
+                <p className="text-sm text-gray-500 truncate">
                   <span
-                    className={`hidden rounded-full px-2 py-0.5 text-xs font-medium sm:inline-block ${
-                      mail.badge === "Important"
-                        ? "text-red-700 bg-red-100"
-                        : mail.badge === "Social"
-                        ? "text-green-700 bg-green-100"
-                        : "text-blue-700 bg-blue-100"
-                    }`}
+                    className={
+                      mail.read
+                        ? "text-gray-700 dark:text-gray-400"
+                        : "font-semibold text-gray-800 dark:text-white/90"
+                    }
                   >
-                    {mail.badge}
+                    {mail.subject || "(no subject)"}
+                  </span>{" "}
+                  - {mail.preview}
+                </p>
+                {mail.important && (
+                  <span className="hidden rounded-full px-2 py-0.5 text-xs font-medium sm:inline-block text-red-700 bg-red-100">
+                    Important
                   </span>
                 )}
-              </div>
+                {mail.labels.map((label) => (
+                  <span
+                    key={label}
+                    className="hidden rounded-full px-2 py-0.5 text-xs font-medium text-white sm:inline-block"
+                    style={{ backgroundColor: labelColors[label] }}
+                  >
+                    {labelNames[label]}
+                  </span>
+                ))}
+              </Link>
 
               {/* Right Section */}
               <div className="w-1/5 text-right">
-                <span className="block text-xs text-gray-400">{mail.time}</span>
+                <span className="block text-xs text-gray-400">
+                  {formatMailTime(mail.date)}
+                </span>
               </div>
             </div>
           ))}
         </div>
       </SimpleBar>
-      <EmailPagination />
+      <EmailPagination
+        page={page}
+        pageSize={pageSize}
+        total={total}
+        onPageChange={(target) =>
+          router.push(listHref({ ...query, page: target }))
+        }
+      />
     </div>
   );
 }
@@ -4,17 +4,40 @@ import Checkbox from "../../form/input/Checkbox";
 import { Dropdown } from "../../ui/dropdown/Dropdown";
 import { DropdownItem } from "../../ui/dropdown/DropdownItem";
 import { MoreDotIcon } from "@/icons";
+import type { MailChanges } from "@/lib/mail/mailbox";
+import { MAIL_LABELS, type MailFolder } from "@/lib/mail/types";
+import { labelNames } from "../mailFormat";
+
+export type MailSelection = "all" | "read" | "unread";
 
 interface EmailHeaderProps {
   isChecked: boolean;
   onSelectAll: (checked: boolean) => void;
+  onSelect: (selection: MailSelection) => void; // Selects the matching messages on the page
+  selectedCount: number;
+  folder: MailFolder | null; // Null when listing a filter or label
+  onRefresh: () => void;
+  onDelete: () => void;
+  onChange: (changes: MailChanges) => void; // Applied to the selected messages
+  search: string;
+  onSearch: (search: string) => void;
 }
 
 export default function EmailHeader({
   isChecked,
   onSelectAll,
+  onSelect,
+  selectedCount,
+  folder,
+  onRefresh,
+  onDelete,
+  onChange,
+  search,
+  onSearch,
 }: EmailHeaderProps) {
   const [isOpen, setIsOpen] = useState(false);
+  const [searchTerm, setSearchTerm] = useState(search);
+  const hasSelection = selectedCount > 0;
 
   function toggleDropdown() {
     setIsOpen(!isOpen);
@@ -34,6 +57,21 @@ export default function EmailHeader({
     setIsOpenTwo(false);
   }
 
+  const moreActions: { name: string; changes: MailChanges }[] = [
+    { name: "Mark as read", changes: { read: true } },
+    { name: "Mark as unread", changes: { read: false } },
+    { name: "Mark as important", changes: { important: true } },
+    { name: "Mark as not important", changes: { important: false } },
+    folder === "spam"
+      ? { name: "Not spam", changes: { folder: "inbox" } }
+      : { name: "Report spam", changes: { folder: "spam" } },
+    ...MAIL_LABELS.map((label) => ({
+      name: `Label as ${labelNames[label]}`,
+      changes: { addLabels: [label] },
+    })),
+    { name: "Remove labels", changes: { removeLabels: [...MAIL_LABELS] } },
+  ];
+
   return (
     <div className="flex flex-col justify-between gap-3 p-4 border-b border-gray-200 dark:border-gray-800 sm:flex-row">
       <div className="flex items-center w-full gap-2">
@@ -69,19 +107,28 @@ export default function EmailHeader({
             className="absolute left-0 z-40 w-40 p-2 mt-1 space-y-1 bg-white border border-gray-200 top-full rounded-2xl shadow-theme-lg dark:border-gray-800 dark:bg-gray-dark"
           >
             <DropdownItem
-              onItemClick={closeDropdown}
+              onItemClick={() => {
+                onSelect("all");
+                closeDropdown();
+              }}
               className="flex w-full px-3 py-2 font-medium text-left text-gray-500 rounded-lg text-theme-xs hover:bg-gray-100 hover:text-gray-700 dark:text-gray-400 dark:hover:bg-white/5 dark:hover:text-gray-300"
             >
               All
             </DropdownItem>
             <DropdownItem
-              onItemClick={closeDropdown}
+              onItemClick={() => {
+                onSelect("read");
+                closeDropdown();
+              }}
               className="flex w-full px-3 py-2 font-medium text-left text-gray-500 rounded-lg text-theme-xs hover:bg-gray-100 hover:text-gray-700 dark:text-gray-400 dark:hover:bg-white/5 dark:hover:text-gray-300"
             >
               Read
-            </DropdownItem>{" "}
+            </DropdownItem>
             <DropdownItem
-              onItemClick={closeDropdown}
+              onItemClick={() => {
+                onSelect("unread");
+                closeDropdown();
+              }}
               className="flex w-full px-3 py-2 font-medium text-left text-gray-500 rounded-lg text-theme-xs hover:bg-gray-100 hover:text-gray-700 dark:text-gray-400 dark:hover:bg-white/5 dark:hover:text-gray-300"
             >
               Unread
@@ -89,7 +136,11 @@ export default function EmailHeader({
           </Dropdown>
         </div>
 
-        <button className="flex items-center justify-center w-full h-10 text-gray-500 transition-colors border border-gray-200 rounded-lg max-w-10 hover:bg-gray-100 hover:text-gray-700 dark:border-gray-800 dark:text-gray-400 dark:hover:bg-gray-800 dark:hover:text-white">
+        <button
+          onClick={onRefresh}
+          title="Refresh"
+          className="flex items-center justify-center w-full h-10 text-gray-500 transition-colors border border-gray-200 rounded-lg max-w-10 hover:bg-gray-100 hover:text-gray-700 dark:border-gray-800 dark:text-gray-400 dark:hover:bg-gray-800 dark:hover:text-white"
+        >
           <svg
             width="20"
             height="20"
@@ -106,7 +157,12 @@ export default function EmailHeader({
           </svg>
         </button>
 
-        <button className="flex items-center justify-center w-full h-10 text-gray-500 transition-colors border border-gray-200 rounded-lg max-w-10 hover:bg-gray-100 hover:text-error-500 dark:border-gray-800 dark:text-gray-400 dark:hover:bg-gray-800 dark:hover:text-error-500">
+        <button
+          onClick={onDelete}
+          disabled={!hasSelection}
+          title={folder === "trash" ? "Delete forever" : "Move to trash"}
+          className="flex items-center justify-center w-full h-10 text-gray-500 transition-colors border border-gray-200 rounded-lg max-w-10 disabled:opacity-50 hover:bg-gray-100 hover:text-error-500 dark:border-gray-800 dark:text-gray-400 dark:hover:bg-gray-800 dark:hover:text-error-500"
+        >
           <svg
             className="fill-current"
             width="20"
@@ -124,7 +180,14 @@ export default function EmailHeader({
           </svg>
         </button>
 
-        <button className="flex items-center justify-center w-full h-10 text-gray-500 border border-gray-200 rounded-lg max-w-10 hover:bg-gray-100 hover:text-gray-700 dark:border-gray-800 dark:text-gray-400 dark:hover:bg-gray-800 dark:hover:text-white">
+        <button
+          onClick={() =>
+            onChange({ folder: folder === "archive" ? "inbox" : "archive" })
+          }
+          disabled={!hasSelection}
+          title={folder === "archive" ? "Move to inbox" : "Archive"}
+          className="flex items-center justify-center w-full h-10 text-gray-500 border border-gray-200 rounded-lg max-w-10 disabled:opacity-50 hover:bg-gray-100 hover:text-gray-700 dark:border-gray-800 dark:text-gray-400 dark:hover:bg-gray-800 dark:hover:text-white"
+        >
           <svg
             width="20"
             height="20"
@@ -144,6 +207,7 @@ export default function EmailHeader({
         <div className="relative inline-block">
           <button
             onClick={toggleDropdownTwo}
+            disabled={!hasSelection}
             className="flex items-center w-10 dropdown-toggle text-gray-500 justify-center  h-10 transition-colors border border-gray-200 rounded-lg max-w-10 dark:text-gray-400 hover:bg-gray-100 dark:border-white/[0.05] dark:hover:bg-gray-800"
           >
             <MoreDotIcon className="text-gray-400 dropdown-toggle  hover:text-gray-700 dark:hover:text-gray-300" />
@@ -151,26 +215,31 @@ export default function EmailHeader({
           <Dropdown
             isOpen={isOpenTwo}
             onClose={closeDropdownTwo}
-            className="w-40 p-2"
+            className="w-48 p-2"
           >
-            <DropdownItem
-              onItemClick={closeDropdownTwo}
-              className="flex w-full font-normal text-left text-gray-500 rounded-lg hover:bg-gray-100 hover:text-gray-700 dark:text-gray-400 dark:hover:bg-white/5 dark:hover:text-gray-300"
-            >
-              View More
-            </DropdownItem>
-            <DropdownItem
-              onItemClick={closeDropdownTwo}
-              className="flex w-full font-normal text-left text-gray-500 rounded-lg hover:bg-gray-100 hover:text-gray-700 dark:text-gray-400 dark:hover:bg-white/5 dark:hover:text-gray-300"
-            >
-              Delete
-            </DropdownItem>
+            {moreActions.map((action) => (
+              <DropdownItem
+                key={action.name}
+                onItemClick={() => {
+                  onChange(action.changes);
+                  closeDropdownTwo();
+                }}
+                className="flex w-full font-normal text-left text-gray-500 rounded-lg hover:bg-gray-100 hover:text-gray-700 dark:text-gray-400 dark:hover:bg-white/5 dark:hover:text-gray-300"
+              >
+                {action.name}
+              </DropdownItem>
+            ))}
           </Dropdown>
         </div>
       </div>
 
       <div className=" w-full sm:max-w-[236px]">
-        <form>
+        <form
+          onSubmit={(event) => {
+            event.preventDefault();
+            onSearch(searchTerm.trim());
+          }}
+        >
           <div className="relative">
             <span className="absolute -translate-y-1/2 left-4 top-1/2 pointer-events-none">
               <svg
@@ -192,6 +261,8 @@ export default function EmailHeader({
             <input
               type="text"
               placeholder="Search..."
+              value={searchTerm}
+              onChange={(event) => setSearchTerm(event.target.value)}
               className="dark:bg-dark-900 h-10 w-full rounded-lg border border-gray-300 bg-transparent px-4 py-2.5 pl-[42px] text-sm text-gray-800 shadow-theme-xs placeholder:text-gray-400 focus:border-brand-300 focus:outline-hidden focus:ring-3 focus:ring-brand-500/10 dark:border-gray-700 dark:text-white/90 dark:placeholder:text-white/30 dark:focus:border-brand-800"
             />
           </div>
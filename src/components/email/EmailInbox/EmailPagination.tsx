@@ -1,13 +1,33 @@
 import React from "react";
 
-export default function EmailPagination() {
+interface EmailPaginationProps {
+  page: number;
+  pageSize: number;
+  total: number;
+  onPageChange: (page: number) => void;
+}
+
+export default function EmailPagination({
+  page,
+  pageSize,
+  total,
+  onPageChange,
+}: EmailPaginationProps) {
+  const first = total === 0 ? 0 : (page - 1) * pageSize + 1;
+  const last = Math.min(page * pageSize, total);
+  const hasNext = last < total;
+
   return (
     <div className="sticky bottom-0 flex items-center rounded-b-2xl justify-between border-t border-gray-200 bg-white px-4 py-3 dark:border-gray-800 dark:bg-[#171f2f]">
       <p className="text-sm text-gray-500 dark:text-gray-400">
-        Showing 1 of 159
+        {total === 0 ? "No messages" : `Showing ${first}-${last} of ${total}`}
       </p>
       <div className="flex items-center justify-end gap-2">
-        <button className="flex h-8 w-8 items-center justify-center rounded-lg border border-gray-200 bg-white text-gray-500 hover:bg-gray-50 dark:border-gray-800 dark:bg-white/[0.03] dark:text-gray-400 dark:hover:bg-white/[0.03]">
+        <button
+          onClick={() => onPageChange(page - 1)}
+          disabled={page <= 1}
+          className="flex h-8 w-8 items-center justify-center rounded-lg border border-gray-200 bg-white text-gray-500 hover:bg-gray-50 dark:border-gray-800 dark:bg-white/[0.03] dark:text-gray-400 dark:hover:bg-white/[0.03] disabled:opacity-50"
+        >
           <svg
             className="stroke-current"
             width="20"
@@ -25,7 +45,11 @@ export default function EmailPagination() {
             />
           </svg>
         </button>
-        <button className="flex h-8 w-8 items-center justify-center rounded-lg border border-gray-200 bg-white text-gray-500 hover:bg-gray-50 dark:border-gray-800 dark:bg-white/[0.03] dark:text-gray-400 dark:hover:bg-white/[0.03]">
+        <button
+          onClick={() => onPageChange(page + 1)}
+          disabled={!hasNext}
+          className="flex h-8 w-8 items-center justify-center rounded-lg border border-gray-200 bg-white text-gray-500 hover:bg-gray-50 dark:border-gray-800 dark:bg-white/[0.03] dark:text-gray-400 dark:hover:bg-white/[0.03] disabled:opacity-50"
+        >
           <svg
             className="stroke-current"
             width="20"
@@ -0,0 +1,118 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { useMailbox } from "@/context/MailboxContext";
+import type { MailChanges } from "@/lib/mail/mailbox";
+import { serializeMailQuery } from "@/lib/mail/query";
+import type { TablePage } from "@/lib/table-query";
+import type { MailSummary } from "@/lib/mail/types";
+import { deleteMessages, requestJson, updateMessages } from "../mailApi";
+
+export type MailListStatus = "loading" | "error" | "ready";
+
+/**
+ * The page of messages for the mailbox query, the selection and the actions
+ * on it. Every change is saved first and then reloads the list and the
+ * sidebar counts, except starring which shows at once.
+ */
+export function useMailList() {
+  const { query, version, notifyChange } = useMailbox();
+  const [page, setPage] = useState<TablePage<MailSummary> | null>(null);
+  const [status, setStatus] = useState<MailListStatus>("loading");
+  const [error, setError] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [reloadCount, setReloadCount] = useState(0);
+  const params = serializeMailQuery(query).toString();
+
+  useEffect(() => {
+    setSelectedIds([]);
+  }, [params]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setStatus("loading");
+    requestJson<TablePage<MailSummary>>(`/api/mail/messages?${params}`, {
+      signal: controller.signal,
+    })
+      .then((loaded) => {
+        setPage(loaded);
+        // Drop messages that left the list, e.g. moved to another folder
+        setSelectedIds((prev) =>
+          prev.filter((id) => loaded.rows.some((row) => row.id === id))
+        );
+        setStatus("ready");
+      })
+      .catch((err: unknown) => {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : String(err));
+        setStatus("error");
+      });
+    return () => controller.abort();
+  }, [params, version, reloadCount]);
+
+  const run = useCallback(
+    async (action: () => Promise<unknown>) => {
+      setError(null);
+      try {
+        await action();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err));
+      }
+      notifyChange();
+    },
+    [notifyChange]
+  );
+
+  const applyChanges = useCallback(
+    (ids: string[], changes: MailChanges) =>
+      run(() => updateMessages(ids, changes)),
+    [run]
+  );
+
+  const remove = useCallback(
+    (ids: string[]) => run(() => deleteMessages(ids)),
+    [run]
+  );
+
+  const toggleStar = useCallback(
+    (message: MailSummary) => {
+      const starred = !message.starred;
+      setPage(
+        (prev) =>
+          prev && {
+            ...prev,
+            rows: prev.rows.map((row) =>
+              row.id === message.id ? { ...row, starred } : row
+            ),
+          }
+      );
+      return applyChanges([message.id], { starred });
+    },
+    [applyChanges]
+  );
+
+  const toggleSelected = useCallback((id: string, selected: boolean) => {
+    setSelectedIds((prev) =>
+      selected
+        ? [...prev.filter((i) => i !== id), id]
+        : prev.filter((i) => i !== id)
+    );
+  }, []);
+
+  const reload = useCallback(() => setReloadCount((count) => count + 1), []);
+
+  return {
+    rows: page?.rows ?? [],
+    total: page?.total ?? 0,
+    page: page?.page ?? query.page,
+    pageSize: page?.pageSize ?? 0,
+    status,
+    error,
+    selectedIds,
+    setSelectedIds,
+    toggleSelected,
+    toggleStar,
+    applyChanges,
+    remove,
+    reload,
+  };
+}
@@ -3,12 +3,24 @@ import LabelList from "./LabelList";
 import MailBox from "./MailBox";
 import FilterList from "./FilterList";
 import SimpleBar from "simplebar-react";
+import { Modal } from "../../ui/modal";
+import { useModal } from "@/hooks/useModal";
+import { useMailbox } from "@/context/MailboxContext";
+import MailComposeForm from "../MailComposeForm";
+
+const emptyDraft = { to: "", cc: "", subject: "", text: "" };
 
 export default function EmailSidebar() {
+  const { isOpen, openModal, closeModal } = useModal();
+  const { notifyChange } = useMailbox();
+
   return (
     <div className="flex flex-col rounded-2xl border border-gray-200 bg-white p-4 dark:border-gray-800 dark:bg-white/[0.03]">
       <div className="pb-5">
-        <button className="flex items-center justify-center w-full gap-2 p-3 text-sm font-medium text-white rounded-lg bg-brand-500 shadow-theme-xs hover:bg-brand-600">
+        <button
+          onClick={openModal}
+          className="flex items-center justify-center w-full gap-2 p-3 text-sm font-medium text-white rounded-lg bg-brand-500 shadow-theme-xs hover:bg-brand-600"
+        >
           <svg
             className="fill-current"
             width="21"
@@ -59,6 +71,23 @@ export default function EmailSidebar() {
         </nav>
         {/* // <!--== Inbox Menu End ==--> */}
       </SimpleBar>
+      <Modal
+        isOpen={isOpen}
+        onClose={closeModal}
+        className="max-w-[700px] p-5 lg:p-10 m-4"
+      >
+        <h4 className="mb-6 text-2xl font-semibold text-gray-800 dark:text-white/90">
+          New message
+        </h4>
+        <MailComposeForm
+          initial={emptyDraft}
+          onCancel={closeModal}
+          onSent={() => {
+            closeModal();
+            notifyChange();
+          }}
+        />
+      </Modal>
     </div>
   );
 }
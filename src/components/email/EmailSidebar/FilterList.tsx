@@ -1,10 +1,17 @@
 "use client";
-import React, { useState } from "react";
+import React from "react";
+import Link from "next/link";
+import { useMailbox } from "@/context/MailboxContext";
+import type { MailFilter } from "@/lib/mail/types";
 
 export default function FilterList() {
-  const [activeItem, setActiveItem] = useState("");
+  const { query, counts, listHref } = useMailbox();
 
-  const filterItems = [
+  const filterItems: {
+    name: string;
+    key: MailFilter;
+    icon: () => React.ReactElement;
+  }[] = [
     { name: "Starred", key: "starred", icon: StarredIcon },
     { name: "Important", key: "important", icon: InboxIcon },
   ];
@@ -12,11 +19,11 @@ export default function FilterList() {
     <ul className="flex flex-col gap-1">
       {filterItems.map((item) => (
         <li key={item.key}>
-          <button
-            onClick={() => setActiveItem(item.key)}
+          <Link
+            href={listHref({ filter: item.key })}
             className={`group flex w-full items-center justify-between gap-2 rounded-lg px-3 py-2.5 text-sm font-medium
               ${
-                activeItem === item.key
+                query.filter === item.key
                   ? "text-brand-500 bg-brand-50 dark:text-brand-400 dark:bg-brand-500/[0.12]"
                   : "text-gray-500 dark:text-gray-400"
               }
@@ -26,7 +33,10 @@ export default function FilterList() {
               <item.icon />
               {item.name}
             </span>
-          </button>
+            {!!counts?.filters[item.key] && (
+              <span>{counts.filters[item.key]}</span>
+            )}
+          </Link>
         </li>
       ))}
     </ul>
@@ -1,13 +1,20 @@
 "use client";
-import React, { useState } from "react";
+import React from "react";
+import Link from "next/link";
+import { useMailbox } from "@/context/MailboxContext";
+import type { MailLabel } from "@/lib/mail/types";
 
 export default function LabelList() {
-  const [activeItem, setActiveItem] = useState("");
+  const { query, counts, listHref } = useMailbox();
 
-  const labelItems = [
-    { name: "Personal", key: "personal", count: "", icon: PersonalLabel },
+  const labelItems: {
+    name: string;
+    key: MailLabel;
+    icon: () => React.ReactElement;
+  }[] = [
+    { name: "Personal", key: "personal", icon: PersonalLabel },
     { name: "Work", key: "work", icon: WorkLabel },
-    { name: "Payments", key: "draft", icon: PaymentsLabel },
+    { name: "Payments", key: "payments", icon: PaymentsLabel },
     { name: "Invoices", key: "invoices", icon: InvoicesLabel },
     { name: "Blank", key: "blank", icon: BlankLabel },
   ];
@@ -15,11 +22,11 @@ export default function LabelList() {
     <ul className="flex flex-col gap-1">
       {labelItems.map((item) => (
         <li key={item.key}>
-          <button
-            onClick={() => setActiveItem(item.key)}
+          <Link
+            href={listHref({ label: item.key })}
             className={`group flex w-full items-center justify-between gap-2 rounded-lg px-3 py-2.5 text-sm font-medium
               ${
-                activeItem === item.key
+                query.label === item.key
                   ? "text-brand-500 bg-brand-50 dark:text-brand-400 dark:bg-brand-500/[0.12]"
                   : "text-gray-500 dark:text-gray-400"
               }
@@ -29,8 +36,10 @@ export default function LabelList() {
               <item.icon />
               {item.name}
             </span>
-            {item.count && <span>{item.count}</span>}
-          </button>
+            {!!counts?.labels[item.key] && (
+              <span>{counts.labels[item.key]}</span>
+            )}
+          </Link>
         </li>
       ))}
     </ul>
@@ -1,23 +1,32 @@
 "use client";
-import React, { useState } from "react";
+import React from "react";
+import Link from "next/link";
+import { useMailbox } from "@/context/MailboxContext";
+import type { MailFolder } from "@/lib/mail/types";
 
 export default function MailBox() {
-  const [activeItem, setActiveItem] = useState("inbox");
+  const { query, counts, listHref } = useMailbox();
+  const activeItem = query.filter || query.label ? null : query.folder;
 
-  const menuItems = [
-    { name: "Inbox", key: "inbox", count: 3, icon: InboxIcon },
+  const menuItems: {
+    name: string;
+    key: MailFolder;
+    icon: () => React.ReactElement;
+  }[] = [
+    { name: "Inbox", key: "inbox", icon: InboxIcon },
     { name: "Sent", key: "sent", icon: SentIcon },
     { name: "Drafts", key: "draft", icon: DraftIcon },
-    { name: "Spam", key: "spam", count: 2, icon: SpamIcon },
+    { name: "Spam", key: "spam", icon: SpamIcon },
     { name: "Trash", key: "trash", icon: TrashIcon },
     { name: "Archive", key: "archive", icon: ArchiveIcon },
   ];
+
   return (
     <ul className="flex flex-col gap-1">
       {menuItems.map((item) => (
         <li key={item.key}>
-          <button
-            onClick={() => setActiveItem(item.key)}
+          <Link
+            href={listHref({ folder: item.key })}
             className={`group flex w-full items-center justify-between gap-2 rounded-lg px-3 py-2.5 text-sm font-medium
               ${
                 activeItem === item.key
@@ -30,8 +39,10 @@ export default function MailBox() {
               <item.icon />
               {item.name}
             </span>
-            {item.count && <span>{item.count}</span>}
-          </button>
+            {!!counts?.folders[item.key] && (
+              <span>{counts.folders[item.key]}</span>
+            )}
+          </Link>
         </li>
       ))}
     </ul>
@@ -0,0 +1,107 @@
+"use client";
+import React, { useState } from "react";
+import Label from "../form/Label";
+import Input from "../form/input/InputField";
+import TextArea from "../form/input/TextArea";
+import { sendMessage } from "./mailApi";
+
+export interface MailDraft {
+  to: string;
+  cc: string;
+  subject: string;
+  text: string;
+}
+
+interface MailComposeFormProps {
+  initial: MailDraft;
+  replyTo?: string | null; // Id of the message being answered, to keep the thread
+  submitLabel?: string;
+  onSent: () => void;
+  onCancel: () => void;
+}
+
+export default function MailComposeForm({
+  initial,
+  replyTo = null,
+  submitLabel = "Send",
+  onSent,
+  onCancel,
+}: MailComposeFormProps) {
+  const [draft, setDraft] = useState(initial);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const setField = (field: keyof MailDraft, value: string) =>
+    setDraft((prev) => ({ ...prev, [field]: value }));
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSending(true);
+    setError(null);
+    try {
+      await sendMessage({ ...draft, replyTo });
+      onSent();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setSending(false);
+    }
+  };
+
+  return (
+    <form className="flex flex-col gap-4" onSubmit={handleSubmit}>
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div>
+          <Label>To</Label>
+          <Input
+            type="text"
+            placeholder="name@example.com"
+            defaultValue={initial.to}
+            onChange={(e) => setField("to", e.target.value)}
+          />
+        </div>
+        <div>
+          <Label>Cc</Label>
+          <Input
+            type="text"
+            defaultValue={initial.cc}
+            onChange={(e) => setField("cc", e.target.value)}
+          />
+        </div>
+        <div className="sm:col-span-2">
+          <Label>Subject</Label>
+          <Input
+            type="text"
+            defaultValue={initial.subject}
+            onChange={(e) => setField("subject", e.target.value)}
+          />
+        </div>
+        <div className="sm:col-span-2">
+          <Label>Message</Label>
+          <TextArea
+            rows={8}
+            value={draft.text}
+            placeholder="Write your message"
+            onChange={(value) => setField("text", value)}
+          />
+        </div>
+      </div>
+      {error && <p className="text-sm text-error-500">{error}</p>}
+      <div className="flex items-center justify-end w-full gap-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex justify-center rounded-lg border border-gray-300 bg-white px-4 py-2.5 text-sm font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-400 dark:hover:bg-white/[0.03]"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={sending}
+          className="flex justify-center rounded-lg bg-brand-500 px-4 py-2.5 text-sm font-medium text-white hover:bg-brand-600 disabled:opacity-50"
+        >
+          {sending ? "Sending..." : submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,44 @@
+import type { MailChanges, OutgoingMailInput } from "@/lib/mail/mailbox";
+import type { MailMessage } from "@/lib/mail/types";
+
+export async function requestJson<T>(
+  url: string,
+  init?: RequestInit
+): Promise<T> {
+  const response = await fetch(url, init);
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(
+      body?.error ?? `Request failed with status ${response.status}`
+    );
+  }
+  return body as T;
+}
+
+function sendJson<T>(url: string, method: string, body: unknown) {
+  return requestJson<T>(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+export function updateMessages(ids: string[], changes: MailChanges) {
+  return sendJson<{ updated: number }>("/api/mail/messages", "PATCH", {
+    ids,
+    changes,
+  });
+}
+
+// Trashes the messages, or deletes them for good when already in Trash
+export function deleteMessages(ids: string[]) {
+  return sendJson<{ trashed: number; deleted: number }>(
+    "/api/mail/messages",
+    "DELETE",
+    { ids }
+  );
+}
+
+export function sendMessage(mail: OutgoingMailInput) {
+  return sendJson<MailMessage>("/api/mail/send", "POST", mail);
+}
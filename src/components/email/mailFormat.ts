@@ -0,0 +1,45 @@
+import type { MailAddress, MailLabel } from "@/lib/mail/types";
+
+// Same colours as the dots in the sidebar label list
+export const labelColors: Record<MailLabel, string> = {
+  personal: "#12B76A",
+  work: "#F04438",
+  payments: "#FD853A",
+  invoices: "#36BFFA",
+  blank: "#6172F3",
+};
+
+export const labelNames: Record<MailLabel, string> = {
+  personal: "Personal",
+  work: "Work",
+  payments: "Payments",
+  invoices: "Invoices",
+  blank: "Blank",
+};
+
+// "12:16 pm" for today, "Apr, 24" for this year, "Apr 24, 2025" otherwise
+export function formatMailTime(iso: string, now = new Date()): string {
+  const date = new Date(iso);
+  if (date.toDateString() === now.toDateString()) {
+    return date
+      .toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" })
+      .toLowerCase();
+  }
+  if (date.getFullYear() === now.getFullYear()) {
+    const month = date.toLocaleDateString("en-US", { month: "short" });
+    return `${month}, ${String(date.getDate()).padStart(2, "0")}`;
+  }
+  return date.toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+export function formatAddress(address: MailAddress): string {
+  return address.name ? `${address.name} <${address.email}>` : address.email;
+}
+
+export function addressName(address: MailAddress): string {
+  return address.name || address.email;
+}
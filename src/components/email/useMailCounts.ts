@@ -0,0 +1,23 @@
+"use client";
+import { useEffect, useState } from "react";
+import type { MailCounts } from "@/lib/mail/types";
+import { requestJson } from "./mailApi";
+
+/**
+ * Sidebar badge numbers, reloaded whenever `version` changes. They stay
+ * empty until loaded and keep their last value when a refresh fails, since
+ * they are only a hint.
+ */
+export function useMailCounts(version: number) {
+  const [counts, setCounts] = useState<MailCounts | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    requestJson<MailCounts>("/api/mail/counts", { signal: controller.signal })
+      .then(setCounts)
+      .catch(() => undefined);
+    return () => controller.abort();
+  }, [version]);
+
+  return counts;
+}
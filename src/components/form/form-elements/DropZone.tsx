@@ -1,25 +1,37 @@
 "use client";
 import React from "react";
 import ComponentCard from "../../common/ComponentCard";
-import { useDropzone } from "react-dropzone";
+import { useDropzone, type Accept } from "react-dropzone";
 
-const DropzoneComponent: React.FC = () => {
-  const onDrop = (acceptedFiles: File[]) => {
-    console.log("Files dropped:", acceptedFiles);
-    // Handle file uploads here
-  };
+interface DropzoneComponentProps {
+  title?: string;
+  onDrop?: (acceptedFiles: File[]) => void; // Receives the accepted images
+  disabled?: boolean;
+  accept?: Accept; // MIME types the picker offers, PNG, JPG, WebP and SVG by default
+  hint?: string; // Line under the heading naming the accepted files
+  children?: React.ReactNode; // Shown below the drop area, e.g. previews
+}
 
+const DropzoneComponent: React.FC<DropzoneComponentProps> = ({
+  title = "Dropzone",
+  onDrop = (acceptedFiles) => console.log("Files dropped:", acceptedFiles),
+  disabled = false,
+  accept = {
+    "image/png": [],
+    "image/jpeg": [],
+    "image/webp": [],
+    "image/svg+xml": [],
+  },
+  hint = "Drag and drop your PNG, JPG, WebP, SVG images here or browse",
+  children,
+}) => {
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
-    accept: {
-      "image/png": [],
-      "image/jpeg": [],
-      "image/webp": [],
-      "image/svg+xml": [],
-    },
+    disabled,
+    accept,
   });
   return (
-    <ComponentCard title="Dropzone">
+    <ComponentCard title={title}>
       <div className="transition border border-gray-300 border-dashed cursor-pointer dark:hover:border-brand-500 dark:border-gray-700 rounded-xl hover:border-brand-500">
         <form
           {...getRootProps()}
@@ -61,7 +73,7 @@ const DropzoneComponent: React.FC = () => {
             </h4>
 
             <span className=" text-center mb-5 block w-full max-w-[290px] text-sm text-gray-700 dark:text-gray-400">
-              Drag and drop your PNG, JPG, WebP, SVG images here or browse
+              {hint}
             </span>
 
             <span className="font-medium underline text-theme-sm text-brand-500">
@@ -70,6 +82,7 @@ const DropzoneComponent: React.FC = () => {
           </div>
         </form>
       </div>
+      {children}
     </ComponentCard>
   );
 };
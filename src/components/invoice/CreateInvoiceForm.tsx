@@ -0,0 +1,191 @@
+"use client";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import InvoicePreviewModal from "@/components/ecommerce/invoices/InvoicePreviewModal";
+import { usePermission } from "@/context/SessionContext";
+import type { InvoiceTotalsInput } from "@/lib/invoice-totals";
+import type { NewInvoice } from "@/lib/invoices";
+import type { Customer } from "@/lib/mock-data/customers";
+import { DEFAULT_CURRENCY, type ExchangeRates } from "@/lib/money";
+import Label from "../form/Label";
+import Select from "../form/Select";
+import Input from "../form/input/InputField";
+import Button from "../ui/button/Button";
+import CreateInvoiceTable from "./CreateInvoiceTable";
+import { createInvoice } from "./invoiceApi";
+
+interface CreateInvoiceFormProps {
+  rates: ExchangeRates;
+  nextNumber: string; // Assigned by the server when the invoice is saved
+  customers: Customer[]; // Profiles the invoice can be linked to
+}
+
+// Picked to bill someone without a customer profile
+const NO_PROFILE = "none";
+
+const emptyTotals: InvoiceTotalsInput = {
+  currency: DEFAULT_CURRENCY,
+  items: [],
+  taxRates: [],
+  pricesIncludeTax: false,
+  discount: null,
+  shipping: null,
+};
+
+export default function CreateInvoiceForm({
+  rates,
+  nextNumber,
+  customers,
+}: CreateInvoiceFormProps) {
+  const router = useRouter();
+  const canEdit = usePermission("invoices:edit");
+  const [fields, setFields] = useState({
+    customer: "",
+    street: "",
+    city: "",
+    dueDate: "",
+  });
+  const [customerId, setCustomerId] = useState<number | null>(null);
+  // Bumped to refill the name and address inputs from a picked profile
+  const [fieldsKey, setFieldsKey] = useState(0);
+  const [totals, setTotals] = useState<InvoiceTotalsInput>(emptyTotals);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const set = (key: keyof typeof fields, value: string) =>
+    setFields((current) => ({ ...current, [key]: value }));
+
+  const pickCustomer = (value: string) => {
+    const customer = customers.find((row) => String(row.id) === value);
+    setCustomerId(customer?.id ?? null);
+    if (!customer) return;
+    setFields((current) => ({
+      ...current,
+      customer: customer.name,
+      street: customer.address[0],
+      city: customer.address[1],
+    }));
+    setFieldsKey((key) => key + 1);
+  };
+
+  const invoice: NewInvoice = {
+    ...totals,
+    customer: fields.customer,
+    customerAddress: [fields.street, fields.city],
+    ...(customerId !== null ? { customerId } : {}),
+    dueDate: fields.dueDate,
+  };
+
+  const save = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const saved = await createInvoice(invoice);
+      router.push(`/invoices/${saved.id}`);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setBusy(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="border-b border-gray-200 p-4 sm:p-8 dark:border-gray-800">
+        <form
+          className="space-y-6"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (canEdit && !busy) save();
+          }}
+        >
+          <div className="grid grid-cols-1 gap-5 md:grid-cols-2">
+            <div>
+              <Label>Invoice Number</Label>
+              <Input
+                defaultValue={nextNumber}
+                disabled
+                hint="Assigned when the invoice is saved"
+              />
+            </div>
+            <div>
+              <Label>Customer Profile</Label>
+              <Select
+                placeholder="Select a customer"
+                options={[
+                  { value: NO_PROFILE, label: "No profile" },
+                  ...customers.map((customer) => ({
+                    value: String(customer.id),
+                    label: `${customer.name} (${customer.email})`,
+                  })),
+                ]}
+                onChange={pickCustomer}
+              />
+            </div>
+            <div>
+              <Label>Customer Name</Label>
+              <Input
+                key={`customer-${fieldsKey}`}
+                placeholder="John Deniyal"
+                defaultValue={fields.customer}
+                onChange={(e) => set("customer", e.target.value)}
+              />
+            </div>
+            <div>
+              <Label>Street Address</Label>
+              <Input
+                key={`street-${fieldsKey}`}
+                placeholder="355, Shobe Lane"
+                defaultValue={fields.street}
+                onChange={(e) => set("street", e.target.value)}
+              />
+            </div>
+            <div>
+              <Label>City</Label>
+              <Input
+                key={`city-${fieldsKey}`}
+                placeholder="Colorado, Fort Collins - 80543"
+                defaultValue={fields.city}
+                onChange={(e) => set("city", e.target.value)}
+              />
+            </div>
+            <div>
+              <Label>Due Date</Label>
+              <Input
+                type="date"
+                onChange={(e) => set("dueDate", e.target.value)}
+              />
+            </div>
+          </div>
+        </form>
+      </div>
+      <div className="border-b border-gray-200 p-4 sm:p-8 dark:border-gray-800">
+        <CreateInvoiceTable rates={rates} onChange={setTotals} />
+      </div>
+      <div className="p-4 sm:p-8">
+        {error && <p className="mb-3 text-sm text-error-500">{error}</p>}
+        <div className="flex flex-col gap-3 sm:flex-row sm:justify-end">
+          <InvoicePreviewModal invoice={invoice} number={nextNumber} />
+          <Button variant="primary" onClick={save} disabled={busy || !canEdit}>
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              width="20"
+              height="20"
+              viewBox="0 0 20 20"
+              fill="none"
+            >
+              <path
+                d="M13.333 16.6666V12.9166C13.333 12.2262 12.7734 11.6666 12.083 11.6666L7.91634 11.6666C7.22599 11.6666 6.66634 12.2262 6.66634 12.9166L6.66635 16.6666M9.99967 5.83325H6.66634M15.4163 16.6666H4.58301C3.89265 16.6666 3.33301 16.1069 3.33301 15.4166V4.58325C3.33301 3.8929 3.89265 3.33325 4.58301 3.33325H12.8171C13.1483 3.33325 13.4659 3.46468 13.7003 3.69869L16.2995 6.29384C16.5343 6.52832 16.6662 6.84655 16.6662 7.17841L16.6663 15.4166C16.6663 16.1069 16.1066 16.6666 15.4163 16.6666Z"
+                stroke="currentColor"
+                strokeWidth="1.5"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              />
+            </svg>
+            {busy ? "Saving…" : "Save Invoice"}
+          </Button>
+        </div>
+      </div>
+    </>
+  );
+}
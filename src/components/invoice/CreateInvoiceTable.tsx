@@ -1,62 +1,130 @@
 "use client";
-import { useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import Input from "../form/input/InputField";
 import Label from "../form/Label";
 import { ChevronDownIcon } from "@/icons";
+import {
+  CURRENCIES,
+  CURRENCY_CODES,
+  DEFAULT_CURRENCY,
+  formatMoney,
+  snapshotAt,
+  toMinorUnits,
+  toReportingCurrency,
+  type CurrencyCode,
+  type ExchangeRates,
+} from "@/lib/money";
+import {
+  calculateInvoiceTotals,
+  taxLabel,
+  type InvoiceTotalsInput,
+} from "@/lib/invoice-totals";
+import type { InvoiceDiscount } from "@/lib/tax/engine";
+import {
+  DEFAULT_TAX_GROUP,
+  taxGroupRates,
+  taxGroups,
+  taxRates,
+} from "@/lib/tax/rates";
 
 interface Product {
   name: string;
-  price: number;
+  price: number; // Minor units of the invoice currency
   quantity: number;
   discount: number;
-  total: string;
+  taxGroup: string;
 }
 
 interface FormData {
   name: string;
-  price: number;
+  price: string; // As typed, converted to minor units on save
   quantity: number;
   discount: number;
+  taxGroup: string;
 }
 
-const CreateInvoiceTable: React.FC = () => {
+const emptyForm: FormData = {
+  name: "",
+  price: "",
+  quantity: 1,
+  discount: 0,
+  taxGroup: DEFAULT_TAX_GROUP,
+};
+
+const selectClassName =
+  "dark:bg-dark-900 bg-none appearance-none shadow-theme-xs focus:border-brand-300 focus:ring-brand-500/10 dark:focus:border-brand-800 h-11 w-full rounded-lg border border-gray-300 bg-white px-4 py-2.5 pr-11 text-sm text-gray-800 placeholder:text-gray-400 focus:ring-3 focus:outline-hidden dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:placeholder:text-white/30";
+
+const taxGroupName = (id: string) =>
+  taxGroups.find((group) => group.id === id)?.name ?? id;
+
+interface CreateInvoiceTableProps {
+  rates: ExchangeRates;
+  // Called with the lines, currency and adjustments whenever they change
+  onChange: (invoice: InvoiceTotalsInput) => void;
+}
+
+const CreateInvoiceTable: React.FC<CreateInvoiceTableProps> = ({
+  rates,
+  onChange,
+}) => {
   const [products, setProducts] = useState<Product[]>([
     {
       name: "Macbook pro 13”",
-      price: 1200,
+      price: 120000,
       quantity: 1,
       discount: 0,
-      total: (1200 * 1).toFixed(2),
+      taxGroup: DEFAULT_TAX_GROUP,
     },
     {
       name: "Apple Watch Ultra",
-      price: 300,
+      price: 30000,
       quantity: 1,
       discount: 50,
-      total: (300 * 1 * 0.5).toFixed(2),
+      taxGroup: DEFAULT_TAX_GROUP,
     },
     {
       name: "iPhone 15 Pro Max",
-      price: 800,
+      price: 80000,
       quantity: 2,
       discount: 0,
-      total: (800 * 2).toFixed(2),
+      taxGroup: DEFAULT_TAX_GROUP,
     },
     {
       name: "iPad Pro 3rd Gen",
-      price: 900,
+      price: 90000,
       quantity: 1,
       discount: 0,
-      total: (900 * 1).toFixed(2),
+      taxGroup: DEFAULT_TAX_GROUP,
     },
   ]);
 
-  const [form, setForm] = useState<FormData>({
-    name: "",
-    price: 0,
-    quantity: 1,
-    discount: 0,
-  });
+  const [currency, setCurrency] = useState<CurrencyCode>(DEFAULT_CURRENCY);
+  const [form, setForm] = useState<FormData>(emptyForm);
+  // Bumped to clear the uncontrolled inputs after a product is saved
+  const [formKey, setFormKey] = useState(0);
+  const [pricesIncludeTax, setPricesIncludeTax] = useState(false);
+  const [discountType, setDiscountType] =
+    useState<InvoiceDiscount["type"]>("percent");
+  const [discountValue, setDiscountValue] = useState("");
+  const [shippingAmount, setShippingAmount] = useState("");
+  const [shippingTaxGroup, setShippingTaxGroup] = useState(DEFAULT_TAX_GROUP);
+
+  const money = (minor: number) =>
+    formatMoney({ amount: minor, currency }, { trimZeroCents: true });
+  // Smallest amount the inputs accept: 0.01, or 1 for yen
+  const minorStep = 10 ** -CURRENCIES[currency].digits;
+
+  // Prices keep their figures in the new currency; only the scale changes
+  const handleCurrencyChange = (next: CurrencyCode): void => {
+    const scale = 10 ** (CURRENCIES[next].digits - CURRENCIES[currency].digits);
+    setProducts((prev) =>
+      prev.map((product) => ({
+        ...product,
+        price: Math.round(product.price * scale),
+      }))
+    );
+    setCurrency(next);
+  };
 
   const handleDelete = (index: number): void => {
     setProducts((prev) => prev.filter((_, i) => i !== index));
@@ -69,9 +137,7 @@ const CreateInvoiceTable: React.FC = () => {
     setForm((prev) => ({
       ...prev,
       [name]:
-        name === "price" || name === "quantity" || name === "discount"
-          ? Number(value)
-          : value,
+        name === "quantity" || name === "discount" ? Number(value) : value,
     }));
   };
 
@@ -84,28 +150,52 @@ const CreateInvoiceTable: React.FC = () => {
 
   const handleSubmit = (e: React.FormEvent): void => {
     e.preventDefault();
-    if (form.name && form.price > 0) {
-      const total = (
-        form.price *
-        form.quantity *
-        (1 - form.discount / 100)
-      ).toFixed(2);
-      setProducts((prev) => [...prev, { ...form, total }]);
-      setForm({
-        name: "",
-        price: 0,
-        quantity: 1,
-        discount: 0,
-      });
+    const price = toMinorUnits(form.price, currency);
+    if (form.name && price > 0) {
+      setProducts((prev) => [...prev, { ...form, price }]);
+      setForm(emptyForm);
+      setFormKey((key) => key + 1);
     }
   };
 
-  const subtotal: number = products.reduce(
-    (sum, product) => sum + Number(product.total),
-    0
-  );
-  const vat: number = subtotal * 0.1;
-  const total: number = subtotal + vat;
+  const invoice = useMemo((): InvoiceTotalsInput => {
+    const discount =
+      discountType === "percent"
+        ? Math.min(Math.max(Number(discountValue) || 0, 0), 100)
+        : toMinorUnits(discountValue || "0", currency);
+    const shipping = toMinorUnits(shippingAmount || "0", currency);
+    return {
+      currency,
+      items: products.map((product) => ({
+        product: product.name,
+        quantity: product.quantity,
+        unitCost: product.price,
+        discount: product.discount,
+        taxRateIds: taxGroupRates(product.taxGroup),
+      })),
+      taxRates,
+      pricesIncludeTax,
+      discount:
+        Number.isFinite(discount) && discount > 0
+          ? { type: discountType, value: discount }
+          : null,
+      shipping:
+        Number.isFinite(shipping) && shipping > 0
+          ? { amount: shipping, taxRateIds: taxGroupRates(shippingTaxGroup) }
+          : null,
+    };
+  }, [
+    products,
+    currency,
+    pricesIncludeTax,
+    discountType,
+    discountValue,
+    shippingAmount,
+    shippingTaxGroup,
+  ]);
+  const result = useMemo(() => calculateInvoiceTotals(invoice), [invoice]);
+
+  useEffect(() => onChange(invoice), [invoice, onChange]);
 
   return (
     <div className="space-y-6">
@@ -130,6 +220,9 @@ const CreateInvoiceTable: React.FC = () => {
                 <th className="px-5 py-4 text-sm font-medium whitespace-nowrap text-gray-700 dark:text-gray-400">
                   Discount
                 </th>
+                <th className="px-5 py-4 text-sm font-medium whitespace-nowrap text-gray-700 dark:text-gray-400">
+                  Tax
+                </th>
                 <th className="px-5 py-4 text-sm font-medium whitespace-nowrap text-gray-700 dark:text-gray-400">
                   Total
                 </th>
@@ -151,13 +244,16 @@ const CreateInvoiceTable: React.FC = () => {
                     {product.quantity}
                   </td>
                   <td className="px-5 py-4 text-sm whitespace-nowrap text-gray-500 dark:text-gray-400">
-                    ${product.price}
+                    {money(product.price)}
                   </td>
                   <td className="px-5 py-4 text-sm whitespace-nowrap text-gray-500 dark:text-gray-400">
                     {product.discount}%
                   </td>
                   <td className="px-5 py-4 text-sm whitespace-nowrap text-gray-500 dark:text-gray-400">
-                    ${product.total}
+                    {taxGroupName(product.taxGroup)}
+                  </td>
+                  <td className="px-5 py-4 text-sm whitespace-nowrap text-gray-500 dark:text-gray-400">
+                    {money(result.lines[idx].amount)}
                   </td>
                   <td className="px-5 py-4 text-sm whitespace-nowrap text-gray-500 dark:text-gray-400">
                     <div className="flex items-center justify-center">
@@ -193,9 +289,9 @@ const CreateInvoiceTable: React.FC = () => {
 
       {/* Add Product Form */}
       <div className="mt-5 rounded-xl border border-gray-100 bg-gray-50 p-4 sm:p-6 dark:border-gray-800 dark:bg-gray-900">
-        <form onSubmit={handleSubmit}>
+        <form key={formKey} onSubmit={handleSubmit}>
           <div className="grid grid-cols-1 gap-4 sm:grid-cols-3 lg:grid-cols-12">
-            <div className="w-full lg:col-span-3">
+            <div className="w-full lg:col-span-2">
               <Label>Product Name</Label>
               <Input
                 type="text"
@@ -205,14 +301,15 @@ const CreateInvoiceTable: React.FC = () => {
                 placeholder="Enter product name"
               />
             </div>
-            <div className="w-full lg:col-span-3">
+            <div className="w-full lg:col-span-2">
               <Label>Price</Label>
               <Input
                 type="number"
                 name="price"
-                defaultValue={form.price || ""}
+                defaultValue={form.price}
                 onChange={handleInputChange}
                 min="0"
+                step={minorStep}
                 placeholder="Enter product price"
               />
             </div>
@@ -280,7 +377,7 @@ const CreateInvoiceTable: React.FC = () => {
                   name="discount"
                   value={form.discount}
                   onChange={handleInputChange}
-                  className="dark:bg-dark-900 bg-none appearance-none shadow-theme-xs focus:border-brand-300 focus:ring-brand-500/10 dark:focus:border-brand-800 h-11 w-full rounded-lg border border-gray-300 bg-white px-4 py-2.5 pr-11 text-sm text-gray-800 placeholder:text-gray-400 focus:ring-3 focus:outline-hidden dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:placeholder:text-white/30"
+                  className={selectClassName}
                 >
                   <option value="0">0%</option>
                   <option value="10">10%</option>
@@ -292,6 +389,26 @@ const CreateInvoiceTable: React.FC = () => {
                 </span>
               </div>
             </div>
+            <div className="w-full lg:col-span-2">
+              <Label>Tax</Label>
+              <div className="relative">
+                <select
+                  name="taxGroup"
+                  value={form.taxGroup}
+                  onChange={handleInputChange}
+                  className={selectClassName}
+                >
+                  {taxGroups.map((group) => (
+                    <option key={group.id} value={group.id}>
+                      {group.name}
+                    </option>
+                  ))}
+                </select>
+                <span className="absolute text-gray-500 -translate-y-1/2 pointer-events-none right-3 top-1/2 dark:text-gray-400">
+                  <ChevronDownIcon />
+                </span>
+              </div>
+            </div>
             <div className="flex w-full items-end lg:col-span-2">
               <button
                 type="submit"
@@ -333,9 +450,115 @@ const CreateInvoiceTable: React.FC = () => {
         </div>
       </div>
 
+      {/* Invoice Adjustments */}
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-12">
+        <div className="w-full lg:col-span-2">
+          <Label>Currency</Label>
+          <div className="relative">
+            <select
+              name="currency"
+              value={currency}
+              onChange={(e) =>
+                handleCurrencyChange(e.target.value as CurrencyCode)
+              }
+              className={selectClassName}
+            >
+              {CURRENCY_CODES.map((code) => (
+                <option key={code} value={code}>
+                  {code} - {CURRENCIES[code].name}
+                </option>
+              ))}
+            </select>
+            <span className="absolute text-gray-500 -translate-y-1/2 pointer-events-none right-3 top-1/2 dark:text-gray-400">
+              <ChevronDownIcon />
+            </span>
+          </div>
+        </div>
+        <div className="w-full lg:col-span-2">
+          <Label>Prices</Label>
+          <div className="relative">
+            <select
+              name="pricing"
+              value={pricesIncludeTax ? "inclusive" : "exclusive"}
+              onChange={(e) =>
+                setPricesIncludeTax(e.target.value === "inclusive")
+              }
+              className={selectClassName}
+            >
+              <option value="exclusive">Exclude tax</option>
+              <option value="inclusive">Include tax</option>
+            </select>
+            <span className="absolute text-gray-500 -translate-y-1/2 pointer-events-none right-3 top-1/2 dark:text-gray-400">
+              <ChevronDownIcon />
+            </span>
+          </div>
+        </div>
+        <div className="w-full lg:col-span-2">
+          <Label>Discount Type</Label>
+          <div className="relative">
+            <select
+              name="discountType"
+              value={discountType}
+              onChange={(e) =>
+                setDiscountType(e.target.value as InvoiceDiscount["type"])
+              }
+              className={selectClassName}
+            >
+              <option value="percent">Percent</option>
+              <option value="amount">Fixed amount</option>
+            </select>
+            <span className="absolute text-gray-500 -translate-y-1/2 pointer-events-none right-3 top-1/2 dark:text-gray-400">
+              <ChevronDownIcon />
+            </span>
+          </div>
+        </div>
+        <div className="w-full lg:col-span-2">
+          <Label>Invoice Discount</Label>
+          <Input
+            type="number"
+            name="invoiceDiscount"
+            onChange={(e) => setDiscountValue(e.target.value)}
+            min="0"
+            step={minorStep}
+            placeholder={discountType === "percent" ? "0%" : "0.00"}
+          />
+        </div>
+        <div className="w-full lg:col-span-2">
+          <Label>Shipping</Label>
+          <Input
+            type="number"
+            name="shipping"
+            onChange={(e) => setShippingAmount(e.target.value)}
+            min="0"
+            step={minorStep}
+            placeholder="0.00"
+          />
+        </div>
+        <div className="w-full lg:col-span-2">
+          <Label>Shipping Tax</Label>
+          <div className="relative">
+            <select
+              name="shippingTaxGroup"
+              value={shippingTaxGroup}
+              onChange={(e) => setShippingTaxGroup(e.target.value)}
+              className={selectClassName}
+            >
+              {taxGroups.map((group) => (
+                <option key={group.id} value={group.id}>
+                  {group.name}
+                </option>
+              ))}
+            </select>
+            <span className="absolute text-gray-500 -translate-y-1/2 pointer-events-none right-3 top-1/2 dark:text-gray-400">
+              <ChevronDownIcon />
+            </span>
+          </div>
+        </div>
+      </div>
+
       {/* Total Summary */}
       <div className="flex flex-wrap justify-between sm:justify-end">
-        <div className=" w-full space-y-1 text-right sm:w-[220px]">
+        <div className=" w-full space-y-1 text-right sm:w-[300px]">
           <p className="mb-4 text-left text-sm font-medium text-gray-800 dark:text-white/90">
             Order summary
           </p>
@@ -345,25 +568,68 @@ const CreateInvoiceTable: React.FC = () => {
                 Sub Total
               </span>
               <span className="text-sm font-medium text-gray-700 dark:text-gray-400">
-                ${subtotal.toFixed(2)}
-              </span>
-            </li>
-            <li className="flex items-center justify-between">
-              <span className="text-sm text-gray-500 dark:text-gray-400">
-                Vat (10%):
-              </span>
-              <span className="text-sm font-medium text-gray-700 dark:text-gray-400">
-                ${vat.toFixed(2)}
+                {money(result.subtotal)}
               </span>
             </li>
+            {result.discount > 0 && (
+              <li className="flex items-center justify-between">
+                <span className="text-sm text-gray-500 dark:text-gray-400">
+                  Discount
+                </span>
+                <span className="text-sm font-medium text-gray-700 dark:text-gray-400">
+                  -{money(result.discount)}
+                </span>
+              </li>
+            )}
+            {result.shipping && (
+              <li className="flex items-center justify-between">
+                <span className="text-sm text-gray-500 dark:text-gray-400">
+                  Shipping
+                </span>
+                <span className="text-sm font-medium text-gray-700 dark:text-gray-400">
+                  {money(result.shipping.amount)}
+                </span>
+              </li>
+            )}
+            {result.taxes.map((tax) => (
+              <li
+                key={tax.rate.id}
+                className="flex items-center justify-between gap-5"
+              >
+                <span className="text-left text-sm text-gray-500 dark:text-gray-400">
+                  {taxLabel(tax, pricesIncludeTax)} on {money(tax.taxable)}:
+                </span>
+                <span className="text-sm font-medium text-gray-700 dark:text-gray-400">
+                  {money(tax.amount)}
+                </span>
+              </li>
+            ))}
             <li className="flex items-center justify-between">
               <span className="font-medium text-gray-700 dark:text-gray-400">
                 Total
               </span>
               <span className="text-lg font-semibold text-gray-800 dark:text-white/90">
-                ${total.toFixed(2)}
+                {money(result.total)}
               </span>
             </li>
+            {currency !== rates.reportingCurrency && (
+              <li className="flex items-center justify-between gap-5">
+                <span className="text-left text-sm text-gray-500 dark:text-gray-400">
+                  In {rates.reportingCurrency} at{" "}
+                  {snapshotAt(rates.snapshots).date} rates
+                </span>
+                <span className="text-sm font-medium text-gray-700 dark:text-gray-400">
+                  ≈{" "}
+                  {formatMoney(
+                    toReportingCurrency(
+                      { amount: result.total, currency },
+                      undefined,
+                      rates
+                    )
+                  )}
+                </span>
+              </li>
+            )}
           </ul>
         </div>
       </div>
@@ -1,12 +1,20 @@
+import type { Invoice as InvoiceRecord } from "@/lib/mock-data/invoices";
 import React from "react";
+import InvoiceActivity from "./InvoiceActivity";
 import InvoiceMain from "./InvoiceMain";
 
-export default function Invoice() {
+interface InvoiceProps {
+  invoice: InvoiceRecord;
+  today: string; // YYYY-MM-DD on the server, for the overdue check
+}
+
+export default function Invoice({ invoice, today }: InvoiceProps) {
   return (
     <div className="flex flex-col h-full gap-6 sm:gap-5 xl:flex-row">
       {/* <!-- Invoice Mainbox Start --> */}
-      <InvoiceMain />
+      <InvoiceMain invoice={invoice} />
       {/* <!-- Invoice Mainbox End --> */}
+      <InvoiceActivity invoice={invoice} today={today} />
     </div>
   );
 }
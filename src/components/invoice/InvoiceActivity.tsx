@@ -0,0 +1,347 @@
+"use client";
+import { useRouter } from "next/navigation";
+import React, { useState } from "react";
+import { usePermission } from "@/context/SessionContext";
+import { displayStatus, invoiceBalance, isOpen } from "@/lib/invoice-lifecycle";
+import {
+  PAYMENT_METHODS,
+  type Invoice,
+  type PaymentMethod,
+} from "@/lib/mock-data/invoices";
+import { CURRENCIES, formatMoney, fromMinorUnits } from "@/lib/money";
+import Label from "../form/Label";
+import Input from "../form/input/InputField";
+import Select from "../form/Select";
+import Button from "../ui/button/Button";
+import {
+  recordPayment,
+  sendInvoice,
+  voidInvoice,
+  type PaymentInput,
+} from "./invoiceApi";
+import { INVOICE_STATUS_CLASSES } from "./invoiceStatus";
+
+interface InvoiceActivityProps {
+  invoice: Invoice;
+  today: string; // YYYY-MM-DD on the server, for the overdue check
+}
+
+const formatTimestamp = (iso: string) =>
+  new Date(iso).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+interface PaymentFormProps {
+  invoice: Invoice;
+  today: string;
+  busy: boolean;
+  onSubmit: (payment: PaymentInput) => void;
+  onCancel: () => void;
+}
+
+function PaymentForm({
+  invoice,
+  today,
+  busy,
+  onSubmit,
+  onCancel,
+}: PaymentFormProps) {
+  const { due } = invoiceBalance(invoice);
+  // Prefilled with the full amount due, the most common case
+  const [payment, setPayment] = useState<PaymentInput>({
+    amount: fromMinorUnits(due).toFixed(CURRENCIES[invoice.currency].digits),
+    method: "Bank transfer",
+    reference: invoice.number.replace(/^#/, ""),
+    paidAt: today,
+  });
+  const setField = (field: keyof PaymentInput, value: string) =>
+    setPayment((prev) => ({ ...prev, [field]: value }));
+
+  return (
+    <form
+      className="flex flex-col gap-4"
+      onSubmit={(event) => {
+        event.preventDefault();
+        onSubmit(payment);
+      }}
+    >
+      <div>
+        <Label>Amount ({invoice.currency})</Label>
+        <Input
+          type="text"
+          defaultValue={payment.amount}
+          onChange={(e) => setField("amount", e.target.value)}
+        />
+      </div>
+      <div>
+        <Label>Method</Label>
+        <Select
+          options={PAYMENT_METHODS.map((method) => ({
+            value: method,
+            label: method,
+          }))}
+          defaultValue={payment.method}
+          onChange={(value) => setField("method", value as PaymentMethod)}
+        />
+      </div>
+      <div>
+        <Label>Reference</Label>
+        <Input
+          type="text"
+          defaultValue={payment.reference}
+          onChange={(e) => setField("reference", e.target.value)}
+        />
+      </div>
+      <div>
+        <Label>Paid on</Label>
+        <Input
+          type="date"
+          defaultValue={payment.paidAt}
+          max={today}
+          onChange={(e) => setField("paidAt", e.target.value)}
+        />
+      </div>
+      <div className="flex justify-end gap-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex justify-center rounded-lg border border-gray-300 bg-white px-4 py-2.5 text-sm font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-400 dark:hover:bg-white/[0.03]"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={busy}
+          className="flex justify-center rounded-lg bg-brand-500 px-4 py-2.5 text-sm font-medium text-white hover:bg-brand-600 disabled:opacity-50"
+        >
+          {busy ? "Saving..." : "Record payment"}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+/**
+ * Status, balance, payment ledger and status history of an invoice, with
+ * the actions its current status allows.
+ */
+export default function InvoiceActivity({
+  invoice,
+  today,
+}: InvoiceActivityProps) {
+  const router = useRouter();
+  const canEdit = usePermission("invoices:edit");
+  const [mode, setMode] = useState<"payment" | "void" | null>(null);
+  const [voidNote, setVoidNote] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const balance = invoiceBalance(invoice);
+  const status = displayStatus(invoice, today);
+  const money = (amount: number) =>
+    formatMoney({ amount, currency: invoice.currency });
+
+  const run = async (request: () => Promise<unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await request();
+      setMode(null);
+      setVoidNote("");
+      // Loads the invoice again with the change in it
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const canSend = invoice.status === "Draft";
+  const canVoid =
+    (invoice.status === "Draft" || invoice.status === "Sent") &&
+    invoice.payments.length === 0;
+  const canPay = isOpen(invoice);
+
+  return (
+    <div className="flex flex-col gap-6 xl:w-[360px] xl:shrink-0 print:hidden">
+      <div className="rounded-2xl border border-gray-200 bg-white p-5 dark:border-gray-800 dark:bg-white/[0.03]">
+        <div className="mb-5 flex items-center justify-between">
+          <h3 className="font-medium text-gray-800 dark:text-white/90">
+            Status
+          </h3>
+          <span
+            className={`text-theme-xs rounded-full px-2 py-0.5 font-medium ${INVOICE_STATUS_CLASSES[status]}`}
+          >
+            {status}
+          </span>
+        </div>
+
+        <dl className="space-y-2 text-sm">
+          <div className="flex justify-between">
+            <dt className="text-gray-500 dark:text-gray-400">Total</dt>
+            <dd className="text-gray-800 dark:text-white/90">
+              {formatMoney(balance.total)}
+            </dd>
+          </div>
+          <div className="flex justify-between">
+            <dt className="text-gray-500 dark:text-gray-400">Paid</dt>
+            <dd className="text-gray-800 dark:text-white/90">
+              {formatMoney(balance.paid)}
+            </dd>
+          </div>
+          <div className="flex justify-between border-t border-gray-100 pt-2 font-medium dark:border-gray-800">
+            <dt className="text-gray-700 dark:text-gray-300">Amount due</dt>
+            <dd
+              className={
+                status === "Overdue"
+                  ? "text-error-600 dark:text-error-500"
+                  : "text-gray-800 dark:text-white/90"
+              }
+            >
+              {invoice.status === "Void" ? "—" : formatMoney(balance.due)}
+            </dd>
+          </div>
+        </dl>
+
+        {canEdit && (canSend || canVoid || canPay) && mode === null && (
+          <div className="mt-5 flex flex-wrap gap-3">
+            {canSend && (
+              <Button
+                size="sm"
+                disabled={busy}
+                onClick={() => run(() => sendInvoice(invoice.id))}
+              >
+                Mark as sent
+              </Button>
+            )}
+            {canPay && (
+              <Button size="sm" onClick={() => setMode("payment")}>
+                Record payment
+              </Button>
+            )}
+            {canVoid && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setMode("void")}
+              >
+                Void
+              </Button>
+            )}
+          </div>
+        )}
+
+        {mode === "payment" && (
+          <div className="mt-5">
+            <PaymentForm
+              invoice={invoice}
+              today={today}
+              busy={busy}
+              onSubmit={(payment) =>
+                run(() => recordPayment(invoice.id, payment))
+              }
+              onCancel={() => setMode(null)}
+            />
+          </div>
+        )}
+
+        {mode === "void" && (
+          <div className="mt-5 flex flex-col gap-4">
+            <div>
+              <Label>Reason</Label>
+              <Input
+                type="text"
+                placeholder="Why is this invoice void?"
+                onChange={(e) => setVoidNote(e.target.value)}
+              />
+            </div>
+            <div className="flex justify-end gap-3">
+              <Button size="sm" variant="outline" onClick={() => setMode(null)}>
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                disabled={busy}
+                onClick={() => run(() => voidInvoice(invoice.id, voidNote))}
+              >
+                Void invoice
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {error && <p className="mt-3 text-sm text-error-500">{error}</p>}
+      </div>
+
+      <div className="rounded-2xl border border-gray-200 bg-white p-5 dark:border-gray-800 dark:bg-white/[0.03]">
+        <h3 className="mb-4 font-medium text-gray-800 dark:text-white/90">
+          Payments
+        </h3>
+        {invoice.payments.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            No payments recorded yet.
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-100 dark:divide-gray-800">
+            {invoice.payments.map((payment) => (
+              <li
+                key={payment.id}
+                className="flex items-start justify-between gap-3 py-3 text-sm first:pt-0 last:pb-0"
+              >
+                <div>
+                  <p className="text-gray-800 dark:text-white/90">
+                    {payment.method}
+                    {payment.reference && (
+                      <span className="text-gray-500 dark:text-gray-400">
+                        {" "}
+                        · {payment.reference}
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-theme-xs text-gray-500 dark:text-gray-400">
+                    {formatTimestamp(payment.paidAt)} by {payment.recordedBy}
+                  </p>
+                </div>
+                <span className="font-medium text-gray-800 dark:text-white/90">
+                  {money(payment.amount)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="rounded-2xl border border-gray-200 bg-white p-5 dark:border-gray-800 dark:bg-white/[0.03]">
+        <h3 className="mb-4 font-medium text-gray-800 dark:text-white/90">
+          History
+        </h3>
+        <ol className="space-y-4">
+          {[...invoice.history].reverse().map((change, index) => (
+            <li key={index} className="text-sm">
+              <p className="text-gray-800 dark:text-white/90">
+                {change.status}
+                <span className="text-gray-500 dark:text-gray-400">
+                  {" "}
+                  by {change.actor}
+                </span>
+              </p>
+              <p className="text-theme-xs text-gray-500 dark:text-gray-400">
+                {formatTimestamp(change.at)}
+              </p>
+              {change.note && (
+                <p className="mt-1 text-theme-xs text-gray-600 dark:text-gray-300">
+                  {change.note}
+                </p>
+              )}
+            </li>
+          ))}
+        </ol>
+      </div>
+    </div>
+  );
+}
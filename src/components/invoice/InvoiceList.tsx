@@ -1,249 +1,70 @@
 "use client";
 import Link from "next/link";
-import React, { useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import React, { useState } from "react";
 import TableDropdown from "../common/TableDropdown";
+import ExportMenu from "../common/ExportMenu";
+import BulkActionBar from "../common/BulkActionBar";
+import {
+  createRemoteDataSource,
+  useDataTable,
+  type ColumnDef,
+} from "../tables/DataTables/DataTable";
+import type { ExportColumn } from "@/lib/export";
+import { usePermission } from "@/context/SessionContext";
+import { invoiceColumns, type InvoiceListRow } from "@/lib/invoice-lifecycle";
+import { formatMoney, fromMinorUnits, type ExchangeRates } from "@/lib/money";
+import { INVOICE_STATUS_CLASSES } from "./invoiceStatus";
 
-interface Invoice {
-  id: number;
-  number: string;
-  customer: string;
-  creationDate: string;
-  dueDate: string;
-  total: number;
-  status: "Paid" | "Unpaid" | "Draft";
-}
+// Searched, filtered, sorted and paged by /api/invoices
+const invoiceSource = createRemoteDataSource<InvoiceListRow>("/api/invoices");
+
+// The headers are part of the table markup below
+const columns: ColumnDef<InvoiceListRow>[] = invoiceColumns.map((column) => ({
+  ...column,
+  header: column.id,
+}));
+
+type StatusFilter = "All" | "Unpaid" | "Overdue" | "Draft";
 
-interface SortState {
-  sortBy: "number" | "customer" | "creationDate" | "dueDate" | "total";
-  sortDirection: "asc" | "desc";
+const STATUS_FILTERS: { value: StatusFilter; label: string }[] = [
+  { value: "All", label: "All Invoices" },
+  { value: "Unpaid", label: "Unpaid" },
+  { value: "Overdue", label: "Overdue" },
+  { value: "Draft", label: "Draft" },
+];
+
+// The `unpaid` and `status` column filters each tab sets
+function statusFilters(filter: StatusFilter): Record<string, string> {
+  switch (filter) {
+    case "All":
+      return { unpaid: "", status: "" };
+    case "Unpaid":
+      return { unpaid: "true", status: "" };
+    default:
+      return { unpaid: "", status: filter };
+  }
 }
 
-const initialInvoices: Invoice[] = [
-  {
-    id: 1,
-    number: "#323534",
-    customer: "Lindsey Curtis",
-    creationDate: "August 7, 2028",
-    dueDate: "February 28, 2028",
-    total: 999,
-    status: "Paid",
-  },
-  {
-    id: 2,
-    number: "#323535",
-    customer: "John Doe",
-    creationDate: "July 1, 2028",
-    dueDate: "January 1, 2029",
-    total: 1200,
-    status: "Unpaid",
-  },
-  {
-    id: 3,
-    number: "#323536",
-    customer: "Jane Smith",
-    creationDate: "June 15, 2028",
-    dueDate: "December 15, 2028",
-    total: 850,
-    status: "Draft",
-  },
-  {
-    id: 4,
-    number: "#323537",
-    customer: "Michael Brown",
-    creationDate: "May 10, 2028",
-    dueDate: "November 10, 2028",
-    total: 1500,
-    status: "Paid",
-  },
-  {
-    id: 5,
-    number: "#323538",
-    customer: "Emily Davis",
-    creationDate: "April 5, 2028",
-    dueDate: "October 5, 2028",
-    total: 700,
-    status: "Unpaid",
-  },
-  {
-    id: 6,
-    number: "#323539",
-    customer: "Chris Wilson",
-    creationDate: "March 1, 2028",
-    dueDate: "September 1, 2028",
-    total: 1100,
-    status: "Paid",
-  },
-  {
-    id: 7,
-    number: "#323540",
-    customer: "Jessica Lee",
-    creationDate: "February 20, 2028",
-    dueDate: "August 20, 2028",
-    total: 950,
-    status: "Draft",
-  },
-  {
-    id: 8,
-    number: "#323541",
-    customer: "David Kim",
-    creationDate: "January 15, 2028",
-    dueDate: "July 15, 2028",
-    total: 1300,
-    status: "Paid",
-  },
-  {
-    id: 9,
-    number: "#323542",
-    customer: "Sarah Clark",
-    creationDate: "December 10, 2027",
-    dueDate: "June 10, 2028",
-    total: 800,
-    status: "Unpaid",
-  },
+const invoiceExportColumns: ExportColumn<InvoiceListRow>[] = [
+  { header: "Invoice Number", value: (invoice) => invoice.number },
+  { header: "Customer", value: (invoice) => invoice.customer },
+  { header: "Creation Date", value: (invoice) => invoice.creationDate },
+  { header: "Due Date", value: (invoice) => invoice.dueDate },
+  { header: "Currency", value: (invoice) => invoice.currency },
   {
-    id: 10,
-    number: "#323543",
-    customer: "Matthew Lewis",
-    creationDate: "November 5, 2027",
-    dueDate: "May 5, 2028",
-    total: 1400,
-    status: "Paid",
+    header: "Total",
+    value: (invoice) => fromMinorUnits(invoice.total),
   },
   {
-    id: 11,
-    number: "#323544",
-    customer: "Olivia Walker",
-    creationDate: "October 1, 2027",
-    dueDate: "April 1, 2028",
-    total: 1200,
-    status: "Draft",
+    header: "Reporting Total",
+    value: (invoice) => fromMinorUnits(invoice.reportingTotal),
   },
   {
-    id: 12,
-    number: "#323545",
-    customer: "Daniel Hall",
-    creationDate: "September 20, 2027",
-    dueDate: "March 20, 2028",
-    total: 1000,
-    status: "Paid",
-  },
-  {
-    id: 13,
-    number: "#323546",
-    customer: "Sophia Allen",
-    creationDate: "August 15, 2027",
-    dueDate: "February 15, 2028",
-    total: 900,
-    status: "Unpaid",
-  },
-  {
-    id: 14,
-    number: "#323547",
-    customer: "James Young",
-    creationDate: "July 10, 2027",
-    dueDate: "January 10, 2028",
-    total: 1600,
-    status: "Paid",
-  },
-  {
-    id: 15,
-    number: "#323548",
-    customer: "Ava Hernandez",
-    creationDate: "June 5, 2027",
-    dueDate: "December 5, 2027",
-    total: 1050,
-    status: "Draft",
-  },
-  {
-    id: 16,
-    number: "#323549",
-    customer: "William King",
-    creationDate: "May 1, 2027",
-    dueDate: "November 1, 2027",
-    total: 1150,
-    status: "Paid",
-  },
-  {
-    id: 17,
-    number: "#323550",
-    customer: "Mia Wright",
-    creationDate: "April 20, 2027",
-    dueDate: "October 20, 2027",
-    total: 980,
-    status: "Unpaid",
-  },
-  {
-    id: 18,
-    number: "#323551",
-    customer: "Benjamin Lopez",
-    creationDate: "March 15, 2027",
-    dueDate: "September 15, 2027",
-    total: 1250,
-    status: "Paid",
-  },
-  {
-    id: 19,
-    number: "#323552",
-    customer: "Charlotte Hill",
-    creationDate: "February 10, 2027",
-    dueDate: "August 10, 2027",
-    total: 890,
-    status: "Draft",
-  },
-  {
-    id: 20,
-    number: "#323553",
-    customer: "Elijah Scott",
-    creationDate: "January 5, 2027",
-    dueDate: "July 5, 2027",
-    total: 1350,
-    status: "Paid",
-  },
-  {
-    id: 21,
-    number: "#323554",
-    customer: "Amelia Green",
-    creationDate: "December 1, 2026",
-    dueDate: "June 1, 2027",
-    total: 1020,
-    status: "Unpaid",
-  },
-  {
-    id: 22,
-    number: "#323555",
-    customer: "Lucas Adams",
-    creationDate: "November 20, 2026",
-    dueDate: "May 20, 2027",
-    total: 1120,
-    status: "Paid",
-  },
-  {
-    id: 23,
-    number: "#323556",
-    customer: "Harper Nelson",
-    creationDate: "October 15, 2026",
-    dueDate: "April 15, 2027",
-    total: 970,
-    status: "Draft",
-  },
-  {
-    id: 24,
-    number: "#323557",
-    customer: "Henry Carter",
-    creationDate: "September 10, 2026",
-    dueDate: "March 10, 2027",
-    total: 1280,
-    status: "Paid",
-  },
-  {
-    id: 25,
-    number: "#323558",
-    customer: "Evelyn Mitchell",
-    creationDate: "August 5, 2026",
-    dueDate: "February 5, 2027",
-    total: 1080,
-    status: "Unpaid",
+    header: "Amount Due",
+    value: (invoice) => fromMinorUnits(invoice.due),
   },
+  { header: "Status", value: (invoice) => invoice.shownStatus },
 ];
 
 const FilterDropdown: React.FC<{
@@ -317,65 +138,32 @@ const FilterDropdown: React.FC<{
   );
 };
 
-const InvoiceListTable: React.FC = () => {
-  const [invoices] = useState<Invoice[]>(initialInvoices);
-  const [selected, setSelected] = useState<number[]>([]);
-  const [sort, setSort] = useState<SortState>({
-    sortBy: "number",
-    sortDirection: "asc",
+interface InvoiceListTableProps {
+  rates: ExchangeRates;
+}
+
+const InvoiceListTable: React.FC<InvoiceListTableProps> = ({ rates }) => {
+  const router = useRouter();
+  const table = useDataTable({
+    columns,
+    getRowId: (invoice) => invoice.id,
+    dataSource: invoiceSource,
+    initialSort: [{ columnId: "number", direction: "asc" }],
   });
-  const [currentPage, setCurrentPage] = useState<number>(1);
-  const [filterStatus, setFilterStatus] = useState<
-    "All" | "Unpaid" | "Draft" | "Paid"
-  >("All");
-  const [search, setSearch] = useState<string>("");
+  const [filterStatus, setFilterStatus] = useState<StatusFilter>("All");
   const [showFilter, setShowFilter] = useState<boolean>(false);
-  const itemsPerPage: number = 10;
+  const canDelete = usePermission("invoices:delete");
+  const { currentPage, totalPages, goToPage } = table;
 
-  const filteredInvoices: Invoice[] = useMemo(() => {
-    return filterStatus === "All"
-      ? invoices
-      : invoices.filter((invoice) => invoice.status === filterStatus);
-  }, [invoices, filterStatus]);
+  const sortDirection = (columnId: string) =>
+    table.sortRules.find((rule) => rule.columnId === columnId)?.direction;
 
-  const searchedInvoices: Invoice[] = React.useMemo(() => {
-    return filteredInvoices.filter(
-      (invoice) =>
-        invoice.number.toLowerCase().includes(search.toLowerCase()) ||
-        invoice.customer.toLowerCase().includes(search.toLowerCase())
+  const filterBy = (filter: StatusFilter): void => {
+    setFilterStatus(filter);
+    Object.entries(statusFilters(filter)).forEach(([columnId, value]) =>
+      table.setFilter(columnId, value)
     );
-  }, [filteredInvoices, search]);
-
-  const sortedInvoices: Invoice[] = React.useMemo(() => {
-    return [...searchedInvoices].sort((a, b) => {
-      let valA: string | number = a[sort.sortBy];
-      let valB: string | number = b[sort.sortBy];
-      if (sort.sortBy === "total") {
-        valA = Number(valA);
-        valB = Number(valB);
-      } else {
-        valA = typeof valA === "string" ? valA.toLowerCase() : valA;
-        valB = typeof valB === "string" ? valB.toLowerCase() : valB;
-      }
-      if (valA < valB) return sort.sortDirection === "asc" ? -1 : 1;
-      if (valA > valB) return sort.sortDirection === "asc" ? 1 : -1;
-      return 0;
-    });
-  }, [searchedInvoices, sort]);
-
-  const paginatedInvoices: Invoice[] = sortedInvoices.slice(
-    (currentPage - 1) * itemsPerPage,
-    currentPage * itemsPerPage
-  );
-
-  const totalPages: number =
-    Math.ceil(sortedInvoices.length / itemsPerPage) || 1;
-  const startEntry: number =
-    sortedInvoices.length === 0 ? 0 : (currentPage - 1) * itemsPerPage + 1;
-  const endEntry: number = Math.min(
-    currentPage * itemsPerPage,
-    sortedInvoices.length
-  );
+  };
 
   const visiblePages: number[] = React.useMemo(() => {
     const maxVisible = 5;
@@ -387,44 +175,10 @@ const InvoiceListTable: React.FC = () => {
     return Array.from({ length: end - start + 1 }, (_, i) => start + i);
   }, [currentPage, totalPages]);
 
-  const toggleSelectAll = (): void => {
-    if (
-      paginatedInvoices.length > 0 &&
-      paginatedInvoices.every((i) => selected.includes(i.id))
-    ) {
-      setSelected([]);
-    } else {
-      setSelected(paginatedInvoices.map((i) => i.id));
-    }
-  };
-
-  const toggleRow = (id: number): void => {
-    setSelected((prev) =>
-      prev.includes(id) ? prev.filter((i) => i !== id) : [...prev, id]
-    );
-  };
-
-  const sortBy = (
-    field: "number" | "customer" | "creationDate" | "dueDate" | "total"
-  ): void => {
-    setSort((prev) => ({
-      sortBy: field,
-      sortDirection:
-        prev.sortBy === field && prev.sortDirection === "asc" ? "desc" : "asc",
-    }));
-    setCurrentPage(1);
-  };
-
-  const goToPage = (page: number): void => {
-    if (page >= 1 && page <= totalPages) setCurrentPage(page);
-  };
-
-  const nextPage = (): void => {
-    if (currentPage < totalPages) setCurrentPage(currentPage + 1);
-  };
-
-  const previousPage = (): void => {
-    if (currentPage > 1) setCurrentPage(currentPage - 1);
+  // Reloads the page and the metrics above the list
+  const reload = (): void => {
+    table.reload();
+    router.refresh();
   };
 
   return (
@@ -440,45 +194,19 @@ const InvoiceListTable: React.FC = () => {
         </div>
         <div className="flex gap-3.5">
           <div className="hidden h-11 items-center gap-0.5 rounded-lg bg-gray-100 p-0.5 lg:inline-flex dark:bg-gray-900">
-            <button
-              onClick={() => {
-                setFilterStatus("All");
-                setCurrentPage(1);
-              }}
-              className={`text-theme-sm h-10 rounded-md px-3 py-2 font-medium hover:text-gray-900 dark:hover:text-white ${
-                filterStatus === "All"
-                  ? "shadow-theme-xs text-gray-900 dark:text-white bg-white dark:bg-gray-800"
-                  : "text-gray-500 dark:text-gray-400"
-              }`}
-            >
-              All Invoices
-            </button>
-            <button
-              onClick={() => {
-                setFilterStatus("Unpaid");
-                setCurrentPage(1);
-              }}
-              className={`text-theme-sm h-10 rounded-md px-3 py-2 font-medium hover:text-gray-900 dark:hover:text-white ${
-                filterStatus === "Unpaid"
-                  ? "shadow-theme-xs text-gray-900 dark:text-white bg-white dark:bg-gray-800"
-                  : "text-gray-500 dark:text-gray-400"
-              }`}
-            >
-              Unpaid
-            </button>
-            <button
-              onClick={() => {
-                setFilterStatus("Draft");
-                setCurrentPage(1);
-              }}
-              className={`text-theme-sm h-10 rounded-md px-3 py-2 font-medium hover:text-gray-900 dark:hover:text-white ${
-                filterStatus === "Draft"
-                  ? "shadow-theme-xs text-gray-900 dark:text-white bg-white dark:bg-gray-800"
-                  : "text-gray-500 dark:text-gray-400"
-              }`}
-            >
-              Draft
-            </button>
+            {STATUS_FILTERS.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => filterBy(value)}
+                className={`text-theme-sm h-10 rounded-md px-3 py-2 font-medium hover:text-gray-900 dark:hover:text-white ${
+                  filterStatus === value
+                    ? "shadow-theme-xs text-gray-900 dark:text-white bg-white dark:bg-gray-800"
+                    : "text-gray-500 dark:text-gray-400"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
           </div>
           <div className="hidden flex-col gap-3 sm:flex sm:flex-row sm:items-center">
             <div className="relative">
@@ -503,9 +231,9 @@ const InvoiceListTable: React.FC = () => {
                 type="text"
                 placeholder="Search..."
                 className="dark:bg-dark-900 shadow-theme-xs focus:border-brand-300 focus:ring-brand-500/10 dark:focus:border-brand-800 h-11 w-full rounded-lg border border-gray-300 bg-transparent py-2.5 pr-4 pl-11 text-sm text-gray-800 placeholder:text-gray-400 focus:ring-3 focus:outline-hidden xl:w-[300px] dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:placeholder:text-white/30"
-                value={search}
+                value={table.searchTerm}
                 onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                  setSearch(e.target.value)
+                  table.setSearchTerm(e.target.value)
                 }
               />
             </div>
@@ -513,27 +241,27 @@ const InvoiceListTable: React.FC = () => {
               showFilter={showFilter}
               setShowFilter={setShowFilter}
             />
-            <button className="shadow-theme-xs flex w-full items-center justify-center gap-2 rounded-lg border border-gray-300 bg-white px-4 py-[11px] text-sm font-medium text-gray-700 sm:w-auto dark:border-gray-700 dark:bg-gray-800 dark:text-gray-400">
-              <svg
-                xmlns="http://www.w3.org/2000/svg"
-                width="20"
-                height="20"
-                viewBox="0 0 20 20"
-                fill="none"
-              >
-                <path
-                  d="M16.6671 13.3333V15.4166C16.6671 16.1069 16.1074 16.6666 15.4171 16.6666H4.58301C3.89265 16.6666 3.33301 16.1069 3.33301 15.4166V13.3333M10.0013 3.33325L10.0013 13.3333M6.14553 7.18708L9.99958 3.33549L13.8539 7.18708"
-                  stroke="currentColor"
-                  strokeWidth="1.5"
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                />
-              </svg>
-              Export
-            </button>
+            <ExportMenu
+              fileName="invoices"
+              columns={invoiceExportColumns}
+              rows={table.fetchAllRows}
+              selectedRows={table.selectedRows}
+            />
           </div>
         </div>
       </div>
+      <BulkActionBar
+        resource="invoices"
+        noun={["invoice", "invoices"]}
+        selectedRows={table.selectedRows}
+        idOf={(invoice) => String(invoice.id)}
+        labelOf={(invoice) => invoice.number}
+        exportFile="invoices"
+        exportColumns={invoiceExportColumns}
+        statuses={["Sent", "Paid", "Void"]}
+        onChanged={reload}
+        onClear={() => table.setSelectedIds([])}
+      />
       <div className="overflow-x-auto custom-scrollbar">
         <table className="w-full table-auto">
           <thead>
@@ -546,32 +274,19 @@ const InvoiceListTable: React.FC = () => {
                         <input
                           type="checkbox"
                           className="sr-only"
-                          checked={
-                            paginatedInvoices.length > 0 &&
-                            paginatedInvoices.every((i) =>
-                              selected.includes(i.id)
-                            )
-                          }
-                          onChange={toggleSelectAll}
+                          checked={table.allPageRowsSelected}
+                          onChange={table.toggleAllPageRows}
                         />
                         <span
                           className={`flex h-4 w-4 items-center justify-center rounded-sm border-[1.25px] ${
-                            paginatedInvoices.length > 0 &&
-                            paginatedInvoices.every((i) =>
-                              selected.includes(i.id)
-                            )
+                            table.allPageRowsSelected
                               ? "border-brand-500 bg-brand-500"
                               : "bg-transparent border-gray-300 dark:border-gray-700"
                           }`}
                         >
                           <span
                             className={
-                              paginatedInvoices.length > 0 &&
-                              paginatedInvoices.every((i) =>
-                                selected.includes(i.id)
-                              )
-                                ? ""
-                                : "opacity-0"
+                              table.allPageRowsSelected ? "" : "opacity-0"
                             }
                           >
                             <svg
@@ -601,7 +316,7 @@ const InvoiceListTable: React.FC = () => {
               </th>
               <th
                 className="cursor-pointer p-4 text-left text-xs font-medium text-gray-700 dark:text-gray-400"
-                onClick={() => sortBy("customer")}
+                onClick={() => table.toggleSort("customer")}
               >
                 <div className="flex items-center gap-3">
                   <p className="text-theme-xs font-medium text-gray-700 dark:text-gray-400">
@@ -610,8 +325,7 @@ const InvoiceListTable: React.FC = () => {
                   <span className="flex flex-col gap-0.5">
                     <svg
                       className={
-                        sort.sortBy === "customer" &&
-                        sort.sortDirection === "asc"
+                        sortDirection("customer") === "asc"
                           ? "text-gray-500"
                           : "text-gray-300"
                       }
@@ -628,8 +342,7 @@ const InvoiceListTable: React.FC = () => {
                     </svg>
                     <svg
                       className={
-                        sort.sortBy === "customer" &&
-                        sort.sortDirection === "desc"
+                        sortDirection("customer") === "desc"
                           ? "text-gray-500"
                           : "text-gray-300"
                       }
@@ -649,7 +362,7 @@ const InvoiceListTable: React.FC = () => {
               </th>
               <th
                 className="cursor-pointer p-4 text-left text-xs font-medium text-gray-700 dark:text-gray-400"
-                onClick={() => sortBy("creationDate")}
+                onClick={() => table.toggleSort("creationDate")}
               >
                 <div className="flex items-center gap-3">
                   <p className="text-theme-xs font-medium text-gray-700 dark:text-gray-400">
@@ -658,8 +371,7 @@ const InvoiceListTable: React.FC = () => {
                   <span className="flex flex-col gap-0.5">
                     <svg
                       className={
-                        sort.sortBy === "creationDate" &&
-                        sort.sortDirection === "asc"
+                        sortDirection("creationDate") === "asc"
                           ? "text-gray-500"
                           : "text-gray-300"
                       }
@@ -676,8 +388,7 @@ const InvoiceListTable: React.FC = () => {
                     </svg>
                     <svg
                       className={
-                        sort.sortBy === "creationDate" &&
-                        sort.sortDirection === "desc"
+                        sortDirection("creationDate") === "desc"
                           ? "text-gray-500"
                           : "text-gray-300"
                       }
@@ -697,7 +408,7 @@ const InvoiceListTable: React.FC = () => {
               </th>
               <th
                 className="cursor-pointer p-4 text-left text-xs font-medium text-gray-700 dark:text-gray-400"
-                onClick={() => sortBy("dueDate")}
+                onClick={() => table.toggleSort("dueDate")}
               >
                 <div className="flex items-center gap-3">
                   <p className="text-theme-xs font-medium text-gray-700 dark:text-gray-400">
@@ -706,8 +417,7 @@ const InvoiceListTable: React.FC = () => {
                   <span className="flex flex-col gap-0.5">
                     <svg
                       className={
-                        sort.sortBy === "dueDate" &&
-                        sort.sortDirection === "asc"
+                        sortDirection("dueDate") === "asc"
                           ? "text-gray-500"
                           : "text-gray-300"
                       }
@@ -724,8 +434,7 @@ const InvoiceListTable: React.FC = () => {
                     </svg>
                     <svg
                       className={
-                        sort.sortBy === "dueDate" &&
-                        sort.sortDirection === "desc"
+                        sortDirection("dueDate") === "desc"
                           ? "text-gray-500"
                           : "text-gray-300"
                       }
@@ -757,7 +466,7 @@ const InvoiceListTable: React.FC = () => {
             </tr>
           </thead>
           <tbody className="divide-x divide-y divide-gray-200 dark:divide-gray-800">
-            {paginatedInvoices.map((invoice: Invoice) => (
+            {table.pageRows.map((invoice) => (
               <tr
                 key={invoice.id}
                 className="transition hover:bg-gray-50 dark:hover:bg-gray-900"
@@ -769,19 +478,19 @@ const InvoiceListTable: React.FC = () => {
                         <input
                           type="checkbox"
                           className="sr-only"
-                          checked={selected.includes(invoice.id)}
-                          onChange={() => toggleRow(invoice.id)}
+                          checked={table.isSelected(invoice)}
+                          onChange={() => table.toggleRow(invoice)}
                         />
                         <span
                           className={`flex h-4 w-4 items-center justify-center rounded-sm border-[1.25px] ${
-                            selected.includes(invoice.id)
+                            table.isSelected(invoice)
                               ? "border-brand-500 bg-brand-500"
                               : "bg-transparent border-gray-300 dark:border-gray-700"
                           }`}
                         >
                           <span
                             className={
-                              selected.includes(invoice.id) ? "" : "opacity-0"
+                              table.isSelected(invoice) ? "" : "opacity-0"
                             }
                           >
                             <svg
@@ -804,7 +513,7 @@ const InvoiceListTable: React.FC = () => {
                       </span>
                     </label>
                     <Link
-                      href="/single-invoice"
+                      href={`/invoices/${invoice.id}`}
                       className="text-theme-xs font-medium text-gray-700 group-hover:underline dark:text-gray-400"
                     >
                       {invoice.number}
@@ -812,9 +521,18 @@ const InvoiceListTable: React.FC = () => {
                   </div>
                 </td>
                 <td className="p-4 whitespace-nowrap">
-                  <span className="text-sm font-medium text-gray-700 dark:text-gray-400">
-                    {invoice.customer}
-                  </span>
+                  {invoice.customerId ? (
+                    <Link
+                      href={`/customers/${invoice.customerId}`}
+                      className="text-sm font-medium text-gray-700 hover:text-brand-500 dark:text-gray-400"
+                    >
+                      {invoice.customer}
+                    </Link>
+                  ) : (
+                    <span className="text-sm font-medium text-gray-700 dark:text-gray-400">
+                      {invoice.customer}
+                    </span>
+                  )}
                 </td>
                 <td className="p-4 whitespace-nowrap">
                   <p className="text-sm text-gray-700 dark:text-gray-400">
@@ -828,20 +546,29 @@ const InvoiceListTable: React.FC = () => {
                 </td>
                 <td className="p-4 whitespace-nowrap">
                   <p className="text-sm text-gray-700 dark:text-gray-400">
-                    ${invoice.total}
+                    {formatMoney(invoice.total, { trimZeroCents: true })}
                   </p>
+                  {invoice.currency !== rates.reportingCurrency && (
+                    <p className="text-theme-xs text-gray-500 dark:text-gray-500">
+                      ≈{" "}
+                      {formatMoney(invoice.reportingTotal, {
+                        trimZeroCents: true,
+                      })}
+                    </p>
+                  )}
+                  {invoice.status === "Partially Paid" && (
+                    <p className="text-theme-xs text-warning-600 dark:text-orange-400">
+                      {formatMoney(invoice.due, { trimZeroCents: true })} due
+                    </p>
+                  )}
                 </td>
                 <td className="p-4 whitespace-nowrap">
                   <span
                     className={`text-theme-xs rounded-full px-2 py-0.5 font-medium ${
-                      invoice.status === "Paid"
-                        ? "bg-success-50 dark:bg-success-500/15 text-success-700 dark:text-success-500"
-                        : invoice.status === "Unpaid"
-                        ? "bg-error-50 text-error-600 dark:bg-error-500/15 dark:text-error-500"
-                        : "bg-gray-100 text-gray-600 dark:bg-gray-500/15 dark:text-gray-400"
+                      INVOICE_STATUS_CLASSES[invoice.shownStatus]
                     }`}
                   >
-                    {invoice.status}
+                    {invoice.shownStatus}
                   </span>
                 </td>
                 <td className="p-4 whitespace-nowrap">
@@ -871,7 +598,10 @@ const InvoiceListTable: React.FC = () => {
                           <button className="text-xs flex w-full rounded-lg px-3 py-2 text-left font-medium text-gray-500 hover:bg-gray-100 hover:text-gray-700 dark:text-gray-400 dark:hover:bg-white/5 dark:hover:text-gray-300">
                             View More
                           </button>
-                          <button className="text-xs flex w-full rounded-lg px-3 py-2 text-left font-medium text-gray-500 hover:bg-gray-100 hover:text-gray-700 dark:text-gray-400 dark:hover:bg-white/5 dark:hover:text-gray-300">
+                          <button
+                            disabled={!canDelete}
+                            className="text-xs flex w-full rounded-lg px-3 py-2 text-left font-medium text-gray-500 hover:bg-gray-100 hover:text-gray-700 disabled:cursor-not-allowed disabled:opacity-50 dark:text-gray-400 dark:hover:bg-white/5 dark:hover:text-gray-300"
+                          >
                             Delete
                           </button>
                         </>
@@ -881,6 +611,20 @@ const InvoiceListTable: React.FC = () => {
                 </td>
               </tr>
             ))}
+            {table.pageRows.length === 0 && (
+              <tr>
+                <td
+                  colSpan={7}
+                  className="px-5 py-10 text-center text-sm text-gray-500 dark:text-gray-400"
+                >
+                  {table.status === "loading"
+                    ? "Loading invoices..."
+                    : table.status === "error"
+                    ? table.error?.message
+                    : "No invoices match your search."}
+                </td>
+              </tr>
+            )}
           </tbody>
         </table>
       </div>
@@ -889,13 +633,15 @@ const InvoiceListTable: React.FC = () => {
           <span className="block text-sm font-medium text-gray-500 dark:text-gray-400">
             Showing{" "}
             <span className="text-gray-800 dark:text-white/90">
-              {startEntry}
+              {table.totalItems === 0 ? 0 : table.startIndex + 1}
             </span>{" "}
             to{" "}
-            <span className="text-gray-800 dark:text-white/90">{endEntry}</span>{" "}
+            <span className="text-gray-800 dark:text-white/90">
+              {table.endIndex}
+            </span>{" "}
             of{" "}
             <span className="text-gray-800 dark:text-white/90">
-              {sortedInvoices.length}
+              {table.totalItems}
             </span>
           </span>
         </div>
@@ -904,7 +650,7 @@ const InvoiceListTable: React.FC = () => {
             className={`shadow-theme-xs flex items-center gap-2 rounded-lg border border-gray-300 bg-white p-2 text-gray-700 hover:bg-gray-50 hover:text-gray-800 sm:p-2.5 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-400 dark:hover:bg-white/[0.03] dark:hover:text-gray-200 ${
               currentPage === 1 ? "opacity-50 cursor-not-allowed" : ""
             }`}
-            onClick={previousPage}
+            onClick={() => goToPage(currentPage - 1)}
             disabled={currentPage === 1}
           >
             <svg
@@ -963,7 +709,7 @@ const InvoiceListTable: React.FC = () => {
             className={`shadow-theme-xs flex items-center gap-2 rounded-lg border border-gray-300 bg-white p-2 text-gray-700 hover:bg-gray-50 hover:text-gray-800 sm:p-2.5 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-400 dark:hover:bg-white/[0.03] dark:hover:text-gray-200 ${
               currentPage === totalPages ? "opacity-50 cursor-not-allowed" : ""
             }`}
-            onClick={nextPage}
+            onClick={() => goToPage(currentPage + 1)}
             disabled={currentPage === totalPages}
           >
             <svg
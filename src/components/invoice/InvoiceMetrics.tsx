@@ -1,7 +1,13 @@
+import type { InvoiceMetricsData } from "@/lib/invoice-lifecycle";
+import { formatMoney } from "@/lib/money";
 import Link from "next/link";
 import React from "react";
 
-export default function InvoiceMetrics() {
+interface InvoiceMetricsProps {
+  metrics: InvoiceMetricsData; // In the reporting currency
+}
+
+export default function InvoiceMetrics({ metrics }: InvoiceMetricsProps) {
   return (
     <div className="mb-6 rounded-2xl border border-gray-200 bg-white p-4 sm:p-6 dark:border-gray-800 dark:bg-white/[0.03]">
       <div className="mb-6 flex items-center justify-between">
@@ -39,26 +45,36 @@ export default function InvoiceMetrics() {
           <p className="mb-1.5 text-sm text-gray-400 dark:text-gray-500">
             Overdue
           </p>
-          <h3 className="text-3xl text-gray-800 dark:text-white/90">$120.80</h3>
+          <h3 className="text-3xl text-gray-800 dark:text-white/90">
+            {formatMoney(metrics.overdue)}
+          </h3>
         </div>
         <div className="border-b p-5 lg:border-b-0">
           <p className="mb-1.5 text-sm text-gray-400 dark:text-gray-500">
             Due within next 30 days
           </p>
-          <h3 className="text-3xl text-gray-800 dark:text-white/90">0.00</h3>
+          <h3 className="text-3xl text-gray-800 dark:text-white/90">
+            {formatMoney(metrics.dueSoon)}
+          </h3>
         </div>
         <div className="border-b p-5 sm:border-r sm:border-b-0">
           <p className="mb-1.5 text-sm text-gray-400 dark:text-gray-500">
             Average time to get paid
           </p>
-          <h3 className="text-3xl text-gray-800 dark:text-white/90">24 days</h3>
+          <h3 className="text-3xl text-gray-800 dark:text-white/90">
+            {metrics.averageDaysToPay === null
+              ? "—"
+              : `${metrics.averageDaysToPay} ${
+                  metrics.averageDaysToPay === 1 ? "day" : "days"
+                }`}
+          </h3>
         </div>
         <div className="p-5">
           <p className="mb-1.5 text-sm text-gray-400 dark:text-gray-500">
             Upcoming Payout
           </p>
           <h3 className="text-3xl text-gray-800 dark:text-white/90">
-            $3,450.50
+            {formatMoney(metrics.upcomingPayout)}
           </h3>
         </div>
       </div>
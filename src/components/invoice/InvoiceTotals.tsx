@@ -0,0 +1,50 @@
+import {
+  calculateInvoiceTotals,
+  taxLabel,
+  type InvoiceTotalsInput,
+} from "@/lib/invoice-totals";
+import { formatMoney } from "@/lib/money";
+
+interface InvoiceTotalsProps {
+  invoice: InvoiceTotalsInput;
+}
+
+// Sub total, discount, shipping, one line per tax rate and the total
+export default function InvoiceTotals({ invoice }: InvoiceTotalsProps) {
+  const totals = calculateInvoiceTotals(invoice);
+  const money = (amount: number) =>
+    formatMoney(
+      { amount, currency: invoice.currency },
+      { trimZeroCents: true }
+    );
+  return (
+    <div className="pb-6 my-6 text-right border-b border-gray-100 dark:border-gray-800">
+      <p className="mb-2 text-sm text-gray-500 dark:text-gray-400">
+        Sub Total amount: {money(totals.subtotal)}
+      </p>
+      {totals.discount > 0 && (
+        <p className="mb-2 text-sm text-gray-500 dark:text-gray-400">
+          Discount: -{money(totals.discount)}
+        </p>
+      )}
+      {totals.shipping && (
+        <p className="mb-2 text-sm text-gray-500 dark:text-gray-400">
+          Shipping: {money(totals.shipping.amount)}
+        </p>
+      )}
+      {totals.taxes.map((tax) => (
+        <p
+          key={tax.rate.id}
+          className="mb-2 text-sm text-gray-500 dark:text-gray-400"
+        >
+          {taxLabel(tax, invoice.pricesIncludeTax)} on {money(tax.taxable)}:{" "}
+          {money(tax.amount)}
+        </p>
+      ))}
+
+      <p className="mt-3 text-lg font-semibold text-gray-800 dark:text-white/90">
+        Total : {money(totals.total)}
+      </p>
+    </div>
+  );
+}
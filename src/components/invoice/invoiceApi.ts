@@ -0,0 +1,71 @@
+import type { NewInvoice } from "@/lib/invoices";
+import type { Invoice, PaymentMethod } from "@/lib/mock-data/invoices";
+
+async function postJson<T>(url: string, body: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const result = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(
+      result?.error ?? `Request failed with status ${response.status}`
+    );
+  }
+  return result as T;
+}
+
+// Saves a draft; the server assigns its number
+export function createInvoice(invoice: NewInvoice) {
+  return postJson<Invoice>("/api/invoices", invoice);
+}
+
+export function sendInvoice(id: number) {
+  return postJson<Invoice>(`/api/invoices/${id}/status`, { action: "send" });
+}
+
+export function voidInvoice(id: number, note: string) {
+  return postJson<Invoice>(`/api/invoices/${id}/status`, {
+    action: "void",
+    note,
+  });
+}
+
+export interface PaymentInput {
+  amount: string; // Decimal, in the invoice currency
+  method: PaymentMethod;
+  reference: string;
+  paidAt: string; // YYYY-MM-DD
+}
+
+export function recordPayment(id: number, payment: PaymentInput) {
+  return postJson<Invoice>(`/api/invoices/${id}/payments`, payment);
+}
+
+// Renders the unsaved invoice on the server and saves the PDF it returns
+export async function downloadInvoicePreview(invoice: NewInvoice) {
+  const response = await fetch("/api/invoices/preview?download=1", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(invoice),
+  });
+  if (!response.ok) {
+    const result = await response.json().catch(() => null);
+    throw new Error(
+      result?.error ?? `Request failed with status ${response.status}`
+    );
+  }
+  const fileName =
+    response.headers
+      .get("Content-Disposition")
+      ?.match(/filename="(.+)"/)?.[1] ?? "invoice.pdf";
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
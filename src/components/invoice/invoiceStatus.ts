@@ -0,0 +1,13 @@
+import type { InvoiceDisplayStatus } from "@/lib/invoice-lifecycle";
+
+// Badge colours shared by the invoice list and the invoice page
+export const INVOICE_STATUS_CLASSES: Record<InvoiceDisplayStatus, string> = {
+  Draft: "bg-gray-100 text-gray-600 dark:bg-gray-500/15 dark:text-gray-400",
+  Sent: "bg-blue-light-50 text-blue-light-600 dark:bg-blue-light-500/15 dark:text-blue-light-500",
+  "Partially Paid":
+    "bg-warning-50 text-warning-600 dark:bg-warning-500/15 dark:text-orange-400",
+  Paid: "bg-success-50 dark:bg-success-500/15 text-success-700 dark:text-success-500",
+  Overdue:
+    "bg-error-50 text-error-600 dark:bg-error-500/15 dark:text-error-500",
+  Void: "bg-gray-100 text-gray-400 line-through dark:bg-white/5 dark:text-gray-500",
+};
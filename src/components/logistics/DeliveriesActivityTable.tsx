@@ -1,5 +1,16 @@
 "use client";
 import { useState } from "react";
+import {
+  shipmentColumns,
+  type Shipment,
+  type ShipmentStatus,
+} from "@/lib/mock-data/shipments";
+import { formatMoney, type Money } from "@/lib/money";
+import {
+  createRemoteDataSource,
+  useDataTable,
+  type ColumnDef,
+} from "../tables/DataTables/DataTable";
 import {
   Table,
   TableBody,
@@ -7,203 +18,50 @@ import {
   TableHeader,
   TableRow,
 } from "../ui/table";
+import { formatShipmentTime, shipmentStatusClasses } from "./shipmentStatus";
 
 interface Row {
   id: string;
   category: string;
   company: string;
-  arrival: string;
+  arrival: string; // ISO timestamp: delivered at, else the ETA
   route: string;
-  price: string;
-  status: string;
-  statusClass: string;
+  price: Money; // Charged in the currency of the route
+  status: ShipmentStatus;
 }
 
-interface Sort {
-  column: string;
-  asc: boolean;
-}
+// Filtered, sorted and paged by /api/shipments
+const shipmentSource = createRemoteDataSource<Shipment>("/api/shipments");
 
-const initialRows: Row[] = [
-  {
-    id: "#324112",
-    category: "Furniture",
-    company: "HomeLine",
-    arrival: "10 Apr 2028 2:15 pm",
-    route: "Berlin–Milan",
-    price: "$1,250.00",
-    status: "Delivered",
-    statusClass:
-      "bg-success-50 dark:bg-success-500/15 text-success-700 dark:text-success-500 text-xs rounded-full px-2 py-0.5 font-medium",
-  },
-  {
-    id: "#325678",
-    category: "Clothing",
-    company: "StylePro",
-    arrival: "21 May 2028 9:00 am",
-    route: "Paris–Rome",
-    price: "$340.75",
-    status: "Delivered",
-    statusClass:
-      "bg-success-50 dark:bg-success-500/15 text-success-700 dark:text-success-500 text-xs rounded-full px-2 py-0.5 font-medium",
-  },
-  {
-    id: "#326789",
-    category: "Books",
-    company: "EduSource",
-    arrival: "02 Jun 2028 11:45 am",
-    route: "New York–Chicago",
-    price: "$128.40",
-    status: "In Transit",
-    statusClass:
-      "bg-warning-50 dark:bg-warning-500/15 text-warning-600 dark:text-warning-400 text-xs rounded-full px-2 py-0.5 font-medium",
-  },
-  {
-    id: "#327003",
-    category: "Automotive",
-    company: "AutoParts Co.",
-    arrival: "18 Mar 2028 4:00 pm",
-    route: "Tokyo–Osaka",
-    price: "$2,150.89",
-    status: "Delivered",
-    statusClass:
-      "bg-success-50 dark:bg-success-500/15 text-success-700 dark:text-success-500 text-xs rounded-full px-2 py-0.5 font-medium",
-  },
-  {
-    id: "#328556",
-    category: "Electronics",
-    company: "TechNova",
-    arrival: "25 Jul 2028 10:30 am",
-    route: "San Francisco–Seattle",
-    price: "$849.99",
-    status: "Delivered",
-    statusClass:
-      "bg-success-50 dark:bg-success-500/15 text-success-700 dark:text-success-500 text-xs rounded-full px-2 py-0.5 font-medium",
-  },
-  {
-    id: "#329101",
-    category: "Health",
-    company: "MediCorp",
-    arrival: "30 May 2028 3:00 pm",
-    route: "Toronto–Vancouver",
-    price: "$579.20",
-    status: "Delivered",
-    statusClass:
-      "bg-success-50 dark:bg-success-500/15 text-success-700 dark:text-success-500 text-xs rounded-full px-2 py-0.5 font-medium",
-  },
-  {
-    id: "#330212",
-    category: "Toys",
-    company: "FunTime",
-    arrival: "07 Jun 2028 1:15 pm",
-    route: "Sydney–Melbourne",
-    price: "$212.65",
-    status: "Delivered",
-    statusClass:
-      "bg-success-50 dark:bg-success-500/15 text-success-700 dark:text-success-500 text-xs rounded-full px-2 py-0.5 font-medium",
-  },
-  {
-    id: "#331145",
-    category: "Kitchen",
-    company: "CookWell",
-    arrival: "13 May 2028 12:30 pm",
-    route: "Madrid–Barcelona",
-    price: "$489.90",
-    status: "Delivered",
-    statusClass:
-      "bg-success-50 dark:bg-success-500/15 text-success-700 dark:text-success-500 text-xs rounded-full px-2 py-0.5 font-medium",
-  },
-  {
-    id: "#332800",
-    category: "Beauty",
-    company: "GlamShine",
-    arrival: "28 Jun 2028 5:45 pm",
-    route: "Dubai–Doha",
-    price: "$323.75",
-    status: "Canceled",
-    statusClass:
-      "text-xs rounded-full bg-red-50 px-2 py-0.5 font-medium text-red-600 dark:bg-red-500/15 dark:text-red-500",
-  },
-  {
-    id: "#333902",
-    category: "Sports",
-    company: "FitZone",
-    arrival: "19 Jul 2028 8:00 am",
-    route: "Los Angeles–Las Vegas",
-    price: "$489.90",
-    status: "$675.00",
-    statusClass:
-      "bg-success-50 dark:bg-success-500/15 text-success-700 dark:text-success-500 text-xs rounded-full px-2 py-0.5 font-medium",
-  },
-];
+// The headers are part of the table markup below
+const columns: ColumnDef<Shipment>[] = shipmentColumns.map((column) => ({
+  ...column,
+  header: column.id,
+}));
+
+const toRow = (shipment: Shipment): Row => ({
+  id: `#${shipment.id}`,
+  category: shipment.category,
+  company: shipment.company,
+  arrival: shipment.deliveredAt ?? shipment.eta,
+  route: `${shipment.origin.city}–${shipment.destination.city}`,
+  price: shipment.price,
+  status: shipment.status,
+});
 
 const DeliveryActivityTable: React.FC = () => {
+  const table = useDataTable({
+    columns,
+    getRowId: (shipment) => shipment.id,
+    dataSource: shipmentSource,
+    initialPageSize: 5,
+  });
   const [selectedTab, setSelectedTab] = useState<string>("All");
   const [showFilter, setShowFilter] = useState<boolean>(false);
-  const [rows] = useState<Row[]>(initialRows);
-  const [selectedRows, setSelectedRows] = useState<string[]>([]);
-  const [sort, setSort] = useState<Sort>({ column: "", asc: true });
-  const [page, setPage] = useState<number>(1);
-  const perPage: number = 5;
-
-  const totalPages: number = Math.ceil(rows.length / perPage);
-  const startRow: number = (page - 1) * perPage;
-  const endRow: number = page * perPage;
-
-  const toggleAll = (): void => {
-    if (selectedRows.length === rows.length) {
-      setSelectedRows([]);
-    } else {
-      setSelectedRows(rows.map((r) => r.id));
-    }
-  };
-
-  const toggleRow = (id: string): void => {
-    setSelectedRows((prev) =>
-      prev.includes(id) ? prev.filter((r) => r !== id) : [...prev, id]
-    );
-  };
-
-  const sortBy = (col: string): void => {
-    setSort((prev) => ({
-      column: prev.column === col ? col : col,
-      asc: prev.column === col ? !prev.asc : true,
-    }));
-  };
-
-  const prevPage = (): void => {
-    if (page > 1) setPage(page - 1);
-  };
-
-  const nextPage = (): void => {
-    if (page < totalPages) setPage(page + 1);
-  };
-
-  const goToPage = (n: number): void => {
-    setPage(n);
-  };
-
-  const getPaginatedRows = (): Row[] => {
-    const sorted: Row[] = [...rows];
-    if (sort.column) {
-      sorted.sort((a: Row, b: Row) => {
-        const valA = a[sort.column as keyof Row];
-        const valB = b[sort.column as keyof Row];
-        if (sort.column === "arrival") {
-          return (
-            (Number(new Date(valA)) - Number(new Date(valB))) *
-            (sort.asc ? 1 : -1)
-          );
-        }
-        if (valA < valB) return sort.asc ? -1 : 1;
-        if (valA > valB) return sort.asc ? 1 : -1;
-        return 0;
-      });
-    }
-    return sorted.slice(startRow, endRow);
-  };
+  const { currentPage: page, totalPages, goToPage } = table;
 
-  const paginatedRows: Row[] = getPaginatedRows();
+  const sortDirection = (columnId: string) =>
+    table.sortRules.find((rule) => rule.columnId === columnId)?.direction;
 
   return (
     <div className="overflow-hidden rounded-xl border border-gray-200 bg-white dark:border-gray-800 dark:bg-white/[0.03]">
@@ -222,7 +80,10 @@ const DeliveryActivityTable: React.FC = () => {
               (tab) => (
                 <button
                   key={tab}
-                  onClick={() => setSelectedTab(tab)}
+                  onClick={() => {
+                    setSelectedTab(tab);
+                    table.setFilter("tab", tab === "All" ? "" : tab);
+                  }}
                   className={`h-10 flex-1 rounded-md px-2 py-2 text-xs font-medium sm:px-3 sm:text-sm lg:flex-initial ${
                     selectedTab === tab
                       ? "shadow-theme-xs text-gray-900 dark:text-white bg-white dark:bg-gray-800"
@@ -300,21 +161,19 @@ const DeliveryActivityTable: React.FC = () => {
                             <input
                               type="checkbox"
                               className="sr-only"
-                              onChange={toggleAll}
-                              checked={selectedRows.length === rows.length}
+                              onChange={table.toggleAllPageRows}
+                              checked={table.allPageRowsSelected}
                             />
                             <span
                               className={`flex h-4 w-4 items-center justify-center rounded-sm border-[1.25px] ${
-                                selectedRows.length === rows.length
+                                table.allPageRowsSelected
                                   ? "border-brand-500 bg-brand-500"
                                   : "bg-transparent border-gray-300 dark:border-gray-700"
                               }`}
                             >
                               <span
                                 className={
-                                  selectedRows.length === rows.length
-                                    ? ""
-                                    : "opacity-0"
+                                  table.allPageRowsSelected ? "" : "opacity-0"
                                 }
                               >
                                 <svg
@@ -347,7 +206,7 @@ const DeliveryActivityTable: React.FC = () => {
                   <th
                     key={col}
                     className="cursor-pointer p-4 text-left text-xs font-medium text-gray-500 dark:text-gray-400"
-                    onClick={() => sortBy(col)}
+                    onClick={() => table.toggleSort(col)}
                   >
                     <div className="flex items-center gap-3">
                       <p className="text-xs font-medium text-gray-500 dark:text-gray-400">
@@ -357,7 +216,7 @@ const DeliveryActivityTable: React.FC = () => {
                       <span className="flex flex-col gap-0.5">
                         <svg
                           className={
-                            sort.column === col && sort.asc
+                            sortDirection(col) === "asc"
                               ? "text-gray-500"
                               : "text-gray-300"
                           }
@@ -373,7 +232,7 @@ const DeliveryActivityTable: React.FC = () => {
                         </svg>
                         <svg
                           className={
-                            sort.column === col && !sort.asc
+                            sortDirection(col) === "desc"
                               ? "text-gray-500"
                               : "text-gray-300"
                           }
@@ -412,81 +271,104 @@ const DeliveryActivityTable: React.FC = () => {
               </TableRow>
             </TableHeader>
             <TableBody className="divide-x divide-y divide-gray-200 dark:divide-gray-800">
-              {paginatedRows.map((row) => (
-                <TableRow
-                  key={row.id}
-                  className="transition hover:bg-gray-50 dark:hover:bg-gray-900"
-                >
-                  <TableCell className="p-4 whitespace-nowrap">
-                    <div className="group flex items-center gap-3">
-                      <div>
-                        <label className="flex cursor-pointer items-center text-sm font-medium text-gray-700 select-none dark:text-gray-400">
-                          <span className="relative">
-                            <input
-                              type="checkbox"
-                              className="sr-only"
-                              onChange={() => toggleRow(row.id)}
-                              checked={selectedRows.includes(row.id)}
-                            />
-                            <span
-                              className={`flex h-4 w-4 items-center justify-center rounded-sm border-[1.25px] ${
-                                selectedRows.includes(row.id)
-                                  ? "border-brand-500 bg-brand-500"
-                                  : "bg-transparent border-gray-300 dark:border-gray-700"
-                              }`}
-                            >
+              {table.pageRows.map((shipment) => {
+                const row = toRow(shipment);
+                return (
+                  <TableRow
+                    key={row.id}
+                    className="transition hover:bg-gray-50 dark:hover:bg-gray-900"
+                  >
+                    <TableCell className="p-4 whitespace-nowrap">
+                      <div className="group flex items-center gap-3">
+                        <div>
+                          <label className="flex cursor-pointer items-center text-sm font-medium text-gray-700 select-none dark:text-gray-400">
+                            <span className="relative">
+                              <input
+                                type="checkbox"
+                                className="sr-only"
+                                onChange={() => table.toggleRow(shipment)}
+                                checked={table.isSelected(shipment)}
+                              />
                               <span
-                                className={
-                                  selectedRows.includes(row.id)
-                                    ? ""
-                                    : "opacity-0"
-                                }
+                                className={`flex h-4 w-4 items-center justify-center rounded-sm border-[1.25px] ${
+                                  table.isSelected(shipment)
+                                    ? "border-brand-500 bg-brand-500"
+                                    : "bg-transparent border-gray-300 dark:border-gray-700"
+                                }`}
                               >
-                                <svg
-                                  width="12"
-                                  height="12"
-                                  viewBox="0 0 12 12"
-                                  fill="none"
-                                  xmlns="http://www.w3.org/2000/svg"
+                                <span
+                                  className={
+                                    table.isSelected(shipment)
+                                      ? ""
+                                      : "opacity-0"
+                                  }
                                 >
-                                  <path
-                                    d="M10 3L4.5 8.5L2 6"
-                                    stroke="white"
-                                    strokeWidth="1.6666"
-                                    strokeLinecap="round"
-                                    strokeLinejoin="round"
-                                  />
-                                </svg>
+                                  <svg
+                                    width="12"
+                                    height="12"
+                                    viewBox="0 0 12 12"
+                                    fill="none"
+                                    xmlns="http://www.w3.org/2000/svg"
+                                  >
+                                    <path
+                                      d="M10 3L4.5 8.5L2 6"
+                                      stroke="white"
+                                      strokeWidth="1.6666"
+                                      strokeLinecap="round"
+                                      strokeLinejoin="round"
+                                    />
+                                  </svg>
+                                </span>
                               </span>
                             </span>
-                          </span>
-                        </label>
+                          </label>
+                        </div>
+                        <span className="text-xs font-medium text-gray-700 dark:text-gray-400">
+                          {row.id}
+                        </span>
                       </div>
-                      <span className="text-xs font-medium text-gray-700 dark:text-gray-400">
-                        {row.id}
+                    </TableCell>
+                    <TableCell className="p-4 text-sm font-normal whitespace-nowrap text-gray-800 dark:text-white/90">
+                      {row.category}
+                    </TableCell>
+                    <TableCell className="p-4 text-sm font-normal whitespace-nowrap text-gray-700 dark:text-white/90">
+                      {row.company}
+                    </TableCell>
+                    <TableCell className="p-4 text-sm font-normal whitespace-nowrap text-gray-700 dark:text-white/90">
+                      {formatShipmentTime(row.arrival)}
+                    </TableCell>
+                    <TableCell className="p-4 text-sm font-normal whitespace-nowrap text-gray-700 dark:text-white/90">
+                      {row.route}
+                    </TableCell>
+                    <TableCell className="p-4 text-sm font-normal whitespace-nowrap text-gray-700 dark:text-white/90">
+                      {formatMoney(row.price)}
+                    </TableCell>
+                    <TableCell className="p-4 whitespace-nowrap">
+                      <span
+                        className={`rounded-full px-2 py-0.5 text-xs font-medium ${
+                          shipmentStatusClasses[row.status]
+                        }`}
+                      >
+                        {row.status}
                       </span>
-                    </div>
-                  </TableCell>
-                  <TableCell className="p-4 text-sm font-normal whitespace-nowrap text-gray-800 dark:text-white/90">
-                    {row.category}
-                  </TableCell>
-                  <TableCell className="p-4 text-sm font-normal whitespace-nowrap text-gray-700 dark:text-white/90">
-                    {row.company}
-                  </TableCell>
-                  <TableCell className="p-4 text-sm font-normal whitespace-nowrap text-gray-700 dark:text-white/90">
-                    {row.arrival}
-                  </TableCell>
-                  <TableCell className="p-4 text-sm font-normal whitespace-nowrap text-gray-700 dark:text-white/90">
-                    {row.route}
-                  </TableCell>
-                  <TableCell className="p-4 text-sm font-normal whitespace-nowrap text-gray-700 dark:text-white/90">
-                    {row.price}
-                  </TableCell>
-                  <TableCell className="p-4 whitespace-nowrap">
-                    <span className={row.statusClass}>{row.status}</span>
-                  </TableCell>
-                </TableRow>
-              ))}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+              {table.pageRows.length === 0 && (
+                <tr>
+                  <td
+                    colSpan={7}
+                    className="px-5 py-10 text-center text-sm text-gray-500 dark:text-gray-400"
+                  >
+                    {table.status === "loading"
+                      ? "Loading deliveries..."
+                      : table.status === "error"
+                      ? table.error?.message
+                      : "No deliveries in this tab."}
+                  </td>
+                </tr>
+              )}
             </TableBody>
           </Table>
         </div>
@@ -495,21 +377,21 @@ const DeliveryActivityTable: React.FC = () => {
             <span className="block text-sm font-medium text-gray-500 dark:text-gray-400">
               Showing{" "}
               <span className="text-gray-800 dark:text-white/90">
-                {startRow + 1}
+                {table.totalItems === 0 ? 0 : table.startIndex + 1}
               </span>{" "}
               to{" "}
               <span className="text-gray-800 dark:text-white/90">
-                {Math.min(endRow, rows.length)}
+                {table.endIndex}
               </span>{" "}
               of{" "}
               <span className="text-gray-800 dark:text-white/90">
-                {rows.length}
+                {table.totalItems}
               </span>
             </span>
           </div>
           <div className="flex items-center bg-gray-50 dark:bg-white/[0.03] p-4 sm:p-0 sm:bg-transparent rounded-lg dark:sm:bg-transparent w-full sm:w-auto justify-between gap-2 sm:justify-normal">
             <button
-              onClick={prevPage}
+              onClick={() => goToPage(page - 1)}
               disabled={page === 1}
               className="shadow-theme-xs flex items-center gap-2 rounded-lg border border-gray-300 bg-white p-2 text-gray-700 hover:bg-gray-50 hover:text-gray-800 disabled:opacity-50 sm:p-2.5 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-400 dark:hover:bg-white/[0.03] dark:hover:text-gray-200"
             >
@@ -552,7 +434,7 @@ const DeliveryActivityTable: React.FC = () => {
               ))}
             </ul>
             <button
-              onClick={nextPage}
+              onClick={() => goToPage(page + 1)}
               disabled={page === totalPages}
               className="shadow-theme-xs flex items-center gap-2 rounded-lg border border-gray-300 bg-white p-2 text-gray-700 hover:bg-gray-50 hover:text-gray-800 disabled:opacity-50 sm:p-2.5 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-400 dark:hover:bg-white/[0.03] dark:hover:text-gray-200"
             >
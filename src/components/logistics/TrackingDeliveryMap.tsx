@@ -1,11 +1,94 @@
 "use client";
 import { MoreDotIcon } from "@/icons";
-import { useState } from "react";
+import type { Shipment } from "@/lib/mock-data/shipments";
+import { memo, useEffect, useRef, useState } from "react";
 import { Dropdown } from "../ui/dropdown/Dropdown";
 import { DropdownItem } from "../ui/dropdown/DropdownItem";
+import {
+  boundsOf,
+  clusterPoints,
+  currentPosition,
+  project,
+  routeLines,
+  WORLD,
+  type MapPoint,
+} from "./deliveryMap";
 
-export default function TrackingDeliveryMap() {
+interface TrackingDeliveryMapProps {
+  shipments: Shipment[];
+  tracked: Shipment | null; // Shown with its route when the map opens
+}
+
+// Centre of the view in map units, and how many pixels one unit takes
+interface View {
+  center: MapPoint;
+  scale: number;
+}
+
+// Until the map has been measured, e.g. while rendering on the server
+const DEFAULT_SIZE = { width: 300, height: 220 };
+
+// Vehicles closer together than this on screen are drawn as one
+const CLUSTER_RADIUS_PX = 18;
+
+const ZOOM_STEP = 1.5;
+const MAX_ZOOM = 64; // Times the whole-world scale
+
+const isActive = (shipment: Shipment) =>
+  shipment.status !== "Delivered" && shipment.status !== "Canceled";
+
+// Drawn once; panning and zooming only move the view box
+const WorldOutline = memo(function WorldOutline() {
+  return (
+    <g>
+      {Object.entries(WORLD.paths).map(([code, region]) => (
+        <path
+          key={code}
+          d={region.path}
+          className="fill-gray-200 stroke-white dark:fill-gray-800 dark:stroke-gray-900"
+          strokeWidth={0.5}
+          vectorEffect="non-scaling-stroke"
+        >
+          <title>{region.name}</title>
+        </path>
+      ))}
+    </g>
+  );
+});
+
+const polylinePoints = (points: MapPoint[]) =>
+  points.map(({ x, y }) => `${x},${y}`).join(" ");
+
+/**
+ * Shipments on a vector world map: the selected one with its origin,
+ * destination, position and route, every other vehicle on the road as a
+ * dot or a numbered cluster. Drag to pan; clicking a cluster zooms in and
+ * clicking a vehicle shows its route.
+ */
+export default function TrackingDeliveryMap({
+  shipments,
+  tracked,
+}: TrackingDeliveryMapProps) {
   const [isOpen, setIsOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState(tracked?.id ?? null);
+  // Null fits the selected route
+  const [view, setView] = useState<View | null>(null);
+  const [size, setSize] = useState(DEFAULT_SIZE);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const drag = useRef<{ x: number; y: number; view: View; moved: boolean }>(
+    null
+  );
+
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      if (width > 0 && height > 0) setSize({ width, height });
+    });
+    observer.observe(svg);
+    return () => observer.disconnect();
+  }, []);
 
   function toggleDropdown() {
     setIsOpen(!isOpen);
@@ -14,6 +97,57 @@ export default function TrackingDeliveryMap() {
   function closeDropdown() {
     setIsOpen(false);
   }
+
+  const minScale = size.width / WORLD.width;
+  const clampScale = (scale: number) =>
+    Math.min(Math.max(scale, minScale), minScale * MAX_ZOOM);
+
+  // The view that shows all of `points`, with some room around them
+  const fit = (points: MapPoint[]): View => {
+    if (points.length === 0) {
+      return {
+        center: { x: WORLD.width / 2, y: WORLD.height / 2 },
+        scale: minScale,
+      };
+    }
+    const { min, max } = boundsOf(points);
+    const padding = 48;
+    return {
+      center: { x: (min.x + max.x) / 2, y: (min.y + max.y) / 2 },
+      scale: clampScale(
+        Math.min(
+          (size.width - padding) / Math.max(max.x - min.x, 1e-6),
+          (size.height - padding) / Math.max(max.y - min.y, 1e-6)
+        )
+      ),
+    };
+  };
+
+  const selected =
+    shipments.find((shipment) => shipment.id === selectedId) ?? null;
+  const route = selected ? routeLines(selected) : null;
+  const routePoints = route ? [...route.travelled, ...route.remaining] : [];
+  const current = view ?? fit(routePoints);
+  const { center, scale } = current;
+  const unit = 1 / scale; // Map units per pixel, to size markers on screen
+
+  const vehicles = shipments.filter(
+    (shipment) => isActive(shipment) && shipment.id !== selectedId
+  );
+  const clusters = clusterPoints(
+    vehicles,
+    (shipment) => project(currentPosition(shipment)),
+    CLUSTER_RADIUS_PX * unit
+  );
+
+  const zoomBy = (factor: number) =>
+    setView({ center, scale: clampScale(scale * factor) });
+
+  const select = (shipment: Shipment) => {
+    setSelectedId(shipment.id);
+    setView(null);
+  };
+
   return (
     <div className="rounded-xl bg-white p-4 dark:bg-gray-900">
       <div className="flex items-center justify-between">
@@ -22,7 +156,9 @@ export default function TrackingDeliveryMap() {
             Tracking Delivery
           </h3>
           <p className="text-sm text-gray-500 dark:text-gray-400">
-            Last viewed delivery history
+            {selected
+              ? `#${selected.trackingId} · ${selected.origin.city} to ${selected.destination.city}`
+              : `${vehicles.length} vehicles on the road`}
           </p>
         </div>
         <div className="relative h-fit">
@@ -35,29 +171,239 @@ export default function TrackingDeliveryMap() {
             className="w-40 p-2"
           >
             <DropdownItem
-              onItemClick={closeDropdown}
+              onItemClick={() => {
+                setView(
+                  fit(
+                    vehicles.map((shipment) =>
+                      project(currentPosition(shipment))
+                    )
+                  )
+                );
+                closeDropdown();
+              }}
               className="flex w-full font-normal text-left text-gray-500 rounded-lg hover:bg-gray-100 hover:text-gray-700 dark:text-gray-400 dark:hover:bg-white/5 dark:hover:text-gray-300"
             >
-              View More
+              Show All Vehicles
             </DropdownItem>
             <DropdownItem
-              onItemClick={closeDropdown}
+              onItemClick={() => {
+                setView({
+                  center: { x: WORLD.width / 2, y: WORLD.height / 2 },
+                  scale: minScale,
+                });
+                closeDropdown();
+              }}
               className="flex w-full font-normal text-left text-gray-500 rounded-lg hover:bg-gray-100 hover:text-gray-700 dark:text-gray-400 dark:hover:bg-white/5 dark:hover:text-gray-300"
             >
-              Delete
+              Whole World
             </DropdownItem>
           </Dropdown>
         </div>
       </div>
-      <div className="mt-5">
-        <iframe
-          src="https://www.google.com/maps/embed?pb=!1m18!1m12!1m3!1d3650.5145053176284!2d90.42105717591272!3d23.800296778636472!2m3!1f0!2f0!3f0!3m2!1i1024!2i768!4f13.1!3m3!1m2!1s0x3755c7e9f37a5a3d%3A0x41d7d1d02e1ed0e4!2sPimjo!5e0!3m2!1sen!2sbd!4v1751871078440!5m2!1sen!2sbd"
-          width="303"
-          height="180"
-          loading="lazy"
-          referrerPolicy="no-referrer-when-downgrade"
-          className="!w-full rounded-xl border border-gray-200 grayscale dark:border-gray-800"
-        ></iframe>
+      <div className="relative mt-5">
+        <svg
+          ref={svgRef}
+          aria-label="Delivery map"
+          viewBox={[
+            center.x - size.width / 2 / scale,
+            center.y - size.height / 2 / scale,
+            size.width / scale,
+            size.height / scale,
+          ].join(" ")}
+          className="h-[220px] w-full cursor-grab touch-none rounded-xl border border-gray-200 bg-gray-50 select-none active:cursor-grabbing dark:border-gray-800 dark:bg-white/[0.03]"
+          onPointerDown={(e) => {
+            drag.current = {
+              x: e.clientX,
+              y: e.clientY,
+              view: current,
+              moved: false,
+            };
+          }}
+          onPointerMove={(e) => {
+            const start = drag.current;
+            if (!start) return;
+            // Released outside the map before the drag took hold
+            if (e.buttons === 0) {
+              drag.current = null;
+              return;
+            }
+            const dx = e.clientX - start.x;
+            const dy = e.clientY - start.y;
+            if (!start.moved) {
+              if (Math.hypot(dx, dy) < 3) return;
+              // Captured only once it is a drag, so clicks reach the markers
+              e.currentTarget.setPointerCapture(e.pointerId);
+              start.moved = true;
+            }
+            setView({
+              center: {
+                x: start.view.center.x - dx / start.view.scale,
+                y: start.view.center.y - dy / start.view.scale,
+              },
+              scale: start.view.scale,
+            });
+          }}
+          onPointerUp={() => {
+            // A drag that ended over a marker is not a click on it
+            setTimeout(() => (drag.current = null));
+          }}
+        >
+          <WorldOutline />
+
+          {clusters.map((cluster) => {
+            const single = cluster.items.length === 1;
+            const first = cluster.items[0];
+            return (
+              <g
+                key={first.id}
+                className="cursor-pointer"
+                onClick={() => {
+                  if (drag.current?.moved) return;
+                  if (single) return select(first);
+                  const points = cluster.items.map((shipment) =>
+                    project(currentPosition(shipment))
+                  );
+                  const next = fit(points);
+                  setView({
+                    center: next.center,
+                    scale: Math.max(next.scale, clampScale(scale * 2)),
+                  });
+                }}
+              >
+                <title>
+                  {single
+                    ? `#${first.trackingId} · ${first.status}`
+                    : `${cluster.items.length} vehicles`}
+                </title>
+                <circle
+                  cx={cluster.center.x}
+                  cy={cluster.center.y}
+                  r={(single ? 5 : 11) * unit}
+                  className={
+                    single
+                      ? "fill-warning-500 stroke-white dark:stroke-gray-900"
+                      : "fill-brand-500/80 stroke-brand-200 dark:stroke-brand-800"
+                  }
+                  strokeWidth={2}
+                  vectorEffect="non-scaling-stroke"
+                />
+                {!single && (
+                  <text
+                    x={cluster.center.x}
+                    y={cluster.center.y}
+                    dy="0.35em"
+                    textAnchor="middle"
+                    fontSize={10 * unit}
+                    className="pointer-events-none fill-white font-medium"
+                  >
+                    {cluster.items.length}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+
+          {selected && route && (
+            <g className="pointer-events-none">
+              {route.remaining.length > 0 && (
+                <polyline
+                  points={polylinePoints(route.remaining)}
+                  fill="none"
+                  className="stroke-gray-400 dark:stroke-gray-500"
+                  strokeWidth={2}
+                  strokeDasharray="4 4"
+                  vectorEffect="non-scaling-stroke"
+                />
+              )}
+              <polyline
+                points={polylinePoints(route.travelled)}
+                fill="none"
+                className="stroke-brand-500"
+                strokeWidth={2.5}
+                strokeLinejoin="round"
+                vectorEffect="non-scaling-stroke"
+              />
+              {/* Origin */}
+              <circle
+                cx={route.travelled[0].x}
+                cy={route.travelled[0].y}
+                r={5 * unit}
+                className="fill-white stroke-brand-500 dark:fill-gray-900"
+                strokeWidth={2}
+                vectorEffect="non-scaling-stroke"
+              />
+              {/* Destination */}
+              <circle
+                cx={project(selected.destination).x}
+                cy={project(selected.destination).y}
+                r={6 * unit}
+                className="fill-success-500 stroke-white dark:stroke-gray-900"
+                strokeWidth={2}
+                vectorEffect="non-scaling-stroke"
+              />
+              {/* Current position */}
+              {isActive(selected) && (
+                <>
+                  <circle
+                    cx={route.travelled[route.travelled.length - 1].x}
+                    cy={route.travelled[route.travelled.length - 1].y}
+                    r={12 * unit}
+                    className="fill-brand-500/20"
+                  />
+                  <circle
+                    cx={route.travelled[route.travelled.length - 1].x}
+                    cy={route.travelled[route.travelled.length - 1].y}
+                    r={6 * unit}
+                    className="fill-brand-500 stroke-white dark:stroke-gray-900"
+                    strokeWidth={2}
+                    vectorEffect="non-scaling-stroke"
+                  />
+                </>
+              )}
+            </g>
+          )}
+        </svg>
+
+        <div className="absolute top-2 right-2 flex flex-col gap-1">
+          {[
+            { label: "Zoom in", text: "+", onClick: () => zoomBy(ZOOM_STEP) },
+            {
+              label: "Zoom out",
+              text: "−",
+              onClick: () => zoomBy(1 / ZOOM_STEP),
+            },
+            { label: "Fit route", text: "⤢", onClick: () => setView(null) },
+          ].map((control) => (
+            <button
+              key={control.label}
+              type="button"
+              title={control.label}
+              aria-label={control.label}
+              onClick={control.onClick}
+              className="shadow-theme-xs flex h-7 w-7 items-center justify-center rounded-md border border-gray-200 bg-white text-sm text-gray-700 hover:bg-gray-50 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-400 dark:hover:bg-white/[0.03]"
+            >
+              {control.text}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="mt-3 flex flex-wrap items-center gap-x-4 gap-y-1 text-theme-xs text-gray-500 dark:text-gray-400">
+        <span className="flex items-center gap-1.5">
+          <span className="h-2.5 w-2.5 rounded-full border-2 border-brand-500" />
+          Origin
+        </span>
+        <span className="flex items-center gap-1.5">
+          <span className="h-2.5 w-2.5 rounded-full bg-brand-500" />
+          Current position
+        </span>
+        <span className="flex items-center gap-1.5">
+          <span className="h-2.5 w-2.5 rounded-full bg-success-500" />
+          Destination
+        </span>
+        <span className="flex items-center gap-1.5">
+          <span className="h-2.5 w-2.5 rounded-full bg-warning-500" />
+          Other vehicles
+        </span>
       </div>
     </div>
   );
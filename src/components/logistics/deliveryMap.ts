@@ -0,0 +1,125 @@
+import type { GeoPoint, Shipment } from "@/lib/mock-data/shipments";
+import { worldMill } from "@react-jvectormap/world";
+
+/**
+ * Geometry for the delivery map. The country outlines are the Miller
+ * projection map `CountryMap` draws with, so the map needs no tiles and
+ * works offline; these helpers put latitudes and longitudes on it.
+ */
+
+export const WORLD = worldMill.content;
+
+const [inset] = WORLD.insets;
+const EARTH_RADIUS = 6381372;
+const RADIANS = Math.PI / 180;
+
+export interface MapPoint {
+  x: number;
+  y: number;
+}
+
+// Where `point` lands on the map, in the units of its 900-wide outlines
+export function project({ lat, lng }: GeoPoint): MapPoint {
+  const meridian = WORLD.projection.centralMeridian;
+  const wrapped = lng < -180 + meridian ? lng + 360 : lng;
+  const x = EARTH_RADIUS * (wrapped - meridian) * RADIANS;
+  const y =
+    (-EARTH_RADIUS * Math.log(Math.tan((45 + 0.4 * lat) * RADIANS))) / 0.8;
+  const [min, max] = inset.bbox;
+  return {
+    x: inset.left + ((x - min.x) / (max.x - min.x)) * inset.width,
+    y: inset.top + ((y - min.y) / (max.y - min.y)) * inset.height,
+  };
+}
+
+// The latest scan with a position, else where the shipment set out from
+export function currentPosition(shipment: Shipment): GeoPoint {
+  if (shipment.status === "Delivered") return shipment.destination;
+  const scanned = [...shipment.events]
+    .reverse()
+    .find((event) => event.position);
+  return scanned?.position ?? shipment.origin;
+}
+
+/**
+ * The route as two polylines: where the parcel has been, through every
+ * scan with a position, and the rest of the way to the destination.
+ */
+export function routeLines(shipment: Shipment): {
+  travelled: MapPoint[];
+  remaining: MapPoint[];
+} {
+  const travelled = [
+    shipment.origin,
+    ...shipment.events.flatMap((event) =>
+      event.position ? [event.position] : []
+    ),
+    currentPosition(shipment),
+  ]
+    .map(project)
+    .filter(
+      (point, index, points) =>
+        index === 0 ||
+        point.x !== points[index - 1].x ||
+        point.y !== points[index - 1].y
+    );
+  const here = travelled[travelled.length - 1];
+  return {
+    travelled,
+    remaining:
+      shipment.status === "Delivered" || shipment.status === "Canceled"
+        ? []
+        : [here, project(shipment.destination)],
+  };
+}
+
+export interface MapCluster<T> {
+  center: MapPoint;
+  items: T[];
+}
+
+/**
+ * Groups points closer than `radius` to a group's centre, in map units.
+ * Greedy and in input order, which is plenty for a fleet on one screen.
+ */
+export function clusterPoints<T>(
+  items: T[],
+  pointOf: (item: T) => MapPoint,
+  radius: number
+): MapCluster<T>[] {
+  const clusters: MapCluster<T>[] = [];
+  for (const item of items) {
+    const point = pointOf(item);
+    const near = clusters.find(
+      ({ center }) =>
+        Math.hypot(center.x - point.x, center.y - point.y) <= radius
+    );
+    if (!near) {
+      clusters.push({ center: point, items: [item] });
+      continue;
+    }
+    const count = near.items.push(item);
+    near.center = {
+      x: near.center.x + (point.x - near.center.x) / count,
+      y: near.center.y + (point.y - near.center.y) / count,
+    };
+  }
+  return clusters;
+}
+
+// The smallest box around `points`, for zooming to fit them
+export function boundsOf(points: MapPoint[]): {
+  min: MapPoint;
+  max: MapPoint;
+} {
+  return {
+    min: {
+      x: Math.min(...points.map((point) => point.x)),
+      y: Math.min(...points.map((point) => point.y)),
+    },
+    max: {
+      x: Math.max(...points.map((point) => point.x)),
+      y: Math.max(...points.map((point) => point.y)),
+    },
+  };
+}
@@ -0,0 +1,46 @@
+import type { ShipmentStatus } from "@/lib/mock-data/shipments";
+
+// Badge colours for each shipment status
+export const shipmentStatusClasses: Record<ShipmentStatus, string> = {
+  Pending: "bg-gray-100 text-gray-600 dark:bg-white/5 dark:text-gray-400",
+  Processing:
+    "bg-blue-light-50 text-blue-light-600 dark:bg-blue-light-500/15 dark:text-blue-light-500",
+  "Picked Up":
+    "bg-warning-50 dark:bg-warning-500/15 text-warning-600 dark:text-warning-400",
+  "In Transit":
+    "bg-warning-50 dark:bg-warning-500/15 text-warning-600 dark:text-warning-400",
+  "Out for Delivery":
+    "bg-brand-50 text-brand-600 dark:bg-brand-500/15 dark:text-brand-400",
+  Delivered:
+    "bg-success-50 dark:bg-success-500/15 text-success-700 dark:text-success-500",
+  Canceled: "bg-red-50 text-red-600 dark:bg-red-500/15 dark:text-red-500",
+};
+
+// Dates and times below are in UTC, so the server render and the browser agree
+
+// "12 Apr 2028" above each tracking event
+export const formatShipmentDay = (iso: string) =>
+  new Date(iso).toLocaleDateString("en-GB", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+
+// "12:54" beside each tracking event
+export const formatShipmentClock = (iso: string) =>
+  new Date(iso).toLocaleTimeString("en-GB", {
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone: "UTC",
+  });
+
+// "10 Apr 2028 2:15 pm" for arrival times
+export const formatShipmentTime = (iso: string) =>
+  `${formatShipmentDay(iso)} ${new Date(iso)
+    .toLocaleTimeString("en-US", {
+      hour: "numeric",
+      minute: "2-digit",
+      timeZone: "UTC",
+    })
+    .toLowerCase()}`;
@@ -0,0 +1,183 @@
+"use client";
+import { MACRO_PLACEHOLDERS } from "@/lib/macro-placeholders";
+import {
+  TICKET_STATUSES,
+  type TicketStatus,
+} from "@/lib/mock-data/support-tickets";
+import type { TicketMacro } from "@/lib/mock-data/ticket-macros";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import Label from "../form/Label";
+import { Modal } from "../ui/modal";
+import { createMacro, updateMacro } from "./ticketApi";
+
+interface MacroFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  macro: TicketMacro | null; // Null to add a new one
+  agents: string[];
+}
+
+const INPUT_CLASSES =
+  "dark:bg-dark-900 shadow-theme-xs focus:border-brand-300 focus:ring-brand-500/10 dark:focus:border-brand-800 h-11 w-full rounded-lg border border-gray-300 bg-transparent px-4 py-2.5 text-sm text-gray-800 placeholder:text-gray-400 focus:ring-3 focus:outline-hidden dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:placeholder:text-white/30";
+
+// Adds or edits a macro; rendered with a `key` so each opening starts fresh
+export default function MacroFormModal({
+  isOpen,
+  onClose,
+  macro,
+  agents,
+}: MacroFormModalProps) {
+  const router = useRouter();
+  const [name, setName] = useState(macro?.name ?? "");
+  const [body, setBody] = useState(macro?.body ?? "");
+  const [status, setStatus] = useState(macro?.actions.status ?? "");
+  const [agent, setAgent] = useState(macro?.actions.agent ?? "");
+  const [tags, setTags] = useState(macro?.actions.tags.join(", ") ?? "");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async () => {
+    const input = {
+      name,
+      body,
+      actions: {
+        ...(status ? { status: status as TicketStatus } : {}),
+        ...(agent ? { agent } : {}),
+        tags: tags
+          .split(",")
+          .map((tag) => tag.trim())
+          .filter(Boolean),
+      },
+    };
+    setBusy(true);
+    setError(null);
+    try {
+      await (macro ? updateMacro(macro.id, input) : createMacro(input));
+      router.refresh();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      className="relative w-full max-w-[700px] m-5 sm:m-0 rounded-3xl bg-white p-6 lg:p-10 dark:bg-gray-900"
+    >
+      <h4 className="mb-6 text-2xl font-semibold text-gray-800 dark:text-white/90">
+        {macro ? "Edit Macro" : "Add Macro"}
+      </h4>
+      <form
+        className="space-y-5"
+        onSubmit={(e) => {
+          e.preventDefault();
+          save();
+        }}
+      >
+        <div>
+          <Label htmlFor="macro-name">Name</Label>
+          <input
+            id="macro-name"
+            type="text"
+            placeholder="Refund processed"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className={INPUT_CLASSES}
+          />
+        </div>
+        <div>
+          <Label htmlFor="macro-body">Reply text</Label>
+          <textarea
+            id="macro-body"
+            rows={7}
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            className="dark:bg-dark-900 shadow-theme-xs focus:border-brand-300 focus:ring-brand-500/10 dark:focus:border-brand-800 w-full rounded-lg border border-gray-300 bg-transparent px-4 py-2.5 text-sm text-gray-800 focus:ring-3 focus:outline-hidden dark:border-gray-700 dark:bg-gray-900 dark:text-white/90"
+          />
+          <div className="mt-2 flex flex-wrap gap-2">
+            {Object.entries(MACRO_PLACEHOLDERS).map(([placeholder, label]) => (
+              <button
+                key={placeholder}
+                type="button"
+                title={label}
+                onClick={() => setBody((text) => `${text}{{${placeholder}}}`)}
+                className="rounded-md bg-gray-100 px-2 py-1 font-mono text-theme-xs text-gray-600 hover:bg-gray-200 dark:bg-white/5 dark:text-gray-400 dark:hover:bg-white/10"
+              >
+                {`{{${placeholder}}}`}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="grid grid-cols-1 gap-5 sm:grid-cols-3">
+          <div>
+            <Label htmlFor="macro-status">Set status</Label>
+            <select
+              id="macro-status"
+              value={status}
+              onChange={(e) => setStatus(e.target.value)}
+              className={INPUT_CLASSES}
+            >
+              <option value="">Leave as is</option>
+              {TICKET_STATUSES.map((value) => (
+                <option key={value} value={value}>
+                  {value}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <Label htmlFor="macro-agent">Assign to</Label>
+            <select
+              id="macro-agent"
+              value={agent}
+              onChange={(e) => setAgent(e.target.value)}
+              className={INPUT_CLASSES}
+            >
+              <option value="">Keep assignee</option>
+              {agents.map((value) => (
+                <option key={value} value={value}>
+                  {value}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <Label htmlFor="macro-tags">Add tags</Label>
+            <input
+              id="macro-tags"
+              type="text"
+              placeholder="billing, refund"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              className={INPUT_CLASSES}
+            />
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-error-500">{error}</p>}
+
+        <div className="flex w-full flex-col items-center justify-end gap-3 sm:flex-row">
+          <button
+            type="button"
+            onClick={onClose}
+            className="shadow-theme-xs flex justify-center rounded-lg border border-gray-300 bg-white px-5 py-3.5 text-sm font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-400 dark:hover:bg-white/[0.03]"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={busy || !name.trim() || !body.trim()}
+            className="bg-brand-500 shadow-theme-xs hover:bg-brand-600 flex justify-center rounded-lg px-5 py-3.5 text-sm font-medium text-white disabled:opacity-50"
+          >
+            {macro ? "Save Changes" : "Add Macro"}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
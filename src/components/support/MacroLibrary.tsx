@@ -0,0 +1,167 @@
+"use client";
+import type { TicketMacro } from "@/lib/mock-data/ticket-macros";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHeader,
+  TableRow,
+} from "../ui/table";
+import MacroFormModal from "./MacroFormModal";
+import { deleteMacro } from "./ticketApi";
+import { formatTicketTime, macroActionLabels } from "./ticketStatus";
+
+interface MacroLibraryProps {
+  macros: TicketMacro[];
+  agents: string[];
+}
+
+const headerCell =
+  "px-5 py-3 font-medium text-gray-500 text-start text-theme-xs dark:text-gray-400";
+const bodyCell =
+  "px-5 py-4 align-top text-theme-sm text-gray-700 dark:text-gray-400";
+const smallButton =
+  "shadow-theme-xs inline-flex h-8 items-center justify-center rounded-lg border border-gray-300 px-3 text-xs font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 dark:border-gray-700 dark:text-gray-400 dark:hover:bg-white/[0.03] dark:hover:text-gray-200";
+
+// The canned replies agents pick from, with what each does to the ticket
+export default function MacroLibrary({ macros, agents }: MacroLibraryProps) {
+  const router = useRouter();
+  // The macro in the form: null while closed, "new" when adding one
+  const [editing, setEditing] = useState<TicketMacro | "new" | null>(null);
+  const [removing, setRemoving] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const remove = async (id: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await deleteMacro(id);
+      setRemoving(null);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="overflow-hidden rounded-2xl border border-gray-200 bg-white dark:border-gray-800 dark:bg-white/[0.03]">
+      <div className="flex flex-col justify-between gap-4 border-b border-gray-200 px-5 py-4 sm:flex-row sm:items-center dark:border-gray-800">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800 dark:text-white/90">
+            Macros
+          </h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Canned replies agents insert from the reply box. Actions run on the
+            ticket when the reply is sent.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => setEditing("new")}
+          className="bg-brand-500 shadow-theme-xs hover:bg-brand-600 inline-flex items-center justify-center rounded-lg px-4 py-3 text-sm font-medium text-white"
+        >
+          Add Macro
+        </button>
+      </div>
+
+      {error && <p className="px-5 pt-4 text-sm text-error-500">{error}</p>}
+
+      <div className="max-w-full overflow-x-auto">
+        <Table>
+          <TableHeader className="border-b border-gray-100 dark:border-gray-800">
+            <TableRow>
+              <TableCell isHeader className={headerCell}>
+                Name
+              </TableCell>
+              <TableCell isHeader className={headerCell}>
+                Reply Text
+              </TableCell>
+              <TableCell isHeader className={headerCell}>
+                Actions
+              </TableCell>
+              <TableCell isHeader className={headerCell}>
+                Last Saved
+              </TableCell>
+              <TableCell isHeader className={headerCell}>
+                <span className="sr-only">Manage</span>
+              </TableCell>
+            </TableRow>
+          </TableHeader>
+          <TableBody className="divide-y divide-gray-100 dark:divide-gray-800">
+            {macros.map((macro) => (
+              <TableRow key={macro.id}>
+                <TableCell
+                  className={`${bodyCell} font-medium text-gray-800 dark:text-white/90`}
+                >
+                  {macro.name}
+                </TableCell>
+                <TableCell className={`${bodyCell} max-w-md`}>
+                  <p className="line-clamp-3 whitespace-pre-line">
+                    {macro.body}
+                  </p>
+                </TableCell>
+                <TableCell className={bodyCell}>
+                  {macroActionLabels(macro.actions).map((label) => (
+                    <span key={label} className="block">
+                      {label}
+                    </span>
+                  ))}
+                  {macroActionLabels(macro.actions).length === 0 && "—"}
+                </TableCell>
+                <TableCell className={bodyCell}>
+                  {formatTicketTime(macro.updatedAt)}
+                  <span className="block text-theme-xs text-gray-500 dark:text-gray-400">
+                    by {macro.updatedBy}
+                  </span>
+                </TableCell>
+                <TableCell className={bodyCell}>
+                  <div className="flex justify-end gap-2">
+                    <button
+                      type="button"
+                      onClick={() => setEditing(macro)}
+                      className={smallButton}
+                    >
+                      Edit
+                    </button>
+                    <button
+                      type="button"
+                      disabled={busy}
+                      onClick={() =>
+                        removing === macro.id
+                          ? remove(macro.id)
+                          : setRemoving(macro.id)
+                      }
+                      className={smallButton}
+                    >
+                      {removing === macro.id ? "Confirm Delete" : "Delete"}
+                    </button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {macros.length === 0 && (
+          <p className="py-6 text-center text-sm text-gray-500 dark:text-gray-400">
+            No macros yet.
+          </p>
+        )}
+      </div>
+
+      {editing && (
+        <MacroFormModal
+          key={editing === "new" ? "new" : editing.id}
+          isOpen
+          onClose={() => setEditing(null)}
+          macro={editing === "new" ? null : editing}
+          agents={agents}
+        />
+      )}
+    </div>
+  );
+}
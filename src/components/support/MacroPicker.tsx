@@ -0,0 +1,113 @@
+"use client";
+import { usePermission } from "@/context/SessionContext";
+import type { TicketMacro } from "@/lib/mock-data/ticket-macros";
+import Link from "next/link";
+import { useState } from "react";
+import { Dropdown } from "../ui/dropdown/Dropdown";
+import { macroActionLabels } from "./ticketStatus";
+
+interface MacroPickerProps {
+  macros: TicketMacro[];
+  onPick: (macro: TicketMacro) => void;
+}
+
+// Searches the macros by name and text; Enter picks the first match
+export default function MacroPicker({ macros, onPick }: MacroPickerProps) {
+  const canManage = usePermission("support:macros");
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const needle = query.trim().toLowerCase();
+  const matches = macros.filter(
+    (macro) =>
+      macro.name.toLowerCase().includes(needle) ||
+      macro.body.toLowerCase().includes(needle)
+  );
+
+  const close = () => {
+    setIsOpen(false);
+    setQuery("");
+  };
+  const pick = (macro: TicketMacro) => {
+    onPick(macro);
+    close();
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => (isOpen ? close() : setIsOpen(true))}
+        className="dropdown-toggle flex h-9 items-center gap-1.5 rounded-lg bg-transparent px-2 py-3 text-sm text-gray-500 hover:bg-gray-100 hover:text-gray-700 dark:text-gray-400 dark:hover:bg-gray-900 dark:hover:text-gray-300"
+      >
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          width="20"
+          height="20"
+          viewBox="0 0 20 20"
+          fill="none"
+        >
+          <path
+            d="M3.5 5.5H16.5M3.5 10H16.5M3.5 14.5H11"
+            stroke="currentColor"
+            strokeWidth="1.5"
+            strokeLinecap="round"
+          />
+        </svg>
+        Macros
+      </button>
+      <Dropdown
+        isOpen={isOpen}
+        onClose={close}
+        className="bottom-full left-0 right-auto mb-2 w-80 p-3"
+      >
+        <input
+          type="search"
+          autoFocus
+          placeholder="Search macros..."
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && matches[0]) {
+              e.preventDefault();
+              pick(matches[0]);
+            }
+            if (e.key === "Escape") close();
+          }}
+          className="dark:bg-dark-900 shadow-theme-xs focus:border-brand-300 focus:ring-brand-500/10 dark:focus:border-brand-800 h-9 w-full rounded-lg border border-gray-300 bg-transparent px-3 text-sm text-gray-800 placeholder:text-gray-400 focus:ring-3 focus:outline-hidden dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:placeholder:text-white/30"
+        />
+        <ul className="custom-scrollbar mt-2 max-h-64 overflow-y-auto">
+          {matches.map((macro) => (
+            <li key={macro.id}>
+              <button
+                type="button"
+                onClick={() => pick(macro)}
+                className="w-full rounded-lg px-3 py-2 text-left hover:bg-gray-100 dark:hover:bg-white/5"
+              >
+                <span className="block text-sm font-medium text-gray-800 dark:text-white/90">
+                  {macro.name}
+                </span>
+                <span className="block truncate text-theme-xs text-gray-500 dark:text-gray-400">
+                  {macroActionLabels(macro.actions).join(" · ") ||
+                    macro.body.split("\n")[0]}
+                </span>
+              </button>
+            </li>
+          ))}
+          {matches.length === 0 && (
+            <li className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400">
+              No macros match.
+            </li>
+          )}
+        </ul>
+        {canManage && (
+          <Link
+            href="/support-tickets/macros"
+            className="mt-2 block border-t border-gray-100 px-3 pt-2 text-sm font-medium text-brand-500 hover:text-brand-600 dark:border-gray-800"
+          >
+            Manage macros
+          </Link>
+        )}
+      </Dropdown>
+    </div>
+  );
+}
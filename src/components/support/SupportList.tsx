@@ -1,250 +1,110 @@
 "use client";
-import React, { ChangeEvent, useEffect, useMemo, useState } from "react";
+import React, { ChangeEvent, useEffect, useState } from "react";
 import TableDropdown from "../common/TableDropdown";
+import ExportMenu from "../common/ExportMenu";
+import BulkActionBar from "../common/BulkActionBar";
+import {
+  createRemoteDataSource,
+  useDataTable,
+  type ColumnDef,
+} from "../tables/DataTables/DataTable";
+import type { ExportColumn } from "@/lib/export";
+import {
+  TICKET_CATEGORIES,
+  TICKET_STATUSES,
+  ticketColumns,
+  type SupportTicket,
+  type TicketStatus,
+} from "@/lib/mock-data/support-tickets";
+import { activeClock, ticketSla } from "@/lib/support-sla";
+import { useNow } from "@/hooks/useNow";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { formatPlacedAt } from "../transactions/orderDisplay";
+import {
+  slaSummary,
+  ticketPriorityClasses,
+  ticketStatusClasses,
+} from "./ticketStatus";
 
-interface Ticket {
-  id: string;
-  name: string;
-  email: string;
-  subject: string;
-  date: string;
-  status: "Solved" | "Pending";
-  statusClass: string;
-}
+// Searched, filtered, sorted and paged by /api/support-tickets
+const ticketSource = createRemoteDataSource<SupportTicket>(
+  "/api/support-tickets"
+);
+
+// The headers are part of the table markup below
+const columns: ColumnDef<SupportTicket>[] = ticketColumns.map((column) => ({
+  ...column,
+  header: column.id,
+}));
 
 interface FilterData {
   category: string;
   company: string;
 }
 
-const SupportTicketsList: React.FC = () => {
-  const [tickets] = useState<Ticket[]>([
-    {
-      id: "#323534",
-      name: "Lindsey Curtis",
-      email: "demoemail@gmail.com",
-      subject: "Issue with Dashboard Login Access",
-      date: "12 Feb, 2027",
-      status: "Solved",
-      statusClass:
-        "bg-success-50 dark:bg-success-500/15 text-success-700 dark:text-success-500",
-    },
-    {
-      id: "#323535",
-      name: "Kaiya George",
-      email: "demoemail@gmail.com",
-      subject: "Billing Information Not Updating Properly",
-      date: "13 Mar, 2027",
-      status: "Pending",
-      statusClass:
-        "bg-warning-50 dark:bg-warning-500/15 text-warning-600 dark:text-warning-500",
-    },
-    {
-      id: "#323536",
-      name: "Zain Geidt",
-      email: "demoemail@gmail.com",
-      subject: "Bug Found in Dark Mode Layout",
-      date: "19 Mar, 2027",
-      status: "Pending",
-      statusClass:
-        "bg-warning-50 dark:bg-warning-500/15 text-warning-600 dark:text-warning-500",
-    },
-    {
-      id: "#323537",
-      name: "Abram Schleifer",
-      email: "demoemail@gmail.com",
-      subject: "Request to Add New Integration Feature",
-      date: "25 Apr, 2027",
-      status: "Solved",
-      statusClass:
-        "bg-success-50 dark:bg-success-500/15 text-success-700 dark:text-success-500",
-    },
-    {
-      id: "#323538",
-      name: "Mia Chen",
-      email: "mia.chen@email.com",
-      subject: "Unable to Reset Password",
-      date: "28 Apr, 2027",
-      status: "Pending",
-      statusClass:
-        "bg-warning-50 dark:bg-warning-500/15 text-warning-600 dark:text-warning-500",
-    },
-    {
-      id: "#323539",
-      name: "John Doe",
-      email: "john.doe@email.com",
-      subject: "Feature Request: Dark Mode",
-      date: "30 Apr, 2027",
-      status: "Solved",
-      statusClass:
-        "bg-success-50 dark:bg-success-500/15 text-success-700 dark:text-success-500",
-    },
-    {
-      id: "#323540",
-      name: "Jane Smith",
-      email: "jane.smith@email.com",
-      subject: "Error 500 on Dashboard",
-      date: "01 May, 2027",
-      status: "Pending",
-      statusClass:
-        "bg-warning-50 dark:bg-warning-500/15 text-warning-600 dark:text-warning-500",
-    },
-    {
-      id: "#323541",
-      name: "Carlos Ruiz",
-      email: "carlos.ruiz@email.com",
-      subject: "Cannot Download Invoice",
-      date: "02 May, 2027",
-      status: "Solved",
-      statusClass:
-        "bg-success-50 dark:bg-success-500/15 text-success-700 dark:text-success-500",
-    },
-    {
-      id: "#323542",
-      name: "Emily Clark",
-      email: "emily.clark@email.com",
-      subject: "UI Bug in Mobile View",
-      date: "03 May, 2027",
-      status: "Pending",
-      statusClass:
-        "bg-warning-50 dark:bg-warning-500/15 text-warning-600 dark:text-warning-500",
-    },
-    {
-      id: "#323543",
-      name: "Liam Wong",
-      email: "liam.wong@email.com",
-      subject: "Account Locked",
-      date: "04 May, 2027",
-      status: "Solved",
-      statusClass:
-        "bg-success-50 dark:bg-success-500/15 text-success-700 dark:text-success-500",
-    },
-    {
-      id: "#323544",
-      name: "Sophia Patel",
-      email: "sophia.patel@email.com",
-      subject: "Integration Not Working",
-      date: "05 May, 2027",
-      status: "Pending",
-      statusClass:
-        "bg-warning-50 dark:bg-warning-500/15 text-warning-600 dark:text-warning-500",
-    },
-    {
-      id: "#323545",
-      name: "Noah Kim",
-      email: "noah.kim@email.com",
-      subject: "Request for API Access",
-      date: "06 May, 2027",
-      status: "Solved",
-      statusClass:
-        "bg-success-50 dark:bg-success-500/15 text-success-700 dark:text-success-500",
-    },
-  ]);
+const ticketExportColumns: ExportColumn<SupportTicket>[] = [
+  { header: "Ticket ID", value: (ticket) => `#${ticket.id}` },
+  { header: "Requested By", value: (ticket) => ticket.name },
+  { header: "Email", value: (ticket) => ticket.email },
+  { header: "Subject", value: (ticket) => ticket.subject },
+  { header: "Category", value: (ticket) => ticket.category },
+  { header: "Priority", value: (ticket) => ticket.priority },
+  { header: "Create Date", value: (ticket) => ticket.createdAt },
+  { header: "Status", value: (ticket) => ticket.status },
+  { header: "Assignee", value: (ticket) => ticket.agent },
+  { header: "Tags", value: (ticket) => ticket.tags.join(", ") },
+];
+
+interface SupportTicketsListProps {
+  agents: string[]; // Who tickets can be assigned to
+  now: string; // ISO timestamp on the server, where the SLA clocks start from
+}
 
-  const [selectedStatus, setSelectedStatus] = useState<
-    "All" | "Solved" | "Pending"
-  >("All");
-  const [searchQuery, setSearchQuery] = useState<string>("");
+const SupportTicketsList: React.FC<SupportTicketsListProps> = ({
+  agents,
+  now: serverNow,
+}) => {
+  const router = useRouter();
+  const now = useNow(serverNow);
+  const table = useDataTable({
+    columns,
+    getRowId: (ticket) => ticket.id,
+    dataSource: ticketSource,
+  });
+  const [selectedStatus, setSelectedStatus] = useState<"All" | TicketStatus>(
+    "All"
+  );
   const [filterData, setFilterData] = useState<FilterData>({
     category: "",
     company: "",
   });
   const [showFilter, setShowFilter] = useState<boolean>(false);
-  const [currentPage, setCurrentPage] = useState<number>(1);
-  const [perPage] = useState<number>(10);
-  const [sortBy, setSortBy] = useState<string>("");
-  const [sortAsc, setSortAsc] = useState<boolean>(true);
-  const [selectAll, setSelectAll] = useState<boolean>(false);
-  const [selected, setSelected] = useState<string[]>([]);
-
-  const filteredTickets = useMemo(() => {
-    return tickets
-      .filter(
-        (ticket) => selectedStatus === "All" || ticket.status === selectedStatus
-      )
-      .filter(
-        (ticket) =>
-          ticket.subject.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          ticket.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          ticket.email.toLowerCase().includes(searchQuery.toLowerCase())
-      )
-      .filter(
-        (ticket) =>
-          ticket.subject
-            .toLowerCase()
-            .includes(filterData.category.toLowerCase()) &&
-          ticket.email.toLowerCase().includes(filterData.company.toLowerCase())
-      );
-  }, [tickets, selectedStatus, searchQuery, filterData]);
+  const { currentPage, totalPages, goToPage } = table;
 
-  const sortedTickets = useMemo(() => {
-    const sorted = [...filteredTickets];
-    if (sortBy) {
-      sorted.sort((a, b) => {
-        let valA: string | number | Date = a[sortBy as keyof Ticket];
-        let valB: string | number | Date = b[sortBy as keyof Ticket];
-        if (sortBy === "date") {
-          const parse = (v: string) =>
-            new Date(v.replace(/(\d{2}) (\w+), (\d{4})/, "$2 $1, $3"));
-          valA = parse(valA as string);
-          valB = parse(valB as string);
-        } else {
-          valA = (valA as string).toLowerCase();
-          valB = (valB as string).toLowerCase();
-        }
-        if (valA < valB) return sortAsc ? -1 : 1;
-        if (valA > valB) return sortAsc ? 1 : -1;
-        return 0;
-      });
-    }
-    return sorted;
-  }, [filteredTickets, sortBy, sortAsc]);
-
-  const totalPages = Math.ceil(sortedTickets.length / perPage);
-  const paginatedTickets = sortedTickets.slice(
-    (currentPage - 1) * perPage,
-    currentPage * perPage
-  );
-
-  const handleSort = (field: string) => {
-    if (sortBy === field) {
-      setSortAsc(!sortAsc);
-    } else {
-      setSortBy(field);
-      setSortAsc(true);
-    }
-  };
-
-  const handlePrevPage = () => {
-    if (currentPage > 1) setCurrentPage(currentPage - 1);
-  };
+  const sortDirection = (columnId: string) =>
+    table.sortRules.find((rule) => rule.columnId === columnId)?.direction;
 
-  const handleNextPage = () => {
-    if (currentPage < totalPages) setCurrentPage(currentPage + 1);
+  const filterByStatus = (status: "All" | TicketStatus) => {
+    setSelectedStatus(status);
+    table.setFilter("status", status === "All" ? "" : status);
   };
 
-  const handleGoToPage = (page: number) => {
-    if (page >= 1 && page <= totalPages) setCurrentPage(page);
+  const applyFilters = () => {
+    table.setFilter("category", filterData.category);
+    table.setFilter("company", filterData.company.trim());
+    setShowFilter(false);
   };
 
-  const handleToggleAll = () => {
-    if (selectAll) {
-      setSelected([]);
-    } else {
-      setSelected(paginatedTickets.map((ticket) => ticket.id));
-    }
-    setSelectAll(!selectAll);
+  // Reloads the page and the metrics above the list
+  const reload = () => {
+    table.reload();
+    router.refresh();
   };
 
-  const handleToggleOne = (id: string) => {
-    const newSelected = selected.includes(id)
-      ? selected.filter((i) => i !== id)
-      : [...selected, id];
-    setSelected(newSelected);
-    setSelectAll(newSelected.length === paginatedTickets.length);
-  };
-
-  const handleFilterChange = (e: ChangeEvent<HTMLInputElement>) => {
+  const handleFilterChange = (
+    e: ChangeEvent<HTMLInputElement | HTMLSelectElement>
+  ) => {
     const { name, value } = e.target;
     setFilterData((prev) => ({ ...prev, [name]: value }));
   };
@@ -277,12 +137,10 @@ const SupportTicketsList: React.FC = () => {
         </div>
         <div className="flex gap-3.5">
           <div className="hidden h-11 items-center gap-0.5 rounded-lg bg-gray-100 p-0.5 lg:inline-flex dark:bg-gray-900">
-            {["All", "Solved", "Pending"].map((status) => (
+            {(["All", ...TICKET_STATUSES] as const).map((status) => (
               <button
                 key={status}
-                onClick={() =>
-                  setSelectedStatus(status as "All" | "Solved" | "Pending")
-                }
+                onClick={() => filterByStatus(status)}
                 className={`text-theme-sm h-10 rounded-md px-3 py-2 font-medium hover:text-gray-900 dark:hover:text-white ${
                   selectedStatus === status
                     ? "shadow-theme-xs text-gray-900 dark:text-white bg-white dark:bg-gray-800"
@@ -315,8 +173,8 @@ const SupportTicketsList: React.FC = () => {
               <input
                 type="text"
                 placeholder="Search..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
+                value={table.searchTerm}
+                onChange={(e) => table.setSearchTerm(e.target.value)}
                 className="dark:bg-dark-900 shadow-theme-xs focus:border-brand-300 focus:ring-brand-500/10 dark:focus:border-brand-800 h-11 w-full rounded-lg border border-gray-300 bg-transparent py-2.5 pr-4 pl-11 text-sm text-gray-800 placeholder:text-gray-400 focus:ring-3 focus:outline-hidden xl:w-[300px] dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:placeholder:text-white/30"
               />
             </div>
@@ -349,14 +207,19 @@ const SupportTicketsList: React.FC = () => {
                     <label className="mb-2 block text-xs font-medium text-gray-700 dark:text-gray-300">
                       Category
                     </label>
-                    <input
-                      type="text"
+                    <select
                       name="category"
                       value={filterData.category}
                       onChange={handleFilterChange}
-                      className="dark:bg-dark-900 shadow-theme-xs focus:border-brand-300 focus:ring-brand-500/10 dark:focus:border-brand-800 h-10 w-full rounded-lg border border-gray-300 bg-transparent px-4 py-2.5 text-sm text-gray-800 placeholder:text-gray-400 focus:ring-3 focus:outline-hidden dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:placeholder:text-white/30"
-                      placeholder="Search category..."
-                    />
+                      className="dark:bg-dark-900 shadow-theme-xs focus:border-brand-300 focus:ring-brand-500/10 dark:focus:border-brand-800 h-10 w-full rounded-lg border border-gray-300 bg-transparent px-4 py-2.5 text-sm text-gray-800 focus:ring-3 focus:outline-hidden dark:border-gray-700 dark:bg-gray-900 dark:text-white/90"
+                    >
+                      <option value="">All categories</option>
+                      {TICKET_CATEGORIES.map((category) => (
+                        <option key={category} value={category}>
+                          {category}
+                        </option>
+                      ))}
+                    </select>
                   </div>
                   <div className="mb-5">
                     <label className="mb-2 block text-xs font-medium text-gray-700 dark:text-gray-300">
@@ -368,21 +231,40 @@ const SupportTicketsList: React.FC = () => {
                       value={filterData.company}
                       onChange={handleFilterChange}
                       className="dark:bg-dark-900 shadow-theme-xs focus:border-brand-300 focus:ring-brand-500/10 dark:focus:border-brand-800 h-10 w-full rounded-lg border border-gray-300 bg-transparent px-4 py-2.5 text-sm text-gray-800 placeholder:text-gray-400 focus:ring-3 focus:outline-hidden dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:placeholder:text-white/30"
-                      placeholder="Search company..."
+                      placeholder="Email domain, e.g. example.com"
                     />
                   </div>
                   <button
                     className="bg-brand-500 hover:bg-brand-600 h-10 w-full rounded-lg px-3 py-2 text-sm font-medium text-white"
-                    onClick={() => setShowFilter(false)}
+                    onClick={applyFilters}
                   >
                     Apply
                   </button>
                 </div>
               )}
             </div>
+            <ExportMenu
+              fileName="support-tickets"
+              columns={ticketExportColumns}
+              rows={table.fetchAllRows}
+              selectedRows={table.selectedRows}
+            />
           </div>
         </div>
       </div>
+      <BulkActionBar
+        resource="tickets"
+        noun={["ticket", "tickets"]}
+        selectedRows={table.selectedRows}
+        idOf={(ticket) => ticket.id}
+        labelOf={(ticket) => `#${ticket.id}`}
+        exportFile="support-tickets"
+        exportColumns={ticketExportColumns}
+        statuses={[...TICKET_STATUSES]}
+        assignees={agents}
+        onChanged={reload}
+        onClear={() => table.setSelectedIds([])}
+      />
       <div className="overflow-x-auto custom-scrollbar">
         <table className="w-full table-auto">
           <thead>
@@ -395,17 +277,21 @@ const SupportTicketsList: React.FC = () => {
                         <input
                           type="checkbox"
                           className="sr-only"
-                          checked={selectAll}
-                          onChange={handleToggleAll}
+                          checked={table.allPageRowsSelected}
+                          onChange={table.toggleAllPageRows}
                         />
                         <span
                           className={`flex h-4 w-4 items-center justify-center rounded-sm border-[1.25px] ${
-                            selectAll
+                            table.allPageRowsSelected
                               ? "border-brand-500 bg-brand-500"
                               : "bg-transparent border-gray-300 dark:border-gray-700"
                           }`}
                         >
-                          <span className={selectAll ? "" : "opacity-0"}>
+                          <span
+                            className={
+                              table.allPageRowsSelected ? "" : "opacity-0"
+                            }
+                          >
                             <svg
                               width="12"
                               height="12"
@@ -434,7 +320,7 @@ const SupportTicketsList: React.FC = () => {
               <th className="px-4 py-3 text-left text-xs font-medium whitespace-nowrap text-gray-700 dark:text-gray-400">
                 <div
                   className="flex cursor-pointer items-center justify-between gap-3"
-                  onClick={() => handleSort("name")}
+                  onClick={() => table.toggleSort("name")}
                 >
                   <p className="text-theme-xs font-medium text-gray-700 dark:text-gray-400">
                     Requested By
@@ -442,7 +328,7 @@ const SupportTicketsList: React.FC = () => {
                   <span className="flex flex-col gap-0.5">
                     <svg
                       className={
-                        sortBy === "name" && sortAsc
+                        sortDirection("name") === "asc"
                           ? "text-gray-500 dark:text-gray-300"
                           : "text-gray-300 dark:text-gray-400"
                       }
@@ -459,7 +345,7 @@ const SupportTicketsList: React.FC = () => {
                     </svg>
                     <svg
                       className={
-                        sortBy === "name" && !sortAsc
+                        sortDirection("name") === "desc"
                           ? "text-gray-500 dark:text-gray-300"
                           : "text-gray-300 dark:text-gray-400"
                       }
@@ -483,7 +369,7 @@ const SupportTicketsList: React.FC = () => {
               <th className="px-4 py-3 text-left text-xs font-medium whitespace-nowrap text-gray-700 dark:text-gray-400">
                 <div
                   className="flex cursor-pointer items-center justify-between gap-3"
-                  onClick={() => handleSort("date")}
+                  onClick={() => table.toggleSort("createdAt")}
                 >
                   <p className="text-theme-xs font-medium text-gray-700 dark:text-gray-400">
                     Create Date
@@ -491,7 +377,7 @@ const SupportTicketsList: React.FC = () => {
                   <span className="flex flex-col gap-0.5">
                     <svg
                       className={
-                        sortBy === "date" && sortAsc
+                        sortDirection("createdAt") === "asc"
                           ? "text-gray-500 dark:text-gray-300"
                           : "text-gray-300 dark:text-gray-400"
                       }
@@ -508,7 +394,7 @@ const SupportTicketsList: React.FC = () => {
                     </svg>
                     <svg
                       className={
-                        sortBy === "date" && !sortAsc
+                        sortDirection("createdAt") === "desc"
                           ? "text-gray-500 dark:text-gray-300"
                           : "text-gray-300 dark:text-gray-400"
                       }
@@ -526,128 +412,203 @@ const SupportTicketsList: React.FC = () => {
                   </span>
                 </div>
               </th>
+              <th className="px-4 py-3 text-left text-xs font-medium whitespace-nowrap text-gray-700 dark:text-gray-400">
+                Priority
+              </th>
               <th className="px-4 py-3 text-left text-xs font-medium whitespace-nowrap text-gray-700 dark:text-gray-400">
                 Status
               </th>
+              <th className="px-4 py-3 text-left text-xs font-medium whitespace-nowrap text-gray-700 dark:text-gray-400">
+                SLA
+              </th>
             </tr>
           </thead>
           <tbody className="divide-y divide-gray-200 dark:divide-gray-800">
-            {paginatedTickets.map((ticket) => (
-              <tr
-                key={ticket.id}
-                className="transition hover:bg-gray-50 dark:hover:bg-gray-900"
-              >
-                <td className="px-4 py-3 whitespace-nowrap">
-                  <div className="flex items-center gap-3">
-                    <label className="flex cursor-pointer items-center text-sm font-medium text-gray-700 select-none dark:text-gray-400">
-                      <span className="relative">
-                        <input
-                          type="checkbox"
-                          className="sr-only"
-                          value={ticket.id}
-                          checked={selected.includes(ticket.id)}
-                          onChange={() => handleToggleOne(ticket.id)}
-                        />
-                        <span
-                          className={`flex h-4 w-4 items-center justify-center rounded-sm border-[1.25px] ${
-                            selected.includes(ticket.id)
-                              ? "border-brand-500 bg-brand-500"
-                              : "bg-transparent border-gray-300 dark:border-gray-700"
-                          }`}
+            {table.pageRows.map((ticket) => {
+              const sla = ticketSla(ticket, now);
+              const solved = ticket.status === "Solved";
+              const breached = !solved && activeClock(sla).clock.breached;
+              const summary = slaSummary(sla, solved);
+              return (
+                <tr
+                  key={ticket.id}
+                  className={`transition ${
+                    breached
+                      ? "bg-error-50/60 hover:bg-error-50 dark:bg-error-500/5 dark:hover:bg-error-500/10"
+                      : "hover:bg-gray-50 dark:hover:bg-gray-900"
+                  }`}
+                >
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <div className="flex items-center gap-3">
+                      <label className="flex cursor-pointer items-center text-sm font-medium text-gray-700 select-none dark:text-gray-400">
+                        <span className="relative">
+                          <input
+                            type="checkbox"
+                            className="sr-only"
+                            value={ticket.id}
+                            checked={table.isSelected(ticket)}
+                            onChange={() => table.toggleRow(ticket)}
+                          />
+                          <span
+                            className={`flex h-4 w-4 items-center justify-center rounded-sm border-[1.25px] ${
+                              table.isSelected(ticket)
+                                ? "border-brand-500 bg-brand-500"
+                                : "bg-transparent border-gray-300 dark:border-gray-700"
+                            }`}
+                          >
+                            <span
+                              className={
+                                table.isSelected(ticket) ? "" : "opacity-0"
+                              }
+                            >
+                              <svg
+                                width="12"
+                                height="12"
+                                viewBox="0 0 12 12"
+                                fill="none"
+                                xmlns="http://www.w3.org/2000/svg"
+                              >
+                                <path
+                                  d="M10 3L4.5 8.5L2 6"
+                                  stroke="white"
+                                  strokeWidth="1.6666"
+                                  strokeLinecap="round"
+                                  strokeLinejoin="round"
+                                />
+                              </svg>
+                            </span>
+                          </span>
+                        </span>
+                      </label>
+                      <Link
+                        href={`/support-tickets/${ticket.id}`}
+                        className="text-theme-xs font-medium text-gray-700 hover:underline dark:text-gray-400"
+                      >
+                        #{ticket.id}
+                      </Link>
+                    </div>
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <div>
+                      {ticket.customerId ? (
+                        <Link
+                          href={`/customers/${ticket.customerId}`}
+                          className="text-sm font-medium text-gray-800 hover:text-brand-500 dark:text-white/90"
                         >
+                          {ticket.name}
+                        </Link>
+                      ) : (
+                        <span className="text-sm font-medium text-gray-800 dark:text-white/90">
+                          {ticket.name}
+                        </span>
+                      )}
+                      <p className="text-sm text-gray-500 dark:text-gray-400">
+                        {ticket.email}
+                      </p>
+                    </div>
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <p className="text-sm text-gray-700 dark:text-gray-400">
+                      {ticket.subject}
+                    </p>
+                    <p className="text-theme-xs text-gray-500 dark:text-gray-400">
+                      {ticket.category} · {ticket.agent}
+                    </p>
+                    {ticket.tags.length > 0 && (
+                      <div className="mt-1 flex flex-wrap gap-1">
+                        {ticket.tags.map((tag) => (
                           <span
-                            className={
-                              selected.includes(ticket.id) ? "" : "opacity-0"
-                            }
+                            key={tag}
+                            className="text-theme-xs rounded-full bg-gray-100 px-2 py-0.5 text-gray-600 dark:bg-white/5 dark:text-gray-400"
                           >
+                            {tag}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <p className="text-sm text-gray-700 dark:text-gray-400">
+                      {formatPlacedAt(ticket.createdAt)}
+                    </p>
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <span
+                      className={`${
+                        ticketPriorityClasses[ticket.priority]
+                      } text-theme-xs rounded-full px-2 py-0.5 font-medium`}
+                    >
+                      {ticket.priority}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <span
+                      className={`${
+                        ticketStatusClasses[ticket.status]
+                      } text-theme-xs rounded-full px-2 py-0.5 font-medium`}
+                    >
+                      {ticket.status}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <p
+                      className={`text-theme-xs font-medium ${summary.className}`}
+                    >
+                      {summary.label}
+                    </p>
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <div className=" flex items-center justify-center">
+                      <TableDropdown
+                        dropdownButton={
+                          <button className="text-gray-500 dark:text-gray-400 ">
                             <svg
-                              width="12"
-                              height="12"
-                              viewBox="0 0 12 12"
+                              className="fill-current"
+                              width="24"
+                              height="24"
+                              viewBox="0 0 24 24"
                               fill="none"
                               xmlns="http://www.w3.org/2000/svg"
                             >
                               <path
-                                d="M10 3L4.5 8.5L2 6"
-                                stroke="white"
-                                strokeWidth="1.6666"
-                                strokeLinecap="round"
-                                strokeLinejoin="round"
+                                fillRule="evenodd"
+                                clipRule="evenodd"
+                                d="M5.99902 10.245C6.96552 10.245 7.74902 11.0285 7.74902 11.995V12.005C7.74902 12.9715 6.96552 13.755 5.99902 13.755C5.03253 13.755 4.24902 12.9715 4.24902 12.005V11.995C4.24902 11.0285 5.03253 10.245 5.99902 10.245ZM17.999 10.245C18.9655 10.245 19.749 11.0285 19.749 11.995V12.005C19.749 12.9715 18.9655 13.755 17.999 13.755C17.0325 13.755 16.249 12.9715 16.249 12.005V11.995C16.249 11.0285 17.0325 10.245 17.999 10.245ZM13.749 11.995C13.749 11.0285 12.9655 10.245 11.999 10.245C11.0325 10.245 10.249 11.0285 10.249 11.995V12.005C10.249 12.9715 11.0325 13.755 11.999 13.755C12.9655 13.755 13.749 12.9715 13.749 12.005V11.995Z"
+                                fill=""
                               />
                             </svg>
-                          </span>
-                        </span>
-                      </span>
-                    </label>
-                    <p className="text-theme-xs font-medium text-gray-700 dark:text-gray-400">
-                      {ticket.id}
-                    </p>
-                  </div>
-                </td>
-                <td className="px-4 py-3 whitespace-nowrap">
-                  <div>
-                    <span className="text-sm font-medium text-gray-800 dark:text-white/90">
-                      {ticket.name}
-                    </span>
-                    <p className="text-sm text-gray-500 dark:text-gray-400">
-                      {ticket.email}
-                    </p>
-                  </div>
-                </td>
-                <td className="px-4 py-3 whitespace-nowrap">
-                  <p className="text-sm text-gray-700 dark:text-gray-400">
-                    {ticket.subject}
-                  </p>
-                </td>
-                <td className="px-4 py-3 whitespace-nowrap">
-                  <p className="text-sm text-gray-700 dark:text-gray-400">
-                    {ticket.date}
-                  </p>
-                </td>
-                <td className="px-4 py-3 whitespace-nowrap">
-                  <span
-                    className={`${ticket.statusClass} text-theme-xs rounded-full px-2 py-0.5 font-medium`}
-                  >
-                    {ticket.status}
-                  </span>
-                </td>
-                <td className="px-4 py-3 whitespace-nowrap">
-                  <div className=" flex items-center justify-center">
-                    <TableDropdown
-                      dropdownButton={
-                        <button className="text-gray-500 dark:text-gray-400 ">
-                          <svg
-                            className="fill-current"
-                            width="24"
-                            height="24"
-                            viewBox="0 0 24 24"
-                            fill="none"
-                            xmlns="http://www.w3.org/2000/svg"
-                          >
-                            <path
-                              fillRule="evenodd"
-                              clipRule="evenodd"
-                              d="M5.99902 10.245C6.96552 10.245 7.74902 11.0285 7.74902 11.995V12.005C7.74902 12.9715 6.96552 13.755 5.99902 13.755C5.03253 13.755 4.24902 12.9715 4.24902 12.005V11.995C4.24902 11.0285 5.03253 10.245 5.99902 10.245ZM17.999 10.245C18.9655 10.245 19.749 11.0285 19.749 11.995V12.005C19.749 12.9715 18.9655 13.755 17.999 13.755C17.0325 13.755 16.249 12.9715 16.249 12.005V11.995C16.249 11.0285 17.0325 10.245 17.999 10.245ZM13.749 11.995C13.749 11.0285 12.9655 10.245 11.999 10.245C11.0325 10.245 10.249 11.0285 10.249 11.995V12.005C10.249 12.9715 11.0325 13.755 11.999 13.755C12.9655 13.755 13.749 12.9715 13.749 12.005V11.995Z"
-                              fill=""
-                            />
-                          </svg>
-                        </button>
-                      }
-                      dropdownContent={
-                        <>
-                          <button className="text-xs flex w-full rounded-lg px-3 py-2 text-left font-medium text-gray-500 hover:bg-gray-100 hover:text-gray-700 dark:text-gray-400 dark:hover:bg-white/5 dark:hover:text-gray-300">
-                            View More
-                          </button>
-                          <button className="text-xs flex w-full rounded-lg px-3 py-2 text-left font-medium text-gray-500 hover:bg-gray-100 hover:text-gray-700 dark:text-gray-400 dark:hover:bg-white/5 dark:hover:text-gray-300">
-                            Delete
                           </button>
-                        </>
-                      }
-                    />
-                  </div>
+                        }
+                        dropdownContent={
+                          <>
+                            <button className="text-xs flex w-full rounded-lg px-3 py-2 text-left font-medium text-gray-500 hover:bg-gray-100 hover:text-gray-700 dark:text-gray-400 dark:hover:bg-white/5 dark:hover:text-gray-300">
+                              View More
+                            </button>
+                            <button className="text-xs flex w-full rounded-lg px-3 py-2 text-left font-medium text-gray-500 hover:bg-gray-100 hover:text-gray-700 dark:text-gray-400 dark:hover:bg-white/5 dark:hover:text-gray-300">
+                              Delete
+                            </button>
+                          </>
+                        }
+                      />
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+            {table.pageRows.length === 0 && (
+              <tr>
+                <td
+                  colSpan={7}
+                  className="px-5 py-10 text-center text-sm text-gray-500 dark:text-gray-400"
+                >
+                  {table.status === "loading"
+                    ? "Loading tickets..."
+                    : table.status === "error"
+                    ? table.error?.message
+                    : "No tickets match your search."}
                 </td>
               </tr>
-            ))}
+            )}
           </tbody>
         </table>
       </div>
@@ -656,21 +617,21 @@ const SupportTicketsList: React.FC = () => {
           <span className="block text-sm font-medium text-gray-500 dark:text-gray-400">
             Showing{" "}
             <span className="text-gray-800 dark:text-white/90">
-              {(currentPage - 1) * perPage + 1}
+              {table.totalItems === 0 ? 0 : table.startIndex + 1}
             </span>{" "}
             to{" "}
             <span className="text-gray-800 dark:text-white/90">
-              {Math.min(currentPage * perPage, sortedTickets.length)}
+              {table.endIndex}
             </span>{" "}
             of{" "}
             <span className="text-gray-800 dark:text-white/90">
-              {sortedTickets.length}
+              {table.totalItems}
             </span>
           </span>
         </div>
         <div className="flex items-center justify-between gap-2 sm:justify-normal bg-gray-50 sm:w-auto dark:sm:bg-transparent p-4 w-full rounded-lg dark:bg-white/[0.03] sm:bg-transparent">
           <button
-            onClick={handlePrevPage}
+            onClick={() => goToPage(currentPage - 1)}
             disabled={currentPage === 1}
             className="shadow-theme-xs flex items-center gap-2 rounded-lg border border-gray-300 bg-white p-2 text-gray-700 hover:bg-gray-50 hover:text-gray-800 disabled:cursor-not-allowed disabled:opacity-50 sm:p-2.5 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-400 dark:hover:bg-white/[0.03] dark:hover:text-gray-200"
           >
@@ -701,7 +662,7 @@ const SupportTicketsList: React.FC = () => {
                   href="#"
                   onClick={(e) => {
                     e.preventDefault();
-                    handleGoToPage(page);
+                    goToPage(page);
                   }}
                   className={`flex h-10 w-10 items-center justify-center rounded-lg text-sm font-medium ${
                     currentPage === page
@@ -715,7 +676,7 @@ const SupportTicketsList: React.FC = () => {
             ))}
           </ul>
           <button
-            onClick={handleNextPage}
+            onClick={() => goToPage(currentPage + 1)}
             disabled={currentPage === totalPages}
             className="shadow-theme-xs flex items-center gap-2 rounded-lg border border-gray-300 bg-white p-2 text-gray-700 hover:bg-gray-50 hover:text-gray-800 disabled:cursor-not-allowed disabled:opacity-50 sm:p-2.5 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-400 dark:hover:bg-white/[0.03] dark:hover:text-gray-200"
           >
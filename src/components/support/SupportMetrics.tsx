@@ -1,8 +1,13 @@
+import type { SupportMetricsData } from "@/lib/support-sla";
 import React from "react";
 
-export default function SupportMetrics() {
+interface SupportMetricsProps {
+  metrics: SupportMetricsData;
+}
+
+export default function SupportMetrics({ metrics }: SupportMetricsProps) {
   return (
-    <div className="mb-6 grid grid-cols-1 gap-3 sm:grid-cols-2 sm:gap-5 lg:grid-cols-3">
+    <div className="mb-6 grid grid-cols-1 gap-3 sm:grid-cols-2 sm:gap-5 lg:grid-cols-4">
       <article className="flex gap-5 rounded-xl border border-gray-200 bg-white p-4 shadow-xs dark:border-gray-800 dark:bg-white/[0.03]">
         <div className="bg-brand-500/10 text-brand-500 inline-flex h-14 w-14 items-center justify-center rounded-xl">
           <svg
@@ -23,7 +28,7 @@ export default function SupportMetrics() {
         </div>
         <div className="flex-1">
           <h3 className="text-title-xs mb-1 font-semibold text-gray-800 dark:text-white/90">
-            5,347
+            {metrics.total.toLocaleString()}
           </h3>
           <p className="text-sm text-gray-500 dark:text-gray-400">
             Total tickets
@@ -50,10 +55,10 @@ export default function SupportMetrics() {
         </div>
         <div className="flex-1">
           <h3 className="text-title-xs mb-1 font-semibold text-gray-800 dark:text-white/90">
-            1,230
+            {metrics.open.toLocaleString()}
           </h3>
           <p className="text-sm text-gray-500 dark:text-gray-400">
-            Pending tickets
+            Open tickets
           </p>
         </div>
       </article>
@@ -77,13 +82,40 @@ export default function SupportMetrics() {
         </div>
         <div className="flex-1">
           <h3 className="text-title-xs mb-1 font-semibold text-gray-800 dark:text-white/90">
-            4,117
+            {metrics.solved.toLocaleString()}
           </h3>
           <p className="text-sm text-gray-500 dark:text-gray-400">
             Solved tickets
           </p>
         </div>
       </article>
+      <article className="flex gap-5 rounded-xl border border-gray-200 bg-white p-4 shadow-xs dark:border-gray-800 dark:bg-white/[0.03]">
+        <div className="bg-error-500/10 text-error-500 inline-flex h-14 w-14 items-center justify-center rounded-xl">
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="28"
+            height="28"
+            viewBox="0 0 28 28"
+            fill="none"
+          >
+            <path
+              d="M14 9.33333V14.5833M14 18.6667V18.6783M24.7917 14C24.7917 19.96 19.96 24.7917 14 24.7917C8.04 24.7917 3.20833 19.96 3.20833 14C3.20833 8.04 8.04 3.20833 14 3.20833C19.96 3.20833 24.7917 8.04 24.7917 14Z"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            />
+          </svg>
+        </div>
+        <div className="flex-1">
+          <h3 className="text-title-xs mb-1 font-semibold text-gray-800 dark:text-white/90">
+            {metrics.breached.toLocaleString()}
+          </h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            SLA breaches
+          </p>
+        </div>
+      </article>
     </div>
   );
 }
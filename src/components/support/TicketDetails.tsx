@@ -1,6 +1,87 @@
-import React from "react";
+"use client";
+import { usePermission } from "@/context/SessionContext";
+import { useNow } from "@/hooks/useNow";
+import {
+  TICKET_CATEGORIES,
+  TICKET_PRIORITIES,
+  type SupportTicket,
+} from "@/lib/mock-data/support-tickets";
+import { formatDuration, ticketSla, type SlaClock } from "@/lib/support-sla";
+import { useRouter } from "next/navigation";
+import React, { useState } from "react";
+import { updateTicket, type TicketChangesInput } from "./ticketApi";
+import {
+  formatTicketTime,
+  ticketPriorityClasses,
+  ticketStatusClasses,
+} from "./ticketStatus";
+
+interface TicketDetailsProps {
+  ticket: SupportTicket;
+  agents: string[]; // Who the ticket can be assigned to
+  now: string; // ISO timestamp on the server, where the SLA clocks start from
+}
+
+const selectClassName =
+  "dark:bg-dark-900 shadow-theme-xs focus:border-brand-300 focus:ring-brand-500/10 dark:focus:border-brand-800 h-9 w-full rounded-lg border border-gray-300 bg-transparent px-3 text-sm text-gray-800 focus:ring-3 focus:outline-hidden disabled:opacity-50 dark:border-gray-700 dark:bg-gray-900 dark:text-white/90";
+
+// "Due in 2h 10m", "Met in time" or "Overdue 3h" for one SLA clock
+function SlaRow({ name, clock }: { name: string; clock: SlaClock }) {
+  const state = clock.metAt
+    ? clock.breached
+      ? { text: `Met ${formatDuration(clock.remainingMs)} late`, tone: "error" }
+      : { text: "Met in time", tone: "success" }
+    : clock.breached
+    ? { text: `Overdue ${formatDuration(clock.remainingMs)}`, tone: "error" }
+    : {
+        text: `Due in ${formatDuration(clock.remainingMs)}`,
+        tone: clock.dueSoon ? "warning" : "gray",
+      };
+  const toneClassName = {
+    error: "text-error-600 dark:text-error-500",
+    success: "text-success-600 dark:text-success-500",
+    warning: "text-warning-600 dark:text-orange-400",
+    gray: "text-gray-700 dark:text-gray-400",
+  }[state.tone];
+
+  return (
+    <li className="grid grid-cols-2 gap-5 py-2.5">
+      <span className="text-sm text-gray-500 dark:text-gray-400">{name}</span>
+      <div>
+        <p className={`text-sm font-medium ${toneClassName}`}>{state.text}</p>
+        <p className="text-theme-xs text-gray-500 dark:text-gray-400">
+          Target {formatTicketTime(clock.dueAt)}
+        </p>
+      </div>
+    </li>
+  );
+}
+
+export default function TicketDetails({
+  ticket,
+  agents,
+  now: serverNow,
+}: TicketDetailsProps) {
+  const router = useRouter();
+  const canEdit = usePermission("support:reply");
+  const now = useNow(serverNow);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const sla = ticketSla(ticket, now);
+
+  const change = async (changes: TicketChangesInput) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await updateTicket(ticket.id, changes);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
 
-export default function TicketDetails() {
   return (
     <div>
       {" "}
@@ -15,14 +96,16 @@ export default function TicketDetails() {
             <span className="text-sm text-gray-500 dark:text-gray-400">
               Customer
             </span>
-            <span className="text-gray-700 dark:text-gray-400">John Doe</span>
+            <span className="text-gray-700 dark:text-gray-400">
+              {ticket.name}
+            </span>
           </li>
           <li className="grid grid-cols-2 gap-5 py-2.5">
             <span className="text-sm text-gray-500 dark:text-gray-400">
               Email
             </span>
             <span className="text-sm break-words text-gray-700 dark:text-gray-400">
-              jhondelin@gmail.com
+              {ticket.email}
             </span>
           </li>
           <li className="grid grid-cols-2 gap-5 py-2.5">
@@ -30,23 +113,101 @@ export default function TicketDetails() {
               Ticket ID
             </span>
             <span className="text-sm text-gray-700 dark:text-gray-400">
-              #346520
+              #{ticket.id}
             </span>
           </li>
-          <li className="grid grid-cols-2 gap-5 py-2.5">
+          <li className="grid grid-cols-2 items-center gap-5 py-2.5">
             <span className="text-sm text-gray-500 dark:text-gray-400">
               Category
             </span>
-            <span className="text-sm text-gray-700 dark:text-gray-400">
-              General Support
+            {canEdit ? (
+              <select
+                aria-label="Category"
+                value={ticket.category}
+                disabled={busy}
+                onChange={(e) =>
+                  change({
+                    category: e.target.value as SupportTicket["category"],
+                  })
+                }
+                className={selectClassName}
+              >
+                {TICKET_CATEGORIES.map((category) => (
+                  <option key={category} value={category}>
+                    {category}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <span className="text-sm text-gray-700 dark:text-gray-400">
+                {ticket.category}
+              </span>
+            )}
+          </li>
+          <li className="grid grid-cols-2 items-center gap-5 py-2.5">
+            <span className="text-sm text-gray-500 dark:text-gray-400">
+              Priority
             </span>
+            {canEdit ? (
+              <select
+                aria-label="Priority"
+                value={ticket.priority}
+                disabled={busy}
+                onChange={(e) =>
+                  change({
+                    priority: e.target.value as SupportTicket["priority"],
+                  })
+                }
+                className={selectClassName}
+              >
+                {TICKET_PRIORITIES.map((priority) => (
+                  <option key={priority} value={priority}>
+                    {priority}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <div>
+                <span
+                  className={`${
+                    ticketPriorityClasses[ticket.priority]
+                  } text-theme-xs inline-block rounded-full px-2 py-0.5 font-medium`}
+                >
+                  {ticket.priority}
+                </span>
+              </div>
+            )}
+          </li>
+          <li className="grid grid-cols-2 items-center gap-5 py-2.5">
+            <span className="text-sm text-gray-500 dark:text-gray-400">
+              Assignee
+            </span>
+            {canEdit ? (
+              <select
+                aria-label="Assignee"
+                value={ticket.agent}
+                disabled={busy}
+                onChange={(e) => change({ agent: e.target.value })}
+                className={selectClassName}
+              >
+                {agents.map((agent) => (
+                  <option key={agent} value={agent}>
+                    {agent}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <span className="text-sm text-gray-700 dark:text-gray-400">
+                {ticket.agent}
+              </span>
+            )}
           </li>
           <li className="grid grid-cols-2 gap-5 py-2.5">
             <span className="text-sm text-gray-500 dark:text-gray-400">
               Created
             </span>
             <span className="text-sm text-gray-700 dark:text-gray-400">
-              Dec 20, 2028
+              {formatTicketTime(ticket.createdAt)}
             </span>
           </li>
           <li className="grid grid-cols-2 gap-5 py-2.5">
@@ -54,12 +215,19 @@ export default function TicketDetails() {
               Status
             </span>
             <div>
-              <span className="bg-blue-light-50 dark:bg-blue-light-500/15 dark:text-blue-light-500 text-theme-xs text-blue-light-500 inline-block rounded-full px-2 py-0.5 font-medium">
-                In Progress
+              <span
+                className={`${
+                  ticketStatusClasses[ticket.status]
+                } text-theme-xs inline-block rounded-full px-2 py-0.5 font-medium`}
+              >
+                {ticket.status}
               </span>
             </div>
           </li>
+          <SlaRow name="First response" clock={sla.firstResponse} />
+          <SlaRow name="Resolution" clock={sla.resolution} />
         </ul>
+        {error && <p className="px-6 pb-4 text-sm text-error-500">{error}</p>}
       </div>
     </div>
   );
@@ -1,15 +1,99 @@
 "use client";
+import { usePermission, useSession } from "@/context/SessionContext";
+import { fillPlaceholders } from "@/lib/macro-placeholders";
+import type { TicketMacro } from "@/lib/mock-data/ticket-macros";
+import type { TicketPosition } from "@/lib/support-tickets";
+import {
+  TICKET_STATUSES,
+  type SupportTicket,
+  type TicketMessage,
+  type TicketStatus,
+} from "@/lib/mock-data/support-tickets";
 import Image from "next/image";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
 import { useState } from "react";
+import { formatFileSize } from "../chats/chatFormat";
+import MacroPicker from "./MacroPicker";
+import { addTicketMessage, updateTicket } from "./ticketApi";
+import { formatTicketTime, macroActionLabels } from "./ticketStatus";
 
-export default function TicketReplyContent() {
-  const [selected, setSelected] = useState("in-progress");
+interface TicketReplyContentProps {
+  ticket: SupportTicket;
+  position: TicketPosition; // Drives the previous/next buttons
+  macros: TicketMacro[]; // Offered in the reply box
+}
+
+const pagerClassName =
+  "flex h-8 w-8 items-center justify-center rounded-lg border border-gray-200 bg-white text-gray-500 hover:bg-gray-50 dark:border-gray-800 dark:bg-white/[0.03] dark:text-gray-400 dark:hover:bg-gray-900 dark:hover:text-white/90";
+
+export default function TicketReplyContent({
+  ticket,
+  position,
+  macros,
+}: TicketReplyContentProps) {
+  const router = useRouter();
+  const user = useSession();
+  const canReply = usePermission("support:reply");
+  const [draft, setDraft] = useState("");
+  // The macro inserted last, whose actions run when the reply is sent
+  const [macro, setMacro] = useState<TicketMacro | null>(null);
+  const [internal, setInternal] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (request: () => Promise<unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await request();
+      router.refresh();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const send = async () => {
+    const sent = await run(() =>
+      addTicketMessage(ticket.id, draft, internal, macro?.id)
+    );
+    if (sent) {
+      setDraft("");
+      setMacro(null);
+    }
+  };
+
+  // Adds the macro's text below anything already written
+  const insertMacro = (picked: TicketMacro) => {
+    const text = fillPlaceholders(picked.body, ticket, user?.name ?? "");
+    setDraft((current) =>
+      current.trim() ? `${current.trimEnd()}\n\n${text}` : text
+    );
+    setMacro(picked);
+  };
 
-  const options = [
-    { label: "In-Progress", value: "in-progress" },
-    { label: "Solved", value: "solved" },
-    { label: "On-Hold", value: "on-hold" },
-  ];
+  const changeStatus = (status: TicketStatus) =>
+    run(() => updateTicket(ticket.id, { status }));
+
+  // Customers are shown with their email, agents with their team
+  const authorOf = (message: TicketMessage) =>
+    message.author === "customer"
+      ? {
+          name: ticket.name,
+          detail: ticket.email,
+          avatar: "/images/support/user-1.jpg",
+        }
+      : {
+          name: message.agent ?? ticket.agent,
+          detail: message.internal
+            ? "Internal note - only the support team sees this"
+            : "From - tailadmin support team",
+          avatar: "/images/support/user-2.jpg",
+        };
 
   return (
     <div className="rounded-2xl border border-gray-200 bg-white dark:border-gray-800 dark:bg-white/[0.03]">
@@ -17,271 +101,303 @@ export default function TicketReplyContent() {
       <div className="flex flex-col justify-between gap-5 border-b border-gray-200 px-5 py-4 sm:flex-row sm:items-center dark:border-gray-800">
         <div>
           <h3 className="text-lg font-medium text-gray-800 dark:text-white/90">
-            Ticket #346520 - Sidebar not responsive on mobile
+            Ticket #{ticket.id} - {ticket.subject}
           </h3>
           <p className="text-sm text-gray-500 dark:text-gray-400">
-            Mon, 3:20 PM (2 days ago)
+            {formatTicketTime(ticket.createdAt)}
           </p>
         </div>
         <div className="flex items-center gap-4">
-          <p className="text-sm text-gray-500 dark:text-gray-400">4 of 120</p>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {position.index + 1} of {position.total}
+          </p>
           <div className="flex items-center gap-2">
-            <button className="flex h-8 w-8 items-center justify-center rounded-lg border border-gray-200 bg-white text-gray-500 hover:bg-gray-50 dark:border-gray-800 dark:bg-white/[0.03] dark:text-gray-400 dark:hover:bg-gray-900 dark:hover:text-white/90">
-              <svg
-                className="stroke-current"
-                width="20"
-                height="20"
-                viewBox="0 0 20 20"
-                fill="none"
-                xmlns="http://www.w3.org/2000/svg"
+            {position.previous ? (
+              <Link
+                href={`/support-tickets/${position.previous}`}
+                title="Previous ticket"
+                className={pagerClassName}
               >
-                <path
-                  d="M12.7083 5L7.5 10.2083L12.7083 15.4167"
-                  stroke=""
-                  strokeWidth="1.5"
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                />
-              </svg>
-            </button>
-            <button className="flex h-8 w-8 items-center justify-center rounded-lg border border-gray-200 bg-white text-gray-500 hover:bg-gray-50 dark:border-gray-800 dark:bg-white/[0.03] dark:text-gray-400 dark:hover:bg-gray-900 dark:hover:text-white/90">
-              <svg
-                className="stroke-current"
-                width="20"
-                height="20"
-                viewBox="0 0 20 20"
-                fill="none"
-                xmlns="http://www.w3.org/2000/svg"
+                <svg
+                  className="stroke-current"
+                  width="20"
+                  height="20"
+                  viewBox="0 0 20 20"
+                  fill="none"
+                  xmlns="http://www.w3.org/2000/svg"
+                >
+                  <path
+                    d="M12.7083 5L7.5 10.2083L12.7083 15.4167"
+                    stroke=""
+                    strokeWidth="1.5"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                  />
+                </svg>
+              </Link>
+            ) : (
+              <span className={`${pagerClassName} opacity-50`}>
+                <svg
+                  className="stroke-current"
+                  width="20"
+                  height="20"
+                  viewBox="0 0 20 20"
+                  fill="none"
+                  xmlns="http://www.w3.org/2000/svg"
+                >
+                  <path
+                    d="M12.7083 5L7.5 10.2083L12.7083 15.4167"
+                    stroke=""
+                    strokeWidth="1.5"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                  />
+                </svg>
+              </span>
+            )}
+            {position.next ? (
+              <Link
+                href={`/support-tickets/${position.next}`}
+                title="Next ticket"
+                className={pagerClassName}
               >
-                <path
-                  d="M7.29167 15.8335L12.5 10.6252L7.29167 5.41683"
-                  stroke=""
-                  strokeWidth="1.5"
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                />
-              </svg>
-            </button>
-          </div>
-        </div>
-      </div>
-
-      <div className="relative px-6 py-7">
-        <div className="custom-scrollbar h-[calc(58vh-162px)] space-y-7 divide-y divide-gray-200 overflow-y-auto pr-2 dark:divide-gray-800">
-          <article>
-            <div className="mb-6 flex items-center justify-between">
-              <div className="flex items-center gap-3">
-                <Image
-                  width={40}
-                  height={40}
-                  src="/images/support/user-1.jpg"
-                  className="h-10 w-10 shrink-0 rounded-full"
-                  alt=""
-                />
-                <div>
-                  <p className="text-sm font-medium text-gray-800 dark:text-white/90">
-                    John Doe
-                  </p>
-                  <p className="text-xs text-gray-500 dark:text-gray-400">
-                    jhondelin@gmail.com
-                  </p>
-                </div>
-              </div>
-              <div>
-                <p className="text-xs text-gray-500 dark:text-gray-400">
-                  Mon, 3:20 PM (2 hrs ago)
-                </p>
-              </div>
-            </div>
-            <div className="pb-6">
-              <p className="text-sm text-gray-500 dark:text-gray-400">
-                Hi TailAdmin Team,
-              </p>
-              <p className="mb-5 text-sm text-gray-500 dark:text-gray-400">
-                I hope you&apos;re doing well.
-              </p>
-              <p className="text-sm text-gray-500 dark:text-gray-400">
-                I’m currently working on customizing the TailAdmin dashboard and
-                would like to add a new section labeled “Reports.” Before I
-                proceed, I wanted to check if there’s any official guide or best
-                practice you recommend for adding custom pages within the
-                TailAdmin structure.
-              </p>
-            </div>
-          </article>
-          <article>
-            <div className="mb-6 flex items-center justify-between">
-              <div className="flex items-center gap-3">
-                <Image
-                  width={40}
-                  height={40}
-                  src="/images/support/user-2.jpg"
-                  className="h-10 w-10 shrink-0 rounded-full"
-                  alt=""
-                />
-                <div>
-                  <p className="text-sm font-medium text-gray-800 dark:text-white/90">
-                    Musharof Chowdhury
-                  </p>
-                  <p className="text-xs text-gray-500 dark:text-gray-400">
-                    From - tailadmin support team
-                  </p>
-                </div>
-              </div>
-              <div>
-                <p className="text-xs text-gray-500 dark:text-gray-400">
-                  Mon, 3:20 PM (2 hrs ago)
-                </p>
-              </div>
-            </div>
-            <div className="pb-6">
-              <p className="mb-5 text-sm text-gray-500 dark:text-gray-400">
-                Hi John D,
-              </p>
-              <p className="mb-5 text-sm text-gray-500 dark:text-gray-400">
-                Thanks for reaching out—and great to hear you&apos;re
-                customizing TailAdmin to fit your needs! Yes, you can definitely
-                add custom pages like a &quot;Reports&quot; section, and
-                it&apos;s quite straightforward. Here&apos;s a quick guide to
-                help you get started:
-              </p>
-              <p className="text-sm text-gray-500 dark:text-gray-400">
-                To include your new page in the sidebar:
-              </p>
-              <ul className="list-inside list-disc pl-2 text-sm text-gray-500 dark:text-gray-400">
-                <li>
-                  To include your new page in the sidebar: Go to the sidebar
-                  configuration file (sidebarData.ts or similar)
-                </li>
-                <li>
-                  Add a new entry with the label &quot;Reports&quot; and route
-                  /reports
-                </li>
-              </ul>
-            </div>
-          </article>
-          <article>
-            <div className="mb-6 flex items-center justify-between">
-              <div className="flex items-center gap-3">
-                <Image
-                  width={40}
-                  height={40}
-                  src="/images/support/user-1.jpg"
-                  className="h-10 w-10 shrink-0 rounded-full"
-                  alt=""
-                />
-                <div>
-                  <p className="text-sm font-medium text-gray-800 dark:text-white/90">
-                    John Doe
-                  </p>
-                  <p className="text-xs text-gray-500 dark:text-gray-400">
-                    jhondelin@gmail.com
-                  </p>
-                </div>
-              </div>
-              <div>
-                <p className="text-xs text-gray-500 dark:text-gray-400">
-                  Mon, 3:20 PM (2 hrs ago)
-                </p>
-              </div>
-            </div>
-            <div className="pb-6">
-              <p className="text-sm text-gray-500 dark:text-gray-400">
-                Hi TailAdmin Team,
-              </p>
-              <p className="mb-5 text-sm text-gray-500 dark:text-gray-400">
-                I hope you&apos;re doing well.
-              </p>
-              <p className="text-sm text-gray-500 dark:text-gray-400">
-                I’m currently working on customizing the TailAdmin dashboard and
-                would like to add a new section labeled “Reports.” Before I
-                proceed, I wanted to check if there’s any official guide or best
-                practice you recommend for adding custom pages within the
-                TailAdmin structure.
-              </p>
-            </div>
-          </article>
-        </div>
-
-        {/* <!-- Fixed Input Wrapper --> */}
-        <div className="pt-5">
-          {/* <!-- Container with max width --> */}
-          <div className="mx-auto max-h-[162px] w-full rounded-2xl border border-gray-200 shadow-xs dark:border-gray-800 dark:bg-gray-800">
-            {/* <!-- Textarea --> */}
-            <textarea
-              placeholder="Type your reply here..."
-              className="h-20 w-full resize-none border-none bg-transparent p-5 font-normal text-gray-800 outline-none placeholder:text-gray-400 focus:ring-0 dark:text-white"
-            ></textarea>
-
-            {/* <!-- Bottom Section --> */}
-            <div className="flex items-center justify-between p-3">
-              <button className="flex h-9 items-center gap-1.5 rounded-lg bg-transparent px-2 py-3 text-sm text-gray-500 hover:bg-gray-100 hover:text-gray-700 dark:text-gray-400 dark:hover:bg-gray-900 dark:hover:text-gray-300">
-                {/* <!-- Attach Icon --> */}
                 <svg
+                  className="stroke-current"
+                  width="20"
+                  height="20"
+                  viewBox="0 0 20 20"
+                  fill="none"
                   xmlns="http://www.w3.org/2000/svg"
+                >
+                  <path
+                    d="M7.29167 15.8335L12.5 10.6252L7.29167 5.41683"
+                    stroke=""
+                    strokeWidth="1.5"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                  />
+                </svg>
+              </Link>
+            ) : (
+              <span className={`${pagerClassName} opacity-50`}>
+                <svg
+                  className="stroke-current"
                   width="20"
                   height="20"
+                  viewBox="0 0 20 20"
                   fill="none"
+                  xmlns="http://www.w3.org/2000/svg"
                 >
                   <path
-                    d="M14.4194 11.7679L15.4506 10.7367C17.1591 9.02811 17.1591 6.25802 15.4506 4.54947C13.742 2.84093 10.9719 2.84093 9.2634 4.54947L8.2322 5.58067M11.77 14.4172L10.7365 15.4507C9.02799 17.1592 6.2579 17.1592 4.54935 15.4507C2.84081 13.7422 2.84081 10.9721 4.54935 9.26352L5.58285 8.23002M11.7677 8.23232L8.2322 11.7679"
-                    stroke="currentColor"
+                    d="M7.29167 15.8335L12.5 10.6252L7.29167 5.41683"
+                    stroke=""
                     strokeWidth="1.5"
                     strokeLinecap="round"
                     strokeLinejoin="round"
                   />
                 </svg>
-                Attach
-              </button>
-              {/* <!-- Send Button --> */}
-              <button className="bg-brand-500 hover:bg-brand-600 shadow-theme-xs inline-flex h-9 items-center justify-center rounded-lg px-4 py-3 text-sm font-medium text-white">
-                Reply
-              </button>
-            </div>
+              </span>
+            )}
           </div>
         </div>
+      </div>
 
-        {/* Status */}
-
-        <div className="mt-6 flex flex-wrap items-center gap-4">
-          <span className="text-gray-500 dark:text-gray-400">Status:</span>
-          <div className="flex items-center gap-4">
-            {options.map((option) => (
-              <label
-                key={option.value}
-                htmlFor={option.value}
-                className="flex cursor-pointer items-center text-sm font-medium text-gray-700 select-none dark:text-gray-400"
+      <div className="relative px-6 py-7">
+        <div className="custom-scrollbar h-[calc(58vh-162px)] space-y-7 divide-y divide-gray-200 overflow-y-auto pr-2 dark:divide-gray-800">
+          {ticket.messages.map((message, index) => {
+            const author = authorOf(message);
+            return (
+              <article
+                key={index}
+                className={
+                  message.internal
+                    ? "rounded-xl bg-warning-50 px-4 pt-4 dark:bg-warning-500/10"
+                    : undefined
+                }
               >
-                <div className="relative">
-                  <input
-                    type="radio"
-                    id={option.value}
-                    value={option.value}
-                    checked={selected === option.value}
-                    onChange={() => setSelected(option.value)}
-                    className="sr-only"
-                  />
-                  <div
-                    className={`mr-3 flex h-4 w-4 items-center justify-center rounded-full border-[1.25px] hover:border-brand-500 dark:hover:border-brand-500 ${
-                      selected === option.value
-                        ? "border-brand-500 bg-brand-500"
-                        : "bg-transparent border-gray-300 dark:border-gray-700"
-                    }`}
-                  >
-                    <span
-                      className={`h-1.5 w-1.5 rounded-full ${
-                        selected === option.value
-                          ? "bg-white"
-                          : "bg-white dark:bg-[#171f2e]"
-                      }`}
-                    ></span>
+                <div className="mb-6 flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <Image
+                      width={40}
+                      height={40}
+                      src={author.avatar}
+                      className="h-10 w-10 shrink-0 rounded-full"
+                      alt=""
+                    />
+                    <div>
+                      <p className="text-sm font-medium text-gray-800 dark:text-white/90">
+                        {author.name}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {author.detail}
+                      </p>
+                    </div>
+                  </div>
+                  <div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {formatTicketTime(message.sentAt)}
+                    </p>
                   </div>
                 </div>
-                {option.label}
-              </label>
-            ))}
-          </div>
+                <div className="space-y-5 pb-6">
+                  {message.text.split("\n\n").map((paragraph, i) => (
+                    <p
+                      key={i}
+                      className="text-sm whitespace-pre-line text-gray-500 dark:text-gray-400"
+                    >
+                      {paragraph}
+                    </p>
+                  ))}
+                  {message.attachments && message.attachments.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {message.attachments.map((attachment) => (
+                        <a
+                          key={attachment.id}
+                          href={`/api/support-tickets/${ticket.id}/attachments/${attachment.id}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="flex max-w-[270px] items-center gap-2 rounded-lg border border-gray-200 px-3 py-2 text-sm text-gray-800 hover:bg-gray-50 dark:border-gray-800 dark:text-white/90 dark:hover:bg-white/5"
+                        >
+                          <span className="truncate">{attachment.name}</span>
+                          <span className="shrink-0 text-theme-xs text-gray-500 dark:text-gray-400">
+                            {formatFileSize(attachment.size)}
+                          </span>
+                        </a>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </article>
+            );
+          })}
         </div>
+
+        {/* <!-- Fixed Input Wrapper --> */}
+        {canReply && (
+          <>
+            <div className="pt-5">
+              {/* <!-- Container with max width --> */}
+              <div className="mx-auto w-full rounded-2xl border border-gray-200 shadow-xs dark:border-gray-800 dark:bg-gray-800">
+                {/* <!-- Textarea --> */}
+                <textarea
+                  placeholder={
+                    internal
+                      ? "Write an internal note for the team..."
+                      : "Type your reply here..."
+                  }
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  className="h-20 w-full resize-none border-none bg-transparent p-5 font-normal text-gray-800 outline-none placeholder:text-gray-400 focus:ring-0 dark:text-white"
+                ></textarea>
+
+                {macro && macroActionLabels(macro.actions).length > 0 && (
+                  <div className="mx-3 flex items-center justify-between gap-3 rounded-lg bg-brand-50 px-3 py-2 text-theme-xs text-brand-500 dark:bg-brand-500/15 dark:text-brand-400">
+                    <span>
+                      Sending also runs &ldquo;{macro.name}&rdquo;:{" "}
+                      {macroActionLabels(macro.actions).join(" · ")}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => setMacro(null)}
+                      className="shrink-0 font-medium hover:underline"
+                    >
+                      Skip actions
+                    </button>
+                  </div>
+                )}
+
+                {/* <!-- Bottom Section --> */}
+                <div className="flex items-center justify-between p-3">
+                  <div className="flex items-center gap-1">
+                    <MacroPicker macros={macros} onPick={insertMacro} />
+                    <button className="flex h-9 items-center gap-1.5 rounded-lg bg-transparent px-2 py-3 text-sm text-gray-500 hover:bg-gray-100 hover:text-gray-700 dark:text-gray-400 dark:hover:bg-gray-900 dark:hover:text-gray-300">
+                      {/* <!-- Attach Icon --> */}
+                      <svg
+                        xmlns="http://www.w3.org/2000/svg"
+                        width="20"
+                        height="20"
+                        fill="none"
+                      >
+                        <path
+                          d="M14.4194 11.7679L15.4506 10.7367C17.1591 9.02811 17.1591 6.25802 15.4506 4.54947C13.742 2.84093 10.9719 2.84093 9.2634 4.54947L8.2322 5.58067M11.77 14.4172L10.7365 15.4507C9.02799 17.1592 6.2579 17.1592 4.54935 15.4507C2.84081 13.7422 2.84081 10.9721 4.54935 9.26352L5.58285 8.23002M11.7677 8.23232L8.2322 11.7679"
+                          stroke="currentColor"
+                          strokeWidth="1.5"
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                        />
+                      </svg>
+                      Attach
+                    </button>
+                  </div>
+                  <div className="flex items-center gap-4">
+                    <label className="flex cursor-pointer items-center gap-2 text-sm text-gray-500 select-none dark:text-gray-400">
+                      <input
+                        type="checkbox"
+                        checked={internal}
+                        onChange={(e) => setInternal(e.target.checked)}
+                        className="h-4 w-4 rounded-sm border-gray-300 accent-brand-500"
+                      />
+                      Internal note
+                    </label>
+                    {/* <!-- Send Button --> */}
+                    <button
+                      type="button"
+                      disabled={busy || !draft.trim()}
+                      onClick={send}
+                      className="bg-brand-500 hover:bg-brand-600 shadow-theme-xs inline-flex h-9 items-center justify-center rounded-lg px-4 py-3 text-sm font-medium text-white disabled:opacity-50"
+                    >
+                      {internal ? "Add Note" : "Reply"}
+                    </button>
+                  </div>
+                </div>
+              </div>
+              {error && <p className="mt-2 text-sm text-error-500">{error}</p>}
+            </div>
+
+            {/* Status */}
+
+            <div className="mt-6 flex flex-wrap items-center gap-4">
+              <span className="text-gray-500 dark:text-gray-400">Status:</span>
+              <div className="flex items-center gap-4">
+                {TICKET_STATUSES.map((status) => (
+                  <label
+                    key={status}
+                    htmlFor={`status-${status}`}
+                    className="flex cursor-pointer items-center text-sm font-medium text-gray-700 select-none dark:text-gray-400"
+                  >
+                    <div className="relative">
+                      <input
+                        type="radio"
+                        id={`status-${status}`}
+                        value={status}
+                        checked={ticket.status === status}
+                        disabled={busy}
+                        onChange={() => changeStatus(status)}
+                        className="sr-only"
+                      />
+                      <div
+                        className={`mr-3 flex h-4 w-4 items-center justify-center rounded-full border-[1.25px] hover:border-brand-500 dark:hover:border-brand-500 ${
+                          ticket.status === status
+                            ? "border-brand-500 bg-brand-500"
+                            : "bg-transparent border-gray-300 dark:border-gray-700"
+                        }`}
+                      >
+                        <span
+                          className={`h-1.5 w-1.5 rounded-full ${
+                            ticket.status === status
+                              ? "bg-white"
+                              : "bg-white dark:bg-[#171f2e]"
+                          }`}
+                        ></span>
+                      </div>
+                    </div>
+                    {status}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
       </div>
     </div>
   );
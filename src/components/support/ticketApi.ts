@@ -0,0 +1,81 @@
+import type {
+  SupportTicket,
+  TicketCategory,
+  TicketPriority,
+  TicketStatus,
+} from "@/lib/mock-data/support-tickets";
+import type { MacroActions, TicketMacro } from "@/lib/mock-data/ticket-macros";
+
+async function requestJson<T>(
+  url: string,
+  init: { method: string; body?: unknown }
+): Promise<T> {
+  const response = await fetch(url, {
+    method: init.method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(init.body),
+  });
+  const result = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(
+      result?.error ?? `Request failed with status ${response.status}`
+    );
+  }
+  return result as T;
+}
+
+export interface TicketChangesInput {
+  status?: TicketStatus;
+  priority?: TicketPriority;
+  category?: TicketCategory;
+  agent?: string;
+}
+
+export function updateTicket(id: string, changes: TicketChangesInput) {
+  return requestJson<SupportTicket>(`/api/support-tickets/${id}`, {
+    method: "PATCH",
+    body: changes,
+  });
+}
+
+/**
+ * A reply the customer sees, or an internal note when `internal`. With a
+ * `macroId`, the macro's actions run on the ticket too.
+ */
+export function addTicketMessage(
+  id: string,
+  text: string,
+  internal: boolean,
+  macroId?: string
+) {
+  return requestJson<SupportTicket>(`/api/support-tickets/${id}/messages`, {
+    method: "POST",
+    body: { text, internal, macroId },
+  });
+}
+
+export interface MacroInput {
+  name: string;
+  body: string;
+  actions: MacroActions;
+}
+
+export function createMacro(macro: MacroInput) {
+  return requestJson<TicketMacro>("/api/support-tickets/macros", {
+    method: "POST",
+    body: macro,
+  });
+}
+
+export function updateMacro(id: string, macro: MacroInput) {
+  return requestJson<TicketMacro>(`/api/support-tickets/macros/${id}`, {
+    method: "PUT",
+    body: macro,
+  });
+}
+
+export function deleteMacro(id: string) {
+  return requestJson<TicketMacro>(`/api/support-tickets/macros/${id}`, {
+    method: "DELETE",
+  });
+}
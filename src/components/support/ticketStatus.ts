@@ -0,0 +1,80 @@
+import type {
+  TicketPriority,
+  TicketStatus,
+} from "@/lib/mock-data/support-tickets";
+import type { MacroActions } from "@/lib/mock-data/ticket-macros";
+import { activeClock, formatDuration, type TicketSla } from "@/lib/support-sla";
+
+// Badge colours for each ticket status
+export const ticketStatusClasses: Record<TicketStatus, string> = {
+  Solved:
+    "bg-success-50 dark:bg-success-500/15 text-success-700 dark:text-success-500",
+  Pending:
+    "bg-warning-50 dark:bg-warning-500/15 text-warning-600 dark:text-warning-500",
+  "In-Progress":
+    "bg-blue-light-50 text-blue-light-600 dark:bg-blue-light-500/15 dark:text-blue-light-500",
+  "On-Hold": "bg-gray-100 text-gray-600 dark:bg-white/5 dark:text-gray-400",
+};
+
+// Badge colours for each priority
+export const ticketPriorityClasses: Record<TicketPriority, string> = {
+  Low: "bg-gray-100 text-gray-600 dark:bg-white/5 dark:text-gray-400",
+  Medium:
+    "bg-blue-light-50 text-blue-light-600 dark:bg-blue-light-500/15 dark:text-blue-light-500",
+  High: "bg-warning-50 dark:bg-warning-500/15 text-warning-600 dark:text-warning-500",
+  Urgent: "bg-error-50 text-error-600 dark:bg-error-500/15 dark:text-error-500",
+};
+
+const SLA_CLASSES = {
+  met: "text-success-600 dark:text-success-500",
+  running: "text-gray-700 dark:text-gray-400",
+  dueSoon: "text-warning-600 dark:text-orange-400",
+  breached: "text-error-600 dark:text-error-500",
+};
+
+/**
+ * "First response in 2h 10m", "Resolution overdue 3h" or "Resolved in
+ * time", coloured by how the clock stands.
+ */
+export function slaSummary(
+  sla: TicketSla,
+  solved: boolean
+): { label: string; className: string } {
+  if (solved) {
+    return sla.firstResponse.breached || sla.resolution.breached
+      ? { label: "SLA missed", className: SLA_CLASSES.breached }
+      : { label: "SLA met", className: SLA_CLASSES.met };
+  }
+  const { name, clock } = activeClock(sla);
+  if (clock.breached) {
+    return {
+      label: `${name} overdue ${formatDuration(clock.remainingMs)}`,
+      className: SLA_CLASSES.breached,
+    };
+  }
+  return {
+    label: `${name} in ${formatDuration(clock.remainingMs)}`,
+    className: clock.dueSoon ? SLA_CLASSES.dueSoon : SLA_CLASSES.running,
+  };
+}
+
+// "12 Feb, 2027, 9:05 AM" for messages and ticket times
+export const formatTicketTime = (iso: string) => {
+  const date = new Date(iso);
+  const day = String(date.getDate()).padStart(2, "0");
+  const month = date.toLocaleDateString("en-US", { month: "short" });
+  const time = date.toLocaleTimeString("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+  });
+  return `${day} ${month}, ${date.getFullYear()}, ${time}`;
+};
+
+// "Set status to Solved", "Assign to Naimur Rahman", "Tag billing, refund"
+export function macroActionLabels(actions: MacroActions): string[] {
+  return [
+    actions.status ? `Set status to ${actions.status}` : "",
+    actions.agent ? `Assign to ${actions.agent}` : "",
+    actions.tags.length > 0 ? `Tag ${actions.tags.join(", ")}` : "",
+  ].filter(Boolean);
+}
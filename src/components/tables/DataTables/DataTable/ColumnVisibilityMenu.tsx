@@ -0,0 +1,60 @@
+"use client";
+import { useState } from "react";
+import { Dropdown } from "../../../ui/dropdown/Dropdown";
+import Checkbox from "../../../form/input/Checkbox";
+import type { ColumnDef } from "./types";
+
+interface ColumnVisibilityMenuProps<T> {
+  columns: ColumnDef<T>[];
+  hiddenColumnIds: string[];
+  onToggle: (columnId: string) => void;
+}
+
+export default function ColumnVisibilityMenu<T>({
+  columns,
+  hiddenColumnIds,
+  onToggle,
+}: ColumnVisibilityMenuProps<T>) {
+  const [isOpen, setIsOpen] = useState(false);
+  const hideable = columns.filter((column) => column.hideable !== false);
+  const visibleCount = columns.length - hiddenColumnIds.length;
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen((prev) => !prev)}
+        className="dropdown-toggle flex h-11 items-center gap-2 rounded-lg border border-gray-300 bg-white px-4 text-sm font-medium text-gray-700 shadow-theme-xs hover:bg-gray-50 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-400 dark:hover:bg-white/[0.03]"
+      >
+        Columns
+      </button>
+      <Dropdown
+        isOpen={isOpen}
+        onClose={() => setIsOpen(false)}
+        className="w-56 p-3"
+      >
+        <ul className="space-y-3">
+          {hideable.map((column) => {
+            const isVisible = !hiddenColumnIds.includes(column.id);
+            return (
+              <li key={column.id}>
+                <Checkbox
+                  id={`column-${column.id}`}
+                  checked={isVisible}
+                  // Keep at least one column on screen
+                  disabled={isVisible && visibleCount === 1}
+                  onChange={() => onToggle(column.id)}
+                  label={
+                    typeof column.header === "string"
+                      ? column.header
+                      : column.id
+                  }
+                />
+              </li>
+            );
+          })}
+        </ul>
+      </Dropdown>
+    </div>
+  );
+}
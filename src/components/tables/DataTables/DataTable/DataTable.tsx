@@ -0,0 +1,445 @@
+"use client";
+
+import type React from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHeader,
+  TableRow,
+} from "../../../ui/table";
+import { AngleDownIcon, AngleUpIcon } from "@/icons";
+import Checkbox from "../../../form/input/Checkbox";
+import PaginationWithIcon from "../TableOne/PaginationWithIcon";
+import ExportMenu from "../../../common/ExportMenu";
+import type { ExportColumn } from "@/lib/export";
+import ColumnVisibilityMenu from "./ColumnVisibilityMenu";
+import type { DataSource } from "./dataSource";
+import { formatColumnValue, getColumnValue } from "./sorting";
+import { useDataTable, type DataTableState } from "./useDataTable";
+import type { ColumnDef, PaginationRenderProps, SortRule } from "./types";
+
+interface DataTableViewProps<T> {
+  table: DataTableState<T>;
+  columns: ColumnDef<T>[];
+  getRowId: (row: T) => string | number;
+  pageSizeOptions?: number[];
+  selectable?: boolean; // Show a checkbox column
+  searchPlaceholder?: string;
+  toolbarActions?: React.ReactNode; // Extra controls next to the search input
+  rowActions?: (row: T) => React.ReactNode; // Trailing "Action" column
+  emptyMessage?: string;
+  renderPagination?: (props: PaginationRenderProps) => React.ReactNode;
+  paginationFirst?: boolean; // Render pagination before the "Showing" summary
+  exportFileName?: string; // Shows an export menu for the current view
+}
+
+export interface DataTableProps<T>
+  extends Omit<DataTableViewProps<T>, "table"> {
+  data?: T[];
+  dataSource?: DataSource<T>;
+  initialSort?: SortRule[];
+  initialPageSize?: number;
+  initialFilters?: Record<string, string>;
+}
+
+const cellBorder = "border border-gray-100 dark:border-white/[0.05]";
+
+// Exports what the table shows: visible columns with their formatted values.
+// Plain numeric columns stay numbers so spreadsheets can total them.
+function toExportColumns<T>(columns: ColumnDef<T>[]): ExportColumn<T>[] {
+  return columns.map((column) => ({
+    header: typeof column.header === "string" ? column.header : column.id,
+    value: (row: T) => {
+      const raw = getColumnValue(column, row);
+      return typeof raw === "number" && !column.format
+        ? raw
+        : formatColumnValue(column, row);
+    },
+  }));
+}
+
+const defaultPagination = ({
+  currentPage,
+  totalItems,
+  pageSize,
+  onPageChange,
+}: PaginationRenderProps) => (
+  <PaginationWithIcon
+    totalItems={totalItems}
+    pageSize={pageSize}
+    initialPage={currentPage}
+    onPageChange={onPageChange}
+  />
+);
+
+/**
+ * Renders a table whose state is owned by the caller through `useDataTable`,
+ * so the parent can read the filtered rows or the selection.
+ */
+export function DataTableView<T>({
+  table,
+  columns,
+  getRowId,
+  pageSizeOptions = [5, 8, 10],
+  selectable = false,
+  searchPlaceholder = "Search...",
+  toolbarActions,
+  rowActions,
+  emptyMessage = "No matching records found",
+  renderPagination = defaultPagination,
+  paginationFirst = false,
+  exportFileName,
+}: DataTableViewProps<T>) {
+  const {
+    pageRows,
+    visibleColumns,
+    hiddenColumnIds,
+    searchTerm,
+    sortRules,
+    currentPage,
+    pageSize,
+    totalItems,
+    totalPages,
+    startIndex,
+    endIndex,
+    status,
+    error,
+    selectedRows,
+    allPageRowsSelected,
+    fetchAllRows,
+    setSearchTerm,
+    setPageSize,
+    goToPage,
+    toggleSort,
+    toggleColumn,
+    reload,
+    isSelected,
+    toggleRow,
+    toggleAllPageRows,
+  } = table;
+
+  const columnCount =
+    visibleColumns.length + (selectable ? 1 : 0) + (rowActions ? 1 : 0);
+
+  const summary = (
+    <p className="text-sm font-medium text-center text-gray-500 dark:text-gray-400 xl:text-left">
+      Showing {totalItems === 0 ? 0 : startIndex + 1} to {endIndex} of{" "}
+      {totalItems} entries
+    </p>
+  );
+
+  const pagination = renderPagination({
+    currentPage,
+    totalPages,
+    totalItems,
+    pageSize,
+    onPageChange: goToPage,
+  });
+
+  // Message row shown instead of data while loading, on error or when empty
+  const statusRow = (content: React.ReactNode) => (
+    <TableRow>
+      <td
+        colSpan={columnCount}
+        className={`px-4 py-6 text-center text-theme-sm text-gray-500 dark:text-gray-400 ${cellBorder}`}
+      >
+        {content}
+      </td>
+    </TableRow>
+  );
+
+  let placeholder: React.ReactNode = null;
+  if (status === "error") {
+    placeholder = statusRow(
+      <div className="flex flex-col items-center gap-2">
+        <span className="text-error-500">
+          Could not load data{error ? `: ${error.message}` : ""}
+        </span>
+        <button
+          type="button"
+          onClick={reload}
+          className="text-sm font-medium text-brand-500 hover:text-brand-600"
+        >
+          Try again
+        </button>
+      </div>
+    );
+  } else if (status === "loading" && pageRows.length === 0) {
+    placeholder = statusRow(
+      <span className="inline-flex items-center gap-2">
+        <span className="h-5 w-5 animate-spin rounded-full border-2 border-brand-500 border-t-transparent" />
+        Loading...
+      </span>
+    );
+  } else if (pageRows.length === 0) {
+    placeholder = statusRow(emptyMessage);
+  }
+
+  return (
+    <div
+      className="overflow-hidden bg-white dark:bg-white/[0.03] rounded-xl"
+      aria-busy={status === "loading"}
+    >
+      <div className="flex flex-col gap-2 px-4 py-4 border border-b-0 border-gray-100 dark:border-white/[0.05] rounded-t-xl sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-center gap-3">
+          <span className="text-gray-500 dark:text-gray-400"> Show </span>
+          <div className="relative z-20 bg-transparent">
+            <select
+              className="w-full py-2 pl-3 pr-8 text-sm text-gray-800 bg-transparent border border-gray-300 rounded-lg appearance-none dark:bg-dark-900 h-9 bg-none shadow-theme-xs placeholder:text-gray-400 focus:border-brand-300 focus:outline-hidden focus:ring-3 focus:ring-brand-500/10 dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:placeholder:text-white/30 dark:focus:border-brand-800"
+              value={pageSize}
+              onChange={(e) => setPageSize(Number(e.target.value))}
+            >
+              {pageSizeOptions.map((value) => (
+                <option
+                  key={value}
+                  value={value}
+                  className="text-gray-500 dark:bg-gray-900 dark:text-gray-400"
+                >
+                  {value}
+                </option>
+              ))}
+            </select>
+            <span className="absolute z-30 text-gray-500 -translate-y-1/2 right-2 top-1/2 dark:text-gray-400">
+              <svg
+                className="stroke-current"
+                width="16"
+                height="16"
+                viewBox="0 0 16 16"
+                fill="none"
+                xmlns="http://www.w3.org/2000/svg"
+              >
+                <path
+                  d="M3.8335 5.9165L8.00016 10.0832L12.1668 5.9165"
+                  stroke=""
+                  strokeWidth="1.2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                />
+              </svg>
+            </span>
+          </div>
+          <span className="text-gray-500 dark:text-gray-400"> entries </span>
+        </div>
+
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+          <div className="relative">
+            <span className="absolute text-gray-500 -translate-y-1/2 left-4 top-1/2 dark:text-gray-400">
+              <svg
+                className="fill-current"
+                width="20"
+                height="20"
+                viewBox="0 0 20 20"
+                fill="none"
+                xmlns="http://www.w3.org/2000/svg"
+              >
+                <path
+                  fillRule="evenodd"
+                  clipRule="evenodd"
+                  d="M3.04199 9.37363C3.04199 5.87693 5.87735 3.04199 9.37533 3.04199C12.8733 3.04199 15.7087 5.87693 15.7087 9.37363C15.7087 12.8703 12.8733 15.7053 9.37533 15.7053C5.87735 15.7053 3.04199 12.8703 3.04199 9.37363ZM9.37533 1.54199C5.04926 1.54199 1.54199 5.04817 1.54199 9.37363C1.54199 13.6991 5.04926 17.2053 9.37533 17.2053C11.2676 17.2053 13.0032 16.5344 14.3572 15.4176L17.1773 18.238C17.4702 18.5309 17.945 18.5309 18.2379 18.238C18.5308 17.9451 18.5309 17.4703 18.238 17.1773L15.4182 14.3573C16.5367 13.0033 17.2087 11.2669 17.2087 9.37363C17.2087 5.04817 13.7014 1.54199 9.37533 1.54199Z"
+                  fill=""
+                />
+              </svg>
+            </span>
+            <input
+              type="text"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder={searchPlaceholder}
+              className="dark:bg-dark-900 h-11 w-full rounded-lg border border-gray-300 bg-transparent py-2.5 pl-11 pr-4 text-sm text-gray-800 shadow-theme-xs placeholder:text-gray-400 focus:border-brand-300 focus:outline-hidden focus:ring-3 focus:ring-brand-500/10 dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:placeholder:text-white/30 dark:focus:border-brand-800 xl:w-[300px]"
+            />
+          </div>
+          <ColumnVisibilityMenu
+            columns={columns}
+            hiddenColumnIds={hiddenColumnIds}
+            onToggle={toggleColumn}
+          />
+          {exportFileName && (
+            <ExportMenu
+              fileName={exportFileName}
+              columns={toExportColumns(visibleColumns)}
+              rows={fetchAllRows}
+              selectedRows={selectable ? selectedRows : undefined}
+            />
+          )}
+          {toolbarActions}
+        </div>
+      </div>
+
+      <div
+        className={`max-w-full overflow-x-auto custom-scrollbar transition-opacity ${
+          status === "loading" && pageRows.length > 0 ? "opacity-60" : ""
+        }`}
+      >
+        <div>
+          <Table>
+            <TableHeader className="border-t border-gray-100 dark:border-white/[0.05]">
+              <TableRow>
+                {selectable && (
+                  <TableCell
+                    isHeader
+                    className={`w-12 px-4 py-3 ${cellBorder}`}
+                  >
+                    <Checkbox
+                      checked={allPageRowsSelected}
+                      onChange={toggleAllPageRows}
+                    />
+                  </TableCell>
+                )}
+                {visibleColumns.map((column) => {
+                  const ruleIndex = sortRules.findIndex(
+                    (rule) => rule.columnId === column.id
+                  );
+                  const rule = sortRules[ruleIndex];
+                  const sortable = column.sortable !== false;
+                  return (
+                    <TableCell
+                      key={column.id}
+                      isHeader
+                      className={`px-4 py-3 ${cellBorder} ${
+                        column.headerClassName ?? ""
+                      }`}
+                    >
+                      <div
+                        className={`flex items-center justify-between ${
+                          sortable ? "cursor-pointer select-none" : ""
+                        }`}
+                        title={
+                          sortable
+                            ? "Shift + click to sort by multiple columns"
+                            : undefined
+                        }
+                        onClick={(e) =>
+                          sortable && toggleSort(column.id, e.shiftKey)
+                        }
+                      >
+                        <p className="font-medium text-gray-700 text-theme-xs dark:text-gray-400">
+                          {column.header}
+                        </p>
+                        {sortable && (
+                          <span className="flex items-center gap-1">
+                            {rule && sortRules.length > 1 && (
+                              <span className="text-theme-xs font-medium text-brand-500">
+                                {ruleIndex + 1}
+                              </span>
+                            )}
+                            <span className="flex flex-col gap-0.5">
+                              <AngleUpIcon
+                                className={`text-gray-300 dark:text-gray-700 ${
+                                  rule?.direction === "asc"
+                                    ? "text-brand-500"
+                                    : ""
+                                }`}
+                              />
+                              <AngleDownIcon
+                                className={`text-gray-300 dark:text-gray-700 ${
+                                  rule?.direction === "desc"
+                                    ? "text-brand-500"
+                                    : ""
+                                }`}
+                              />
+                            </span>
+                          </span>
+                        )}
+                      </div>
+                    </TableCell>
+                  );
+                })}
+                {rowActions && (
+                  <TableCell isHeader className={`px-4 py-3 ${cellBorder}`}>
+                    <p className="font-medium text-gray-700 text-theme-xs dark:text-gray-400">
+                      Action
+                    </p>
+                  </TableCell>
+                )}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {placeholder}
+              {status !== "error" &&
+                pageRows.map((row) => (
+                  <TableRow key={getRowId(row)}>
+                    {selectable && (
+                      <TableCell className={`px-4 py-3 ${cellBorder}`}>
+                        <Checkbox
+                          checked={isSelected(row)}
+                          onChange={() => toggleRow(row)}
+                        />
+                      </TableCell>
+                    )}
+                    {visibleColumns.map((column) => (
+                      <TableCell
+                        key={column.id}
+                        className={`px-4 py-3 font-normal text-gray-800 ${cellBorder} text-theme-sm dark:text-gray-400/90 whitespace-nowrap ${
+                          column.cellClassName ?? ""
+                        }`}
+                      >
+                        {column.cell
+                          ? column.cell(row)
+                          : formatColumnValue(column, row)}
+                      </TableCell>
+                    ))}
+                    {rowActions && (
+                      <TableCell
+                        className={`px-4 py-3 text-theme-sm ${cellBorder} whitespace-nowrap`}
+                      >
+                        {rowActions(row)}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+
+      <div className="border border-t-0 rounded-b-xl border-gray-100 py-4 pl-[18px] pr-4 dark:border-white/[0.05]">
+        <div
+          className={`flex gap-3 xl:items-center xl:justify-between ${
+            paginationFirst
+              ? "flex-col-reverse xl:flex-row-reverse"
+              : "flex-col xl:flex-row"
+          }`}
+        >
+          {summary}
+          {pagination}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Table with search, multi-column sort (shift + click), column visibility,
+ * row selection and page-size selection. Pass `data` to work on an in-memory
+ * array or `dataSource` to query the server one page at a time.
+ */
+export default function DataTable<T>({
+  data,
+  dataSource,
+  columns,
+  getRowId,
+  initialSort,
+  initialPageSize,
+  initialFilters,
+  ...viewProps
+}: DataTableProps<T>) {
+  const table = useDataTable({
+    data,
+    dataSource,
+    columns,
+    getRowId,
+    initialSort,
+    initialPageSize,
+    initialFilters,
+  });
+
+  return (
+    <DataTableView
+      table={table}
+      columns={columns}
+      getRowId={getRowId}
+      {...viewProps}
+    />
+  );
+}
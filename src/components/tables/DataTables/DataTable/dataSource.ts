@@ -0,0 +1,34 @@
+import {
+  serializeTableQuery,
+  type TablePage,
+  type TableQuery,
+} from "@/lib/table-query";
+
+/**
+ * Where a table gets its rows from when they live on the server. The table
+ * sends its page, page size, search, sort and filters and renders whatever
+ * page comes back.
+ */
+export interface DataSource<T> {
+  fetchPage: (query: TableQuery, signal?: AbortSignal) => Promise<TablePage<T>>;
+}
+
+/**
+ * Data source backed by a list route handler that understands `TableQuery`
+ * search params, e.g. `createRemoteDataSource<Employee>("/api/employees")`.
+ * Create it once at module scope so the table does not refetch on every render.
+ */
+export function createRemoteDataSource<T>(endpoint: string): DataSource<T> {
+  return {
+    async fetchPage(query, signal) {
+      const response = await fetch(
+        `${endpoint}?${serializeTableQuery(query).toString()}`,
+        { signal }
+      );
+      if (!response.ok) {
+        throw new Error(`Request failed with status ${response.status}`);
+      }
+      return (await response.json()) as TablePage<T>;
+    },
+  };
+}
@@ -0,0 +1,8 @@
+export { default, DataTableView } from "./DataTable";
+export type { DataTableProps } from "./DataTable";
+export { useDataTable } from "./useDataTable";
+export type { DataTableState, UseDataTableOptions } from "./useDataTable";
+export * from "./sorting";
+export * from "./types";
+export { createRemoteDataSource } from "./dataSource";
+export type { DataSource } from "./dataSource";
@@ -0,0 +1,188 @@
+import type { ColumnType, ColumnValueDef, SortRule } from "./types";
+
+/**
+ * Reads the raw value of a column from a row.
+ */
+export function getColumnValue<T>(column: ColumnValueDef<T>, row: T): unknown {
+  return typeof column.accessor === "function"
+    ? column.accessor(row)
+    : row[column.accessor];
+}
+
+/**
+ * Plain-text value of a cell, as shown to the user and matched by search.
+ */
+export function formatColumnValue<T>(
+  column: ColumnValueDef<T>,
+  row: T
+): string {
+  const value = getColumnValue(column, row);
+  if (column.format) return column.format(value, row);
+  if (value === null || value === undefined) return "";
+  return String(value);
+}
+
+/**
+ * Parses numbers that may be stored as display strings, e.g. "$89,500" or "-12.5%".
+ */
+export function parseNumeric(value: unknown): number {
+  if (typeof value === "number") return value;
+  if (typeof value !== "string") return Number.NaN;
+  const cleaned = value.replace(/[^0-9.\-]/g, "");
+  return cleaned === "" ? Number.NaN : Number.parseFloat(cleaned);
+}
+
+/**
+ * Parses dates stored as Date objects, timestamps or strings like "25 Apr, 2027".
+ */
+export function parseDate(value: unknown): number {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === "number") return value;
+  if (typeof value !== "string") return Number.NaN;
+  return Date.parse(value);
+}
+
+// Unparseable values always sort after valid ones, regardless of direction
+function compareNumbers(a: number, b: number): number {
+  const aInvalid = Number.isNaN(a);
+  const bInvalid = Number.isNaN(b);
+  if (aInvalid || bInvalid)
+    return aInvalid === bInvalid ? 0 : aInvalid ? 1 : -1;
+  return a - b;
+}
+
+export function compareValues(
+  a: unknown,
+  b: unknown,
+  type: ColumnType = "string"
+): number {
+  switch (type) {
+    case "number":
+    case "currency":
+      return compareNumbers(parseNumeric(a), parseNumeric(b));
+    case "date":
+      return compareNumbers(parseDate(a), parseDate(b));
+    default:
+      return String(a ?? "").localeCompare(String(b ?? ""), undefined, {
+        sensitivity: "base",
+        numeric: true,
+      });
+  }
+}
+
+/**
+ * Keeps rows where any searchable column contains the search term.
+ */
+export function filterRows<T>(
+  rows: T[],
+  columns: ColumnValueDef<T>[],
+  searchTerm: string
+): T[] {
+  const term = searchTerm.trim().toLowerCase();
+  if (!term) return rows;
+  const searchable = columns.filter((column) => column.searchable);
+  return rows.filter((row) =>
+    searchable.some((column) =>
+      formatColumnValue(column, row).toLowerCase().includes(term)
+    )
+  );
+}
+
+/**
+ * Keeps rows whose formatted column value equals the filter value for every
+ * non-empty filter. Filters on unknown columns are ignored.
+ */
+export function applyFilters<T>(
+  rows: T[],
+  columns: ColumnValueDef<T>[],
+  filters: Record<string, string>
+): T[] {
+  const active = Object.entries(filters)
+    .filter(([, value]) => value !== "")
+    .map(([columnId, value]) => ({
+      column: columns.find((column) => column.id === columnId),
+      value: value.toLowerCase(),
+    }))
+    .filter(
+      (entry): entry is { column: ColumnValueDef<T>; value: string } =>
+        entry.column !== undefined
+    );
+  if (active.length === 0) return rows;
+  return rows.filter((row) =>
+    active.every(
+      ({ column, value }) =>
+        formatColumnValue(column, row).toLowerCase() === value
+    )
+  );
+}
+
+/**
+ * Sorts rows by each rule in order, later rules break ties of earlier ones.
+ * Returns a new array and keeps the original order for fully tied rows.
+ */
+export function sortRows<T>(
+  rows: T[],
+  columns: ColumnValueDef<T>[],
+  rules: SortRule[]
+): T[] {
+  const resolved = rules
+    .map((rule) => ({
+      column: columns.find((column) => column.id === rule.columnId),
+      factor: rule.direction === "asc" ? 1 : -1,
+    }))
+    .filter(
+      (entry): entry is { column: ColumnValueDef<T>; factor: number } =>
+        entry.column !== undefined
+    );
+  if (resolved.length === 0) return [...rows];
+
+  return rows
+    .map((row, index) => ({ row, index }))
+    .sort((a, b) => {
+      for (const { column, factor } of resolved) {
+        const result = column.comparator
+          ? column.comparator(a.row, b.row)
+          : compareValues(
+              getColumnValue(column, a.row),
+              getColumnValue(column, b.row),
+              column.type
+            );
+        if (result !== 0) return result * factor;
+      }
+      return a.index - b.index;
+    })
+    .map(({ row }) => row);
+}
+
+/**
+ * Applies a header click to the current sort rules. A plain click sorts by
+ * that column alone; with `multi` the column is added to (or toggled within)
+ * the existing rules. A third click on a descending column removes it.
+ */
+export function toggleSortRule(
+  rules: SortRule[],
+  columnId: string,
+  multi: boolean
+): SortRule[] {
+  const existing = rules.find((rule) => rule.columnId === columnId);
+
+  if (!multi) {
+    if (existing && rules.length === 1) {
+      return [
+        {
+          columnId,
+          direction: existing.direction === "asc" ? "desc" : "asc",
+        },
+      ];
+    }
+    return [{ columnId, direction: "asc" }];
+  }
+
+  if (!existing) return [...rules, { columnId, direction: "asc" }];
+  if (existing.direction === "asc") {
+    return rules.map((rule) =>
+      rule.columnId === columnId ? { ...rule, direction: "desc" } : rule
+    );
+  }
+  return rules.filter((rule) => rule.columnId !== columnId);
+}
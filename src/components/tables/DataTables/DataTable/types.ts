@@ -0,0 +1,42 @@
+import type { ReactNode } from "react";
+
+export type SortDirection = "asc" | "desc";
+
+// How raw cell values are compared when a column is sorted
+export type ColumnType = "string" | "number" | "currency" | "date";
+
+export interface SortRule {
+  columnId: string;
+  direction: SortDirection;
+}
+
+export interface ColumnDef<T> {
+  id: string; // Unique column id, also used as the sort key
+  header: ReactNode; // Header label
+  accessor: keyof T | ((row: T) => unknown); // Raw value used for sorting and search
+  type?: ColumnType; // Defaults to "string"
+  comparator?: (a: T, b: T) => number; // Overrides the type-based comparison
+  format?: (value: unknown, row: T) => string; // Plain-text rendering of the value
+  cell?: (row: T) => ReactNode; // Custom cell rendering, falls back to format
+  searchable?: boolean; // Include this column in the search term match
+  sortable?: boolean; // Defaults to true
+  hideable?: boolean; // Can be toggled from the column menu, defaults to true
+  defaultHidden?: boolean; // Hidden until the user enables it
+  headerClassName?: string;
+  cellClassName?: string;
+}
+
+// The part of a column definition needed to search, filter and sort rows,
+// shared with route handlers that run the same query on the server
+export type ColumnValueDef<T> = Pick<
+  ColumnDef<T>,
+  "id" | "accessor" | "type" | "comparator" | "format" | "searchable"
+>;
+
+export interface PaginationRenderProps {
+  currentPage: number;
+  totalPages: number;
+  totalItems: number;
+  pageSize: number;
+  onPageChange: (page: number) => void;
+}
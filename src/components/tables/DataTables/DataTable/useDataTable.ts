@@ -0,0 +1,261 @@
+"use client";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { MAX_PAGE_SIZE, type TablePage } from "@/lib/table-query";
+import type { DataSource } from "./dataSource";
+import { applyFilters, filterRows, sortRows, toggleSortRule } from "./sorting";
+import type { ColumnDef, SortRule } from "./types";
+
+export interface UseDataTableOptions<T> {
+  columns: ColumnDef<T>[];
+  getRowId: (row: T) => string | number;
+  data?: T[]; // Rows filtered, sorted and paged in the browser
+  dataSource?: DataSource<T>; // Rows queried page by page from the server
+  initialSort?: SortRule[];
+  initialPageSize?: number;
+  initialFilters?: Record<string, string>;
+}
+
+export type DataTableStatus = "loading" | "error" | "success";
+
+// Wait for typing to settle before sending a search to the server
+const REMOTE_SEARCH_DELAY = 300;
+
+export function useDataTable<T>({
+  columns,
+  getRowId,
+  data,
+  dataSource,
+  initialSort = [],
+  initialPageSize = 10,
+  initialFilters = {},
+}: UseDataTableOptions<T>) {
+  const [searchTerm, setSearchTermState] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [sortRules, setSortRules] = useState<SortRule[]>(initialSort);
+  const [filters, setFilters] =
+    useState<Record<string, string>>(initialFilters);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [pageSize, setPageSizeState] = useState(initialPageSize);
+  const [hiddenColumnIds, setHiddenColumnIds] = useState<string[]>(() =>
+    columns.filter((column) => column.defaultHidden).map((column) => column.id)
+  );
+  const [selectedIds, setSelectedIds] = useState<(string | number)[]>([]);
+  const [remotePage, setRemotePage] = useState<TablePage<T> | null>(null);
+  const [status, setStatus] = useState<DataTableStatus>(
+    dataSource ? "loading" : "success"
+  );
+  const [error, setError] = useState<Error | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+  // Rows seen on any fetched page, so a selection can span pages in remote mode
+  const seenRows = useRef(new Map<string | number, T>());
+
+  const visibleColumns = useMemo(
+    () => columns.filter((column) => !hiddenColumnIds.includes(column.id)),
+    [columns, hiddenColumnIds]
+  );
+
+  useEffect(() => {
+    if (!dataSource) return;
+    const timer = setTimeout(
+      () => setDebouncedSearch(searchTerm),
+      REMOTE_SEARCH_DELAY
+    );
+    return () => clearTimeout(timer);
+  }, [dataSource, searchTerm]);
+
+  useEffect(() => {
+    if (!dataSource) return;
+    const controller = new AbortController();
+    setStatus("loading");
+    dataSource
+      .fetchPage(
+        {
+          page: currentPage,
+          pageSize,
+          search: debouncedSearch,
+          sort: sortRules,
+          filters,
+        },
+        controller.signal
+      )
+      .then((result) => {
+        result.rows.forEach((row) => seenRows.current.set(getRowId(row), row));
+        setRemotePage(result);
+        setError(null);
+        setStatus("success");
+      })
+      .catch((err: unknown) => {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err : new Error(String(err)));
+        setStatus("error");
+      });
+    return () => controller.abort();
+  }, [
+    dataSource,
+    getRowId,
+    currentPage,
+    pageSize,
+    debouncedSearch,
+    sortRules,
+    filters,
+    reloadCount,
+  ]);
+
+  // In remote mode this only holds the page returned by the server
+  const rows = useMemo(() => {
+    if (dataSource) return remotePage?.rows ?? [];
+    return sortRows(
+      applyFilters(
+        filterRows(data ?? [], columns, searchTerm),
+        columns,
+        filters
+      ),
+      columns,
+      sortRules
+    );
+  }, [dataSource, remotePage, data, columns, searchTerm, filters, sortRules]);
+
+  const totalItems = dataSource ? remotePage?.total ?? 0 : rows.length;
+  const totalPages = Math.max(1, Math.ceil(totalItems / pageSize));
+  const page = dataSource
+    ? remotePage?.page ?? currentPage
+    : Math.min(currentPage, totalPages);
+  const startIndex = (page - 1) * pageSize;
+  const endIndex = Math.min(startIndex + pageSize, totalItems);
+  const pageRows = useMemo(
+    () => (dataSource ? rows : rows.slice(startIndex, endIndex)),
+    [dataSource, rows, startIndex, endIndex]
+  );
+
+  const setSearchTerm = useCallback((term: string) => {
+    setSearchTermState(term);
+    setCurrentPage(1);
+  }, []);
+
+  const setPageSize = useCallback((size: number) => {
+    setPageSizeState(size);
+    setCurrentPage(1);
+  }, []);
+
+  const setFilter = useCallback((columnId: string, value: string) => {
+    setFilters((prev) => ({ ...prev, [columnId]: value }));
+    setCurrentPage(1);
+  }, []);
+
+  const goToPage = useCallback(
+    (target: number) => {
+      if (target >= 1 && target <= totalPages) setCurrentPage(target);
+    },
+    [totalPages]
+  );
+
+  const toggleSort = useCallback((columnId: string, multi = false) => {
+    setSortRules((prev) => toggleSortRule(prev, columnId, multi));
+  }, []);
+
+  const toggleColumn = useCallback((columnId: string) => {
+    setHiddenColumnIds((prev) =>
+      prev.includes(columnId)
+        ? prev.filter((id) => id !== columnId)
+        : [...prev, columnId]
+    );
+  }, []);
+
+  const reload = useCallback(() => setReloadCount((count) => count + 1), []);
+
+  const isSelected = useCallback(
+    (row: T) => selectedIds.includes(getRowId(row)),
+    [selectedIds, getRowId]
+  );
+
+  const toggleRow = useCallback(
+    (row: T) => {
+      const id = getRowId(row);
+      setSelectedIds((prev) =>
+        prev.includes(id) ? prev.filter((i) => i !== id) : [...prev, id]
+      );
+    },
+    [getRowId]
+  );
+
+  const allPageRowsSelected =
+    pageRows.length > 0 &&
+    pageRows.every((row) => selectedIds.includes(getRowId(row)));
+
+  const selectedRows = useMemo(() => {
+    if (dataSource) {
+      return selectedIds
+        .map((id) => seenRows.current.get(id))
+        .filter((row): row is T => row !== undefined);
+    }
+    return (data ?? []).filter((row) => selectedIds.includes(getRowId(row)));
+    // remotePage is listed so the lookup reruns after each fetch
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [dataSource, data, selectedIds, getRowId, remotePage]);
+
+  /**
+   * Every row matching the current search, filters and sort, across all
+   * pages. Remote sources are paged through at the maximum page size.
+   */
+  const fetchAllRows = useCallback(async (): Promise<T[]> => {
+    if (!dataSource) return rows;
+    const query = {
+      pageSize: MAX_PAGE_SIZE,
+      search: debouncedSearch,
+      sort: sortRules,
+      filters,
+    };
+    const first = await dataSource.fetchPage({ ...query, page: 1 });
+    const all = [...first.rows];
+    const pageCount = Math.ceil(first.total / MAX_PAGE_SIZE);
+    for (let next = 2; next <= pageCount; next++) {
+      const result = await dataSource.fetchPage({ ...query, page: next });
+      all.push(...result.rows);
+    }
+    return all;
+  }, [dataSource, rows, debouncedSearch, sortRules, filters]);
+
+  const toggleAllPageRows = useCallback(() => {
+    const pageIds = pageRows.map(getRowId);
+    setSelectedIds((prev) =>
+      allPageRowsSelected
+        ? prev.filter((id) => !pageIds.includes(id))
+        : Array.from(new Set([...prev, ...pageIds]))
+    );
+  }, [pageRows, getRowId, allPageRowsSelected]);
+
+  return {
+    rows,
+    pageRows,
+    visibleColumns,
+    hiddenColumnIds,
+    searchTerm,
+    sortRules,
+    filters,
+    currentPage: page,
+    pageSize,
+    totalItems,
+    totalPages,
+    startIndex,
+    endIndex,
+    status,
+    error,
+    selectedIds,
+    selectedRows,
+    allPageRowsSelected,
+    fetchAllRows,
+    setSearchTerm,
+    setPageSize,
+    setFilter,
+    goToPage,
+    toggleSort,
+    toggleColumn,
+    reload,
+    isSelected,
+    toggleRow,
+    toggleAllPageRows,
+    setSelectedIds,
+  };
+}
+
+export type DataTableState<T> = ReturnType<typeof useDataTable<T>>;
@@ -1,20 +1,33 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 
 interface PaginationProps {
-  totalPages: number;
+  totalPages?: number;
+  totalItems?: number; // With pageSize, derives totalPages from a server-side count
+  pageSize?: number;
   initialPage?: number;
   onPageChange?: (page: number) => void;
 }
 
 export default function PaginationWithButton({
-  totalPages,
+  totalPages: totalPagesProp = 1,
+  totalItems,
+  pageSize,
   initialPage = 1,
   onPageChange,
 }: PaginationProps) {
+  const totalPages =
+    totalItems !== undefined && pageSize
+      ? Math.max(1, Math.ceil(totalItems / pageSize))
+      : Math.max(1, totalPagesProp);
   const [currentPage, setCurrentPage] = useState(initialPage);
 
+  // Follow page resets made by the parent, e.g. after a new search
+  useEffect(() => {
+    setCurrentPage(initialPage);
+  }, [initialPage]);
+
   const handlePageChange = (page: number) => {
     if (page < 1 || page > totalPages) return;
     setCurrentPage(page);
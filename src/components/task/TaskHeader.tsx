@@ -1,5 +1,6 @@
 "use client";
 import React, { useState } from "react";
+import { ALL_TASKS, useTaskBoard } from "@/context/TaskBoardContext";
 import { Modal } from "../ui/modal";
 import { useModal } from "../../hooks/useModal";
 import Button from "../ui/button/Button";
@@ -9,16 +10,24 @@ import TextArea from "../form/input/TextArea";
 import Image from "next/image";
 
 export default function TaskHeader() {
-  const [selectedTaskGroup, setSelectedTaskGroup] = useState<string>("All");
+  const { columns, tasks, group: activeGroup, setGroup } = useTaskBoard();
   const { isOpen, openModal, closeModal } = useModal();
   const [message, setMessage] = useState("");
 
   const taskGroups = [
-    { name: "All Tasks", key: "All", count: 14 },
-    { name: "To do", key: "Todo", count: 3 },
-    { name: "In Progress", key: "InProgress", count: 4 },
-    { name: "Completed", key: "Completed", count: 4 },
+    { name: "All Tasks", key: ALL_TASKS, count: tasks.length },
+    ...columns.map((column) => ({
+      name: column.title,
+      key: column.id,
+      count: tasks.filter((task) => task.status === column.id).length,
+    })),
   ];
+  // A deleted column falls back to "All Tasks"
+  const selectedTaskGroup = taskGroups.some(
+    (group) => group.key === activeGroup
+  )
+    ? activeGroup
+    : ALL_TASKS;
 
   const handleMessageChange = (value: string) => {
     setMessage(value);
@@ -31,7 +40,7 @@ export default function TaskHeader() {
             {taskGroups.map((group) => (
               <button
                 key={group.key}
-                onClick={() => setSelectedTaskGroup(group.key)}
+                onClick={() => setGroup(group.key)}
                 className={`inline-flex items-center xl:justify-start justify-center gap-2 px-4 py-2 text-sm font-medium rounded-md group hover:text-gray-900 dark:hover:text-white ${
                   selectedTaskGroup === group.key
                     ? "text-gray-900 dark:text-white bg-white dark:bg-gray-800"
@@ -1,33 +1,58 @@
 "use client";
 import React, { useState, useRef } from "react";
 import { useDrop } from "react-dnd";
-import { Task } from "./types/types";
+import { Task, TaskColumn } from "../types";
 import TaskItem from "./TaskItem";
 import { Dropdown } from "@/components/ui/dropdown/Dropdown";
 import { HorizontaLDots } from "@/icons";
 import { DropdownItem } from "@/components/ui/dropdown/DropdownItem";
 
 interface ColumnProps {
-  title: string;
+  column: TaskColumn;
   tasks: Task[];
-  status: string;
+  canMoveLeft: boolean;
+  canMoveRight: boolean;
+  canDelete: boolean; // False for the last remaining column
+  readOnly?: boolean; // Hides the column menu and disables dragging
   moveTask: (dragIndex: number, hoverIndex: number, status: string) => void;
   changeTaskStatus: (taskId: string, newStatus: string) => void;
+  onOpenTask: (task: Task) => void;
+  onUpdate: (changes: Partial<Omit<TaskColumn, "id">>) => void;
+  onMove: (offset: -1 | 1) => void;
+  onDelete: () => void;
+  onClear: () => void;
 }
 
+const menuItemClassName =
+  "flex w-full font-normal text-left text-gray-500 rounded-lg hover:bg-gray-100 hover:text-gray-700 dark:text-gray-400 dark:hover:bg-white/5 dark:hover:text-gray-300";
+
+const inputClassName =
+  "h-9 w-full rounded-lg border border-gray-300 bg-transparent px-3 text-sm text-gray-800 focus:border-brand-300 focus:outline-hidden focus:ring-3 focus:ring-brand-500/10 dark:border-gray-700 dark:text-white/90";
+
 const Column: React.FC<ColumnProps> = ({
-  title,
+  column,
   tasks,
-  status,
+  canMoveLeft,
+  canMoveRight,
+  canDelete,
+  readOnly = false,
   moveTask,
   changeTaskStatus,
+  onOpenTask,
+  onUpdate,
+  onMove,
+  onDelete,
+  onClear,
 }) => {
   const [isOpen, setIsOpen] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [title, setTitle] = useState(column.title);
+  const [wipLimit, setWipLimit] = useState(column.wipLimit?.toString() ?? "");
   const ref = useRef<HTMLDivElement>(null);
 
   const [{ isOver }, drop] = useDrop({
     accept: "task",
-    drop: () => ({ name: status }),
+    drop: () => ({ name: column.id }),
     collect: (monitor) => ({
       isOver: monitor.isOver(),
     }),
@@ -42,70 +67,176 @@ const Column: React.FC<ColumnProps> = ({
   function closeDropdown() {
     setIsOpen(false);
   }
+
+  function startEditing() {
+    setTitle(column.title);
+    setWipLimit(column.wipLimit?.toString() ?? "");
+    setIsEditing(true);
+  }
+
+  function handleSubmit(event: React.FormEvent) {
+    event.preventDefault();
+    if (!title.trim()) return;
+    const limit = Number.parseInt(wipLimit, 10);
+    onUpdate({
+      title: title.trim(),
+      wipLimit: Number.isInteger(limit) && limit > 0 ? limit : null,
+    });
+    setIsEditing(false);
+  }
+
+  const overLimit = column.wipLimit !== null && tasks.length > column.wipLimit;
+  const atLimit = column.wipLimit !== null && tasks.length === column.wipLimit;
+
   return (
     <div
       ref={ref}
-      className={`flex flex-col gap-5 p-4 swim-lane xl:p-6 ${
-        isOver ? "bg-blue-50 dark:bg-blue-500/10" : ""
+      className={`flex min-w-[280px] flex-1 flex-col gap-5 p-4 swim-lane xl:p-6 ${
+        isOver
+          ? "bg-blue-50 dark:bg-blue-500/10"
+          : overLimit
+          ? "bg-error-50/50 dark:bg-error-500/5"
+          : ""
       }`}
     >
-      <div className="flex items-center justify-between mb-1">
-        <h3 className="flex items-center gap-3 text-base font-medium text-gray-800 dark:text-white/90">
-          {title}
-          <span
-            className={`
-    inline-flex rounded-full px-2 py-0.5 text-theme-xs font-medium 
-    ${
-      status === "todo"
-        ? "bg-gray-100 text-gray-700 dark:bg-white/[0.03] dark:text-white/80 "
-        : status === "inProgress"
-        ? "text-warning-700 bg-warning-50 dark:bg-warning-500/15 dark:text-orange-400"
-        : status === "completed"
-        ? "bg-success-50 text-success-700 dark:bg-success-500/15 dark:text-success-500"
-        : ""
-    }
-  `}
-          >
-            {tasks.length}
-          </span>
-        </h3>
-        <div className="relative">
-          <button onClick={toggleDropdown} className="dropdown-toggle">
-            <HorizontaLDots className="text-gray-800 hover:text-gray-700 dark:hover:text-gray-300" />
-          </button>
-          <Dropdown
-            isOpen={isOpen}
-            onClose={closeDropdown}
-            className="absolute right-0 top-full z-40 w-[140px] space-y-1 rounded-2xl border border-gray-200 bg-white p-2 shadow-theme-md dark:border-gray-800 dark:bg-gray-dark"
-          >
-            <DropdownItem
-              onItemClick={closeDropdown}
-              className="flex w-full font-normal text-left text-gray-500 rounded-lg hover:bg-gray-100 hover:text-gray-700 dark:text-gray-400 dark:hover:bg-white/5 dark:hover:text-gray-300"
+      {isEditing ? (
+        <form onSubmit={handleSubmit} className="mb-1 space-y-2">
+          <input
+            autoFocus
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="Column name"
+            className={inputClassName}
+          />
+          <input
+            type="number"
+            min="1"
+            value={wipLimit}
+            onChange={(e) => setWipLimit(e.target.value)}
+            placeholder="WIP limit (empty for none)"
+            className={inputClassName}
+          />
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={!title.trim()}
+              className="rounded-lg bg-brand-500 px-3 py-1.5 text-theme-xs font-medium text-white hover:bg-brand-600 disabled:opacity-50"
             >
-              Edit
-            </DropdownItem>
-            <DropdownItem
-              onItemClick={closeDropdown}
-              className="flex w-full font-normal text-left text-gray-500 rounded-lg hover:bg-gray-100 hover:text-gray-700 dark:text-gray-400 dark:hover:bg-white/5 dark:hover:text-gray-300"
+              Save
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsEditing(false)}
+              className="rounded-lg px-3 py-1.5 text-theme-xs font-medium text-gray-500 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-white/5"
             >
-              Delete
-            </DropdownItem>
-            <DropdownItem
-              onItemClick={closeDropdown}
-              className="flex w-full font-normal text-left text-gray-500 rounded-lg hover:bg-gray-100 hover:text-gray-700 dark:text-gray-400 dark:hover:bg-white/5 dark:hover:text-gray-300"
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : (
+        <div className="flex items-center justify-between mb-1">
+          <h3 className="flex items-center gap-3 text-base font-medium text-gray-800 dark:text-white/90">
+            {column.title}
+            <span
+              title={
+                column.wipLimit !== null
+                  ? `Work in progress limit: ${column.wipLimit}`
+                  : undefined
+              }
+              className={`inline-flex rounded-full px-2 py-0.5 text-theme-xs font-medium ${
+                overLimit
+                  ? "bg-error-50 text-error-700 dark:bg-error-500/15 dark:text-error-400"
+                  : atLimit
+                  ? "text-warning-700 bg-warning-50 dark:bg-warning-500/15 dark:text-orange-400"
+                  : "bg-gray-100 text-gray-700 dark:bg-white/[0.03] dark:text-white/80"
+              }`}
             >
-              Clear All
-            </DropdownItem>
-          </Dropdown>
+              {column.wipLimit !== null
+                ? `${tasks.length}/${column.wipLimit}`
+                : tasks.length}
+            </span>
+          </h3>
+          {!readOnly && (
+            <div className="relative">
+              <button onClick={toggleDropdown} className="dropdown-toggle">
+                <HorizontaLDots className="text-gray-800 hover:text-gray-700 dark:hover:text-gray-300" />
+              </button>
+              <Dropdown
+                isOpen={isOpen}
+                onClose={closeDropdown}
+                className="absolute right-0 top-full z-40 w-[160px] space-y-1 rounded-2xl border border-gray-200 bg-white p-2 shadow-theme-md dark:border-gray-800 dark:bg-gray-dark"
+              >
+                <DropdownItem
+                  onItemClick={() => {
+                    closeDropdown();
+                    startEditing();
+                  }}
+                  className={menuItemClassName}
+                >
+                  Edit
+                </DropdownItem>
+                {canMoveLeft && (
+                  <DropdownItem
+                    onItemClick={() => {
+                      closeDropdown();
+                      onMove(-1);
+                    }}
+                    className={menuItemClassName}
+                  >
+                    Move Left
+                  </DropdownItem>
+                )}
+                {canMoveRight && (
+                  <DropdownItem
+                    onItemClick={() => {
+                      closeDropdown();
+                      onMove(1);
+                    }}
+                    className={menuItemClassName}
+                  >
+                    Move Right
+                  </DropdownItem>
+                )}
+                {canDelete && (
+                  <DropdownItem
+                    onItemClick={() => {
+                      closeDropdown();
+                      onDelete();
+                    }}
+                    className={menuItemClassName}
+                  >
+                    Delete
+                  </DropdownItem>
+                )}
+                <DropdownItem
+                  onItemClick={() => {
+                    closeDropdown();
+                    onClear();
+                  }}
+                  className={menuItemClassName}
+                >
+                  Clear All
+                </DropdownItem>
+              </Dropdown>
+            </div>
+          )}
         </div>
-      </div>
+      )}
+      {overLimit && (
+        <p className="-mt-3 text-theme-xs text-error-500">
+          Over the WIP limit by {tasks.length - (column.wipLimit ?? 0)}. Finish
+          work here before pulling more in.
+        </p>
+      )}
       {tasks.map((task, index) => (
         <TaskItem
           key={task.id}
           task={task}
           index={index}
+          canDrag={!readOnly}
           moveTask={moveTask}
           changeTaskStatus={changeTaskStatus}
+          onOpen={onOpenTask}
         />
       ))}
     </div>
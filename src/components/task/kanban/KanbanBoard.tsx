@@ -1,170 +1,109 @@
 "use client";
-import React, { useState, useCallback } from "react";
+import React, { useState } from "react";
 import { DndProvider } from "react-dnd";
 import { HTML5Backend } from "react-dnd-html5-backend";
 import Column from "./Column";
-import { Task } from "./types/types";
-
-const initialTasks: Task[] = [
-  {
-    id: "1",
-    title: "Finish user onboarding",
-    dueDate: "Tomorrow",
-    comments: 1,
-    assignee: "/images/user/user-01.jpg",
-    status: "todo",
-    category: { name: "Development", color: "orange" },
-  },
-  {
-    id: "2",
-    title: "Solve the dribble prioritization issue with the team",
-    dueDate: "Jan 08, 2027",
-    comments: 1,
-    assignee: "/images/user/user-01.jpg",
-    status: "todo",
-    category: { name: "Marketing", color: "brand" },
-  },
-  {
-    id: "3",
-    title: "Change license and remove products",
-    dueDate: "Jan 8, 2027",
-    assignee: "/images/user/user-07.jpg",
-    status: "todo",
-    category: { name: "Dev", color: "default" },
-  },
-  {
-    id: "4",
-    title: "Work in progress(WIP) Dashboard",
-    dueDate: "Today",
-    comments: 1,
-    assignee: "/images/user/user-09.jpg",
-    status: "inProgress",
-    category: { name: "Development", color: "default" },
-  },
-  {
-    id: "5",
-    title: "Kanban  manager",
-    dueDate: "Jan 08, 2027",
-    comments: 8,
-    assignee: "/images/user/user-10.jpg",
-    status: "inProgress",
-    category: { name: "Template", color: "success" },
-    links: 2,
-  },
-  {
-    id: "6",
-    title: "Product Update - Q4 (2024)",
-    projectDesc:
-      "Dedicated from a category of users that will perform actions.",
-    projectImg: "/images/task/task.png",
-    dueDate: "Today",
-    comments: 1,
-    assignee: "/images/user/user-09.jpg",
-    status: "inProgress",
-    category: { name: "Development", color: "default" },
-  },
-  {
-    id: "7",
-    title: "Make figbot send comment when ticket is auto-moved back to inbox",
-    dueDate: "Mar 08, 2027",
-    comments: 1,
-    assignee: "/images/user/user-12.jpg",
-    status: "inProgress",
-    category: { name: "Dev", color: "default" },
-  },
-  {
-    id: "8",
-    title: "Manage internal feedback",
-    dueDate: "Tomorrow",
-    comments: 1,
-    assignee: "/images/user/user-13.jpg",
-    status: "completed",
-    category: { name: "Dev", color: "default" },
-  },
-  {
-    id: "9",
-    title: "Do some projects on React Native with Flutter",
-    dueDate: "Jan 8, 2027",
-    comments: 1,
-    assignee: "/images/user/user-14.jpg",
-    status: "completed",
-    category: { name: "Development", color: "orange" },
-  },
-  {
-    id: "10",
-    title: "Design marketing assets",
-    dueDate: "Jan 08, 2027",
-    comments: 2,
-    assignee: "/images/user/user-10.jpg",
-    status: "completed",
-    category: { name: "Marketing", color: "brand" },
-    links: 1,
-  },
-  {
-    id: "11",
-    title: "Kanban flow manager",
-    dueDate: "Jan 08, 2027",
-    comments: 8,
-    assignee: "/images/user/user-10.jpg",
-    status: "completed",
-    category: { name: "Template", color: "success" },
-    links: 2,
-  },
-  // Add more initial tasks here...
-];
+import TaskDetailDrawer from "./TaskDetailDrawer";
+import { usePermission } from "@/context/SessionContext";
+import { useTaskBoard } from "@/context/TaskBoardContext";
 
 const KanbanBoard: React.FC = () => {
-  const [tasks, setTasks] = useState<Task[]>(initialTasks);
+  const board = useTaskBoard();
+  const canEdit = usePermission("tasks:edit");
+  const [openTaskId, setOpenTaskId] = useState<string | null>(null);
+  const [newColumnTitle, setNewColumnTitle] = useState("");
 
-  const moveTask = useCallback(
-    (dragIndex: number, hoverIndex: number, status: string) => {
-      setTasks((prevTasks) => {
-        const statusTasks = prevTasks.filter((task) => task.status === status);
-        const otherTasks = prevTasks.filter((task) => task.status !== status);
+  const openTask = board.tasks.find((task) => task.id === openTaskId) ?? null;
 
-        const draggedTask = statusTasks[dragIndex];
-        statusTasks.splice(dragIndex, 1);
-        statusTasks.splice(hoverIndex, 0, draggedTask);
+  const handleAddColumn = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!newColumnTitle.trim()) return;
+    board.addColumn(newColumnTitle.trim());
+    setNewColumnTitle("");
+  };
 
-        return [...otherTasks, ...statusTasks];
-      });
-    },
-    []
-  );
+  if (board.status === "loading") {
+    return (
+      <p className="border-t border-gray-200 px-6 py-10 text-center text-sm text-gray-500 dark:border-white/[0.05] dark:text-gray-400">
+        Loading board...
+      </p>
+    );
+  }
 
-  const changeTaskStatus = useCallback((taskId: string, newStatus: string) => {
-    setTasks((prevTasks) =>
-      prevTasks.map((task) =>
-        task.id === taskId ? { ...task, status: newStatus } : task
-      )
+  if (board.status === "error") {
+    return (
+      <div className="border-t border-gray-200 px-6 py-10 text-center text-sm text-gray-500 dark:border-white/[0.05] dark:text-gray-400">
+        <p className="mb-3">Could not load the board: {board.error}</p>
+        <button
+          onClick={board.reload}
+          className="font-medium text-brand-500 hover:text-brand-600"
+        >
+          Try again
+        </button>
+      </div>
     );
-  }, []);
+  }
 
   return (
     <DndProvider backend={HTML5Backend}>
-      <div className="grid grid-cols-1 border-t border-gray-200 divide-x divide-gray-200 dark:divide-white/[0.05] mt-7 dark:border-white/[0.05] sm:mt-0 sm:grid-cols-2 xl:grid-cols-3">
-        <Column
-          title="To Do"
-          tasks={tasks.filter((task) => task.status === "todo")}
-          status="todo"
-          moveTask={moveTask}
-          changeTaskStatus={changeTaskStatus}
-        />
-        <Column
-          title="In Progress"
-          tasks={tasks.filter((task) => task.status === "inProgress")}
-          status="inProgress"
-          moveTask={moveTask}
-          changeTaskStatus={changeTaskStatus}
-        />
-        <Column
-          title="Completed"
-          tasks={tasks.filter((task) => task.status === "completed")}
-          status="completed"
-          moveTask={moveTask}
-          changeTaskStatus={changeTaskStatus}
-        />
+      {(board.error || board.isSaving) && (
+        <p
+          className={`border-t border-gray-200 px-6 py-2 text-theme-xs dark:border-white/[0.05] ${
+            board.error ? "text-error-500" : "text-gray-500 dark:text-gray-400"
+          }`}
+        >
+          {board.error ?? "Saving..."}
+        </p>
+      )}
+      <div className="custom-scrollbar flex flex-col border-t border-gray-200 divide-y divide-gray-200 overflow-x-auto dark:divide-white/[0.05] mt-7 dark:border-white/[0.05] sm:mt-0 sm:flex-row sm:divide-x sm:divide-y-0">
+        {board.visibleColumns.map((column) => (
+          <Column
+            key={column.id}
+            column={column}
+            tasks={board.tasks.filter((task) => task.status === column.id)}
+            canMoveLeft={board.columns[0] !== column}
+            canMoveRight={board.columns[board.columns.length - 1] !== column}
+            canDelete={board.columns.length > 1}
+            readOnly={!canEdit}
+            moveTask={board.moveTask}
+            changeTaskStatus={board.changeTaskStatus}
+            onOpenTask={(task) => setOpenTaskId(task.id)}
+            onUpdate={(changes) => board.updateColumn(column.id, changes)}
+            onMove={(offset) => board.moveColumn(column.id, offset)}
+            onDelete={() => board.deleteColumn(column.id)}
+            onClear={() => board.clearColumn(column.id)}
+          />
+        ))}
+        {canEdit && (
+          <form
+            onSubmit={handleAddColumn}
+            className="flex min-w-[240px] flex-col gap-3 p-4 xl:p-6"
+          >
+            <input
+              value={newColumnTitle}
+              onChange={(e) => setNewColumnTitle(e.target.value)}
+              placeholder="New column name"
+              className="h-11 w-full rounded-lg border border-gray-300 bg-transparent px-4 text-sm text-gray-800 shadow-theme-xs focus:border-brand-300 focus:outline-hidden focus:ring-3 focus:ring-brand-500/10 dark:border-gray-700 dark:text-white/90"
+            />
+            <button
+              type="submit"
+              disabled={!newColumnTitle.trim()}
+              className="rounded-lg border border-dashed border-gray-300 px-4 py-2.5 text-sm font-medium text-gray-500 hover:border-brand-300 hover:text-brand-500 disabled:opacity-50 dark:border-gray-700 dark:text-gray-400"
+            >
+              + Add Column
+            </button>
+          </form>
+        )}
       </div>
+      <TaskDetailDrawer
+        key={openTaskId ?? "closed"}
+        task={openTask}
+        columns={board.columns}
+        readOnly={!canEdit}
+        onClose={() => setOpenTaskId(null)}
+        onSave={board.updateTask}
+        onDelete={board.deleteTask}
+      />
     </DndProvider>
   );
 };
@@ -0,0 +1,232 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import Image from "next/image";
+import Label from "@/components/form/Label";
+import Input from "@/components/form/input/InputField";
+import TextArea from "@/components/form/input/TextArea";
+import Button from "@/components/ui/button/Button";
+import { taskAssignees, taskCategoryColors } from "@/lib/mock-data/tasks";
+import { Task, TaskColumn } from "../types";
+
+// Render with `key={task.id}` so the form resets when another task opens
+interface TaskDetailDrawerProps {
+  task: Task | null; // Task being edited; the drawer is closed when null
+  columns: TaskColumn[];
+  readOnly?: boolean;
+  onClose: () => void;
+  onSave: (taskId: string, changes: Partial<Omit<Task, "id">>) => void;
+  onDelete: (taskId: string) => void;
+}
+
+const selectClassName =
+  "dark:bg-dark-900 h-11 w-full appearance-none rounded-lg border border-gray-300 bg-transparent bg-none px-4 py-2.5 pr-11 text-sm text-gray-800 shadow-theme-xs focus:border-brand-300 focus:outline-hidden focus:ring-3 focus:ring-brand-500/10 disabled:opacity-60 dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:focus:border-brand-800";
+
+const TaskDetailDrawer: React.FC<TaskDetailDrawerProps> = ({
+  task,
+  columns,
+  readOnly = false,
+  onClose,
+  onSave,
+  onDelete,
+}) => {
+  const [draft, setDraft] = useState<Task | null>(task);
+
+  useEffect(() => {
+    if (!task) return;
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", handleEscape);
+    return () => document.removeEventListener("keydown", handleEscape);
+  }, [task, onClose]);
+
+  if (!task || !draft) return null;
+
+  const setField = <K extends keyof Task>(field: K, value: Task[K]) =>
+    setDraft((prev) => prev && { ...prev, [field]: value });
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!draft.title.trim()) return;
+    const { id, ...changes } = draft;
+    onSave(id, { ...changes, title: draft.title.trim() });
+    onClose();
+  };
+
+  const assignee = taskAssignees.find(
+    (member) => member.avatar === draft.assignee
+  );
+
+  return (
+    <div className="fixed inset-0 z-99999 flex justify-end">
+      <div
+        className="fixed inset-0 h-full w-full bg-gray-400/50 backdrop-blur-[2px]"
+        onClick={onClose}
+      ></div>
+      <form
+        onSubmit={handleSubmit}
+        className="relative flex h-full w-full max-w-md flex-col bg-white shadow-theme-lg dark:bg-gray-900"
+      >
+        <div className="flex items-center justify-between border-b border-gray-200 px-6 py-5 dark:border-gray-800">
+          <h4 className="text-lg font-semibold text-gray-800 dark:text-white/90">
+            Task details
+          </h4>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-sm text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300"
+          >
+            Close
+          </button>
+        </div>
+
+        <div className="custom-scrollbar flex-1 space-y-5 overflow-y-auto px-6 py-5">
+          <div>
+            <Label>Task Title</Label>
+            <Input
+              defaultValue={task.title}
+              disabled={readOnly}
+              error={!draft.title.trim()}
+              hint={!draft.title.trim() ? "A title is required" : undefined}
+              onChange={(e) => setField("title", e.target.value)}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 gap-5 sm:grid-cols-2">
+            <div>
+              <Label>Due Date</Label>
+              <Input
+                defaultValue={task.dueDate}
+                placeholder="e.g. Jan 08, 2027"
+                disabled={readOnly}
+                onChange={(e) => setField("dueDate", e.target.value)}
+              />
+            </div>
+            <div>
+              <Label>Status</Label>
+              <select
+                value={draft.status}
+                disabled={readOnly}
+                onChange={(e) => setField("status", e.target.value)}
+                className={selectClassName}
+              >
+                {columns.map((column) => (
+                  <option key={column.id} value={column.id}>
+                    {column.title}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <Label>Assignee</Label>
+            <div className="flex items-center gap-3">
+              {draft.assignee && (
+                <span className="h-10 w-10 shrink-0 overflow-hidden rounded-full">
+                  <Image
+                    width={40}
+                    height={40}
+                    src={draft.assignee}
+                    alt={assignee?.name ?? "Assignee"}
+                  />
+                </span>
+              )}
+              <select
+                value={draft.assignee}
+                disabled={readOnly}
+                onChange={(e) => setField("assignee", e.target.value)}
+                className={selectClassName}
+              >
+                {!assignee && (
+                  <option value={draft.assignee}>Unassigned</option>
+                )}
+                {taskAssignees.map((member) => (
+                  <option key={member.avatar} value={member.avatar}>
+                    {member.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 gap-5 sm:grid-cols-2">
+            <div>
+              <Label>Category</Label>
+              <Input
+                defaultValue={task.category.name}
+                disabled={readOnly}
+                onChange={(e) =>
+                  setField("category", {
+                    ...draft.category,
+                    name: e.target.value,
+                  })
+                }
+              />
+            </div>
+            <div>
+              <Label>Category Color</Label>
+              <select
+                value={draft.category.color}
+                disabled={readOnly}
+                onChange={(e) =>
+                  setField("category", {
+                    ...draft.category,
+                    color: e.target.value,
+                  })
+                }
+                className={`${selectClassName} capitalize`}
+              >
+                {taskCategoryColors.map((color) => (
+                  <option key={color} value={color}>
+                    {color}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <Label>Description</Label>
+            <TextArea
+              rows={6}
+              placeholder="Add more detail to this task"
+              value={draft.projectDesc ?? ""}
+              disabled={readOnly}
+              onChange={(value) => setField("projectDesc", value || undefined)}
+            />
+          </div>
+        </div>
+
+        {!readOnly && (
+          <div className="flex items-center justify-between gap-3 border-t border-gray-200 px-6 py-4 dark:border-gray-800">
+            <button
+              type="button"
+              onClick={() => {
+                onDelete(task.id);
+                onClose();
+              }}
+              className="text-sm font-medium text-error-500 hover:text-error-600"
+            >
+              Delete task
+            </button>
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="inline-flex items-center justify-center rounded-lg bg-white px-4 py-3 text-sm font-medium text-gray-700 ring-1 ring-gray-300 ring-inset hover:bg-gray-50 dark:bg-gray-800 dark:text-gray-400 dark:ring-gray-700 dark:hover:bg-white/[0.03]"
+              >
+                Cancel
+              </button>
+              <Button size="sm" disabled={!draft.title.trim()}>
+                Save Changes
+              </Button>
+            </div>
+          </div>
+        )}
+      </form>
+    </div>
+  );
+};
+
+export default TaskDetailDrawer;
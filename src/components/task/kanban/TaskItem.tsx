@@ -1,20 +1,26 @@
 import React, { useRef } from "react";
 import { useDrag, useDrop } from "react-dnd";
-import { Task, DropResult } from "./types/types";
+import { DropResult } from "./types/types";
+import { Task } from "../types";
+import { getCategoryStyles } from "../categoryStyles";
 import Image from "next/image";
 
 interface TaskItemProps {
   task: Task;
   index: number;
+  canDrag?: boolean;
   moveTask: (dragIndex: number, hoverIndex: number, status: string) => void;
   changeTaskStatus: (taskId: string, newStatus: string) => void;
+  onOpen: (task: Task) => void; // Opens the detail drawer
 }
 
 const TaskItem: React.FC<TaskItemProps> = ({
   task,
   index,
+  canDrag = true,
   moveTask,
   changeTaskStatus,
+  onOpen,
 }) => {
   const ref = useRef<HTMLDivElement>(null);
 
@@ -63,6 +69,7 @@ const TaskItem: React.FC<TaskItemProps> = ({
   >({
     type: "task", // Universal task type
     item: () => ({ ...task, index }),
+    canDrag,
     collect: (monitor) => ({
       isDragging: monitor.isDragging(),
     }),
@@ -80,7 +87,8 @@ const TaskItem: React.FC<TaskItemProps> = ({
     <div
       ref={ref}
       style={{ opacity }}
-      className="relative p-5 bg-white border border-gray-200 task rounded-xl shadow-theme-sm dark:border-gray-800 dark:bg-white/5"
+      onClick={() => onOpen(task)}
+      className="relative p-5 bg-white border border-gray-200 cursor-pointer task rounded-xl shadow-theme-sm dark:border-gray-800 dark:bg-white/5"
       data-handler-id={handlerId}
     >
       <div className="space-y-4">
@@ -171,28 +179,13 @@ const TaskItem: React.FC<TaskItemProps> = ({
           </span>
         </div>
       </div>
-      <div className="h-6 absolute top-5 right-5 top w-full max-w-6 overflow-hidden rounded-full border-[0.5px] border-gray-200 dark:border-gray-800">
-        <Image width={24} height={24} src={task.assignee} alt="user" />
-      </div>
+      {task.assignee && (
+        <div className="h-6 absolute top-5 right-5 top w-full max-w-6 overflow-hidden rounded-full border-[0.5px] border-gray-200 dark:border-gray-800">
+          <Image width={24} height={24} src={task.assignee} alt="user" />
+        </div>
+      )}
     </div>
   );
 };
 
-const getCategoryStyles = (color: string) => {
-  switch (color) {
-    case "error":
-      return "bg-error-50 text-error-700 dark:bg-error-500/15 dark:text-error-400";
-    case "success":
-      return "bg-success-50 text-success-700 dark:bg-success-500/15 dark:text-success-400";
-    case "brand":
-      return "bg-brand-50 text-brand-700 dark:bg-brand-500/15 dark:text-brand-400";
-    case "orange":
-      return "bg-orange-50 text-orange-700 dark:bg-orange-500/15 dark:text-orange-400";
-    case "purple":
-      return "bg-purple-50 text-purple-700 dark:bg-purple-500/15 dark:text-purple-400";
-    default:
-      return "bg-gray-100 text-gray-700 dark:bg-gray-500/15 dark:text-gray-400";
-  }
-};
-
 export default TaskItem;
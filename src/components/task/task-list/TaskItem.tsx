@@ -1,26 +1,26 @@
 import React from "react";
-import { Task } from "./types/Task";
+import { Task } from "../types";
+import { getCategoryStyles } from "../categoryStyles";
 import Image from "next/image";
 
-interface TaskItemProps extends Task {
+interface TaskItemProps {
+  task: Task;
+  readOnly: boolean; // Disables dragging and ticking the task off
   onDragStart: (e: React.DragEvent<HTMLDivElement>) => void;
+  onToggleDone: () => void;
 }
 
 const TaskItem: React.FC<TaskItemProps> = ({
-  id,
-  title,
-  isChecked,
-  dueDate,
-  commentCount,
-  category,
-  userAvatar,
+  task,
+  readOnly,
   onDragStart,
-  toggleChecked,
+  onToggleDone,
 }) => {
+  const { id, title, done, dueDate, comments, category, assignee } = task;
   return (
     <div
       id={`task-${id}`}
-      draggable="true"
+      draggable={!readOnly}
       onDragStart={onDragStart}
       className="p-5 mb-4 bg-white border border-gray-200 task rounded-xl shadow-theme-sm dark:border-gray-800 dark:bg-white/5"
     >
@@ -52,11 +52,12 @@ const TaskItem: React.FC<TaskItemProps> = ({
                 type="checkbox"
                 id={`taskCheckbox${id}`}
                 className="sr-only taskCheckbox"
-                checked={isChecked}
-                onChange={toggleChecked}
+                checked={done}
+                disabled={readOnly}
+                onChange={onToggleDone}
               />
               <div className="flex items-center justify-center w-full h-5 mr-3 border border-gray-300 rounded-md box max-w-5 dark:border-gray-700">
-                <span className={`opacity-${isChecked ? "100" : "0"}`}>
+                <span className={`opacity-${done ? "100" : "0"}`}>
                   <svg
                     width="14"
                     height="14"
@@ -82,11 +83,13 @@ const TaskItem: React.FC<TaskItemProps> = ({
         </div>
 
         <div className="flex flex-col-reverse items-start justify-end w-full gap-3 xl:flex-row xl:items-center xl:gap-5">
-          {category && (
-            <span className="inline-flex rounded-full bg-brand-50 px-2 py-0.5 text-theme-xs font-medium text-brand-500 dark:bg-brand-500/15 dark:text-brand-400">
-              {category}
-            </span>
-          )}
+          <span
+            className={`inline-flex rounded-full px-2 py-0.5 text-theme-xs font-medium ${getCategoryStyles(
+              category.color
+            )}`}
+          >
+            {category.name}
+          </span>
 
           <div className="flex items-center justify-between w-full gap-5 xl:w-auto xl:justify-normal">
             <div className="flex items-center gap-3">
@@ -124,13 +127,15 @@ const TaskItem: React.FC<TaskItemProps> = ({
                     strokeLinejoin="round"
                   />
                 </svg>
-                {commentCount}
+                {comments ?? 0}
               </span>
             </div>
 
-            <div className="h-6 w-full max-w-6 overflow-hidden rounded-full border-[0.5px] border-gray-200 dark:border-gray-800">
-              <Image width={24} height={24} src={userAvatar} alt="user" />
-            </div>
+            {assignee && (
+              <div className="h-6 w-full max-w-6 overflow-hidden rounded-full border-[0.5px] border-gray-200 dark:border-gray-800">
+                <Image width={24} height={24} src={assignee} alt="user" />
+              </div>
+            )}
           </div>
         </div>
       </div>
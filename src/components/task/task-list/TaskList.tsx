@@ -1,139 +1,12 @@
 "use client";
-import { Task } from "@/components/task/task-list/types/Task";
 import TaskLane from "@/components/task/task-list/TaskLane";
-import TaskHeader from "@/components/task/TaskHeader";
+import { usePermission } from "@/context/SessionContext";
+import { useTaskBoard } from "@/context/TaskBoardContext";
 import React, { useState } from "react";
 
-const initialTasks: Task[] = [
-  {
-    id: "1",
-    title: "Finish user onboarding",
-    isChecked: false,
-    dueDate: "Tomorrow",
-    commentCount: 1,
-    category: "Marketing",
-    userAvatar: "/images/user/user-01.jpg",
-    status: "todo",
-    toggleChecked: () => {}, // This will be replaced
-  },
-  {
-    id: "2",
-    title: "Solve the Dribble prioritization issue with the team",
-    isChecked: false,
-    dueDate: "Tomorrow",
-    commentCount: 2,
-    category: "Marketing",
-    userAvatar: "/images/user/user-02.jpg",
-    status: "todo",
-    toggleChecked: () => {}, // This will be replaced
-  },
-  {
-    id: "3",
-    title: "Finish user onboarding",
-    isChecked: true,
-    dueDate: "Feb 12, 2024",
-    commentCount: 1,
-    category: "Marketing",
-    userAvatar: "/images/user/user-03.jpg",
-    status: "todo",
-    toggleChecked: () => {}, // This will be replaced
-  },
-  {
-    id: "4",
-    title: "Work in Progress (WIP) Dashboard",
-    isChecked: false,
-    dueDate: "Jan 8, 2027",
-    commentCount: 2,
-    category: "Template",
-    userAvatar: "/images/user/user-04.jpg",
-    status: "in-progress",
-    toggleChecked: () => {}, // This will be replaced
-  },
-  {
-    id: "5",
-    title: "Product Update - Q4 2024",
-    isChecked: false,
-    dueDate: "Jan 8, 2027",
-    commentCount: 2,
-    userAvatar: "/images/user/user-05.jpg",
-    status: "in-progress",
-    toggleChecked: () => {}, // This will be replaced
-  },
-  {
-    id: "6",
-    title: "Kanban Flow Manager",
-    isChecked: true,
-    dueDate: "Jan 8, 2027",
-    commentCount: 2,
-    userAvatar: "/images/user/user-06.jpg",
-    status: "in-progress",
-    toggleChecked: () => {}, // This will be replaced
-  },
-  {
-    id: "7",
-    title: "Make internal feedback",
-    isChecked: false,
-    dueDate: "Jan 8, 2027",
-    commentCount: 2,
-    userAvatar: "/images/user/user-07.jpg",
-    status: "in-progress",
-    toggleChecked: () => {}, // This will be replaced
-  },
-  {
-    id: "8",
-    title: "Do some projects on React Native with Flutter",
-    isChecked: false,
-    dueDate: "Feb 12, 2027",
-    commentCount: 1,
-    category: "Marketing",
-    userAvatar: "/images/user/user-08.jpg",
-    status: "completed",
-    toggleChecked: () => {}, // This will be replaced
-  },
-  {
-    id: "9",
-    title: "Design marketing assets",
-    isChecked: false,
-    dueDate: "Feb 12, 2027",
-    commentCount: 1,
-    category: "Marketing",
-    userAvatar: "/images/user/user-09.jpg",
-    status: "completed",
-    toggleChecked: () => {}, // This will be replaced
-  },
-  {
-    id: "10",
-    title: "Kanban Flow Manager",
-    isChecked: false,
-    dueDate: "Feb 12, 2027",
-    commentCount: 1,
-    category: "Marketing",
-    userAvatar: "/images/user/user-10.jpg",
-    status: "completed",
-    toggleChecked: () => {}, // This will be replaced
-  },
-  {
-    id: "11",
-    title: "Change license and remove products",
-    isChecked: false,
-    dueDate: "Feb 12, 2027",
-    commentCount: 1,
-    category: "Marketing",
-    userAvatar: "/images/user/user-11.jpg",
-    status: "completed",
-    toggleChecked: () => {}, // This will be replaced
-  },
-];
-
-const lanes = ["todo", "in-progress", "completed"];
-
 export default function TaskList() {
-  const [tasks, setTasks] = useState<Task[]>(
-    initialTasks.map((task) => ({
-      ...task,
-      toggleChecked: () => toggleChecked(task.id),
-    }))
-  );
+  const board = useTaskBoard();
+  const canEdit = usePermission("tasks:edit");
   const [dragging, setDragging] = useState<string | null>(null);
 
   const handleDragStart = (
@@ -151,14 +24,10 @@ export default function TaskList() {
     e.preventDefault();
     if (dragging === null) return;
 
-    const updatedTasks = tasks.map((task) =>
-      task.id === dragging ? { ...task, status } : task
+    // Drop before the first task whose middle is below the pointer
+    const statusTasks = board.tasks.filter(
+      (task) => task.status === status && task.id !== dragging
     );
-
-    // Sort tasks within the same status
-    const statusTasks = updatedTasks.filter((task) => task.status === status);
-    const otherTasks = updatedTasks.filter((task) => task.status !== status);
-
     const dropY = e.clientY;
     const droppedIndex = statusTasks.findIndex((task) => {
       const taskElement = document.getElementById(`task-${task.id}`);
@@ -168,43 +37,66 @@ export default function TaskList() {
       return dropY < taskMiddleY;
     });
 
-    if (droppedIndex !== -1) {
-      const draggedTask = statusTasks.find((task) => task.id === dragging);
-      if (draggedTask) {
-        statusTasks.splice(statusTasks.indexOf(draggedTask), 1);
-        statusTasks.splice(droppedIndex, 0, draggedTask);
-      }
-    }
-
-    setTasks([...otherTasks, ...statusTasks]);
+    board.placeTask(
+      dragging,
+      status,
+      droppedIndex === -1 ? statusTasks.length : droppedIndex
+    );
     setDragging(null);
   };
 
-  const toggleChecked = (taskId: string) => {
-    setTasks((prevTasks) =>
-      prevTasks.map((task) =>
-        task.id === taskId ? { ...task, isChecked: !task.isChecked } : task
-      )
+  if (board.status === "loading") {
+    return (
+      <p className="border-t border-gray-200 px-6 py-10 text-center text-sm text-gray-500 dark:border-gray-800 dark:text-gray-400">
+        Loading tasks...
+      </p>
     );
-  };
-  return (
-    <div>
-      <div className="rounded-2xl border border-gray-200 bg-white dark:border-gray-800 dark:bg-white/[0.03]">
-        <TaskHeader />
+  }
+
+  if (board.status === "error") {
+    return (
+      <div className="border-t border-gray-200 px-6 py-10 text-center text-sm text-gray-500 dark:border-gray-800 dark:text-gray-400">
+        <p className="mb-3">Could not load the tasks: {board.error}</p>
+        <button
+          onClick={board.reload}
+          className="font-medium text-brand-500 hover:text-brand-600"
+        >
+          Try again
+        </button>
+      </div>
+    );
+  }
 
-        <div className="p-4 space-y-8 border-t border-gray-200 mt-7 dark:border-gray-800 sm:mt-0 xl:p-6">
-          {lanes.map((lane) => (
-            <TaskLane
-              key={lane}
-              lane={lane}
-              tasks={tasks.filter((task) => task.status === lane)}
-              onDragOver={handleDragOver}
-              onDrop={(e) => handleDrop(e, lane)}
-              onDragStart={handleDragStart}
-            />
-          ))}
-        </div>
+  return (
+    <>
+      {(board.error || board.isSaving) && (
+        <p
+          className={`border-t border-gray-200 px-6 py-2 text-theme-xs dark:border-gray-800 ${
+            board.error ? "text-error-500" : "text-gray-500 dark:text-gray-400"
+          }`}
+        >
+          {board.error ?? "Saving..."}
+        </p>
+      )}
+      <div className="p-4 space-y-8 border-t border-gray-200 mt-7 dark:border-gray-800 sm:mt-0 xl:p-6">
+        {board.visibleColumns.map((column) => (
+          <TaskLane
+            key={column.id}
+            lane={column}
+            tasks={board.tasks.filter((task) => task.status === column.id)}
+            readOnly={!canEdit}
+            canDelete={board.columns.length > 1}
+            onDragOver={handleDragOver}
+            onDrop={(e) => handleDrop(e, column.id)}
+            onDragStart={handleDragStart}
+            onToggleDone={(task) =>
+              board.updateTask(task.id, { done: !task.done })
+            }
+            onDelete={() => board.deleteColumn(column.id)}
+            onClear={() => board.clearColumn(column.id)}
+          />
+        ))}
       </div>
-    </div>
+    </>
   );
 }
@@ -0,0 +1,30 @@
+// Shared by the Kanban and Task List views, which render the same board
+export interface Task {
+  id: string;
+  title: string;
+  dueDate: string;
+  comments?: number;
+  links?: number;
+  assignee: string; // Avatar of the assigned user
+  status: string; // Id of the column holding the task
+  done: boolean; // Ticked off in the task list, independently of its column
+  projectDesc?: string;
+  projectImg?: string;
+  category: {
+    name: string;
+    color: string;
+  };
+}
+
+export interface TaskColumn {
+  id: string;
+  title: string;
+  wipLimit: number | null; // Maximum number of tasks, or null for no limit
+}
+
+// Columns in display order; tasks in display order within each column
+export interface TaskBoardData {
+  columns: TaskColumn[];
+  tasks: Task[];
+  version: number; // Bumped on every save, to detect concurrent edits
+}
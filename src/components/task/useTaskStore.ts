@@ -0,0 +1,324 @@
+"use client";
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Task, TaskBoardData, TaskColumn } from "./types";
+
+const ENDPOINT = "/api/tasks";
+// Drags call moveTask on every hover, so saves wait for the board to settle
+const SAVE_DELAY = 500;
+
+export type TaskStoreStatus = "loading" | "error" | "ready";
+
+async function requestBoard(init?: RequestInit) {
+  const response = await fetch(ENDPOINT, init);
+  if (!response.ok && response.status !== 409) {
+    throw new Error(`Request failed with status ${response.status}`);
+  }
+  return {
+    conflict: response.status === 409,
+    board: (await response.json()) as TaskBoardData,
+  };
+}
+
+function createId(prefix: string) {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random()
+    .toString(36)
+    .slice(2, 7)}`;
+}
+
+/**
+ * Loads the shared task board and saves every change back to it. Used
+ * through `TaskBoardProvider` so the header and the current view share one
+ * copy.
+ */
+export function useTaskStore() {
+  const [board, setBoard] = useState<TaskBoardData | null>(null);
+  const [status, setStatus] = useState<TaskStoreStatus>("loading");
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [reloadCount, setReloadCount] = useState(0);
+  // Latest local board and whether it still has to be saved
+  const latest = useRef<TaskBoardData | null>(null);
+  const dirty = useRef(false);
+  const saving = useRef(false);
+  const inFlight = useRef<Promise<unknown> | null>(null);
+  const saveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setStatus("loading");
+    requestBoard({ signal: controller.signal })
+      .then(({ board: loaded }) => {
+        latest.current = loaded;
+        setBoard(loaded);
+        setError(null);
+        setStatus("ready");
+      })
+      .catch((err: unknown) => {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : String(err));
+        setStatus("error");
+      });
+    return () => controller.abort();
+  }, [reloadCount]);
+
+  const save = useCallback(async () => {
+    const current = latest.current;
+    // One request at a time, so each save is based on the previous version
+    if (!current || !dirty.current || saving.current) return;
+    dirty.current = false;
+    saving.current = true;
+    setIsSaving(true);
+    try {
+      const request = requestBoard({
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(current),
+      });
+      inFlight.current = request;
+      const result = await request;
+      if (result.conflict) {
+        // Someone else saved first: show their board rather than overwrite it
+        latest.current = result.board;
+        dirty.current = false;
+        setBoard(result.board);
+        setError(
+          "The board was changed by someone else, so the latest version was loaded."
+        );
+        return;
+      }
+      const version = result.board.version;
+      // Keep edits made while the request was in flight
+      latest.current = latest.current && { ...latest.current, version };
+      setBoard((prev) => prev && { ...prev, version });
+      setError(null);
+    } catch (err) {
+      // Retried with the next edit rather than in a loop
+      dirty.current = true;
+      setError(err instanceof Error ? err.message : String(err));
+      return;
+    } finally {
+      saving.current = false;
+      inFlight.current = null;
+      setIsSaving(false);
+    }
+    // Edits made while the request was in flight
+    if (dirty.current) saveTimer.current = setTimeout(save, SAVE_DELAY);
+  }, []);
+
+  /**
+   * Sends unsaved edits at once instead of after the delay, for when the
+   * board unmounts or the page goes away. `keepalive` lets the request
+   * finish after the page has gone; a save still in flight is waited for so
+   * this one is based on the version it returns.
+   */
+  const flush = useCallback(() => {
+    if (saveTimer.current) clearTimeout(saveTimer.current);
+    if (!dirty.current) return;
+    dirty.current = false;
+    const send = () => {
+      if (!latest.current) return;
+      fetch(ENDPOINT, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(latest.current),
+        keepalive: true,
+      })
+        .then(async (response) => {
+          if (!response.ok) return;
+          // The page may come back from the back/forward cache
+          const { version } = (await response.json()) as TaskBoardData;
+          latest.current = latest.current && { ...latest.current, version };
+          setBoard((prev) => prev && { ...prev, version });
+        })
+        .catch(() => {
+          dirty.current = true;
+        });
+    };
+    if (inFlight.current) inFlight.current.then(send, send);
+    else send();
+  }, []);
+
+  useEffect(() => {
+    window.addEventListener("pagehide", flush);
+    return () => {
+      window.removeEventListener("pagehide", flush);
+      flush();
+    };
+  }, [flush]);
+
+  const update = useCallback(
+    (change: (board: TaskBoardData) => TaskBoardData) => {
+      if (!latest.current) return;
+      const next = change(latest.current);
+      latest.current = next;
+      dirty.current = true;
+      setBoard(next);
+      if (saveTimer.current) clearTimeout(saveTimer.current);
+      saveTimer.current = setTimeout(save, SAVE_DELAY);
+    },
+    [save]
+  );
+
+  const moveTask = useCallback(
+    (dragIndex: number, hoverIndex: number, status: string) => {
+      update((prev) => {
+        const statusTasks = prev.tasks.filter((task) => task.status === status);
+        const otherTasks = prev.tasks.filter((task) => task.status !== status);
+
+        const [draggedTask] = statusTasks.splice(dragIndex, 1);
+        statusTasks.splice(hoverIndex, 0, draggedTask);
+
+        return { ...prev, tasks: [...otherTasks, ...statusTasks] };
+      });
+    },
+    [update]
+  );
+
+  const changeTaskStatus = useCallback(
+    (taskId: string, newStatus: string) => {
+      update((prev) => {
+        const task = prev.tasks.find((item) => item.id === taskId);
+        if (!task) return prev;
+        // Dropped cards go to the bottom of their new column
+        return {
+          ...prev,
+          tasks: [
+            ...prev.tasks.filter((item) => item.id !== taskId),
+            { ...task, status: newStatus },
+          ],
+        };
+      });
+    },
+    [update]
+  );
+
+  // Moves a task to `index` within a column; the list view drops this way
+  const placeTask = useCallback(
+    (taskId: string, status: string, index: number) => {
+      update((prev) => {
+        const task = prev.tasks.find((item) => item.id === taskId);
+        if (!task) return prev;
+        const rest = prev.tasks.filter((item) => item.id !== taskId);
+        const statusTasks = rest.filter((item) => item.status === status);
+        const otherTasks = rest.filter((item) => item.status !== status);
+        statusTasks.splice(index, 0, { ...task, status });
+        return { ...prev, tasks: [...otherTasks, ...statusTasks] };
+      });
+    },
+    [update]
+  );
+
+  const updateTask = useCallback(
+    (taskId: string, changes: Partial<Omit<Task, "id">>) => {
+      update((prev) => ({
+        ...prev,
+        tasks: prev.tasks.map((task) =>
+          task.id === taskId ? { ...task, ...changes } : task
+        ),
+      }));
+    },
+    [update]
+  );
+
+  const deleteTask = useCallback(
+    (taskId: string) => {
+      update((prev) => ({
+        ...prev,
+        tasks: prev.tasks.filter((task) => task.id !== taskId),
+      }));
+    },
+    [update]
+  );
+
+  const addColumn = useCallback(
+    (title: string) => {
+      update((prev) => ({
+        ...prev,
+        columns: [
+          ...prev.columns,
+          { id: createId("column"), title, wipLimit: null },
+        ],
+      }));
+    },
+    [update]
+  );
+
+  const updateColumn = useCallback(
+    (columnId: string, changes: Partial<Omit<TaskColumn, "id">>) => {
+      update((prev) => ({
+        ...prev,
+        columns: prev.columns.map((column) =>
+          column.id === columnId ? { ...column, ...changes } : column
+        ),
+      }));
+    },
+    [update]
+  );
+
+  // Swaps a column with its left (-1) or right (1) neighbour
+  const moveColumn = useCallback(
+    (columnId: string, offset: -1 | 1) => {
+      update((prev) => {
+        const from = prev.columns.findIndex((column) => column.id === columnId);
+        const to = from + offset;
+        if (from === -1 || to < 0 || to >= prev.columns.length) return prev;
+        const columns = [...prev.columns];
+        [columns[from], columns[to]] = [columns[to], columns[from]];
+        return { ...prev, columns };
+      });
+    },
+    [update]
+  );
+
+  /**
+   * Removes a column. Its tasks move to the first remaining column so no
+   * work disappears with it; the last column cannot be deleted.
+   */
+  const deleteColumn = useCallback(
+    (columnId: string) => {
+      update((prev) => {
+        const columns = prev.columns.filter((column) => column.id !== columnId);
+        if (columns.length === 0) return prev;
+        return {
+          ...prev,
+          columns,
+          tasks: prev.tasks.map((task) =>
+            task.status === columnId ? { ...task, status: columns[0].id } : task
+          ),
+        };
+      });
+    },
+    [update]
+  );
+
+  const clearColumn = useCallback(
+    (columnId: string) => {
+      update((prev) => ({
+        ...prev,
+        tasks: prev.tasks.filter((task) => task.status !== columnId),
+      }));
+    },
+    [update]
+  );
+
+  const reload = useCallback(() => setReloadCount((count) => count + 1), []);
+
+  return {
+    columns: board?.columns ?? [],
+    tasks: board?.tasks ?? [],
+    status,
+    error,
+    isSaving,
+    reload,
+    moveTask,
+    changeTaskStatus,
+    placeTask,
+    updateTask,
+    deleteTask,
+    addColumn,
+    updateColumn,
+    moveColumn,
+    deleteColumn,
+    clearColumn,
+  };
+}
@@ -1,6 +1,16 @@
+import type { Transaction } from "@/lib/mock-data/transactions";
+import Link from "next/link";
 import React from "react";
 
-export default function CustomerDetails() {
+interface CustomerDetailsProps {
+  transaction: Transaction;
+  customerId?: number; // Links the name to the customer's profile
+}
+
+export default function CustomerDetails({
+  transaction,
+  customerId,
+}: CustomerDetailsProps) {
   return (
     <div className="rounded-2xl border border-gray-200 bg-white p-6 dark:border-gray-800 dark:bg-white/3">
       <h2 className="mb-5 text-lg font-semibold text-gray-800 dark:text-white/90">
@@ -12,7 +22,16 @@ export default function CustomerDetails() {
             Name
           </span>
           <span className="w-1/2 text-sm text-gray-700 sm:w-2/3 dark:text-gray-400">
-            Mushafrof Chowdhury
+            {customerId === undefined ? (
+              transaction.customer
+            ) : (
+              <Link
+                href={`/customers/${customerId}`}
+                className="text-brand-500 hover:text-brand-600"
+              >
+                {transaction.customer}
+              </Link>
+            )}
           </span>
         </li>
         <li className="flex items-start gap-5 py-2.5">
@@ -20,15 +39,7 @@ export default function CustomerDetails() {
             Email
           </span>
           <span className="w-1/2 text-sm text-gray-700 sm:w-2/3 dark:text-gray-400">
-            name@example.com
-          </span>
-        </li>
-        <li className="flex items-start gap-5 py-2.5">
-          <span className="w-1/2 text-sm text-gray-500 sm:w-1/3 dark:text-gray-400">
-            Phone
-          </span>
-          <span className="w-1/2 text-sm text-gray-700 sm:w-2/3 dark:text-gray-400">
-            Mountain View, CA, 94040
+            {transaction.email}
           </span>
         </li>
         <li className="flex items-start gap-5 py-2.5">
@@ -36,7 +47,7 @@ export default function CustomerDetails() {
             Phone
           </span>
           <span className="w-1/2 text-sm text-gray-700 sm:w-2/3 dark:text-gray-400">
-            +123 456 7890
+            {transaction.phone}
           </span>
         </li>
         <li className="flex items-start gap-5 py-2.5">
@@ -44,7 +55,7 @@ export default function CustomerDetails() {
             Country
           </span>
           <span className="w-1/2 text-sm text-gray-700 sm:w-2/3 dark:text-gray-400">
-            United States
+            {transaction.country}
           </span>
         </li>
         <li className="flex items-start gap-5 py-2.5">
@@ -52,7 +63,7 @@ export default function CustomerDetails() {
             Address
           </span>
           <span className="w-1/2 text-sm text-gray-700 sm:w-2/3 dark:text-gray-400">
-            62 Miles Drive St, Newark, NJ 07103, California.
+            {transaction.address.join(", ")}
           </span>
         </li>
       </ul>
@@ -1,6 +1,22 @@
+import type { Transaction } from "@/lib/mock-data/transactions";
+import { formatMoney } from "@/lib/money";
+import { orderBalance } from "@/lib/order-lifecycle";
+import { calculateOrderTotals, lineTotal, unitPrice } from "@/lib/order-totals";
 import React from "react";
 
-export default function OrderDetailsTable() {
+interface OrderDetailsTableProps {
+  transaction: Transaction;
+}
+
+export default function OrderDetailsTable({
+  transaction,
+}: OrderDetailsTableProps) {
+  const totals = calculateOrderTotals(
+    transaction.items,
+    transaction.vatRate,
+    transaction.currency
+  );
+  const { refunded } = orderBalance(transaction);
   return (
     <div className="rounded-2xl border border-gray-200 bg-white p-6 dark:border-gray-800 dark:bg-white/3">
       <h2 className="mb-5 text-lg font-semibold text-gray-800 dark:text-white/90">
@@ -32,86 +48,32 @@ export default function OrderDetailsTable() {
               </tr>
             </thead>
             <tbody className="divide-y divide-gray-100 bg-white dark:divide-gray-800 dark:bg-white/[0.03]">
-              <tr>
-                <td className="px-5 py-4 text-sm whitespace-nowrap text-gray-500 dark:text-gray-400">
-                  1
-                </td>
-                <td className="px-5 py-4 text-sm font-medium whitespace-nowrap text-gray-800 dark:text-white/90">
-                  Macbook pro 13”
-                </td>
-                <td className="px-5 py-4 text-sm whitespace-nowrap text-gray-500 dark:text-gray-400">
-                  1
-                </td>
-                <td className="px-5 py-4 text-sm whitespace-nowrap text-gray-500 dark:text-gray-400">
-                  $1200
-                </td>
-                <td className="px-5 py-4 text-sm whitespace-nowrap text-gray-500 dark:text-gray-400">
-                  0%
-                </td>
-                <td className="px-5 py-4 text-sm whitespace-nowrap text-gray-500 dark:text-gray-400">
-                  $1200
-                </td>
-              </tr>
-              <tr>
-                <td className="px-5 py-4 text-sm whitespace-nowrap text-gray-500 dark:text-gray-400">
-                  2
-                </td>
-                <td className="px-5 py-4 text-sm font-medium whitespace-nowrap text-gray-800 dark:text-white/90">
-                  Apple Watch Ultra
-                </td>
-                <td className="px-5 py-4 text-sm whitespace-nowrap text-gray-500 dark:text-gray-400">
-                  1
-                </td>
-                <td className="px-5 py-4 text-sm whitespace-nowrap text-gray-500 dark:text-gray-400">
-                  $300
-                </td>
-                <td className="px-5 py-4 text-sm whitespace-nowrap text-gray-500 dark:text-gray-400">
-                  50%
-                </td>
-                <td className="px-5 py-4 text-sm whitespace-nowrap text-gray-500 dark:text-gray-400">
-                  $150
-                </td>
-              </tr>
-              <tr>
-                <td className="px-5 py-4 text-sm whitespace-nowrap text-gray-500 dark:text-gray-400">
-                  3
-                </td>
-                <td className="px-5 py-4 text-sm font-medium whitespace-nowrap text-gray-800 dark:text-white/90">
-                  iPhone 15 Pro Max
-                </td>
-                <td className="px-5 py-4 text-sm whitespace-nowrap text-gray-500 dark:text-gray-400">
-                  2
-                </td>
-                <td className="px-5 py-4 text-sm whitespace-nowrap text-gray-500 dark:text-gray-400">
-                  $800
-                </td>
-                <td className="px-5 py-4 text-sm whitespace-nowrap text-gray-500 dark:text-gray-400">
-                  0%
-                </td>
-                <td className="px-5 py-4 text-sm whitespace-nowrap text-gray-500 dark:text-gray-400">
-                  $1600
-                </td>
-              </tr>
-              <tr>
-                <td className="px-5 py-4 text-sm whitespace-nowrap text-gray-500 dark:text-gray-400">
-                  4
-                </td>
-                <td className="px-5 py-4 text-sm font-medium whitespace-nowrap text-gray-800 dark:text-white/90">
-                  iPad Pro 3rd Gen
-                </td>
-                <td className="px-5 py-4 text-sm whitespace-nowrap text-gray-500 dark:text-gray-400">
-                  1
-                </td>
-                <td className="px-5 py-4 text-sm whitespace-nowrap text-gray-500 dark:text-gray-400">
-                  $900
-                </td>
-                <td className="px-5 py-4 text-sm whitespace-nowrap text-gray-500 dark:text-gray-400">
-                  0%
-                </td>
-                <td className="px-5 py-4 text-sm whitespace-nowrap text-gray-500 dark:text-gray-400">
-                  $900
-                </td>
-              </tr>
+              {transaction.items.map((item, index) => (
+                <tr key={item.product}>
+                  <td className="px-5 py-4 text-sm whitespace-nowrap text-gray-500 dark:text-gray-400">
+                    {index + 1}
+                  </td>
+                  <td className="px-5 py-4 text-sm font-medium whitespace-nowrap text-gray-800 dark:text-white/90">
+                    {item.product}
+                  </td>
+                  <td className="px-5 py-4 text-sm whitespace-nowrap text-gray-500 dark:text-gray-400">
+                    {item.quantity}
+                  </td>
+                  <td className="px-5 py-4 text-sm whitespace-nowrap text-gray-500 dark:text-gray-400">
+                    {formatMoney(unitPrice(item, transaction.currency), {
+                      trimZeroCents: true,
+                    })}
+                  </td>
+                  <td className="px-5 py-4 text-sm whitespace-nowrap text-gray-500 dark:text-gray-400">
+                    {item.discount}%
+                  </td>
+                  <td className="px-5 py-4 text-sm whitespace-nowrap text-gray-500 dark:text-gray-400">
+                    {formatMoney(lineTotal(item, transaction.currency), {
+                      trimZeroCents: true,
+                    })}
+                  </td>
+                </tr>
+              ))}
             </tbody>
           </table>
         </div>
@@ -127,15 +89,15 @@ export default function OrderDetailsTable() {
                 Sub Total
               </span>
               <span className="text-sm font-medium text-gray-700 dark:text-gray-400">
-                $3,850
+                {formatMoney(totals.subtotal, { trimZeroCents: true })}
               </span>
             </li>
             <li className="flex items-center justify-between">
               <span className="text-sm text-gray-500 dark:text-gray-400">
-                Vat (10%):
+                Vat ({transaction.vatRate}%):
               </span>
               <span className="text-sm font-medium text-gray-700 dark:text-gray-400">
-                $385
+                {formatMoney(totals.vat, { trimZeroCents: true })}
               </span>
             </li>
             <li className="flex items-center justify-between">
@@ -143,9 +105,19 @@ export default function OrderDetailsTable() {
                 Total
               </span>
               <span className="text-lg font-semibold text-gray-800 dark:text-white/90">
-                $4,235
+                {formatMoney(totals.total, { trimZeroCents: true })}
               </span>
             </li>
+            {refunded.amount > 0 && (
+              <li className="flex items-center justify-between">
+                <span className="text-sm text-gray-500 dark:text-gray-400">
+                  Refunded
+                </span>
+                <span className="text-sm font-medium text-error-600 dark:text-error-500">
+                  −{formatMoney(refunded, { trimZeroCents: true })}
+                </span>
+              </li>
+            )}
           </ul>
         </div>
       </div>
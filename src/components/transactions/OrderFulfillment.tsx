@@ -0,0 +1,86 @@
+"use client";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { usePermission } from "@/context/SessionContext";
+import type {
+  FulfillmentStatus,
+  Transaction,
+} from "@/lib/mock-data/transactions";
+import { nextFulfillmentStatuses } from "@/lib/order-lifecycle";
+
+interface OrderFulfillmentProps {
+  transaction: Transaction;
+}
+
+async function setFulfillment(id: number, status: FulfillmentStatus) {
+  const response = await fetch(`/api/transactions/${id}/fulfillment`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ status }),
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(
+      body?.error ?? `Request failed with status ${response.status}`
+    );
+  }
+}
+
+// Buttons for the fulfilment steps the order can take next
+export default function OrderFulfillment({
+  transaction,
+}: OrderFulfillmentProps) {
+  const router = useRouter();
+  const canManage = usePermission("orders:manage");
+  const [confirmCancel, setConfirmCancel] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const next = nextFulfillmentStatuses(transaction);
+  if (!canManage || next.length === 0) return null;
+
+  const submit = async (status: FulfillmentStatus) => {
+    if (status === "Canceled" && !confirmCancel) {
+      setConfirmCancel(true);
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      await setFulfillment(transaction.id, status);
+      setConfirmCancel(false);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex gap-3">
+        {next.map((status) => (
+          <button
+            key={status}
+            type="button"
+            disabled={busy}
+            onClick={() => submit(status)}
+            className={
+              status === "Canceled"
+                ? "shadow-theme-xs inline-flex items-center justify-center rounded-lg bg-white px-4 py-3 text-sm font-medium text-error-600 ring-1 ring-gray-300 transition hover:bg-error-50 disabled:opacity-50 dark:bg-gray-800 dark:text-error-500 dark:ring-gray-700 dark:hover:bg-error-500/15"
+                : "shadow-theme-xs inline-flex items-center justify-center rounded-lg bg-white px-4 py-3 text-sm font-medium text-gray-700 ring-1 ring-gray-300 transition hover:bg-gray-50 disabled:opacity-50 dark:bg-gray-800 dark:text-gray-400 dark:ring-gray-700 dark:hover:bg-white/[0.03]"
+            }
+          >
+            {status !== "Canceled"
+              ? `Mark ${status}`
+              : confirmCancel
+              ? "Confirm Cancel"
+              : "Cancel Order"}
+          </button>
+        ))}
+      </div>
+      {error && <p className="text-sm text-error-500">{error}</p>}
+    </div>
+  );
+}
@@ -1,28 +1,67 @@
+import type { Transaction } from "@/lib/mock-data/transactions";
+import { formatMoney } from "@/lib/money";
+import { orderBalance } from "@/lib/order-lifecycle";
 import React from "react";
+import Badge from "../ui/badge/Badge";
+import OrderFulfillment from "./OrderFulfillment";
+import { FULFILLMENT_COLORS } from "./orderDisplay";
+import TransactionRefund from "./TransactionRefund";
 
-export default function TransactionHeader() {
+interface TransactionHeaderProps {
+  transaction: Transaction;
+}
+
+export default function TransactionHeader({
+  transaction,
+}: TransactionHeaderProps) {
+  const { refunded } = orderBalance(transaction);
   return (
     <div className="flex flex-col justify-between gap-6 rounded-2xl border border-gray-200 bg-white px-6 py-5 sm:flex-row sm:items-center dark:border-gray-800 dark:bg-white/3">
       <div className="flex flex-col gap-2.5 divide-gray-300 sm:flex-row sm:divide-x dark:divide-gray-700">
         <div className="flex items-center gap-2 sm:pr-3">
           <span className="text-base font-medium text-gray-700 dark:text-gray-400">
-            Order ID : #34834
+            Order ID : {transaction.orderId}
           </span>
-          <span className="bg-success-50 text-success-600 dark:bg-success-500/15 dark:text-success-500 inline-flex items-center justify-center gap-1 rounded-full px-2.5 py-0.5 text-sm font-medium">
-            Completed
+          <span
+            className={`inline-flex items-center justify-center gap-1 rounded-full px-2.5 py-0.5 text-sm font-medium ${
+              transaction.status === "Completed"
+                ? "bg-success-50 text-success-600 dark:bg-success-500/15 dark:text-success-500"
+                : transaction.status === "Pending"
+                ? "bg-warning-50 text-warning-600 dark:bg-warning-500/15 dark:text-warning-500"
+                : transaction.status === "Refunded"
+                ? "bg-gray-100 text-gray-700 dark:bg-white/5 dark:text-white/80"
+                : "bg-red-50 text-red-600 dark:bg-red-500/15 dark:text-red-500"
+            }`}
+          >
+            {transaction.status}
           </span>
+          {transaction.fulfillment && (
+            <Badge color={FULFILLMENT_COLORS[transaction.fulfillment]}>
+              {transaction.fulfillment}
+            </Badge>
+          )}
         </div>
         <p className="text-sm text-gray-500 sm:pl-3 dark:text-gray-400">
-          Due date: 25 August 2025
+          Due date: {transaction.dueDate}
         </p>
+        {transaction.charge && (
+          <p className="text-sm text-gray-500 sm:pl-3 dark:text-gray-400">
+            {transaction.charge.failureReason ??
+              `Paid with ${transaction.charge.paymentMethod}`}
+          </p>
+        )}
+        {refunded.amount > 0 && (
+          <p className="text-sm text-gray-500 sm:pl-3 dark:text-gray-400">
+            {formatMoney(refunded)} refunded
+          </p>
+        )}
       </div>
-      <div className="flex gap-3">
+      <div className="flex flex-wrap gap-3">
+        <OrderFulfillment transaction={transaction} />
         <button className="bg-brand-500 shadow-theme-xs hover:bg-brand-600 inline-flex items-center justify-center gap-2 rounded-lg px-4 py-3 text-sm font-medium text-white transition">
           View Receipt
         </button>
-        <button className="shadow-theme-xs inline-flex items-center justify-center gap-2 rounded-lg bg-white px-4 py-3 text-sm font-medium text-gray-700 ring-1 ring-gray-300 transition hover:bg-gray-50 dark:bg-gray-800 dark:text-gray-400 dark:ring-gray-700 dark:hover:bg-white/[0.03]">
-          Refund
-        </button>
+        <TransactionRefund transaction={transaction} />
       </div>
     </div>
   );
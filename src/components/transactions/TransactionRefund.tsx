@@ -0,0 +1,109 @@
+"use client";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import Input from "@/components/form/input/InputField";
+import { usePermission } from "@/context/SessionContext";
+import type { Transaction } from "@/lib/mock-data/transactions";
+import { formatMoney, fromMinorUnits } from "@/lib/money";
+import { orderBalance } from "@/lib/order-lifecycle";
+
+interface TransactionRefundProps {
+  transaction: Transaction;
+}
+
+async function refundTransaction(id: number, amount: string) {
+  const response = await fetch(`/api/transactions/${id}/refund`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ amount }),
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(
+      body?.error ?? `Request failed with status ${response.status}`
+    );
+  }
+}
+
+/**
+ * Refund button for the transaction header, in full or in part. Gateway
+ * payments are refunded through the gateway; others are recorded as paid
+ * back by hand.
+ */
+export default function TransactionRefund({
+  transaction,
+}: TransactionRefundProps) {
+  const router = useRouter();
+  const canRefund = usePermission("billing:manage");
+  const [open, setOpen] = useState(false);
+  const [amount, setAmount] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { refundable } = orderBalance(transaction);
+  const enabled = canRefund && transaction.status === "Completed";
+
+  const submit = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await refundTransaction(transaction.id, amount);
+      setOpen(false);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        disabled={!enabled}
+        onClick={() => {
+          setAmount(String(fromMinorUnits(refundable)));
+          setError(null);
+          setOpen(true);
+        }}
+        className="shadow-theme-xs inline-flex items-center justify-center gap-2 rounded-lg bg-white px-4 py-3 text-sm font-medium text-gray-700 ring-1 ring-gray-300 transition hover:bg-gray-50 disabled:opacity-50 dark:bg-gray-800 dark:text-gray-400 dark:ring-gray-700 dark:hover:bg-white/[0.03]"
+      >
+        Refund
+      </button>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center gap-3">
+        <div className="w-32">
+          <Input
+            type="text"
+            defaultValue={amount}
+            onChange={(e) => setAmount(e.target.value)}
+          />
+        </div>
+        <button
+          type="button"
+          onClick={() => setOpen(false)}
+          className="shadow-theme-xs inline-flex items-center justify-center rounded-lg bg-white px-4 py-3 text-sm font-medium text-gray-700 ring-1 ring-gray-300 transition hover:bg-gray-50 dark:bg-gray-800 dark:text-gray-400 dark:ring-gray-700 dark:hover:bg-white/[0.03]"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          disabled={busy}
+          onClick={submit}
+          className="bg-brand-500 shadow-theme-xs hover:bg-brand-600 inline-flex items-center justify-center rounded-lg px-4 py-3 text-sm font-medium text-white transition disabled:opacity-50"
+        >
+          {busy ? "Refunding..." : "Refund"}
+        </button>
+      </div>
+      <p className="text-theme-xs text-gray-500 dark:text-gray-400">
+        Up to {formatMoney(refundable)} in {transaction.currency}
+      </p>
+      {error && <p className="text-sm text-error-500">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import type { ComponentProps } from "react";
+import type {
+  FulfillmentStatus,
+  Transaction,
+  TransactionStatus,
+} from "@/lib/mock-data/transactions";
+import type Badge from "../ui/badge/Badge";
+
+type BadgeColor = NonNullable<ComponentProps<typeof Badge>["color"]>;
+
+// Badge colours shared by the order widgets and the transaction page
+export const FULFILLMENT_COLORS: Record<FulfillmentStatus, BadgeColor> = {
+  Unfulfilled: "light",
+  Processing: "info",
+  Shipped: "primary",
+  Delivered: "success",
+  Canceled: "error",
+};
+
+export const PAYMENT_COLORS: Record<TransactionStatus, BadgeColor> = {
+  Completed: "success",
+  Pending: "warning",
+  Failed: "error",
+  Refunded: "light",
+};
+
+// Where the order stands: its fulfilment, or the payment when nothing ships
+export function orderBadge(order: Transaction): {
+  label: string;
+  color: BadgeColor;
+} {
+  return order.fulfillment
+    ? { label: order.fulfillment, color: FULFILLMENT_COLORS[order.fulfillment] }
+    : { label: order.status, color: PAYMENT_COLORS[order.status] };
+}
+
+// "Apple Watch Ultra" and "+2 more items" for a one-line order summary
+export function orderProducts(order: Transaction): {
+  first: string;
+  more: string | null;
+} {
+  const rest = order.items.length - 1;
+  return {
+    first: order.items[0]?.product ?? "No items",
+    more: rest > 0 ? `+${rest} more item${rest === 1 ? "" : "s"}` : null,
+  };
+}
+
+/**
+ * "09 Oct, 2026" from the ISO `placedAt`, like the transaction list dates.
+ * In UTC, so the server render and the browser agree.
+ */
+export const formatPlacedAt = (iso: string) => {
+  const date = new Date(iso);
+  const day = String(date.getUTCDate()).padStart(2, "0");
+  const month = date.toLocaleDateString("en-US", {
+    month: "short",
+    timeZone: "UTC",
+  });
+  return `${day} ${month}, ${date.getUTCFullYear()}`;
+};
@@ -0,0 +1,25 @@
+"use client";
+import React, { createContext, useContext } from "react";
+import { useChatStore } from "@/components/chats/useChatStore";
+import { useSession } from "./SessionContext";
+
+type ChatContextType = ReturnType<typeof useChatStore>;
+
+const ChatContext = createContext<ChatContextType | undefined>(undefined);
+
+export const useChat = () => {
+  const context = useContext(ChatContext);
+  if (!context) {
+    throw new Error("useChat must be used within a ChatProvider");
+  }
+  return context;
+};
+
+export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const user = useSession();
+  const chat = useChatStore(user?.id ?? null);
+
+  return <ChatContext.Provider value={chat}>{children}</ChatContext.Provider>;
+};
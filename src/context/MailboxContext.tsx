@@ -0,0 +1,46 @@
+"use client";
+import React, { createContext, useCallback, useContext, useState } from "react";
+import { useMailCounts } from "@/components/email/useMailCounts";
+import { serializeMailQuery, type MailQuery } from "@/lib/mail/query";
+import type { MailCounts } from "@/lib/mail/types";
+
+type MailboxContextType = {
+  query: MailQuery; // The list being shown, or the one a thread was opened from
+  counts: MailCounts | null;
+  version: number; // Bumped after every change, so views reload
+  notifyChange: () => void;
+  listHref: (query: Partial<MailQuery>) => string;
+};
+
+const MailboxContext = createContext<MailboxContextType | undefined>(undefined);
+
+export const useMailbox = () => {
+  const context = useContext(MailboxContext);
+  if (!context) {
+    throw new Error("useMailbox must be used within a MailboxProvider");
+  }
+  return context;
+};
+
+export const MailboxProvider: React.FC<{
+  query: MailQuery;
+  children: React.ReactNode;
+}> = ({ query, children }) => {
+  const [version, setVersion] = useState(0);
+  const counts = useMailCounts(version);
+
+  const notifyChange = useCallback(() => setVersion((v) => v + 1), []);
+
+  const listHref = useCallback((target: Partial<MailQuery>) => {
+    const params = serializeMailQuery(target).toString();
+    return params ? `/inbox?${params}` : "/inbox";
+  }, []);
+
+  return (
+    <MailboxContext.Provider
+      value={{ query, counts, version, notifyChange, listHref }}
+    >
+      {children}
+    </MailboxContext.Provider>
+  );
+};
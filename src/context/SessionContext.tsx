@@ -0,0 +1,43 @@
+"use client";
+import React, { createContext, useContext } from "react";
+import {
+  hasPermission,
+  type Permission,
+  type Role,
+} from "@/lib/auth/permissions";
+
+export type SessionUser = {
+  id: string;
+  name: string;
+  email: string;
+  role: Role;
+};
+
+const SessionContext = createContext<{ user: SessionUser | null } | undefined>(
+  undefined
+);
+
+export const useSession = () => {
+  const context = useContext(SessionContext);
+  if (!context) {
+    throw new Error("useSession must be used within a SessionProvider");
+  }
+  return context.user;
+};
+
+// Hides or disables UI only; server code checks permissions on its own
+export const usePermission = (permission: Permission) => {
+  const user = useSession();
+  return hasPermission(user?.role, permission);
+};
+
+export const SessionProvider: React.FC<{
+  user: SessionUser | null;
+  children: React.ReactNode;
+}> = ({ user, children }) => {
+  return (
+    <SessionContext.Provider value={{ user }}>
+      {children}
+    </SessionContext.Provider>
+  );
+};
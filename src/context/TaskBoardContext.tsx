@@ -0,0 +1,45 @@
+"use client";
+import React, { createContext, useContext, useMemo, useState } from "react";
+import { useTaskStore } from "@/components/task/useTaskStore";
+
+// "All" or the id of the column to show on its own
+export const ALL_TASKS = "All";
+
+type TaskBoardContextType = ReturnType<typeof useTaskStore> & {
+  group: string;
+  setGroup: (group: string) => void;
+  visibleColumns: ReturnType<typeof useTaskStore>["columns"];
+};
+
+const TaskBoardContext = createContext<TaskBoardContextType | undefined>(
+  undefined
+);
+
+export const useTaskBoard = () => {
+  const context = useContext(TaskBoardContext);
+  if (!context) {
+    throw new Error("useTaskBoard must be used within a TaskBoardProvider");
+  }
+  return context;
+};
+
+export const TaskBoardProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const store = useTaskStore();
+  const [group, setGroup] = useState(ALL_TASKS);
+
+  const visibleColumns = useMemo(() => {
+    const selected = store.columns.filter((column) => column.id === group);
+    // A deleted column falls back to showing every column
+    return selected.length > 0 ? selected : store.columns;
+  }, [store.columns, group]);
+
+  return (
+    <TaskBoardContext.Provider
+      value={{ ...store, group, setGroup, visibleColumns }}
+    >
+      {children}
+    </TaskBoardContext.Provider>
+  );
+};
@@ -0,0 +1,18 @@
+"use client";
+import { useEffect, useState } from "react";
+
+/**
+ * The current time, ticking every `intervalMs`. Starts from `initial` (the
+ * server's clock) so the first render matches the server-rendered HTML.
+ */
+export const useNow = (initial: string, intervalMs: number = 60000) => {
+  const [now, setNow] = useState(() => new Date(initial));
+
+  useEffect(() => {
+    setNow(new Date());
+    const timer = setInterval(() => setNow(new Date()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+};
@@ -0,0 +1,13 @@
+/**
+ * Runs once when the server starts. Background jobs, such as subscription
+ * billing, run inside the Node.js server; set `JOB_RUNNER=off` to run them
+ * only on demand through `/api/jobs`.
+ */
+export async function register() {
+  // Written out in full so the edge bundle leaves the Node-only import out
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    if (process.env.JOB_RUNNER === "off") return;
+    const { startJobRunner } = await import("./lib/jobs");
+    startJobRunner();
+  }
+}
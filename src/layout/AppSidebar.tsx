@@ -1,9 +1,17 @@
 "use client";
-import React, { useEffect, useRef, useCallback, useState } from "react";
+import React, {
+  useEffect,
+  useRef,
+  useCallback,
+  useMemo,
+  useState,
+} from "react";
 import Link from "next/link";
 import Image from "next/image";
 import { usePathname } from "next/navigation";
 import { useSidebar } from "../context/SidebarContext";
+import { useSession } from "../context/SessionContext";
+import { canAccessPath, type Role } from "@/lib/auth/permissions";
 import {
   AiIcon,
   BoxCubeIcon,
@@ -77,6 +85,7 @@ const navItems: NavItem[] = [
     subItems: [
       { name: "Products", path: "/products-list" },
       { name: "Add Product", path: "/add-product" },
+      { name: "Customers", path: "/customers" },
       { name: "Billing", path: "/billing" },
       { name: "Invoices", path: "/invoices" },
       { name: "Single Invoice", path: "/single-invoice" },
@@ -205,6 +214,7 @@ const supportItems: NavItem[] = [
     subItems: [
       { name: "Support List", path: "/support-tickets" },
       { name: "Support Reply", path: "/support-ticket-reply" },
+      { name: "Macros", path: "/support-tickets/macros" },
     ],
   },
   {
@@ -217,9 +227,31 @@ const supportItems: NavItem[] = [
   },
 ];
 
+// Drops links the role cannot open, and groups left without any links
+const filterNavItems = (items: NavItem[], role: Role | undefined) =>
+  items.flatMap((nav) => {
+    if (nav.subItems) {
+      const subItems = nav.subItems.filter((subItem) =>
+        canAccessPath(role, subItem.path)
+      );
+      return subItems.length > 0 ? [{ ...nav, subItems }] : [];
+    }
+    return !nav.path || canAccessPath(role, nav.path) ? [nav] : [];
+  });
+
 const AppSidebar: React.FC = () => {
   const { isExpanded, isMobileOpen, isHovered, setIsHovered } = useSidebar();
   const pathname = usePathname();
+  const role = useSession()?.role;
+  const visibleNavItems = useMemo(() => filterNavItems(navItems, role), [role]);
+  const visibleSupportItems = useMemo(
+    () => filterNavItems(supportItems, role),
+    [role]
+  );
+  const visibleOthersItems = useMemo(
+    () => filterNavItems(othersItems, role),
+    [role]
+  );
 
   const renderMenuItems = (
     navItems: NavItem[],
@@ -378,10 +410,10 @@ const AppSidebar: React.FC = () => {
     ["main", "support", "others"].forEach((menuType) => {
       const items =
         menuType === "main"
-          ? navItems
+          ? visibleNavItems
           : menuType === "support"
-          ? supportItems
-          : othersItems;
+          ? visibleSupportItems
+          : visibleOthersItems;
       items.forEach((nav, index) => {
         if (nav.subItems) {
           nav.subItems.forEach((subItem) => {
@@ -401,7 +433,13 @@ const AppSidebar: React.FC = () => {
     if (!submenuMatched) {
       setOpenSubmenu(null);
     }
-  }, [pathname, isActive]);
+  }, [
+    pathname,
+    isActive,
+    visibleNavItems,
+    visibleSupportItems,
+    visibleOthersItems,
+  ]);
 
   useEffect(() => {
     // Set the height of the submenu items when the submenu is opened
@@ -497,7 +535,7 @@ const AppSidebar: React.FC = () => {
                   <HorizontaLDots />
                 )}
               </h2>
-              {renderMenuItems(navItems, "main")}
+              {renderMenuItems(visibleNavItems, "main")}
             </div>
             <div>
               <h2
@@ -513,7 +551,7 @@ const AppSidebar: React.FC = () => {
                   <HorizontaLDots />
                 )}
               </h2>
-              {renderMenuItems(supportItems, "support")}
+              {renderMenuItems(visibleSupportItems, "support")}
             </div>
             <div>
               <h2
@@ -529,7 +567,7 @@ const AppSidebar: React.FC = () => {
                   <HorizontaLDots />
                 )}
               </h2>
-              {renderMenuItems(othersItems, "others")}
+              {renderMenuItems(visibleOthersItems, "others")}
             </div>
           </div>
         </nav>
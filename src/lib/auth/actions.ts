@@ -0,0 +1,246 @@
+"use server";
+
+import { headers } from "next/headers";
+import { redirect } from "next/navigation";
+import {
+  endSession,
+  endTwoStepChallenge,
+  getCurrentUser,
+  getTwoStepChallenge,
+  startSession,
+  startTwoStepChallenge,
+} from "./cookies";
+import { sendPasswordResetEmail } from "./mailer";
+import { hashPassword, verifyPassword } from "./password";
+import { clearFailures, recordFailure, retryAfter } from "./rate-limit";
+import { safeRedirectPath } from "./redirect";
+import { consumeResetToken, createResetToken } from "./reset-tokens";
+import { verifyTotp } from "./totp";
+import {
+  createUser,
+  findUserByEmail,
+  findUserById,
+  normalizeEmail,
+  recordTwoStepFailure,
+  updateUser,
+} from "./users";
+
+// Returned to the form by `useActionState`
+export interface AuthFormState {
+  error?: string;
+  message?: string;
+}
+
+const MIN_PASSWORD_LENGTH = 8;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Compared against when the email is unknown, so both paths take as long
+const DUMMY_PASSWORD_HASH =
+  "scrypt$16384$00000000000000000000000000000000$" + "0".repeat(128);
+
+function field(formData: FormData, name: string): string {
+  const value = formData.get(name);
+  return typeof value === "string" ? value.trim() : "";
+}
+
+// Failed sign-ins allowed per window, for one account and for one client
+const SIGN_IN_WINDOW_MS = 15 * 60 * 1000;
+const ACCOUNT_FAILURE_LIMIT = 5;
+const CLIENT_FAILURE_LIMIT = 20;
+
+/**
+ * The client's address as the proxy in front reports it. Clients can set
+ * the header themselves without a proxy, which the per-account limit still
+ * covers.
+ */
+async function clientAddress(): Promise<string> {
+  const forwarded = (await headers()).get("x-forwarded-for");
+  return forwarded?.split(",")[0].trim() || "unknown";
+}
+
+function validatePassword(password: string): string | undefined {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters.`;
+  }
+}
+
+export async function signUp(
+  _previous: AuthFormState,
+  formData: FormData
+): Promise<AuthFormState> {
+  const firstName = field(formData, "fname");
+  const lastName = field(formData, "lname");
+  const email = field(formData, "email");
+  const password = formData.get("password")?.toString() ?? "";
+
+  if (!firstName || !lastName) {
+    return { error: "Please enter your first and last name." };
+  }
+  if (!EMAIL_PATTERN.test(email)) {
+    return { error: "Please enter a valid email address." };
+  }
+  const passwordError = validatePassword(password);
+  if (passwordError) return { error: passwordError };
+  if (formData.get("terms") !== "on") {
+    return { error: "Please accept the Terms and Conditions to continue." };
+  }
+
+  const user = await createUser({
+    firstName,
+    lastName,
+    email,
+    passwordHash: await hashPassword(password),
+  });
+  if (!user) return { error: "An account with this email already exists." };
+
+  await startSession(user, false);
+  redirect("/");
+}
+
+export async function signIn(
+  _previous: AuthFormState,
+  formData: FormData
+): Promise<AuthFormState> {
+  const email = field(formData, "email");
+  const password = formData.get("password")?.toString() ?? "";
+  const remember = formData.get("remember") === "on";
+  const redirectTo = safeRedirectPath(field(formData, "redirectTo"));
+
+  const accountKey = `account:${normalizeEmail(email)}`;
+  const clientKey = `client:${await clientAddress()}`;
+  const wait = Math.max(
+    retryAfter(accountKey, ACCOUNT_FAILURE_LIMIT),
+    retryAfter(clientKey, CLIENT_FAILURE_LIMIT)
+  );
+  if (wait > 0) {
+    const minutes = Math.ceil(wait / 60000);
+    return {
+      error: `Too many failed sign-ins. Please try again in ${minutes} minute${
+        minutes === 1 ? "" : "s"
+      }.`,
+    };
+  }
+
+  const user = await findUserByEmail(email);
+  const valid = await verifyPassword(
+    password,
+    user?.passwordHash ?? DUMMY_PASSWORD_HASH
+  );
+  if (!user || !valid) {
+    recordFailure(accountKey, SIGN_IN_WINDOW_MS);
+    recordFailure(clientKey, SIGN_IN_WINDOW_MS);
+    return { error: "Incorrect email or password." };
+  }
+  clearFailures(accountKey);
+
+  if (user.totpEnabled) {
+    await startTwoStepChallenge(user, remember);
+    redirect(
+      `/two-step-verification?redirectTo=${encodeURIComponent(redirectTo)}`
+    );
+  }
+  await startSession(user, remember);
+  redirect(redirectTo);
+}
+
+export async function signOut() {
+  await endSession();
+  redirect("/signin");
+}
+
+/**
+ * Checks the six-digit code from OtpForm. With a pending sign-in challenge it
+ * completes the sign-in, or voids the challenge after too many wrong codes;
+ * for a signed-in user enrolling an authenticator it turns two-step
+ * verification on.
+ */
+export async function verifyTwoStep(
+  _previous: AuthFormState,
+  formData: FormData
+): Promise<AuthFormState> {
+  const code = field(formData, "code");
+  const redirectTo = safeRedirectPath(field(formData, "redirectTo"));
+
+  const challenge = await getTwoStepChallenge();
+  if (challenge) {
+    const user = await findUserById(challenge.sub);
+    if (!user?.totpSecret || user.twoStepChallenge?.id !== challenge.id) {
+      await endTwoStepChallenge();
+      return { error: "Please sign in again." };
+    }
+    const counter = verifyTotp(user.totpSecret, code, user.totpLastCounter);
+    if (counter === null) {
+      if (await recordTwoStepFailure(user.id, challenge.id)) {
+        return { error: "That code is not valid." };
+      }
+      await endTwoStepChallenge();
+      return { error: "Too many incorrect codes. Please sign in again." };
+    }
+    await updateUser(user.id, {
+      totpLastCounter: counter,
+      twoStepChallenge: undefined,
+    });
+    await startSession(user, challenge.remember);
+    redirect(redirectTo);
+  }
+
+  const user = await getCurrentUser();
+  if (!user) redirect("/signin");
+  if (!user.pendingTotpSecret) {
+    return { error: "Two-step verification is already enabled." };
+  }
+  const counter = verifyTotp(user.pendingTotpSecret, code);
+  if (counter === null) return { error: "That code is not valid." };
+  await updateUser(user.id, {
+    totpEnabled: true,
+    totpSecret: user.pendingTotpSecret,
+    pendingTotpSecret: undefined,
+    totpLastCounter: counter,
+  });
+  return { message: "Two-step verification is now enabled." };
+}
+
+export async function requestPasswordReset(
+  _previous: AuthFormState,
+  formData: FormData
+): Promise<AuthFormState> {
+  const email = field(formData, "email");
+  if (!EMAIL_PATTERN.test(email)) {
+    return { error: "Please enter a valid email address." };
+  }
+
+  const user = await findUserByEmail(email);
+  if (user) {
+    const token = await createResetToken(user.id);
+    const origin = process.env.APP_URL ?? (await headers()).get("origin") ?? "";
+    await sendPasswordResetEmail(
+      normalizeEmail(email),
+      `${origin}/reset-password?token=${token}`
+    );
+  }
+  // Same answer either way, so the form cannot be used to probe for accounts
+  return {
+    message: "If an account exists for that email, a reset link is on its way.",
+  };
+}
+
+export async function resetPassword(
+  _previous: AuthFormState,
+  formData: FormData
+): Promise<AuthFormState> {
+  const token = field(formData, "token");
+  const password = formData.get("password")?.toString() ?? "";
+  const confirmation = formData.get("confirmPassword")?.toString() ?? "";
+
+  const passwordError = validatePassword(password);
+  if (passwordError) return { error: passwordError };
+  if (password !== confirmation) return { error: "Passwords do not match." };
+
+  const userId = await consumeResetToken(token);
+  if (!userId) {
+    return { error: "This reset link is invalid or has expired." };
+  }
+  await updateUser(userId, { passwordHash: await hashPassword(password) });
+  await endSession();
+  redirect("/signin?reset=1");
+}
@@ -0,0 +1,98 @@
+import { cookies } from "next/headers";
+import { hasPermission, type Permission } from "./permissions";
+import {
+  expiresIn,
+  REMEMBER_MAX_AGE,
+  SESSION_COOKIE,
+  SESSION_MAX_AGE,
+  signToken,
+  TWO_STEP_COOKIE,
+  TWO_STEP_MAX_AGE,
+  verifyToken,
+} from "./session";
+import { displayName, findUserById, updateUser, type User } from "./users";
+
+const cookieOptions = {
+  httpOnly: true,
+  sameSite: "lax" as const,
+  secure: process.env.NODE_ENV === "production",
+  path: "/",
+};
+
+/**
+ * Signs the user in. Without `remember` the cookie is dropped when the
+ * browser closes; the token itself still expires after `SESSION_MAX_AGE`.
+ */
+export async function startSession(user: User, remember: boolean) {
+  const maxAge = remember ? REMEMBER_MAX_AGE : SESSION_MAX_AGE;
+  const token = await signToken({
+    purpose: "session",
+    sub: user.id,
+    email: user.email,
+    name: displayName(user),
+    role: user.role,
+    exp: expiresIn(maxAge),
+  });
+  const store = await cookies();
+  store.set(SESSION_COOKIE, token, {
+    ...cookieOptions,
+    ...(remember ? { maxAge } : {}),
+  });
+  store.delete(TWO_STEP_COOKIE);
+}
+
+export async function endSession() {
+  const store = await cookies();
+  store.delete(SESSION_COOKIE);
+  store.delete(TWO_STEP_COOKIE);
+}
+
+export async function getSession() {
+  const store = await cookies();
+  return verifyToken(store.get(SESSION_COOKIE)?.value, "session");
+}
+
+/**
+ * Session of a signed-in user holding `permission`, or null. The middleware
+ * only guards page and API routes, so server actions check again here.
+ */
+export async function authorize(permission: Permission) {
+  const session = await getSession();
+  return session && hasPermission(session.role, permission) ? session : null;
+}
+
+// Signed-in user, re-read from the store so deleted accounts lose access
+export async function getCurrentUser(): Promise<User | null> {
+  const session = await getSession();
+  if (!session) return null;
+  return (await findUserById(session.sub)) ?? null;
+}
+
+/**
+ * Asks for a code before signing the user in. Each challenge replaces the
+ * previous one, whose cookie then stops working.
+ */
+export async function startTwoStepChallenge(user: User, remember: boolean) {
+  const id = crypto.randomUUID();
+  await updateUser(user.id, { twoStepChallenge: { id, failures: 0 } });
+  const token = await signToken({
+    purpose: "two-step",
+    id,
+    sub: user.id,
+    remember,
+    exp: expiresIn(TWO_STEP_MAX_AGE),
+  });
+  (await cookies()).set(TWO_STEP_COOKIE, token, {
+    ...cookieOptions,
+    maxAge: TWO_STEP_MAX_AGE,
+  });
+}
+
+export async function getTwoStepChallenge() {
+  const store = await cookies();
+  return verifyToken(store.get(TWO_STEP_COOKIE)?.value, "two-step");
+}
+
+export async function endTwoStepChallenge() {
+  (await cookies()).delete(TWO_STEP_COOKIE);
+}
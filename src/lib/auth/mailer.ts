@@ -0,0 +1,10 @@
+/**
+ * Delivers password reset links. There is no mail server in local setups,
+ * so the link is written to the server log where a developer can open it.
+ */
+export async function sendPasswordResetEmail(
+  email: string,
+  resetUrl: string
+): Promise<void> {
+  console.info(`[auth] Password reset link for ${email}: ${resetUrl}`);
+}
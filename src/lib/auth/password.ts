@@ -0,0 +1,44 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+
+const KEY_LENGTH = 64;
+const COST = 16384;
+
+function deriveKey(
+  password: string,
+  salt: Buffer,
+  length: number,
+  cost: number
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, length, { N: cost }, (err, key) =>
+      err ? reject(err) : resolve(key)
+    );
+  });
+}
+
+/**
+ * Hashes a password with scrypt and a random salt. The result is
+ * self-describing (`scrypt$<cost>$<salt>$<key>`) so the cost can be raised
+ * later without invalidating stored hashes.
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt, KEY_LENGTH, COST);
+  return ["scrypt", COST, salt.toString("hex"), key.toString("hex")].join("$");
+}
+
+export async function verifyPassword(
+  password: string,
+  stored: string
+): Promise<boolean> {
+  const [algorithm, cost, salt, key] = stored.split("$");
+  if (algorithm !== "scrypt" || !salt || !key) return false;
+  const expected = Buffer.from(key, "hex");
+  const actual = await deriveKey(
+    password,
+    Buffer.from(salt, "hex"),
+    expected.length,
+    Number(cost)
+  );
+  return timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,159 @@
+/**
+ * Role-based access control shared by the middleware, server code and the
+ * client. Keep this module free of Node APIs so it can run on the edge.
+ */
+
+export const ROLES = ["admin", "finance", "support", "viewer"] as const;
+export type Role = (typeof ROLES)[number];
+
+export type Permission =
+  | "invoices:view"
+  | "invoices:edit"
+  | "invoices:delete"
+  | "transactions:view"
+  | "orders:manage"
+  | "billing:manage"
+  | "customers:view"
+  | "products:view"
+  | "products:edit"
+  | "products:delete"
+  | "support:view"
+  | "support:reply"
+  | "support:delete"
+  | "support:macros"
+  | "email:use"
+  | "chat:use"
+  | "tasks:view"
+  | "tasks:edit"
+  | "api-keys:view"
+  | "api-keys:manage"
+  | "integrations:manage";
+
+const rolePermissions: Record<Exclude<Role, "admin">, Permission[]> = {
+  finance: [
+    "invoices:view",
+    "invoices:edit",
+    "invoices:delete",
+    "transactions:view",
+    "orders:manage",
+    "billing:manage",
+    "customers:view",
+    "products:view",
+    "email:use",
+    "chat:use",
+    "tasks:view",
+    "tasks:edit",
+  ],
+  support: [
+    "invoices:view",
+    "transactions:view",
+    "orders:manage",
+    "customers:view",
+    "products:view",
+    "support:view",
+    "support:reply",
+    "support:delete",
+    "email:use",
+    "chat:use",
+    "tasks:view",
+    "tasks:edit",
+  ],
+  viewer: [
+    "invoices:view",
+    "transactions:view",
+    "customers:view",
+    "products:view",
+    "support:view",
+    "tasks:view",
+  ],
+};
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role);
+}
+
+export function hasPermission(
+  role: Role | undefined,
+  permission: Permission
+): boolean {
+  if (!role) return false;
+  if (role === "admin") return true;
+  return rolePermissions[role].includes(permission);
+}
+
+/**
+ * Permission needed to open a route. A route also covers everything below
+ * it, so `/invoices` guards `/invoices/123` too. Routes not listed here are
+ * open to any signed-in user.
+ */
+const routePermissions: { path: string; permission: Permission }[] = [
+  { path: "/invoices", permission: "invoices:view" },
+  { path: "/api/invoices", permission: "invoices:view" },
+  { path: "/single-invoice", permission: "invoices:view" },
+  { path: "/create-invoice", permission: "invoices:edit" },
+  { path: "/transactions", permission: "transactions:view" },
+  { path: "/single-transaction", permission: "transactions:view" },
+  { path: "/api/transactions", permission: "transactions:view" },
+  { path: "/customers", permission: "customers:view" },
+  { path: "/billing", permission: "billing:manage" },
+  { path: "/api/subscriptions", permission: "billing:manage" },
+  { path: "/api/jobs", permission: "billing:manage" },
+  { path: "/products-list", permission: "products:view" },
+  { path: "/add-product", permission: "products:edit" },
+  { path: "/edit-product", permission: "products:edit" },
+  { path: "/api/products", permission: "products:view" },
+  // Listed before `/support-tickets`, which would otherwise cover it
+  { path: "/support-tickets/macros", permission: "support:macros" },
+  { path: "/support-tickets", permission: "support:view" },
+  { path: "/api/support-tickets", permission: "support:view" },
+  { path: "/support-ticket-reply", permission: "support:reply" },
+  { path: "/inbox", permission: "email:use" },
+  { path: "/inbox-details", permission: "email:use" },
+  { path: "/api/mail", permission: "email:use" },
+  { path: "/chat", permission: "chat:use" },
+  { path: "/api/chat", permission: "chat:use" },
+  { path: "/task-list", permission: "tasks:view" },
+  { path: "/task-kanban", permission: "tasks:view" },
+  { path: "/api/tasks", permission: "tasks:view" },
+  { path: "/api-keys", permission: "api-keys:view" },
+  { path: "/integrations", permission: "integrations:manage" },
+];
+
+// Reachable without signing in
+const publicPaths = [
+  "/signin",
+  "/signup",
+  "/reset-password",
+  "/two-step-verification",
+  "/error-404",
+  "/error-500",
+  "/error-503",
+  "/maintenance",
+  "/coming-soon",
+  "/success",
+  // Signed by the payment gateway instead
+  "/api/payments/webhook",
+  // Carries the mail relay's token instead
+  "/api/support-tickets/inbound",
+  // Signed by the carrier instead
+  "/api/shipments/webhook",
+];
+
+function matchesPath(pathname: string, path: string): boolean {
+  return pathname === path || pathname.startsWith(`${path}/`);
+}
+
+export function isPublicPath(pathname: string): boolean {
+  return publicPaths.some((path) => matchesPath(pathname, path));
+}
+
+export function requiredPermission(pathname: string): Permission | undefined {
+  return routePermissions.find((route) => matchesPath(pathname, route.path))
+    ?.permission;
+}
+
+export function canAccessPath(role: Role | undefined, pathname: string) {
+  if (isPublicPath(pathname)) return true;
+  const permission = requiredPermission(pathname);
+  return permission ? hasPermission(role, permission) : !!role;
+}
@@ -0,0 +1,41 @@
+/**
+ * Failed attempts counted per key, such as an account or a client address,
+ * in fixed windows: a key that fails `limit` times is refused until its
+ * window ends. Kept in memory, so the limits are per server process.
+ */
+
+interface FailureWindow {
+  count: number;
+  resetAt: number; // Epoch milliseconds
+}
+
+// Shared across separately bundled server actions and route handlers
+const globalForLimits = globalThis as typeof globalThis & {
+  authFailures?: Map<string, FailureWindow>;
+};
+
+function failures(): Map<string, FailureWindow> {
+  return (globalForLimits.authFailures ??= new Map());
+}
+
+// Milliseconds until `key` may try again, or 0 when it is not limited
+export function retryAfter(key: string, limit: number, now = Date.now()) {
+  const window = failures().get(key);
+  if (!window || window.resetAt <= now) return 0;
+  return window.count >= limit ? window.resetAt - now : 0;
+}
+
+export function recordFailure(key: string, windowMs: number, now = Date.now()) {
+  const all = failures();
+  // Expired windows are dropped as new failures come in
+  for (const [other, window] of all) {
+    if (window.resetAt <= now) all.delete(other);
+  }
+  const window = all.get(key);
+  if (window) window.count += 1;
+  else all.set(key, { count: 1, resetAt: now + windowMs });
+}
+
+export function clearFailures(key: string) {
+  failures().delete(key);
+}
@@ -0,0 +1,19 @@
+// Resolves relative paths; never the host a sign-in may end up on
+const BASE = "http://localhost";
+
+/**
+ * `path` when it stays on this site, "/" otherwise, so a crafted link cannot
+ * send users elsewhere after signing in. Parsed the way browsers do, which
+ * also turns away "//evil.example" and "/\evil.example".
+ */
+export function safeRedirectPath(path: string | undefined): string {
+  if (!path?.startsWith("/")) return "/";
+  try {
+    const url = new URL(path, BASE);
+    return url.origin === BASE
+      ? `${url.pathname}${url.search}${url.hash}`
+      : "/";
+  } catch {
+    return "/";
+  }
+}
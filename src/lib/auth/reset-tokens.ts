@@ -0,0 +1,56 @@
+import { createHash, randomBytes } from "crypto";
+import { createCollection } from "../file-store";
+
+const TOKEN_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+interface PasswordResetToken {
+  tokenHash: string; // Only the hash is stored, the raw token goes in the link
+  userId: string;
+  expiresAt: string;
+}
+
+const resetTokens = createCollection<PasswordResetToken>("password-resets");
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Issues a single-use reset token for a user, replacing any earlier one.
+ */
+export async function createResetToken(userId: string): Promise<string> {
+  const token = randomBytes(32).toString("hex");
+  await resetTokens.update((rows) => {
+    const now = Date.now();
+    const kept = rows.filter(
+      (row) => row.userId !== userId && Date.parse(row.expiresAt) > now
+    );
+    kept.push({
+      tokenHash: hashToken(token),
+      userId,
+      expiresAt: new Date(now + TOKEN_TTL_MS).toISOString(),
+    });
+    rows.splice(0, rows.length, ...kept);
+  });
+  return token;
+}
+
+export async function isResetTokenValid(token: string): Promise<boolean> {
+  const tokenHash = hashToken(token);
+  const row = await resetTokens.find((entry) => entry.tokenHash === tokenHash);
+  return !!row && Date.parse(row.expiresAt) > Date.now();
+}
+
+/**
+ * Removes a token and returns the user it was issued to, or null when the
+ * token is unknown or expired.
+ */
+export function consumeResetToken(token: string): Promise<string | null> {
+  const tokenHash = hashToken(token);
+  return resetTokens.update((rows) => {
+    const index = rows.findIndex((row) => row.tokenHash === tokenHash);
+    if (index === -1) return null;
+    const [row] = rows.splice(index, 1);
+    return Date.parse(row.expiresAt) > Date.now() ? row.userId : null;
+  });
+}
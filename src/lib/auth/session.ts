@@ -0,0 +1,115 @@
+/**
+ * Signed, stateless tokens stored in cookies. Only Web Crypto is used here so
+ * the same verification runs in route handlers, server actions and the edge
+ * middleware.
+ */
+
+import type { Role } from "./permissions";
+
+export const SESSION_COOKIE = "session";
+export const TWO_STEP_COOKIE = "two_step";
+
+export const SESSION_MAX_AGE = 60 * 60 * 12; // 12 hours
+export const REMEMBER_MAX_AGE = 60 * 60 * 24 * 30; // 30 days
+export const TWO_STEP_MAX_AGE = 60 * 5; // 5 minutes to enter the code
+
+export interface SessionPayload {
+  purpose: "session";
+  sub: string; // User id
+  email: string;
+  name: string;
+  role: Role; // Copied at sign-in; role changes apply from the next sign-in
+  exp: number; // Expiry, in seconds since the epoch
+}
+
+// Issued after a correct password when the account has two-step verification
+export interface TwoStepPayload {
+  purpose: "two-step";
+  id: string; // The challenge on the user record, where wrong codes are counted
+  sub: string;
+  remember: boolean;
+  exp: number;
+}
+
+type TokenPayload = SessionPayload | TwoStepPayload;
+
+const DEVELOPMENT_SECRET = "development-only-secret-change-me";
+
+function getSecret(): string {
+  const secret = process.env.AUTH_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("AUTH_SECRET must be set in production");
+  }
+  return DEVELOPMENT_SECRET;
+}
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+function importKey(): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    encoder.encode(getSecret()),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+}
+
+export function expiresIn(seconds: number): number {
+  return Math.floor(Date.now() / 1000) + seconds;
+}
+
+export async function signToken(payload: TokenPayload): Promise<string> {
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await importKey(),
+    encoder.encode(body)
+  );
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Returns the payload of a token that is correctly signed, not expired and
+ * issued for `purpose`, or null for anything else.
+ */
+export async function verifyToken<P extends TokenPayload["purpose"]>(
+  token: string | undefined,
+  purpose: P
+): Promise<Extract<TokenPayload, { purpose: P }> | null> {
+  if (!token) return null;
+  const [body, signature] = token.split(".");
+  if (!body || !signature) return null;
+  try {
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      await importKey(),
+      fromBase64Url(signature),
+      encoder.encode(body)
+    );
+    if (!valid) return null;
+    const payload = JSON.parse(
+      new TextDecoder().decode(fromBase64Url(body))
+    ) as TokenPayload;
+    if (payload.purpose !== purpose) return null;
+    if (payload.exp < Math.floor(Date.now() / 1000)) return null;
+    return payload as Extract<TokenPayload, { purpose: P }>;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,119 @@
+import { randomUUID } from "crypto";
+import { createCollection } from "../file-store";
+import type { Role } from "./permissions";
+import { generateTotpSecret } from "./totp";
+
+export interface User {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string; // Stored lower-cased
+  passwordHash: string;
+  role: Role;
+  totpEnabled: boolean;
+  totpSecret?: string; // Active secret, once two-step verification is on
+  pendingTotpSecret?: string; // Secret shown during enrollment, not yet confirmed
+  totpLastCounter?: number; // Last accepted time step, to reject replays
+  twoStepChallenge?: TwoStepChallenge; // Sign-in waiting for a code
+  createdAt: string;
+}
+
+// Matched against the id in the two-step cookie, which cannot count by itself
+export interface TwoStepChallenge {
+  id: string;
+  failures: number; // Wrong codes entered so far
+}
+
+// Wrong codes allowed before the sign-in has to start over
+export const MAX_TWO_STEP_FAILURES = 5;
+
+const users = createCollection<User>("users");
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function displayName(user: User): string {
+  return `${user.firstName} ${user.lastName}`.trim();
+}
+
+export function findUserByEmail(email: string): Promise<User | undefined> {
+  const normalized = normalizeEmail(email);
+  return users.find((user) => user.email === normalized);
+}
+
+export function listUsers(): Promise<User[]> {
+  return users.all();
+}
+
+export function findUserById(id: string): Promise<User | undefined> {
+  return users.find((user) => user.id === id);
+}
+
+/**
+ * Creates an account, or returns null when the email is already registered.
+ * The first account becomes the admin; later sign-ups start as viewers until
+ * an admin grants them more.
+ */
+export function createUser(
+  input: Pick<User, "firstName" | "lastName" | "email" | "passwordHash">
+): Promise<User | null> {
+  return users.update((rows) => {
+    const email = normalizeEmail(input.email);
+    if (rows.some((user) => user.email === email)) return null;
+    const user: User = {
+      ...input,
+      id: randomUUID(),
+      email,
+      role: rows.length === 0 ? "admin" : "viewer",
+      totpEnabled: false,
+      createdAt: new Date().toISOString(),
+    };
+    rows.push(user);
+    return user;
+  });
+}
+
+export function updateUser(
+  id: string,
+  changes: Partial<Omit<User, "id" | "email" | "createdAt">>
+): Promise<User | null> {
+  return users.update((rows) => {
+    const user = rows.find((row) => row.id === id);
+    if (!user) return null;
+    Object.assign(user, changes);
+    return user;
+  });
+}
+
+/**
+ * Secret shown while the user adds the account to an authenticator app.
+ * It is kept until confirmed with a valid code, so reloading the page does
+ * not invalidate an entry the user already scanned.
+ */
+export async function getEnrollmentSecret(user: User): Promise<string> {
+  if (user.pendingTotpSecret) return user.pendingTotpSecret;
+  const secret = generateTotpSecret();
+  await updateUser(user.id, { pendingTotpSecret: secret });
+  return secret;
+}
+
+/**
+ * Counts a wrong code against the user's pending sign-in. Returns false, and
+ * voids the challenge, once it has had `MAX_TWO_STEP_FAILURES` wrong codes
+ * or when `challengeId` is not the pending one.
+ */
+export function recordTwoStepFailure(
+  id: string,
+  challengeId: string
+): Promise<boolean> {
+  return users.update((rows) => {
+    const user = rows.find((row) => row.id === id);
+    const challenge = user?.twoStepChallenge;
+    if (!user || challenge?.id !== challengeId) return false;
+    challenge.failures += 1;
+    if (challenge.failures < MAX_TWO_STEP_FAILURES) return true;
+    user.twoStepChallenge = undefined;
+    return false;
+  });
+}
@@ -0,0 +1,87 @@
+import { toMinorUnits, type CurrencyCode, type Money } from "../money";
+
+export type BillingInterval = "month" | "year";
+
+export const BILLING_INTERVALS: BillingInterval[] = ["month", "year"];
+
+export const INTERVAL_LABELS: Record<BillingInterval, string> = {
+  month: "monthly",
+  year: "yearly",
+};
+
+export interface PlanBenefit {
+  name: string;
+  included: boolean;
+}
+
+export interface BillingPlan {
+  id: string;
+  name: string;
+  description: string;
+  orderLimit: number; // Orders per month
+  prices: Record<BillingInterval, number>; // Major units of PLAN_CURRENCY
+  benefits: PlanBenefit[];
+}
+
+// Every plan is priced, and every subscription invoiced, in this currency
+export const PLAN_CURRENCY: CurrencyCode = "USD";
+
+// Ordered from smallest to largest, so an index comparison tells upgrades apart
+export const BILLING_PLANS: BillingPlan[] = [
+  {
+    id: "personal",
+    name: "Personal",
+    description: "For solo designers & freelancers",
+    orderLimit: 5000,
+    prices: { month: 59, year: 590 },
+    benefits: [
+      { name: "5,000 orders per month", included: true },
+      { name: "3 integrations", included: true },
+      { name: "Exclusive AutoFile discount", included: false },
+      { name: "1 GB Storage", included: true },
+      { name: "Custom Templates", included: false },
+      { name: "Advanced Marketing tool", included: false },
+    ],
+  },
+  {
+    id: "professional",
+    name: "Professional",
+    description: "For working on commercial projects",
+    orderLimit: 25500,
+    prices: { month: 199, year: 1990 },
+    benefits: [
+      { name: "25,500 orders per month", included: true },
+      { name: "Unlimited integrations", included: true },
+      { name: "Exclusive AutoFile discount", included: true },
+      { name: "10 GB Storage", included: true },
+      { name: "Custom Templates", included: false },
+      { name: "Advanced Marketing tool", included: false },
+    ],
+  },
+  {
+    id: "enterprise",
+    name: "Enterprise",
+    description: "For teams larger than 5 members",
+    orderLimit: 100000,
+    prices: { month: 599, year: 5990 },
+    benefits: [
+      { name: "100,000 orders per month", included: true },
+      { name: "Unlimited integrations", included: true },
+      { name: "Exclusive AutoFile discount", included: true },
+      { name: "100 GB Storage", included: true },
+      { name: "Custom Templates", included: true },
+      { name: "Advanced Marketing tool", included: true },
+    ],
+  },
+];
+
+export function getPlan(id: string): BillingPlan | undefined {
+  return BILLING_PLANS.find((plan) => plan.id === id);
+}
+
+export function planPrice(plan: BillingPlan, interval: BillingInterval): Money {
+  return {
+    amount: toMinorUnits(plan.prices[interval], PLAN_CURRENCY),
+    currency: PLAN_CURRENCY,
+  };
+}
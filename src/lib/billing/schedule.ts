@@ -0,0 +1,115 @@
+import type { Subscription } from "../mock-data/subscriptions";
+import type { Money } from "../money";
+import {
+  getPlan,
+  PLAN_CURRENCY,
+  planPrice,
+  type BillingInterval,
+} from "./plans";
+
+// Billing dates are YYYY-MM-DD calendar days, compared and counted in UTC
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/**
+ * The day one interval after `day`, on the `anchor` day of the month. Short
+ * months use their last day, and the next period goes back to the anchor,
+ * so a subscription started on the 31st never drifts to the 28th.
+ */
+export function nextPeriodEnd(
+  day: string,
+  interval: BillingInterval,
+  anchor: number
+): string {
+  const [year, month] = day.split("-").map(Number);
+  const months = year * 12 + (month - 1) + (interval === "month" ? 1 : 12);
+  const nextYear = Math.floor(months / 12);
+  const nextMonth = (months % 12) + 1;
+  const lastDay = new Date(Date.UTC(nextYear, nextMonth, 0)).getUTCDate();
+  return `${nextYear}-${pad(nextMonth)}-${pad(Math.min(anchor, lastDay))}`;
+}
+
+// "Aug 22 – Sep 22, 2026", for invoice lines
+export function formatPeriod(start: string, end: string): string {
+  const format = (day: string, withYear: boolean) =>
+    new Date(`${day}T00:00:00Z`).toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+      ...(withYear ? { year: "numeric" } : {}),
+      timeZone: "UTC",
+    });
+  return `${format(start, start.slice(0, 4) !== end.slice(0, 4))} – ${format(
+    end,
+    true
+  )}`;
+}
+
+export interface PlanChangeQuote {
+  planId: string;
+  interval: BillingInterval;
+  credit: Money; // Unused time left on the current plan
+  charge: Money; // The new plan up to the end of its first period
+  due: Money; // Invoiced now: charge less credits, never below zero
+  remainingCredit: number; // Minor units carried over to later invoices
+  periodStart: string;
+  periodEnd: string;
+}
+
+/**
+ * What switching `subscription` to `planId` on `interval` costs on `today`.
+ * On the same interval the current period is kept and both plans are
+ * prorated by the days left in it; a new interval starts a new period
+ * today, charged in full less the unused time.
+ */
+export function quotePlanChange(
+  subscription: Subscription,
+  planId: string,
+  interval: BillingInterval,
+  today: string
+): PlanChangeQuote | { error: string } {
+  const current = getPlan(subscription.planId);
+  const next = getPlan(planId);
+  if (!current || !next) return { error: "Unknown plan" };
+  if (subscription.status !== "Active") {
+    return { error: "The subscription has been canceled" };
+  }
+  if (planId === subscription.planId && interval === subscription.interval) {
+    return { error: "The subscription is already on this plan" };
+  }
+
+  const { currentPeriodStart: start, currentPeriodEnd: end } = subscription;
+  const periodDays = Math.max(1, daysBetween(start, end));
+  const remainingDays = Math.min(
+    periodDays,
+    Math.max(0, daysBetween(today, end))
+  );
+  const prorate = (amount: number) =>
+    Math.round((amount * remainingDays) / periodDays);
+
+  const credit = prorate(planPrice(current, subscription.interval).amount);
+  const sameInterval = interval === subscription.interval;
+  const charge = sameInterval
+    ? prorate(planPrice(next, interval).amount)
+    : planPrice(next, interval).amount;
+  const net = charge - credit - subscription.credit;
+  const money = (amount: number) => ({ amount, currency: PLAN_CURRENCY });
+
+  return {
+    planId,
+    interval,
+    credit: money(credit),
+    charge: money(charge),
+    due: money(Math.max(0, net)),
+    remainingCredit: Math.max(0, -net),
+    periodStart: sameInterval ? start : today,
+    periodEnd: sameInterval
+      ? end
+      : nextPeriodEnd(today, interval, Number(today.slice(8, 10))),
+  };
+}
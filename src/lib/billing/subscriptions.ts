@@ -0,0 +1,366 @@
+import { findCustomerByEmail } from "../customers";
+import { createCollection } from "../file-store";
+import { calendarDay } from "../invoice-lifecycle";
+import { createInvoice, sendInvoice } from "../invoices";
+import type { Job } from "../jobs";
+import {
+  BILLING_COUNTRIES,
+  subscriptionSeed,
+  type BillingDetails,
+  type Subscription,
+} from "../mock-data/subscriptions";
+import { formatMoney } from "../money";
+import type { InvoiceLine } from "../mock-data/invoices";
+import {
+  BILLING_INTERVALS,
+  getPlan,
+  INTERVAL_LABELS,
+  PLAN_CURRENCY,
+  planPrice,
+  type BillingInterval,
+  type BillingPlan,
+} from "./plans";
+import { formatPeriod, nextPeriodEnd, quotePlanChange } from "./schedule";
+
+const subscriptions = createCollection<Subscription>(
+  "subscriptions",
+  () => subscriptionSeed
+);
+
+export function listSubscriptions(): Promise<Subscription[]> {
+  return subscriptions.all();
+}
+
+export async function getSubscription(
+  id: string
+): Promise<Subscription | null> {
+  return (await subscriptions.find((row) => row.id === id)) ?? null;
+}
+
+export type SubscriptionChangeResult =
+  | { subscription: Subscription }
+  | { error: string; status: 404 | 409 };
+
+const notFound = { error: "Subscription not found", status: 404 as const };
+
+// Actor recorded for everything the billing job does
+const SYSTEM_ACTOR = "System";
+
+// Subscription invoices fall due this many days after they are issued
+const PAYMENT_TERMS_DAYS = 14;
+
+function addDays(day: string, days: number): string {
+  return new Date(Date.parse(day) + days * 24 * 60 * 60 * 1000)
+    .toISOString()
+    .slice(0, 10);
+}
+
+const planLabel = (plan: BillingPlan, interval: BillingInterval) =>
+  `${plan.name} plan, ${INTERVAL_LABELS[interval]}`;
+
+// Creates and sends a one-line invoice; returns its id
+async function issueInvoice(
+  subscription: Subscription,
+  product: string,
+  amount: number,
+  actor: string,
+  today: string
+): Promise<number> {
+  const line: InvoiceLine = {
+    product,
+    quantity: 1,
+    unitCost: amount,
+    discount: 0,
+    taxRateIds: ["vat"],
+  };
+  const customer = await findCustomerByEmail(subscription.billingDetails.email);
+  const invoice = await createInvoice(
+    {
+      customer: subscription.customer,
+      customerAddress: subscription.customerAddress,
+      customerId: customer?.id,
+      dueDate: addDays(today, PAYMENT_TERMS_DAYS),
+      currency: PLAN_CURRENCY,
+      items: [line],
+      taxRates: [
+        { id: "vat", name: "VAT", rate: subscription.vatRate, compound: false },
+      ],
+      pricesIncludeTax: false,
+      discount: null,
+      shipping: null,
+    },
+    actor
+  );
+  await sendInvoice(String(invoice.id), actor);
+  return invoice.id;
+}
+
+/**
+ * Invoices every renewal that has come due by `today`, one period at a
+ * time so missed runs are caught up, and ends subscriptions canceled at
+ * the end of their period. Credit from downgrades comes off the renewal
+ * price first; a renewal the credit covers in full is not invoiced.
+ * Returns how many invoices were issued.
+ */
+export function billDueSubscriptions(today: string): Promise<number> {
+  return subscriptions.update(async (rows) => {
+    let issued = 0;
+    for (const subscription of rows) {
+      while (
+        subscription.status === "Active" &&
+        subscription.currentPeriodEnd <= today
+      ) {
+        const start = subscription.currentPeriodEnd;
+        if (subscription.cancelAtPeriodEnd) {
+          subscription.status = "Canceled";
+          subscription.history.push({
+            at: new Date().toISOString(),
+            actor: SYSTEM_ACTOR,
+            description: `Canceled at the end of the period on ${start}`,
+          });
+          break;
+        }
+        const plan = getPlan(subscription.planId);
+        if (!plan) break;
+
+        const end = nextPeriodEnd(
+          start,
+          subscription.interval,
+          subscription.billingAnchor
+        );
+        const price = planPrice(plan, subscription.interval).amount;
+        const applied = Math.min(price, subscription.credit);
+        subscription.credit -= applied;
+        if (price > applied) {
+          const credit = applied
+            ? ` (credit of ${formatMoney({
+                amount: applied,
+                currency: PLAN_CURRENCY,
+              })} applied)`
+            : "";
+          const invoiceId = await issueInvoice(
+            subscription,
+            `${planLabel(plan, subscription.interval)} · ${formatPeriod(
+              start,
+              end
+            )}${credit}`,
+            price - applied,
+            SYSTEM_ACTOR,
+            today
+          );
+          subscription.invoices.push({
+            invoiceId,
+            planId: plan.id,
+            reason: "Renewal",
+            periodStart: start,
+            periodEnd: end,
+          });
+          issued++;
+        }
+        subscription.currentPeriodStart = start;
+        subscription.currentPeriodEnd = end;
+      }
+    }
+    return issued;
+  });
+}
+
+/**
+ * Moves the subscription to another plan or interval straight away. The
+ * prorated difference is invoiced now; when the change costs less than the
+ * unused time, the rest is kept as credit for later renewals.
+ */
+export function changePlan(
+  id: string,
+  planId: string,
+  interval: BillingInterval,
+  actor: string,
+  today: string
+): Promise<SubscriptionChangeResult> {
+  return subscriptions.update(async (rows) => {
+    const subscription = rows.find((row) => row.id === id);
+    if (!subscription) return notFound;
+    const quote = quotePlanChange(subscription, planId, interval, today);
+    if ("error" in quote) return { error: quote.error, status: 409 as const };
+    const current = getPlan(subscription.planId)!;
+    const next = getPlan(planId)!;
+
+    if (quote.due.amount > 0) {
+      const invoiceId = await issueInvoice(
+        subscription,
+        `${planLabel(next, interval)} · ${formatPeriod(
+          quote.periodStart,
+          quote.periodEnd
+        )}, prorated less unused ${current.name} time`,
+        quote.due.amount,
+        actor,
+        today
+      );
+      subscription.invoices.push({
+        invoiceId,
+        planId,
+        reason: "Plan change",
+        periodStart: quote.periodStart,
+        periodEnd: quote.periodEnd,
+      });
+    }
+    subscription.history.push({
+      at: new Date().toISOString(),
+      actor,
+      description: `Changed from ${current.name} (${
+        INTERVAL_LABELS[subscription.interval]
+      }) to ${next.name} (${INTERVAL_LABELS[interval]})`,
+    });
+
+    if (interval !== subscription.interval) {
+      subscription.billingAnchor = Number(today.slice(8, 10));
+    }
+    Object.assign(subscription, {
+      planId,
+      interval,
+      currentPeriodStart: quote.periodStart,
+      currentPeriodEnd: quote.periodEnd,
+      credit: quote.remainingCredit,
+    });
+    return { subscription };
+  });
+}
+
+// Cancels at the end of the paid period, or takes a pending cancel back
+export function setCancelAtPeriodEnd(
+  id: string,
+  cancel: boolean,
+  actor: string
+): Promise<SubscriptionChangeResult> {
+  return subscriptions.update((rows) => {
+    const subscription = rows.find((row) => row.id === id);
+    if (!subscription) return notFound;
+    if (subscription.status !== "Active") {
+      return {
+        error: "The subscription has been canceled",
+        status: 409 as const,
+      };
+    }
+    if (subscription.cancelAtPeriodEnd !== cancel) {
+      subscription.cancelAtPeriodEnd = cancel;
+      subscription.history.push({
+        at: new Date().toISOString(),
+        actor,
+        description: cancel
+          ? `Set to cancel on ${subscription.currentPeriodEnd}`
+          : "Pending cancellation withdrawn",
+      });
+    }
+    return { subscription };
+  });
+}
+
+/**
+ * Replaces who the subscription bills. The name and address printed on
+ * invoices follow, so the next renewal goes out with the new details.
+ */
+export function updateBillingDetails(
+  id: string,
+  details: BillingDetails,
+  actor: string
+): Promise<SubscriptionChangeResult> {
+  return subscriptions.update((rows) => {
+    const subscription = rows.find((row) => row.id === id);
+    if (!subscription) return notFound;
+    subscription.billingDetails = details;
+    subscription.customer = `${details.firstName} ${details.lastName}`;
+    subscription.customerAddress = [
+      details.street,
+      [details.city, details.region, details.postalCode]
+        .filter(Boolean)
+        .join(", "),
+    ];
+    subscription.history.push({
+      at: new Date().toISOString(),
+      actor,
+      description: "Billing details updated",
+    });
+    return { subscription };
+  });
+}
+
+export type SubscriptionChange =
+  | { planId: string; interval: BillingInterval }
+  | { cancelAtPeriodEnd: boolean }
+  | { billingDetails: BillingDetails };
+
+const MAX_DETAIL_LENGTH = 120;
+
+function parseBillingDetails(
+  input: unknown
+): { details: BillingDetails } | { error: string } {
+  if (typeof input !== "object" || input === null) {
+    return { error: "Expected billing details" };
+  }
+  const body = input as Record<string, unknown>;
+  const text = (key: keyof BillingDetails) =>
+    typeof body[key] === "string"
+      ? body[key].trim().slice(0, MAX_DETAIL_LENGTH)
+      : "";
+  const country = BILLING_COUNTRIES.find((value) => value === body.country);
+  if (!country) return { error: "Unknown country" };
+  const details: BillingDetails = {
+    firstName: text("firstName"),
+    lastName: text("lastName"),
+    email: text("email"),
+    street: text("street"),
+    city: text("city"),
+    region: text("region"),
+    postalCode: text("postalCode"),
+    country,
+    vatNumber: text("vatNumber").toUpperCase(),
+  };
+  if (!details.firstName || !details.lastName) {
+    return { error: "Enter the first and last name" };
+  }
+  if (!/^[^\s@]+@[^\s@]+$/.test(details.email)) {
+    return { error: "Enter a valid email address" };
+  }
+  if (!details.street || !details.city) {
+    return { error: "Enter the street and city" };
+  }
+  return { details };
+}
+
+/**
+ * Validates a change sent by a client: a new plan, a cancel flag or new
+ * billing details
+ */
+export function parseSubscriptionChange(
+  input: unknown
+): { change: SubscriptionChange } | { error: string } {
+  if (typeof input !== "object" || input === null) {
+    return { error: "Expected a change" };
+  }
+  const body = input as Record<string, unknown>;
+  if (typeof body.cancelAtPeriodEnd === "boolean") {
+    return { change: { cancelAtPeriodEnd: body.cancelAtPeriodEnd } };
+  }
+  if (body.billingDetails !== undefined) {
+    const parsed = parseBillingDetails(body.billingDetails);
+    return "error" in parsed
+      ? parsed
+      : { change: { billingDetails: parsed.details } };
+  }
+  if (typeof body.planId !== "string" || !getPlan(body.planId)) {
+    return { error: "Unknown plan" };
+  }
+  const interval = BILLING_INTERVALS.find((value) => value === body.interval);
+  if (!interval) return { error: 'Expected a "month" or "year" interval' };
+  return { change: { planId: body.planId, interval } };
+}
+
+export const subscriptionBillingJob: Job = {
+  name: "subscription-billing",
+  description: "Invoices subscription renewals that have come due",
+  intervalMs: 60 * 60 * 1000,
+  async run(now) {
+    const issued = await billDueSubscriptions(calendarDay(now));
+    return `Issued ${issued} ${issued === 1 ? "invoice" : "invoices"}`;
+  },
+};
@@ -0,0 +1,103 @@
+import type { Permission } from "./auth/permissions";
+
+/**
+ * Bulk actions the selectable tables offer on their selected rows, shared
+ * by the server and the action bar. Running them is in ./bulk-runner.
+ */
+
+export type BulkResource = "invoices" | "orders" | "products" | "tickets";
+
+export type BulkActionType = "delete" | "status" | "assign" | "tag";
+
+export type BulkAction =
+  | { type: "delete" }
+  | { type: "status" | "assign" | "tag"; value: string };
+
+// Permission each action needs; actions left out are not offered at all
+export const BULK_PERMISSIONS: Record<
+  BulkResource,
+  Partial<Record<BulkActionType, Permission>>
+> = {
+  invoices: { delete: "invoices:delete", status: "invoices:edit" },
+  orders: { status: "orders:manage", tag: "orders:manage" },
+  products: { delete: "products:delete", status: "products:edit" },
+  tickets: {
+    delete: "support:delete",
+    status: "support:reply",
+    assign: "support:reply",
+    tag: "support:reply",
+  },
+};
+
+// Rows one request may change; the action bar sends larger selections in parts
+export const MAX_BULK_IDS = 50;
+
+export interface BulkRequest {
+  action: BulkAction;
+  ids: string[];
+}
+
+export interface BulkFailure {
+  id: string;
+  error: string; // Why the row was left as it was
+}
+
+export interface BulkResult {
+  succeeded: string[];
+  failed: BulkFailure[];
+  undoToken: string | null; // Null when nothing changed
+}
+
+export interface BulkUndoResult {
+  restored: string[];
+  failed: BulkFailure[];
+}
+
+export function isBulkResource(value: unknown): value is BulkResource {
+  return typeof value === "string" && Object.hasOwn(BULK_PERMISSIONS, value);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validates `{ "action": { "type": "status", "value": "Paid" }, "ids": [...] }`
+ * for `resource`. Whether the value fits each row is checked when it runs.
+ */
+export function parseBulkRequest(
+  resource: BulkResource,
+  input: unknown
+): { request: BulkRequest } | { error: string } {
+  if (!isRecord(input) || !isRecord(input.action)) {
+    return { error: "Expected an action and the ids it applies to" };
+  }
+  const { type, value } = input.action;
+  const allowed = Object.keys(BULK_PERMISSIONS[resource]);
+  if (typeof type !== "string" || !allowed.includes(type)) {
+    return { error: `Expected one of ${allowed.join(", ")}` };
+  }
+  const ids = input.ids;
+  if (
+    !Array.isArray(ids) ||
+    ids.length === 0 ||
+    !ids.every((id) => typeof id === "string")
+  ) {
+    return { error: "Expected a list of ids" };
+  }
+  if (ids.length > MAX_BULK_IDS) {
+    return { error: `Send up to ${MAX_BULK_IDS} ids at a time` };
+  }
+  if (type === "delete") {
+    return { request: { action: { type }, ids: [...new Set(ids)] } };
+  }
+  const text = typeof value === "string" ? value.trim() : "";
+  if (!text) return { error: "A value is required" };
+  if (text.length > 40) return { error: "Values are limited to 40 characters" };
+  return {
+    request: {
+      action: { type: type as Exclude<BulkActionType, "delete">, value: text },
+      ids: [...new Set(ids)],
+    },
+  };
+}
@@ -0,0 +1,215 @@
+import { randomUUID } from "crypto";
+import type {
+  BulkAction,
+  BulkActionType,
+  BulkFailure,
+  BulkRequest,
+  BulkResource,
+  BulkResult,
+  BulkUndoResult,
+} from "./bulk-actions";
+import { createCollection, type Collection } from "./file-store";
+import { invoiceBulkAdapter } from "./invoices";
+import type { Job } from "./jobs";
+import { orderBulkAdapter } from "./orders";
+import { productBulkAdapter } from "./products";
+import { ticketBulkAdapter } from "./support-tickets";
+
+/**
+ * How a resource takes part in bulk actions. Adapters only touch the row
+ * itself, so putting back a copy of the row undoes the action completely.
+ */
+export interface BulkAdapter<T> {
+  update: Collection<T>["update"]; // The resource's collection
+  idOf(row: T): string;
+  // Changes `row` in place, or returns why it was left alone
+  change(
+    row: T,
+    action: Exclude<BulkAction, { type: "delete" }>,
+    actor: string
+  ): string | void;
+  // Why `row` cannot be deleted, if it cannot
+  refuseDelete?(row: T): string | void;
+  // Cleans up after a deleted row once it can no longer be brought back
+  purge?(row: T): Promise<void>;
+}
+
+const ADAPTERS: Record<BulkResource, BulkAdapter<object>> = {
+  invoices: invoiceBulkAdapter,
+  orders: orderBulkAdapter,
+  products: productBulkAdapter,
+  tickets: ticketBulkAdapter,
+};
+
+// How long a bulk action can be undone for
+const UNDO_WINDOW_MS = 10 * 60 * 1000;
+
+interface UndoRow {
+  id: string;
+  index: number; // Position in the collection, to put deleted rows back
+  before: object;
+  after: object | null; // Null when the row was deleted
+}
+
+interface UndoEntry {
+  token: string;
+  resource: BulkResource;
+  action: BulkActionType;
+  actor: string;
+  expiresAt: string; // ISO timestamp
+  rows: UndoRow[]; // In the order they were changed
+}
+
+const undoEntries = createCollection<UndoEntry>("bulk-undo");
+
+const same = (a: object, b: object) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Applies `action` to every row in `ids`, one row at a time. Rows the
+ * action does not fit are skipped with the reason; the others are changed
+ * and can be put back with the returned token.
+ */
+export async function runBulkAction(
+  resource: BulkResource,
+  { action, ids }: BulkRequest,
+  actor: string
+): Promise<BulkResult> {
+  const adapter = ADAPTERS[resource];
+  const changed: UndoRow[] = [];
+  const failed: BulkFailure[] = [];
+
+  await adapter.update((rows) => {
+    for (const id of ids) {
+      const index = rows.findIndex((row) => adapter.idOf(row) === id);
+      if (index === -1) {
+        failed.push({ id, error: "Not found" });
+        continue;
+      }
+      const row = rows[index];
+      const before = structuredClone(row);
+      const error =
+        action.type === "delete"
+          ? adapter.refuseDelete?.(row)
+          : adapter.change(row, action, actor);
+      if (error) {
+        failed.push({ id, error });
+        continue;
+      }
+      if (action.type === "delete") rows.splice(index, 1);
+      changed.push({
+        id,
+        index,
+        before,
+        after: action.type === "delete" ? null : structuredClone(row),
+      });
+    }
+  });
+
+  if (changed.length === 0) return { succeeded: [], failed, undoToken: null };
+  const token = randomUUID();
+  await undoEntries.update((rows) => {
+    rows.push({
+      token,
+      resource,
+      action: action.type,
+      actor,
+      expiresAt: new Date(Date.now() + UNDO_WINDOW_MS).toISOString(),
+      rows: changed,
+    });
+  });
+  return {
+    succeeded: changed.map((row) => row.id),
+    failed,
+    undoToken: token,
+  };
+}
+
+// The action an undo token belongs to, so the caller can check permissions
+export async function findBulkUndo(
+  resource: BulkResource,
+  token: string
+): Promise<{ action: BulkActionType } | null> {
+  const entry = await undoEntries.find(
+    (row) => row.token === token && row.resource === resource
+  );
+  return entry && Date.parse(entry.expiresAt) > Date.now()
+    ? { action: entry.action }
+    : null;
+}
+
+/**
+ * Puts the rows of a bulk action back as they were. Rows that changed again
+ * since are left alone, as restoring them would lose the newer change.
+ */
+export async function undoBulkAction(
+  resource: BulkResource,
+  token: string
+): Promise<BulkUndoResult | { error: string; status: 404 }> {
+  const entry = await undoEntries.update((rows) => {
+    const index = rows.findIndex(
+      (row) => row.token === token && row.resource === resource
+    );
+    return index === -1 ? undefined : rows.splice(index, 1)[0];
+  });
+  if (!entry || Date.parse(entry.expiresAt) <= Date.now()) {
+    if (entry) await purgeDeleted(entry);
+    return { error: "This change can no longer be undone", status: 404 };
+  }
+
+  const adapter = ADAPTERS[resource];
+  const restored: string[] = [];
+  const failed: BulkFailure[] = [];
+  await adapter.update((rows) => {
+    // Newest first, so deleted rows go back where they were
+    for (const { id, index, before, after } of [...entry.rows].reverse()) {
+      const current = rows.findIndex((row) => adapter.idOf(row) === id);
+      if (after === null) {
+        if (current !== -1) {
+          failed.push({ id, error: "Its id has been taken since" });
+          continue;
+        }
+        rows.splice(Math.min(index, rows.length), 0, before);
+      } else {
+        if (current === -1) {
+          failed.push({ id, error: "It has been deleted since" });
+          continue;
+        }
+        if (!same(rows[current], after)) {
+          failed.push({ id, error: "It has been changed since" });
+          continue;
+        }
+        rows[current] = before;
+      }
+      restored.push(id);
+    }
+  });
+  return { restored: restored.reverse(), failed: failed.reverse() };
+}
+
+async function purgeDeleted(entry: UndoEntry) {
+  const { purge } = ADAPTERS[entry.resource];
+  if (!purge) return;
+  for (const row of entry.rows) {
+    if (row.after === null) await purge(row.before);
+  }
+}
+
+// Forgets undo tokens that ran out, cleaning up after the rows they deleted
+export const bulkUndoExpiryJob: Job = {
+  name: "bulk-undo-expiry",
+  description: "Forgets bulk actions that can no longer be undone",
+  intervalMs: 5 * 60 * 1000,
+  async run(now) {
+    const expired = await undoEntries.update((rows) => {
+      const gone = rows.filter(
+        (row) => Date.parse(row.expiresAt) <= now.getTime()
+      );
+      for (const entry of gone) rows.splice(rows.indexOf(entry), 1);
+      return gone;
+    });
+    for (const entry of expired) await purgeDeleted(entry);
+    return `Forgot ${expired.length} bulk ${
+      expired.length === 1 ? "action" : "actions"
+    }`;
+  },
+};
@@ -0,0 +1,83 @@
+import { randomBytes } from "crypto";
+import type { Job } from "./jobs";
+import {
+  statusLocation,
+  type Shipment,
+  type ShipmentStatus,
+} from "./mock-data/shipments";
+import {
+  isShipmentActive,
+  listShipments,
+  receiveCarrierWebhook,
+  signCarrierUpdate,
+  type CarrierUpdate,
+} from "./shipments";
+
+/**
+ * Stands in for the carriers during development: moves each active
+ * shipment one step along its route and reports it through the same signed
+ * webhook path a real carrier's update takes. Configured through:
+ *
+ * - `CARRIER_SIMULATOR`: `on` or `off`; on by default outside production
+ */
+
+// How long a shipment stays in a status before the simulator moves it on
+const STEP_MS = 20 * 60 * 1000;
+
+// In-transit scans reported along the way before it goes out for delivery
+const TRANSIT_SCANS = 3;
+
+function isEnabled(): boolean {
+  const setting = process.env.CARRIER_SIMULATOR;
+  return setting ? setting === "on" : process.env.NODE_ENV !== "production";
+}
+
+// The update a carrier would send next, or null once the shipment is done
+function nextUpdate(shipment: Shipment, now: Date): CarrierUpdate | null {
+  const scans = shipment.events.filter(
+    (event) => event.status === "In Transit"
+  ).length;
+  const next: Partial<Record<ShipmentStatus, ShipmentStatus>> = {
+    Pending: "Processing",
+    Processing: "Picked Up",
+    "Picked Up": "In Transit",
+    "In Transit": scans < TRANSIT_SCANS ? "In Transit" : "Out for Delivery",
+    "Out for Delivery": "Delivered",
+  };
+  const status = next[shipment.status];
+  if (!status) return null;
+  return {
+    trackingId: shipment.trackingId,
+    eventId: `sim_${randomBytes(8).toString("hex")}`,
+    status,
+    at: now.toISOString(),
+    ...statusLocation(
+      status,
+      shipment.origin,
+      shipment.destination,
+      (scans + 1) / (TRANSIT_SCANS + 1)
+    ),
+  };
+}
+
+export const carrierSimulatorJob: Job = {
+  name: "carrier-simulator",
+  description: "Moves active shipments along as a carrier's updates would",
+  intervalMs: 10 * 60 * 1000,
+  async run(now) {
+    if (!isEnabled()) return "Simulator is off";
+    let moved = 0;
+    for (const shipment of (await listShipments()).filter(isShipmentActive)) {
+      const last = shipment.events[shipment.events.length - 1];
+      if (last && now.getTime() - Date.parse(last.at) < STEP_MS) continue;
+      const update = nextUpdate(shipment, now);
+      if (!update) continue;
+      const body = JSON.stringify(update);
+      const result = await receiveCarrierWebhook(body, signCarrierUpdate(body));
+      if ("error" in result) throw new Error(result.error);
+      moved++;
+    }
+    if (moved === 0) return "No shipments due for an update";
+    return `Moved ${moved} ${moved === 1 ? "shipment" : "shipments"} along`;
+  },
+};
@@ -0,0 +1,54 @@
+import type { ChatMessage } from "./chat";
+
+// Pushed to open chat pages over Server-Sent Events
+export type ChatEvent =
+  | { type: "message"; message: ChatMessage }
+  | { type: "read"; threadId: string; readerId: string; readAt: string }
+  | { type: "typing"; from: string }
+  | { type: "presence"; userId: string; online: boolean };
+
+type Listener = (event: ChatEvent) => void;
+
+// Route handlers can be bundled separately in development, so the listeners
+// live on globalThis to be shared by every handler in the process
+const globalForChat = globalThis as typeof globalThis & {
+  chatListeners?: Map<string, Set<Listener>>;
+};
+const listeners = (globalForChat.chatListeners ??= new Map<
+  string,
+  Set<Listener>
+>());
+
+export function isOnline(userId: string): boolean {
+  return (listeners.get(userId)?.size ?? 0) > 0;
+}
+
+export function publish(userIds: string[], event: ChatEvent) {
+  new Set(userIds).forEach((userId) =>
+    listeners.get(userId)?.forEach((listener) => listener(event))
+  );
+}
+
+function broadcast(event: ChatEvent) {
+  publish(Array.from(listeners.keys()), event);
+}
+
+/**
+ * Delivers events addressed to `userId` until the returned function is
+ * called. A user may have several tabs open; they count as online while any
+ * of them is connected.
+ */
+export function subscribe(userId: string, listener: Listener): () => void {
+  const wasOnline = isOnline(userId);
+  const userListeners = listeners.get(userId) ?? new Set<Listener>();
+  userListeners.add(listener);
+  listeners.set(userId, userListeners);
+  if (!wasOnline) broadcast({ type: "presence", userId, online: true });
+
+  return () => {
+    userListeners.delete(listener);
+    if (userListeners.size > 0) return;
+    listeners.delete(userId);
+    broadcast({ type: "presence", userId, online: false });
+  };
+}
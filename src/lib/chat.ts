@@ -0,0 +1,212 @@
+import { randomUUID } from "crypto";
+import { hasPermission } from "./auth/permissions";
+import { displayName, listUsers } from "./auth/users";
+import { isOnline, publish } from "./chat-events";
+import { createBlobStore, createCollection } from "./file-store";
+import { chatSeedContacts } from "./mock-data/chat";
+
+export type ChatPresence = "online" | "away" | "offline";
+
+export interface ChatContact {
+  id: string; // User id, or a seeded team member id
+  name: string;
+  role: string;
+  avatar?: string; // Initials are shown when missing
+  status: ChatPresence;
+}
+
+export interface ChatAttachment {
+  id: string;
+  name: string;
+  type: string; // MIME type reported by the uploader
+  size: number; // Bytes
+}
+
+export interface ChatMessage {
+  id: string;
+  threadId: string;
+  senderId: string;
+  recipientId: string;
+  body: string;
+  attachments: ChatAttachment[];
+  createdAt: string;
+  readAt: string | null; // When the recipient opened the thread
+}
+
+export interface ChatContactSummary extends ChatContact {
+  lastMessage: ChatMessage | null;
+  unread: number; // Messages from this contact not read yet
+}
+
+export const MAX_MESSAGE_LENGTH = 2000;
+export const MAX_ATTACHMENTS = 5;
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+const messages = createCollection<ChatMessage>("chat-messages");
+const attachmentFiles = createBlobStore("chat-attachments");
+
+// Both participants get the same id, whoever starts the thread
+export function threadIdFor(userId: string, contactId: string): string {
+  return [userId, contactId].sort().join(":");
+}
+
+async function listContacts(userId: string): Promise<ChatContact[]> {
+  const users = (await listUsers())
+    .filter(
+      (user) => user.id !== userId && hasPermission(user.role, "chat:use")
+    )
+    .map<ChatContact>((user) => ({
+      id: user.id,
+      name: displayName(user),
+      role: user.role.charAt(0).toUpperCase() + user.role.slice(1),
+      status: isOnline(user.id) ? "online" : "offline",
+    }));
+  return [...users, ...chatSeedContacts];
+}
+
+/**
+ * Everyone the user can message, most recent conversation first. Contacts
+ * without messages keep their directory order.
+ */
+export async function listContactSummaries(
+  userId: string
+): Promise<ChatContactSummary[]> {
+  const [contacts, allMessages] = await Promise.all([
+    listContacts(userId),
+    messages.all(),
+  ]);
+  const summaries = contacts.map((contact) => {
+    const threadId = threadIdFor(userId, contact.id);
+    const thread = allMessages.filter((m) => m.threadId === threadId);
+    return {
+      ...contact,
+      lastMessage: thread[thread.length - 1] ?? null,
+      unread: thread.filter((m) => m.recipientId === userId && !m.readAt)
+        .length,
+    };
+  });
+  const lastAt = (summary: ChatContactSummary) =>
+    summary.lastMessage?.createdAt ?? "";
+  return summaries.sort((a, b) => lastAt(b).localeCompare(lastAt(a)));
+}
+
+export async function getThread(
+  userId: string,
+  contactId: string
+): Promise<ChatMessage[]> {
+  const threadId = threadIdFor(userId, contactId);
+  return (await messages.all()).filter((m) => m.threadId === threadId);
+}
+
+/**
+ * Stores a message with its attachments and pushes it to both participants,
+ * so the sender's other tabs update too.
+ */
+export async function sendMessage(
+  senderId: string,
+  recipientId: string,
+  input: { body: string; files: File[] }
+): Promise<{ message: ChatMessage } | { error: string }> {
+  const contacts = await listContacts(senderId);
+  if (!contacts.some((contact) => contact.id === recipientId)) {
+    return { error: "Unknown recipient" };
+  }
+  const body = input.body.trim();
+  if (!body && input.files.length === 0) {
+    return { error: "Write a message or attach a file" };
+  }
+  if (body.length > MAX_MESSAGE_LENGTH) {
+    return {
+      error: `Messages are limited to ${MAX_MESSAGE_LENGTH} characters`,
+    };
+  }
+  if (input.files.length > MAX_ATTACHMENTS) {
+    return { error: `Attach up to ${MAX_ATTACHMENTS} files at a time` };
+  }
+  const tooLarge = input.files.find((file) => file.size > MAX_ATTACHMENT_SIZE);
+  if (tooLarge) {
+    return { error: `"${tooLarge.name}" is larger than 10 MB` };
+  }
+
+  const attachments: ChatAttachment[] = [];
+  for (const file of input.files) {
+    const attachment = {
+      id: randomUUID(),
+      name: file.name || "attachment",
+      type: file.type || "application/octet-stream",
+      size: file.size,
+    };
+    await attachmentFiles.write(
+      attachment.id,
+      new Uint8Array(await file.arrayBuffer())
+    );
+    attachments.push(attachment);
+  }
+
+  const message: ChatMessage = {
+    id: randomUUID(),
+    threadId: threadIdFor(senderId, recipientId),
+    senderId,
+    recipientId,
+    body,
+    attachments,
+    createdAt: new Date().toISOString(),
+    readAt: null,
+  };
+  await messages.update((rows) => {
+    rows.push(message);
+  });
+  publish([senderId, recipientId], { type: "message", message });
+  return { message };
+}
+
+/**
+ * Marks the contact's messages to the user as read and sends the receipt to
+ * the contact. Returns the number of messages that were unread.
+ */
+export async function markThreadRead(
+  userId: string,
+  contactId: string
+): Promise<number> {
+  const threadId = threadIdFor(userId, contactId);
+  const readAt = new Date().toISOString();
+  const count = await messages.update((rows) => {
+    const unread = rows.filter(
+      (m) => m.threadId === threadId && m.recipientId === userId && !m.readAt
+    );
+    unread.forEach((m) => (m.readAt = readAt));
+    return unread.length;
+  });
+  if (count > 0) {
+    publish([userId, contactId], {
+      type: "read",
+      threadId,
+      readerId: userId,
+      readAt,
+    });
+  }
+  return count;
+}
+
+export function notifyTyping(senderId: string, recipientId: string) {
+  publish([recipientId], { type: "typing", from: senderId });
+}
+
+/**
+ * An attachment and its bytes, or null when it does not exist or belongs to
+ * a conversation the user is not part of.
+ */
+export async function getAttachment(
+  userId: string,
+  attachmentId: string
+): Promise<{ attachment: ChatAttachment; data: Buffer } | null> {
+  const message = await messages.find(
+    (m) =>
+      (m.senderId === userId || m.recipientId === userId) &&
+      m.attachments.some((attachment) => attachment.id === attachmentId)
+  );
+  const attachment = message?.attachments.find((a) => a.id === attachmentId);
+  if (!attachment) return null;
+  const data = await attachmentFiles.read(attachment.id);
+  return data ? { attachment, data } : null;
+}
@@ -0,0 +1,42 @@
+import { createCollection } from "./file-store";
+
+/**
+ * The highest id or number handed out so far per sequence, so deleting the
+ * newest record never frees its id for the next one. Each sequence also
+ * starts above the records already stored, such as the seeded ones.
+ */
+
+interface Counter {
+  name: string;
+  value: number; // Last value handed out
+}
+
+const counters = createCollection<Counter>("counters");
+
+const current = (rows: Counter[], name: string, highest: number) =>
+  Math.max(rows.find((row) => row.name === name)?.value ?? 0, highest);
+
+// The value `nextCounterValue` would hand out now, without taking it
+export async function peekCounterValue(
+  name: string,
+  highest: number
+): Promise<number> {
+  return current(await counters.all(), name, highest) + 1;
+}
+
+/**
+ * Takes the next value of sequence `name`. `highest` is the largest one in
+ * use by stored records; values are never handed out twice.
+ */
+export function nextCounterValue(
+  name: string,
+  highest: number
+): Promise<number> {
+  return counters.update((rows) => {
+    const value = current(rows, name, highest) + 1;
+    const counter = rows.find((row) => row.name === name);
+    if (counter) counter.value = value;
+    else rows.push({ name, value });
+    return value;
+  });
+}
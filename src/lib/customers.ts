@@ -0,0 +1,148 @@
+import { createCollection } from "./file-store";
+import { listInvoices } from "./invoices";
+import { customerSeed, type Customer } from "./mock-data/customers";
+import type { Invoice } from "./mock-data/invoices";
+import type { SupportTicket } from "./mock-data/support-tickets";
+import type { Transaction } from "./mock-data/transactions";
+import type { Money } from "./money";
+import { listTickets } from "./support-tickets";
+import { listTransactions } from "./transactions";
+
+/**
+ * Customers and the records that belong to them. Orders, invoices and
+ * tickets name their customer by `customerId`, set when they are created,
+ * so renaming a customer or changing their email keeps them linked.
+ */
+
+const customers = createCollection<Customer>("customers", () => customerSeed);
+
+const key = (value: string) => value.trim().toLowerCase();
+
+export function listCustomers(): Promise<Customer[]> {
+  return customers.all();
+}
+
+// `id` comes from the URL; null when it names no customer
+export async function getCustomer(id: string): Promise<Customer | null> {
+  const customerId = Number(id);
+  if (!Number.isInteger(customerId)) return null;
+  return (await customers.find((row) => row.id === customerId)) ?? null;
+}
+
+export async function findCustomerByEmail(
+  email: string
+): Promise<Customer | null> {
+  return (await customers.find((row) => key(row.email) === key(email))) ?? null;
+}
+
+export interface CustomerRecords {
+  orders: Transaction[]; // Newest first
+  invoices: Invoice[];
+  tickets: SupportTicket[];
+}
+
+export async function getCustomerRecords(
+  customer: Customer
+): Promise<CustomerRecords> {
+  const [orders, invoices, tickets] = await Promise.all([
+    listTransactions(),
+    listInvoices(),
+    listTickets(),
+  ]);
+  const belongs = (record: { customerId?: number }) =>
+    record.customerId === customer.id;
+  return {
+    orders: orders
+      .filter(belongs)
+      .sort((a, b) => b.placedAt.localeCompare(a.placedAt)),
+    invoices: invoices.filter(belongs),
+    tickets: tickets.filter(belongs),
+  };
+}
+
+// A row in the directory, with how much the customer has going on
+export interface CustomerSummary extends Customer {
+  orders: number;
+  invoices: number;
+  openTickets: number;
+}
+
+export async function listCustomerSummaries(): Promise<CustomerSummary[]> {
+  const [rows, orders, invoices, tickets] = await Promise.all([
+    customers.all(),
+    listTransactions(),
+    listInvoices(),
+    listTickets(),
+  ]);
+  // Records per customer id
+  const count = (records: { customerId?: number }[]) => {
+    const counts = new Map<number, number>();
+    for (const { customerId } of records) {
+      if (customerId) counts.set(customerId, (counts.get(customerId) ?? 0) + 1);
+    }
+    return counts;
+  };
+  const orderCounts = count(orders);
+  const invoiceCounts = count(invoices);
+  const openTicketCounts = count(
+    tickets.filter((ticket) => ticket.status !== "Solved")
+  );
+  return rows.map((customer) => ({
+    ...customer,
+    orders: orderCounts.get(customer.id) ?? 0,
+    invoices: invoiceCounts.get(customer.id) ?? 0,
+    openTickets: openTicketCounts.get(customer.id) ?? 0,
+  }));
+}
+
+// Money received from or paid back to a customer
+export interface CustomerPayment {
+  id: string;
+  at: string; // ISO timestamp
+  kind: "Payment" | "Refund";
+  source: string; // "Order #323534" or "Invoice #323534"
+  href: string;
+  details: string; // Payment method or note, when known
+  amount: Money;
+}
+
+/**
+ * Payments and refunds across the customer's orders and invoices, newest
+ * first. Orders charged through the gateway pay an invoice, so their
+ * payment is only listed once, on the invoice.
+ */
+export function customerPayments(records: CustomerRecords): CustomerPayment[] {
+  const payments: CustomerPayment[] = [];
+  for (const order of records.orders) {
+    order.events.forEach((event, index) => {
+      if (event.amount === undefined) return;
+      if (event.type === "paid" && order.charge) return;
+      if (event.type !== "paid" && event.type !== "refunded") return;
+      payments.push({
+        id: `order-${order.id}-${index}`,
+        at: event.at,
+        kind: event.type === "paid" ? "Payment" : "Refund",
+        source: `Order ${order.orderId}`,
+        href: `/transactions/${order.id}`,
+        details: order.charge?.paymentMethod ?? event.note ?? "",
+        amount: { amount: event.amount, currency: order.currency },
+      });
+    });
+  }
+  for (const invoice of records.invoices) {
+    for (const payment of invoice.payments) {
+      payments.push({
+        id: payment.id,
+        at: payment.paidAt,
+        kind: "Payment",
+        source: `Invoice ${invoice.number}`,
+        href: `/invoices/${invoice.id}`,
+        details: payment.reference
+          ? `${payment.method} · ${payment.reference}`
+          : payment.method,
+        amount: { amount: payment.amount, currency: invoice.currency },
+      });
+    }
+  }
+  return payments.sort((a, b) => b.at.localeCompare(a.at));
+}
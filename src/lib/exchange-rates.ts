@@ -0,0 +1,45 @@
+import { createCollection } from "./file-store";
+import { exchangeRateSeed } from "./mock-data/exchange-rates";
+import {
+  isCurrencyCode,
+  sumMoney,
+  toReportingCurrency,
+  type CurrencyCode,
+  type ExchangeRates,
+  type Money,
+} from "./money";
+
+/**
+ * Snapshots live in `<DATA_DIR>/exchange-rates.json`; drop a file there to
+ * replace the seeded rates. They are never fetched from the network.
+ */
+const snapshots = createCollection("exchange-rates", () => exchangeRateSeed);
+
+// Currency dashboards add everything up in; set `REPORTING_CURRENCY` to change
+export const REPORTING_CURRENCY: CurrencyCode = isCurrencyCode(
+  process.env.REPORTING_CURRENCY
+)
+  ? process.env.REPORTING_CURRENCY
+  : "USD";
+
+export async function getExchangeRates(): Promise<ExchangeRates> {
+  const rows = await snapshots.all();
+  return {
+    reportingCurrency: REPORTING_CURRENCY,
+    snapshots: [...rows].sort((a, b) => a.date.localeCompare(b.date)),
+  };
+}
+
+/**
+ * Converts each amount with the snapshot for its own date and adds them up in
+ * the reporting currency, so a total never changes when today's rates do.
+ */
+export async function sumInReportingCurrency(
+  amounts: { money: Money; date: string }[]
+): Promise<Money> {
+  const rates = await getExchangeRates();
+  return sumMoney(
+    amounts.map(({ money, date }) => toReportingCurrency(money, date, rates)),
+    rates.reportingCurrency
+  );
+}
@@ -0,0 +1,30 @@
+import type { ExportCellValue, ExportColumn } from "./types";
+
+/**
+ * Spreadsheet apps evaluate cells starting with these characters as
+ * formulas, "-2+3" included, so every such string is escaped. Amounts are
+ * exported as numbers, which are never escaped.
+ */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function escapeCsvCell(value: ExportCellValue): string {
+  if (value === null) return "";
+  let text = String(value);
+  if (typeof value === "string" && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Builds an RFC 4180 CSV document with a header row.
+ */
+export function toCsv<T>(rows: T[], columns: ExportColumn<T>[]): string {
+  const lines = [
+    columns.map((column) => escapeCsvCell(column.header)).join(","),
+    ...rows.map((row) =>
+      columns.map((column) => escapeCsvCell(column.value(row))).join(",")
+    ),
+  ];
+  return lines.join("\r\n");
+}
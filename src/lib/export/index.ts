@@ -0,0 +1,71 @@
+import { toCsv } from "./csv";
+import type { ExportColumn, ExportFormat } from "./types";
+import { toXlsx } from "./xlsx";
+
+export type { ExportCellValue, ExportColumn, ExportFormat } from "./types";
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv;charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  json: "application/json;charset=utf-8",
+};
+
+/**
+ * Serializes rows in the requested format. Only the given columns are
+ * written, using the values the table displays.
+ */
+export function buildExport<T>(
+  rows: T[],
+  columns: ExportColumn<T>[],
+  format: ExportFormat
+): Blob {
+  switch (format) {
+    case "csv":
+      // The BOM makes Excel open the file as UTF-8
+      return new Blob(["\uFEFF", toCsv(rows, columns)], {
+        type: MIME_TYPES.csv,
+      });
+    case "xlsx":
+      return new Blob([toXlsx(rows, columns).buffer as ArrayBuffer], {
+        type: MIME_TYPES.xlsx,
+      });
+    case "json":
+      return new Blob(
+        [
+          JSON.stringify(
+            rows.map((row) =>
+              Object.fromEntries(
+                columns.map((column) => [column.header, column.value(row)])
+              )
+            ),
+            null,
+            2
+          ),
+        ],
+        { type: MIME_TYPES.json }
+      );
+  }
+}
+
+/**
+ * Builds the export and hands it to the browser as a file download,
+ * named like `invoices-2025-01-31.csv`.
+ */
+export function downloadExport<T>(
+  fileName: string,
+  rows: T[],
+  columns: ExportColumn<T>[],
+  format: ExportFormat
+) {
+  const blob = buildExport(rows, columns, format);
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${fileName}-${new Date()
+    .toISOString()
+    .slice(0, 10)}.${format}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
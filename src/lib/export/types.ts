@@ -0,0 +1,9 @@
+export type ExportFormat = "csv" | "xlsx" | "json";
+
+export type ExportCellValue = string | number | null;
+
+// One column of an exported file, in the order it appears on screen
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => ExportCellValue; // Formatted the way the table shows it
+}
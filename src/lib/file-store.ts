@@ -0,0 +1,112 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+/**
+ * Directory holding the JSON collections. Defaults to `.data/` in the project
+ * root so the app runs fully offline; point `DATA_DIR` elsewhere to keep
+ * several datasets side by side.
+ */
+const DATA_DIR = process.env.DATA_DIR ?? path.join(process.cwd(), ".data");
+
+// Pending writes per collection, so concurrent updates never interleave
+const writeQueues = new Map<string, Promise<unknown>>();
+
+export interface Collection<T> {
+  all: () => Promise<T[]>;
+  find: (predicate: (row: T) => boolean) => Promise<T | undefined>;
+  /**
+   * Loads the rows, lets `mutate` change them in place and writes them back.
+   * Updates to the same collection run one after another.
+   */
+  update: <R>(mutate: (rows: T[]) => R | Promise<R>) => Promise<R>;
+}
+
+/**
+ * Location of `name` inside the data directory, for stores that manage their
+ * own files instead of going through a collection.
+ */
+export function dataPath(name: string): string {
+  return path.join(DATA_DIR, name);
+}
+
+function collectionPath(name: string): string {
+  return path.join(DATA_DIR, `${name}.json`);
+}
+
+async function readRows<T>(name: string, seed: () => T[]): Promise<T[]> {
+  try {
+    return JSON.parse(await fs.readFile(collectionPath(name), "utf8")) as T[];
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return seed();
+    throw err;
+  }
+}
+
+async function writeRows<T>(name: string, rows: T[]): Promise<void> {
+  const target = collectionPath(name);
+  const temp = `${target}.${process.pid}.tmp`;
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  // Write then rename so a crash never leaves a half-written file behind
+  await fs.writeFile(temp, JSON.stringify(rows, null, 2), "utf8");
+  await fs.rename(temp, target);
+}
+
+/**
+ * A named list of records persisted as `<DATA_DIR>/<name>.json`. `seed`
+ * provides the initial rows until the first write creates the file.
+ */
+export function createCollection<T>(
+  name: string,
+  seed: () => T[] = () => []
+): Collection<T> {
+  return {
+    all: () => readRows(name, seed),
+    async find(predicate) {
+      return (await readRows(name, seed)).find(predicate);
+    },
+    update(mutate) {
+      const previous = writeQueues.get(name) ?? Promise.resolve();
+      const next = previous
+        .catch(() => undefined)
+        .then(async () => {
+          const rows = await readRows(name, seed);
+          const result = await mutate(rows);
+          await writeRows(name, rows);
+          return result;
+        });
+      writeQueues.set(name, next);
+      return next;
+    },
+  };
+}
+
+export interface BlobStore {
+  write: (id: string, data: Uint8Array) => Promise<void>;
+  read: (id: string) => Promise<Buffer | null>; // Null when nothing is stored under `id`
+  remove: (id: string) => Promise<void>; // Does nothing when nothing is stored under `id`
+}
+
+/**
+ * Binary files, such as uploads, stored as `<DATA_DIR>/<name>/<id>`. Ids must
+ * be generated by the server; they are used as file names as-is.
+ */
+export function createBlobStore(name: string): BlobStore {
+  const dir = path.join(DATA_DIR, name);
+  return {
+    async write(id, data) {
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(path.join(dir, id), data);
+    },
+    async read(id) {
+      try {
+        return await fs.readFile(path.join(dir, id));
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw err;
+      }
+    },
+    async remove(id) {
+      await fs.rm(path.join(dir, id), { force: true });
+    },
+  };
+}
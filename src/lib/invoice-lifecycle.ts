@@ -0,0 +1,224 @@
+import type { ColumnValueDef } from "@/components/tables/DataTables/DataTable/types";
+import { calculateInvoiceTotals } from "./invoice-totals";
+import type { Invoice, InvoiceStatus } from "./mock-data/invoices";
+import {
+  sumMoney,
+  toReportingCurrency,
+  type ExchangeRates,
+  type Money,
+} from "./money";
+
+/**
+ * Invoice lifecycle rules, shared by the server and the UI:
+ *
+ *   Draft → Sent → Partially Paid → Paid
+ *   Draft / Sent → Void
+ *
+ * Sending and voiding are done by hand; the paid states follow from the
+ * payment ledger. An invoice that has taken money can no longer be voided.
+ */
+export const INVOICE_TRANSITIONS: Record<InvoiceStatus, InvoiceStatus[]> = {
+  Draft: ["Sent", "Void"],
+  Sent: ["Partially Paid", "Paid", "Void"],
+  "Partially Paid": ["Paid"],
+  Paid: [],
+  Void: [],
+};
+
+// What a list shows: the stored status, or Overdue for open invoices past due
+export type InvoiceDisplayStatus = InvoiceStatus | "Overdue";
+
+export function canTransition(from: InvoiceStatus, to: InvoiceStatus): boolean {
+  return INVOICE_TRANSITIONS[from].includes(to);
+}
+
+// Invoices that are still waiting for money
+export function isOpen(invoice: Pick<Invoice, "status">): boolean {
+  return invoice.status === "Sent" || invoice.status === "Partially Paid";
+}
+
+export interface InvoiceBalance {
+  total: Money;
+  paid: Money;
+  due: Money;
+}
+
+export function invoiceBalance(invoice: Invoice): InvoiceBalance {
+  const total: Money = {
+    amount: calculateInvoiceTotals(invoice).total,
+    currency: invoice.currency,
+  };
+  const paid = sumMoney(
+    invoice.payments.map((payment) => ({
+      amount: payment.amount,
+      currency: invoice.currency,
+    })),
+    invoice.currency
+  );
+  return {
+    total,
+    paid,
+    due: { amount: total.amount - paid.amount, currency: invoice.currency },
+  };
+}
+
+// Status once the ledger holds `paid` against `total`
+export function statusForPaidAmount(
+  paid: number,
+  total: number
+): "Sent" | "Partially Paid" | "Paid" {
+  if (paid <= 0) return "Sent";
+  return paid >= total ? "Paid" : "Partially Paid";
+}
+
+/**
+ * Local calendar day as YYYY-MM-DD. Overdue checks compare days rather than
+ * instants, so an invoice due today is not overdue until tomorrow.
+ */
+export function calendarDay(date: Date = new Date()): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate()
+  )}`;
+}
+
+// "August 7, 2028", the style the invoice dates are stored in
+export function formatInvoiceDate(date: Date): string {
+  return date.toLocaleDateString("en-US", {
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+// `dueDate` as YYYY-MM-DD, or null when it cannot be read
+function dueDay(invoice: Pick<Invoice, "dueDate">): string | null {
+  const due = new Date(invoice.dueDate);
+  return Number.isNaN(due.getTime()) ? null : calendarDay(due);
+}
+
+export function isOverdue(
+  invoice: Pick<Invoice, "status" | "dueDate">,
+  today: string
+): boolean {
+  const due = dueDay(invoice);
+  return isOpen(invoice) && due !== null && due < today;
+}
+
+export function displayStatus(
+  invoice: Pick<Invoice, "status" | "dueDate">,
+  today: string
+): InvoiceDisplayStatus {
+  return isOverdue(invoice, today) ? "Overdue" : invoice.status;
+}
+
+// An invoice as the list shows it, with the amounts it sorts and exports by
+export interface InvoiceListRow extends Invoice {
+  total: Money;
+  due: Money; // What is left to pay
+  reportingTotal: Money; // Converted at the rates of the creation date
+  shownStatus: InvoiceDisplayStatus;
+}
+
+export function toInvoiceListRow(
+  invoice: Invoice,
+  rates: ExchangeRates,
+  today: string
+): InvoiceListRow {
+  const { total, due } = invoiceBalance(invoice);
+  return {
+    ...invoice,
+    total,
+    due,
+    reportingTotal: toReportingCurrency(total, invoice.creationDate, rates),
+    shownStatus: displayStatus(invoice, today),
+  };
+}
+
+/**
+ * Columns the invoice list searches, filters and sorts by. Totals compare
+ * across currencies in the reporting currency; `unpaid` is "true" for open
+ * invoices, overdue or not.
+ */
+export const invoiceColumns: ColumnValueDef<InvoiceListRow>[] = [
+  { id: "number", accessor: "number", searchable: true },
+  { id: "customer", accessor: "customer", searchable: true },
+  { id: "creationDate", accessor: "creationDate", type: "date" },
+  { id: "dueDate", accessor: "dueDate", type: "date" },
+  { id: "total", accessor: (row) => row.reportingTotal.amount, type: "number" },
+  { id: "status", accessor: "shownStatus" },
+  { id: "unpaid", accessor: (row) => isOpen(row) },
+];
+
+export interface InvoiceMetricsData {
+  overdue: Money; // Outstanding on overdue invoices
+  dueSoon: Money; // Outstanding and due in the next 30 days
+  averageDaysToPay: number | null; // From sent to fully paid
+  upcomingPayout: Money; // Outstanding on open invoices not yet overdue
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// When the invoice last entered `status`, from its history
+function enteredAt(invoice: Invoice, status: InvoiceStatus): number | null {
+  const change = [...invoice.history]
+    .reverse()
+    .find((entry) => entry.status === status);
+  return change ? Date.parse(change.at) : null;
+}
+
+/**
+ * Overview figures for the invoice list. Amounts are in the reporting
+ * currency, each invoice converted at the rates of its creation date.
+ */
+export function calculateInvoiceMetrics(
+  invoices: Invoice[],
+  rates: ExchangeRates,
+  today: string
+): InvoiceMetricsData {
+  const soon = calendarDay(new Date(Date.parse(today) + 30 * DAY_MS));
+  const overdue: Money[] = [];
+  const dueSoon: Money[] = [];
+  const upcoming: Money[] = [];
+  const daysToPay: number[] = [];
+
+  invoices.forEach((invoice) => {
+    if (invoice.status === "Paid") {
+      // Payments may be recorded late, so go by when the money arrived
+      const sent = enteredAt(invoice, "Sent");
+      const paid = Math.max(
+        ...invoice.payments.map((payment) => Date.parse(payment.paidAt))
+      );
+      if (sent !== null && invoice.payments.length > 0) {
+        daysToPay.push(Math.max(0, (paid - sent) / DAY_MS));
+      }
+      return;
+    }
+    if (!isOpen(invoice)) return;
+    const due = toReportingCurrency(
+      invoiceBalance(invoice).due,
+      invoice.creationDate,
+      rates
+    );
+    if (isOverdue(invoice, today)) {
+      overdue.push(due);
+      return;
+    }
+    upcoming.push(due);
+    const day = dueDay(invoice);
+    if (day !== null && day <= soon) dueSoon.push(due);
+  });
+
+  const currency = rates.reportingCurrency;
+  return {
+    overdue: sumMoney(overdue, currency),
+    dueSoon: sumMoney(dueSoon, currency),
+    averageDaysToPay:
+      daysToPay.length === 0
+        ? null
+        : Math.round(
+            daysToPay.reduce((sum, days) => sum + days, 0) / daysToPay.length
+          ),
+    upcomingPayout: sumMoney(upcoming, currency),
+  };
+}
@@ -0,0 +1,291 @@
+import {
+  invoicePaymentTerms,
+  invoiceSender,
+  type Invoice,
+} from "./mock-data/invoices";
+import { calculateInvoiceTotals, taxLabel } from "./invoice-totals";
+import { formatMoney, type Money } from "./money";
+import { lineTotal, unitPrice } from "./order-totals";
+import {
+  canEncodeWinAnsi,
+  createPdfDocument,
+  PAGE_HEIGHT,
+  PAGE_WIDTH,
+  textWidth,
+  type PdfColor,
+  type PdfPage,
+  type TextOptions,
+} from "./pdf/document";
+
+const MARGIN = 48;
+const RIGHT = PAGE_WIDTH - MARGIN;
+// Lowest baseline for table rows before the table continues on a new page
+const CONTENT_BOTTOM = PAGE_HEIGHT - 96;
+const ROW_HEIGHT = 24;
+
+// The dashboard's gray and brand palette
+const INK: PdfColor = [29, 41, 57];
+const MUTED: PdfColor = [102, 112, 133];
+const RULE: PdfColor = [228, 231, 236];
+const BAND: PdfColor = [249, 250, 251];
+const BRAND: PdfColor = [70, 95, 255];
+
+// Right edges of the numeric columns, left edges of the text ones
+const COLUMNS = {
+  index: MARGIN + 12,
+  product: MARGIN + 40,
+  quantity: 330,
+  unitCost: 410,
+  discount: 470,
+  total: RIGHT - 12,
+};
+
+// By ISO code when the standard fonts have no glyph for the sign, like ₹
+function money(value: Money): string {
+  const text = formatMoney(value, { trimZeroCents: true });
+  return canEncodeWinAnsi(text)
+    ? text
+    : formatMoney(value, { trimZeroCents: true, currencyDisplay: "code" });
+}
+
+// Shortens `text` with an ellipsis until it fits in `width` points
+function fitText(text: string, width: number, options: TextOptions): string {
+  const measure = (value: string) =>
+    textWidth(value, options.font ?? "regular", options.size ?? 10);
+  if (measure(text) <= width) return text;
+  let fitted = text;
+  while (fitted.length > 1 && measure(`${fitted}…`) > width) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted.trimEnd()}…`;
+}
+
+function drawTableHeader(page: PdfPage, y: number): number {
+  page.rect(MARGIN, y, RIGHT - MARGIN, ROW_HEIGHT, BAND);
+  const baseline = y + 15;
+  const options: TextOptions = { font: "bold", size: 9, color: MUTED };
+  page.text(COLUMNS.index, baseline, "#", options);
+  page.text(COLUMNS.product, baseline, "Products", options);
+  page.text(COLUMNS.quantity, baseline, "Quantity", {
+    ...options,
+    align: "right",
+  });
+  page.text(COLUMNS.unitCost, baseline, "Unit Cost", {
+    ...options,
+    align: "right",
+  });
+  page.text(COLUMNS.discount, baseline, "Discount", {
+    ...options,
+    align: "right",
+  });
+  page.text(COLUMNS.total, baseline, "Total", { ...options, align: "right" });
+  return y + ROW_HEIGHT;
+}
+
+function drawParty(
+  page: PdfPage,
+  x: number,
+  y: number,
+  label: string,
+  name: string,
+  address: [string, string],
+  align: "left" | "right"
+) {
+  page.text(x, y, label, { size: 9, color: MUTED, align });
+  page.text(x, y + 18, name, { font: "bold", size: 12, color: INK, align });
+  page.text(x, y + 34, address[0], { size: 10, color: MUTED, align });
+  page.text(x, y + 48, address[1], { size: 10, color: MUTED, align });
+}
+
+/**
+ * Renders the invoice as an A4 PDF: sender header, billing parties and
+ * dates, the line items (continued over as many pages as needed), the
+ * totals with a line per tax rate and the payment terms.
+ */
+export function renderInvoicePdf(invoice: Invoice): Uint8Array {
+  const pdf = createPdfDocument({ title: `Invoice ${invoice.number}` });
+  const totals = calculateInvoiceTotals(invoice);
+  const amount = (minor: number) =>
+    money({ amount: minor, currency: invoice.currency });
+
+  let page = pdf.addPage();
+  page.rect(0, 0, PAGE_WIDTH, 6, BRAND);
+  page.text(MARGIN, 72, invoiceSender.name, {
+    font: "bold",
+    size: 20,
+    color: INK,
+  });
+  page.text(MARGIN, 90, invoiceSender.address.join(", "), {
+    size: 10,
+    color: MUTED,
+  });
+  page.text(RIGHT, 72, "INVOICE", {
+    font: "bold",
+    size: 20,
+    color: BRAND,
+    align: "right",
+  });
+  page.text(RIGHT, 90, `${invoice.number} · ${invoice.currency}`, {
+    size: 10,
+    color: MUTED,
+    align: "right",
+  });
+  page.line(MARGIN, 110, RIGHT, 110, { color: RULE });
+
+  drawParty(
+    page,
+    MARGIN,
+    136,
+    "From",
+    invoiceSender.name,
+    invoiceSender.address,
+    "left"
+  );
+  drawParty(
+    page,
+    RIGHT,
+    136,
+    "To",
+    invoice.customer,
+    invoice.customerAddress,
+    "right"
+  );
+  page.text(MARGIN, 208, `Issued on ${invoice.creationDate}`, {
+    size: 10,
+    color: INK,
+  });
+  page.text(RIGHT, 208, `Due on ${invoice.dueDate}`, {
+    font: "bold",
+    size: 10,
+    color: INK,
+    align: "right",
+  });
+
+  let y = drawTableHeader(page, 232);
+  invoice.items.forEach((item, index) => {
+    if (y + ROW_HEIGHT > CONTENT_BOTTOM) {
+      page = pdf.addPage();
+      y = drawTableHeader(page, MARGIN);
+    }
+    const baseline = y + 16;
+    const options: TextOptions = { size: 10, color: INK };
+    page.text(COLUMNS.index, baseline, String(index + 1), {
+      ...options,
+      color: MUTED,
+    });
+    page.text(
+      COLUMNS.product,
+      baseline,
+      fitText(item.product, COLUMNS.quantity - 60 - COLUMNS.product, options),
+      options
+    );
+    page.text(COLUMNS.quantity, baseline, String(item.quantity), {
+      ...options,
+      align: "right",
+    });
+    page.text(
+      COLUMNS.unitCost,
+      baseline,
+      money(unitPrice(item, invoice.currency)),
+      {
+        ...options,
+        align: "right",
+      }
+    );
+    page.text(COLUMNS.discount, baseline, `${item.discount}%`, {
+      ...options,
+      align: "right",
+    });
+    page.text(
+      COLUMNS.total,
+      baseline,
+      money(lineTotal(item, invoice.currency)),
+      {
+        ...options,
+        align: "right",
+      }
+    );
+    y += ROW_HEIGHT;
+    page.line(MARGIN, y, RIGHT, y, { color: RULE, width: 0.75 });
+  });
+
+  // Sub total, discount and shipping, then one line per tax rate charged
+  const summary: [string, string][] = [
+    ["Sub Total", amount(totals.subtotal)],
+    ...(totals.discount > 0
+      ? [["Discount", `-${amount(totals.discount)}`] as [string, string]]
+      : []),
+    ...(totals.shipping
+      ? [["Shipping", amount(totals.shipping.amount)] as [string, string]]
+      : []),
+    ...totals.taxes.map((tax): [string, string] => [
+      `${taxLabel(tax, invoice.pricesIncludeTax)} on ${amount(tax.taxable)}`,
+      amount(tax.amount),
+    ]),
+  ];
+
+  // Totals and terms stay together on one page
+  const summaryHeight =
+    60 + summary.length * 18 + invoicePaymentTerms.length * 14 + 40;
+  if (y + summaryHeight > CONTENT_BOTTOM) {
+    page = pdf.addPage();
+    y = MARGIN;
+  }
+  const labelX = RIGHT - 300;
+  y += 28;
+  summary.forEach(([label, value]) => {
+    const options: TextOptions = { size: 10, color: MUTED };
+    page.text(labelX, y, fitText(label, RIGHT - labelX - 70, options), options);
+    page.text(RIGHT, y, value, { size: 10, color: INK, align: "right" });
+    y += 18;
+  });
+  page.line(labelX, y - 6, RIGHT, y - 6, { color: RULE });
+  y += 12;
+  page.text(labelX, y, "Total", { font: "bold", size: 12, color: INK });
+  page.text(RIGHT, y, amount(totals.total), {
+    font: "bold",
+    size: 12,
+    color: INK,
+    align: "right",
+  });
+
+  y += 40;
+  page.text(MARGIN, y, "Payment terms", { font: "bold", size: 10, color: INK });
+  invoicePaymentTerms.forEach((term) => {
+    y += 14;
+    page.text(MARGIN, y, term, { size: 9, color: MUTED });
+  });
+
+  const pages = pdf.pages();
+  pages.forEach((footerPage, index) => {
+    footerPage.line(MARGIN, PAGE_HEIGHT - 60, RIGHT, PAGE_HEIGHT - 60, {
+      color: RULE,
+    });
+    footerPage.text(
+      MARGIN,
+      PAGE_HEIGHT - 44,
+      `${invoiceSender.name} · ${invoice.number}`,
+      {
+        size: 8,
+        color: MUTED,
+      }
+    );
+    footerPage.text(
+      RIGHT,
+      PAGE_HEIGHT - 44,
+      `Page ${index + 1} of ${pages.length}`,
+      {
+        size: 8,
+        color: MUTED,
+        align: "right",
+      }
+    );
+  });
+
+  return pdf.toBytes();
+}
+
+// "invoice-323534.pdf"
+export function invoicePdfFileName(invoice: Invoice): string {
+  return `invoice-${invoice.number.replace(/[^A-Za-z0-9-]/g, "")}.pdf`;
+}
@@ -0,0 +1,45 @@
+import type { Invoice } from "./mock-data/invoices";
+import {
+  calculateTaxes,
+  type TaxBreakdown,
+  type TaxResult,
+} from "./tax/engine";
+
+// The parts of an invoice its totals depend on
+export type InvoiceTotalsInput = Pick<
+  Invoice,
+  | "currency"
+  | "items"
+  | "taxRates"
+  | "pricesIncludeTax"
+  | "discount"
+  | "shipping"
+>;
+
+/**
+ * Runs a stored invoice through the tax engine with the rates it was
+ * created with, so every place that shows its totals agrees with the
+ * invoice creator. Amounts are minor units of the invoice currency.
+ */
+export function calculateInvoiceTotals(invoice: InvoiceTotalsInput): TaxResult {
+  return calculateTaxes({
+    lines: invoice.items.map((line) => ({
+      quantity: line.quantity,
+      unitPrice: line.unitCost,
+      discount: line.discount,
+      taxRateIds: line.taxRateIds,
+    })),
+    rates: invoice.taxRates,
+    pricesIncludeTax: invoice.pricesIncludeTax,
+    discount: invoice.discount,
+    shipping: invoice.shipping,
+  });
+}
+
+// "Incl. Import VAT (20%, compound)" beside a tax amount
+export function taxLabel(tax: TaxBreakdown, pricesIncludeTax: boolean): string {
+  const compound = tax.rate.compound ? ", compound" : "";
+  return `${pricesIncludeTax ? "Incl. " : ""}${tax.rate.name} (${
+    tax.rate.rate
+  }%${compound})`;
+}
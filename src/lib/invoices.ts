@@ -0,0 +1,490 @@
+import { randomUUID } from "crypto";
+import type { BulkAdapter } from "./bulk-runner";
+import { nextCounterValue, peekCounterValue } from "./counters";
+import { getExchangeRates } from "./exchange-rates";
+import { createCollection } from "./file-store";
+import {
+  calendarDay,
+  canTransition,
+  formatInvoiceDate,
+  invoiceBalance,
+  invoiceColumns,
+  isOpen,
+  statusForPaidAmount,
+  toInvoiceListRow,
+  type InvoiceListRow,
+} from "./invoice-lifecycle";
+import { seedCustomerId } from "./mock-data/customers";
+import {
+  invoiceSeed,
+  PAYMENT_METHODS,
+  type Invoice,
+  type InvoiceLine,
+  type InvoiceShipping,
+  type InvoiceStatus,
+  type PaymentMethod,
+} from "./mock-data/invoices";
+import { isCurrencyCode, toMinorUnits, type CurrencyCode } from "./money";
+import { runTableQuery, type TablePage, type TableQuery } from "./table-query";
+import type { InvoiceDiscount, TaxRate } from "./tax/engine";
+import { taxRates } from "./tax/rates";
+
+const invoices = createCollection<Invoice>("invoices", () =>
+  invoiceSeed.map((row) => ({
+    ...row,
+    customerId: seedCustomerId(null, row.customer),
+  }))
+);
+
+export function listInvoices(): Promise<Invoice[]> {
+  return invoices.all();
+}
+
+// One page of the invoice list, with statuses as of today
+export async function queryInvoices(
+  query: TableQuery
+): Promise<TablePage<InvoiceListRow>> {
+  const [rows, rates] = await Promise.all([invoices.all(), getExchangeRates()]);
+  const today = calendarDay();
+  return runTableQuery(
+    rows.map((row) => toInvoiceListRow(row, rates, today)),
+    invoiceColumns,
+    query
+  );
+}
+
+// `id` comes from the URL; null when it names no invoice
+export async function getInvoice(id: string): Promise<Invoice | null> {
+  const invoiceId = Number(id);
+  if (!Number.isInteger(invoiceId)) return null;
+  return (await invoices.find((row) => row.id === invoiceId)) ?? null;
+}
+
+// Used when there are no numbered invoices yet
+const FIRST_INVOICE_NUMBER = 323534;
+
+// Counter sequences for invoice ids and numbers
+const ID_COUNTER = "invoice-ids";
+const NUMBER_COUNTER = "invoice-numbers";
+
+const highestId = (rows: Invoice[]) =>
+  rows.reduce((max, row) => Math.max(max, row.id), 0);
+
+function highestNumber(rows: Invoice[]): number {
+  return rows.reduce((max, row) => {
+    const value = Number(row.number.replace(/^#/, ""));
+    return Number.isInteger(value) ? Math.max(max, value) : max;
+  }, FIRST_INVOICE_NUMBER - 1);
+}
+
+/**
+ * The number the next invoice gets, in the "#323534" style. Numbers are
+ * never reused, even when an invoice is voided or a draft deleted.
+ */
+export async function nextInvoiceNumber(): Promise<string> {
+  const rows = await invoices.all();
+  return `#${await peekCounterValue(NUMBER_COUNTER, highestNumber(rows))}`;
+}
+
+export interface NewInvoice {
+  customer: string;
+  customerAddress: [string, string];
+  customerId?: number; // Links the invoice to the customer's profile
+  dueDate: string; // YYYY-MM-DD
+  currency: CurrencyCode;
+  items: InvoiceLine[];
+  taxRates: TaxRate[]; // Every rate the lines and shipping refer to
+  pricesIncludeTax: boolean;
+  discount: InvoiceDiscount | null;
+  shipping: InvoiceShipping | null;
+}
+
+export interface NewPayment {
+  amount: number; // Minor units of the invoice currency
+  method: PaymentMethod;
+  reference: string;
+  paidAt?: string; // ISO timestamp; defaults to now
+}
+
+export type InvoiceChangeResult =
+  | { invoice: Invoice }
+  | { error: string; status: 404 | 409 };
+
+const notFound = { error: "Invoice not found", status: 404 as const };
+
+// The record `input` becomes under the given id and number
+function buildInvoice(
+  input: NewInvoice,
+  actor: string,
+  id: number,
+  number: number
+): Invoice {
+  const now = new Date();
+  return {
+    id,
+    number: `#${number}`,
+    customer: input.customer,
+    customerAddress: input.customerAddress,
+    ...(input.customerId ? { customerId: input.customerId } : {}),
+    creationDate: formatInvoiceDate(now),
+    dueDate: formatInvoiceDate(new Date(`${input.dueDate}T00:00:00`)),
+    status: "Draft",
+    currency: input.currency,
+    items: input.items,
+    taxRates: input.taxRates,
+    pricesIncludeTax: input.pricesIncludeTax,
+    discount: input.discount,
+    shipping: input.shipping,
+    payments: [],
+    history: [{ status: "Draft", at: now.toISOString(), actor }],
+  };
+}
+
+// Numbers and the initial Draft history entry are assigned here
+export function createInvoice(
+  input: NewInvoice,
+  actor: string
+): Promise<Invoice> {
+  return invoices.update(async (rows) => {
+    const invoice = buildInvoice(
+      input,
+      actor,
+      await nextCounterValue(ID_COUNTER, highestId(rows)),
+      await nextCounterValue(NUMBER_COUNTER, highestNumber(rows))
+    );
+    rows.push(invoice);
+    return invoice;
+  });
+}
+
+/**
+ * What `input` would look like saved now, without saving it. The number is
+ * the next free one, which another invoice may take first.
+ */
+export async function previewInvoice(
+  input: NewInvoice,
+  actor: string
+): Promise<Invoice> {
+  const rows = await invoices.all();
+  return buildInvoice(
+    input,
+    actor,
+    await peekCounterValue(ID_COUNTER, highestId(rows)),
+    await peekCounterValue(NUMBER_COUNTER, highestNumber(rows))
+  );
+}
+
+/**
+ * Runs `change` on the stored invoice and writes it back. `change` returns
+ * an error message to leave the invoice untouched.
+ */
+function changeInvoice(
+  id: string,
+  change: (invoice: Invoice) => string | void
+): Promise<InvoiceChangeResult> {
+  return invoices.update((rows) => {
+    const invoice = rows.find((row) => String(row.id) === id);
+    if (!invoice) return notFound;
+    const error = change(invoice);
+    return error ? { error, status: 409 as const } : { invoice };
+  });
+}
+
+function moveTo(
+  invoice: Invoice,
+  status: InvoiceStatus,
+  actor: string,
+  note?: string
+): string | void {
+  if (!canTransition(invoice.status, status)) {
+    return `A ${invoice.status.toLowerCase()} invoice cannot become ${status.toLowerCase()}`;
+  }
+  invoice.status = status;
+  invoice.history.push({
+    status,
+    at: new Date().toISOString(),
+    actor,
+    ...(note ? { note } : {}),
+  });
+}
+
+export function sendInvoice(
+  id: string,
+  actor: string
+): Promise<InvoiceChangeResult> {
+  return changeInvoice(id, (invoice) => moveTo(invoice, "Sent", actor));
+}
+
+export function voidInvoice(
+  id: string,
+  actor: string,
+  note?: string
+): Promise<InvoiceChangeResult> {
+  return changeInvoice(id, (invoice) => markVoid(invoice, actor, note));
+}
+
+function markVoid(
+  invoice: Invoice,
+  actor: string,
+  note?: string
+): string | void {
+  if (invoice.payments.length > 0) {
+    return "An invoice with payments cannot be voided";
+  }
+  return moveTo(invoice, "Void", actor, note);
+}
+
+/**
+ * Adds a payment to the ledger and moves the invoice to Partially Paid or
+ * Paid to match. Payments larger than the amount still due are refused.
+ */
+export function recordPayment(
+  id: string,
+  payment: NewPayment,
+  actor: string
+): Promise<InvoiceChangeResult> {
+  return changeInvoice(id, (invoice) => addPayment(invoice, payment, actor));
+}
+
+function addPayment(
+  invoice: Invoice,
+  payment: NewPayment,
+  actor: string
+): string | void {
+  if (!isOpen(invoice)) {
+    return `Payments cannot be recorded on a ${invoice.status.toLowerCase()} invoice`;
+  }
+  const { total, paid, due } = invoiceBalance(invoice);
+  if (payment.amount > due.amount) {
+    return "The payment is larger than the amount due";
+  }
+  const paidAt = payment.paidAt ?? new Date().toISOString();
+  invoice.payments.push({
+    id: randomUUID(),
+    amount: payment.amount,
+    method: payment.method,
+    reference: payment.reference,
+    paidAt,
+    recordedBy: actor,
+  });
+  const status = statusForPaidAmount(
+    paid.amount + payment.amount,
+    total.amount
+  );
+  if (status !== invoice.status) {
+    invoice.status = status;
+    invoice.history.push({ status, at: new Date().toISOString(), actor });
+  }
+}
+
+/**
+ * Bulk actions on the invoice list. Marking an invoice paid records the
+ * amount still due as a bank transfer; only drafts can be deleted, as
+ * issued invoice numbers must stay accounted for.
+ */
+export const invoiceBulkAdapter: BulkAdapter<Invoice> = {
+  update: invoices.update,
+  idOf: (invoice) => String(invoice.id),
+  change(invoice, action, actor) {
+    if (action.type !== "status") return "Invoices cannot be changed that way";
+    switch (action.value) {
+      case "Sent":
+        return moveTo(invoice, "Sent", actor);
+      case "Void":
+        return markVoid(invoice, actor);
+      case "Paid": {
+        const { due } = invoiceBalance(invoice);
+        return addPayment(
+          invoice,
+          { amount: due.amount, method: "Bank transfer", reference: "" },
+          actor
+        );
+      }
+      default:
+        return `Invoices cannot be marked ${action.value}`;
+    }
+  },
+  refuseDelete(invoice) {
+    if (invoice.status !== "Draft") return "Only drafts can be deleted";
+  },
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function requiredString(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+// Ids of rates from the configured list, or null if any is unknown
+function parseTaxRateIds(value: unknown): string[] | null {
+  const ids = value ?? [];
+  if (!Array.isArray(ids)) return null;
+  const known = ids.every(
+    (id) => typeof id === "string" && taxRates.some((rate) => rate.id === id)
+  );
+  return known ? [...new Set<string>(ids)] : null;
+}
+
+const isMinorAmount = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0;
+
+function parseItem(value: unknown): InvoiceLine | null {
+  if (!isRecord(value)) return null;
+  const { product, quantity, unitCost, discount } = value;
+  const name = requiredString(product);
+  if (!name) return null;
+  if (typeof quantity !== "number" || !Number.isInteger(quantity)) return null;
+  if (quantity <= 0) return null;
+  if (!isMinorAmount(unitCost)) return null;
+  const percent = discount ?? 0;
+  if (typeof percent !== "number" || !(percent >= 0 && percent <= 100)) {
+    return null;
+  }
+  const taxRateIds = parseTaxRateIds(value.taxRateIds);
+  if (!taxRateIds) return null;
+  return { product: name, quantity, unitCost, discount: percent, taxRateIds };
+}
+
+function parseDiscount(value: unknown): InvoiceDiscount | null | undefined {
+  if (value === undefined || value === null) return null;
+  if (!isRecord(value)) return undefined;
+  if (value.type === "percent") {
+    const percent = value.value;
+    return typeof percent === "number" && percent >= 0 && percent <= 100
+      ? { type: "percent", value: percent }
+      : undefined;
+  }
+  if (value.type === "amount" && isMinorAmount(value.value)) {
+    return { type: "amount", value: value.value };
+  }
+  return undefined;
+}
+
+function parseShipping(value: unknown): InvoiceShipping | null | undefined {
+  if (value === undefined || value === null) return null;
+  if (!isRecord(value) || !isMinorAmount(value.amount)) return undefined;
+  const taxRateIds = parseTaxRateIds(value.taxRateIds);
+  return taxRateIds ? { amount: value.amount, taxRateIds } : undefined;
+}
+
+/**
+ * Validates a new invoice sent by a client; returns the input with unknown
+ * fields dropped, or a message describing the first problem found. Lines
+ * and shipping name rates from the configured list by id, and the invoice
+ * keeps a copy of the ones used; unit costs, discount and shipping amounts
+ * are minor units:
+ *
+ * `{ "items": [{ "product": "Macbook pro", "quantity": 1, "unitCost": 120000,
+ * "discount": 0, "taxRateIds": ["vat-10"] }], "pricesIncludeTax": false,
+ * "discount": { "type": "percent", "value": 5 }, "shipping": { "amount":
+ * 1500, "taxRateIds": ["vat-10"] }, ... }`
+ */
+export function parseNewInvoice(
+  input: unknown
+): { invoice: NewInvoice } | { error: string } {
+  if (!isRecord(input)) return { error: "Expected an invoice" };
+  const customer = requiredString(input.customer);
+  if (!customer) return { error: "A customer is required" };
+  const address = input.customerAddress;
+  if (
+    !Array.isArray(address) ||
+    address.length !== 2 ||
+    !address.every((line) => typeof line === "string")
+  ) {
+    return { error: "Expected a two-line customer address" };
+  }
+  const customerId = input.customerId ?? null;
+  if (
+    customerId !== null &&
+    (typeof customerId !== "number" ||
+      !Number.isInteger(customerId) ||
+      customerId <= 0)
+  ) {
+    return { error: "Expected a customer id" };
+  }
+  const dueDate = input.dueDate;
+  if (
+    typeof dueDate !== "string" ||
+    !/^\d{4}-\d{2}-\d{2}$/.test(dueDate) ||
+    Number.isNaN(Date.parse(dueDate))
+  ) {
+    return { error: "Expected a YYYY-MM-DD due date" };
+  }
+  if (!isCurrencyCode(input.currency)) return { error: "Unknown currency" };
+  const pricesIncludeTax = input.pricesIncludeTax ?? false;
+  if (typeof pricesIncludeTax !== "boolean") {
+    return { error: "Expected pricesIncludeTax to be true or false" };
+  }
+  const discount = parseDiscount(input.discount);
+  if (discount === undefined) {
+    return { error: "Expected a percent or amount discount" };
+  }
+  const shipping = parseShipping(input.shipping);
+  if (shipping === undefined) {
+    return { error: "Expected a shipping amount and tax rates" };
+  }
+  if (!Array.isArray(input.items) || input.items.length === 0) {
+    return { error: "An invoice needs at least one item" };
+  }
+  const items: InvoiceLine[] = [];
+  for (const value of input.items) {
+    const item = parseItem(value);
+    if (!item) return { error: "Invalid item" };
+    items.push(item);
+  }
+  return {
+    invoice: {
+      customer,
+      customerAddress: [address[0].trim(), address[1].trim()],
+      ...(customerId !== null ? { customerId } : {}),
+      dueDate,
+      currency: input.currency,
+      items,
+      taxRates: taxRates.filter((rate) =>
+        [...items, ...(shipping ? [shipping] : [])].some((line) =>
+          line.taxRateIds.includes(rate.id)
+        )
+      ),
+      pricesIncludeTax,
+      discount,
+      shipping,
+    },
+  };
+}
+
+/**
+ * Validates a payment sent by a client. `amount` is a decimal string in the
+ * invoice currency ("120.50"), converted to minor units here.
+ */
+export function parsePayment(
+  input: unknown,
+  currency: CurrencyCode
+): { payment: NewPayment } | { error: string } {
+  if (!isRecord(input)) return { error: "Expected a payment" };
+  const amount =
+    typeof input.amount === "string"
+      ? toMinorUnits(input.amount, currency)
+      : NaN;
+  if (!(amount > 0)) return { error: "Expected a positive amount" };
+  const method = PAYMENT_METHODS.find((value) => value === input.method);
+  if (!method) return { error: "Unknown payment method" };
+  const reference = typeof input.reference === "string" ? input.reference : "";
+  let paidAt: string | undefined;
+  if (input.paidAt !== undefined) {
+    const time =
+      typeof input.paidAt === "string" ? Date.parse(input.paidAt) : NaN;
+    if (Number.isNaN(time)) return { error: "Invalid payment date" };
+    if (time > Date.now()) return { error: "Payments cannot be in the future" };
+    paidAt = new Date(time).toISOString();
+  }
+  return {
+    payment: {
+      amount,
+      method,
+      reference: reference.trim().slice(0, 80),
+      paidAt,
+    },
+  };
+}
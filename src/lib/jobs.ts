@@ -0,0 +1,117 @@
+import { subscriptionBillingJob } from "./billing/subscriptions";
+import { bulkUndoExpiryJob } from "./bulk-runner";
+import { carrierSimulatorJob } from "./carrier-simulator";
+import { createCollection } from "./file-store";
+import { supportMailDropJob } from "./support-mail";
+
+export interface Job {
+  name: string;
+  description: string;
+  intervalMs: number; // How long the runner waits between runs
+  run: (now: Date) => Promise<string>; // Resolves to a summary of what it did
+}
+
+// The latest run of a job
+export interface JobRun {
+  name: string;
+  startedAt: string; // ISO timestamp
+  finishedAt: string;
+  result?: string;
+  error?: string;
+}
+
+export interface JobStatus {
+  name: string;
+  description: string;
+  intervalMs: number;
+  running: boolean;
+  lastRun: JobRun | null;
+}
+
+const JOBS: Job[] = [
+  subscriptionBillingJob,
+  bulkUndoExpiryJob,
+  supportMailDropJob,
+  carrierSimulatorJob,
+];
+
+// Kept on disk so a restart does not run every job again straight away
+const runs = createCollection<JobRun>("job-runs");
+
+// How often the runner looks for jobs that are due
+const TICK_MS = 60 * 1000;
+
+const globalForJobs = globalThis as typeof globalThis & {
+  jobTimer?: ReturnType<typeof setInterval>;
+  runningJobs?: Set<string>;
+};
+
+const running = (globalForJobs.runningJobs ??= new Set<string>());
+
+export async function listJobs(): Promise<JobStatus[]> {
+  const latest = await runs.all();
+  return JOBS.map((job) => ({
+    name: job.name,
+    description: job.description,
+    intervalMs: job.intervalMs,
+    running: running.has(job.name),
+    lastRun: latest.find((run) => run.name === job.name) ?? null,
+  }));
+}
+
+/**
+ * Runs a job now and records the outcome. A job never runs twice at once;
+ * asking again while it runs is refused rather than queued.
+ */
+export async function runJob(
+  name: string,
+  now: Date = new Date()
+): Promise<{ run: JobRun } | { error: string; status: 404 | 409 }> {
+  const job = JOBS.find((candidate) => candidate.name === name);
+  if (!job) return { error: "Job not found", status: 404 };
+  if (running.has(name))
+    return { error: "Job is already running", status: 409 };
+
+  running.add(name);
+  const run: JobRun = { name, startedAt: now.toISOString(), finishedAt: "" };
+  try {
+    run.result = await job.run(now);
+  } catch (err) {
+    run.error = err instanceof Error ? err.message : String(err);
+  } finally {
+    running.delete(name);
+  }
+  run.finishedAt = new Date().toISOString();
+  await runs.update((rows) => {
+    const index = rows.findIndex((row) => row.name === name);
+    if (index === -1) rows.push(run);
+    else rows[index] = run;
+  });
+  return { run };
+}
+
+async function runDueJobs() {
+  const now = new Date();
+  const latest = await runs.all();
+  for (const job of JOBS) {
+    const last = latest.find((run) => run.name === job.name);
+    if (!last || now.getTime() - Date.parse(last.startedAt) >= job.intervalMs) {
+      await runJob(job.name, now);
+    }
+  }
+}
+
+/**
+ * Starts running jobs in the background of the server process, first right
+ * away and then whenever one is due. Calling it again does nothing, so dev
+ * reloads do not start a second runner.
+ */
+export function startJobRunner() {
+  if (globalForJobs.jobTimer) return;
+  const tick = () =>
+    runDueJobs().catch((err) => console.error("Job runner failed", err));
+  globalForJobs.jobTimer = setInterval(tick, TICK_MS);
+  // Never keeps the process alive on its own
+  globalForJobs.jobTimer.unref?.();
+  void tick();
+}
@@ -0,0 +1,47 @@
+import type { SupportTicket } from "./mock-data/support-tickets";
+
+/**
+ * The `{{placeholders}}` a macro's text may use, filled in when an agent
+ * inserts the macro into a reply. Kept free of Node APIs so the reply box
+ * can fill them in the browser.
+ */
+
+export const MACRO_PLACEHOLDERS = {
+  customer_name: "Customer's full name",
+  customer_first_name: "Customer's first name",
+  ticket_id: "Ticket number, without the #",
+  ticket_subject: "Ticket subject",
+  agent_name: "Name of the agent replying",
+} as const;
+export type MacroPlaceholder = keyof typeof MACRO_PLACEHOLDERS;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-z_]+)\s*\}\}/g;
+
+function isPlaceholder(name: string): name is MacroPlaceholder {
+  return Object.prototype.hasOwnProperty.call(MACRO_PLACEHOLDERS, name);
+}
+
+// Placeholders in `text` that are not in `MACRO_PLACEHOLDERS`, for the form
+export function unknownPlaceholders(text: string): string[] {
+  const names = [...text.matchAll(PLACEHOLDER_PATTERN)].map(
+    (match) => match[1]
+  );
+  return [...new Set(names.filter((name) => !isPlaceholder(name)))];
+}
+
+export function fillPlaceholders(
+  text: string,
+  ticket: Pick<SupportTicket, "id" | "name" | "subject">,
+  agentName: string
+): string {
+  const values: Record<MacroPlaceholder, string> = {
+    customer_name: ticket.name,
+    customer_first_name: ticket.name.split(" ")[0],
+    ticket_id: ticket.id,
+    ticket_subject: ticket.subject,
+    agent_name: agentName,
+  };
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+    isPlaceholder(name) ? values[name] : placeholder
+  );
+}
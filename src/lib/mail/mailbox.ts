@@ -0,0 +1,435 @@
+import { dataPath } from "../file-store";
+import type { TablePage } from "../table-query";
+import { mailSeedMessages } from "../mock-data/mail";
+import { createMaildirProvider } from "./maildir";
+import {
+  createMemoryMailProvider,
+  type MailProvider,
+  type MailSeed,
+} from "./provider";
+import { MAIL_PAGE_SIZE, type MailQuery } from "./query";
+import { createMessageId, formatMessage, parseAddressList } from "./rfc822";
+import {
+  createLogTransport,
+  createSmtpTransport,
+  type MailTransport,
+} from "./transport";
+import {
+  MAIL_FILTERS,
+  MAIL_FOLDERS,
+  MAIL_LABELS,
+  isMailFolder,
+  isMailLabel,
+  type MailAddress,
+  type MailCounts,
+  type MailFolder,
+  type MailLabel,
+  type MailMessage,
+  type MailSummary,
+} from "./types";
+
+/**
+ * The team mailbox shown on the email pages. Which store and transport are
+ * used comes from the environment:
+ *
+ * - `MAIL_PROVIDER`: `maildir` (default) or `memory`
+ * - `MAILDIR`: Maildir++ root, `<DATA_DIR>/maildir` by default
+ * - `SMTP_URL`: where sent mail goes, e.g. `smtp://localhost:1025` for
+ *   Mailpit; without it messages are written to the server log
+ * - `MAIL_FROM`: the mailbox address, `"TailAdmin" <team@tailadmin.local>`
+ *   by default
+ */
+
+// Changes applied to every selected message by a bulk action
+export interface MailChanges {
+  read?: boolean;
+  starred?: boolean;
+  important?: boolean;
+  folder?: MailFolder;
+  addLabels?: MailLabel[];
+  removeLabels?: MailLabel[];
+}
+
+export interface OutgoingMailInput {
+  to: string; // Comma separated addresses
+  cc: string;
+  subject: string;
+  text: string;
+  replyTo: string | null; // Id of the message being answered
+}
+
+export const MAX_MAIL_LENGTH = 100_000;
+const MAX_SUBJECT_LENGTH = 250;
+
+// Shared across separately bundled route handlers, like the chat listeners
+const globalForMail = globalThis as typeof globalThis & {
+  mailProvider?: MailProvider;
+  mailTransport?: MailTransport;
+};
+
+export function mailboxAddress(): MailAddress {
+  return (
+    parseAddressList(process.env.MAIL_FROM)[0] ?? {
+      name: "TailAdmin",
+      email: "team@tailadmin.local",
+    }
+  );
+}
+
+function mailDomain(): string {
+  return mailboxAddress().email.split("@")[1];
+}
+
+function seedMessages(): MailSeed[] {
+  const me = mailboxAddress();
+  const resolve = (address: MailAddress | "me") =>
+    address === "me" ? me : address;
+  const ids = new Map<string, { messageId: string; references: string[] }>();
+
+  // Oldest first, so a reply always comes after the message it answers
+  return [...mailSeedMessages]
+    .sort((a, b) => b.minutesAgo - a.minutesAgo)
+    .map((seed) => {
+      const parent = seed.replyTo ? ids.get(seed.replyTo) : undefined;
+      const messageId = `<${seed.key}@${mailDomain()}>`;
+      const references = parent ? [...parent.references, parent.messageId] : [];
+      ids.set(seed.key, { messageId, references });
+      return {
+        folder: seed.folder,
+        raw: formatMessage({
+          messageId,
+          date: new Date(Date.now() - seed.minutesAgo * 60_000),
+          from: resolve(seed.from),
+          to: seed.to.map(resolve),
+          cc: [],
+          subject: seed.subject,
+          text: seed.text,
+          inReplyTo: parent?.messageId ?? null,
+          references,
+        }),
+        flags: {
+          read: seed.read ?? false,
+          starred: seed.starred ?? false,
+          important: seed.important ?? false,
+          labels: seed.labels ?? [],
+        },
+      };
+    });
+}
+
+function provider(): MailProvider {
+  return (globalForMail.mailProvider ??=
+    process.env.MAIL_PROVIDER === "memory"
+      ? createMemoryMailProvider(seedMessages)
+      : createMaildirProvider(
+          process.env.MAILDIR ?? dataPath("maildir"),
+          seedMessages
+        ));
+}
+
+function transport(): MailTransport {
+  return (globalForMail.mailTransport ??= process.env.SMTP_URL
+    ? createSmtpTransport(process.env.SMTP_URL)
+    : createLogTransport());
+}
+
+// Filters and labels look past these folders, as most mail clients do
+const isHidden = (message: MailMessage) =>
+  message.folder === "spam" || message.folder === "trash";
+
+function matchesSearch(message: MailMessage, search: string): boolean {
+  const term = search.toLowerCase();
+  return [
+    message.subject,
+    message.text,
+    message.from.name ?? "",
+    message.from.email,
+    ...message.to.map((address) => address.email),
+  ].some((value) => value.toLowerCase().includes(term));
+}
+
+function toSummary({ text, ...message }: MailMessage): MailSummary {
+  return { ...message, preview: text.replace(/\s+/g, " ").slice(0, 160) };
+}
+
+const byDateDesc = (a: MailMessage, b: MailMessage) =>
+  b.date.localeCompare(a.date);
+
+// Messages in the query's folder, filter or label, newest first
+async function findMessages(query: MailQuery): Promise<MailMessage[]> {
+  const scoped = query.filter || query.label;
+  return (await provider().list(scoped ? undefined : query.folder))
+    .filter((m) => !scoped || !isHidden(m))
+    .filter((m) => !query.filter || m[query.filter])
+    .filter((m) => !query.label || m.labels.includes(query.label))
+    .filter((m) => !query.search || matchesSearch(m, query.search))
+    .sort(byDateDesc);
+}
+
+export async function listMail(
+  query: MailQuery
+): Promise<TablePage<MailSummary>> {
+  const messages = await findMessages(query);
+  const pageCount = Math.max(1, Math.ceil(messages.length / MAIL_PAGE_SIZE));
+  const page = Math.min(query.page, pageCount);
+  const start = (page - 1) * MAIL_PAGE_SIZE;
+  return {
+    rows: messages.slice(start, start + MAIL_PAGE_SIZE).map(toSummary),
+    total: messages.length,
+    page,
+    pageSize: MAIL_PAGE_SIZE,
+  };
+}
+
+/**
+ * Badge numbers for the sidebar: unread messages per folder (every draft
+ * for Drafts), and all messages per filter and label.
+ */
+export async function getMailCounts(): Promise<MailCounts> {
+  const messages = await provider().list();
+  const visible = messages.filter((m) => !isHidden(m));
+  const countBy = <K extends string>(
+    keys: readonly K[],
+    matches: (key: K) => (m: MailMessage) => boolean,
+    from: MailMessage[]
+  ) =>
+    Object.fromEntries(
+      keys.map((key) => [key, from.filter(matches(key)).length])
+    ) as Record<K, number>;
+
+  return {
+    folders: countBy(
+      MAIL_FOLDERS,
+      (folder) => (m) => m.folder === folder && (folder === "draft" || !m.read),
+      messages
+    ),
+    filters: countBy(MAIL_FILTERS, (filter) => (m) => m[filter], visible),
+    labels: countBy(
+      MAIL_LABELS,
+      (label) => (m) => m.labels.includes(label),
+      visible
+    ),
+  };
+}
+
+// Messages of a conversation, oldest first; empty when the id is unknown
+export async function getThread(threadId: string): Promise<MailMessage[]> {
+  return (await provider().list())
+    .filter((m) => m.threadId === threadId)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Where a conversation sits among the conversations of a list, for the
+ * "4 of 120" pager on the thread page. Null when it is not in the list.
+ */
+export async function getThreadPosition(
+  threadId: string,
+  query: MailQuery
+): Promise<{
+  index: number; // 0-based
+  total: number;
+  previous: string | null; // Thread id of the newer neighbour
+  next: string | null;
+} | null> {
+  const threadIds = Array.from(
+    new Set((await findMessages(query)).map((m) => m.threadId))
+  );
+  const index = threadIds.indexOf(threadId);
+  if (index < 0) return null;
+  return {
+    index,
+    total: threadIds.length,
+    previous: threadIds[index - 1] ?? null,
+    next: threadIds[index + 1] ?? null,
+  };
+}
+
+/**
+ * Reads a bulk update from a request body. Unknown keys are ignored; at
+ * least one change is required.
+ */
+export function parseMailChanges(
+  value: unknown
+): { changes: MailChanges } | { error: string } {
+  if (typeof value !== "object" || value === null) {
+    return { error: "Expected an object of changes" };
+  }
+  const input = value as Record<string, unknown>;
+  const changes: MailChanges = {};
+  for (const flag of ["read", "starred", "important"] as const) {
+    if (input[flag] === undefined) continue;
+    if (typeof input[flag] !== "boolean") {
+      return { error: `"${flag}" must be true or false` };
+    }
+    changes[flag] = input[flag];
+  }
+  if (input.folder !== undefined) {
+    if (!isMailFolder(input.folder)) return { error: "Unknown folder" };
+    changes.folder = input.folder;
+  }
+  for (const key of ["addLabels", "removeLabels"] as const) {
+    if (input[key] === undefined) continue;
+    const labels = input[key];
+    if (!Array.isArray(labels) || !labels.every(isMailLabel)) {
+      return { error: `"${key}" must be a list of labels` };
+    }
+    changes[key] = labels;
+  }
+  if (Object.keys(changes).length === 0) {
+    return { error: "Nothing to change" };
+  }
+  return { changes };
+}
+
+// Applies `changes` to each message; returns how many were found
+export async function updateMail(
+  ids: string[],
+  changes: MailChanges
+): Promise<number> {
+  const store = provider();
+  let updated = 0;
+  for (const id of ids) {
+    const message = await store.get(id);
+    if (!message) continue;
+    const labels = MAIL_LABELS.filter(
+      (label) =>
+        (message.labels.includes(label) ||
+          changes.addLabels?.includes(label)) &&
+        !changes.removeLabels?.includes(label)
+    );
+    await store.setFlags(id, {
+      read: changes.read ?? message.read,
+      starred: changes.starred ?? message.starred,
+      important: changes.important ?? message.important,
+      labels,
+    });
+    if (changes.folder && changes.folder !== message.folder) {
+      await store.move(id, changes.folder);
+    }
+    updated++;
+  }
+  return updated;
+}
+
+/**
+ * Moves messages to Trash. Messages already in Trash are deleted for good,
+ * the way IMAP clients expunge.
+ */
+export async function deleteMail(
+  ids: string[]
+): Promise<{ trashed: number; deleted: number }> {
+  const store = provider();
+  const result = { trashed: 0, deleted: 0 };
+  for (const id of ids) {
+    const message = await store.get(id);
+    if (!message) continue;
+    if (message.folder === "trash") {
+      if (await store.remove(id)) result.deleted++;
+    } else if (await store.move(id, "trash")) {
+      result.trashed++;
+    }
+  }
+  return result;
+}
+
+function parseRecipients(
+  value: string,
+  field: string
+): { addresses: MailAddress[] } | { error: string } {
+  const entries = value
+    .split(/[,;]/)
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  const addresses = entries.flatMap((entry) => parseAddressList(entry));
+  if (addresses.length !== entries.length) {
+    return { error: `${field} has an invalid address` };
+  }
+  return { addresses };
+}
+
+export function parseOutgoingMail(
+  value: unknown
+): { mail: OutgoingMailInput } | { error: string } {
+  if (typeof value !== "object" || value === null) {
+    return { error: "Expected a message" };
+  }
+  const input = value as Record<string, unknown>;
+  const text = (key: string) =>
+    typeof input[key] === "string" ? (input[key] as string) : "";
+  return {
+    mail: {
+      to: text("to"),
+      cc: text("cc"),
+      subject: text("subject").trim(),
+      text: text("text"),
+      replyTo: typeof input.replyTo === "string" ? input.replyTo : null,
+    },
+  };
+}
+
+/**
+ * Sends a message from the team mailbox on behalf of `senderName` and files
+ * a copy in Sent. Replies keep In-Reply-To and References so they join the
+ * conversation of the message they answer.
+ */
+export async function sendMail(
+  senderName: string,
+  input: OutgoingMailInput
+): Promise<{ message: MailMessage } | { error: string }> {
+  const to = parseRecipients(input.to, "To");
+  if ("error" in to) return to;
+  const cc = parseRecipients(input.cc, "Cc");
+  if ("error" in cc) return cc;
+  if (to.addresses.length === 0) return { error: "Add at least one recipient" };
+  if (input.subject.length > MAX_SUBJECT_LENGTH) {
+    return {
+      error: `Subjects are limited to ${MAX_SUBJECT_LENGTH} characters`,
+    };
+  }
+  if (!input.text.trim()) return { error: "Write a message" };
+  if (input.text.length > MAX_MAIL_LENGTH) {
+    return { error: "The message is too long" };
+  }
+
+  const store = provider();
+  const original = input.replyTo ? await store.get(input.replyTo) : null;
+  if (input.replyTo && !original) {
+    return { error: "The message you replied to no longer exists" };
+  }
+
+  const mailbox = mailboxAddress();
+  const from = { name: senderName || mailbox.name, email: mailbox.email };
+  const raw = formatMessage({
+    messageId: createMessageId(mailDomain()),
+    date: new Date(),
+    from,
+    to: to.addresses,
+    cc: cc.addresses,
+    subject: input.subject || "(no subject)",
+    text: input.text,
+    inReplyTo: original?.messageId ?? null,
+    references: original ? [...original.references, original.messageId] : [],
+  });
+
+  const recipients = [...to.addresses, ...cc.addresses].map(
+    (address) => address.email
+  );
+  try {
+    await transport().send({ from: from.email, to: recipients }, raw);
+  } catch (err) {
+    return {
+      error: `Could not send the message: ${
+        err instanceof Error ? err.message : String(err)
+      }`,
+    };
+  }
+
+  const message = await store.append("sent", raw, {
+    read: true,
+    starred: false,
+    important: false,
+    labels: original?.labels ?? [],
+  });
+  return { message };
+}
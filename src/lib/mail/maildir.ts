@@ -0,0 +1,244 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import { hostname } from "os";
+import path from "path";
+import { toMailMessage, type MailProvider, type MailSeed } from "./provider";
+import {
+  MAIL_FOLDERS,
+  MAIL_LABELS,
+  type MailFlags,
+  type MailFolder,
+  type MailLabel,
+  type MailMessage,
+} from "./types";
+
+/**
+ * Maildir++ mailbox on disk, the layout Dovecot and Courier serve over IMAP.
+ * The inbox lives at the root and other folders in dot-directories, each
+ * with `tmp/`, `new/` and `cur/`. Flags are kept in the file name suffix
+ * (`:2,FS`) and labels as Dovecot keywords, so pointing an IMAP server at
+ * the same directory shows the same mailbox.
+ */
+
+const FOLDER_DIRS: Record<MailFolder, string> = {
+  inbox: "",
+  sent: ".Sent",
+  draft: ".Drafts",
+  spam: ".Junk",
+  trash: ".Trash",
+  archive: ".Archive",
+};
+
+// Keyword letters `a`, `b`, ... in the order listed in `dovecot-keywords`
+const KEYWORDS = ["$Important", ...MAIL_LABELS] as const;
+const KEYWORD_LETTERS = "abcdefghijklmnopqrstuvwxyz";
+
+interface MaildirEntry {
+  id: string;
+  folder: MailFolder;
+  file: string; // Absolute path
+}
+
+function formatInfo(flags: MailFlags): string {
+  const letters = [
+    flags.starred ? "F" : "",
+    flags.read ? "S" : "",
+    ...KEYWORDS.map((keyword, index) =>
+      (keyword === "$Important" && flags.important) ||
+      flags.labels.includes(keyword as MailLabel)
+        ? KEYWORD_LETTERS[index]
+        : ""
+    ),
+  ];
+  return `:2,${letters.join("")}`;
+}
+
+function parseInfo(fileName: string): MailFlags {
+  const info = fileName.split(":2,")[1] ?? "";
+  const hasKeyword = (keyword: (typeof KEYWORDS)[number]) =>
+    info.includes(KEYWORD_LETTERS[KEYWORDS.indexOf(keyword)]);
+  return {
+    read: info.includes("S"),
+    starred: info.includes("F"),
+    important: hasKeyword("$Important"),
+    labels: MAIL_LABELS.filter(hasKeyword),
+  };
+}
+
+// Unique part of a file name: time, a random token and the host
+function createUniqueName(): string {
+  const host = hostname().replace(/[/:]/g, "_");
+  return `${Math.floor(Date.now() / 1000)}.${randomUUID().replace(
+    /-/g,
+    ""
+  )}.${host}`;
+}
+
+export function createMaildirProvider(
+  root: string,
+  seed: () => MailSeed[] = () => []
+): MailProvider {
+  const folderDir = (folder: MailFolder) =>
+    path.join(root, FOLDER_DIRS[folder]);
+  let ready: Promise<void> | null = null;
+  // Renames run one at a time so a flag change never races a move
+  let pending: Promise<unknown> = Promise.resolve();
+
+  const exclusive = <R>(task: () => Promise<R>): Promise<R> => {
+    const next = pending.catch(() => undefined).then(task);
+    pending = next;
+    return next;
+  };
+
+  async function createFolders() {
+    for (const folder of MAIL_FOLDERS) {
+      for (const sub of ["tmp", "new", "cur"]) {
+        await fs.mkdir(path.join(folderDir(folder), sub), { recursive: true });
+      }
+      await fs.writeFile(
+        path.join(folderDir(folder), "dovecot-keywords"),
+        KEYWORDS.map((keyword, index) => `${index} ${keyword}\n`).join("")
+      );
+    }
+  }
+
+  async function deliver(
+    folder: MailFolder,
+    raw: string,
+    flags: MailFlags
+  ): Promise<MaildirEntry> {
+    const id = createUniqueName();
+    const temp = path.join(folderDir(folder), "tmp", id);
+    const file = path.join(
+      folderDir(folder),
+      "cur",
+      `${id}${formatInfo(flags)}`
+    );
+    // Written to tmp/ first so readers never see a partial message
+    await fs.writeFile(temp, raw, "utf8");
+    await fs.rename(temp, file);
+    return { id, folder, file };
+  }
+
+  // Creates the folders and fills them with `seed` the first time
+  function ensureReady(): Promise<void> {
+    ready ??= fs.stat(root).then(
+      () => undefined,
+      async () => {
+        await createFolders();
+        for (const message of seed()) {
+          await deliver(message.folder, message.raw, message.flags);
+        }
+      }
+    );
+    return ready;
+  }
+
+  async function listEntries(folder: MailFolder): Promise<MaildirEntry[]> {
+    const entries: MaildirEntry[] = [];
+    for (const sub of ["new", "cur"]) {
+      const dir = path.join(folderDir(folder), sub);
+      const names = await fs.readdir(dir).catch(() => [] as string[]);
+      names
+        .filter((name) => !name.startsWith("."))
+        .forEach((name) =>
+          entries.push({
+            id: name.split(":")[0],
+            folder,
+            file: path.join(dir, name),
+          })
+        );
+    }
+    return entries;
+  }
+
+  async function findEntry(id: string): Promise<MaildirEntry | null> {
+    for (const folder of MAIL_FOLDERS) {
+      const entry = (await listEntries(folder)).find((e) => e.id === id);
+      if (entry) return entry;
+    }
+    return null;
+  }
+
+  async function readEntry(entry: MaildirEntry): Promise<MailMessage | null> {
+    try {
+      const [raw, stat] = await Promise.all([
+        fs.readFile(entry.file, "utf8"),
+        fs.stat(entry.file),
+      ]);
+      return toMailMessage(
+        entry.id,
+        entry.folder,
+        raw,
+        parseInfo(path.basename(entry.file)),
+        stat.mtime
+      );
+    } catch (err) {
+      // Moved or expunged while the folder was being listed
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw err;
+    }
+  }
+
+  async function rename(
+    entry: MaildirEntry,
+    folder: MailFolder,
+    flags: MailFlags
+  ) {
+    const file = path.join(
+      folderDir(folder),
+      "cur",
+      `${entry.id}${formatInfo(flags)}`
+    );
+    await fs.rename(entry.file, file);
+    return readEntry({ id: entry.id, folder, file });
+  }
+
+  return {
+    async list(folder) {
+      await ensureReady();
+      const folders = folder ? [folder] : [...MAIL_FOLDERS];
+      const entries = (await Promise.all(folders.map(listEntries))).flat();
+      const messages = await Promise.all(entries.map(readEntry));
+      return messages.filter((m): m is MailMessage => m !== null);
+    },
+    async get(id) {
+      await ensureReady();
+      const entry = await findEntry(id);
+      return entry ? readEntry(entry) : null;
+    },
+    async append(folder, raw, flags) {
+      await ensureReady();
+      const entry = await exclusive(() => deliver(folder, raw, flags));
+      const message = await readEntry(entry);
+      if (!message) throw new Error(`Message ${entry.id} vanished on delivery`);
+      return message;
+    },
+    async setFlags(id, flags) {
+      await ensureReady();
+      return exclusive(async () => {
+        const entry = await findEntry(id);
+        if (!entry) return null;
+        const current = parseInfo(path.basename(entry.file));
+        return rename(entry, entry.folder, { ...current, ...flags });
+      });
+    },
+    async move(id, folder) {
+      await ensureReady();
+      return exclusive(async () => {
+        const entry = await findEntry(id);
+        if (!entry) return null;
+        return rename(entry, folder, parseInfo(path.basename(entry.file)));
+      });
+    },
+    async remove(id) {
+      await ensureReady();
+      return exclusive(async () => {
+        const entry = await findEntry(id);
+        if (!entry) return false;
+        await fs.unlink(entry.file);
+        return true;
+      });
+    },
+  };
+}
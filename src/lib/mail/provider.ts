@@ -0,0 +1,144 @@
+import { createHash, randomUUID } from "crypto";
+import { parseMessage } from "./rfc822";
+import type { MailFlags, MailFolder, MailMessage } from "./types";
+
+/**
+ * Storage behind the mail pages, shaped after IMAP so a real server can be
+ * plugged in later: messages are appended as raw RFC 822 text, carry flags
+ * and keywords, move between folders and are expunged by id.
+ */
+export interface MailProvider {
+  list: (folder?: MailFolder) => Promise<MailMessage[]>; // Every folder when omitted
+  get: (id: string) => Promise<MailMessage | null>;
+  append: (
+    folder: MailFolder,
+    raw: string,
+    flags: MailFlags
+  ) => Promise<MailMessage>;
+  setFlags: (
+    id: string,
+    flags: Partial<MailFlags>
+  ) => Promise<MailMessage | null>;
+  move: (id: string, folder: MailFolder) => Promise<MailMessage | null>;
+  remove: (id: string) => Promise<boolean>;
+}
+
+// A message a provider starts out with before anything has been stored
+export interface MailSeed {
+  folder: MailFolder;
+  raw: string;
+  flags: MailFlags;
+}
+
+/**
+ * Conversations are keyed by the first message they started from, so every
+ * reply lands in the same thread whichever folder it is stored in.
+ */
+function threadIdFor(rootMessageId: string): string {
+  return createHash("sha1").update(rootMessageId).digest("hex").slice(0, 16);
+}
+
+/**
+ * Builds the message the app works with from stored text. `fallbackDate` is
+ * used when the Date header is missing, such as the file's delivery time.
+ */
+export function toMailMessage(
+  id: string,
+  folder: MailFolder,
+  raw: string,
+  flags: MailFlags,
+  fallbackDate: Date
+): MailMessage {
+  const parsed = parseMessage(raw);
+  const messageId = parsed.messageId ?? `<${id}@local>`;
+  return {
+    ...flags,
+    id,
+    folder,
+    messageId,
+    inReplyTo: parsed.inReplyTo,
+    references: parsed.references,
+    threadId: threadIdFor(
+      parsed.references[0] ?? parsed.inReplyTo ?? messageId
+    ),
+    from: parsed.from ?? { email: "unknown@localhost" },
+    to: parsed.to,
+    cc: parsed.cc,
+    subject: parsed.subject,
+    text: parsed.text,
+    date: (parsed.date ?? fallbackDate).toISOString(),
+  };
+}
+
+interface StoredMessage {
+  id: string;
+  folder: MailFolder;
+  raw: string;
+  flags: MailFlags;
+  receivedAt: Date;
+}
+
+/**
+ * Keeps messages in process memory only. Handy for demos and for pointing
+ * the app at a scratch mailbox that resets on restart.
+ */
+export function createMemoryMailProvider(
+  seed: () => MailSeed[] = () => []
+): MailProvider {
+  let messages: Map<string, StoredMessage> | null = null;
+  const load = () => {
+    messages ??= new Map(
+      seed().map((message): [string, StoredMessage] => {
+        const id = randomUUID();
+        return [id, { ...message, id, receivedAt: new Date() }];
+      })
+    );
+    return messages;
+  };
+  const toMessage = (stored: StoredMessage) =>
+    toMailMessage(
+      stored.id,
+      stored.folder,
+      stored.raw,
+      stored.flags,
+      stored.receivedAt
+    );
+
+  return {
+    async list(folder) {
+      return Array.from(load().values())
+        .filter((stored) => !folder || stored.folder === folder)
+        .map(toMessage);
+    },
+    async get(id) {
+      const stored = load().get(id);
+      return stored ? toMessage(stored) : null;
+    },
+    async append(folder, raw, flags) {
+      const stored = {
+        id: randomUUID(),
+        folder,
+        raw,
+        flags: { ...flags, labels: [...flags.labels] },
+        receivedAt: new Date(),
+      };
+      load().set(stored.id, stored);
+      return toMessage(stored);
+    },
+    async setFlags(id, flags) {
+      const stored = load().get(id);
+      if (!stored) return null;
+      stored.flags = { ...stored.flags, ...flags };
+      return toMessage(stored);
+    },
+    async move(id, folder) {
+      const stored = load().get(id);
+      if (!stored) return null;
+      stored.folder = folder;
+      return toMessage(stored);
+    },
+    async remove(id) {
+      return load().delete(id);
+    },
+  };
+}
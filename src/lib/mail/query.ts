@@ -0,0 +1,52 @@
+import {
+  isMailFilter,
+  isMailFolder,
+  isMailLabel,
+  type MailFilter,
+  type MailFolder,
+  type MailLabel,
+} from "./types";
+
+/**
+ * What the inbox list shows. A filter or label searches every folder except
+ * spam and trash; otherwise only `folder` is listed.
+ *
+ * It is kept in the page URL and sent to the API as the same search params:
+ * `?folder=inbox&filter=starred&label=work&q=invoice&page=2`
+ */
+export interface MailQuery {
+  folder: MailFolder;
+  filter: MailFilter | null;
+  label: MailLabel | null;
+  search: string;
+  page: number; // 1-based
+}
+
+export const MAIL_PAGE_SIZE = 20;
+
+export function parseMailQuery(params: URLSearchParams): MailQuery {
+  const folder = params.get("folder");
+  const filter = params.get("filter");
+  const label = params.get("label");
+  const page = Number(params.get("page"));
+  return {
+    folder: isMailFolder(folder) ? folder : "inbox",
+    filter: isMailFilter(filter) ? filter : null,
+    label: isMailLabel(label) ? label : null,
+    search: params.get("q")?.trim() ?? "",
+    page: Number.isInteger(page) && page > 0 ? page : 1,
+  };
+}
+
+// Search params for `query`, leaving out defaults to keep URLs short
+export function serializeMailQuery(query: Partial<MailQuery>): URLSearchParams {
+  const params = new URLSearchParams();
+  if (query.folder && query.folder !== "inbox") {
+    params.set("folder", query.folder);
+  }
+  if (query.filter) params.set("filter", query.filter);
+  if (query.label) params.set("label", query.label);
+  if (query.search) params.set("q", query.search);
+  if (query.page && query.page > 1) params.set("page", String(query.page));
+  return params;
+}
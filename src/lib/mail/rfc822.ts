@@ -0,0 +1,359 @@
+import { randomUUID } from "crypto";
+import type { MailAddress } from "./types";
+
+/**
+ * Just enough of RFC 5322 and MIME to store messages as files and hand them
+ * to an SMTP server: headers with encoded words, address lists and a plain
+ * text body, which is taken from the first text part of multipart mail.
+ * Parts with a file name are returned as attachments.
+ */
+
+export interface ParsedAttachment {
+  fileName: string;
+  contentType: string; // Lowercase, without parameters
+  data: Buffer;
+}
+
+export interface ParsedMessage {
+  headers: Map<string, string>; // Lowercase names, unfolded and decoded
+  messageId: string | null;
+  inReplyTo: string | null;
+  references: string[];
+  from: MailAddress | null;
+  to: MailAddress[];
+  cc: MailAddress[];
+  subject: string;
+  date: Date | null;
+  text: string;
+  attachments: ParsedAttachment[];
+}
+
+export interface OutgoingMessage {
+  messageId: string;
+  date: Date;
+  from: MailAddress;
+  to: MailAddress[];
+  cc: MailAddress[];
+  subject: string;
+  text: string;
+  inReplyTo: string | null;
+  references: string[];
+}
+
+const EMAIL_PATTERN = /^[^\s@<>(),;:"]+@[^\s@<>(),;:"]+\.[^\s@<>(),;:"]+$/;
+
+export function isEmailAddress(value: string): boolean {
+  return EMAIL_PATTERN.test(value);
+}
+
+export function createMessageId(domain: string): string {
+  return `<${randomUUID()}@${domain}>`;
+}
+
+function isAscii(value: string): boolean {
+  return /^[\x20-\x7e]*$/.test(value);
+}
+
+function encodeWord(value: string): string {
+  return isAscii(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+function decodeCharset(bytes: Buffer, charset: string): string {
+  const normalized = charset.toLowerCase();
+  return normalized === "iso-8859-1" ||
+    normalized === "latin1" ||
+    normalized === "us-ascii"
+    ? bytes.toString("latin1")
+    : bytes.toString("utf8");
+}
+
+function decodeQuotedPrintable(value: string, underscoreIsSpace = false) {
+  const source = underscoreIsSpace ? value.replace(/_/g, " ") : value;
+  const bytes: number[] = [];
+  const input = source.replace(/=\r?\n/g, "");
+  for (let i = 0; i < input.length; i++) {
+    const hex = input.slice(i + 1, i + 3);
+    if (input[i] === "=" && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(...Buffer.from(input[i], "utf8"));
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// Decodes `=?charset?B|Q?...?=` words; adjacent words join without a space
+export function decodeHeaderValue(value: string): string {
+  return value
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, "$1")
+    .replace(
+      /=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g,
+      (_, charset: string, encoding: string, text: string) =>
+        decodeCharset(
+          encoding.toUpperCase() === "B"
+            ? Buffer.from(text, "base64")
+            : decodeQuotedPrintable(text, true),
+          charset
+        )
+    );
+}
+
+function splitHeaderBlock(raw: string): {
+  headers: Map<string, string>;
+  body: string;
+} {
+  const match = /\r?\n\r?\n/.exec(raw);
+  const head = match ? raw.slice(0, match.index) : raw;
+  const body = match ? raw.slice(match.index + match[0].length) : "";
+  const headers = new Map<string, string>();
+  const unfolded = head.replace(/\r?\n[ \t]+/g, " ").split(/\r?\n/);
+  for (const line of unfolded) {
+    const colon = line.indexOf(":");
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    // The first occurrence wins, as it is the one closest to the sender
+    if (!headers.has(name)) {
+      headers.set(name, decodeHeaderValue(line.slice(colon + 1).trim()));
+    }
+  }
+  return { headers, body };
+}
+
+// `text/plain; charset="utf-8"` → type and lowercase parameters
+function parseContentType(value: string | undefined) {
+  const [type, ...params] = (value ?? "text/plain").split(";");
+  const parameters = new Map<string, string>();
+  params.forEach((param) => {
+    const equals = param.indexOf("=");
+    if (equals < 0) return;
+    parameters.set(
+      param.slice(0, equals).trim().toLowerCase(),
+      param
+        .slice(equals + 1)
+        .trim()
+        .replace(/^"(.*)"$/, "$1")
+    );
+  });
+  return { type: type.trim().toLowerCase(), parameters };
+}
+
+function decodeBytes(body: string, encoding: string | undefined): Buffer {
+  switch (encoding?.toLowerCase()) {
+    case "base64":
+      return Buffer.from(body.replace(/\s+/g, ""), "base64");
+    case "quoted-printable":
+      return decodeQuotedPrintable(body);
+    default:
+      return Buffer.from(body, "utf8");
+  }
+}
+
+function decodeBody(
+  body: string,
+  encoding: string | undefined,
+  charset: string
+): string {
+  const lower = encoding?.toLowerCase();
+  return lower === "base64" || lower === "quoted-printable"
+    ? decodeCharset(decodeBytes(body, lower), charset)
+    : body;
+}
+
+// Parts of a multipart body, each split into its headers and body
+function splitParts(body: string, boundary: string) {
+  return body
+    .split(`--${boundary}`)
+    .slice(1)
+    .filter((part) => !part.startsWith("--"))
+    .map((part) =>
+      splitHeaderBlock(
+        // The line break before the next boundary belongs to the boundary
+        part.replace(/^\r?\n/, "").replace(/\r?\n$/, "")
+      )
+    );
+}
+
+// `filename` from Content-Disposition or `name` from Content-Type, if any
+function fileNameOf(headers: Map<string, string>): string | null {
+  const disposition = parseContentType(headers.get("content-disposition"));
+  const extended = disposition.parameters.get("filename*");
+  if (extended) {
+    // RFC 2231: `UTF-8''na%C3%AFve.pdf`
+    const encoded = extended.slice(
+      extended.indexOf("'", extended.indexOf("'") + 1) + 1
+    );
+    try {
+      return decodeURIComponent(encoded);
+    } catch {
+      return encoded;
+    }
+  }
+  return (
+    disposition.parameters.get("filename") ??
+    parseContentType(headers.get("content-type")).parameters.get("name") ??
+    null
+  );
+}
+
+// Every part with a file name, however deep in the multipart tree
+function collectAttachments(
+  headers: Map<string, string>,
+  body: string
+): ParsedAttachment[] {
+  const contentType = parseContentType(headers.get("content-type"));
+  const boundary = contentType.parameters.get("boundary");
+  if (contentType.type.startsWith("multipart/") && boundary) {
+    return splitParts(body, boundary).flatMap((part) =>
+      collectAttachments(part.headers, part.body)
+    );
+  }
+  const fileName = fileNameOf(headers);
+  if (!fileName) return [];
+  return [
+    {
+      fileName,
+      contentType: contentType.type,
+      data: decodeBytes(body, headers.get("content-transfer-encoding")),
+    },
+  ];
+}
+
+function stripHtml(html: string): string {
+  return html
+    .replace(/<(script|style)[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>|<\/p>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Plain text of a MIME entity. Multipart entities use their first text/plain
+ * part, falling back to the first HTML part with the tags removed.
+ */
+function extractText(headers: Map<string, string>, body: string): string {
+  const contentType = parseContentType(headers.get("content-type"));
+  const boundary = contentType.parameters.get("boundary");
+  if (contentType.type.startsWith("multipart/") && boundary) {
+    // Attachments are never the text, even when they are text files
+    const parts = splitParts(body, boundary).filter(
+      (part) => !fileNameOf(part.headers)
+    );
+    const typeOf = (part: (typeof parts)[number]) =>
+      parseContentType(part.headers.get("content-type")).type;
+    const chosen =
+      parts.find((part) => typeOf(part) === "text/plain") ??
+      parts.find((part) => typeOf(part).startsWith("multipart/")) ??
+      parts.find((part) => typeOf(part) === "text/html");
+    return chosen ? extractText(chosen.headers, chosen.body) : "";
+  }
+  const text = decodeBody(
+    body,
+    headers.get("content-transfer-encoding"),
+    contentType.parameters.get("charset") ?? "utf-8"
+  );
+  return contentType.type === "text/html" ? stripHtml(text) : text;
+}
+
+/**
+ * Splits an address list on commas outside quotes and angle brackets.
+ * Entries without a valid address are dropped.
+ */
+export function parseAddressList(value: string | undefined): MailAddress[] {
+  if (!value) return [];
+  const entries: string[] = [];
+  let current = "";
+  let quoted = false;
+  let bracketed = false;
+  for (const char of value) {
+    if (char === '"') quoted = !quoted;
+    if (char === "<" && !quoted) bracketed = true;
+    if (char === ">" && !quoted) bracketed = false;
+    if ((char === "," || char === ";") && !quoted && !bracketed) {
+      entries.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  entries.push(current);
+
+  return entries.flatMap((entry) => {
+    const angle = /^(.*)<([^>]+)>\s*$/.exec(entry.trim());
+    const email = (angle ? angle[2] : entry).trim();
+    if (!isEmailAddress(email)) return [];
+    const name = angle?.[1].trim().replace(/^"(.*)"$/, "$1");
+    return [name ? { name, email } : { email }];
+  });
+}
+
+export function formatAddress(address: MailAddress): string {
+  if (!address.name) return address.email;
+  const name = isAscii(address.name)
+    ? `"${address.name.replace(/["\\]/g, "\\$&")}"`
+    : encodeWord(address.name);
+  return `${name} <${address.email}>`;
+}
+
+function parseIdList(value: string | undefined): string[] {
+  return value?.match(/<[^<>\s]+>/g) ?? [];
+}
+
+export function parseMessage(raw: string): ParsedMessage {
+  const { headers, body } = splitHeaderBlock(raw);
+  const date = headers.has("date") ? new Date(headers.get("date")!) : null;
+  return {
+    headers,
+    messageId: parseIdList(headers.get("message-id"))[0] ?? null,
+    inReplyTo: parseIdList(headers.get("in-reply-to"))[0] ?? null,
+    references: parseIdList(headers.get("references")),
+    from: parseAddressList(headers.get("from"))[0] ?? null,
+    to: parseAddressList(headers.get("to")),
+    cc: parseAddressList(headers.get("cc")),
+    subject: headers.get("subject") ?? "",
+    date: date && !isNaN(date.getTime()) ? date : null,
+    text: extractText(headers, body).replace(/\r\n/g, "\n").trimEnd(),
+    attachments: collectAttachments(headers, body),
+  };
+}
+
+/**
+ * Serializes a message with CRLF line endings, ready to be written to a
+ * mailbox or sent as SMTP DATA. Non-ASCII bodies are base64 encoded.
+ */
+export function formatMessage(message: OutgoingMessage): string {
+  const headers = [
+    `Message-ID: ${message.messageId}`,
+    `Date: ${message.date.toUTCString().replace("GMT", "+0000")}`,
+    `From: ${formatAddress(message.from)}`,
+    `To: ${message.to.map(formatAddress).join(", ")}`,
+  ];
+  if (message.cc.length > 0) {
+    headers.push(`Cc: ${message.cc.map(formatAddress).join(", ")}`);
+  }
+  headers.push(`Subject: ${encodeWord(message.subject)}`);
+  if (message.inReplyTo) headers.push(`In-Reply-To: ${message.inReplyTo}`);
+  if (message.references.length > 0) {
+    headers.push(`References: ${message.references.join(" ")}`);
+  }
+  headers.push("MIME-Version: 1.0", "Content-Type: text/plain; charset=utf-8");
+
+  const text = message.text.replace(/\r?\n/g, "\r\n");
+  const plain = text.split("\r\n").every((line) => line.length <= 998);
+  if (plain && /^[\x00-\x7f]*$/.test(text)) {
+    headers.push("Content-Transfer-Encoding: 7bit");
+    return `${headers.join("\r\n")}\r\n\r\n${text}\r\n`;
+  }
+  headers.push("Content-Transfer-Encoding: base64");
+  const encoded =
+    Buffer.from(text, "utf8")
+      .toString("base64")
+      .match(/.{1,76}/g)
+      ?.join("\r\n") ?? "";
+  return `${headers.join("\r\n")}\r\n\r\n${encoded}\r\n`;
+}
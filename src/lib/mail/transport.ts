@@ -0,0 +1,125 @@
+import { Socket, connect } from "net";
+import { hostname } from "os";
+
+// Hands a formatted message to whatever delivers it
+export interface MailTransport {
+  send: (
+    envelope: { from: string; to: string[] },
+    raw: string
+  ) => Promise<void>;
+}
+
+/**
+ * Writes outgoing mail to the server log instead of delivering it, like the
+ * password reset mailer. Used when no SMTP server is configured.
+ */
+export function createLogTransport(): MailTransport {
+  return {
+    async send(envelope, raw) {
+      console.info(
+        `[mail] Message from ${envelope.from} to ${envelope.to.join(
+          ", "
+        )} (set SMTP_URL to deliver it):\n${raw}`
+      );
+    },
+  };
+}
+
+const SMTP_TIMEOUT = 10_000;
+
+// Reads replies, including multi-line ones (`250-...` then `250 ...`)
+function createReplyReader(socket: Socket) {
+  let buffer = "";
+  let waiting: ((reply: { code: number; text: string }) => void) | null = null;
+  let failed: ((err: Error) => void) | null = null;
+
+  const flush = () => {
+    const lines = buffer.split("\r\n");
+    const last = lines.findIndex((line) => /^\d{3} /.test(line));
+    if (last < 0 || !waiting) return;
+    const reply = {
+      code: Number(lines[last].slice(0, 3)),
+      text: lines
+        .slice(0, last + 1)
+        .map((line) => line.slice(4))
+        .join("\n"),
+    };
+    buffer = lines.slice(last + 1).join("\r\n");
+    const resolve = waiting;
+    waiting = null;
+    resolve(reply);
+  };
+
+  socket.on("data", (chunk) => {
+    buffer += chunk.toString("utf8");
+    flush();
+  });
+  socket.on("error", (err) => failed?.(err));
+  socket.on("timeout", () => {
+    failed?.(new Error("SMTP server timed out"));
+    socket.destroy();
+  });
+
+  return () =>
+    new Promise<{ code: number; text: string }>((resolve, reject) => {
+      waiting = resolve;
+      failed = reject;
+      flush();
+    });
+}
+
+/**
+ * Minimal SMTP client for a local development server such as Mailpit or
+ * MailHog (`smtp://localhost:1025`). Plain connections only; credentials in
+ * the URL are sent with AUTH PLAIN.
+ */
+export function createSmtpTransport(url: string): MailTransport {
+  const target = new URL(url);
+  const port = Number(target.port || 25);
+
+  return {
+    async send(envelope, raw) {
+      const socket = connect({ host: target.hostname, port });
+      socket.setTimeout(SMTP_TIMEOUT);
+      const readReply = createReplyReader(socket);
+
+      const expect = async (
+        codes: number[],
+        command?: string,
+        label = command?.split(" ")[0] ?? "the connection"
+      ) => {
+        if (command !== undefined) socket.write(`${command}\r\n`);
+        const reply = await readReply();
+        if (!codes.includes(reply.code)) {
+          throw new Error(
+            `SMTP server rejected ${label}: ${reply.code} ${reply.text}`
+          );
+        }
+      };
+
+      try {
+        await expect([220]);
+        await expect([250], `EHLO ${hostname()}`);
+        if (target.username) {
+          const credentials = Buffer.from(
+            `\0${decodeURIComponent(target.username)}\0${decodeURIComponent(
+              target.password
+            )}`
+          ).toString("base64");
+          await expect([235], `AUTH PLAIN ${credentials}`);
+        }
+        await expect([250], `MAIL FROM:<${envelope.from}>`);
+        for (const recipient of envelope.to) {
+          await expect([250, 251], `RCPT TO:<${recipient}>`);
+        }
+        await expect([354], "DATA");
+        // Lines starting with a dot are doubled so they do not end the data
+        const body = raw.replace(/\r?\n/g, "\r\n").replace(/^\./gm, "..");
+        await expect([250], `${body.replace(/\r\n$/, "")}\r\n.`, "the message");
+        await expect([221], "QUIT");
+      } finally {
+        socket.destroy();
+      }
+    },
+  };
+}
@@ -0,0 +1,70 @@
+export const MAIL_FOLDERS = [
+  "inbox",
+  "sent",
+  "draft",
+  "spam",
+  "trash",
+  "archive",
+] as const;
+export type MailFolder = (typeof MAIL_FOLDERS)[number];
+
+export const MAIL_LABELS = [
+  "personal",
+  "work",
+  "payments",
+  "invoices",
+  "blank",
+] as const;
+export type MailLabel = (typeof MAIL_LABELS)[number];
+
+export const MAIL_FILTERS = ["starred", "important"] as const;
+export type MailFilter = (typeof MAIL_FILTERS)[number];
+
+export interface MailAddress {
+  name?: string;
+  email: string;
+}
+
+// Per-message state kept by the provider, like IMAP flags and keywords
+export interface MailFlags {
+  read: boolean;
+  starred: boolean;
+  important: boolean;
+  labels: MailLabel[];
+}
+
+export interface MailMessage extends MailFlags {
+  id: string; // Provider id, stable while the message exists
+  folder: MailFolder;
+  messageId: string; // Message-ID header, including the angle brackets
+  inReplyTo: string | null;
+  references: string[];
+  threadId: string; // Shared by every message of a conversation
+  from: MailAddress;
+  to: MailAddress[];
+  cc: MailAddress[];
+  subject: string;
+  text: string; // Plain text body
+  date: string; // ISO 8601
+}
+
+// What the inbox list shows for each message
+export type MailSummary = Omit<MailMessage, "text"> & { preview: string };
+
+export interface MailCounts {
+  folders: Record<MailFolder, number>; // Unread messages
+  filters: Record<MailFilter, number>;
+  labels: Record<MailLabel, number>;
+}
+
+export function isMailFolder(value: unknown): value is MailFolder {
+  return MAIL_FOLDERS.includes(value as MailFolder);
+}
+
+export function isMailLabel(value: unknown): value is MailLabel {
+  return MAIL_LABELS.includes(value as MailLabel);
+}
+
+export function isMailFilter(value: unknown): value is MailFilter {
+  return MAIL_FILTERS.includes(value as MailFilter);
+}
@@ -0,0 +1,68 @@
+import type { ChatContact } from "../chat";
+
+// Team members listed in the chat before anyone else signs up
+export const chatSeedContacts: ChatContact[] = [
+  {
+    id: "team-kaiya-george",
+    name: "Kaiya George",
+    role: "Project Manager",
+    avatar: "/images/user/user-18.jpg",
+    status: "online",
+  },
+  {
+    id: "team-lindsey-curtis",
+    name: "Lindsey Curtis",
+    role: "Designer",
+    avatar: "/images/user/user-17.jpg",
+    status: "online",
+  },
+  {
+    id: "team-zain-geidt",
+    name: "Zain Geidt",
+    role: "Content Writer",
+    avatar: "/images/user/user-19.jpg",
+    status: "online",
+  },
+  {
+    id: "team-carla-george",
+    name: "Carla George",
+    role: "Front-end Developer",
+    avatar: "/images/user/user-05.jpg",
+    status: "away",
+  },
+  {
+    id: "team-abram-schleifer",
+    name: "Abram Schleifer",
+    role: "Digital Marketer",
+    avatar: "/images/user/user-20.jpg",
+    status: "online",
+  },
+  {
+    id: "team-lincoln-donin",
+    name: "Lincoln Donin",
+    role: "Product Designer",
+    avatar: "/images/user/user-34.jpg",
+    status: "online",
+  },
+  {
+    id: "team-erin-geidthem",
+    name: "Erin Geidthem",
+    role: "Copywriter",
+    avatar: "/images/user/user-35.jpg",
+    status: "online",
+  },
+  {
+    id: "team-alena-baptista",
+    name: "Alena Baptista",
+    role: "SEO Expert",
+    avatar: "/images/user/user-36.jpg",
+    status: "offline",
+  },
+  {
+    id: "team-wilium-vamos",
+    name: "Wilium Vamos",
+    role: "Content Writer",
+    avatar: "/images/user/user-37.jpg",
+    status: "online",
+  },
+];
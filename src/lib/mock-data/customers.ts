@@ -0,0 +1,94 @@
+import { createRandom } from "../random";
+import { invoiceSeed } from "./invoices";
+import { createAddress } from "./order-lines";
+import { supportTicketSeed } from "./support-tickets";
+import { transactionSeed } from "./transactions";
+
+export interface Customer {
+  id: number;
+  name: string;
+  email: string; // New support mail from this address is linked to them
+  phone: string;
+  country: string;
+  address: [string, string]; // Street line and city line
+}
+
+const random = createRandom(582231);
+
+const randomPhone = () =>
+  `+1 ${random.int(200, 989)} ${random.int(200, 989)} ${random.int(
+    1000,
+    9999
+  )}`;
+
+/**
+ * One customer per person found in the seeded orders, tickets and invoices.
+ * Orders and tickets carry an email; invoices only name the customer, so
+ * an invoice-only customer gets an address made up from the name.
+ */
+function seedCustomers(): Customer[] {
+  const customers: Customer[] = [];
+  const add = (customer: Omit<Customer, "id">) => {
+    const email = customer.email.toLowerCase();
+    const name = customer.name.toLowerCase();
+    if (
+      customers.some(
+        (row) =>
+          row.email.toLowerCase() === email || row.name.toLowerCase() === name
+      )
+    ) {
+      return;
+    }
+    customers.push({ id: customers.length + 1, ...customer });
+  };
+
+  for (const order of transactionSeed) {
+    add({
+      name: order.customer,
+      email: order.email,
+      phone: order.phone,
+      country: order.country,
+      address: order.address,
+    });
+  }
+  for (const ticket of supportTicketSeed) {
+    add({
+      name: ticket.name,
+      email: ticket.email,
+      phone: randomPhone(),
+      country: "United States",
+      address: createAddress(random),
+    });
+  }
+  for (const invoice of invoiceSeed) {
+    add({
+      name: invoice.customer,
+      email: `${invoice.customer
+        .toLowerCase()
+        .replace(/\s+/g, ".")}@example.com`,
+      phone: randomPhone(),
+      country: "United States",
+      address: invoice.customerAddress,
+    });
+  }
+  return customers;
+}
+
+export const customerSeed: Customer[] = seedCustomers();
+
+/**
+ * Id of the seeded customer a seeded order, ticket or invoice belongs to,
+ * found the way the customers were seeded: by email, then by name. Records
+ * created later are linked when they are created.
+ */
+export function seedCustomerId(
+  email: string | null,
+  name: string
+): number | undefined {
+  const byEmail = email?.toLowerCase();
+  const byName = name.toLowerCase();
+  return (
+    customerSeed.find((row) => row.email.toLowerCase() === byEmail) ??
+    customerSeed.find((row) => row.name.toLowerCase() === byName)
+  )?.id;
+}
@@ -0,0 +1,131 @@
+import type { ColumnValueDef } from "@/components/tables/DataTables/DataTable/types";
+import { createRandom } from "../random";
+
+export interface Employee {
+  id: number;
+  user: {
+    image: string;
+    name: string;
+  };
+  position: string;
+  location: string;
+  age: number;
+  date: string;
+  salary: string;
+}
+
+const FIRST_NAMES = [
+  "Abram",
+  "Charlotte",
+  "Ethan",
+  "Sophia",
+  "James",
+  "Olivia",
+  "William",
+  "Isabella",
+  "Liam",
+  "Mia",
+  "Kaiya",
+  "Zain",
+  "Carla",
+  "Emery",
+  "Livia",
+  "Lincoln",
+];
+
+const LAST_NAMES = [
+  "Schleifer",
+  "Anderson",
+  "Brown",
+  "Martinez",
+  "Wilson",
+  "Johnson",
+  "Smith",
+  "Davis",
+  "Moore",
+  "Garcia",
+  "George",
+  "Geidt",
+  "Culhane",
+  "Donin",
+  "Herwitz",
+  "Bator",
+];
+
+const POSITIONS = [
+  "Sales Assistant",
+  "Marketing Manager",
+  "Software Engineer",
+  "Product Manager",
+  "Data Analyst",
+  "HR Specialist",
+  "Financial Analyst",
+  "UI/UX Designer",
+  "DevOps Engineer",
+  "Content Strategist",
+];
+
+const LOCATIONS = [
+  "Edinburgh",
+  "London",
+  "San Francisco",
+  "New York",
+  "Chicago",
+  "Los Angeles",
+  "Seattle",
+  "Austin",
+  "Boston",
+  "Denver",
+];
+
+const MONTHS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+const EMPLOYEE_COUNT = 500;
+
+function buildEmployees(): Employee[] {
+  const random = createRandom(20240101);
+  return Array.from({ length: EMPLOYEE_COUNT }, (_, index) => {
+    const day = String(random.int(1, 28)).padStart(2, "0");
+    const salary = random.int(60, 130) * 1000 + random.pick([0, 500]);
+    return {
+      id: index + 1,
+      user: {
+        image: `/images/user/user-${20 + (index % 10)}.jpg`,
+        name: `${random.pick(FIRST_NAMES)} ${random.pick(LAST_NAMES)}`,
+      },
+      position: random.pick(POSITIONS),
+      location: random.pick(LOCATIONS),
+      age: random.int(22, 64),
+      date: `${day} ${random.pick(MONTHS)}, ${random.int(2020, 2027)}`,
+      salary: `$${salary.toLocaleString("en-US")}`,
+    };
+  });
+}
+
+export const employees: Employee[] = buildEmployees();
+
+export const employeeColumns: ColumnValueDef<Employee>[] = [
+  {
+    id: "name",
+    accessor: (row) => row.user.name,
+    searchable: true,
+  },
+  { id: "position", accessor: "position", searchable: true },
+  { id: "location", accessor: "location", searchable: true },
+  { id: "age", accessor: "age", type: "number" },
+  { id: "date", accessor: "date", type: "date", searchable: true },
+  { id: "salary", accessor: "salary", type: "currency", searchable: true },
+];
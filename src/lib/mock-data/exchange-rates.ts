@@ -0,0 +1,71 @@
+import type { ExchangeRateSnapshot } from "../money";
+
+// Six-monthly snapshots (January and July) covering the seeded invoice and
+// order dates
+export const exchangeRateSeed: ExchangeRateSnapshot[] = [
+  {
+    id: "2026-07-01",
+    date: "2026-07-01",
+    base: "USD",
+    rates: {
+      EUR: 0.921,
+      GBP: 0.786,
+      CAD: 1.362,
+      AUD: 1.508,
+      JPY: 151.2,
+      INR: 83.4,
+    },
+  },
+  {
+    id: "2027-01-01",
+    date: "2027-01-01",
+    base: "USD",
+    rates: {
+      EUR: 0.915,
+      GBP: 0.781,
+      CAD: 1.355,
+      AUD: 1.497,
+      JPY: 148.7,
+      INR: 83.9,
+    },
+  },
+  {
+    id: "2027-07-01",
+    date: "2027-07-01",
+    base: "USD",
+    rates: {
+      EUR: 0.904,
+      GBP: 0.772,
+      CAD: 1.348,
+      AUD: 1.482,
+      JPY: 146.3,
+      INR: 84.6,
+    },
+  },
+  {
+    id: "2028-01-01",
+    date: "2028-01-01",
+    base: "USD",
+    rates: {
+      EUR: 0.897,
+      GBP: 0.768,
+      CAD: 1.341,
+      AUD: 1.476,
+      JPY: 144.9,
+      INR: 85.1,
+    },
+  },
+  {
+    id: "2028-07-01",
+    date: "2028-07-01",
+    base: "USD",
+    rates: {
+      EUR: 0.909,
+      GBP: 0.775,
+      CAD: 1.352,
+      AUD: 1.489,
+      JPY: 147.5,
+      INR: 85.7,
+    },
+  },
+];
@@ -0,0 +1,456 @@
+import { calculateInvoiceTotals } from "../invoice-totals";
+import type { CurrencyCode } from "../money";
+import { createRandom } from "../random";
+import type { OrderLine } from "../order-totals";
+import type { InvoiceDiscount, TaxRate } from "../tax/engine";
+import { taxRates } from "../tax/rates";
+import { createAddress, createOrderLines } from "./order-lines";
+
+/**
+ * Stored lifecycle state. "Overdue" is not stored: it is worked out from the
+ * due date whenever an open invoice is shown (see invoice-lifecycle.ts).
+ */
+export type InvoiceStatus =
+  | "Draft"
+  | "Sent"
+  | "Partially Paid"
+  | "Paid"
+  | "Void";
+
+export const PAYMENT_METHODS = [
+  "Bank transfer",
+  "Card",
+  "Cash",
+  "Cheque",
+] as const;
+export type PaymentMethod = (typeof PAYMENT_METHODS)[number];
+
+// One entry in an invoice's payment ledger
+export interface InvoicePayment {
+  id: string;
+  amount: number; // Minor units of the invoice currency
+  method: PaymentMethod;
+  reference: string;
+  paidAt: string; // ISO timestamp
+  recordedBy: string;
+}
+
+export interface InvoiceStatusChange {
+  status: InvoiceStatus;
+  at: string; // ISO timestamp
+  actor: string; // Who made the change; "System" for automatic ones
+  note?: string;
+}
+
+// A product line with the ids of the rates charged on it
+export interface InvoiceLine extends OrderLine {
+  taxRateIds: string[];
+}
+
+export interface InvoiceShipping {
+  amount: number; // Minor units of the invoice currency
+  taxRateIds: string[];
+}
+
+export interface InvoiceParty {
+  name: string;
+  address: [string, string]; // Street line and city line
+}
+
+export interface Invoice {
+  id: number;
+  number: string;
+  customer: string;
+  customerAddress: [string, string]; // Street line and city line
+  customerId?: number; // The customer's profile, when they have one
+  creationDate: string;
+  dueDate: string;
+  status: InvoiceStatus;
+  currency: CurrencyCode; // Every amount on the record is in this currency
+  items: InvoiceLine[];
+  taxRates: TaxRate[]; // The rates the lines use, as they were when created
+  pricesIncludeTax: boolean;
+  discount: InvoiceDiscount | null; // Amounts in minor units
+  shipping: InvoiceShipping | null;
+  payments: InvoicePayment[];
+  history: InvoiceStatusChange[]; // Oldest first; the last entry is current
+}
+
+// Issuer printed on every invoice
+export const invoiceSender: InvoiceParty = {
+  name: "Pimjo LLC",
+  address: ["1280, Clair Street", "Massachusetts, New York - 02543"],
+};
+
+// Printed below the totals on the invoice and its PDF
+export const invoicePaymentTerms = [
+  "Payment is due by the due date above, by bank transfer or card.",
+  "Please quote the invoice number as the payment reference.",
+  "Late payments may incur interest of 1.5% per month.",
+];
+
+const INVOICE_ROWS: Omit<
+  Invoice,
+  | "customerAddress"
+  | "items"
+  | "taxRates"
+  | "pricesIncludeTax"
+  | "discount"
+  | "shipping"
+  | "payments"
+  | "history"
+>[] = [
+  {
+    id: 1,
+    number: "#323534",
+    customer: "Lindsey Curtis",
+    creationDate: "August 7, 2028",
+    dueDate: "February 28, 2028",
+    status: "Paid",
+    currency: "USD",
+  },
+  {
+    id: 2,
+    number: "#323535",
+    customer: "John Doe",
+    creationDate: "July 1, 2028",
+    dueDate: "January 1, 2029",
+    status: "Sent",
+    currency: "USD",
+  },
+  {
+    id: 3,
+    number: "#323536",
+    customer: "Jane Smith",
+    creationDate: "June 15, 2028",
+    dueDate: "December 15, 2028",
+    status: "Draft",
+    currency: "EUR",
+  },
+  {
+    id: 4,
+    number: "#323537",
+    customer: "Michael Brown",
+    creationDate: "May 10, 2028",
+    dueDate: "November 10, 2028",
+    status: "Paid",
+    currency: "USD",
+  },
+  {
+    id: 5,
+    number: "#323538",
+    customer: "Emily Davis",
+    creationDate: "April 5, 2028",
+    dueDate: "October 5, 2028",
+    status: "Sent",
+    currency: "GBP",
+  },
+  {
+    id: 6,
+    number: "#323539",
+    customer: "Chris Wilson",
+    creationDate: "March 1, 2028",
+    dueDate: "September 1, 2028",
+    status: "Paid",
+    currency: "USD",
+  },
+  {
+    id: 7,
+    number: "#323540",
+    customer: "Jessica Lee",
+    creationDate: "February 20, 2028",
+    dueDate: "August 20, 2028",
+    status: "Draft",
+    currency: "USD",
+  },
+  {
+    id: 8,
+    number: "#323541",
+    customer: "David Kim",
+    creationDate: "January 15, 2028",
+    dueDate: "July 15, 2028",
+    status: "Paid",
+    currency: "EUR",
+  },
+  {
+    id: 9,
+    number: "#323542",
+    customer: "Sarah Clark",
+    creationDate: "December 10, 2027",
+    dueDate: "June 10, 2028",
+    status: "Sent",
+    currency: "USD",
+  },
+  {
+    id: 10,
+    number: "#323543",
+    customer: "Matthew Lewis",
+    creationDate: "November 5, 2027",
+    dueDate: "May 5, 2028",
+    status: "Paid",
+    currency: "USD",
+  },
+  {
+    id: 11,
+    number: "#323544",
+    customer: "Olivia Walker",
+    creationDate: "October 1, 2027",
+    dueDate: "April 1, 2028",
+    status: "Draft",
+    currency: "USD",
+  },
+  {
+    id: 12,
+    number: "#323545",
+    customer: "Daniel Hall",
+    creationDate: "September 20, 2027",
+    dueDate: "March 20, 2028",
+    status: "Paid",
+    currency: "GBP",
+  },
+  {
+    id: 13,
+    number: "#323546",
+    customer: "Sophia Allen",
+    creationDate: "August 15, 2027",
+    dueDate: "February 15, 2028",
+    status: "Sent",
+    currency: "USD",
+  },
+  {
+    id: 14,
+    number: "#323547",
+    customer: "James Young",
+    creationDate: "July 10, 2027",
+    dueDate: "January 10, 2028",
+    status: "Paid",
+    currency: "EUR",
+  },
+  {
+    id: 15,
+    number: "#323548",
+    customer: "Ava Hernandez",
+    creationDate: "June 5, 2027",
+    dueDate: "December 5, 2027",
+    status: "Void",
+    currency: "USD",
+  },
+  {
+    id: 16,
+    number: "#323549",
+    customer: "William King",
+    creationDate: "May 1, 2027",
+    dueDate: "November 1, 2027",
+    status: "Paid",
+    currency: "USD",
+  },
+  {
+    id: 17,
+    number: "#323550",
+    customer: "Mia Wright",
+    creationDate: "April 20, 2027",
+    dueDate: "October 20, 2027",
+    status: "Sent",
+    currency: "CAD",
+  },
+  {
+    id: 18,
+    number: "#323551",
+    customer: "Benjamin Lopez",
+    creationDate: "March 15, 2027",
+    dueDate: "September 15, 2027",
+    status: "Paid",
+    currency: "USD",
+  },
+  {
+    id: 19,
+    number: "#323552",
+    customer: "Charlotte Hill",
+    creationDate: "February 10, 2027",
+    dueDate: "August 10, 2027",
+    status: "Draft",
+    currency: "EUR",
+  },
+  {
+    id: 20,
+    number: "#323553",
+    customer: "Elijah Scott",
+    creationDate: "January 5, 2027",
+    dueDate: "July 5, 2027",
+    status: "Paid",
+    currency: "USD",
+  },
+  {
+    id: 21,
+    number: "#323554",
+    customer: "Amelia Green",
+    creationDate: "December 1, 2026",
+    dueDate: "June 1, 2027",
+    status: "Sent",
+    currency: "USD",
+  },
+  {
+    id: 22,
+    number: "#323555",
+    customer: "Lucas Adams",
+    creationDate: "November 20, 2026",
+    dueDate: "May 20, 2027",
+    status: "Paid",
+    currency: "GBP",
+  },
+  {
+    id: 23,
+    number: "#323556",
+    customer: "Harper Nelson",
+    creationDate: "October 15, 2026",
+    dueDate: "April 15, 2027",
+    status: "Draft",
+    currency: "USD",
+  },
+  {
+    id: 24,
+    number: "#323557",
+    customer: "Henry Carter",
+    creationDate: "September 10, 2026",
+    dueDate: "March 10, 2027",
+    status: "Paid",
+    currency: "USD",
+  },
+  {
+    id: 25,
+    number: "#323558",
+    customer: "Evelyn Mitchell",
+    creationDate: "August 5, 2026",
+    dueDate: "February 5, 2027",
+    status: "Sent",
+    currency: "USD",
+  },
+];
+
+const random = createRandom(348);
+// Separate stream so the payments never change the generated line items
+const ledgerRandom = createRandom(3481);
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// ISO timestamp `days` after 09:00 on a "August 7, 2028" style date
+function daysAfter(date: string, days: number): string {
+  return new Date(
+    Date.parse(date) + 9 * 60 * 60 * 1000 + days * DAY
+  ).toISOString();
+}
+
+const SEED_ACTOR = "Musharof Chowdhury";
+// Every seeded line carries the default 10% VAT
+const SEED_TAX_RATES = taxRates.filter((rate) => rate.id === "vat-10");
+
+/**
+ * History and payments matching each row's status: paid invoices are
+ * settled in one or two payments, every other sent one is partly paid.
+ */
+function seedLedger(
+  row: (typeof INVOICE_ROWS)[number],
+  total: number
+): Pick<Invoice, "status" | "payments" | "history"> {
+  const draft: InvoiceStatusChange = {
+    status: "Draft",
+    at: daysAfter(row.creationDate, 0),
+    actor: SEED_ACTOR,
+  };
+  if (row.status === "Draft") {
+    return { status: "Draft", payments: [], history: [draft] };
+  }
+  if (row.status === "Void") {
+    const voided: InvoiceStatusChange = {
+      status: "Void",
+      at: daysAfter(row.creationDate, 2),
+      actor: SEED_ACTOR,
+      note: "Duplicate of an earlier invoice",
+    };
+    return { status: "Void", payments: [], history: [draft, voided] };
+  }
+
+  const sent: InvoiceStatusChange = {
+    status: "Sent",
+    at: daysAfter(row.creationDate, 1),
+    actor: SEED_ACTOR,
+  };
+  const payment = (amount: number, day: number, index: number) => ({
+    id: `pay-${row.id}-${index + 1}`,
+    amount,
+    method: ledgerRandom.pick(PAYMENT_METHODS),
+    reference: `${row.number.slice(1)}-${index + 1}`,
+    paidAt: daysAfter(row.creationDate, day),
+    recordedBy: SEED_ACTOR,
+  });
+  const partial = Math.round((total * ledgerRandom.int(25, 60)) / 100);
+
+  if (row.status === "Paid") {
+    const paidDay = ledgerRandom.int(4, 40);
+    const payments =
+      ledgerRandom.next() < 0.3
+        ? [
+            payment(partial, paidDay - 3, 0),
+            payment(total - partial, paidDay, 1),
+          ]
+        : [payment(total, paidDay, 0)];
+    return {
+      status: "Paid",
+      payments,
+      history: [
+        draft,
+        sent,
+        ...(payments.length > 1
+          ? [
+              {
+                status: "Partially Paid" as const,
+                at: payments[0].paidAt,
+                actor: SEED_ACTOR,
+              },
+            ]
+          : []),
+        {
+          status: "Paid",
+          at: payments[payments.length - 1].paidAt,
+          actor: SEED_ACTOR,
+        },
+      ],
+    };
+  }
+
+  if (row.id % 2 === 0) {
+    const payments = [payment(partial, ledgerRandom.int(4, 20), 0)];
+    return {
+      status: "Partially Paid",
+      payments,
+      history: [
+        draft,
+        sent,
+        { status: "Partially Paid", at: payments[0].paidAt, actor: SEED_ACTOR },
+      ],
+    };
+  }
+  return { status: "Sent", payments: [], history: [draft, sent] };
+}
+
+export const invoiceSeed: Invoice[] = INVOICE_ROWS.map((row) => {
+  const customerAddress = createAddress(random);
+  const items = createOrderLines(random, row.currency).map((line) => ({
+    ...line,
+    taxRateIds: SEED_TAX_RATES.map((rate) => rate.id),
+  }));
+  const totals = {
+    currency: row.currency,
+    items,
+    taxRates: SEED_TAX_RATES,
+    pricesIncludeTax: false,
+    discount: null,
+    shipping: null,
+  };
+  return {
+    ...row,
+    customerAddress,
+    ...totals,
+    ...seedLedger(row, calculateInvoiceTotals(totals).total),
+  };
+});
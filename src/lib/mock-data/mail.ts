@@ -0,0 +1,197 @@
+import type { MailAddress, MailFolder, MailLabel } from "../mail/types";
+
+export interface MailSeedMessage {
+  key: string; // Local part of the Message-ID, referenced by `replyTo`
+  folder: MailFolder;
+  from: MailAddress | "me"; // "me" is the team mailbox
+  to: (MailAddress | "me")[];
+  subject: string;
+  text: string;
+  minutesAgo: number;
+  replyTo?: string; // Key of the message this one answers
+  read?: boolean;
+  starred?: boolean;
+  important?: boolean;
+  labels?: MailLabel[];
+}
+
+const paypal = { name: "PayPal", email: "service@paypal.example" };
+const wise = { name: "Wise", email: "noreply@wise.example" };
+const kaiya = { name: "Kaiya George", email: "kaiya.george@example.com" };
+const lindsey = { name: "Lindsey Curtis", email: "lindsey.curtis@example.com" };
+const zain = { name: "Zain Geidt", email: "zain.geidt@example.com" };
+const codescandy = { name: "Codescandy", email: "hello@codescandy.example" };
+
+// Mailbox contents created the first time the mail store is opened
+export const mailSeedMessages: MailSeedMessage[] = [
+  {
+    key: "website-design",
+    folder: "inbox",
+    from: codescandy,
+    to: ["me"],
+    subject: "Contact For “Website Design”",
+    text: "Hello,\n\nWe are redesigning our marketing site and would like a quote for the landing page, pricing page and blog templates. Our brand guidelines and the current sitemap are ready to share.\n\nCould you send availability for a kick-off call next week?\n\nBest regards,\nCodescandy",
+    minutesAgo: 35,
+    important: true,
+    labels: ["work"],
+  },
+  {
+    key: "website-design-reply",
+    folder: "sent",
+    from: "me",
+    to: [codescandy],
+    subject: "Re: Contact For “Website Design”",
+    text: "Hi,\n\nThanks for reaching out. Tuesday or Thursday afternoon works for us. Please send the guidelines ahead of the call so we can prepare questions.\n\nKind regards",
+    minutesAgo: 20,
+    replyTo: "website-design",
+    read: true,
+    labels: ["work"],
+  },
+  {
+    key: "website-design-followup",
+    folder: "inbox",
+    from: codescandy,
+    to: ["me"],
+    subject: "Re: Contact For “Website Design”",
+    text: "Thursday at 2 pm is perfect. The brand guidelines are attached to the shared drive folder we sent earlier.\n\nSee you then!",
+    minutesAgo: 8,
+    replyTo: "website-design-reply",
+    labels: ["work"],
+  },
+  {
+    key: "paypal-payment",
+    folder: "inbox",
+    from: paypal,
+    to: ["me"],
+    subject: "You received a payment of $1,250.00",
+    text: "Musharof Chowdhury sent you $1,250.00 USD for invoice #INV-0023.\n\nThe funds are available in your PayPal balance.",
+    minutesAgo: 95,
+    starred: true,
+    labels: ["payments"],
+  },
+  {
+    key: "wise-transfer",
+    folder: "inbox",
+    from: wise,
+    to: ["me"],
+    subject: "Your transfer to Lindsey Curtis is complete",
+    text: "The EUR 820.00 you sent to Lindsey Curtis has arrived. Reference: Design retainer, April.",
+    minutesAgo: 60 * 5,
+    read: true,
+    labels: ["payments"],
+  },
+  {
+    key: "invoice-april",
+    folder: "inbox",
+    from: lindsey,
+    to: ["me"],
+    subject: "Invoice for April design work",
+    text: "Hi team,\n\nPlease find my invoice for April below. 32 hours at the agreed rate, covering the dashboard refresh and the new onboarding screens.\n\nPayment within 14 days would be appreciated.\n\nThanks,\nLindsey",
+    minutesAgo: 60 * 26,
+    important: true,
+    labels: ["invoices"],
+  },
+  {
+    key: "sprint-review",
+    folder: "inbox",
+    from: kaiya,
+    to: ["me", zain],
+    subject: "Sprint review agenda",
+    text: "Hi all,\n\nFor Friday's sprint review:\n1. Demo of the new analytics widgets\n2. Kanban board migration status\n3. Open questions on the billing page\n\nLet me know if anything is missing.\n\nKaiya",
+    minutesAgo: 60 * 30,
+    read: true,
+    labels: ["work"],
+  },
+  {
+    key: "sprint-review-reply",
+    folder: "inbox",
+    from: zain,
+    to: [kaiya, "me"],
+    subject: "Re: Sprint review agenda",
+    text: "Could we add five minutes for the release notes copy? I have a draft ready for review.",
+    minutesAgo: 60 * 28,
+    replyTo: "sprint-review",
+    read: true,
+    labels: ["work"],
+  },
+  {
+    key: "search-console",
+    folder: "inbox",
+    from: { name: "Search Console", email: "sc-noreply@search.example" },
+    to: ["me"],
+    subject: "New coverage issue detected for tailadmin.com",
+    text: "Search Console found 3 pages with a new “Submitted URL not found (404)” issue. Review the affected pages and request validation once they are fixed.",
+    minutesAgo: 60 * 24 * 3,
+    read: true,
+  },
+  {
+    key: "airbnb",
+    folder: "inbox",
+    from: { name: "Airbnb", email: "automated@airbnb.example" },
+    to: ["me"],
+    subject: "Your trip to Lisbon is coming up",
+    text: "Check-in is in 5 days. Your host shared arrival instructions and the wifi password in the itinerary.",
+    minutesAgo: 60 * 24 * 5,
+    read: true,
+    labels: ["personal"],
+  },
+  {
+    key: "loom",
+    folder: "inbox",
+    from: { name: "Loom", email: "no-reply@loom.example" },
+    to: ["me"],
+    subject: "Carla commented on “Onboarding walkthrough”",
+    text: "“Great walkthrough! Could we slow down around the 2 minute mark where the permissions screen appears?”",
+    minutesAgo: 60 * 24 * 7,
+    read: true,
+  },
+  {
+    key: "draft-proposal",
+    folder: "draft",
+    from: "me",
+    to: [codescandy],
+    subject: "Proposal: website redesign",
+    text: "Hi,\n\nFollowing our call, here is the outline of the proposal:\n\n- Discovery and wireframes\n- Visual design for 6 templates\n- Handover to development\n",
+    minutesAgo: 60 * 2,
+    read: true,
+    labels: ["work"],
+  },
+  {
+    key: "prize",
+    folder: "spam",
+    from: { name: "Prize Center", email: "winner@prizes.example" },
+    to: ["me"],
+    subject: "Congratulations! You have been selected",
+    text: "Claim your reward today by confirming your bank details.",
+    minutesAgo: 60 * 12,
+  },
+  {
+    key: "crypto",
+    folder: "spam",
+    from: { name: "Crypto Signals", email: "alerts@signals.example" },
+    to: ["me"],
+    subject: "This coin will 100x by Friday",
+    text: "Join thousands of investors who already doubled their savings.",
+    minutesAgo: 60 * 40,
+  },
+  {
+    key: "old-newsletter",
+    folder: "archive",
+    from: { name: "GrayGrids", email: "news@graygrids.example" },
+    to: ["me"],
+    subject: "What's new in GrayGrids this month",
+    text: "New templates, a refreshed icon set and faster exports are now live.",
+    minutesAgo: 60 * 24 * 40,
+    read: true,
+  },
+  {
+    key: "meet-invite",
+    folder: "trash",
+    from: { name: "Google Meet", email: "calendar@meet.example" },
+    to: ["me"],
+    subject: "Invitation: Weekly sync (cancelled)",
+    text: "This event has been cancelled by the organizer.",
+    minutesAgo: 60 * 24 * 10,
+    read: true,
+  },
+];
@@ -0,0 +1,60 @@
+import { toMinorUnits, type CurrencyCode } from "../money";
+import type { OrderLine } from "../order-totals";
+import type { createRandom } from "../random";
+
+const CATALOG = [
+  { product: "Macbook pro 13”", unitCost: 1200 },
+  { product: "Apple Watch Ultra", unitCost: 300 },
+  { product: "iPhone 15 Pro Max", unitCost: 800 },
+  { product: "iPad Pro 3rd Gen", unitCost: 900 },
+  { product: "AirPods Pro 2nd Gen", unitCost: 240 },
+  { product: "Magic Keyboard", unitCost: 99 },
+  { product: "Studio Display", unitCost: 1599 },
+  { product: "USB-C Charger 35W", unitCost: 59 },
+] as const;
+
+const DISCOUNTS = [0, 0, 0, 10, 25, 50];
+
+// Two to four distinct catalog products with small quantities, priced in
+// `currency`
+export function createOrderLines(
+  random: ReturnType<typeof createRandom>,
+  currency: CurrencyCode
+): OrderLine[] {
+  const products = [...CATALOG];
+  const lines = Array.from(
+    { length: random.int(2, 4) },
+    () => products.splice(random.int(0, products.length - 1), 1)[0]
+  );
+  return lines.map(({ product, unitCost }) => ({
+    product,
+    unitCost: toMinorUnits(unitCost, currency),
+    quantity: random.int(1, 3),
+    discount: random.pick(DISCOUNTS),
+  }));
+}
+
+const STREETS = [
+  "355, Shobe Lane",
+  "62 Miles Drive St",
+  "1280, Clair Street",
+  "18 Harbor View Rd",
+  "904 Maple Avenue",
+  "7 Kingsway Court",
+];
+
+const CITIES = [
+  "Colorado, Fort Collins - 80543",
+  "Newark, NJ 07103",
+  "Massachusetts, New York - 02543",
+  "Mountain View, CA 94040",
+  "Austin, TX 78701",
+  "Portland, OR 97205",
+];
+
+// Street line and city line
+export function createAddress(
+  random: ReturnType<typeof createRandom>
+): [string, string] {
+  return [random.pick(STREETS), random.pick(CITIES)];
+}
@@ -0,0 +1,72 @@
+import type { CardBrand } from "../payments/gateway";
+import { ACCOUNT_SUBSCRIPTION_ID } from "./subscriptions";
+
+interface SavedMethodBase {
+  id: string;
+  subscriptionId: string; // Whose invoices the method pays
+  token: string; // The gateway's reference; card numbers are never stored
+  isDefault: boolean; // Exactly one per subscription while any are saved
+  createdAt: string; // ISO timestamp
+}
+
+export interface SavedCard extends SavedMethodBase {
+  type: "card";
+  brand: CardBrand;
+  last4: string;
+  expMonth: number;
+  expYear: number;
+  holder: string;
+}
+
+export interface SavedPayPal extends SavedMethodBase {
+  type: "paypal";
+  email: string;
+}
+
+export type SavedPaymentMethod = SavedCard | SavedPayPal;
+
+// "Visa •••• 4328" or "PayPal (name@example.com)", as shown on receipts
+export function paymentMethodLabel(method: SavedPaymentMethod): string {
+  return method.type === "card"
+    ? `${method.brand} •••• ${method.last4}`
+    : `PayPal (${method.email})`;
+}
+
+// The tokens are known to the fake gateway, which is seeded with them too
+export const paymentMethodSeed: SavedPaymentMethod[] = [
+  {
+    id: "pm_mastercard",
+    subscriptionId: ACCOUNT_SUBSCRIPTION_ID,
+    token: "tok_seed_mastercard",
+    isDefault: true,
+    createdAt: "2026-06-22T09:00:00.000Z",
+    type: "card",
+    brand: "Mastercard",
+    last4: "9029",
+    expMonth: 1,
+    expYear: 2029,
+    holder: "Musharof Chowdhury",
+  },
+  {
+    id: "pm_visa",
+    subscriptionId: ACCOUNT_SUBSCRIPTION_ID,
+    token: "tok_seed_visa",
+    isDefault: false,
+    createdAt: "2026-06-22T09:05:00.000Z",
+    type: "card",
+    brand: "Visa",
+    last4: "4328",
+    expMonth: 1,
+    expYear: 2030,
+    holder: "Musharof Chowdhury",
+  },
+  {
+    id: "pm_paypal",
+    subscriptionId: ACCOUNT_SUBSCRIPTION_ID,
+    token: "tok_seed_paypal",
+    isDefault: false,
+    createdAt: "2026-06-22T09:10:00.000Z",
+    type: "paypal",
+    email: "name@example.com",
+  },
+];
@@ -0,0 +1,421 @@
+import type { ColumnValueDef } from "@/components/tables/DataTables/DataTable/types";
+import { formatMoney, type Money } from "../money";
+
+// A purchasable combination of a product's options, with its own stock
+export interface ProductVariant {
+  sku: string;
+  size: string; // Empty when the product does not come in sizes
+  color: string; // Empty when the product does not come in colors
+  stock: number;
+}
+
+export type ProductStatus = "Draft" | "Published";
+
+export interface Product {
+  id: number;
+  name: string;
+  sku: string;
+  description: string;
+  images: string[]; // The first one is shown in lists
+  category: string;
+  brand: string;
+  price: Money;
+  stock: number; // Units on hand; the sum of the variants when there are any
+  lowStockThreshold: number; // At or below this many units the product is low on stock
+  variants: ProductVariant[];
+  status: ProductStatus;
+  createdAt: string;
+}
+
+export type StockStatus = "In Stock" | "Low Stock" | "Out of Stock";
+
+export const STOCK_STATUSES: StockStatus[] = [
+  "In Stock",
+  "Low Stock",
+  "Out of Stock",
+];
+
+export function stockStatus(
+  product: Pick<Product, "stock" | "lowStockThreshold">
+): StockStatus {
+  if (product.stock <= 0) return "Out of Stock";
+  return product.stock <= product.lowStockThreshold ? "Low Stock" : "In Stock";
+}
+
+// "Black / 41mm", or the SKU when the variant has no options
+export function variantLabel(variant: ProductVariant): string {
+  return (
+    [variant.color, variant.size].filter(Boolean).join(" / ") || variant.sku
+  );
+}
+
+/**
+ * How the product list searches, filters and sorts, shared by the table and
+ * the `/api/products` route that runs the query.
+ */
+export const productColumns: ColumnValueDef<Product>[] = [
+  { id: "name", accessor: "name", searchable: true },
+  {
+    id: "sku",
+    accessor: (row) =>
+      [row.sku, ...row.variants.map((variant) => variant.sku)].join(" "),
+    searchable: true,
+  },
+  { id: "category", accessor: "category", searchable: true },
+  { id: "brand", accessor: "brand", searchable: true },
+  {
+    id: "price",
+    accessor: (row) => row.price.amount,
+    type: "number",
+    format: (_value, row) => formatMoney(row.price, { trimZeroCents: true }),
+    searchable: true,
+  },
+  { id: "stock", accessor: "stock", type: "number" },
+  { id: "availability", accessor: (row) => stockStatus(row) },
+  { id: "status", accessor: "status" },
+  { id: "createdAt", accessor: "createdAt", type: "date" },
+];
+
+export const productCategorySeed = [
+  "Laptop",
+  "Watch",
+  "Phone",
+  "Electronics",
+  "Accessories",
+  "Audio",
+  "Tablet",
+  "Camera",
+  "Gaming",
+  "Monitor",
+  "Storage",
+];
+
+export const productSeed: Product[] = [
+  {
+    id: 1,
+    name: "Macbook pro M4",
+    sku: "APP-0001",
+    description: "",
+    images: ["/images/product/product-01.jpg"],
+    category: "Laptop",
+    brand: "Apple",
+    price: { amount: 69900, currency: "USD" },
+    stock: 24,
+    lowStockThreshold: 5,
+    variants: [],
+    status: "Published",
+    createdAt: "12 Feb, 2027",
+  },
+  {
+    id: 2,
+    name: "Apple Watch Ultra",
+    sku: "APP-0002",
+    description: "",
+    images: ["/images/product/product-02.jpg"],
+    category: "Watch",
+    brand: "Apple",
+    price: { amount: 157900, currency: "USD" },
+    stock: 0,
+    lowStockThreshold: 5,
+    variants: [
+      {
+        sku: "APP-0002-41MM-NATURAL",
+        size: "41mm",
+        color: "Natural",
+        stock: 0,
+      },
+      { sku: "APP-0002-41MM-BLACK", size: "41mm", color: "Black", stock: 0 },
+      {
+        sku: "APP-0002-49MM-NATURAL",
+        size: "49mm",
+        color: "Natural",
+        stock: 0,
+      },
+      { sku: "APP-0002-49MM-BLACK", size: "49mm", color: "Black", stock: 0 },
+    ],
+    status: "Published",
+    createdAt: "13 Mar, 2027",
+  },
+  {
+    id: 3,
+    name: "iPhone 15 Pro Max",
+    sku: "APP-0003",
+    description: "",
+    images: ["/images/product/product-03.jpg"],
+    category: "Phone",
+    brand: "Apple",
+    price: { amount: 103900, currency: "USD" },
+    stock: 36,
+    lowStockThreshold: 5,
+    variants: [],
+    status: "Published",
+    createdAt: "19 Mar, 2027",
+  },
+  {
+    id: 4,
+    name: "iPad Pro 3rd Gen",
+    sku: "APP-0004",
+    description: "",
+    images: ["/images/product/product-04.jpg"],
+    category: "Electronics",
+    brand: "Apple",
+    price: { amount: 4399900, currency: "USD" },
+    stock: 3,
+    lowStockThreshold: 5,
+    variants: [],
+    status: "Published",
+    createdAt: "25 Apr, 2027",
+  },
+  {
+    id: 5,
+    name: "Samsung Galaxy S24 Ultra",
+    sku: "SAM-0005",
+    description: "",
+    images: ["/images/product/product-05.jpg"],
+    category: "Phone",
+    brand: "Samsung",
+    price: { amount: 69900, currency: "USD" },
+    stock: 18,
+    lowStockThreshold: 5,
+    variants: [],
+    status: "Published",
+    createdAt: "11 May, 2027",
+  },
+  {
+    id: 6,
+    name: "Airpods Pro 2nd Gen",
+    sku: "APP-0006",
+    description: "",
+    images: ["/images/product/product-01.jpg"],
+    category: "Accessories",
+    brand: "Apple",
+    price: { amount: 83900, currency: "USD" },
+    stock: 52,
+    lowStockThreshold: 5,
+    variants: [],
+    status: "Published",
+    createdAt: "29 Jun, 2027",
+  },
+  {
+    id: 7,
+    name: "LG OLED & 4K Smart TV",
+    sku: "LG-0007",
+    description: "",
+    images: ["/images/product/product-02.jpg"],
+    category: "Electronics",
+    brand: "LG",
+    price: { amount: 176900, currency: "USD" },
+    stock: 0,
+    lowStockThreshold: 5,
+    variants: [],
+    status: "Published",
+    createdAt: "22 Jul, 2027",
+  },
+  {
+    id: 8,
+    name: "Sony WH-1000XM5 Headphones",
+    sku: "SON-0008",
+    description: "",
+    images: ["/images/product/product-03.jpg"],
+    category: "Audio",
+    brand: "Sony",
+    price: { amount: 39900, currency: "USD" },
+    stock: 14,
+    lowStockThreshold: 5,
+    variants: [
+      { sku: "SON-0008-BLACK", size: "", color: "Black", stock: 5 },
+      { sku: "SON-0008-SILVER", size: "", color: "Silver", stock: 2 },
+      {
+        sku: "SON-0008-MIDNIGHT-BLUE",
+        size: "",
+        color: "Midnight Blue",
+        stock: 7,
+      },
+    ],
+    status: "Published",
+    createdAt: "05 Aug, 2027",
+  },
+  {
+    id: 9,
+    name: "Dell XPS 13 Laptop",
+    sku: "DEL-0009",
+    description: "",
+    images: ["/images/product/product-04.jpg"],
+    category: "Laptop",
+    brand: "Dell",
+    price: { amount: 129900, currency: "USD" },
+    stock: 9,
+    lowStockThreshold: 5,
+    variants: [],
+    status: "Published",
+    createdAt: "18 Aug, 2027",
+  },
+  {
+    id: 10,
+    name: "Google Pixel 8 Pro",
+    sku: "GOO-0010",
+    description: "",
+    images: ["/images/product/product-05.jpg"],
+    category: "Phone",
+    brand: "Google",
+    price: { amount: 89900, currency: "USD" },
+    stock: 0,
+    lowStockThreshold: 5,
+    variants: [],
+    status: "Published",
+    createdAt: "02 Sep, 2027",
+  },
+  {
+    id: 11,
+    name: "Microsoft Surface Pro 9",
+    sku: "MIC-0011",
+    description: "",
+    images: ["/images/product/product-01.jpg"],
+    category: "Tablet",
+    brand: "Microsoft",
+    price: { amount: 109900, currency: "USD" },
+    stock: 27,
+    lowStockThreshold: 5,
+    variants: [],
+    status: "Published",
+    createdAt: "15 Sep, 2027",
+  },
+  {
+    id: 12,
+    name: "Canon EOS R5 Camera",
+    sku: "CAN-0012",
+    description: "",
+    images: ["/images/product/product-02.jpg"],
+    category: "Camera",
+    brand: "Canon",
+    price: { amount: 389900, currency: "USD" },
+    stock: 6,
+    lowStockThreshold: 5,
+    variants: [],
+    status: "Published",
+    createdAt: "28 Sep, 2027",
+  },
+  {
+    id: 13,
+    name: "Nintendo Switch OLED",
+    sku: "NIN-0013",
+    description: "",
+    images: ["/images/product/product-03.jpg"],
+    category: "Gaming",
+    brand: "Nintendo",
+    price: { amount: 34900, currency: "USD" },
+    stock: 0,
+    lowStockThreshold: 5,
+    variants: [],
+    status: "Published",
+    createdAt: "10 Oct, 2027",
+  },
+  {
+    id: 14,
+    name: "Razer DeathAdder V3 Mouse",
+    sku: "RAZ-0014",
+    description: "",
+    images: ["/images/product/product-04.jpg?v=2"],
+    category: "Accessories",
+    brand: "Razer",
+    price: { amount: 8900, currency: "USD" },
+    stock: 8,
+    lowStockThreshold: 5,
+    variants: [
+      { sku: "RAZ-0014-BLACK", size: "", color: "Black", stock: 8 },
+      { sku: "RAZ-0014-WHITE", size: "", color: "White", stock: 0 },
+    ],
+    status: "Published",
+    createdAt: "23 Oct, 2027",
+  },
+  {
+    id: 15,
+    name: "HP Envy 34 Monitor",
+    sku: "HP-0015",
+    description: "",
+    images: ["/images/product/product-05.jpg"],
+    category: "Monitor",
+    brand: "HP",
+    price: { amount: 79900, currency: "USD" },
+    stock: 12,
+    lowStockThreshold: 5,
+    variants: [],
+    status: "Published",
+    createdAt: "05 Nov, 2027",
+  },
+  {
+    id: 16,
+    name: "Bose QuietComfort Earbuds",
+    sku: "BOS-0016",
+    description: "",
+    images: ["/images/product/product-01.jpg"],
+    category: "Audio",
+    brand: "Bose",
+    price: { amount: 27900, currency: "USD" },
+    stock: 2,
+    lowStockThreshold: 5,
+    variants: [],
+    status: "Published",
+    createdAt: "18 Nov, 2027",
+  },
+  {
+    id: 17,
+    name: "ASUS ROG Gaming Laptop",
+    sku: "ASU-0017",
+    description: "",
+    images: ["/images/product/product-03.jpg"],
+    category: "Laptop",
+    brand: "ASUS",
+    price: { amount: 219900, currency: "USD" },
+    stock: 0,
+    lowStockThreshold: 5,
+    variants: [],
+    status: "Published",
+    createdAt: "01 Dec, 2027",
+  },
+  {
+    id: 18,
+    name: "Logitech MX Master 3S",
+    sku: "LOG-0018",
+    description: "",
+    images: ["/images/product/product-04.jpg"],
+    category: "Accessories",
+    brand: "Logitech",
+    price: { amount: 11900, currency: "USD" },
+    stock: 33,
+    lowStockThreshold: 5,
+    variants: [],
+    status: "Published",
+    createdAt: "14 Dec, 2027",
+  },
+  {
+    id: 19,
+    name: "Steam Deck OLED",
+    sku: "VAL-0019",
+    description: "",
+    images: ["/images/product/product-02.jpg"],
+    category: "Gaming",
+    brand: "Valve",
+    price: { amount: 64900, currency: "USD" },
+    stock: 15,
+    lowStockThreshold: 5,
+    variants: [],
+    status: "Published",
+    createdAt: "27 Dec, 2027",
+  },
+  {
+    id: 20,
+    name: "Samsung 980 Pro SSD 2TB",
+    sku: "SAM-0020",
+    description: "",
+    images: ["/images/product/product-03.jpg"],
+    category: "Storage",
+    brand: "Samsung",
+    price: { amount: 29900, currency: "USD" },
+    stock: 60,
+    lowStockThreshold: 5,
+    variants: [],
+    status: "Published",
+    createdAt: "09 Jan, 2028",
+  },
+];
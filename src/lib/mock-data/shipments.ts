@@ -0,0 +1,354 @@
+import type { ColumnValueDef } from "@/components/tables/DataTables/DataTable/types";
+import type { Money } from "../money";
+import { createRandom } from "../random";
+
+// In the order a shipment goes through them; "Canceled" can follow any
+export const SHIPMENT_STATUSES = [
+  "Pending",
+  "Processing",
+  "Picked Up",
+  "In Transit",
+  "Out for Delivery",
+  "Delivered",
+  "Canceled",
+] as const;
+export type ShipmentStatus = (typeof SHIPMENT_STATUSES)[number];
+
+// The statuses each tab of the delivery activity table shows
+const SHIPMENT_TABS: Record<string, ShipmentStatus[]> = {
+  Delivered: ["Delivered"],
+  "In-Transit": ["Picked Up", "In Transit", "Out for Delivery"],
+  Pending: ["Pending"],
+  Processing: ["Processing"],
+};
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface ShipmentPlace extends GeoPoint {
+  city: string;
+  country: string; // ISO 3166-1 alpha-2
+}
+
+// A scan or status change reported by the carrier
+export interface ShipmentEvent {
+  id: string; // The carrier's event id; a repeated delivery is ignored
+  status: ShipmentStatus;
+  at: string; // ISO timestamp of the scan, not of its arrival here
+  location: string;
+  position?: GeoPoint; // Where the parcel was scanned, when the carrier says
+  note?: string;
+}
+
+export interface Shipment {
+  id: string; // Order number, shown with a leading "#"
+  trackingId: string; // The carrier's, shown with a leading "#"
+  carrier: string;
+  category: string;
+  company: string;
+  origin: ShipmentPlace;
+  destination: ShipmentPlace;
+  price: Money; // Charged in the currency of the route
+  eta: string; // ISO timestamp the carrier expects to deliver by
+  status: ShipmentStatus; // That of the latest event
+  deliveredAt: string | null; // ISO timestamp, once delivered
+  events: ShipmentEvent[]; // Oldest first
+}
+
+const PLACES = {
+  Berlin: { city: "Berlin", country: "DE", lat: 52.52, lng: 13.405 },
+  Milan: { city: "Milan", country: "IT", lat: 45.4642, lng: 9.19 },
+  Paris: { city: "Paris", country: "FR", lat: 48.8566, lng: 2.3522 },
+  Rome: { city: "Rome", country: "IT", lat: 41.9028, lng: 12.4964 },
+  NewYork: { city: "New York", country: "US", lat: 40.7128, lng: -74.006 },
+  Chicago: { city: "Chicago", country: "US", lat: 41.8781, lng: -87.6298 },
+  Tokyo: { city: "Tokyo", country: "JP", lat: 35.6762, lng: 139.6503 },
+  Osaka: { city: "Osaka", country: "JP", lat: 34.6937, lng: 135.5023 },
+  SanFrancisco: {
+    city: "San Francisco",
+    country: "US",
+    lat: 37.7749,
+    lng: -122.4194,
+  },
+  Seattle: { city: "Seattle", country: "US", lat: 47.6062, lng: -122.3321 },
+  Toronto: { city: "Toronto", country: "CA", lat: 43.6532, lng: -79.3832 },
+  Vancouver: { city: "Vancouver", country: "CA", lat: 49.2827, lng: -123.1207 },
+  Sydney: { city: "Sydney", country: "AU", lat: -33.8688, lng: 151.2093 },
+  Melbourne: { city: "Melbourne", country: "AU", lat: -37.8136, lng: 144.9631 },
+  Madrid: { city: "Madrid", country: "ES", lat: 40.4168, lng: -3.7038 },
+  Barcelona: { city: "Barcelona", country: "ES", lat: 41.3874, lng: 2.1686 },
+  Dubai: { city: "Dubai", country: "AE", lat: 25.2048, lng: 55.2708 },
+  Doha: { city: "Doha", country: "QA", lat: 25.2854, lng: 51.531 },
+  LosAngeles: {
+    city: "Los Angeles",
+    country: "US",
+    lat: 34.0522,
+    lng: -118.2437,
+  },
+  LasVegas: { city: "Las Vegas", country: "US", lat: 36.1699, lng: -115.1398 },
+} satisfies Record<string, ShipmentPlace>;
+
+export const placeLabel = (place: ShipmentPlace) =>
+  `${place.city}, ${place.country}`;
+
+// The point `fraction` of the way from `from` to `to`, as the crow flies
+export function pointBetween(
+  from: GeoPoint,
+  to: GeoPoint,
+  fraction: number
+): GeoPoint {
+  const round = (value: number) => Math.round(value * 10000) / 10000;
+  return {
+    lat: round(from.lat + (to.lat - from.lat) * fraction),
+    lng: round(from.lng + (to.lng - from.lng) * fraction),
+  };
+}
+
+/**
+ * Where the carrier reports a parcel in each status, and how far along the
+ * route it is by then.
+ */
+export function statusLocation(
+  status: ShipmentStatus,
+  origin: ShipmentPlace,
+  destination: ShipmentPlace,
+  progress = 0.5
+): Pick<ShipmentEvent, "location" | "position"> {
+  switch (status) {
+    case "In Transit":
+      return {
+        location: `En route to ${destination.city}`,
+        position: pointBetween(origin, destination, progress),
+      };
+    case "Out for Delivery":
+    case "Delivered":
+      return {
+        location: placeLabel(destination),
+        position: pointBetween(origin, destination, 1),
+      };
+    default:
+      return {
+        location: placeLabel(origin),
+        position: pointBetween(origin, destination, 0),
+      };
+  }
+}
+
+const SHIPMENT_ROWS: (Pick<
+  Shipment,
+  | "id"
+  | "trackingId"
+  | "carrier"
+  | "category"
+  | "company"
+  | "origin"
+  | "destination"
+  | "price"
+  | "status"
+> & { hoursAgo: number; transitHours: number })[] = [
+  {
+    id: "324112",
+    trackingId: "JD0146000038241",
+    carrier: "DHL",
+    category: "Furniture",
+    company: "HomeLine",
+    origin: PLACES.Berlin,
+    destination: PLACES.Milan,
+    price: { amount: 125000, currency: "EUR" },
+    status: "Delivered",
+    hoursAgo: 310,
+    transitHours: 40,
+  },
+  {
+    id: "325678",
+    trackingId: "05212345678901",
+    carrier: "DPD",
+    category: "Clothing",
+    company: "StylePro",
+    origin: PLACES.Paris,
+    destination: PLACES.Rome,
+    price: { amount: 34075, currency: "EUR" },
+    status: "Delivered",
+    hoursAgo: 190,
+    transitHours: 36,
+  },
+  {
+    id: "326789",
+    trackingId: "28745-72809bjk",
+    carrier: "UPS",
+    category: "Books",
+    company: "EduSource",
+    origin: PLACES.NewYork,
+    destination: PLACES.Chicago,
+    price: { amount: 12840, currency: "USD" },
+    status: "In Transit",
+    hoursAgo: 2,
+    transitHours: 20,
+  },
+  {
+    id: "327003",
+    trackingId: "4709-2213-8841",
+    carrier: "Yamato",
+    category: "Automotive",
+    company: "AutoParts Co.",
+    origin: PLACES.Tokyo,
+    destination: PLACES.Osaka,
+    price: { amount: 314630, currency: "JPY" },
+    status: "Delivered",
+    hoursAgo: 420,
+    transitHours: 18,
+  },
+  {
+    id: "328556",
+    trackingId: "1Z999AA10123456784",
+    carrier: "UPS",
+    category: "Electronics",
+    company: "TechNova",
+    origin: PLACES.SanFrancisco,
+    destination: PLACES.Seattle,
+    price: { amount: 84999, currency: "USD" },
+    status: "Out for Delivery",
+    hoursAgo: 1,
+    transitHours: 30,
+  },
+  {
+    id: "329101",
+    trackingId: "7023110094556218",
+    carrier: "Canada Post",
+    category: "Health",
+    company: "MediCorp",
+    origin: PLACES.Toronto,
+    destination: PLACES.Vancouver,
+    price: { amount: 57920, currency: "CAD" },
+    status: "Delivered",
+    hoursAgo: 96,
+    transitHours: 72,
+  },
+  {
+    id: "330212",
+    trackingId: "AP33021200481",
+    carrier: "Australia Post",
+    category: "Toys",
+    company: "FunTime",
+    origin: PLACES.Sydney,
+    destination: PLACES.Melbourne,
+    price: { amount: 21265, currency: "AUD" },
+    status: "Delivered",
+    hoursAgo: 60,
+    transitHours: 28,
+  },
+  {
+    id: "331145",
+    trackingId: "SEUR3311450027",
+    carrier: "SEUR",
+    category: "Kitchen",
+    company: "CookWell",
+    origin: PLACES.Madrid,
+    destination: PLACES.Barcelona,
+    price: { amount: 48990, currency: "EUR" },
+    status: "Picked Up",
+    hoursAgo: 3,
+    transitHours: 24,
+  },
+  {
+    id: "332800",
+    trackingId: "AX33280019",
+    carrier: "Aramex",
+    category: "Beauty",
+    company: "GlamShine",
+    origin: PLACES.Dubai,
+    destination: PLACES.Doha,
+    price: { amount: 32375, currency: "USD" },
+    status: "Canceled",
+    hoursAgo: 130,
+    transitHours: 26,
+  },
+  {
+    id: "333902",
+    trackingId: "794612203395",
+    carrier: "FedEx",
+    category: "Sports",
+    company: "FitZone",
+    origin: PLACES.LosAngeles,
+    destination: PLACES.LasVegas,
+    price: { amount: 48990, currency: "USD" },
+    status: "Processing",
+    hoursAgo: 5,
+    transitHours: 16,
+  },
+];
+
+const random = createRandom(552071);
+
+const HOUR = 60 * 60 * 1000;
+
+// Seeded relative to the first start, so the timeline has something current
+const SEEDED_AT = Date.now();
+
+const EVENT_NOTES: Partial<Record<ShipmentStatus, string>> = {
+  Pending: "Shipment information received",
+  Processing: "Label created, preparing for pickup",
+  "Out for Delivery": "On the vehicle for delivery",
+  Canceled: "Canceled by the shipper",
+};
+
+// The statuses a seeded shipment went through to reach `status`
+function seededPath(status: ShipmentStatus): ShipmentStatus[] {
+  if (status === "Canceled") return ["Pending", "Processing", "Canceled"];
+  return SHIPMENT_STATUSES.slice(0, SHIPMENT_STATUSES.indexOf(status) + 1);
+}
+
+export const shipmentSeed: Shipment[] = SHIPMENT_ROWS.map((row) => {
+  const { hoursAgo, transitHours, ...fields } = row;
+  const path = seededPath(row.status);
+  // Walks back from the latest event, a few hours between each
+  let at = SEEDED_AT - hoursAgo * HOUR;
+  const times = path
+    .map(() => {
+      const time = at;
+      at -= random.int(1, 6) * HOUR;
+      return time;
+    })
+    .reverse();
+  const pickedUpAt = times[path.indexOf("Picked Up")] ?? times[0];
+  const events: ShipmentEvent[] = path.map((status, index) => ({
+    id: `${row.trackingId}-${index + 1}`,
+    status,
+    at: new Date(times[index]).toISOString(),
+    ...statusLocation(status, row.origin, row.destination, 0.4),
+    ...(EVENT_NOTES[status] ? { note: EVENT_NOTES[status] } : {}),
+  }));
+  const delivered = row.status === "Delivered";
+  return {
+    ...fields,
+    eta: new Date(
+      delivered ? times[times.length - 1] : pickedUpAt + transitHours * HOUR
+    ).toISOString(),
+    deliveredAt: delivered ? events[events.length - 1].at : null,
+    events,
+  };
+});
+
+/**
+ * Columns the delivery activity table filters and sorts by. `arrival` is
+ * the delivery time, else the ETA; `tab` names the tab listing the status.
+ */
+export const shipmentColumns: ColumnValueDef<Shipment>[] = [
+  { id: "id", accessor: "id" },
+  { id: "category", accessor: "category" },
+  { id: "company", accessor: "company" },
+  {
+    id: "arrival",
+    accessor: (row) => row.deliveredAt ?? row.eta,
+    type: "date",
+  },
+  {
+    id: "tab",
+    accessor: (row) =>
+      Object.keys(SHIPMENT_TABS).find((tab) =>
+        SHIPMENT_TABS[tab].includes(row.status)
+      ) ?? "",
+  },
+];
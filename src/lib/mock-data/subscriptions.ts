@@ -0,0 +1,175 @@
+import type { BillingInterval } from "../billing/plans";
+
+export type SubscriptionStatus = "Active" | "Canceled";
+
+// An invoice raised for a subscription, with what it paid for
+export interface SubscriptionInvoice {
+  invoiceId: number;
+  planId: string;
+  reason: "Renewal" | "Plan change";
+  periodStart: string; // YYYY-MM-DD
+  periodEnd: string; // YYYY-MM-DD, exclusive
+}
+
+export interface SubscriptionEvent {
+  at: string; // ISO timestamp
+  actor: string; // "System" for changes made by the billing job
+  description: string;
+}
+
+// Countries a billing address can be in
+export const BILLING_COUNTRIES = [
+  "United States",
+  "United Kingdom",
+  "Germany",
+  "Canada",
+  "Bangladesh",
+  "Indonesia",
+] as const;
+export type BillingCountry = (typeof BILLING_COUNTRIES)[number];
+
+// Who pays, as entered on the Billing page
+export interface BillingDetails {
+  firstName: string;
+  lastName: string;
+  email: string; // Receipts go here
+  street: string;
+  city: string;
+  region: string; // State, county or province
+  postalCode: string;
+  country: BillingCountry;
+  vatNumber: string;
+}
+
+export interface Subscription {
+  id: string;
+  // Printed on invoices; follows the billing details whenever they change
+  customer: string;
+  customerAddress: [string, string]; // Street line and city line
+  billingDetails: BillingDetails;
+  planId: string;
+  interval: BillingInterval;
+  status: SubscriptionStatus;
+  cancelAtPeriodEnd: boolean;
+  billingAnchor: number; // Day of the month periods start on, 1-31
+  currentPeriodStart: string; // YYYY-MM-DD
+  currentPeriodEnd: string; // YYYY-MM-DD, exclusive; the next billing date
+  credit: number; // Minor units owed from downgrades, taken off the next invoices
+  vatRate: number; // Percent
+  invoices: SubscriptionInvoice[]; // Oldest first
+  history: SubscriptionEvent[]; // Oldest first
+}
+
+// The workspace's own subscription, shown on the Billing page
+export const ACCOUNT_SUBSCRIPTION_ID = "sub_account";
+
+const SEED_ACTOR = "Musharof Chowdhury";
+
+/**
+ * Periods are paid up to `currentPeriodEnd`; the billing job invoices every
+ * renewal from there on, so the first run catches up on the ones since.
+ */
+export const subscriptionSeed: Subscription[] = [
+  {
+    id: ACCOUNT_SUBSCRIPTION_ID,
+    customer: SEED_ACTOR,
+    customerAddress: [
+      "800 E Elcamino Real, suite #400",
+      "Mountain View, CA, 94040",
+    ],
+    billingDetails: {
+      firstName: "Musharof",
+      lastName: "Chowdhury",
+      email: "randomuser@pimjo.com",
+      street: "800 E Elcamino Real, suite #400",
+      city: "Mountain View",
+      region: "CA",
+      postalCode: "94040",
+      country: "United States",
+      vatNumber: "DE4920348",
+    },
+    planId: "professional",
+    interval: "month",
+    status: "Active",
+    cancelAtPeriodEnd: false,
+    billingAnchor: 22,
+    currentPeriodStart: "2026-07-22",
+    currentPeriodEnd: "2026-08-22",
+    credit: 0,
+    vatRate: 10,
+    invoices: [],
+    history: [
+      {
+        at: "2026-06-22T09:00:00.000Z",
+        actor: SEED_ACTOR,
+        description: "Subscribed to Professional, billed monthly",
+      },
+    ],
+  },
+  {
+    id: "sub_lindsey",
+    customer: "Lindsey Curtis",
+    customerAddress: ["4140 Parker Rd", "Allentown, New Mexico, 31134"],
+    billingDetails: {
+      firstName: "Lindsey",
+      lastName: "Curtis",
+      email: "lindsey@example.com",
+      street: "4140 Parker Rd",
+      city: "Allentown",
+      region: "New Mexico",
+      postalCode: "31134",
+      country: "United States",
+      vatNumber: "",
+    },
+    planId: "personal",
+    interval: "year",
+    status: "Active",
+    cancelAtPeriodEnd: false,
+    billingAnchor: 15,
+    currentPeriodStart: "2026-03-15",
+    currentPeriodEnd: "2027-03-15",
+    credit: 0,
+    vatRate: 10,
+    invoices: [],
+    history: [
+      {
+        at: "2026-03-15T09:00:00.000Z",
+        actor: SEED_ACTOR,
+        description: "Subscribed to Personal, billed yearly",
+      },
+    ],
+  },
+  {
+    id: "sub_chris",
+    customer: "Chris Wilson",
+    customerAddress: ["2715 Ash Dr", "San Jose, South Dakota, 83475"],
+    billingDetails: {
+      firstName: "Chris",
+      lastName: "Wilson",
+      email: "chris.wilson@example.com",
+      street: "2715 Ash Dr",
+      city: "San Jose",
+      region: "South Dakota",
+      postalCode: "83475",
+      country: "United States",
+      vatNumber: "",
+    },
+    planId: "enterprise",
+    interval: "month",
+    status: "Active",
+    cancelAtPeriodEnd: false,
+    billingAnchor: 31,
+    currentPeriodStart: "2026-09-30",
+    currentPeriodEnd: "2026-10-31",
+    credit: 0,
+    vatRate: 10,
+    invoices: [],
+    history: [
+      {
+        at: "2026-05-31T09:00:00.000Z",
+        actor: SEED_ACTOR,
+        description: "Subscribed to Enterprise, billed monthly",
+      },
+    ],
+  },
+];
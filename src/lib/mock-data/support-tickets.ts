@@ -0,0 +1,256 @@
+import type { ColumnValueDef } from "@/components/tables/DataTables/DataTable/types";
+import { createRandom } from "../random";
+
+export const TICKET_STATUSES = [
+  "Pending",
+  "In-Progress",
+  "On-Hold",
+  "Solved",
+] as const;
+export type TicketStatus = (typeof TICKET_STATUSES)[number];
+
+export const TICKET_PRIORITIES = ["Low", "Medium", "High", "Urgent"] as const;
+export type TicketPriority = (typeof TICKET_PRIORITIES)[number];
+
+export const TICKET_CATEGORIES = [
+  "General Support",
+  "Billing",
+  "Bug Report",
+  "Feature Request",
+  "Account",
+] as const;
+export type TicketCategory = (typeof TICKET_CATEGORIES)[number];
+
+export interface TicketAttachment {
+  id: string;
+  name: string;
+  type: string; // MIME type given in the email
+  size: number; // Bytes
+}
+
+export interface TicketMessage {
+  author: "customer" | "agent";
+  agent?: string; // Who wrote it, on agent messages
+  internal: boolean; // Notes only the support team sees
+  sentAt: string; // ISO timestamp
+  text: string; // Paragraphs separated by blank lines
+  messageId?: string; // Message-ID of the email it arrived in
+  attachments?: TicketAttachment[];
+}
+
+export interface SupportTicket {
+  id: string; // Shown with a leading "#"
+  name: string;
+  email: string;
+  customerId?: number; // The customer's profile, when they have one
+  subject: string;
+  category: TicketCategory;
+  priority: TicketPriority;
+  createdAt: string; // ISO timestamp; the SLA clocks start here
+  status: TicketStatus;
+  solvedAt: string | null; // ISO timestamp, while the ticket is solved
+  agent: string; // Support team member handling the ticket
+  tags: string[];
+  messages: TicketMessage[]; // Oldest first
+}
+
+const TICKET_ROWS: (Pick<
+  SupportTicket,
+  "id" | "name" | "email" | "subject" | "status" | "priority"
+> & { hoursAgo: number })[] = [
+  {
+    id: "323534",
+    name: "Lindsey Curtis",
+    email: "lindsey@example.com",
+    subject: "Issue with Dashboard Login Access",
+    priority: "Medium",
+    hoursAgo: 410,
+    status: "Solved",
+  },
+  {
+    id: "323535",
+    name: "Kaiya George",
+    email: "kaiya@example.com",
+    subject: "Billing Information Not Updating Properly",
+    priority: "High",
+    hoursAgo: 60,
+    status: "Pending",
+  },
+  {
+    id: "323536",
+    name: "Zain Geidt",
+    email: "zain787@example.com",
+    subject: "Bug Found in Dark Mode Layout",
+    priority: "Urgent",
+    hoursAgo: 30,
+    status: "In-Progress",
+  },
+  {
+    id: "323537",
+    name: "Abram Schleifer",
+    email: "abram@example.com",
+    subject: "Request to Add New Integration Feature",
+    priority: "Low",
+    hoursAgo: 250,
+    status: "Solved",
+  },
+  {
+    id: "323538",
+    name: "Mia Chen",
+    email: "mia.chen@example.com",
+    subject: "Unable to Reset Password",
+    priority: "Urgent",
+    hoursAgo: 0.5,
+    status: "Pending",
+  },
+  {
+    id: "323539",
+    name: "John Doe",
+    email: "john.doe@email.com",
+    subject: "Feature Request: Dark Mode",
+    priority: "Low",
+    hoursAgo: 170,
+    status: "Solved",
+  },
+  {
+    id: "323540",
+    name: "Jane Smith",
+    email: "jane.smith@email.com",
+    subject: "Error 500 on Dashboard",
+    priority: "High",
+    hoursAgo: 50,
+    status: "On-Hold",
+  },
+  {
+    id: "323541",
+    name: "Carlos Ruiz",
+    email: "carlos.ruiz@email.com",
+    subject: "Cannot Download Invoice",
+    priority: "Medium",
+    hoursAgo: 75,
+    status: "Solved",
+  },
+  {
+    id: "323542",
+    name: "Emily Clark",
+    email: "emily.clark@email.com",
+    subject: "UI Bug in Mobile View",
+    priority: "Medium",
+    hoursAgo: 6,
+    status: "Pending",
+  },
+  {
+    id: "323543",
+    name: "Liam Wong",
+    email: "liam.wong@email.com",
+    subject: "Account Locked",
+    priority: "High",
+    hoursAgo: 20,
+    status: "Solved",
+  },
+  {
+    id: "323544",
+    name: "Sophia Patel",
+    email: "sophia.patel@email.com",
+    subject: "Integration Not Working",
+    priority: "Urgent",
+    hoursAgo: 5,
+    status: "In-Progress",
+  },
+  {
+    id: "323545",
+    name: "Noah Kim",
+    email: "noah.kim@email.com",
+    subject: "Request for API Access",
+    priority: "Low",
+    hoursAgo: 1,
+    status: "Solved",
+  },
+];
+
+export const SUPPORT_AGENTS = [
+  "Musharof Chowdhury",
+  "Naimur Rahman",
+  "Shafiq Hammad",
+];
+
+const random = createRandom(346520);
+
+const HOUR = 60 * 60 * 1000;
+
+// Seeded relative to the first start, so the SLA clocks have something to show
+const SEEDED_AT = Date.now();
+
+function createConversation(
+  row: (typeof TICKET_ROWS)[number],
+  createdAt: number,
+  agent: string
+): { messages: TicketMessage[]; solvedAt: string | null } {
+  const firstName = row.name.split(" ")[0];
+  // Each message a while after the one before, never later than now
+  let last = createdAt;
+  const sentAt = (hours: number) => {
+    last = Math.min(last + hours * HOUR, SEEDED_AT);
+    return new Date(last).toISOString();
+  };
+  const messages: TicketMessage[] = [
+    {
+      author: "customer",
+      internal: false,
+      sentAt: new Date(createdAt).toISOString(),
+      text: `Hi TailAdmin Team,\n\nI hope you are doing well. I am writing about the following: ${row.subject.toLowerCase()}.\n\nCould you take a look and let me know how to proceed? I am happy to share screenshots or account details if that helps.`,
+    },
+  ];
+  // Only the newest pending tickets are still waiting for a first reply
+  if (row.status === "Pending" && row.hoursAgo < 24) {
+    return { messages, solvedAt: null };
+  }
+  messages.push({
+    author: "agent",
+    agent,
+    internal: true,
+    sentAt: sentAt(random.int(10, 90) / 60),
+    text: "Reproduced this on a test account. Taking it from here.",
+  });
+  messages.push({
+    author: "agent",
+    agent,
+    internal: false,
+    sentAt: sentAt(random.int(5, 60) / 60),
+    text: `Hi ${firstName},\n\nThanks for reaching out. I have passed the details to the team and we are looking into it now.\n\nBest regards,\n${agent}`,
+  });
+  if (row.status !== "Solved") return { messages, solvedAt: null };
+  messages.push({
+    author: "customer",
+    internal: false,
+    sentAt: sentAt(random.int(1, Math.max(1, Math.floor(row.hoursAgo / 2)))),
+    text: "Everything works as expected now. Thank you for the quick help!",
+  });
+  return { messages, solvedAt: messages[messages.length - 1].sentAt };
+}
+
+export const supportTicketSeed: SupportTicket[] = TICKET_ROWS.map((row) => {
+  const { hoursAgo, ...fields } = row;
+  const agent = random.pick(SUPPORT_AGENTS);
+  const createdAt = SEEDED_AT - hoursAgo * HOUR;
+  return {
+    ...fields,
+    category: random.pick(TICKET_CATEGORIES),
+    createdAt: new Date(createdAt).toISOString(),
+    agent,
+    tags: [],
+    ...createConversation(row, createdAt, agent),
+  };
+});
+
+// `company` is the domain of the requester's email address
+export const ticketColumns: ColumnValueDef<SupportTicket>[] = [
+  { id: "id", accessor: "id", type: "number" },
+  { id: "name", accessor: "name", searchable: true },
+  { id: "email", accessor: "email", searchable: true },
+  { id: "subject", accessor: "subject", searchable: true },
+  { id: "createdAt", accessor: "createdAt", type: "date" },
+  { id: "status", accessor: "status" },
+  { id: "category", accessor: "category" },
+  { id: "company", accessor: (row) => row.email.split("@")[1] ?? "" },
+];
@@ -0,0 +1,144 @@
+import type { Task, TaskColumn } from "@/components/task/types";
+
+export const taskSeedColumns: TaskColumn[] = [
+  { id: "todo", title: "To Do", wipLimit: null },
+  { id: "inProgress", title: "In Progress", wipLimit: 4 },
+  { id: "completed", title: "Completed", wipLimit: null },
+];
+
+export const taskSeedTasks: Task[] = [
+  {
+    id: "1",
+    title: "Finish user onboarding",
+    dueDate: "Tomorrow",
+    comments: 1,
+    assignee: "/images/user/user-01.jpg",
+    status: "todo",
+    done: false,
+    category: { name: "Development", color: "orange" },
+  },
+  {
+    id: "2",
+    title: "Solve the dribble prioritization issue with the team",
+    dueDate: "Jan 08, 2027",
+    comments: 1,
+    assignee: "/images/user/user-01.jpg",
+    status: "todo",
+    done: false,
+    category: { name: "Marketing", color: "brand" },
+  },
+  {
+    id: "3",
+    title: "Change license and remove products",
+    dueDate: "Jan 8, 2027",
+    assignee: "/images/user/user-07.jpg",
+    status: "todo",
+    done: false,
+    category: { name: "Dev", color: "default" },
+  },
+  {
+    id: "4",
+    title: "Work in progress(WIP) Dashboard",
+    dueDate: "Today",
+    comments: 1,
+    assignee: "/images/user/user-09.jpg",
+    status: "inProgress",
+    done: false,
+    category: { name: "Development", color: "default" },
+  },
+  {
+    id: "5",
+    title: "Kanban  manager",
+    dueDate: "Jan 08, 2027",
+    comments: 8,
+    assignee: "/images/user/user-10.jpg",
+    status: "inProgress",
+    done: false,
+    category: { name: "Template", color: "success" },
+    links: 2,
+  },
+  {
+    id: "6",
+    title: "Product Update - Q4 (2024)",
+    projectDesc:
+      "Dedicated from a category of users that will perform actions.",
+    projectImg: "/images/task/task.png",
+    dueDate: "Today",
+    comments: 1,
+    assignee: "/images/user/user-09.jpg",
+    status: "inProgress",
+    done: false,
+    category: { name: "Development", color: "default" },
+  },
+  {
+    id: "7",
+    title: "Make figbot send comment when ticket is auto-moved back to inbox",
+    dueDate: "Mar 08, 2027",
+    comments: 1,
+    assignee: "/images/user/user-12.jpg",
+    status: "inProgress",
+    done: false,
+    category: { name: "Dev", color: "default" },
+  },
+  {
+    id: "8",
+    title: "Manage internal feedback",
+    dueDate: "Tomorrow",
+    comments: 1,
+    assignee: "/images/user/user-13.jpg",
+    status: "completed",
+    done: false,
+    category: { name: "Dev", color: "default" },
+  },
+  {
+    id: "9",
+    title: "Do some projects on React Native with Flutter",
+    dueDate: "Jan 8, 2027",
+    comments: 1,
+    assignee: "/images/user/user-14.jpg",
+    status: "completed",
+    done: false,
+    category: { name: "Development", color: "orange" },
+  },
+  {
+    id: "10",
+    title: "Design marketing assets",
+    dueDate: "Jan 08, 2027",
+    comments: 2,
+    assignee: "/images/user/user-10.jpg",
+    status: "completed",
+    done: false,
+    category: { name: "Marketing", color: "brand" },
+    links: 1,
+  },
+  {
+    id: "11",
+    title: "Kanban flow manager",
+    dueDate: "Jan 08, 2027",
+    comments: 8,
+    assignee: "/images/user/user-10.jpg",
+    status: "completed",
+    done: false,
+    category: { name: "Template", color: "success" },
+    links: 2,
+  },
+];
+
+export const taskAssignees: { name: string; avatar: string }[] = [
+  { name: "Lindsey Curtis", avatar: "/images/user/user-01.jpg" },
+  { name: "Kaiya George", avatar: "/images/user/user-07.jpg" },
+  { name: "Zain Geidt", avatar: "/images/user/user-09.jpg" },
+  { name: "Abram Schleifer", avatar: "/images/user/user-10.jpg" },
+  { name: "Carla George", avatar: "/images/user/user-12.jpg" },
+  { name: "Emery Culhane", avatar: "/images/user/user-13.jpg" },
+  { name: "Livia Donin", avatar: "/images/user/user-14.jpg" },
+];
+
+export const taskCategoryColors = [
+  "default",
+  "brand",
+  "orange",
+  "success",
+  "error",
+  "purple",
+];
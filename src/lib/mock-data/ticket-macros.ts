@@ -0,0 +1,62 @@
+import type { TicketStatus } from "./support-tickets";
+
+// What a macro does to the ticket besides filling in the reply
+export interface MacroActions {
+  status?: TicketStatus;
+  agent?: string; // Assigns the ticket to this support agent
+  tags: string[]; // Added when the ticket does not have them yet
+}
+
+export interface TicketMacro {
+  id: string;
+  name: string;
+  body: string; // Reply text with `{{placeholders}}`, see `MACRO_PLACEHOLDERS`
+  actions: MacroActions;
+  updatedAt: string; // ISO timestamp
+  updatedBy: string; // Who last saved it
+}
+
+const SEEDED_AT = new Date().toISOString();
+
+const MACRO_ROWS: Omit<TicketMacro, "updatedAt" | "updatedBy">[] = [
+  {
+    id: "1",
+    name: "Password reset instructions",
+    body: 'Hi {{customer_first_name}},\n\nYou can reset your password from the sign in page with "Forgot password". The link in the email is valid for one hour.\n\nIf it does not arrive within a few minutes, check your spam folder and let us know.\n\nBest regards,\n{{agent_name}}',
+    actions: { status: "Solved", tags: ["account"] },
+  },
+  {
+    id: "2",
+    name: "Refund processed",
+    body: "Hi {{customer_first_name}},\n\nYour refund for ticket #{{ticket_id}} has been processed. It usually shows on your statement within 5-10 business days.\n\nBest regards,\n{{agent_name}}",
+    actions: { status: "Solved", tags: ["billing", "refund"] },
+  },
+  {
+    id: "3",
+    name: "Bug acknowledged",
+    body: 'Hi {{customer_first_name}},\n\nThanks for the detailed report on "{{ticket_subject}}". We could reproduce it and our engineers are working on a fix. We will update this ticket as soon as it is released.\n\nBest regards,\n{{agent_name}}',
+    actions: { status: "In-Progress", tags: ["bug"] },
+  },
+  {
+    id: "4",
+    name: "Need more information",
+    body: "Hi {{customer_first_name}},\n\nTo look into this further, could you send us the steps that led to the problem and a screenshot if you have one?\n\nBest regards,\n{{agent_name}}",
+    actions: { status: "On-Hold", tags: [] },
+  },
+  {
+    id: "5",
+    name: "Escalate to billing",
+    body: "Hi {{customer_first_name}},\n\nI have passed your ticket to our billing specialist, who will get back to you shortly.\n\nBest regards,\n{{agent_name}}",
+    actions: {
+      status: "In-Progress",
+      agent: "Naimur Rahman",
+      tags: ["billing", "escalated"],
+    },
+  },
+];
+
+export const ticketMacroSeed: TicketMacro[] = MACRO_ROWS.map((macro) => ({
+  ...macro,
+  updatedAt: SEEDED_AT,
+  updatedBy: "Support Team",
+}));
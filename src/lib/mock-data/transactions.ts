@@ -0,0 +1,417 @@
+import type { ColumnValueDef } from "@/components/tables/DataTables/DataTable/types";
+import {
+  toReportingCurrency,
+  type CurrencyCode,
+  type ExchangeRates,
+  type Money,
+} from "../money";
+import { createRandom } from "../random";
+import { calculateOrderTotals, type OrderLine } from "../order-totals";
+import { createAddress, createOrderLines } from "./order-lines";
+
+export type TransactionStatus = "Completed" | "Pending" | "Failed" | "Refunded";
+
+// How the payment gateway took the money, for transactions it created
+export interface TransactionCharge {
+  gateway: string;
+  chargeId: string;
+  invoiceId: number;
+  paymentMethod: string; // "Visa •••• 4242"
+  refunded: number; // Minor units refunded so far
+  failureReason?: string;
+}
+
+// Where the goods are; orders with nothing to ship have no fulfilment
+export type FulfillmentStatus =
+  | "Unfulfilled"
+  | "Processing"
+  | "Shipped"
+  | "Delivered"
+  | "Canceled";
+
+export const FULFILLMENT_STATUSES: FulfillmentStatus[] = [
+  "Unfulfilled",
+  "Processing",
+  "Shipped",
+  "Delivered",
+  "Canceled",
+];
+
+export interface OrderRefund {
+  amount: number; // Minor units
+  at: string; // ISO timestamp
+  actor: string;
+  note?: string;
+}
+
+export type OrderEventType =
+  | "placed"
+  | "paid"
+  | "payment-failed"
+  | "fulfillment"
+  | "refunded";
+
+// One step in an order's history, shown on its Order History timeline
+export interface OrderEvent {
+  type: OrderEventType;
+  at: string; // ISO timestamp
+  actor: string; // Who did it; "System" for automatic ones
+  status?: FulfillmentStatus; // For "fulfillment" events
+  amount?: number; // Minor units, for "paid" and "refunded" events
+  note?: string;
+}
+
+/**
+ * An order and the payment taken for it. `customerId` links it to the
+ * customer's profile, when they have one.
+ */
+export interface Transaction {
+  id: number;
+  orderId: string;
+  customer: string;
+  customerId?: number;
+  email: string;
+  phone: string;
+  country: string;
+  address: [string, string]; // Street line and city line
+  status: TransactionStatus;
+  dueDate: string;
+  currency: CurrencyCode; // Every amount on the record is in this currency
+  items: OrderLine[];
+  vatRate: number; // Percent
+  placedAt: string; // ISO timestamp
+  fulfillment?: FulfillmentStatus;
+  refunds: OrderRefund[];
+  events: OrderEvent[]; // Oldest first
+  tags: string[]; // Labels staff put on the order, such as "VIP"
+  charge?: TransactionCharge;
+}
+
+const TRANSACTION_ROWS: Pick<
+  Transaction,
+  "id" | "orderId" | "customer" | "email" | "status" | "dueDate" | "currency"
+>[] = [
+  {
+    id: 1,
+    orderId: "#323534",
+    customer: "Lindsey Curtis",
+    email: "lindsey@example.com",
+    status: "Completed",
+    dueDate: "12 Feb, 2027",
+    currency: "USD",
+  },
+  {
+    id: 2,
+    orderId: "#323535",
+    customer: "Kaiya George",
+    email: "kaiya@example.com",
+    status: "Failed",
+    dueDate: "13 Mar, 2027",
+    currency: "EUR",
+  },
+  {
+    id: 3,
+    orderId: "#323536",
+    customer: "Zain Geidt",
+    email: "zain787@example.com",
+    status: "Pending",
+    dueDate: "19 Mar, 2027",
+    currency: "USD",
+  },
+  {
+    id: 4,
+    orderId: "#323537",
+    customer: "Abram Schleifer",
+    email: "abram@example.com",
+    status: "Completed",
+    dueDate: "25 Apr, 2027",
+    currency: "GBP",
+  },
+  {
+    id: 5,
+    orderId: "#323538",
+    customer: "Carla George",
+    email: "carla65@example.com",
+    status: "Completed",
+    dueDate: "11 May, 2027",
+    currency: "USD",
+  },
+  {
+    id: 6,
+    orderId: "#323539",
+    customer: "Emery Culhane",
+    email: "emery09@example.com",
+    status: "Completed",
+    dueDate: "29 Jun, 2027",
+    currency: "EUR",
+  },
+  {
+    id: 7,
+    orderId: "#323540",
+    customer: "Livia Donin",
+    email: "livia343@example.com",
+    status: "Failed",
+    dueDate: "22 Jul, 2027",
+    currency: "USD",
+  },
+  {
+    id: 8,
+    orderId: "#323541",
+    customer: "Miracle Bator",
+    email: "miracle@example.com",
+    status: "Completed",
+    dueDate: "05 Aug, 2027",
+    currency: "USD",
+  },
+  {
+    id: 9,
+    orderId: "#323542",
+    customer: "Lincoln Herwitz",
+    email: "lincoln@example.com",
+    status: "Completed",
+    dueDate: "09 Sep, 2027",
+    currency: "USD",
+  },
+  {
+    id: 10,
+    orderId: "#323543",
+    customer: "Ekstrom Bothman",
+    email: "ekstrom@example.com",
+    status: "Completed",
+    dueDate: "15 Nov, 2027",
+    currency: "USD",
+  },
+  {
+    id: 11,
+    orderId: "#323544",
+    customer: "Ava Smith",
+    email: "ava.smith@example.com",
+    status: "Pending",
+    dueDate: "01 Dec, 2027",
+    currency: "EUR",
+  },
+  {
+    id: 12,
+    orderId: "#323545",
+    customer: "Noah Lee",
+    email: "noah.lee@example.com",
+    status: "Failed",
+    dueDate: "15 Dec, 2027",
+    currency: "USD",
+  },
+  {
+    id: 13,
+    orderId: "#323546",
+    customer: "Mia Chen",
+    email: "mia.chen@example.com",
+    status: "Completed",
+    dueDate: "22 Dec, 2027",
+    currency: "GBP",
+  },
+  {
+    id: 14,
+    orderId: "#323547",
+    customer: "Ethan Patel",
+    email: "ethan.patel@example.com",
+    status: "Pending",
+    dueDate: "05 Jan, 2028",
+    currency: "USD",
+  },
+  {
+    id: 15,
+    orderId: "#323548",
+    customer: "Sophia Kim",
+    email: "sophia.kim@example.com",
+    status: "Completed",
+    dueDate: "18 Jan, 2028",
+    currency: "EUR",
+  },
+  {
+    id: 16,
+    orderId: "#323549",
+    customer: "Liam Brown",
+    email: "liam.brown@example.com",
+    status: "Failed",
+    dueDate: "28 Jan, 2028",
+    currency: "USD",
+  },
+  {
+    id: 17,
+    orderId: "#323550",
+    customer: "Olivia Wilson",
+    email: "olivia.wilson@example.com",
+    status: "Pending",
+    dueDate: "10 Feb, 2028",
+    currency: "USD",
+  },
+  {
+    id: 18,
+    orderId: "#323551",
+    customer: "Mason Clark",
+    email: "mason.clark@example.com",
+    status: "Completed",
+    dueDate: "20 Feb, 2028",
+    currency: "CAD",
+  },
+  {
+    id: 19,
+    orderId: "#323552",
+    customer: "Ella Davis",
+    email: "ella.davis@example.com",
+    status: "Failed",
+    dueDate: "01 Mar, 2028",
+    currency: "USD",
+  },
+  {
+    id: 20,
+    orderId: "#323553",
+    customer: "James Martinez",
+    email: "james.martinez@example.com",
+    status: "Completed",
+    dueDate: "15 Mar, 2028",
+    currency: "USD",
+  },
+];
+
+// Where customers paying in each currency are based
+const COUNTRIES: Partial<Record<CurrencyCode, string>> = {
+  EUR: "Germany",
+  GBP: "United Kingdom",
+  CAD: "Canada",
+};
+
+const random = createRandom(34834);
+// Separate stream so the history never changes the generated line items
+const historyRandom = createRandom(34835);
+
+const HOUR = 60 * 60 * 1000;
+const SEED_ACTOR = "Musharof Chowdhury";
+const SEED_VAT_RATE = 10;
+
+// Orders come in about a day apart, oldest first
+const placedAt = (id: number) =>
+  new Date(
+    Date.UTC(2026, 8, 20, 8) + (id * 24 + historyRandom.int(0, 10)) * HOUR
+  ).toISOString();
+
+/**
+ * Fulfilment and history matching each row's payment status: paid orders
+ * are somewhere between processing and delivered, pending ones wait to be
+ * paid and failed ones were canceled.
+ */
+function seedHistory(
+  row: (typeof TRANSACTION_ROWS)[number],
+  items: OrderLine[]
+): Pick<Transaction, "placedAt" | "fulfillment" | "refunds" | "events"> {
+  const placed = placedAt(row.id);
+  const at = (hours: number) =>
+    new Date(Date.parse(placed) + hours * HOUR).toISOString();
+  const events: OrderEvent[] = [
+    {
+      type: "placed",
+      at: placed,
+      actor: row.customer,
+      note: "via tailadmin.com",
+    },
+  ];
+
+  if (row.status === "Failed") {
+    events.push(
+      {
+        type: "payment-failed",
+        at: at(0.1),
+        actor: "System",
+        note: "The card was declined",
+      },
+      { type: "fulfillment", at: at(26), actor: SEED_ACTOR, status: "Canceled" }
+    );
+    return { placedAt: placed, fulfillment: "Canceled", refunds: [], events };
+  }
+  if (row.status !== "Completed") {
+    return {
+      placedAt: placed,
+      fulfillment: "Unfulfilled",
+      refunds: [],
+      events,
+    };
+  }
+
+  events.push({
+    type: "paid",
+    at: at(0.1),
+    actor: "System",
+    amount: calculateOrderTotals(items, SEED_VAT_RATE, row.currency).total
+      .amount,
+  });
+  const steps: FulfillmentStatus[] = ["Processing", "Shipped", "Delivered"];
+  const reached = historyRandom.pick([1, 2, 3, 3]);
+  steps.slice(0, reached).forEach((status, index) =>
+    events.push({
+      type: "fulfillment",
+      at: at(2 + index * 30),
+      actor: SEED_ACTOR,
+      status,
+    })
+  );
+  return {
+    placedAt: placed,
+    fulfillment: steps[reached - 1],
+    refunds: [],
+    events,
+  };
+}
+
+export const transactionSeed: Transaction[] = TRANSACTION_ROWS.map((row) => {
+  const phone = `+1 ${random.int(200, 989)} ${random.int(
+    200,
+    989
+  )} ${random.int(1000, 9999)}`;
+  const address = createAddress(random);
+  const items = createOrderLines(random, row.currency);
+  return {
+    ...row,
+    phone,
+    country: COUNTRIES[row.currency] ?? "United States",
+    address,
+    items,
+    vatRate: SEED_VAT_RATE,
+    ...seedHistory(row, items),
+    tags: [],
+  };
+});
+
+// A transaction as the list shows it, with the order total it sorts by
+export interface TransactionListRow extends Transaction {
+  amount: Money;
+  reportingAmount: Money; // Converted at the rates of the due date
+}
+
+export function toTransactionListRow(
+  transaction: Transaction,
+  rates: ExchangeRates
+): TransactionListRow {
+  const { total } = calculateOrderTotals(
+    transaction.items,
+    transaction.vatRate,
+    transaction.currency
+  );
+  return {
+    ...transaction,
+    amount: total,
+    reportingAmount: toReportingCurrency(total, transaction.dueDate, rates),
+  };
+}
+
+// Amounts compare across currencies in the reporting currency
+export const transactionColumns: ColumnValueDef<TransactionListRow>[] = [
+  { id: "orderId", accessor: "orderId", searchable: true },
+  { id: "customer", accessor: "customer", searchable: true },
+  { id: "email", accessor: "email", searchable: true },
+  {
+    id: "amount",
+    accessor: (row) => row.reportingAmount.amount,
+    type: "number",
+  },
+  { id: "dueDate", accessor: "dueDate", type: "date" },
+  { id: "status", accessor: "status" },
+];
@@ -0,0 +1,185 @@
+/**
+ * Amounts are integers in the currency's minor unit (cents, pence; whole
+ * yen) tagged with an ISO 4217 code, so values in different currencies are
+ * never added up by accident.
+ */
+
+export const CURRENCIES = {
+  USD: { name: "US Dollar", digits: 2 },
+  EUR: { name: "Euro", digits: 2 },
+  GBP: { name: "British Pound", digits: 2 },
+  CAD: { name: "Canadian Dollar", digits: 2 },
+  AUD: { name: "Australian Dollar", digits: 2 },
+  JPY: { name: "Japanese Yen", digits: 0 },
+  INR: { name: "Indian Rupee", digits: 2 },
+} as const;
+
+export type CurrencyCode = keyof typeof CURRENCIES;
+
+export const CURRENCY_CODES = Object.keys(CURRENCIES) as CurrencyCode[];
+
+export const DEFAULT_CURRENCY: CurrencyCode = "USD";
+
+// Locale used for formatting unless a caller passes its own
+export const DEFAULT_LOCALE = "en-US";
+
+export interface Money {
+  amount: number; // Minor units
+  currency: CurrencyCode;
+}
+
+export function isCurrencyCode(value: unknown): value is CurrencyCode {
+  return typeof value === "string" && Object.hasOwn(CURRENCIES, value);
+}
+
+/**
+ * Converts a decimal amount ("12.5" or 12.5) to minor units. Strings are
+ * read digit by digit, so no binary fraction ever gets rounded; returns NaN
+ * for anything that is not a plain decimal number.
+ */
+export function toMinorUnits(
+  value: string | number,
+  currency: CurrencyCode = DEFAULT_CURRENCY
+): number {
+  const digits = CURRENCIES[currency].digits;
+  const text =
+    typeof value === "number" ? value.toFixed(digits + 1) : value.trim();
+  const match = /^(-?)(\d*)(?:\.(\d*))?$/.exec(text);
+  if (!match || (!match[2] && !match[3])) return NaN;
+  const fraction = (match[3] ?? "").padEnd(digits + 1, "0");
+  const units =
+    Number(match[2] || "0") * 10 ** digits +
+    Number(fraction.slice(0, digits) || "0") +
+    (Number(fraction[digits]) >= 5 ? 1 : 0);
+  return match[1] ? -units : units;
+}
+
+export function fromMinorUnits(money: Money): number {
+  return money.amount / 10 ** CURRENCIES[money.currency].digits;
+}
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+/**
+ * "$1,579.00", "1.579,00 €" with `locale: "de-DE"`, "¥1,579". With
+ * `trimZeroCents` whole amounts drop their decimals ("$1,579").
+ */
+export function formatMoney(
+  money: Money,
+  options: {
+    locale?: string;
+    trimZeroCents?: boolean;
+    currencyDisplay?: "symbol" | "code"; // "₹1,200" or "INR 1,200"
+  } = {}
+): string {
+  const locale = options.locale ?? DEFAULT_LOCALE;
+  const digits = CURRENCIES[money.currency].digits;
+  const trim =
+    options.trimZeroCents === true && money.amount % 10 ** digits === 0;
+  const display = options.currencyDisplay ?? "symbol";
+  const key = `${locale}|${money.currency}|${trim}|${display}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(locale, {
+      style: "currency",
+      currency: money.currency,
+      currencyDisplay: display,
+      minimumFractionDigits: trim ? 0 : digits,
+      maximumFractionDigits: digits,
+    });
+    formatters.set(key, formatter);
+  }
+  return formatter.format(fromMinorUnits(money));
+}
+
+/**
+ * Exchange rates captured at one point in time: how many units of each
+ * currency one unit of `base` bought on `date`.
+ */
+export interface ExchangeRateSnapshot {
+  id: string;
+  date: string; // YYYY-MM-DD
+  base: CurrencyCode;
+  rates: Partial<Record<CurrencyCode, number>>;
+}
+
+/**
+ * Converts through the snapshot's base currency and rounds half-up to the
+ * target's minor unit. Throws when the snapshot has no rate for either side.
+ */
+export function convertMoney(
+  money: Money,
+  target: CurrencyCode,
+  snapshot: ExchangeRateSnapshot
+): Money {
+  if (money.currency === target) return money;
+  const rateOf = (currency: CurrencyCode) => {
+    const rate =
+      currency === snapshot.base ? 1 : snapshot.rates[currency] ?? NaN;
+    if (!(rate > 0)) {
+      throw new Error(
+        `Exchange rate snapshot ${snapshot.id} has no rate for ${currency}`
+      );
+    }
+    return rate;
+  };
+  const major =
+    (fromMinorUnits(money) / rateOf(money.currency)) * rateOf(target);
+  const scale = 10 ** CURRENCIES[target].digits;
+  return { amount: Math.round(major * scale), currency: target };
+}
+
+/**
+ * Everything a client component needs to convert amounts into the reporting
+ * currency without another round trip.
+ */
+export interface ExchangeRates {
+  reportingCurrency: CurrencyCode;
+  snapshots: ExchangeRateSnapshot[]; // Oldest first
+}
+
+/**
+ * The newest snapshot taken on or before `at` (any date string `Date` can
+ * parse). Dates before the first snapshot use the first one; a missing or
+ * unparseable date uses the latest.
+ */
+export function snapshotAt(
+  snapshots: ExchangeRateSnapshot[],
+  at?: string | Date
+): ExchangeRateSnapshot {
+  if (snapshots.length === 0) {
+    throw new Error("No exchange rate snapshots stored");
+  }
+  const date = at === undefined ? null : new Date(at);
+  if (!date || Number.isNaN(date.getTime())) {
+    return snapshots[snapshots.length - 1];
+  }
+  const day = date.toISOString().slice(0, 10);
+  return snapshots.filter((row) => row.date <= day).pop() ?? snapshots[0];
+}
+
+// `money` in the reporting currency at the rates in force on `date`
+export function toReportingCurrency(
+  money: Money,
+  date: string | undefined,
+  rates: ExchangeRates
+): Money {
+  return convertMoney(
+    money,
+    rates.reportingCurrency,
+    snapshotAt(rates.snapshots, date)
+  );
+}
+
+// Adds amounts that share one currency
+export function sumMoney(values: Money[], currency: CurrencyCode): Money {
+  return values.reduce<Money>(
+    (sum, value) => {
+      if (value.currency !== currency) {
+        throw new Error(`Cannot add ${value.currency} to ${currency}`);
+      }
+      return { amount: sum.amount + value.amount, currency };
+    },
+    { amount: 0, currency }
+  );
+}
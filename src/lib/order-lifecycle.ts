@@ -0,0 +1,59 @@
+import type { FulfillmentStatus, Transaction } from "./mock-data/transactions";
+import type { Money } from "./money";
+import { calculateOrderTotals } from "./order-totals";
+
+/**
+ * Order fulfilment rules, shared by the server and the UI:
+ *
+ *   Unfulfilled → Processing → Shipped → Delivered
+ *   Unfulfilled / Processing → Canceled
+ *
+ * Only paid orders move towards delivery; an unpaid one can still be
+ * canceled. Canceling does not give the money back, that is a refund.
+ */
+export const FULFILLMENT_TRANSITIONS: Record<
+  FulfillmentStatus,
+  FulfillmentStatus[]
+> = {
+  Unfulfilled: ["Processing", "Canceled"],
+  Processing: ["Shipped", "Canceled"],
+  Shipped: ["Delivered"],
+  Delivered: [],
+  Canceled: [],
+};
+
+// The fulfilment statuses `order` can move to next
+export function nextFulfillmentStatuses(
+  order: Pick<Transaction, "fulfillment" | "status">
+): FulfillmentStatus[] {
+  if (!order.fulfillment) return [];
+  return FULFILLMENT_TRANSITIONS[order.fulfillment].filter(
+    (status) => status === "Canceled" || order.status === "Completed"
+  );
+}
+
+export interface OrderBalance {
+  total: Money;
+  refunded: Money;
+  refundable: Money;
+}
+
+export function orderBalance(order: Transaction): OrderBalance {
+  const { total } = calculateOrderTotals(
+    order.items,
+    order.vatRate,
+    order.currency
+  );
+  const refunded = order.refunds.reduce(
+    (sum, refund) => sum + refund.amount,
+    0
+  );
+  return {
+    total,
+    refunded: { amount: refunded, currency: order.currency },
+    refundable: {
+      amount: Math.max(0, total.amount - refunded),
+      currency: order.currency,
+    },
+  };
+}
@@ -0,0 +1,54 @@
+import type { CurrencyCode, Money } from "./money";
+import { calculateTaxes } from "./tax/engine";
+
+// One product line on an invoice or order
+export interface OrderLine {
+  product: string;
+  quantity: number;
+  unitCost: number; // Minor units of the order's currency
+  discount: number; // Percent taken off the line, 0-100
+}
+
+export interface OrderTotals {
+  subtotal: Money;
+  vat: Money;
+  total: Money;
+}
+
+// Stored orders carry one VAT rate on every line and prices excluding tax
+function calculate(lines: OrderLine[], vatRate: number) {
+  return calculateTaxes({
+    lines: lines.map((line) => ({
+      quantity: line.quantity,
+      unitPrice: line.unitCost,
+      discount: line.discount,
+      taxRateIds: ["vat"],
+    })),
+    rates: [{ id: "vat", name: "VAT", rate: vatRate, compound: false }],
+    pricesIncludeTax: false,
+    discount: null,
+    shipping: null,
+  });
+}
+
+export function unitPrice(line: OrderLine, currency: CurrencyCode): Money {
+  return { amount: line.unitCost, currency };
+}
+
+export function lineTotal(line: OrderLine, currency: CurrencyCode): Money {
+  return { amount: calculate([line], 0).subtotal, currency };
+}
+
+// `vatRate` is a percentage applied to the discounted subtotal
+export function calculateOrderTotals(
+  lines: OrderLine[],
+  vatRate: number,
+  currency: CurrencyCode
+): OrderTotals {
+  const result = calculate(lines, vatRate);
+  return {
+    subtotal: { amount: result.subtotal, currency },
+    vat: { amount: result.taxTotal, currency },
+    total: { amount: result.total, currency },
+  };
+}
@@ -0,0 +1,154 @@
+import type { BulkAdapter } from "./bulk-runner";
+import {
+  FULFILLMENT_STATUSES,
+  type FulfillmentStatus,
+  type Transaction,
+} from "./mock-data/transactions";
+import { formatMoney } from "./money";
+import {
+  FULFILLMENT_TRANSITIONS,
+  nextFulfillmentStatuses,
+  orderBalance,
+} from "./order-lifecycle";
+import {
+  listTransactions,
+  updateTransaction,
+  updateTransactions,
+} from "./transactions";
+
+/**
+ * Fulfilment and refunds of orders. The order record itself is the
+ * transaction; payments taken through the gateway are in ./payments.
+ */
+
+export type OrderResult =
+  | { order: Transaction }
+  | { error: string; status: 404 | 409 };
+
+const notFound = { error: "Order not found", status: 404 as const };
+
+export async function listRecentOrders(limit: number): Promise<Transaction[]> {
+  return (await listTransactions())
+    .sort((a, b) => b.placedAt.localeCompare(a.placedAt))
+    .slice(0, limit);
+}
+
+// Runs `change` on the stored order; it returns an error message to refuse
+function changeOrder(
+  id: string,
+  change: (order: Transaction) => string | void
+): Promise<OrderResult> {
+  return updateTransaction(
+    (row) => String(row.id) === id,
+    (order): OrderResult => {
+      const error = change(order);
+      return error ? { error, status: 409 } : { order };
+    }
+  ).then((result) => result ?? notFound);
+}
+
+export function setFulfillment(
+  id: string,
+  status: FulfillmentStatus,
+  actor: string
+): Promise<OrderResult> {
+  return changeOrder(id, (order) => moveFulfillment(order, status, actor));
+}
+
+function moveFulfillment(
+  order: Transaction,
+  status: FulfillmentStatus,
+  actor: string
+): string | void {
+  if (!order.fulfillment) return "Nothing ships for this order";
+  if (!FULFILLMENT_TRANSITIONS[order.fulfillment].includes(status)) {
+    return `${order.fulfillment} orders cannot become ${status.toLowerCase()}`;
+  }
+  if (!nextFulfillmentStatuses(order).includes(status)) {
+    return "The order has to be paid before it ships";
+  }
+  order.fulfillment = status;
+  order.events.push({
+    type: "fulfillment",
+    at: new Date().toISOString(),
+    actor,
+    status,
+  });
+}
+
+/**
+ * Records `amount` minor units going back to the customer, and marks the
+ * order refunded once nothing is left. The caller checks the amount.
+ */
+export function applyRefund(
+  order: Transaction,
+  amount: number,
+  actor: string,
+  note?: string
+): void {
+  const at = new Date().toISOString();
+  order.refunds.push({ amount, at, actor, ...(note ? { note } : {}) });
+  order.events.push({
+    type: "refunded",
+    at,
+    actor,
+    amount,
+    ...(note ? { note } : {}),
+  });
+  if (orderBalance(order).refundable.amount === 0) order.status = "Refunded";
+}
+
+/**
+ * Records a refund paid outside the gateway, such as a bank transfer back
+ * for an order paid by invoice. Everything not yet refunded when `amount`
+ * is omitted.
+ */
+export function recordRefund(
+  id: string,
+  amount: number | undefined,
+  actor: string
+): Promise<OrderResult> {
+  return changeOrder(id, (order) => {
+    if (order.charge) {
+      return "Payments taken through the gateway are refunded there";
+    }
+    if (order.status !== "Completed") {
+      return `A ${order.status.toLowerCase()} payment cannot be refunded`;
+    }
+    const { refundable } = orderBalance(order);
+    if ((amount ?? refundable.amount) > refundable.amount) {
+      return `Only ${formatMoney(refundable)} can still be refunded`;
+    }
+    applyRefund(order, amount ?? refundable.amount, actor, "Paid back by hand");
+  });
+}
+
+// Bulk actions on the transaction list: moving orders along and tagging them
+export const orderBulkAdapter: BulkAdapter<Transaction> = {
+  update: updateTransactions,
+  idOf: (order) => String(order.id),
+  change(order, action, actor) {
+    if (action.type === "tag") {
+      if (order.tags.includes(action.value)) return "Already tagged";
+      order.tags.push(action.value);
+      return;
+    }
+    if (action.type !== "status") return "Orders cannot be changed that way";
+    const status = FULFILLMENT_STATUSES.find((value) => value === action.value);
+    if (!status) return `Orders cannot be marked ${action.value}`;
+    return moveFulfillment(order, status, actor);
+  },
+};
+
+// `{ "status": "Shipped" }` from the fulfilment menu
+export function parseFulfillment(
+  input: unknown
+): { status: FulfillmentStatus } | { error: string } {
+  const status =
+    typeof input === "object" && input !== null
+      ? (input as Record<string, unknown>).status
+      : undefined;
+  return FULFILLMENT_STATUSES.includes(status as FulfillmentStatus)
+    ? { status: status as FulfillmentStatus }
+    : { error: `Expected one of ${FULFILLMENT_STATUSES.join(", ")}` };
+}
@@ -0,0 +1,238 @@
+import { randomBytes } from "crypto";
+import { createCollection } from "../file-store";
+import { paymentMethodSeed } from "../mock-data/payment-methods";
+import { formatMoney } from "../money";
+import {
+  cardBrand,
+  passesLuhn,
+  verifyWebhookSignature,
+  type Charge,
+  type GatewayEvent,
+  type GatewayEventType,
+  type PaymentGateway,
+} from "./gateway";
+
+/**
+ * What happens when a token is charged. Test card numbers pick the outcome,
+ * like a real gateway's sandbox:
+ *
+ * - `4000 0000 0000 0002`: declined
+ * - `4000 0000 0000 9995`: declined for insufficient funds
+ * - `4000 0000 0000 3220`: pending at first, succeeds a few seconds later
+ * - any other valid number, e.g. `4242 4242 4242 4242`: succeeds
+ */
+type CardOutcome =
+  | "succeed"
+  | "decline"
+  | "insufficient-funds"
+  | "settle-later";
+
+const TEST_CARD_OUTCOMES: Record<string, CardOutcome> = {
+  "4000000000000002": "decline",
+  "4000000000009995": "insufficient-funds",
+  "4000000000003220": "settle-later",
+};
+
+const DECLINE_REASONS: Partial<Record<CardOutcome, string>> = {
+  decline: "Your card was declined.",
+  "insufficient-funds": "Your card has insufficient funds.",
+};
+
+interface FakeToken {
+  token: string;
+  outcome: CardOutcome;
+}
+
+interface FakeCharge extends Charge {
+  token: string;
+  idempotencyKey: string;
+}
+
+const newId = (prefix: string) =>
+  `${prefix}_${randomBytes(12).toString("hex")}`;
+
+export interface FakeGatewayOptions {
+  webhookSecret: string | null; // Null refuses every webhook event
+  /**
+   * Receives the events a real gateway would POST to the webhook route.
+   * Called in-process so the fake works without a public URL.
+   */
+  onEvent: (event: GatewayEvent) => Promise<void>;
+  settleAfterMs?: number; // How long "settle-later" charges stay pending
+}
+
+/**
+ * Gateway for development and tests. Tokens and charges are kept in the
+ * data directory, so they survive restarts like the records pointing at
+ * them; nothing leaves the machine.
+ */
+export function createFakeGateway({
+  webhookSecret,
+  onEvent,
+  settleAfterMs = 5000,
+}: FakeGatewayOptions): PaymentGateway {
+  // Starts out knowing the payment methods the app is seeded with
+  const tokens = createCollection<FakeToken>("fake-gateway-tokens", () =>
+    paymentMethodSeed.map((method) => ({
+      token: method.token,
+      outcome: "succeed",
+    }))
+  );
+  const charges = createCollection<FakeCharge>("fake-gateway-charges");
+
+  const publicCharge = (charge: FakeCharge): Charge => ({
+    id: charge.id,
+    amount: charge.amount,
+    status: charge.status,
+    refunded: charge.refunded,
+    failureReason: charge.failureReason,
+    created: charge.created,
+  });
+
+  function emit(type: GatewayEventType, chargeId: string) {
+    onEvent({
+      id: newId("evt"),
+      type,
+      chargeId,
+      created: new Date().toISOString(),
+    }).catch((err) => console.error("Payment event handling failed:", err));
+  }
+
+  // Completes a "settle-later" charge once its delay is up
+  async function settle(chargeId: string, now = Date.now()) {
+    const settled = await charges.update((rows) => {
+      const charge = rows.find((row) => row.id === chargeId);
+      if (
+        !charge ||
+        charge.status !== "pending" ||
+        Date.parse(charge.created) + settleAfterMs > now
+      ) {
+        return false;
+      }
+      charge.status = "succeeded";
+      return true;
+    });
+    if (settled) emit("charge.succeeded", chargeId);
+  }
+
+  return {
+    name: "Fake gateway",
+
+    async tokenizeCard(card) {
+      const number = card.number.replace(/[\s-]/g, "");
+      const brand = cardBrand(number);
+      if (!/^\d{12,19}$/.test(number) || !passesLuhn(number) || !brand) {
+        return { error: "Your card number is invalid." };
+      }
+      if (!/^\d{3,4}$/.test(card.cvc)) {
+        return { error: "Your card's security code is invalid." };
+      }
+      const now = new Date();
+      if (
+        card.expYear < now.getFullYear() ||
+        (card.expYear === now.getFullYear() &&
+          card.expMonth < now.getMonth() + 1)
+      ) {
+        return { error: "Your card has expired." };
+      }
+      const token = newId("tok");
+      await tokens.update((rows) => {
+        rows.push({ token, outcome: TEST_CARD_OUTCOMES[number] ?? "succeed" });
+      });
+      return {
+        card: {
+          token,
+          brand,
+          last4: number.slice(-4),
+          expMonth: card.expMonth,
+          expYear: card.expYear,
+        },
+      };
+    },
+
+    async charge(request) {
+      const outcome = (await tokens.find((row) => row.token === request.token))
+        ?.outcome;
+      const charge = await charges.update((rows) => {
+        const existing = rows.find(
+          (row) => row.idempotencyKey === request.idempotencyKey
+        );
+        if (existing) return existing;
+        const created: FakeCharge = {
+          id: newId("ch"),
+          token: request.token,
+          idempotencyKey: request.idempotencyKey,
+          amount: request.amount,
+          status:
+            outcome === "succeed"
+              ? "succeeded"
+              : outcome === "settle-later"
+              ? "pending"
+              : "failed",
+          refunded: 0,
+          failureReason: !outcome
+            ? "The payment method is no longer available."
+            : DECLINE_REASONS[outcome],
+          created: new Date().toISOString(),
+        };
+        rows.push(created);
+        return created;
+      });
+      if (charge.status === "pending") {
+        setTimeout(() => void settle(charge.id), settleAfterMs).unref();
+      }
+      return publicCharge(charge);
+    },
+
+    async getCharge(id) {
+      // Settles here too, in case the server restarted while it was pending
+      await settle(id);
+      const charge = await charges.find((row) => row.id === id);
+      return charge ? publicCharge(charge) : null;
+    },
+
+    async refund(chargeId, amount) {
+      const result = await charges.update((rows) => {
+        const charge = rows.find((row) => row.id === chargeId);
+        if (!charge) return { error: "No such charge." };
+        if (charge.status !== "succeeded") {
+          return { error: "Only successful charges can be refunded." };
+        }
+        const refundable = charge.amount.amount - charge.refunded;
+        if (amount.amount <= 0 || amount.amount > refundable) {
+          return {
+            error: `At most ${formatMoney({
+              amount: refundable,
+              currency: charge.amount.currency,
+            })} can be refunded.`,
+          };
+        }
+        charge.refunded += amount.amount;
+        return { charge: publicCharge(charge) };
+      });
+      if ("charge" in result) emit("charge.refunded", chargeId);
+      return result;
+    },
+
+    parseWebhook(body, signature) {
+      if (
+        !webhookSecret ||
+        !verifyWebhookSignature(webhookSecret, body, signature)
+      ) {
+        return null;
+      }
+      try {
+        const event = JSON.parse(body) as GatewayEvent;
+        return typeof event?.id === "string" &&
+          typeof event.chargeId === "string" &&
+          ["charge.succeeded", "charge.failed", "charge.refunded"].includes(
+            event.type
+          )
+          ? event
+          : null;
+      } catch {
+        return null;
+      }
+    },
+  };
+}
@@ -0,0 +1,142 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { Money } from "../money";
+
+export type CardBrand = "Visa" | "Mastercard" | "American Express" | "Discover";
+
+// Raw card details; these go straight to the gateway and are never stored
+export interface CardDetails {
+  number: string;
+  expMonth: number; // 1-12
+  expYear: number; // Four digits
+  cvc: string;
+  holder: string;
+}
+
+// What the gateway hands back for a card: a token to charge and display data
+export interface CardToken {
+  token: string;
+  brand: CardBrand;
+  last4: string;
+  expMonth: number;
+  expYear: number;
+}
+
+/**
+ * A charge as the gateway sees it. Pending charges settle later and the
+ * gateway reports the outcome through a webhook event.
+ */
+export type ChargeStatus = "pending" | "succeeded" | "failed";
+
+export interface Charge {
+  id: string;
+  amount: Money;
+  status: ChargeStatus;
+  refunded: number; // Minor units refunded so far
+  failureReason?: string;
+  created: string; // ISO timestamp
+}
+
+export interface ChargeRequest {
+  token: string;
+  amount: Money;
+  description: string;
+  // Retrying with the same key returns the first charge instead of a new one
+  idempotencyKey: string;
+}
+
+export type GatewayEventType =
+  | "charge.succeeded"
+  | "charge.failed"
+  | "charge.refunded";
+
+export interface GatewayEvent {
+  id: string;
+  type: GatewayEventType;
+  chargeId: string;
+  created: string; // ISO timestamp
+}
+
+/**
+ * What the billing code needs from a card processor. Calls that can be
+ * turned down return `{ error }` with a message fit to show the user.
+ */
+export interface PaymentGateway {
+  name: string;
+  tokenizeCard: (
+    card: CardDetails
+  ) => Promise<{ card: CardToken } | { error: string }>;
+  charge: (request: ChargeRequest) => Promise<Charge>;
+  getCharge: (id: string) => Promise<Charge | null>;
+  refund: (
+    chargeId: string,
+    amount: Money
+  ) => Promise<{ charge: Charge } | { error: string }>;
+  // Null when the signature does not match the body
+  parseWebhook: (body: string, signature: string | null) => GatewayEvent | null;
+}
+
+// Events older than this are refused so a captured request cannot be replayed
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+const hmac = (secret: string, timestamp: number, body: string) =>
+  createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+
+/**
+ * Value of the `X-Payment-Signature` header for `body`:
+ * `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`.
+ */
+export function signWebhook(
+  secret: string,
+  body: string,
+  now = new Date()
+): string {
+  const timestamp = Math.floor(now.getTime() / 1000);
+  return `t=${timestamp},v1=${hmac(secret, timestamp, body)}`;
+}
+
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  signature: string | null,
+  now = new Date()
+): boolean {
+  if (!signature) return false;
+  const parts = new Map(
+    signature.split(",").map((part) => {
+      const [key, ...value] = part.trim().split("=");
+      return [key, value.join("=")] as const;
+    })
+  );
+  const timestamp = Number(parts.get("t"));
+  const given = Buffer.from(parts.get("v1") ?? "", "hex");
+  if (!Number.isInteger(timestamp)) return false;
+  if (
+    Math.abs(now.getTime() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS
+  ) {
+    return false;
+  }
+  const expected = Buffer.from(hmac(secret, timestamp, body), "hex");
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+// Card numbers that fail the Luhn checksum are typos
+export function passesLuhn(number: string): boolean {
+  let sum = 0;
+  for (let index = 0; index < number.length; index++) {
+    let digit = Number(number[number.length - 1 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return number.length > 0 && sum % 10 === 0;
+}
+
+export function cardBrand(number: string): CardBrand | null {
+  if (/^4/.test(number)) return "Visa";
+  if (/^(5[1-5]|2[2-7])/.test(number)) return "Mastercard";
+  if (/^3[47]/.test(number)) return "American Express";
+  if (/^6(011|5)/.test(number)) return "Discover";
+  return null;
+}
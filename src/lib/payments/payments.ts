@@ -0,0 +1,492 @@
+import { randomUUID } from "crypto";
+import { getSubscription, listSubscriptions } from "../billing/subscriptions";
+import { createCollection } from "../file-store";
+import { invoiceBalance, isOpen } from "../invoice-lifecycle";
+import { getInvoice, recordPayment } from "../invoices";
+import {
+  paymentMethodLabel,
+  paymentMethodSeed,
+  type SavedCard,
+  type SavedPaymentMethod,
+} from "../mock-data/payment-methods";
+import type {
+  OrderEvent,
+  Transaction,
+  TransactionStatus,
+} from "../mock-data/transactions";
+import { toMinorUnits, type CurrencyCode } from "../money";
+import { calculateOrderTotals } from "../order-totals";
+import { applyRefund, recordRefund } from "../orders";
+import {
+  createTransaction,
+  formatTransactionDate,
+  listTransactions,
+  updateTransaction,
+} from "../transactions";
+import { createFakeGateway } from "./fake-gateway";
+import type {
+  CardDetails,
+  Charge,
+  GatewayEvent,
+  PaymentGateway,
+} from "./gateway";
+
+/**
+ * Saved payment methods and the charges made with them. Cards are handed to
+ * the gateway once and only its token is kept. Configured through:
+ *
+ * - `PAYMENT_WEBHOOK_SECRET`: signs the events posted to
+ *   `/api/payments/webhook`; `whsec_dev` by default, while production
+ *   refuses every event until a secret is set
+ *
+ * The fake gateway is the only one so far; a real provider implements
+ * `PaymentGateway` and is picked in `gateway()` below.
+ */
+
+export type PaymentResult<T> =
+  | T
+  | { error: string; status: 400 | 402 | 404 | 409 };
+
+const methods = createCollection<SavedPaymentMethod>(
+  "payment-methods",
+  () => paymentMethodSeed
+);
+
+// Shared across separately bundled route handlers, like the mail provider
+const globalForPayments = globalThis as typeof globalThis & {
+  paymentGateway?: PaymentGateway;
+};
+
+// Null in production without a secret, so every event is refused
+function webhookSecret(): string | null {
+  const secret = process.env.PAYMENT_WEBHOOK_SECRET;
+  if (secret) return secret;
+  return process.env.NODE_ENV === "production" ? null : "whsec_dev";
+}
+
+// Whether the webhook route can check signatures at all
+export function isPaymentWebhookConfigured(): boolean {
+  return webhookSecret() !== null;
+}
+
+function gateway(): PaymentGateway {
+  return (globalForPayments.paymentGateway ??= createFakeGateway({
+    webhookSecret: webhookSecret(),
+    onEvent: handleGatewayEvent,
+  }));
+}
+
+// Actor recorded for payments the gateway settles on its own
+const SYSTEM_ACTOR = "System";
+
+const methodNotFound = {
+  error: "Payment method not found",
+  status: 404 as const,
+};
+
+// The default first, then oldest first
+export async function listPaymentMethods(
+  subscriptionId: string
+): Promise<SavedPaymentMethod[]> {
+  return (await methods.all())
+    .filter((method) => method.subscriptionId === subscriptionId)
+    .sort(
+      (a, b) =>
+        Number(b.isDefault) - Number(a.isDefault) ||
+        a.createdAt.localeCompare(b.createdAt)
+    );
+}
+
+/**
+ * Tokenizes the card with the gateway and saves the result. The first
+ * method saved for a subscription becomes its default.
+ */
+export async function addCard(
+  subscriptionId: string,
+  card: CardDetails
+): Promise<PaymentResult<{ method: SavedPaymentMethod }>> {
+  if (!(await getSubscription(subscriptionId))) {
+    return { error: "Subscription not found", status: 404 };
+  }
+  const tokenized = await gateway().tokenizeCard(card);
+  if ("error" in tokenized) return { error: tokenized.error, status: 402 };
+
+  return methods.update((rows) => {
+    const method: SavedCard = {
+      id: `pm_${randomUUID()}`,
+      subscriptionId,
+      token: tokenized.card.token,
+      isDefault: !rows.some((row) => row.subscriptionId === subscriptionId),
+      createdAt: new Date().toISOString(),
+      type: "card",
+      brand: tokenized.card.brand,
+      last4: tokenized.card.last4,
+      expMonth: tokenized.card.expMonth,
+      expYear: tokenized.card.expYear,
+      holder: card.holder,
+    };
+    rows.push(method);
+    return { method };
+  });
+}
+
+export function setDefaultPaymentMethod(
+  subscriptionId: string,
+  id: string
+): Promise<PaymentResult<{ method: SavedPaymentMethod }>> {
+  return methods.update((rows) => {
+    const method = rows.find(
+      (row) => row.id === id && row.subscriptionId === subscriptionId
+    );
+    if (!method) return methodNotFound;
+    for (const row of rows) {
+      if (row.subscriptionId === subscriptionId) {
+        row.isDefault = row === method;
+      }
+    }
+    return { method };
+  });
+}
+
+// Removing the default hands the role to the newest remaining method
+export function removePaymentMethod(
+  subscriptionId: string,
+  id: string
+): Promise<PaymentResult<{ method: SavedPaymentMethod }>> {
+  return methods.update((rows) => {
+    const index = rows.findIndex(
+      (row) => row.id === id && row.subscriptionId === subscriptionId
+    );
+    if (index === -1) return methodNotFound;
+    const [method] = rows.splice(index, 1);
+    if (method.isDefault) {
+      const next = rows
+        .filter((row) => row.subscriptionId === subscriptionId)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+      if (next) next.isDefault = true;
+    }
+    return { method };
+  });
+}
+
+function transactionStatus(charge: Charge): TransactionStatus {
+  if (charge.status === "pending") return "Pending";
+  if (charge.status === "failed") return "Failed";
+  return charge.refunded >= charge.amount.amount ? "Refunded" : "Completed";
+}
+
+// Minor units the transaction took, before refunds
+const chargedAmount = (transaction: Transaction) =>
+  calculateOrderTotals(
+    transaction.items,
+    transaction.vatRate,
+    transaction.currency
+  ).total.amount;
+
+// What the order history gains once a charge has gone through or failed
+function settlementEvents(charge: Charge, paymentMethod: string): OrderEvent[] {
+  const at = new Date().toISOString();
+  if (charge.status === "succeeded") {
+    return [
+      {
+        type: "paid",
+        at,
+        actor: SYSTEM_ACTOR,
+        amount: charge.amount.amount,
+        note: `via ${paymentMethod}`,
+      },
+    ];
+  }
+  if (charge.status === "failed") {
+    return [
+      {
+        type: "payment-failed",
+        at,
+        actor: SYSTEM_ACTOR,
+        ...(charge.failureReason ? { note: charge.failureReason } : {}),
+      },
+    ];
+  }
+  return [];
+}
+
+// Puts a settled charge on the invoice's payment ledger
+function recordChargePayment(transaction: Transaction, actor: string) {
+  const { charge } = transaction;
+  if (!charge) return Promise.resolve(null);
+  return recordPayment(
+    String(charge.invoiceId),
+    {
+      amount: chargedAmount(transaction),
+      method: "Card",
+      reference: `${charge.paymentMethod} (${charge.chargeId})`,
+    },
+    actor
+  );
+}
+
+/**
+ * Charges what is left to pay on a subscription invoice to `methodId`, or
+ * to the subscription's default method. The attempt is kept as a
+ * transaction whatever the outcome; a successful charge is recorded on the
+ * invoice straight away, a pending one when the gateway reports back.
+ */
+export async function chargeInvoice(
+  invoiceId: string,
+  methodId: string | undefined,
+  actor: string
+): Promise<PaymentResult<{ transaction: Transaction }>> {
+  const invoice = await getInvoice(invoiceId);
+  if (!invoice) return { error: "Invoice not found", status: 404 };
+  if (!isOpen(invoice)) {
+    return {
+      error: `A ${invoice.status.toLowerCase()} invoice cannot be charged`,
+      status: 409,
+    };
+  }
+  const subscription = (await listSubscriptions()).find((row) =>
+    row.invoices.some((entry) => entry.invoiceId === invoice.id)
+  );
+  if (!subscription) {
+    return {
+      error: "Only subscription invoices can be charged to a saved method",
+      status: 409,
+    };
+  }
+  const saved = await listPaymentMethods(subscription.id);
+  const method = methodId
+    ? saved.find((row) => row.id === methodId)
+    : saved.find((row) => row.isDefault);
+  if (!method) {
+    return methodId
+      ? methodNotFound
+      : { error: "No payment method is saved for this invoice", status: 409 };
+  }
+
+  const attempts = (await listTransactions()).filter(
+    (row) => row.charge?.invoiceId === invoice.id
+  );
+  if (attempts.some((row) => row.status === "Pending")) {
+    return {
+      error: "A payment for this invoice is still being processed",
+      status: 409,
+    };
+  }
+
+  const { due } = invoiceBalance(invoice);
+  // A retried request gets the first charge back instead of paying twice
+  const charge = await gateway().charge({
+    token: method.token,
+    amount: due,
+    description: `Invoice ${invoice.number}`,
+    idempotencyKey: `invoice-${invoice.id}-${attempts.length + 1}`,
+  });
+  const existing = attempts.find((row) => row.charge?.chargeId === charge.id);
+  if (existing) return { transaction: existing };
+
+  const { billingDetails } = subscription;
+  const paymentMethod = paymentMethodLabel(method);
+  const transaction = await createTransaction({
+    orderId: invoice.number,
+    customer: subscription.customer,
+    ...(invoice.customerId ? { customerId: invoice.customerId } : {}),
+    email: billingDetails.email,
+    phone: "",
+    country: billingDetails.country,
+    address: subscription.customerAddress,
+    status: transactionStatus(charge),
+    dueDate: formatTransactionDate(new Date(charge.created)),
+    currency: due.currency,
+    items: [
+      {
+        product: `Invoice ${invoice.number}`,
+        quantity: 1,
+        unitCost: due.amount,
+        discount: 0,
+      },
+    ],
+    vatRate: 0, // Already included in the invoice total
+    placedAt: charge.created,
+    // Nothing ships for a subscription, so there is no fulfilment
+    refunds: [],
+    events: [
+      {
+        type: "placed",
+        at: charge.created,
+        actor,
+        note: `Invoice ${invoice.number}`,
+      },
+      ...settlementEvents(charge, paymentMethod),
+    ],
+    tags: [],
+    charge: {
+      gateway: gateway().name,
+      chargeId: charge.id,
+      invoiceId: invoice.id,
+      paymentMethod,
+      refunded: charge.refunded,
+      failureReason: charge.failureReason,
+    },
+  });
+
+  if (charge.status === "failed") {
+    return {
+      error: charge.failureReason ?? "The payment was declined",
+      status: 402,
+    };
+  }
+  if (charge.status === "succeeded") {
+    await recordChargePayment(transaction, actor);
+  }
+  return { transaction };
+}
+
+// Who asked for the refunds in flight, by charge; the gateway's event can
+// arrive before the refund request returns
+const refundRequesters = new Map<string, string>();
+
+/**
+ * Brings the transaction for `chargeId` in line with the gateway, which is
+ * the source of truth; safe to run any number of times.
+ */
+async function syncCharge(chargeId: string): Promise<Transaction | null> {
+  const charge = await gateway().getCharge(chargeId);
+  if (!charge) return null;
+  const synced = await updateTransaction(
+    (row) => row.charge?.chargeId === chargeId,
+    (transaction) => {
+      if (!transaction.charge) return null;
+      const wasPending = transaction.status === "Pending";
+      const settled = wasPending && charge.status === "succeeded";
+      if (wasPending) {
+        transaction.events.push(
+          ...settlementEvents(charge, transaction.charge.paymentMethod)
+        );
+      }
+      const newlyRefunded = charge.refunded - transaction.charge.refunded;
+      if (newlyRefunded > 0) {
+        applyRefund(
+          transaction,
+          newlyRefunded,
+          refundRequesters.get(chargeId) ?? SYSTEM_ACTOR
+        );
+      }
+      transaction.status = transactionStatus(charge);
+      transaction.charge.refunded = charge.refunded;
+      transaction.charge.failureReason = charge.failureReason;
+      return { transaction, settled };
+    }
+  );
+  if (!synced) return null;
+  if (synced.settled) {
+    await recordChargePayment(synced.transaction, SYSTEM_ACTOR);
+  }
+  return synced.transaction;
+}
+
+// Events only say which charge changed; the details come from the gateway
+export async function handleGatewayEvent(event: GatewayEvent): Promise<void> {
+  await syncCharge(event.chargeId);
+}
+
+// Null when the signature does not match
+export function parseGatewayEvent(
+  body: string,
+  signature: string | null
+): GatewayEvent | null {
+  return gateway().parseWebhook(body, signature);
+}
+
+/**
+ * Refunds `amount` minor units of a transaction, everything not yet
+ * refunded when omitted. Gateway payments are refunded through the
+ * gateway; any other payment is recorded as paid back by hand. The invoice
+ * keeps its payment; refunds are tracked on the transaction.
+ */
+export async function refundTransaction(
+  transaction: Transaction,
+  amount: number | undefined,
+  actor: string
+): Promise<PaymentResult<{ transaction: Transaction }>> {
+  const { charge } = transaction;
+  if (!charge) {
+    const result = await recordRefund(String(transaction.id), amount, actor);
+    return "error" in result ? result : { transaction: result.order };
+  }
+  if (transaction.status !== "Completed") {
+    return {
+      error: `A ${transaction.status.toLowerCase()} payment cannot be refunded`,
+      status: 409,
+    };
+  }
+  refundRequesters.set(charge.chargeId, actor);
+  try {
+    const result = await gateway().refund(charge.chargeId, {
+      amount: amount ?? chargedAmount(transaction) - charge.refunded,
+      currency: transaction.currency,
+    });
+    if ("error" in result) return { error: result.error, status: 409 };
+    const synced = await syncCharge(charge.chargeId);
+    return { transaction: synced ?? transaction };
+  } finally {
+    refundRequesters.delete(charge.chargeId);
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+const MAX_HOLDER_LENGTH = 80;
+
+/**
+ * Validates card details from the Add Card form. `expiry` is "MM/YY"; the
+ * number itself is checked by the gateway.
+ */
+export function parseCardDetails(
+  input: unknown
+): { card: CardDetails } | { error: string } {
+  if (!isRecord(input)) return { error: "Expected card details" };
+  const holder =
+    typeof input.holder === "string"
+      ? input.holder.trim().slice(0, MAX_HOLDER_LENGTH)
+      : "";
+  if (!holder) return { error: "Enter the name on the card" };
+  if (typeof input.number !== "string" || !input.number.trim()) {
+    return { error: "Enter the card number" };
+  }
+  const expiry =
+    typeof input.expiry === "string"
+      ? /^(\d{2})\s*\/\s*(\d{2})$/.exec(input.expiry.trim())
+      : null;
+  const expMonth = expiry ? Number(expiry[1]) : 0;
+  if (!expiry || expMonth < 1 || expMonth > 12) {
+    return { error: "Enter the expiry date as MM/YY" };
+  }
+  return {
+    card: {
+      number: input.number,
+      expMonth,
+      expYear: 2000 + Number(expiry[2]),
+      cvc: typeof input.cvc === "string" ? input.cvc.trim() : "",
+      holder,
+    },
+  };
+}
+
+// `{ "amount": "12.50" }`, or `{}` to refund the rest of the payment
+export function parseRefund(
+  input: unknown,
+  currency: CurrencyCode
+): { amount: number | undefined } | { error: string } {
+  if (!isRecord(input)) return { error: "Expected a refund" };
+  if (input.amount === undefined || input.amount === "") {
+    return { amount: undefined };
+  }
+  const amount =
+    typeof input.amount === "string"
+      ? toMinorUnits(input.amount, currency)
+      : NaN;
+  if (!(amount > 0)) return { error: "Expected a positive amount" };
+  return { amount };
+}
@@ -0,0 +1,158 @@
+// Minimal PDF writer: text in the standard Helvetica fonts, lines and filled
+// rectangles on A4 pages. Nothing is embedded, so files stay a few KB.
+
+import { encodeWinAnsi, FONT_NAMES, textWidth, type PdfFont } from "./fonts";
+
+export { canEncodeWinAnsi, textWidth, type PdfFont } from "./fonts";
+
+export type PdfColor = [number, number, number]; // 0-255 per channel
+
+export interface TextOptions {
+  font?: PdfFont;
+  size?: number; // Points, defaults to 10
+  color?: PdfColor;
+  align?: "left" | "right" | "center"; // Relative to `x`
+}
+
+/**
+ * One page. Coordinates are in points from the top-left corner, as on
+ * screen; `y` for text is the baseline.
+ */
+export interface PdfPage {
+  width: number;
+  height: number;
+  text: (x: number, y: number, text: string, options?: TextOptions) => void;
+  line: (
+    x1: number,
+    y1: number,
+    x2: number,
+    y2: number,
+    options?: { color?: PdfColor; width?: number }
+  ) => void;
+  rect: (
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    fill: PdfColor
+  ) => void;
+}
+
+export interface PdfDocument {
+  addPage: () => PdfPage;
+  pages: () => PdfPage[];
+  toBytes: () => Uint8Array;
+}
+
+// A4 in points
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+const FONT_KEYS: Record<PdfFont, string> = { regular: "F1", bold: "F2" };
+
+// Two decimals are plenty for positions and keep the streams short
+const num = (value: number) => String(Math.round(value * 100) / 100);
+
+const colorOperands = ([r, g, b]: PdfColor) =>
+  [r, g, b].map((channel) => num(channel / 255)).join(" ");
+
+// Hex strings need no escaping, whatever the text contains
+const hexString = (text: string) =>
+  `<${encodeWinAnsi(text)
+    .map((code) => code.toString(16).padStart(2, "0"))
+    .join("")}>`;
+
+export function createPdfDocument(info: { title: string }): PdfDocument {
+  const streams: string[][] = [];
+  const pages: PdfPage[] = [];
+
+  function addPage(): PdfPage {
+    const ops: string[] = [];
+    streams.push(ops);
+    const page: PdfPage = {
+      width: PAGE_WIDTH,
+      height: PAGE_HEIGHT,
+      text(x, y, text, options = {}) {
+        const font = options.font ?? "regular";
+        const size = options.size ?? 10;
+        const width = textWidth(text, font, size);
+        const left =
+          options.align === "right"
+            ? x - width
+            : options.align === "center"
+            ? x - width / 2
+            : x;
+        ops.push(
+          `BT /${FONT_KEYS[font]} ${num(size)} Tf ${colorOperands(
+            options.color ?? [0, 0, 0]
+          )} rg ${num(left)} ${num(PAGE_HEIGHT - y)} Td ${hexString(
+            text
+          )} Tj ET`
+        );
+      },
+      line(x1, y1, x2, y2, options = {}) {
+        ops.push(
+          `${num(options.width ?? 1)} w ${colorOperands(
+            options.color ?? [0, 0, 0]
+          )} RG ${num(x1)} ${num(PAGE_HEIGHT - y1)} m ${num(x2)} ${num(
+            PAGE_HEIGHT - y2
+          )} l S`
+        );
+      },
+      rect(x, y, width, height, fill) {
+        ops.push(
+          `${colorOperands(fill)} rg ${num(x)} ${num(
+            PAGE_HEIGHT - y - height
+          )} ${num(width)} ${num(height)} re f`
+        );
+      },
+    };
+    pages.push(page);
+    return page;
+  }
+
+  function toBytes(): Uint8Array {
+    // Objects 1-4 are fixed; each page adds a page object and its stream
+    const objects: string[] = [];
+    const pageIds = streams.map((_, index) => 5 + index * 2);
+    objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+    objects[2] = `<< /Type /Pages /Kids [${pageIds
+      .map((id) => `${id} 0 R`)
+      .join(" ")}] /Count ${pageIds.length} >>`;
+    objects[3] = `<< ${(["regular", "bold"] as PdfFont[])
+      .map(
+        (font) =>
+          `/${FONT_KEYS[font]} << /Type /Font /Subtype /Type1 /BaseFont /${FONT_NAMES[font]} /Encoding /WinAnsiEncoding >>`
+      )
+      .join(" ")} >>`;
+    objects[4] = `<< /Title ${hexString(info.title)} /Producer (TailAdmin) >>`;
+    streams.forEach((ops, index) => {
+      const content = ops.join("\n");
+      objects[
+        pageIds[index]
+      ] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(PAGE_WIDTH)} ${num(
+        PAGE_HEIGHT
+      )}] /Resources << /Font 3 0 R >> /Contents ${pageIds[index] + 1} 0 R >>`;
+      objects[
+        pageIds[index] + 1
+      ] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+    });
+
+    // Every character below is ASCII, so string offsets are byte offsets
+    let output = "%PDF-1.4\n";
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = output.length;
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+    const xref = output.length;
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 4 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+    return new TextEncoder().encode(output);
+  }
+
+  return { addPage, pages: () => [...pages], toBytes };
+}
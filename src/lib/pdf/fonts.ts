@@ -0,0 +1,115 @@
+// Glyph metrics for the two standard PDF fonts the writer uses, so text can
+// be measured and right-aligned without embedding a font file
+
+export type PdfFont = "regular" | "bold";
+
+export const FONT_NAMES: Record<PdfFont, string> = {
+  regular: "Helvetica",
+  bold: "Helvetica-Bold",
+};
+
+// Advance widths in 1/1000 em for characters 32 (space) to 126 (~)
+const ASCII_WIDTHS: Record<PdfFont, number[]> = {
+  regular: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278,
+    278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584,
+    584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556,
+    833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+    278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222,
+    500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500,
+    500, 334, 260, 334, 584,
+  ],
+  bold: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278,
+    278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584,
+    584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611,
+    833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333,
+    278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278,
+    556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556,
+    500, 389, 280, 389, 584,
+  ],
+};
+
+// Close enough for currency signs, dashes and accented letters
+const FALLBACK_WIDTH = 556;
+
+// Characters WinAnsiEncoding places in 0x80-0x9F; Latin-1 maps to itself
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80,
+  "‚": 0x82,
+  ƒ: 0x83,
+  "„": 0x84,
+  "…": 0x85,
+  "†": 0x86,
+  "‡": 0x87,
+  ˆ: 0x88,
+  "‰": 0x89,
+  Š: 0x8a,
+  "‹": 0x8b,
+  Œ: 0x8c,
+  Ž: 0x8e,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+  "˜": 0x98,
+  "™": 0x99,
+  š: 0x9a,
+  "›": 0x9b,
+  œ: 0x9c,
+  ž: 0x9e,
+  Ÿ: 0x9f,
+};
+
+// Byte code of one character, null when WinAnsiEncoding lacks it
+function winAnsiCode(char: string): number | null {
+  if (char === "\u202f" || char === "\u2009") return 0x20;
+  const code = char.codePointAt(0) ?? 0;
+  if ((code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff)) {
+    return code;
+  }
+  return WIN_ANSI_EXTRAS[char] ?? null;
+}
+
+// Whether `text` prints as written, without falling back to other characters
+export function canEncodeWinAnsi(text: string): boolean {
+  return Array.from(text.normalize("NFC")).every(
+    (char) => winAnsiCode(char) !== null
+  );
+}
+
+/**
+ * Byte codes for `text` in WinAnsiEncoding. Narrow and thin spaces, which
+ * number formatting uses in some locales, become plain spaces, and letters
+ * the encoding lacks lose their accents ("Dvořák" prints as "Dvorák").
+ * Anything else, such as Cyrillic or CJK text, becomes "?": the standard
+ * fonts have no glyphs for it.
+ */
+export function encodeWinAnsi(text: string): number[] {
+  return Array.from(text.normalize("NFC")).flatMap((char) => {
+    const code = winAnsiCode(char);
+    if (code !== null) return [code];
+    const base = Array.from(
+      char.normalize("NFKD").replace(/\p{M}/gu, "") || char
+    ).map(winAnsiCode);
+    return base.every((part) => part !== null) ? base : [0x3f];
+  });
+}
+
+// Width of `text` in points at `size`
+export function textWidth(text: string, font: PdfFont, size: number): number {
+  const units = encodeWinAnsi(text).reduce(
+    (sum, code) =>
+      sum +
+      (code >= 0x20 && code < 0x7f
+        ? ASCII_WIDTHS[font][code - 0x20]
+        : code === 0xa0
+        ? ASCII_WIDTHS[font][0]
+        : FALLBACK_WIDTH),
+    0
+  );
+  return (units * size) / 1000;
+}
@@ -0,0 +1,448 @@
+import { randomUUID } from "crypto";
+import type { BulkAdapter } from "./bulk-runner";
+import { createBlobStore, createCollection } from "./file-store";
+import {
+  productCategorySeed,
+  productColumns,
+  productSeed,
+  stockStatus,
+  type Product,
+  type ProductStatus,
+  type ProductVariant,
+} from "./mock-data/products";
+import { DEFAULT_CURRENCY, toMinorUnits } from "./money";
+import { runTableQuery, type TablePage, type TableQuery } from "./table-query";
+
+const products = createCollection<Product>("products", () => productSeed);
+const categories = createCollection<string>(
+  "product-categories",
+  () => productCategorySeed
+);
+const imageFiles = createBlobStore("product-images");
+
+export const MAX_PRODUCT_IMAGES = 8;
+export const MAX_PRODUCT_IMAGE_SIZE = 5 * 1024 * 1024;
+
+// Served inline by the image route; SVG is left out as it can carry scripts
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/webp": "webp",
+};
+
+const IMAGE_URL_PREFIX = "/api/products/images/";
+
+export function listProducts(): Promise<Product[]> {
+  return products.all();
+}
+
+// `id` comes from the URL; null when it names no product
+export async function getProduct(id: string): Promise<Product | null> {
+  const productId = Number(id);
+  if (!Number.isInteger(productId)) return null;
+  return (await products.find((row) => row.id === productId)) ?? null;
+}
+
+export async function queryProducts(
+  query: TableQuery
+): Promise<TablePage<Product>> {
+  return runTableQuery(await products.all(), productColumns, query);
+}
+
+// Products at or below their low-stock threshold, emptiest first
+export async function listLowStockProducts(): Promise<Product[]> {
+  return (await products.all())
+    .filter((product) => stockStatus(product) !== "In Stock")
+    .sort((a, b) => a.stock - b.stock);
+}
+
+export async function listCategories(): Promise<string[]> {
+  return [...(await categories.all())].sort((a, b) => a.localeCompare(b));
+}
+
+export type CategoryResult =
+  | { category: string }
+  | { error: string; status: 400 | 404 | 409 };
+
+export function addCategory(name: string): Promise<CategoryResult> {
+  const category = name.trim();
+  if (!category) {
+    return Promise.resolve({ error: "A name is required", status: 400 });
+  }
+  return categories.update((rows) => {
+    if (rows.some((row) => row.toLowerCase() === category.toLowerCase())) {
+      return { error: `"${category}" already exists`, status: 409 as const };
+    }
+    rows.push(category);
+    return { category };
+  });
+}
+
+// Only categories no product is filed under can be deleted
+export async function deleteCategory(name: string): Promise<CategoryResult> {
+  const used = await products.find((row) => row.category === name);
+  if (used) {
+    return {
+      error: `"${name}" still has products, such as ${used.name}`,
+      status: 409,
+    };
+  }
+  return categories.update((rows) => {
+    const index = rows.indexOf(name);
+    if (index === -1) {
+      return { error: "Category not found", status: 404 as const };
+    }
+    rows.splice(index, 1);
+    return { category: name };
+  });
+}
+
+/**
+ * Stores uploaded images and returns their URLs, to be sent back with the
+ * product they belong to.
+ */
+export async function saveProductImages(
+  files: File[]
+): Promise<{ images: string[] } | { error: string }> {
+  if (files.length === 0) return { error: "Choose an image to upload" };
+  if (files.length > MAX_PRODUCT_IMAGES) {
+    return { error: `Upload up to ${MAX_PRODUCT_IMAGES} images at a time` };
+  }
+  const unsupported = files.find(
+    (file) => !Object.hasOwn(IMAGE_EXTENSIONS, file.type)
+  );
+  if (unsupported) {
+    return { error: `"${unsupported.name}" is not a PNG, JPG, GIF or WebP` };
+  }
+  const tooLarge = files.find((file) => file.size > MAX_PRODUCT_IMAGE_SIZE);
+  if (tooLarge) return { error: `"${tooLarge.name}" is larger than 5 MB` };
+
+  const images: string[] = [];
+  for (const file of files) {
+    const id = `${randomUUID()}.${IMAGE_EXTENSIONS[file.type]}`;
+    await imageFiles.write(id, new Uint8Array(await file.arrayBuffer()));
+    images.push(`${IMAGE_URL_PREFIX}${id}`);
+  }
+  return { images };
+}
+
+// Id of an uploaded image from its URL; null for the bundled images
+function uploadedImageId(url: string): string | null {
+  if (!url.startsWith(IMAGE_URL_PREFIX)) return null;
+  const id = url.slice(IMAGE_URL_PREFIX.length);
+  return /^[0-9a-f-]{36}\.(png|jpg|gif|webp)$/.test(id) ? id : null;
+}
+
+export async function getProductImage(
+  id: string
+): Promise<{ data: Buffer; type: string } | null> {
+  if (!uploadedImageId(`${IMAGE_URL_PREFIX}${id}`)) return null;
+  const data = await imageFiles.read(id);
+  const extension = id.slice(id.lastIndexOf(".") + 1);
+  const type = Object.keys(IMAGE_EXTENSIONS).find(
+    (key) => IMAGE_EXTENSIONS[key] === extension
+  );
+  return data && type ? { data, type } : null;
+}
+
+async function removeImages(urls: string[]) {
+  for (const url of urls) {
+    const id = uploadedImageId(url);
+    if (id) await imageFiles.remove(id);
+  }
+}
+
+export interface ProductInput {
+  name: string;
+  sku: string;
+  description: string;
+  category: string;
+  brand: string;
+  price: number; // Minor units of the store currency
+  stock: number; // Ignored when there are variants
+  lowStockThreshold: number;
+  variants: ProductVariant[];
+  images: string[];
+  status: ProductStatus;
+}
+
+export type ProductResult =
+  | { product: Product }
+  | { error: string; status: 400 | 404 | 409 };
+
+const notFound = { error: "Product not found", status: 404 as const };
+
+// "19 Oct, 2026", the style the product dates are stored in
+function formatProductDate(date: Date): string {
+  const day = String(date.getDate()).padStart(2, "0");
+  const month = date.toLocaleDateString("en-US", { month: "short" });
+  return `${day} ${month}, ${date.getFullYear()}`;
+}
+
+/**
+ * Problems a product input only shows next to the stored rows: taken SKUs
+ * and images that are neither fresh uploads nor already on the product.
+ */
+function conflictWith(
+  rows: Product[],
+  input: ProductInput,
+  current?: Product
+): string | null {
+  const others = rows.filter((row) => row !== current);
+  const taken = new Set(
+    others.flatMap((row) => [
+      row.sku.toLowerCase(),
+      ...row.variants.map((variant) => variant.sku.toLowerCase()),
+    ])
+  );
+  const sku = [input.sku, ...input.variants.map((variant) => variant.sku)].find(
+    (value) => taken.has(value.toLowerCase())
+  );
+  if (sku) return `SKU ${sku} is already in use`;
+
+  for (const image of input.images) {
+    if (current?.images.includes(image)) continue;
+    if (
+      !uploadedImageId(image) ||
+      others.some((row) => row.images.includes(image))
+    ) {
+      return "Images must be uploaded through the product form";
+    }
+  }
+  return null;
+}
+
+// The stored fields a product input sets; stock is totalled over variants
+function productFields(input: ProductInput): Omit<Product, "id" | "createdAt"> {
+  return {
+    name: input.name,
+    sku: input.sku,
+    description: input.description,
+    images: input.images,
+    category: input.category,
+    brand: input.brand,
+    price: { amount: input.price, currency: DEFAULT_CURRENCY },
+    stock:
+      input.variants.length > 0
+        ? input.variants.reduce((sum, variant) => sum + variant.stock, 0)
+        : input.stock,
+    lowStockThreshold: input.lowStockThreshold,
+    variants: input.variants,
+    status: input.status,
+  };
+}
+
+// Keeps the category list complete when a product is filed somewhere new
+async function rememberCategory(name: string) {
+  await categories.update((rows) => {
+    if (!rows.includes(name)) rows.push(name);
+  });
+}
+
+export async function createProduct(
+  input: ProductInput
+): Promise<ProductResult> {
+  const result = await products.update<ProductResult>((rows) => {
+    const conflict = conflictWith(rows, input);
+    if (conflict) return { error: conflict, status: 409 };
+    const product: Product = {
+      id: rows.reduce((max, row) => Math.max(max, row.id), 0) + 1,
+      ...productFields(input),
+      createdAt: formatProductDate(new Date()),
+    };
+    rows.push(product);
+    return { product };
+  });
+  if ("product" in result) await rememberCategory(result.product.category);
+  return result;
+}
+
+export async function updateProduct(
+  id: string,
+  input: ProductInput
+): Promise<ProductResult> {
+  let removedImages: string[] = [];
+  const result = await products.update<ProductResult>((rows) => {
+    const product = rows.find((row) => String(row.id) === id);
+    if (!product) return notFound;
+    const conflict = conflictWith(rows, input, product);
+    if (conflict) return { error: conflict, status: 409 };
+    removedImages = product.images.filter(
+      (image) => !input.images.includes(image)
+    );
+    Object.assign(product, productFields(input));
+    return { product };
+  });
+  if ("product" in result) {
+    await removeImages(removedImages);
+    await rememberCategory(result.product.category);
+  }
+  return result;
+}
+
+export async function deleteProduct(id: string): Promise<ProductResult> {
+  const result = await products.update<ProductResult>((rows) => {
+    const index = rows.findIndex((row) => String(row.id) === id);
+    if (index === -1) return notFound;
+    return { product: rows.splice(index, 1)[0] };
+  });
+  if ("product" in result) await removeImages(result.product.images);
+  return result;
+}
+
+/**
+ * Bulk actions on the product list. Images of deleted products are kept
+ * until the deletion can no longer be undone.
+ */
+export const productBulkAdapter: BulkAdapter<Product> = {
+  update: products.update,
+  idOf: (product) => String(product.id),
+  change(product, action) {
+    if (action.type !== "status") return "Products cannot be changed that way";
+    if (action.value !== "Draft" && action.value !== "Published") {
+      return `Products cannot be marked ${action.value}`;
+    }
+    if (product.status === action.value) {
+      return `Already ${action.value.toLowerCase()}`;
+    }
+    product.status = action.value;
+  },
+  purge: (product) => removeImages(product.images),
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function optionalString(value: unknown, max: number): string | null {
+  if (value === undefined) return "";
+  return typeof value === "string" ? value.trim().slice(0, max) : null;
+}
+
+function isQuantity(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+// "APL-0001-41MM-BLACK" for a variant left without its own SKU
+function variantSku(productSku: string, size: string, color: string) {
+  return [productSku, size, color]
+    .filter(Boolean)
+    .join("-")
+    .toUpperCase()
+    .replace(/\s+/g, "-");
+}
+
+function parseVariants(
+  value: unknown,
+  productSku: string
+): { variants: ProductVariant[] } | { error: string } {
+  if (value === undefined) return { variants: [] };
+  if (!Array.isArray(value)) return { error: "Expected a list of variants" };
+  const variants: ProductVariant[] = [];
+  for (const item of value) {
+    if (!isRecord(item)) return { error: "Invalid variant" };
+    const size = optionalString(item.size, 40);
+    const color = optionalString(item.color, 40);
+    const sku = optionalString(item.sku, 40);
+    if (size === null || color === null || sku === null) {
+      return { error: "Invalid variant" };
+    }
+    if (!size && !color) return { error: "A variant needs a size or a color" };
+    if (!isQuantity(item.stock)) {
+      return { error: "Variant stock must be a whole number of units" };
+    }
+    const label = [color, size].filter(Boolean).join(" / ");
+    if (
+      variants.some(
+        (variant) =>
+          variant.size.toLowerCase() === size.toLowerCase() &&
+          variant.color.toLowerCase() === color.toLowerCase()
+      )
+    ) {
+      return { error: `${label} is listed twice` };
+    }
+    variants.push({
+      sku: sku || variantSku(productSku, size, color),
+      size,
+      color,
+      stock: item.stock,
+    });
+  }
+  const skus = variants.map((variant) => variant.sku.toLowerCase());
+  const repeated = variants.find(
+    (variant, index) =>
+      skus.indexOf(variant.sku.toLowerCase()) !== index ||
+      variant.sku.toLowerCase() === productSku.toLowerCase()
+  );
+  if (repeated) return { error: `SKU ${repeated.sku} is used twice` };
+  return { variants };
+}
+
+/**
+ * Validates a product sent by the product form. `price` is a decimal string
+ * in the store currency ("1299.99"), converted to minor units here.
+ */
+export function parseProductInput(
+  input: unknown
+): { product: ProductInput } | { error: string } {
+  if (!isRecord(input)) return { error: "Expected a product" };
+  const name = optionalString(input.name, 120);
+  if (!name) return { error: "A product name is required" };
+  const sku = optionalString(input.sku, 40);
+  if (!sku) return { error: "A SKU is required" };
+  if (!/^[A-Za-z0-9][A-Za-z0-9-]*$/.test(sku)) {
+    return { error: "SKUs may only contain letters, digits and dashes" };
+  }
+  const category = optionalString(input.category, 60);
+  if (!category) return { error: "A category is required" };
+  const brand = optionalString(input.brand, 60);
+  if (!brand) return { error: "A brand is required" };
+  const description = optionalString(input.description, 2000);
+  if (description === null) return { error: "Invalid description" };
+  const price =
+    typeof input.price === "string"
+      ? toMinorUnits(input.price, DEFAULT_CURRENCY)
+      : NaN;
+  if (!(price >= 0)) return { error: "Expected a price of zero or more" };
+  const stock = input.stock === undefined ? 0 : input.stock;
+  if (!isQuantity(stock)) {
+    return { error: "Stock must be a whole number of units" };
+  }
+  const threshold =
+    input.lowStockThreshold === undefined ? 0 : input.lowStockThreshold;
+  if (!isQuantity(threshold)) {
+    return { error: "The low-stock threshold must be a whole number" };
+  }
+  const parsedVariants = parseVariants(input.variants, sku);
+  if ("error" in parsedVariants) return parsedVariants;
+  const images = input.images ?? [];
+  if (
+    !Array.isArray(images) ||
+    !images.every((image) => typeof image === "string")
+  ) {
+    return { error: "Expected a list of image URLs" };
+  }
+  if (images.length > MAX_PRODUCT_IMAGES) {
+    return { error: `A product can have up to ${MAX_PRODUCT_IMAGES} images` };
+  }
+  const status = input.status ?? "Published";
+  if (status !== "Draft" && status !== "Published") {
+    return { error: "Unknown status" };
+  }
+  return {
+    product: {
+      name,
+      sku,
+      description,
+      category,
+      brand,
+      price,
+      stock,
+      lowStockThreshold: threshold,
+      variants: parsedVariants.variants,
+      images: [...new Set(images)],
+      status,
+    },
+  };
+}
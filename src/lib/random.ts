@@ -0,0 +1,23 @@
+/**
+ * Small seeded pseudo-random generator (mulberry32) for building mock
+ * datasets that are identical on every server start.
+ */
+export function createRandom(seed: number) {
+  let state = seed >>> 0;
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  // Integer in [min, max]
+  const int = (min: number, max: number) =>
+    min + Math.floor(next() * (max - min + 1));
+
+  const pick = <T>(items: readonly T[]): T => items[int(0, items.length - 1)];
+
+  return { next, int, pick };
+}
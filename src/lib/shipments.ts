@@ -0,0 +1,213 @@
+import { createCollection } from "./file-store";
+import {
+  SHIPMENT_STATUSES,
+  shipmentColumns,
+  shipmentSeed,
+  statusLocation,
+  type GeoPoint,
+  type Shipment,
+  type ShipmentEvent,
+  type ShipmentStatus,
+} from "./mock-data/shipments";
+import { signWebhook, verifyWebhookSignature } from "./payments/gateway";
+import { runTableQuery, type TablePage, type TableQuery } from "./table-query";
+
+/**
+ * Shipments and the tracking events carriers report for them. Carriers post
+ * status updates to `/api/shipments/webhook`; configured through:
+ *
+ * - `CARRIER_WEBHOOK_SECRET`: signs the updates, sent in the
+ *   `X-Carrier-Signature` header the same way as payment events;
+ *   `carrier_dev` by default, while production refuses every update until
+ *   a secret is set
+ */
+
+const shipments = createCollection<Shipment>("shipments", () => shipmentSeed);
+
+// Null in production without a secret, so every update is refused
+function webhookSecret(): string | null {
+  const secret = process.env.CARRIER_WEBHOOK_SECRET;
+  if (secret) return secret;
+  return process.env.NODE_ENV === "production" ? null : "carrier_dev";
+}
+
+// By order number, as the activity table lists them
+export async function listShipments(): Promise<Shipment[]> {
+  return (await shipments.all()).sort((a, b) => a.id.localeCompare(b.id));
+}
+
+export async function queryShipments(
+  query: TableQuery
+): Promise<TablePage<Shipment>> {
+  return runTableQuery(await listShipments(), shipmentColumns, query);
+}
+
+export async function getShipment(id: string): Promise<Shipment | null> {
+  return (await shipments.find((shipment) => shipment.id === id)) ?? null;
+}
+
+export const isShipmentActive = (shipment: Shipment) =>
+  shipment.status !== "Delivered" && shipment.status !== "Canceled";
+
+// The active shipment the carrier heard from last, else the latest overall
+export function trackedShipment(rows: Shipment[]): Shipment | null {
+  const latest = (shipment: Shipment) =>
+    shipment.events[shipment.events.length - 1]?.at ?? "";
+  const byLatest = [...rows].sort((a, b) => latest(b).localeCompare(latest(a)));
+  return byLatest.find(isShipmentActive) ?? byLatest[0] ?? null;
+}
+
+// A status update as a carrier reports it
+export interface CarrierUpdate {
+  trackingId: string;
+  eventId: string;
+  status: ShipmentStatus;
+  at: string; // ISO timestamp
+  location?: string; // Defaults to the origin or destination city
+  position?: GeoPoint;
+  note?: string;
+  eta?: string; // ISO timestamp, when the carrier revises it
+}
+
+export type CarrierUpdateResult =
+  | { shipment: Shipment; outcome: "recorded" | "duplicate" }
+  | { error: string; status: 400 | 404 | 503 };
+
+/**
+ * Files a carrier's update under the shipment with its tracking id. Updates
+ * may arrive late or twice: events stay ordered by when they happened, and
+ * one whose id was seen before changes nothing.
+ */
+export function applyCarrierUpdate(
+  update: CarrierUpdate
+): Promise<CarrierUpdateResult> {
+  return shipments.update<CarrierUpdateResult>((rows) => {
+    const shipment = rows.find((row) => row.trackingId === update.trackingId);
+    if (!shipment) {
+      return {
+        error: `No shipment with tracking id ${update.trackingId}`,
+        status: 404,
+      };
+    }
+    if (shipment.events.some((event) => event.id === update.eventId)) {
+      return { shipment, outcome: "duplicate" };
+    }
+    const fallback = statusLocation(
+      update.status,
+      shipment.origin,
+      shipment.destination
+    );
+    // A location the carrier names is not pinned to the city it defaults to
+    const position =
+      update.position ?? (update.location ? undefined : fallback.position);
+    const event: ShipmentEvent = {
+      id: update.eventId,
+      status: update.status,
+      at: update.at,
+      location: update.location ?? fallback.location,
+      ...(position ? { position } : {}),
+      ...(update.note ? { note: update.note } : {}),
+    };
+    const index = shipment.events.findIndex((other) => other.at > event.at);
+    if (index === -1) shipment.events.push(event);
+    else shipment.events.splice(index, 0, event);
+
+    const latest = shipment.events[shipment.events.length - 1];
+    shipment.status = latest.status;
+    shipment.deliveredAt = latest.status === "Delivered" ? latest.at : null;
+    if (update.eta) shipment.eta = update.eta;
+    return { shipment, outcome: "recorded" };
+  });
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+const isTimestamp = (value: unknown): value is string =>
+  typeof value === "string" && !Number.isNaN(Date.parse(value));
+
+function parsePosition(value: unknown): GeoPoint | null {
+  if (!isRecord(value)) return null;
+  const { lat, lng } = value;
+  if (typeof lat !== "number" || typeof lng !== "number") return null;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  return { lat, lng };
+}
+
+/**
+ * `{ "trackingId": "28745-72809bjk", "eventId": "evt_1", "status":
+ * "In Transit", "at": "2028-04-12T12:58:00Z", "location": "Albany, NY",
+ * "position": { "lat": 42.65, "lng": -73.75 } }` from a carrier.
+ */
+export function parseCarrierUpdate(
+  input: unknown
+): { update: CarrierUpdate } | { error: string } {
+  if (!isRecord(input)) return { error: "Expected a carrier update" };
+  const { trackingId, eventId, location, note } = input;
+  if (typeof trackingId !== "string" || !trackingId.trim()) {
+    return { error: "A tracking id is required" };
+  }
+  if (typeof eventId !== "string" || !eventId.trim()) {
+    return { error: "An event id is required" };
+  }
+  const status = SHIPMENT_STATUSES.find((value) => value === input.status);
+  if (!status) {
+    return { error: `Expected a status of ${SHIPMENT_STATUSES.join(", ")}` };
+  }
+  if (!isTimestamp(input.at)) return { error: "Expected an ISO timestamp" };
+  if (input.eta !== undefined && !isTimestamp(input.eta)) {
+    return { error: "Expected an ISO timestamp for the ETA" };
+  }
+  if (location !== undefined && typeof location !== "string") {
+    return { error: "Expected a location" };
+  }
+  if (note !== undefined && typeof note !== "string") {
+    return { error: "Expected a note" };
+  }
+  const position = parsePosition(input.position);
+  if (input.position !== undefined && !position) {
+    return { error: "Expected a position with lat and lng" };
+  }
+  return {
+    update: {
+      trackingId: trackingId.trim(),
+      eventId: eventId.trim(),
+      status,
+      at: new Date(input.at).toISOString(),
+      ...(location?.trim() ? { location: location.trim() } : {}),
+      ...(position ? { position } : {}),
+      ...(note?.trim() ? { note: note.trim() } : {}),
+      ...(input.eta ? { eta: new Date(input.eta).toISOString() } : {}),
+    },
+  };
+}
+
+// Value of the `X-Carrier-Signature` header for `body`, for the simulator
+export function signCarrierUpdate(body: string): string | null {
+  const secret = webhookSecret();
+  return secret && signWebhook(secret, body);
+}
+
+// Checks, parses and files an update posted to the webhook route
+export async function receiveCarrierWebhook(
+  body: string,
+  signature: string | null
+): Promise<CarrierUpdateResult> {
+  const secret = webhookSecret();
+  if (!secret) {
+    return { error: "Carrier webhook is not configured", status: 503 };
+  }
+  if (!verifyWebhookSignature(secret, body, signature)) {
+    return { error: "Invalid signature", status: 400 };
+  }
+  let input: unknown;
+  try {
+    input = JSON.parse(body);
+  } catch {
+    return { error: "Expected a JSON body", status: 400 };
+  }
+  const parsed = parseCarrierUpdate(input);
+  if ("error" in parsed) return { error: parsed.error, status: 400 };
+  return applyCarrierUpdate(parsed.update);
+}
@@ -0,0 +1,185 @@
+import { timingSafeEqual } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { findCustomerByEmail } from "./customers";
+import { dataPath } from "./file-store";
+import type { Job } from "./jobs";
+import { isEmailAddress, parseMessage } from "./mail/rfc822";
+import type { TicketAttachment } from "./mock-data/support-tickets";
+import {
+  receiveTicketMail,
+  removeTicketAttachments,
+  storeTicketAttachment,
+  type InboundTicketResult,
+} from "./support-tickets";
+
+/**
+ * Customer email turned into support tickets, so a local mail relay can feed
+ * the support desk. The relay hands over raw RFC 822 messages either way:
+ *
+ * - posting each one to `/api/support-tickets/inbound` with
+ *   `Authorization: Bearer <SUPPORT_INBOUND_TOKEN>`; `inbound_dev` by
+ *   default, while production refuses every post until a token is set
+ * - delivering into the Maildir-style drop directory `SUPPORT_MAIL_DIR`,
+ *   `<DATA_DIR>/support-mail` by default. Files in `new/` are read by the
+ *   job runner and moved to `cur/`, or to `failed/` when they cannot be used.
+ */
+
+export const MAX_INBOUND_SIZE = 25 * 1024 * 1024; // Whole message, in bytes
+const MAX_ATTACHMENTS = 10;
+const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+export type InboundMailResult = InboundTicketResult | { error: string };
+
+// Null in production without a token, so every post is refused
+function inboundToken(): string | null {
+  const token = process.env.SUPPORT_INBOUND_TOKEN;
+  if (token) return token;
+  return process.env.NODE_ENV === "production" ? null : "inbound_dev";
+}
+
+function dropDirectory(): string {
+  return process.env.SUPPORT_MAIL_DIR ?? dataPath("support-mail");
+}
+
+// Whether an `Authorization` header carries the relay's token
+export function isInboundAuthorized(header: string | null): boolean {
+  const token = inboundToken();
+  if (!token) return false;
+  const given = Buffer.from(header?.match(/^Bearer (.+)$/i)?.[1] ?? "");
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+const REPLY_PREFIX = /^\s*(re|fwd?|aw|sv)\s*:\s*/i;
+
+// "Re: Fwd: Refund" is filed as "Refund"
+function cleanSubject(subject: string): string {
+  let cleaned = subject;
+  while (REPLY_PREFIX.test(cleaned)) {
+    cleaned = cleaned.replace(REPLY_PREFIX, "");
+  }
+  return cleaned.trim() || "(no subject)";
+}
+
+// Lines that introduce the quoted original below a reply
+const QUOTE_HEADER = /^(On .+ wrote:|-+ ?Original Message ?-+)$/i;
+
+/**
+ * Drops the quoted conversation under a reply, which the ticket already
+ * shows. Mail that is nothing but a quote is kept whole.
+ */
+function stripQuotedReply(text: string): string {
+  const lines = text.split("\n");
+  const start = lines.findIndex(
+    (line, index) =>
+      index > 0 && (line.startsWith(">") || QUOTE_HEADER.test(line.trim()))
+  );
+  return (start > 0 ? lines.slice(0, start) : lines).join("\n").trim();
+}
+
+/**
+ * Files one raw message as a new ticket or a reply on an existing one,
+ * keeping its attachments. Attachments over the limits are named in the
+ * message instead, so the agent knows to ask for them another way.
+ */
+export async function ingestSupportMail(
+  raw: string,
+  receivedAt = new Date()
+): Promise<InboundMailResult> {
+  const parsed = parseMessage(raw);
+  if (!parsed.from || !isEmailAddress(parsed.from.email)) {
+    return { error: "The message has no sender address" };
+  }
+
+  const kept = parsed.attachments
+    .filter((file) => file.data.length <= MAX_ATTACHMENT_SIZE)
+    .slice(0, MAX_ATTACHMENTS);
+  const skipped = parsed.attachments.filter((file) => !kept.includes(file));
+  const attachments: TicketAttachment[] = [];
+  for (const file of kept) {
+    attachments.push(
+      await storeTicketAttachment({
+        name: file.fileName,
+        type: file.contentType,
+        data: file.data,
+      })
+    );
+  }
+  const text = [
+    stripQuotedReply(parsed.text),
+    skipped.length > 0
+      ? `(Attachments not kept: ${skipped
+          .map((file) => file.fileName)
+          .join(", ")})`
+      : "",
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+
+  const customer = await findCustomerByEmail(parsed.from.email);
+  const result = await receiveTicketMail({
+    messageId: parsed.messageId,
+    threadIds: [
+      ...(parsed.inReplyTo ? [parsed.inReplyTo] : []),
+      ...parsed.references,
+    ],
+    ticketIds: [...parsed.subject.matchAll(/#(\d+)/g)].map((match) => match[1]),
+    name: parsed.from.name || parsed.from.email.split("@")[0],
+    email: parsed.from.email.toLowerCase(),
+    customerId: customer?.id,
+    subject: cleanSubject(parsed.subject),
+    text,
+    attachments,
+    receivedAt: receivedAt.toISOString(),
+  });
+  if (result.outcome === "duplicate") {
+    await removeTicketAttachments(attachments);
+  }
+  return result;
+}
+
+async function ingestFile(file: string): Promise<InboundMailResult> {
+  try {
+    const stat = await fs.stat(file);
+    if (stat.size > MAX_INBOUND_SIZE) return { error: "Message too large" };
+    return await ingestSupportMail(await fs.readFile(file, "utf8"), stat.mtime);
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+export const supportMailDropJob: Job = {
+  name: "support-mail-drop",
+  description: "Files email delivered to the support drop directory as tickets",
+  intervalMs: 60 * 1000,
+  async run() {
+    const dir = dropDirectory();
+    for (const sub of ["tmp", "new", "cur", "failed"]) {
+      await fs.mkdir(path.join(dir, sub), { recursive: true });
+    }
+    // The relay writes to `tmp/` and renames into `new/` once complete
+    const files = (await fs.readdir(path.join(dir, "new")))
+      .filter((name) => !name.startsWith("."))
+      .sort();
+    const counts = { created: 0, appended: 0, duplicate: 0, failed: 0 };
+    for (const name of files) {
+      const result = await ingestFile(path.join(dir, "new", name));
+      const failed = "error" in result;
+      counts[failed ? "failed" : result.outcome]++;
+      await fs.rename(
+        path.join(dir, "new", name),
+        path.join(dir, failed ? "failed" : "cur", name)
+      );
+    }
+    if (files.length === 0) return "No new mail";
+    const plural = (count: number, one: string, many: string) =>
+      `${count} ${count === 1 ? one : many}`;
+    return [
+      `Opened ${plural(counts.created, "ticket", "tickets")}`,
+      `added ${plural(counts.appended, "reply", "replies")}`,
+      `skipped ${counts.duplicate} seen before`,
+      `${counts.failed} failed`,
+    ].join(", ");
+  },
+};
@@ -0,0 +1,128 @@
+import type {
+  SupportTicket,
+  TicketPriority,
+} from "./mock-data/support-tickets";
+
+/**
+ * Service level targets for support tickets and the clocks that track them.
+ * Both clocks start when the ticket comes in: the first response clock stops
+ * at the first public agent reply, the resolution clock when it is solved.
+ * Kept free of Node APIs so the list can count down in the browser.
+ */
+
+export interface SlaTarget {
+  firstResponseHours: number;
+  resolutionHours: number;
+}
+
+export const SLA_TARGETS: Record<TicketPriority, SlaTarget> = {
+  Urgent: { firstResponseHours: 1, resolutionHours: 8 },
+  High: { firstResponseHours: 4, resolutionHours: 24 },
+  Medium: { firstResponseHours: 8, resolutionHours: 72 },
+  Low: { firstResponseHours: 24, resolutionHours: 120 },
+};
+
+const HOUR = 60 * 60 * 1000;
+
+// A running clock is "due soon" once less than this share of it is left
+const DUE_SOON_SHARE = 0.25;
+
+export interface SlaClock {
+  dueAt: string; // ISO timestamp
+  metAt: string | null; // When the clock stopped, if it has
+  remainingMs: number; // Left at `metAt` or now; negative once overdue
+  breached: boolean; // Overdue now, or stopped after `dueAt`
+  dueSoon: boolean; // Still running with little time left
+}
+
+export interface TicketSla {
+  firstResponse: SlaClock;
+  resolution: SlaClock;
+}
+
+// When the customer first heard back; internal notes do not count
+export function firstResponseAt(ticket: SupportTicket): string | null {
+  return (
+    ticket.messages.find(
+      (message) => message.author === "agent" && !message.internal
+    )?.sentAt ?? null
+  );
+}
+
+function clock(
+  startedAt: string,
+  hours: number,
+  metAt: string | null,
+  now: Date
+): SlaClock {
+  const due = Date.parse(startedAt) + hours * HOUR;
+  const remainingMs = due - (metAt ? Date.parse(metAt) : now.getTime());
+  return {
+    dueAt: new Date(due).toISOString(),
+    metAt,
+    remainingMs,
+    breached: remainingMs < 0,
+    dueSoon:
+      !metAt && remainingMs >= 0 && remainingMs < hours * HOUR * DUE_SOON_SHARE,
+  };
+}
+
+export function ticketSla(ticket: SupportTicket, now: Date): TicketSla {
+  const target = SLA_TARGETS[ticket.priority];
+  return {
+    firstResponse: clock(
+      ticket.createdAt,
+      target.firstResponseHours,
+      firstResponseAt(ticket) ?? ticket.solvedAt,
+      now
+    ),
+    resolution: clock(
+      ticket.createdAt,
+      target.resolutionHours,
+      ticket.solvedAt,
+      now
+    ),
+  };
+}
+
+// The clock that matters now: the first one still running, else resolution
+export function activeClock(sla: TicketSla): {
+  name: "First response" | "Resolution";
+  clock: SlaClock;
+} {
+  return sla.firstResponse.metAt
+    ? { name: "Resolution", clock: sla.resolution }
+    : { name: "First response", clock: sla.firstResponse };
+}
+
+// "2d 4h", "3h 15m" or "12m", for countdowns
+export function formatDuration(ms: number): string {
+  const minutes = Math.floor(Math.abs(ms) / 60000);
+  const days = Math.floor(minutes / (24 * 60));
+  const hours = Math.floor(minutes / 60) % 24;
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes % 60}m`;
+}
+
+export interface SupportMetricsData {
+  total: number;
+  open: number; // Not solved yet
+  solved: number;
+  breached: number; // Open tickets past the target they are working to
+}
+
+export function calculateSupportMetrics(
+  tickets: SupportTicket[],
+  now: Date
+): SupportMetricsData {
+  const open = tickets.filter((ticket) => ticket.status !== "Solved");
+  return {
+    total: tickets.length,
+    open: open.length,
+    solved: tickets.length - open.length,
+    breached: open.filter(
+      (ticket) => activeClock(ticketSla(ticket, now)).clock.breached
+    ).length,
+  };
+}
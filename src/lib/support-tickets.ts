@@ -0,0 +1,391 @@
+import { randomUUID } from "crypto";
+import type { BulkAdapter } from "./bulk-runner";
+import { nextCounterValue } from "./counters";
+import { createBlobStore, createCollection } from "./file-store";
+import { seedCustomerId } from "./mock-data/customers";
+import {
+  SUPPORT_AGENTS,
+  supportTicketSeed,
+  TICKET_CATEGORIES,
+  ticketColumns,
+  TICKET_PRIORITIES,
+  TICKET_STATUSES,
+  type SupportTicket,
+  type TicketAttachment,
+  type TicketCategory,
+  type TicketPriority,
+  type TicketMessage,
+  type TicketStatus,
+} from "./mock-data/support-tickets";
+import type { MacroActions } from "./mock-data/ticket-macros";
+import { runTableQuery, type TablePage, type TableQuery } from "./table-query";
+
+const tickets = createCollection<SupportTicket>("support-tickets", () =>
+  supportTicketSeed.map((row) => ({
+    ...row,
+    customerId: seedCustomerId(row.email, row.name),
+  }))
+);
+
+// Files that came in attached to customer emails
+const attachmentFiles = createBlobStore("ticket-attachments");
+
+export function listTickets(): Promise<SupportTicket[]> {
+  return tickets.all();
+}
+
+export async function queryTickets(
+  query: TableQuery
+): Promise<TablePage<SupportTicket>> {
+  return runTableQuery(await tickets.all(), ticketColumns, query);
+}
+
+export async function getTicket(id: string): Promise<SupportTicket | null> {
+  return (await tickets.find((row) => row.id === id)) ?? null;
+}
+
+export interface TicketPosition {
+  index: number; // 0-based, in list order
+  total: number;
+  previous: string | null; // Ticket ids of the neighbours in the list
+  next: string | null;
+}
+
+// Where a ticket sits in the list, for the previous/next buttons
+export async function getTicketPosition(
+  id: string
+): Promise<TicketPosition | null> {
+  const rows = await tickets.all();
+  const index = rows.findIndex((row) => row.id === id);
+  if (index < 0) return null;
+  return {
+    index,
+    total: rows.length,
+    previous: rows[index - 1]?.id ?? null,
+    next: rows[index + 1]?.id ?? null,
+  };
+}
+
+export type TicketResult =
+  | { ticket: SupportTicket }
+  | { error: string; status: 404 | 409 };
+
+// Runs `change` on the stored ticket; it returns an error message to refuse
+async function changeTicket(
+  id: string,
+  change: (ticket: SupportTicket) => string | void
+): Promise<TicketResult> {
+  const result = await tickets.update((rows): TicketResult | undefined => {
+    const ticket = rows.find((row) => row.id === id);
+    if (!ticket) return undefined;
+    const error = change(ticket);
+    return error ? { error, status: 409 } : { ticket };
+  });
+  return result ?? { error: "Ticket not found", status: 404 };
+}
+
+// Solving stops the resolution clock; reopening starts it again
+function setStatus(ticket: SupportTicket, status: TicketStatus): string | void {
+  if (ticket.status === status) return `Already ${status.toLowerCase()}`;
+  ticket.status = status;
+  ticket.solvedAt = status === "Solved" ? new Date().toISOString() : null;
+}
+
+function assign(ticket: SupportTicket, agent: string): string | void {
+  if (!SUPPORT_AGENTS.includes(agent)) {
+    return `${agent} is not on the support team`;
+  }
+  if (ticket.agent === agent) return `Already assigned to ${agent}`;
+  ticket.agent = agent;
+}
+
+export interface TicketChanges {
+  status?: TicketStatus;
+  priority?: TicketPriority;
+  category?: TicketCategory;
+  agent?: string;
+}
+
+export function updateTicket(
+  id: string,
+  changes: TicketChanges
+): Promise<TicketResult> {
+  return changeTicket(id, (ticket) => {
+    // Assigning is the only change that can be refused, so it goes first
+    if (changes.agent && changes.agent !== ticket.agent) {
+      const error = assign(ticket, changes.agent);
+      if (error) return error;
+    }
+    if (changes.status && changes.status !== ticket.status) {
+      setStatus(ticket, changes.status);
+    }
+    if (changes.priority) ticket.priority = changes.priority;
+    if (changes.category) ticket.category = changes.category;
+  });
+}
+
+export interface NewTicketMessage {
+  text: string;
+  internal: boolean; // An internal note rather than a reply to the customer
+  macroId?: string; // The macro the text came from, whose actions to run
+}
+
+/**
+ * Adds the message and runs the actions of the macro it came from, if any.
+ * Actions already in effect are skipped; an assignment that cannot be made
+ * refuses the whole message.
+ */
+export function addTicketMessage(
+  id: string,
+  message: NewTicketMessage,
+  actor: string,
+  actions: MacroActions = { tags: [] }
+): Promise<TicketResult> {
+  return changeTicket(id, (ticket) => {
+    if (actions.agent && actions.agent !== ticket.agent) {
+      const error = assign(ticket, actions.agent);
+      if (error) return error;
+    }
+    ticket.messages.push({
+      author: "agent",
+      agent: actor,
+      internal: message.internal,
+      sentAt: new Date().toISOString(),
+      text: message.text,
+    });
+    if (actions.status && actions.status !== ticket.status) {
+      setStatus(ticket, actions.status);
+    }
+    ticket.tags.push(
+      ...actions.tags.filter((tag) => !ticket.tags.includes(tag))
+    );
+  });
+}
+
+// Keeps a file until the message it belongs to is stored
+export async function storeTicketAttachment(file: {
+  name: string;
+  type: string;
+  data: Buffer;
+}): Promise<TicketAttachment> {
+  const attachment = {
+    id: randomUUID(),
+    name: file.name,
+    type: file.type,
+    size: file.data.length,
+  };
+  await attachmentFiles.write(attachment.id, new Uint8Array(file.data));
+  return attachment;
+}
+
+export async function removeTicketAttachments(attachments: TicketAttachment[]) {
+  for (const attachment of attachments) {
+    await attachmentFiles.remove(attachment.id);
+  }
+}
+
+// An email from a customer, already parsed and with its attachments stored
+export interface InboundTicketMail {
+  messageId: string | null;
+  threadIds: string[]; // In-Reply-To and References
+  ticketIds: string[]; // "#323534" mentions in the subject
+  name: string;
+  email: string;
+  customerId?: number; // The customer with this email, if any
+  subject: string; // Without "Re:" and "Fwd:"
+  text: string;
+  attachments: TicketAttachment[];
+  receivedAt: string; // ISO timestamp
+}
+
+export interface InboundTicketResult {
+  ticket: SupportTicket;
+  outcome: "created" | "appended" | "duplicate";
+}
+
+// Whoever has the fewest open tickets, the first of them on a tie
+function leastBusyAgent(rows: SupportTicket[]): string {
+  const open = (agent: string) =>
+    rows.filter((row) => row.agent === agent && row.status !== "Solved").length;
+  return SUPPORT_AGENTS.reduce((best, agent) =>
+    open(agent) < open(best) ? agent : best
+  );
+}
+
+/**
+ * Adds an email to the ticket it answers, or opens a new ticket for it.
+ * Replies are matched by their thread headers first, then by a ticket id in
+ * the subject, which only counts when the ticket's customer sent it. A reply
+ * to a solved or on-hold ticket puts it back in the queue. Mail seen before
+ * (by Message-ID) is left alone, so a relay may safely deliver twice.
+ */
+export function receiveTicketMail(
+  mail: InboundTicketMail
+): Promise<InboundTicketResult> {
+  return tickets.update(async (rows): Promise<InboundTicketResult> => {
+    const seen = mail.messageId
+      ? rows.find((row) =>
+          row.messages.some((message) => message.messageId === mail.messageId)
+        )
+      : undefined;
+    if (seen) return { ticket: seen, outcome: "duplicate" };
+
+    const message: TicketMessage = {
+      author: "customer",
+      internal: false,
+      sentAt: mail.receivedAt,
+      text: mail.text,
+      ...(mail.messageId ? { messageId: mail.messageId } : {}),
+      ...(mail.attachments.length > 0 ? { attachments: mail.attachments } : {}),
+    };
+    const existing =
+      rows.find((row) =>
+        row.messages.some(
+          (sent) => sent.messageId && mail.threadIds.includes(sent.messageId)
+        )
+      ) ??
+      rows.find(
+        (row) =>
+          mail.ticketIds.includes(row.id) &&
+          row.email.toLowerCase() === mail.email.toLowerCase()
+      );
+    if (existing) {
+      existing.messages.push(message);
+      if (existing.status === "Solved" || existing.status === "On-Hold") {
+        setStatus(existing, "Pending");
+      }
+      return { ticket: existing, outcome: "appended" };
+    }
+
+    const highest = Math.max(
+      0,
+      ...rows.map((row) => Number(row.id)).filter(Number.isFinite)
+    );
+    const ticket: SupportTicket = {
+      id: String(await nextCounterValue("support-ticket-ids", highest)),
+      name: mail.name,
+      email: mail.email,
+      ...(mail.customerId ? { customerId: mail.customerId } : {}),
+      subject: mail.subject,
+      category: "General Support",
+      priority: "Medium",
+      createdAt: mail.receivedAt,
+      status: "Pending",
+      solvedAt: null,
+      agent: leastBusyAgent(rows),
+      tags: [],
+      messages: [message],
+    };
+    rows.push(ticket);
+    return { ticket, outcome: "created" };
+  });
+}
+
+/**
+ * An attachment on a ticket and its bytes, or null when the ticket has no
+ * such attachment.
+ */
+export async function getTicketAttachment(
+  ticketId: string,
+  attachmentId: string
+): Promise<{ attachment: TicketAttachment; data: Buffer } | null> {
+  const attachment = (await getTicket(ticketId))?.messages
+    .flatMap((message) => message.attachments ?? [])
+    .find((candidate) => candidate.id === attachmentId);
+  if (!attachment) return null;
+  const data = await attachmentFiles.read(attachment.id);
+  return data ? { attachment, data } : null;
+}
+
+// Bulk actions on the ticket list, for closing or reassigning many at once
+export const ticketBulkAdapter: BulkAdapter<SupportTicket> = {
+  update: tickets.update,
+  idOf: (ticket) => ticket.id,
+  change(ticket, action) {
+    switch (action.type) {
+      case "status": {
+        const status = TICKET_STATUSES.find((value) => value === action.value);
+        if (!status) return `Tickets cannot be marked ${action.value}`;
+        return setStatus(ticket, status);
+      }
+      case "assign":
+        return assign(ticket, action.value);
+      case "tag":
+        if (ticket.tags.includes(action.value)) return "Already tagged";
+        ticket.tags.push(action.value);
+    }
+  },
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// One of `values`, undefined when missing, or null when not one of them
+function optionalOneOf<T extends string>(
+  values: readonly T[],
+  value: unknown
+): T | undefined | null {
+  if (value === undefined) return undefined;
+  return values.find((option) => option === value) ?? null;
+}
+
+// `{ "priority": "High", "agent": "Naimur Rahman" }` from the ticket page
+export function parseTicketChanges(
+  input: unknown
+): { changes: TicketChanges } | { error: string } {
+  if (!isRecord(input)) return { error: "Expected ticket changes" };
+  const status = optionalOneOf(TICKET_STATUSES, input.status);
+  if (status === null) {
+    return { error: `Expected a status of ${TICKET_STATUSES.join(", ")}` };
+  }
+  const priority = optionalOneOf(TICKET_PRIORITIES, input.priority);
+  if (priority === null) {
+    return { error: `Expected a priority of ${TICKET_PRIORITIES.join(", ")}` };
+  }
+  const category = optionalOneOf(TICKET_CATEGORIES, input.category);
+  if (category === null) return { error: "Unknown category" };
+  const agent = optionalOneOf(SUPPORT_AGENTS, input.agent);
+  if (agent === null) return { error: "Unknown agent" };
+  if (!status && !priority && !category && !agent) {
+    return { error: "Nothing to change" };
+  }
+  return {
+    changes: {
+      ...(status ? { status } : {}),
+      ...(priority ? { priority } : {}),
+      ...(category ? { category } : {}),
+      ...(agent ? { agent } : {}),
+    },
+  };
+}
+
+// Longest reply or note accepted, in characters
+const MAX_MESSAGE_LENGTH = 10000;
+
+// `{ "text": "...", "internal": true, "macroId": "2" }` from the reply box
+export function parseTicketMessage(
+  input: unknown
+): { message: NewTicketMessage } | { error: string } {
+  if (!isRecord(input)) return { error: "Expected a message" };
+  const text = typeof input.text === "string" ? input.text.trim() : "";
+  if (!text) return { error: "The message is empty" };
+  if (text.length > MAX_MESSAGE_LENGTH) {
+    return {
+      error: `Messages are limited to ${MAX_MESSAGE_LENGTH} characters`,
+    };
+  }
+  if (input.internal !== undefined && typeof input.internal !== "boolean") {
+    return { error: "Expected internal to be true or false" };
+  }
+  if (input.macroId !== undefined && typeof input.macroId !== "string") {
+    return { error: "Expected a macro id" };
+  }
+  return {
+    message: {
+      text,
+      internal: input.internal === true,
+      ...(input.macroId ? { macroId: input.macroId } : {}),
+    },
+  };
+}
@@ -0,0 +1,137 @@
+import {
+  applyFilters,
+  filterRows,
+  sortRows,
+} from "@/components/tables/DataTables/DataTable/sorting";
+import type {
+  ColumnValueDef,
+  SortRule,
+} from "@/components/tables/DataTables/DataTable/types";
+
+/**
+ * Query sent by a table to a list endpoint.
+ *
+ * On the wire it is encoded as search params:
+ * `?page=2&pageSize=10&q=lon&sort=salary:desc,name:asc&filter.status=Hired`
+ */
+export interface TableQuery {
+  page: number; // 1-based
+  pageSize: number;
+  search: string;
+  sort: SortRule[];
+  filters: Record<string, string>;
+}
+
+// Response body of a list endpoint
+export interface TablePage<T> {
+  rows: T[];
+  total: number; // Number of rows matching search and filters, across all pages
+  page: number; // Page actually served, clamped to the last page
+  pageSize: number;
+}
+
+export const MAX_PAGE_SIZE = 100;
+
+export const defaultTableQuery: TableQuery = {
+  page: 1,
+  pageSize: 10,
+  search: "",
+  sort: [],
+  filters: {},
+};
+
+const FILTER_PREFIX = "filter.";
+
+export function serializeTableQuery(query: TableQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  params.set("page", String(query.page));
+  params.set("pageSize", String(query.pageSize));
+  if (query.search) params.set("q", query.search);
+  if (query.sort.length > 0) {
+    params.set(
+      "sort",
+      query.sort.map((rule) => `${rule.columnId}:${rule.direction}`).join(",")
+    );
+  }
+  Object.entries(query.filters).forEach(([columnId, value]) => {
+    if (value !== "") params.set(`${FILTER_PREFIX}${columnId}`, value);
+  });
+  return params;
+}
+
+function parsePositiveInt(value: string | null, fallback: number): number {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Reads a query from request search params. Invalid values fall back to the
+ * defaults and sort or filter keys outside `allowedColumns` are dropped, so a
+ * handler never sorts on a field it did not expose.
+ */
+export function parseTableQuery(
+  params: URLSearchParams,
+  allowedColumns: string[]
+): TableQuery {
+  const sort: SortRule[] = (params.get("sort") ?? "")
+    .split(",")
+    .map((part) => part.split(":"))
+    .filter(
+      ([columnId, direction]) =>
+        allowedColumns.includes(columnId) &&
+        (direction === "asc" || direction === "desc")
+    )
+    .map(([columnId, direction]) => ({
+      columnId,
+      direction: direction as SortRule["direction"],
+    }));
+
+  const filters: Record<string, string> = {};
+  params.forEach((value, key) => {
+    if (!key.startsWith(FILTER_PREFIX)) return;
+    const columnId = key.slice(FILTER_PREFIX.length);
+    if (allowedColumns.includes(columnId)) filters[columnId] = value;
+  });
+
+  return {
+    page: parsePositiveInt(params.get("page"), defaultTableQuery.page),
+    pageSize: Math.min(
+      parsePositiveInt(params.get("pageSize"), defaultTableQuery.pageSize),
+      MAX_PAGE_SIZE
+    ),
+    search: params.get("q") ?? "",
+    sort,
+    filters,
+  };
+}
+
+/**
+ * Runs a query against an in-memory dataset. Route handlers backed by a
+ * real database would translate the same query into their own filters.
+ */
+export function runTableQuery<T>(
+  rows: T[],
+  columns: ColumnValueDef<T>[],
+  query: TableQuery
+): TablePage<T> {
+  const matching = sortRows(
+    applyFilters(
+      filterRows(rows, columns, query.search),
+      columns,
+      query.filters
+    ),
+    columns,
+    query.sort
+  );
+  const total = matching.length;
+  const lastPage = Math.max(1, Math.ceil(total / query.pageSize));
+  const page = Math.min(query.page, lastPage);
+  const start = (page - 1) * query.pageSize;
+
+  return {
+    rows: matching.slice(start, start + query.pageSize),
+    total,
+    page,
+    pageSize: query.pageSize,
+  };
+}
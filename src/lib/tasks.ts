@@ -0,0 +1,162 @@
+import type { Task, TaskBoardData, TaskColumn } from "@/components/task/types";
+import { createCollection } from "./file-store";
+import { taskSeedColumns, taskSeedTasks } from "./mock-data/tasks";
+
+interface StoredBoard extends TaskBoardData {
+  id: string;
+}
+
+// A single shared board for now; the id leaves room for one per team
+const BOARD_ID = "default";
+
+function seedBoard(): StoredBoard {
+  return {
+    id: BOARD_ID,
+    columns: taskSeedColumns,
+    tasks: taskSeedTasks,
+    version: 1,
+  };
+}
+
+const boards = createCollection<StoredBoard>("task-boards", () => [
+  seedBoard(),
+]);
+
+function toBoardData({ columns, tasks, version }: StoredBoard) {
+  return { columns, tasks, version };
+}
+
+/**
+ * The board is the single source of truth for tasks: the Kanban and Task
+ * List views both load and save it, so a move in one shows in the other.
+ */
+export async function getTaskBoard(): Promise<TaskBoardData> {
+  const board = await boards.find((row) => row.id === BOARD_ID);
+  return toBoardData(board ?? seedBoard());
+}
+
+export type SaveTaskBoardResult =
+  | { ok: true; board: TaskBoardData }
+  | { ok: false; board: TaskBoardData }; // Version conflict; holds the latest board
+
+/**
+ * Replaces the board when `next.version` matches the stored version, so an
+ * edit based on a stale copy is rejected instead of overwriting someone
+ * else's changes.
+ */
+export function saveTaskBoard(
+  next: TaskBoardData
+): Promise<SaveTaskBoardResult> {
+  return boards.update((rows) => {
+    let stored = rows.find((row) => row.id === BOARD_ID);
+    if (!stored) {
+      stored = seedBoard();
+      rows.push(stored);
+    }
+    if (stored.version !== next.version) {
+      return { ok: false, board: toBoardData(stored) };
+    }
+    Object.assign(stored, {
+      columns: next.columns,
+      tasks: next.tasks,
+      version: stored.version + 1,
+    });
+    return { ok: true, board: toBoardData(stored) };
+  });
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function parseColumn(value: unknown): TaskColumn | null {
+  if (!isRecord(value)) return null;
+  const { id, title, wipLimit } = value;
+  if (typeof id !== "string" || !id) return null;
+  if (typeof title !== "string" || !title.trim()) return null;
+  if (
+    wipLimit !== null &&
+    !(
+      typeof wipLimit === "number" &&
+      Number.isInteger(wipLimit) &&
+      wipLimit > 0
+    )
+  ) {
+    return null;
+  }
+  return { id, title: title.trim(), wipLimit };
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value ? value : undefined;
+}
+
+function optionalCount(value: unknown): number | undefined {
+  return typeof value === "number" && value >= 0 ? value : undefined;
+}
+
+function parseTask(value: unknown): Task | null {
+  if (!isRecord(value)) return null;
+  const { id, title, dueDate, assignee, status, category } = value;
+  if (typeof id !== "string" || !id) return null;
+  if (typeof title !== "string" || !title.trim()) return null;
+  if (typeof status !== "string") return null;
+  if (!isRecord(category) || typeof category.name !== "string") return null;
+  return {
+    id,
+    title: title.trim(),
+    dueDate: typeof dueDate === "string" ? dueDate : "",
+    assignee: typeof assignee === "string" ? assignee : "",
+    status,
+    done: value.done === true,
+    category: {
+      name: category.name,
+      color: typeof category.color === "string" ? category.color : "default",
+    },
+    comments: optionalCount(value.comments),
+    links: optionalCount(value.links),
+    projectDesc: optionalString(value.projectDesc),
+    projectImg: optionalString(value.projectImg),
+  };
+}
+
+/**
+ * Validates a board sent by a client. Returns the board with unknown fields
+ * dropped, or a message describing the first problem found.
+ */
+export function parseTaskBoard(
+  input: unknown
+): { board: TaskBoardData } | { error: string } {
+  if (!isRecord(input) || typeof input.version !== "number") {
+    return { error: "Expected a board with a version" };
+  }
+  if (!Array.isArray(input.columns) || !Array.isArray(input.tasks)) {
+    return { error: "Expected columns and tasks arrays" };
+  }
+
+  const columns: TaskColumn[] = [];
+  for (const value of input.columns) {
+    const column = parseColumn(value);
+    if (!column) return { error: "Invalid column" };
+    if (columns.some((existing) => existing.id === column.id)) {
+      return { error: `Duplicate column id "${column.id}"` };
+    }
+    columns.push(column);
+  }
+  if (columns.length === 0) return { error: "A board needs a column" };
+
+  const tasks: Task[] = [];
+  for (const value of input.tasks) {
+    const task = parseTask(value);
+    if (!task) return { error: "Invalid task" };
+    if (!columns.some((column) => column.id === task.status)) {
+      return { error: `Task "${task.id}" is in an unknown column` };
+    }
+    if (tasks.some((existing) => existing.id === task.id)) {
+      return { error: `Duplicate task id "${task.id}"` };
+    }
+    tasks.push(task);
+  }
+
+  return { board: { columns, tasks, version: input.version } };
+}
@@ -0,0 +1,275 @@
+/**
+ * Invoice tax calculation in integer minor units (cents), so every amount is
+ * exact and rounding happens at fixed, documented points:
+ *
+ * 1. Each line is `quantity × unitPrice`, less its own percentage discount.
+ * 2. An invoice-level discount is spread over the lines in proportion to
+ *    their amounts; the cents left over go to the largest remainders.
+ * 3. Taxes are computed per line and rounded per line. Regular rates apply
+ *    to the line's net amount; compound rates apply afterwards, in order,
+ *    to the net amount plus every tax before them.
+ * 4. With tax-inclusive prices the net amount is backed out of the entered
+ *    price and any rounding difference stays in the net amount, so the
+ *    line still totals exactly what was entered.
+ *
+ * Shipping is treated as one more line that the invoice discount does not
+ * touch.
+ */
+
+export interface TaxRate {
+  id: string;
+  name: string;
+  rate: number; // Percent, up to three decimals (8.875)
+  compound: boolean; // Charged on the amount including earlier taxes
+}
+
+export type RoundingMode = "half-up" | "half-even";
+
+export interface TaxLineInput {
+  quantity: number;
+  unitPrice: number; // Minor units
+  discount: number; // Percent taken off the line, 0-100
+  taxRateIds: string[];
+}
+
+export type InvoiceDiscount =
+  | { type: "percent"; value: number } // 0-100
+  | { type: "amount"; value: number }; // Minor units
+
+export interface TaxInput {
+  lines: TaxLineInput[];
+  rates: TaxRate[];
+  pricesIncludeTax: boolean;
+  discount: InvoiceDiscount | null;
+  shipping: { amount: number; taxRateIds: string[] } | null; // Minor units
+  rounding?: RoundingMode; // Defaults to half-up
+}
+
+export interface LineTax {
+  rateId: string;
+  taxable: number; // Amount the rate was applied to
+  amount: number;
+}
+
+export interface TaxLineResult {
+  amount: number; // After the line discount, as entered (gross or net)
+  invoiceDiscount: number; // Share of the invoice discount
+  net: number; // Taxable amount, excluding tax
+  taxes: LineTax[];
+  total: number; // Net plus taxes
+}
+
+export interface TaxBreakdown {
+  rate: TaxRate;
+  taxable: number;
+  amount: number;
+}
+
+export interface TaxResult {
+  lines: TaxLineResult[];
+  shipping: TaxLineResult | null;
+  subtotal: number; // Line amounts before the invoice discount, as entered
+  discount: number;
+  taxes: TaxBreakdown[]; // One entry per rate used, in rate list order
+  taxTotal: number;
+  netTotal: number; // Everything excluding tax
+  total: number;
+}
+
+// Rates are handled as thousandths of a percent to stay in integers
+const RATE_SCALE = 1000;
+const PERCENT_SCALE = 100 * RATE_SCALE;
+
+function toRateUnits(percent: number): number {
+  return Math.round(percent * RATE_SCALE);
+}
+
+/**
+ * `numerator / denominator` rounded to an integer. Both must be integers and
+ * the denominator positive; results stay exact below 2^53.
+ */
+export function divideRounded(
+  numerator: number,
+  denominator: number,
+  mode: RoundingMode = "half-up"
+): number {
+  const sign = numerator < 0 ? -1 : 1;
+  const absolute = Math.abs(numerator);
+  const quotient = Math.floor(absolute / denominator);
+  const twiceRemainder = 2 * (absolute - quotient * denominator);
+  let rounded = quotient;
+  if (twiceRemainder > denominator) {
+    rounded += 1;
+  } else if (twiceRemainder === denominator) {
+    // Ties go away from zero, or to the even neighbour
+    rounded += mode === "half-up" || quotient % 2 === 1 ? 1 : 0;
+  }
+  return sign * rounded;
+}
+
+function percentOf(amount: number, percent: number, mode: RoundingMode) {
+  return divideRounded(amount * toRateUnits(percent), PERCENT_SCALE, mode);
+}
+
+/**
+ * Splits `total` over `weights` in proportion, handing the leftover units to
+ * the largest remainders so the shares always add up to `total`.
+ */
+export function allocate(total: number, weights: number[]): number[] {
+  const sum = weights.reduce((acc, weight) => acc + weight, 0);
+  if (sum <= 0) return weights.map(() => 0);
+  const shares = weights.map((weight) => Math.floor((total * weight) / sum));
+  const order = weights
+    .map((weight, index) => ({
+      index,
+      remainder: (total * weight) % sum,
+    }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+  let left = total - shares.reduce((acc, share) => acc + share, 0);
+  for (const { index } of order) {
+    if (left <= 0) break;
+    shares[index] += 1;
+    left -= 1;
+  }
+  return shares;
+}
+
+function resolveRates(ids: string[], rates: Map<string, TaxRate>): TaxRate[] {
+  const resolved = ids.map((id) => {
+    const rate = rates.get(id);
+    if (!rate) throw new Error(`Unknown tax rate "${id}"`);
+    return rate;
+  });
+  // Regular rates first; compound rates keep their relative order
+  return [
+    ...resolved.filter((rate) => !rate.compound),
+    ...resolved.filter((rate) => rate.compound),
+  ];
+}
+
+function taxesOnNet(
+  net: number,
+  rates: TaxRate[],
+  mode: RoundingMode
+): LineTax[] {
+  const taxes: LineTax[] = [];
+  for (const rate of rates) {
+    const taxable = rate.compound
+      ? net + taxes.reduce((sum, tax) => sum + tax.amount, 0)
+      : net;
+    taxes.push({
+      rateId: rate.id,
+      taxable,
+      amount: percentOf(taxable, rate.rate, mode),
+    });
+  }
+  return taxes;
+}
+
+function taxLine(
+  amount: number,
+  invoiceDiscount: number,
+  rates: TaxRate[],
+  pricesIncludeTax: boolean,
+  mode: RoundingMode
+): TaxLineResult {
+  const charged = amount - invoiceDiscount;
+  if (!pricesIncludeTax) {
+    const taxes = taxesOnNet(charged, rates, mode);
+    const taxTotal = taxes.reduce((sum, tax) => sum + tax.amount, 0);
+    return {
+      amount,
+      invoiceDiscount,
+      net: charged,
+      taxes,
+      total: charged + taxTotal,
+    };
+  }
+  // Gross = net × (1 + regular rates) × (1 + each compound rate)
+  const regular = rates
+    .filter((rate) => !rate.compound)
+    .reduce((sum, rate) => sum + rate.rate, 0);
+  const factor = rates
+    .filter((rate) => rate.compound)
+    .reduce(
+      (product, rate) => product * (1 + rate.rate / 100),
+      1 + regular / 100
+    );
+  const taxes = taxesOnNet(Math.round(charged / factor), rates, mode);
+  const taxTotal = taxes.reduce((sum, tax) => sum + tax.amount, 0);
+  return {
+    amount,
+    invoiceDiscount,
+    net: charged - taxTotal,
+    taxes,
+    total: charged,
+  };
+}
+
+export function calculateTaxes(input: TaxInput): TaxResult {
+  const mode = input.rounding ?? "half-up";
+  const rates = new Map(input.rates.map((rate) => [rate.id, rate]));
+
+  const amounts = input.lines.map((line) => {
+    const gross = Math.round(line.quantity * line.unitPrice);
+    return gross - percentOf(gross, line.discount, mode);
+  });
+  const subtotal = amounts.reduce((sum, amount) => sum + amount, 0);
+
+  let discount = 0;
+  if (input.discount?.type === "percent") {
+    discount = percentOf(subtotal, input.discount.value, mode);
+  } else if (input.discount?.type === "amount") {
+    discount = Math.round(input.discount.value);
+  }
+  discount = Math.min(Math.max(discount, 0), subtotal);
+  const discountShares = allocate(discount, amounts);
+
+  const lines = input.lines.map((line, index) =>
+    taxLine(
+      amounts[index],
+      discountShares[index],
+      resolveRates(line.taxRateIds, rates),
+      input.pricesIncludeTax,
+      mode
+    )
+  );
+  const shipping = input.shipping
+    ? taxLine(
+        Math.round(input.shipping.amount),
+        0,
+        resolveRates(input.shipping.taxRateIds, rates),
+        input.pricesIncludeTax,
+        mode
+      )
+    : null;
+
+  const charged = shipping ? [...lines, shipping] : lines;
+  const taxes: TaxBreakdown[] = input.rates
+    .map((rate) => {
+      const applied = charged
+        .flatMap((line) => line.taxes)
+        .filter((tax) => tax.rateId === rate.id);
+      return {
+        rate,
+        taxable: applied.reduce((sum, tax) => sum + tax.taxable, 0),
+        amount: applied.reduce((sum, tax) => sum + tax.amount, 0),
+        used: applied.length > 0,
+      };
+    })
+    .filter((entry) => entry.used)
+    .map(({ rate, taxable, amount }) => ({ rate, taxable, amount }));
+
+  const taxTotal = taxes.reduce((sum, tax) => sum + tax.amount, 0);
+  const netTotal = charged.reduce((sum, line) => sum + line.net, 0);
+  return {
+    lines,
+    shipping,
+    subtotal,
+    discount,
+    taxes,
+    taxTotal,
+    netTotal,
+    total: netTotal + taxTotal,
+  };
+}
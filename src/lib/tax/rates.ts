@@ -0,0 +1,52 @@
+import type { TaxRate } from "./engine";
+
+// Every rate an invoice line can carry
+export const taxRates: TaxRate[] = [
+  { id: "vat-10", name: "VAT", rate: 10, compound: false },
+  { id: "uk-vat-20", name: "VAT", rate: 20, compound: false },
+  { id: "de-mwst-19", name: "MwSt", rate: 19, compound: false },
+  { id: "ca-gst-5", name: "GST", rate: 5, compound: false },
+  { id: "ca-bc-pst-7", name: "PST", rate: 7, compound: false },
+  { id: "ca-qc-qst", name: "QST", rate: 9.975, compound: false },
+  { id: "ca-on-hst-13", name: "HST", rate: 13, compound: false },
+  { id: "us-nyc-sales", name: "Sales Tax", rate: 8.875, compound: false },
+  { id: "uk-duty-5", name: "Import Duty", rate: 5, compound: false },
+  // VAT on imports is charged on the duty-inclusive value
+  { id: "uk-import-vat-20", name: "Import VAT", rate: 20, compound: true },
+];
+
+/**
+ * The rates that apply together in one jurisdiction. Lines and shipping
+ * pick a group rather than individual rates.
+ */
+export interface TaxGroup {
+  id: string;
+  name: string;
+  rateIds: string[];
+}
+
+export const taxGroups: TaxGroup[] = [
+  { id: "none", name: "No tax", rateIds: [] },
+  { id: "vat-10", name: "VAT 10%", rateIds: ["vat-10"] },
+  { id: "uk", name: "UK VAT 20%", rateIds: ["uk-vat-20"] },
+  {
+    id: "uk-import",
+    name: "UK import",
+    rateIds: ["uk-duty-5", "uk-import-vat-20"],
+  },
+  { id: "de", name: "Germany MwSt 19%", rateIds: ["de-mwst-19"] },
+  {
+    id: "ca-bc",
+    name: "British Columbia",
+    rateIds: ["ca-gst-5", "ca-bc-pst-7"],
+  },
+  { id: "ca-qc", name: "Québec", rateIds: ["ca-gst-5", "ca-qc-qst"] },
+  { id: "ca-on", name: "Ontario HST", rateIds: ["ca-on-hst-13"] },
+  { id: "us-nyc", name: "New York City", rateIds: ["us-nyc-sales"] },
+];
+
+export const DEFAULT_TAX_GROUP = "vat-10";
+
+export function taxGroupRates(groupId: string): string[] {
+  return taxGroups.find((group) => group.id === groupId)?.rateIds ?? [];
+}
@@ -0,0 +1,172 @@
+import { nextCounterValue } from "./counters";
+import { createCollection } from "./file-store";
+import { unknownPlaceholders } from "./macro-placeholders";
+import { SUPPORT_AGENTS, TICKET_STATUSES } from "./mock-data/support-tickets";
+import {
+  ticketMacroSeed,
+  type MacroActions,
+  type TicketMacro,
+} from "./mock-data/ticket-macros";
+
+/**
+ * Canned replies for the support desk. Support leads keep the library and
+ * agents insert a macro into a reply from the ticket page, which also runs
+ * its actions on the ticket when the reply is sent.
+ */
+
+const macros = createCollection<TicketMacro>(
+  "ticket-macros",
+  () => ticketMacroSeed
+);
+
+// By name, as the picker and the library list them
+export async function listMacros(): Promise<TicketMacro[]> {
+  return (await macros.all()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getMacro(id: string): Promise<TicketMacro | null> {
+  return (await macros.find((macro) => macro.id === id)) ?? null;
+}
+
+export type MacroInput = Pick<TicketMacro, "name" | "body" | "actions">;
+
+export type MacroResult =
+  | { macro: TicketMacro }
+  | { error: string; status: 404 | 409 };
+
+const notFound = { error: "Macro not found", status: 404 as const };
+
+function nameTaken(rows: TicketMacro[], name: string, current?: TicketMacro) {
+  return rows.some(
+    (row) => row !== current && row.name.toLowerCase() === name.toLowerCase()
+  );
+}
+
+export function createMacro(
+  input: MacroInput,
+  actor: string
+): Promise<MacroResult> {
+  return macros.update<MacroResult>(async (rows) => {
+    if (nameTaken(rows, input.name)) {
+      return {
+        error: `There is already a macro named ${input.name}`,
+        status: 409,
+      };
+    }
+    const macro: TicketMacro = {
+      id: String(
+        await nextCounterValue(
+          "ticket-macro-ids",
+          rows.reduce((max, row) => Math.max(max, Number(row.id)), 0)
+        )
+      ),
+      ...input,
+      updatedAt: new Date().toISOString(),
+      updatedBy: actor,
+    };
+    rows.push(macro);
+    return { macro };
+  });
+}
+
+export function updateMacro(
+  id: string,
+  input: MacroInput,
+  actor: string
+): Promise<MacroResult> {
+  return macros.update<MacroResult>((rows) => {
+    const macro = rows.find((row) => row.id === id);
+    if (!macro) return notFound;
+    if (nameTaken(rows, input.name, macro)) {
+      return {
+        error: `There is already a macro named ${input.name}`,
+        status: 409,
+      };
+    }
+    Object.assign(macro, input, {
+      updatedAt: new Date().toISOString(),
+      updatedBy: actor,
+    });
+    return { macro };
+  });
+}
+
+export function deleteMacro(id: string): Promise<MacroResult> {
+  return macros.update<MacroResult>((rows) => {
+    const index = rows.findIndex((row) => row.id === id);
+    if (index === -1) return notFound;
+    return { macro: rows.splice(index, 1)[0] };
+  });
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Longest macro text accepted, in characters, as for replies
+const MAX_BODY_LENGTH = 10000;
+const MAX_TAGS = 10;
+
+function parseActions(
+  input: unknown
+): { actions: MacroActions } | { error: string } {
+  if (input === undefined) return { actions: { tags: [] } };
+  if (!isRecord(input)) return { error: "Expected macro actions" };
+  const status = TICKET_STATUSES.find((value) => value === input.status);
+  if (input.status !== undefined && !status) {
+    return { error: `Expected a status of ${TICKET_STATUSES.join(", ")}` };
+  }
+  const agent = SUPPORT_AGENTS.find((value) => value === input.agent);
+  if (input.agent !== undefined && !agent) return { error: "Unknown agent" };
+  const tags = input.tags ?? [];
+  if (
+    !Array.isArray(tags) ||
+    !tags.every((tag) => typeof tag === "string" && tag.trim().length <= 40)
+  ) {
+    return { error: "Expected tags of up to 40 characters" };
+  }
+  const cleanTags = [
+    ...new Set(tags.map((tag: string) => tag.trim().toLowerCase())),
+  ].filter(Boolean);
+  if (cleanTags.length > MAX_TAGS) {
+    return { error: `Macros can add up to ${MAX_TAGS} tags` };
+  }
+  return {
+    actions: {
+      ...(status ? { status } : {}),
+      ...(agent ? { agent } : {}),
+      tags: cleanTags,
+    },
+  };
+}
+
+/**
+ * `{ "name": "...", "body": "Hi {{customer_first_name}}", "actions":
+ * { "status": "Solved", "tags": ["billing"] } }` from the macro form.
+ */
+export function parseMacroInput(
+  input: unknown
+): { macro: MacroInput } | { error: string } {
+  if (!isRecord(input)) return { error: "Expected a macro" };
+  const name = typeof input.name === "string" ? input.name.trim() : "";
+  if (!name) return { error: "A macro name is required" };
+  if (name.length > 80) {
+    return { error: "Macro names are limited to 80 characters" };
+  }
+  const body = typeof input.body === "string" ? input.body.trim() : "";
+  if (!body) return { error: "The macro text is empty" };
+  if (body.length > MAX_BODY_LENGTH) {
+    return { error: `Macros are limited to ${MAX_BODY_LENGTH} characters` };
+  }
+  const unknown = unknownPlaceholders(body);
+  if (unknown.length > 0) {
+    return {
+      error: `Unknown placeholder ${unknown
+        .map((name) => `{{${name}}}`)
+        .join(", ")}`,
+    };
+  }
+  const parsed = parseActions(input.actions);
+  if ("error" in parsed) return parsed;
+  return { macro: { name, body, actions: parsed.actions } };
+}
@@ -0,0 +1,84 @@
+import { getExchangeRates } from "./exchange-rates";
+import { createCollection } from "./file-store";
+import { seedCustomerId } from "./mock-data/customers";
+import {
+  toTransactionListRow,
+  transactionColumns,
+  transactionSeed,
+  type Transaction,
+  type TransactionListRow,
+} from "./mock-data/transactions";
+import { runTableQuery, type TablePage, type TableQuery } from "./table-query";
+
+const transactions = createCollection<Transaction>("transactions", () =>
+  transactionSeed.map((row) => ({
+    ...row,
+    customerId: seedCustomerId(row.email, row.customer),
+  }))
+);
+
+export function listTransactions(): Promise<Transaction[]> {
+  return transactions.all();
+}
+
+export async function queryTransactions(
+  query: TableQuery
+): Promise<TablePage<TransactionListRow>> {
+  const [rows, rates] = await Promise.all([
+    transactions.all(),
+    getExchangeRates(),
+  ]);
+  return runTableQuery(
+    rows.map((row) => toTransactionListRow(row, rates)),
+    transactionColumns,
+    query
+  );
+}
+
+// `id` comes from the URL; null when it names no transaction
+export async function getTransaction(id: string): Promise<Transaction | null> {
+  const transactionId = Number(id);
+  if (!Number.isInteger(transactionId)) return null;
+  return (await transactions.find((row) => row.id === transactionId)) ?? null;
+}
+
+// "19 Oct, 2026", the format the transaction list shows and sorts by
+export function formatTransactionDate(date: Date): string {
+  const day = String(date.getDate()).padStart(2, "0");
+  const month = date.toLocaleDateString("en-US", { month: "short" });
+  return `${day} ${month}, ${date.getFullYear()}`;
+}
+
+export function createTransaction(
+  input: Omit<Transaction, "id">
+): Promise<Transaction> {
+  return transactions.update((rows) => {
+    const transaction: Transaction = {
+      id: rows.reduce((max, row) => Math.max(max, row.id), 0) + 1,
+      ...input,
+    };
+    rows.push(transaction);
+    return transaction;
+  });
+}
+
+// Lets `mutate` change any of the transactions in place
+export function updateTransactions<R>(
+  mutate: (rows: Transaction[]) => R | Promise<R>
+): Promise<R> {
+  return transactions.update(mutate);
+}
+
+/**
+ * Lets `mutate` change the first transaction matching `predicate` in place.
+ * Returns what `mutate` returned, or null when nothing matched.
+ */
+export function updateTransaction<R>(
+  predicate: (row: Transaction) => boolean,
+  mutate: (transaction: Transaction) => R
+): Promise<R | null> {
+  return transactions.update((rows) => {
+    const transaction = rows.find(predicate);
+    return transaction ? mutate(transaction) : null;
+  });
+}
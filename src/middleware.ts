@@ -0,0 +1,48 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { canAccessPath, isPublicPath } from "@/lib/auth/permissions";
+import { SESSION_COOKIE, verifyToken } from "@/lib/auth/session";
+
+/**
+ * Guards every page and API route. Visitors without a session are sent to
+ * the sign-in page (or get a 401 from APIs); signed-in users without the
+ * permission a route needs see the 404 page with a 403 status, so restricted
+ * pages are not advertised.
+ */
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  if (isPublicPath(pathname)) return NextResponse.next();
+
+  const isApi = pathname.startsWith("/api/");
+  const session = await verifyToken(
+    request.cookies.get(SESSION_COOKIE)?.value,
+    "session"
+  );
+
+  if (!session) {
+    if (isApi) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+    const signInUrl = new URL("/signin", request.url);
+    signInUrl.searchParams.set("redirectTo", `${pathname}${search}`);
+    return NextResponse.redirect(signInUrl);
+  }
+
+  if (!canAccessPath(session.role, pathname)) {
+    if (isApi) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    return NextResponse.rewrite(new URL("/error-404", request.url), {
+      status: 403,
+    });
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  // Skip Next.js internals and the files served from /public
+  matcher: ["/((?!_next/static|_next/image|images/|favicon.ico).*)"],
+};